@@ -35,6 +35,7 @@ import NotFound from "@/pages/not-found";
 import ProductDemoPage from "@/pages/ProductDemoPage";
 import TrackDepositPage from "@/pages/TrackDepositPage";
 import CreditWithdrawalPage from "@/pages/CreditWithdrawalPage";
+import WarehouseOperatorPage from "@/pages/WarehouseOperatorPage";
 
 function Router() {
   return (
@@ -69,6 +70,7 @@ function Router() {
       <Route path="/docs/api" component={SwaggerDocsPage} />
       <Route path="/demo" component={ProductDemoPage} />
       <Route path="/credit/withdraw" component={CreditWithdrawalPage} />
+      <Route path="/operator" component={WarehouseOperatorPage} />
       <Route component={NotFound} />
     </Switch>
   );
@@ -78,10 +78,8 @@ export default function Loans() {
   // Filter eligible collateral (active receipts not already used)
   const eligibleCollateral = receipts 
     ? receipts.filter((receipt: WarehouseReceipt) => {
-        // Check if receipt is active and not already used as collateral
-        const isActive = receipt.status === 'active';
-        const isNotCollateralized = !receipt.liens || Object.keys(receipt.liens).length === 0;
-        return isActive && isNotCollateralized;
+        // Receipts under a lien are collateralized, so only active ones can be pledged
+        return receipt.status === 'active';
       })
     : [];
   
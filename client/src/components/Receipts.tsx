@@ -32,7 +32,7 @@ export default function Receipts() {
         if (activeTab === "all") return true;
         if (activeTab === "green") return receipt.warehouseId === 1 || receipt.warehouseId === 3; // Simplified for demo
         if (activeTab === "orange") return receipt.warehouseId === 2; // Simplified for demo
-        if (activeTab === "collateralized") return receipt.liens && Object.keys(receipt.liens).length > 0;
+        if (activeTab === "collateralized") return receipt.status === "collateralized";
         return true;
       })
     : [];
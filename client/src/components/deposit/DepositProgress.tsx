@@ -9,6 +9,7 @@ import { Button } from '@/components/ui/button';
 import { formatDate, formatDateTime } from '@/lib/utils';
 import { Truck, Package, FileCheck, ClipboardCheck, Clock, AlertTriangle, CheckCircle2, MapPin, RefreshCw } from 'lucide-react';
 import { useToast } from '@/hooks/use-toast';
+import { useAuth } from '@/hooks/useAuth';
 import WarehouseProcessFlow from './WarehouseProcessFlow';
 import { BypassDemo } from './BypassDemo';
 import ProcessStatusVisualization from './ProcessStatusVisualization';
@@ -31,6 +32,7 @@ export default function DepositProgress({ processId }: DepositProgressProps) {
   const socketRef = useRef<WebSocket | null>(null);
   const queryClient = useQueryClient();
   const { toast } = useToast();
+  const { user } = useAuth();
   
   // Fetch process data
   const { data: process, isLoading: processLoading, refetch } = useQuery({
@@ -281,9 +283,13 @@ export default function DepositProgress({ processId }: DepositProgressProps) {
     );
   }
 
+  // Only the warehouse grades, advances stages and issues the eWR
+  const canOperate = user?.role === 'warehouse_owner' || user?.role === 'admin';
+
   // Check if we should show bypass demo
   const showBypassDemo = process?.currentStage === 'pickup_scheduled' && 
-                         process?.status === 'in_progress';
+                         process?.status === 'in_progress' &&
+                         canOperate;
   
   return (
     <div className="space-y-6">
@@ -497,12 +503,14 @@ export default function DepositProgress({ processId }: DepositProgressProps) {
         />
         
         {/* Manual Progression Controls (Demo) */}
-        <ManualProgressionControls
-          processId={processId}
-          currentStage={process.currentStage}
-          status={process.status}
-          onProgressUpdate={refetch}
-        />
+        {canOperate && (
+          <ManualProgressionControls
+            processId={processId}
+            currentStage={process.currentStage}
+            status={process.status}
+            onProgressUpdate={refetch}
+          />
+        )}
 
         {/* Warehouse Education Content */}
         <WarehouseEducationContent currentStage={process.currentStage} />
@@ -397,28 +397,7 @@ export default function WarehouseProcessFlow({ process, commodity, warehouse, on
       
       const receiptResult = await receiptResponse.json();
       
-      // Then update the process to mark receipt as generated
-      const processResponse = await apiRequest(
-        "PATCH",
-        `/api/processes/${process.id}`,
-        { 
-          status: "completed",
-          currentStage: "ewr_generation",
-          stageProgress: {
-            arrived_at_warehouse: "completed",
-            pre_cleaning: "completed",
-            quality_assessment: "completed",
-            packaging: "completed",
-            ewr_generation: "completed"
-          },
-          completedTime: new Date().toISOString(),
-          updateType: "receipt"
-        }
-      );
-
-      if (!processResponse.ok) {
-        throw new Error('Failed to update process status');
-      }
+      // Process stages are recorded by the warehouse operator, not from here
       
       // Set receipt data for display
       const newReceiptData = {
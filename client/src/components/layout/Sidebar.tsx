@@ -1,7 +1,7 @@
 import { Link, useLocation } from 'wouter';
 import { cn } from '@/lib/utils';
 import { useAuth } from '@/hooks/useAuth';
-import { Warehouse, FileText, Package, BadgeDollarSign, CreditCard, FileCheck, ExternalLink, User, Settings, LogOut, Wallet } from 'lucide-react';
+import { Warehouse, FileText, Package, BadgeDollarSign, CreditCard, FileCheck, ExternalLink, User, Settings, LogOut, Wallet, ClipboardCheck } from 'lucide-react';
 import tradewiserLogo from '@assets/TradeWiser Logo_1753185456298.png';
 
 export default function Sidebar() {
@@ -147,6 +147,25 @@ export default function Sidebar() {
           </li>
         </ul>
         
+        {(user.role === 'warehouse_owner' || user.role === 'admin') && (
+          <>
+            <p className="mt-6 text-xs font-medium uppercase text-gray-500 mb-2">Warehouse Operations</p>
+            <ul>
+              <li className="mb-2">
+                <Link href="/operator" className={cn(
+                  "flex items-center p-2 rounded-md",
+                  location === "/operator" 
+                    ? "bg-primary-50 text-primary-600 font-medium" 
+                    : "text-gray-700 hover:bg-gray-100"
+                )}>
+                  <ClipboardCheck className="h-5 w-5 mr-3" />
+                  Operator Console
+                </Link>
+              </li>
+            </ul>
+          </>
+        )}
+        
         <p className="mt-6 text-xs font-medium uppercase text-gray-500 mb-2">Account</p>
         <ul>
           <li className="mb-1">
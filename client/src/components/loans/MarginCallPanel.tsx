@@ -0,0 +1,195 @@
+import { useState } from "react";
+import { useMutation, useQuery, useQueryClient } from "@tanstack/react-query";
+import { format, formatDistanceToNow } from "date-fns";
+import { apiRequest } from "@/lib/queryClient";
+import { useToast } from "@/hooks/use-toast";
+import { useRealTimeEntity } from "@/hooks/use-real-time-entity";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Badge } from "@/components/ui/badge";
+import { Checkbox } from "@/components/ui/checkbox";
+import { AlertTriangle, IndianRupee, ShieldPlus } from "lucide-react";
+import { MarginCall } from "@shared/schema";
+
+interface EligibleReceipt {
+  id: number;
+  receiptNumber: string;
+  commodityName: string;
+  quantity: string;
+  measurementUnit: string;
+  receiptValue: number;
+}
+
+const formatINR = (value: string | number) =>
+  `₹${Number(value).toLocaleString("en-IN", { maximumFractionDigits: 0 })}`;
+
+/**
+ * Open margin calls on the borrower's loans, with top-up and repayment cures
+ */
+export default function MarginCallPanel() {
+  const { data: marginCalls = [] } = useQuery<MarginCall[]>({
+    queryKey: ["/api/margin-calls"]
+  });
+
+  const open = marginCalls.filter(call => call.status === "open");
+  const recent = marginCalls.filter(call => call.status !== "open").slice(0, 3);
+
+  if (marginCalls.length === 0) {
+    return null;
+  }
+
+  return (
+    <div className="mb-8 space-y-4">
+      {open.map(call => (
+        <OpenMarginCall key={call.id} marginCall={call} />
+      ))}
+      {recent.map(call => (
+        <div key={call.id} className="flex items-center gap-3 border rounded-md p-3 text-sm">
+          <Badge variant={call.status === "cured" ? "secondary" : "destructive"}>
+            {call.status === "cured" ? "Cured" : "Defaulted"}
+          </Badge>
+          <span>Loan #{call.loanId} margin call</span>
+          <span className="text-muted-foreground">
+            {call.cureMethod ? `by ${call.cureMethod.replace("_", " ")} · ` : ""}
+            {call.resolvedAt ? format(new Date(call.resolvedAt), "dd MMM yyyy") : ""}
+          </span>
+        </div>
+      ))}
+    </div>
+  );
+}
+
+function OpenMarginCall({ marginCall }: { marginCall: MarginCall }) {
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+  const [selectedReceiptIds, setSelectedReceiptIds] = useState<number[]>([]);
+  const [amount, setAmount] = useState("");
+
+  useRealTimeEntity("loan", marginCall.loanId, {
+    onUpdate: () => queryClient.invalidateQueries({ queryKey: ["/api/margin-calls"] })
+  });
+
+  const { data: eligible } = useQuery<{ eligibleCollateral: EligibleReceipt[] }>({
+    queryKey: ["/api/loans/eligible-collateral"]
+  });
+
+  const onCureStep = async (response: Response) => {
+    const updated: MarginCall = await response.json();
+    toast({
+      title: updated.status === "cured" ? "Margin Call Cured" : "Margin Call Updated",
+      description: updated.status === "cured"
+        ? `Loan #${updated.loanId} is back within its collateral limit.`
+        : `LTV is now ${updated.currentLtv}%. ${formatINR(updated.repaymentRequired)} more repayment cures the call.`
+    });
+    setSelectedReceiptIds([]);
+    setAmount("");
+    queryClient.invalidateQueries({ queryKey: ["/api/margin-calls"] });
+    queryClient.invalidateQueries({ queryKey: ["/api/loans"] });
+    queryClient.invalidateQueries({ queryKey: ["/api/loans/eligible-collateral"] });
+  };
+
+  const onError = (error: Error) => {
+    toast({ title: "Action Failed", description: error.message, variant: "destructive" });
+  };
+
+  const topUpMutation = useMutation({
+    mutationFn: () => apiRequest("POST", `/api/margin-calls/${marginCall.id}/top-up`, { receiptIds: selectedReceiptIds }),
+    onSuccess: onCureStep,
+    onError
+  });
+
+  const repayMutation = useMutation({
+    mutationFn: () => apiRequest("POST", `/api/margin-calls/${marginCall.id}/repay`, { amount: parseFloat(amount) }),
+    onSuccess: onCureStep,
+    onError
+  });
+
+  const toggleReceipt = (receiptId: number, checked: boolean) => {
+    setSelectedReceiptIds(prev => checked ? [...prev, receiptId] : prev.filter(id => id !== receiptId));
+  };
+
+  const receipts = eligible?.eligibleCollateral || [];
+  const deadline = new Date(marginCall.deadline);
+
+  return (
+    <Card className="border-red-300">
+      <CardHeader className="pb-3">
+        <CardTitle className="text-lg flex items-center gap-2 text-red-700">
+          <AlertTriangle className="h-5 w-5" />
+          Margin Call on Loan #{marginCall.loanId}
+        </CardTitle>
+        <CardDescription>
+          Collateral value has fallen. Cure by {format(deadline, "dd MMM yyyy, HH:mm")} ({formatDistanceToNow(deadline, { addSuffix: true })}) or the loan will default and the pledged receipts will be enforced.
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        <div className="grid grid-cols-2 md:grid-cols-4 gap-4 text-sm">
+          <div>
+            <p className="text-muted-foreground">Current LTV</p>
+            <p className="font-semibold text-red-700">{marginCall.currentLtv}%</p>
+          </div>
+          <div>
+            <p className="text-muted-foreground">Collateral Value</p>
+            <p className="font-semibold">{formatINR(marginCall.collateralValue)}</p>
+          </div>
+          <div>
+            <p className="text-muted-foreground">Repay to Cure</p>
+            <p className="font-semibold">{formatINR(marginCall.repaymentRequired)}</p>
+          </div>
+          <div>
+            <p className="text-muted-foreground">Or Pledge Value</p>
+            <p className="font-semibold">{formatINR(marginCall.collateralRequired)}</p>
+          </div>
+        </div>
+
+        <div className="grid md:grid-cols-2 gap-4">
+          <div className="border rounded-md p-3 space-y-2">
+            <p className="font-medium flex items-center gap-2"><ShieldPlus className="h-4 w-4" /> Pledge more receipts</p>
+            {receipts.length === 0 ? (
+              <p className="text-sm text-muted-foreground">No unencumbered receipts available.</p>
+            ) : (
+              receipts.map(receipt => (
+                <label key={receipt.id} className="flex items-center gap-2 text-sm">
+                  <Checkbox
+                    checked={selectedReceiptIds.includes(receipt.id)}
+                    onCheckedChange={checked => toggleReceipt(receipt.id, checked === true)}
+                  />
+                  <span className="flex-1">
+                    {receipt.commodityName} · {receipt.quantity} {receipt.measurementUnit}
+                  </span>
+                  <span className="text-muted-foreground">{formatINR(receipt.receiptValue)}</span>
+                </label>
+              ))
+            )}
+            <Button
+              size="sm"
+              disabled={selectedReceiptIds.length === 0 || topUpMutation.isPending}
+              onClick={() => topUpMutation.mutate()}
+            >
+              Pledge Selected
+            </Button>
+          </div>
+
+          <div className="border rounded-md p-3 space-y-2">
+            <p className="font-medium flex items-center gap-2"><IndianRupee className="h-4 w-4" /> Repay part of the loan</p>
+            <Input
+              type="number"
+              min="1"
+              placeholder={Number(marginCall.repaymentRequired).toFixed(0)}
+              value={amount}
+              onChange={e => setAmount(e.target.value)}
+            />
+            <Button
+              size="sm"
+              disabled={!(parseFloat(amount) > 0) || repayMutation.isPending}
+              onClick={() => repayMutation.mutate()}
+            >
+              Repay
+            </Button>
+          </div>
+        </div>
+      </CardContent>
+    </Card>
+  );
+}
@@ -6,8 +6,9 @@ import { Input } from '@/components/ui/input';
 import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
 import { Badge } from '@/components/ui/badge';
 import { Separator } from '@/components/ui/separator';
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '@/components/ui/table';
 import { useToast } from '@/hooks/use-toast';
-import { queryClient } from '@/lib/queryClient';
+import { apiRequest, queryClient } from '@/lib/queryClient';
 import { 
   Receipt, 
   CreditCard, 
@@ -17,7 +18,9 @@ import {
   AlertTriangle,
   TrendingUp,
   Clock,
-  Percent
+  Percent,
+  Building2,
+  XCircle
 } from 'lucide-react';
 
 interface EligibleReceipt {
@@ -37,6 +40,36 @@ interface LoanFormData {
   durationMonths: string;
 }
 
+interface MarketplaceOffer {
+  id: number;
+  lendingPartnerId: number;
+  lendingPartnerName: string;
+  amount: string;
+  maxAmount: string;
+  interestRate: string;
+  tenureDays: number;
+  processingFeePercent: string;
+  processingFee: string;
+  emi: string;
+  totalInterest: string;
+  apr: string;
+  status: 'offered' | 'accepted' | 'declined' | 'expired';
+  declineReason: string | null;
+  validUntil: string;
+  recommended: boolean;
+}
+
+interface PledgeRequest {
+  id: number;
+  status: 'open' | 'accepted' | 'cancelled';
+  requestedAmount: string;
+  tenureDays: number;
+  offers: MarketplaceOffer[];
+  declinedPartners: Array<{ partnerId: number; partnerName: string; reason: string }> | null;
+}
+
+const formatINR = (value: string | number) => `₹${Math.round(Number(value)).toLocaleString('en-IN')}`;
+
 const StreamlinedLoanApplication = () => {
   const { toast } = useToast();
   const [selectedReceipt, setSelectedReceipt] = useState<EligibleReceipt | null>(null);
@@ -46,57 +79,80 @@ const StreamlinedLoanApplication = () => {
     durationMonths: '12'
   });
   const [calculatedEMI, setCalculatedEMI] = useState(0);
+  const [pledgeRequest, setPledgeRequest] = useState<PledgeRequest | null>(null);
 
   // Fetch eligible receipts
-  const { data: eligibleReceipts, isLoading: receiptsLoading, error } = useQuery<EligibleReceipt[]>({
+  const { data: eligibleReceipts, isLoading: receiptsLoading, error } = useQuery<{ success: boolean; data: EligibleReceipt[] }, Error, EligibleReceipt[]>({
     queryKey: ['/api/receipts/eligible-for-loans'],
+    select: (response) => response.data,
     refetchInterval: 10000 // Refresh every 10 seconds
   });
 
-  // Loan application mutation
-  const loanMutation = useMutation({
+  // Pledge the receipt and collect offers from every matching lender
+  const offersMutation = useMutation({
     mutationFn: async (loanData: LoanFormData) => {
-      const response = await fetch('/api/loans/apply', {
-        method: 'POST',
-        headers: {
-          'Content-Type': 'application/json',
-        },
-        credentials: 'include',
-        body: JSON.stringify({
-          receiptId: parseInt(loanData.receiptId),
-          amount: loanData.amount,
-          durationMonths: parseInt(loanData.durationMonths)
-        })
+      const response = await apiRequest('POST', '/api/lending/pledges', {
+        receiptIds: [parseInt(loanData.receiptId)],
+        requestedAmount: parseFloat(loanData.amount),
+        tenureDays: parseInt(loanData.durationMonths) * 30
       });
-      return response.json();
+      return response.json() as Promise<PledgeRequest>;
     },
     onSuccess: (data) => {
-      if (data.success) {
-        toast({
-          title: "✅ Loan Approved!",
-          description: data.data.message,
-          duration: 5000
-        });
-        
-        // Reset form and refresh data
-        setLoanForm({ receiptId: '', amount: '', durationMonths: '12' });
-        setSelectedReceipt(null);
-        queryClient.invalidateQueries({ queryKey: ['/api/receipts/eligible-for-loans'] });
-        queryClient.invalidateQueries({ queryKey: ['/api/portfolio'] });
-      } else {
+      setPledgeRequest(data);
+      if (data.offers.length === 0) {
         toast({
-          title: "❌ Loan Application Failed",
-          description: data.error,
+          title: "No Offers",
+          description: "No lender made an offer for this receipt. Try a smaller amount or a different receipt.",
           variant: "destructive"
         });
       }
     },
-    onError: () => {
+    onError: (error: Error) => {
+      toast({
+        title: "❌ Could Not Get Offers",
+        description: error.message,
+        variant: "destructive"
+      });
+    }
+  });
+
+  // Accept one offer; the lender's other competitors are declined
+  const acceptMutation = useMutation({
+    mutationFn: async (offerId: number) => {
+      const response = await apiRequest('POST', `/api/lending/pledges/${pledgeRequest!.id}/offers/${offerId}/accept`);
+      return response.json();
+    },
+    onSuccess: (data) => {
+      toast({
+        title: data.loan ? "✅ Loan Disbursed!" : "✅ Offer Accepted",
+        description: data.loan
+          ? `${formatINR(data.loan.amount)} from ${data.loan.lendingPartnerName} at ${data.loan.interestRate}% p.a.`
+          : "Your application has been sent to the lender. We will notify you when it is approved.",
+        duration: 5000
+      });
+
+      // Reset form and refresh data
+      setPledgeRequest(null);
+      setLoanForm({ receiptId: '', amount: '', durationMonths: '12' });
+      setSelectedReceipt(null);
+      queryClient.invalidateQueries({ queryKey: ['/api/receipts/eligible-for-loans'] });
+      queryClient.invalidateQueries({ queryKey: ['/api/portfolio'] });
+      queryClient.invalidateQueries({ queryKey: ['/api/loans'] });
+    },
+    onError: (error: Error) => {
       toast({
-        title: "❌ Application Error",
-        description: "Network error. Please try again.",
+        title: "❌ Offer Not Accepted",
+        description: error.message,
         variant: "destructive"
       });
+      // The offer may have been rejected or expired; show its latest state
+      if (pledgeRequest) {
+        apiRequest('GET', `/api/lending/pledges/${pledgeRequest.id}`)
+          .then(response => response.json())
+          .then(setPledgeRequest)
+          .catch(() => undefined);
+      }
     }
   });
 
@@ -121,6 +177,7 @@ const StreamlinedLoanApplication = () => {
   const handleReceiptSelect = (receiptId: string) => {
     const receipt = eligibleReceipts?.find(r => r.id.toString() === receiptId);
     setSelectedReceipt(receipt || null);
+    setPledgeRequest(null);
     setLoanForm(prev => ({
       ...prev,
       receiptId,
@@ -140,7 +197,7 @@ const StreamlinedLoanApplication = () => {
       return;
     }
     
-    loanMutation.mutate(loanForm);
+    offersMutation.mutate(loanForm);
   };
 
   if (receiptsLoading) {
@@ -195,7 +252,7 @@ const StreamlinedLoanApplication = () => {
             <CreditCard className="w-8 h-8 text-blue-600" />
             <div>
               <h2 className="text-2xl font-bold text-gray-900">Apply for Loan</h2>
-              <p className="text-gray-600">Get instant loans against your commodity receipts</p>
+              <p className="text-gray-600">Pledge a receipt once and compare offers from every lender</p>
             </div>
           </div>
           
@@ -203,10 +260,10 @@ const StreamlinedLoanApplication = () => {
             <div className="bg-blue-50 p-4 rounded-lg">
               <div className="flex items-center gap-2 mb-2">
                 <Percent className="w-5 h-5 text-blue-600" />
-                <span className="font-medium text-blue-900">Interest Rate</span>
+                <span className="font-medium text-blue-900">Competing Offers</span>
               </div>
-              <div className="text-2xl font-bold text-blue-600">12%</div>
-              <div className="text-sm text-blue-700">per annum</div>
+              <div className="text-2xl font-bold text-blue-600">All Lenders</div>
+              <div className="text-sm text-blue-700">compared by APR</div>
             </div>
             
             <div className="bg-green-50 p-4 rounded-lg">
@@ -214,8 +271,8 @@ const StreamlinedLoanApplication = () => {
                 <TrendingUp className="w-5 h-5 text-green-600" />
                 <span className="font-medium text-green-900">LTV Ratio</span>
               </div>
-              <div className="text-2xl font-bold text-green-600">80%</div>
-              <div className="text-sm text-green-700">of commodity value</div>
+              <div className="text-2xl font-bold text-green-600">Up to 80%</div>
+              <div className="text-sm text-green-700">of commodity value, by lender</div>
             </div>
             
             <div className="bg-purple-50 p-4 rounded-lg">
@@ -310,7 +367,10 @@ const StreamlinedLoanApplication = () => {
                   type="number"
                   placeholder="Enter amount"
                   value={loanForm.amount}
-                  onChange={(e) => setLoanForm(prev => ({ ...prev, amount: e.target.value }))}
+                  onChange={(e) => {
+                    setPledgeRequest(null);
+                    setLoanForm(prev => ({ ...prev, amount: e.target.value }));
+                  }}
                   max={selectedReceipt?.availableLoanAmount || undefined}
                   min="1000"
                   step="100"
@@ -329,7 +389,10 @@ const StreamlinedLoanApplication = () => {
                 </label>
                 <Select 
                   value={loanForm.durationMonths} 
-                  onValueChange={(value) => setLoanForm(prev => ({ ...prev, durationMonths: value }))}
+                  onValueChange={(value) => {
+                    setPledgeRequest(null);
+                    setLoanForm(prev => ({ ...prev, durationMonths: value }));
+                  }}
                 >
                   <SelectTrigger>
                     <SelectValue />
@@ -346,7 +409,7 @@ const StreamlinedLoanApplication = () => {
 
               {calculatedEMI > 0 && (
                 <div className="p-4 bg-blue-50 border border-blue-200 rounded-lg">
-                  <h4 className="font-semibold text-blue-900 mb-3">Loan Summary</h4>
+                  <h4 className="font-semibold text-blue-900 mb-3">Estimate at 12% p.a.</h4>
                   <div className="space-y-2 text-sm">
                     <div className="flex justify-between">
                       <span className="text-blue-700">Monthly EMI:</span>
@@ -371,17 +434,17 @@ const StreamlinedLoanApplication = () => {
               <Button
                 type="submit"
                 className="w-full bg-blue-600 hover:bg-blue-700"
-                disabled={loanMutation.isPending || !selectedReceipt || !loanForm.amount}
+                disabled={offersMutation.isPending || !selectedReceipt || !loanForm.amount}
               >
-                {loanMutation.isPending ? (
+                {offersMutation.isPending ? (
                   <div className="flex items-center gap-2">
                     <Loader2 className="w-4 h-4 animate-spin" />
-                    Processing Application...
+                    Requesting Offers...
                   </div>
                 ) : (
                   <div className="flex items-center gap-2">
                     <CheckCircle2 className="w-4 h-4" />
-                    Apply for Loan
+                    Get Offers
                   </div>
                 )}
               </Button>
@@ -389,6 +452,99 @@ const StreamlinedLoanApplication = () => {
           </CardContent>
         </Card>
       </div>
+
+      {/* Offer Comparison */}
+      {pledgeRequest && (
+        <Card>
+          <CardHeader>
+            <CardTitle className="flex items-center gap-2">
+              <Building2 className="w-5 h-5" />
+              Compare Offers ({pledgeRequest.offers.filter(offer => offer.status === 'offered').length} open)
+            </CardTitle>
+          </CardHeader>
+          <CardContent className="space-y-4">
+            {pledgeRequest.offers.length > 0 && (
+              <Table>
+                <TableHeader>
+                  <TableRow>
+                    <TableHead>Lender</TableHead>
+                    <TableHead className="text-right">Amount</TableHead>
+                    <TableHead className="text-right">Interest</TableHead>
+                    <TableHead className="text-right">APR</TableHead>
+                    <TableHead className="text-right">Tenure</TableHead>
+                    <TableHead className="text-right">Processing Fee</TableHead>
+                    <TableHead className="text-right">EMI</TableHead>
+                    <TableHead className="text-right">Total Interest</TableHead>
+                    <TableHead></TableHead>
+                  </TableRow>
+                </TableHeader>
+                <TableBody>
+                  {pledgeRequest.offers.map((offer) => (
+                    <TableRow key={offer.id} className={offer.recommended ? 'bg-green-50' : undefined}>
+                      <TableCell>
+                        <div className="font-medium">{offer.lendingPartnerName}</div>
+                        {offer.recommended && <Badge className="bg-green-600 mt-1">Best Value</Badge>}
+                        {offer.status !== 'offered' && (
+                          <div className="text-xs text-gray-500 mt-1">
+                            {offer.status}{offer.declineReason ? ` — ${offer.declineReason}` : ''}
+                          </div>
+                        )}
+                      </TableCell>
+                      <TableCell className="text-right">
+                        {formatINR(offer.amount)}
+                        {parseFloat(offer.amount) < parseFloat(pledgeRequest.requestedAmount) && (
+                          <div className="text-xs text-amber-600">max for this lender</div>
+                        )}
+                      </TableCell>
+                      <TableCell className="text-right">{offer.interestRate}%</TableCell>
+                      <TableCell className="text-right font-semibold">{offer.apr}%</TableCell>
+                      <TableCell className="text-right">{Math.round(offer.tenureDays / 30)} mo</TableCell>
+                      <TableCell className="text-right">
+                        {formatINR(offer.processingFee)}
+                        <div className="text-xs text-gray-500">{offer.processingFeePercent}%</div>
+                      </TableCell>
+                      <TableCell className="text-right">{formatINR(offer.emi)}</TableCell>
+                      <TableCell className="text-right">{formatINR(offer.totalInterest)}</TableCell>
+                      <TableCell className="text-right">
+                        {offer.status === 'offered' && pledgeRequest.status === 'open' && (
+                          <Button
+                            size="sm"
+                            onClick={() => acceptMutation.mutate(offer.id)}
+                            disabled={acceptMutation.isPending}
+                          >
+                            {acceptMutation.isPending && acceptMutation.variables === offer.id
+                              ? <Loader2 className="w-4 h-4 animate-spin" />
+                              : 'Accept'}
+                          </Button>
+                        )}
+                      </TableCell>
+                    </TableRow>
+                  ))}
+                </TableBody>
+              </Table>
+            )}
+
+            {pledgeRequest.declinedPartners && pledgeRequest.declinedPartners.length > 0 && (
+              <>
+                <Separator />
+                <div className="space-y-1 text-sm text-gray-600">
+                  {pledgeRequest.declinedPartners.map((partner) => (
+                    <div key={partner.partnerId} className="flex items-center gap-2">
+                      <XCircle className="w-4 h-4 text-gray-400" />
+                      <span className="font-medium">{partner.partnerName}:</span> {partner.reason}
+                    </div>
+                  ))}
+                </div>
+              </>
+            )}
+
+            <p className="text-xs text-gray-500 flex items-center gap-1">
+              <Clock className="w-3 h-3" />
+              APR includes the processing fee. Accepting an offer declines the others.
+            </p>
+          </CardContent>
+        </Card>
+      )}
     </div>
   );
 };
@@ -0,0 +1,88 @@
+import { useMutation, useQuery, useQueryClient } from "@tanstack/react-query";
+import { apiRequest } from "@/lib/queryClient";
+import { useToast } from "@/hooks/use-toast";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Check, X, ArrowRightLeft } from "lucide-react";
+import { ReceiptEndorsement, WarehouseReceipt } from "@shared/schema";
+
+type IncomingEndorsement = ReceiptEndorsement & {
+  receipt?: WarehouseReceipt;
+  endorser: string;
+};
+
+/**
+ * Receipts endorsed to the current user that wait for their acceptance
+ */
+export default function IncomingEndorsements() {
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+
+  const { data: endorsements = [] } = useQuery<IncomingEndorsement[]>({
+    queryKey: ["/api/endorsements/incoming"]
+  });
+
+  const respondMutation = useMutation({
+    mutationFn: async ({ id, accept }: { id: number; accept: boolean }) => {
+      const res = await apiRequest("POST", `/api/endorsements/${id}/${accept ? "accept" : "reject"}`, {});
+      return await res.json();
+    },
+    onSuccess: (_data, { accept }) => {
+      toast({
+        title: accept ? "Endorsement Accepted" : "Endorsement Rejected",
+        description: accept ? "The receipt is now in your name." : "The receipt stays with the endorser."
+      });
+      queryClient.invalidateQueries({ queryKey: ["/api/endorsements/incoming"] });
+      queryClient.invalidateQueries({ queryKey: ["/api/receipts"] });
+    },
+    onError: (error: Error) => {
+      toast({ title: "Action Failed", description: error.message, variant: "destructive" });
+    }
+  });
+
+  if (endorsements.length === 0) {
+    return null;
+  }
+
+  return (
+    <Card className="mb-6 border-amber-200">
+      <CardHeader className="pb-3">
+        <CardTitle className="text-lg flex items-center gap-2">
+          <ArrowRightLeft className="h-5 w-5" />
+          Receipts Endorsed to You
+        </CardTitle>
+        <CardDescription>Accept an endorsement to take ownership of the receipt.</CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-2">
+        {endorsements.map(endorsement => (
+          <div key={endorsement.id} className="flex items-center gap-3 border rounded-md p-3 text-sm">
+            <div className="flex-1">
+              <p className="font-mono text-xs">{endorsement.receipt?.receiptNumber}</p>
+              <p>
+                {endorsement.receipt?.commodityName} · {endorsement.receipt?.quantity} {endorsement.receipt?.measurementUnit || "MT"}
+              </p>
+              <p className="text-muted-foreground">
+                From {endorsement.endorser}{endorsement.note ? ` — ${endorsement.note}` : ""}
+              </p>
+            </div>
+            <Button
+              size="sm"
+              disabled={respondMutation.isPending}
+              onClick={() => respondMutation.mutate({ id: endorsement.id, accept: true })}
+            >
+              <Check className="h-4 w-4 mr-1" /> Accept
+            </Button>
+            <Button
+              size="sm"
+              variant="outline"
+              disabled={respondMutation.isPending}
+              onClick={() => respondMutation.mutate({ id: endorsement.id, accept: false })}
+            >
+              <X className="h-4 w-4 mr-1" /> Reject
+            </Button>
+          </div>
+        ))}
+      </CardContent>
+    </Card>
+  );
+}
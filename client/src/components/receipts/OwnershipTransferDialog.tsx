@@ -11,11 +11,11 @@ import { Button } from "@/components/ui/button";
 import { Input } from "@/components/ui/input";
 import { Label } from "@/components/ui/label";
 import { Textarea } from "@/components/ui/textarea";
+import { Checkbox } from "@/components/ui/checkbox";
 import { Loader2, ArrowRight, Shield } from "lucide-react";
 import { useQuery, useMutation } from "@tanstack/react-query";
 import { apiRequest } from "@/lib/queryClient";
 import { useToast } from "@/hooks/use-toast";
-import { transferOwnership } from "@/lib/blockchainUtils";
 import { WarehouseReceipt } from "@shared/schema";
 
 interface OwnershipTransferDialogProps {
@@ -36,7 +36,7 @@ export default function OwnershipTransferDialog({
   const [receiverId, setReceiverId] = useState<number | null>(null);
   const [transferNote, setTransferNote] = useState("");
   const [isVerifying, setIsVerifying] = useState(false);
-  const [isBlockchainProcessing, setIsBlockchainProcessing] = useState(false);
+  const [holderConsent, setHolderConsent] = useState(false);
 
   // Query to fetch users for verification
   const { data: users } = useQuery({
@@ -75,45 +75,25 @@ export default function OwnershipTransferDialog({
     }, 1000);
   };
 
-  // Transfer ownership
+  // Endorse the receipt; ownership moves once the receiver accepts
   const transferMutation = useMutation({
     mutationFn: async () => {
       if (!receiverId) {
         throw new Error("No receiver selected");
       }
 
-      setIsBlockchainProcessing(true);
-      
-      try {
-        // Record on blockchain first
-        const blockchainResult = await transferOwnership(
-          receipt.id,
-          receiverId,
-          receipt.ownerId
-        );
-        
-        // Then record in our system
-        const response = await apiRequest("POST", `/api/receipts/${receipt.id}/transfer`, {
-          receiverId,
-          transferType: "endorsement",
-          transactionHash: blockchainResult.transactionHash,
-          note: transferNote
-        });
-        
-        if (!response.ok) {
-          const errorData = await response.json();
-          throw new Error(errorData.message || "Transfer failed");
-        }
-        
-        return await response.json();
-      } finally {
-        setIsBlockchainProcessing(false);
-      }
+      const response = await apiRequest("POST", `/api/receipts/${receipt.id}/transfer`, {
+        receiverId,
+        consent: holderConsent,
+        note: transferNote
+      });
+
+      return await response.json();
     },
     onSuccess: () => {
       toast({
-        title: "Ownership Transferred",
-        description: "The receipt ownership has been transferred successfully.",
+        title: "Receipt Endorsed",
+        description: "Ownership will transfer once the receiver accepts the endorsement.",
       });
       onTransferComplete();
       onClose();
@@ -131,9 +111,9 @@ export default function OwnershipTransferDialog({
     <Dialog open={isOpen} onOpenChange={onClose}>
       <DialogContent className="sm:max-w-md">
         <DialogHeader>
-          <DialogTitle>Transfer Receipt Ownership</DialogTitle>
+          <DialogTitle>Endorse Receipt</DialogTitle>
           <DialogDescription>
-            Transfer ownership of receipt #{receipt.receiptNumber} using blockchain verification
+            Endorse negotiable receipt #{receipt.receiptNumber} to another user
           </DialogDescription>
         </DialogHeader>
         
@@ -176,38 +156,51 @@ export default function OwnershipTransferDialog({
               />
             </div>
           )}
+
+          {receiverId && (
+            <div className="flex items-start gap-2">
+              <Checkbox
+                id="holder-consent"
+                checked={holderConsent}
+                onCheckedChange={(checked) => setHolderConsent(checked === true)}
+              />
+              <Label htmlFor="holder-consent" className="text-sm font-normal leading-snug">
+                As the holder of this receipt, I endorse it and the goods it represents to the receiver
+              </Label>
+            </div>
+          )}
           
           <div className="bg-muted p-3 rounded-md flex items-start gap-2">
             <Shield className="h-5 w-5 text-primary mt-0.5" />
             <div className="text-sm">
-              <p className="font-medium">Blockchain Secured Transfer</p>
+              <p className="font-medium">Recorded Endorsement Chain</p>
               <p className="text-muted-foreground">
-                This transfer will be recorded on the blockchain for enhanced security 
-                and transparency. The receiver will be able to verify the authenticity
-                of this receipt with its complete ownership history.
+                The receiver must accept the endorsement before ownership changes.
+                Each accepted endorsement is hash-linked to the previous one and shown
+                when the receipt is verified.
               </p>
             </div>
           </div>
         </div>
         
         <DialogFooter className="sm:justify-between">
-          <Button variant="outline" onClick={onClose} disabled={isBlockchainProcessing}>
+          <Button variant="outline" onClick={onClose} disabled={transferMutation.isPending}>
             Cancel
           </Button>
           <Button
             onClick={() => transferMutation.mutate()}
-            disabled={!receiverId || isBlockchainProcessing}
+            disabled={!receiverId || !holderConsent || transferMutation.isPending}
             className="gap-2"
           >
-            {isBlockchainProcessing ? (
+            {transferMutation.isPending ? (
               <>
                 <Loader2 className="h-4 w-4 animate-spin" />
-                Recording on Blockchain
+                Endorsing
               </>
             ) : (
               <>
                 <ArrowRight className="h-4 w-4" />
-                Transfer Ownership
+                Endorse Receipt
               </>
             )}
           </Button>
@@ -0,0 +1,239 @@
+import { useState } from "react";
+import { useMutation, useQuery, useQueryClient } from "@tanstack/react-query";
+import { apiRequest } from "@/lib/queryClient";
+import { useToast } from "@/hooks/use-toast";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Checkbox } from "@/components/ui/checkbox";
+import { Badge } from "@/components/ui/badge";
+import { Loader2, Plus, Trash2, GitBranch } from "lucide-react";
+import { WarehouseReceipt, ReceiptLineage } from "@shared/schema";
+
+interface LineageResponse {
+  ancestors: ReceiptLineage[];
+  descendants: ReceiptLineage[];
+  receipts: { id: number; receiptNumber: string; quantity: string; status: string }[];
+}
+
+const lineageLabels: Record<string, string> = {
+  partial_withdrawal: "Residual after withdrawal",
+  split: "Split",
+  merge: "Merge"
+};
+
+/**
+ * Whether a receipt can be split or merged (active, unencumbered, not under dispute)
+ */
+export function isTradableLot(receipt: WarehouseReceipt) {
+  return receipt.status === "active" && !receipt.isFrozen && parseFloat(receipt.collateralUsed || "0") === 0;
+}
+
+interface SplitReceiptDialogProps {
+  receipt: WarehouseReceipt;
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+}
+
+export function SplitReceiptDialog({ receipt, open, onOpenChange }: SplitReceiptDialogProps) {
+  const total = parseFloat(receipt.quantity);
+  const [quantities, setQuantities] = useState<string[]>([(total / 2).toFixed(2), (total / 2).toFixed(2)]);
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+
+  const allocated = quantities.reduce((sum, q) => sum + (parseFloat(q) || 0), 0);
+  const balanced = Math.abs(allocated - total) < 0.005 && quantities.every(q => parseFloat(q) > 0);
+
+  const splitMutation = useMutation({
+    mutationFn: async () => {
+      const res = await apiRequest("POST", `/api/receipts/${receipt.id}/split`, {
+        quantities: quantities.map(q => parseFloat(q))
+      });
+      return await res.json();
+    },
+    onSuccess: (data) => {
+      toast({ title: "Receipt Split", description: `${data.children.length} child receipts issued` });
+      queryClient.invalidateQueries({ queryKey: ["/api/receipts"] });
+      onOpenChange(false);
+    },
+    onError: (error: Error) => {
+      toast({ title: "Split Failed", description: error.message, variant: "destructive" });
+    }
+  });
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="sm:max-w-[480px]">
+        <DialogHeader>
+          <DialogTitle>Split Lot</DialogTitle>
+          <DialogDescription>
+            Split {receipt.receiptNumber} ({receipt.quantity} {receipt.measurementUnit || "MT"}) into child receipts.
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="space-y-2">
+          {quantities.map((quantity, index) => (
+            <div key={index} className="flex items-center gap-2">
+              <Label className="w-16">Lot {index + 1}</Label>
+              <Input
+                type="number"
+                step="0.01"
+                value={quantity}
+                onChange={(e) => setQuantities(prev => prev.map((q, i) => i === index ? e.target.value : q))}
+              />
+              <Button
+                variant="ghost"
+                size="icon"
+                disabled={quantities.length <= 2}
+                onClick={() => setQuantities(prev => prev.filter((_, i) => i !== index))}
+              >
+                <Trash2 className="h-4 w-4" />
+              </Button>
+            </div>
+          ))}
+          <Button variant="outline" size="sm" onClick={() => setQuantities(prev => [...prev, "0"])}>
+            <Plus className="h-4 w-4 mr-1" /> Add Lot
+          </Button>
+          <p className={`text-sm ${balanced ? "text-muted-foreground" : "text-red-600"}`}>
+            Allocated {allocated.toFixed(2)} of {total.toFixed(2)} {receipt.measurementUnit || "MT"}
+          </p>
+        </div>
+
+        <DialogFooter>
+          <Button variant="outline" onClick={() => onOpenChange(false)}>Cancel</Button>
+          <Button disabled={!balanced || splitMutation.isPending} onClick={() => splitMutation.mutate()}>
+            {splitMutation.isPending && <Loader2 className="h-4 w-4 mr-2 animate-spin" />}
+            Split
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
+
+interface MergeReceiptsDialogProps {
+  receipts: WarehouseReceipt[];
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+}
+
+export function MergeReceiptsDialog({ receipts, open, onOpenChange }: MergeReceiptsDialogProps) {
+  const [selectedIds, setSelectedIds] = useState<number[]>([]);
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+
+  const candidates = receipts.filter(isTradableLot);
+  const selected = candidates.filter(r => selectedIds.includes(r.id));
+  const first = selected[0];
+
+  // Only receipts matching the first selection (commodity, grade, warehouse) stay selectable
+  const isCompatible = (receipt: WarehouseReceipt) => !first || (
+    (receipt.commodityName || "").toLowerCase() === (first.commodityName || "").toLowerCase() &&
+    (receipt.qualityGrade || "").toLowerCase() === (first.qualityGrade || "").toLowerCase() &&
+    receipt.warehouseId === first.warehouseId
+  );
+
+  const mergeMutation = useMutation({
+    mutationFn: async () => {
+      const res = await apiRequest("POST", "/api/receipts/merge", { receiptIds: selectedIds });
+      return await res.json();
+    },
+    onSuccess: (data) => {
+      toast({ title: "Receipts Merged", description: `Receipt ${data.merged.receiptNumber} issued` });
+      queryClient.invalidateQueries({ queryKey: ["/api/receipts"] });
+      setSelectedIds([]);
+      onOpenChange(false);
+    },
+    onError: (error: Error) => {
+      toast({ title: "Merge Failed", description: error.message, variant: "destructive" });
+    }
+  });
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="sm:max-w-[560px]">
+        <DialogHeader>
+          <DialogTitle>Merge Lots</DialogTitle>
+          <DialogDescription>
+            Combine receipts for the same commodity and grade held at the same warehouse.
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="space-y-2 max-h-[320px] overflow-y-auto">
+          {candidates.length === 0 && (
+            <p className="text-sm text-muted-foreground">No active, unpledged receipts available to merge.</p>
+          )}
+          {candidates.map(receipt => (
+            <label
+              key={receipt.id}
+              className={`flex items-center gap-3 border rounded-md p-2 text-sm ${isCompatible(receipt) ? "" : "opacity-50"}`}
+            >
+              <Checkbox
+                checked={selectedIds.includes(receipt.id)}
+                disabled={!isCompatible(receipt) && !selectedIds.includes(receipt.id)}
+                onCheckedChange={(checked) => setSelectedIds(prev =>
+                  checked ? [...prev, receipt.id] : prev.filter(id => id !== receipt.id)
+                )}
+              />
+              <span className="font-mono text-xs">{receipt.receiptNumber}</span>
+              <span>{receipt.commodityName}</span>
+              <span className="text-muted-foreground">{receipt.qualityGrade}</span>
+              <span className="ml-auto">{receipt.quantity} {receipt.measurementUnit || "MT"}</span>
+            </label>
+          ))}
+        </div>
+
+        <DialogFooter>
+          <Button variant="outline" onClick={() => onOpenChange(false)}>Cancel</Button>
+          <Button disabled={selectedIds.length < 2 || mergeMutation.isPending} onClick={() => mergeMutation.mutate()}>
+            {mergeMutation.isPending && <Loader2 className="h-4 w-4 mr-2 animate-spin" />}
+            Merge {selectedIds.length > 1 ? `${selectedIds.length} Receipts` : ""}
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
+
+/**
+ * Parent and child receipts linked to a receipt through splits, merges and partial withdrawals
+ */
+export function ReceiptLineagePanel({ receiptId }: { receiptId: number }) {
+  const { data } = useQuery<LineageResponse>({
+    queryKey: [`/api/receipts/${receiptId}/lineage`]
+  });
+
+  if (!data || (data.ancestors.length === 0 && data.descendants.length === 0)) {
+    return null;
+  }
+
+  const numberOf = (id: number) => data.receipts.find(r => r.id === id)?.receiptNumber || `#${id}`;
+
+  return (
+    <div className="border rounded-md p-3 text-sm space-y-2">
+      <h4 className="font-medium flex items-center gap-2"><GitBranch className="h-4 w-4" /> Lot Lineage</h4>
+      {data.ancestors.map(link => (
+        <div key={`a-${link.id}`} className="flex items-center gap-2">
+          <Badge variant="outline">{lineageLabels[link.lineageType]}</Badge>
+          <span>from <span className="font-mono text-xs">{numberOf(link.parentReceiptId)}</span></span>
+          <span className="ml-auto">{link.quantity}</span>
+        </div>
+      ))}
+      {data.descendants.map(link => (
+        <div key={`d-${link.id}`} className="flex items-center gap-2">
+          <Badge variant="outline">{lineageLabels[link.lineageType]}</Badge>
+          <span>into <span className="font-mono text-xs">{numberOf(link.childReceiptId)}</span></span>
+          <span className="ml-auto">{link.quantity}</span>
+        </div>
+      ))}
+    </div>
+  );
+}
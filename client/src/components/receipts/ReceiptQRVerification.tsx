@@ -4,44 +4,188 @@ import { QrReader } from 'react-qr-reader';
 import { useNavigate } from 'wouter';
 import { Button } from "@/components/ui/button";
 import { Dialog, DialogContent, DialogHeader, DialogTitle } from "@/components/ui/dialog";
-import { Scan } from 'lucide-react';
+import { Alert, AlertDescription, AlertTitle } from "@/components/ui/alert";
+import { Scan, ShieldCheck, AlertTriangle, Clock } from 'lucide-react';
+import { apiRequest } from '@/lib/queryClient';
+import { verifyReceiptProof, type ProofResult } from '@/lib/receiptProof';
+import { verifyScannedQr } from '@/lib/qrVerification';
+import { extractQrToken, type QrVerification } from '@shared/qrPayload';
+
+// Verification code from a scanned receipt link, ignoring any ?qr= token
+function codeFromUrl(text: string) {
+  try {
+    return new URL(text).pathname.split('/').pop() || null;
+  } catch {
+    return text.split('/').pop()?.split('?')[0] || null;
+  }
+}
 
 export default function ReceiptQRVerification() {
   const [isOpen, setIsOpen] = useState(false);
+  const [scanned, setScanned] = useState<string | null>(null);
+  const [verificationCode, setVerificationCode] = useState<string | null>(null);
+  const [signature, setSignature] = useState<QrVerification | null>(null);
+  const [result, setResult] = useState<ProofResult | null>(null);
+  const [checking, setChecking] = useState(false);
   const navigate = useNavigate();
 
+  // Check the platform signature offline, then the receipt's ledger proof when online
+  const verify = async (text: string) => {
+    setChecking(true);
+    const signed = extractQrToken(text) ? await verifyScannedQr(text) : null;
+    setSignature(signed);
+
+    // Sack tags carry everything needed in the signed payload
+    if (signed?.claims?.typ !== 'sack') {
+      const code = signed?.claims?.typ === 'receipt'
+        ? signed.claims.verificationCode ?? signed.claims.receiptNumber
+        : codeFromUrl(text);
+      setVerificationCode(code);
+
+      if (code) {
+        try {
+          const response = await apiRequest('GET', `/api/receipts/verify/${code}`);
+          const receipt = await response.json();
+          setResult(await verifyReceiptProof(receipt, receipt.proof));
+        } catch (err) {
+          console.error('Verification error:', err);
+          setResult({
+            status: signed ? 'unavailable' : 'failed',
+            state: null,
+            blockHeight: null,
+            blockHash: null,
+            merkleRoot: null,
+            committedAt: null,
+            message: signed
+              ? 'The ledger proof needs a connection; the signature was checked offline'
+              : 'Invalid verification code or receipt not found'
+          });
+        }
+      }
+    }
+    setChecking(false);
+  };
+
   const handleScan = (result: any) => {
-    if (result) {
-      // Extract verification code from URL
-      const url = result?.text;
-      const verificationCode = url.split('/').pop();
-      
-      if (verificationCode) {
-        setIsOpen(false);
-        navigate(`/receipts/verify/${verificationCode}`);
+    if (result && !scanned) {
+      const text = result?.text;
+      if (text) {
+        setScanned(text);
+        verify(text);
       }
     }
   };
 
+  const reset = () => {
+    setScanned(null);
+    setVerificationCode(null);
+    setSignature(null);
+    setResult(null);
+  };
+
+  const handleOpenChange = (open: boolean) => {
+    setIsOpen(open);
+    if (!open) reset();
+  };
+
+  const claims = signature?.claims;
+  const signatureFailed = !!signature && !signature.valid;
+  const proofFailed = result?.status === 'failed' || result?.status === 'changed';
+
   return (
     <>
       <Button variant="outline" size="sm" onClick={() => setIsOpen(true)}>
         <Scan className="h-4 w-4 mr-2" />
-        Scan Receipt QR
+        Scan QR Code
       </Button>
 
-      <Dialog open={isOpen} onOpenChange={setIsOpen}>
+      <Dialog open={isOpen} onOpenChange={handleOpenChange}>
         <DialogContent>
           <DialogHeader>
-            <DialogTitle>Scan Warehouse Receipt QR Code</DialogTitle>
+            <DialogTitle>Scan Receipt or Sack QR Code</DialogTitle>
           </DialogHeader>
-          <div className="aspect-square overflow-hidden rounded-lg">
-            <QrReader
-              constraints={{ facingMode: 'environment' }}
-              onResult={handleScan}
-              className="w-full"
-            />
-          </div>
+          {!scanned ? (
+            <div className="aspect-square overflow-hidden rounded-lg">
+              <QrReader
+                constraints={{ facingMode: 'environment' }}
+                onResult={handleScan}
+                className="w-full"
+              />
+            </div>
+          ) : checking ? (
+            <div className="flex flex-col items-center py-8">
+              <div className="h-8 w-8 rounded-full border-4 border-primary border-t-transparent animate-spin mb-4"></div>
+              <p className="text-sm text-muted-foreground">Checking the code...</p>
+            </div>
+          ) : (
+            <div className="space-y-4">
+              {signature && (
+                <Alert variant={signature.valid ? 'default' : 'destructive'}>
+                  {signature.valid ? <ShieldCheck className="h-4 w-4" /> : <AlertTriangle className="h-4 w-4" />}
+                  <AlertTitle>{signature.valid ? 'Signed by TradeWiser' : 'Signature invalid'}</AlertTitle>
+                  <AlertDescription>
+                    {signature.valid ? `Platform key ${claims!.kid}` : signature.reason}
+                  </AlertDescription>
+                </Alert>
+              )}
+
+              {result && (
+                <Alert variant={proofFailed ? 'destructive' : 'default'}>
+                  {result.status === 'verified' ? <ShieldCheck className="h-4 w-4" />
+                    : result.status === 'pending' || result.status === 'unavailable' ? <Clock className="h-4 w-4" />
+                    : <AlertTriangle className="h-4 w-4" />}
+                  <AlertTitle>
+                    {result.status === 'verified' ? 'Ledger proof verified'
+                      : result.status === 'pending' ? 'Awaiting sealing'
+                      : result.status === 'unavailable' ? 'Ledger proof unavailable'
+                      : 'Ledger proof failed'}
+                  </AlertTitle>
+                  <AlertDescription>{result.message}</AlertDescription>
+                </Alert>
+              )}
+
+              {claims?.typ === 'sack' && !signatureFailed && (
+                <div className="text-sm space-y-1">
+                  <p><span className="font-medium">Sack:</span> {claims.sackId}</p>
+                  <p><span className="font-medium">Receipt:</span> {claims.receiptNumber || 'Not assigned'}</p>
+                  <p><span className="font-medium">Weight:</span> {claims.weight} {claims.unit}</p>
+                  <p><span className="font-medium">Grade:</span> {claims.grade || 'Ungraded'}</p>
+                  <p className="text-xs text-muted-foreground">Tagged {new Date(claims.iat).toLocaleString()}</p>
+                </div>
+              )}
+
+              {claims?.typ === 'receipt' && !signatureFailed && !result?.state && (
+                <div className="text-sm space-y-1">
+                  <p><span className="font-medium">Receipt:</span> {claims.receiptNumber}</p>
+                  <p><span className="font-medium">Commodity:</span> {claims.commodity || 'Not available'}</p>
+                  <p><span className="font-medium">Quantity:</span> {claims.quantity} {claims.unit}</p>
+                </div>
+              )}
+
+              {result?.state && (
+                <div className="text-sm space-y-1">
+                  <p><span className="font-medium">Receipt:</span> {result.state.receiptNumber}</p>
+                  <p><span className="font-medium">Commodity:</span> {result.state.commodityName || 'Not available'}</p>
+                  <p><span className="font-medium">Quantity:</span> {result.state.quantity} {result.state.measurementUnit || 'MT'}</p>
+                  <p><span className="font-medium">Status:</span> {result.state.status}</p>
+                  {result.merkleRoot && (
+                    <p className="font-mono text-[10px] text-muted-foreground truncate">Merkle root {result.merkleRoot}</p>
+                  )}
+                </div>
+              )}
+
+              <div className="flex gap-2">
+                <Button variant="outline" className="flex-1" onClick={reset}>
+                  Scan again
+                </Button>
+                {verificationCode && (
+                  <Button className="flex-1" onClick={() => navigate(`/receipts/verify/${verificationCode}`)}>
+                    View receipt
+                  </Button>
+                )}
+              </div>
+            </div>
+          )}
         </DialogContent>
       </Dialog>
     </>
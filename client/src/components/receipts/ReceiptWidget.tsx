@@ -124,27 +124,40 @@ export default function ReceiptWidget() {
         console.error("Error parsing receipt metadata:", err);
       }
       
-      // Add QR code for verification if we have a verification code
-      if (verificationCode) {
-        const qrUrl = `${window.location.origin}/receipts/verify/${verificationCode}`;
+      // Add a platform-signed QR code for verification, falling back to the bare link
+      let qrCodeDataUrl = '';
+      try {
+        const response = await fetch(`/api/qr/receipts/${receipt.id}`, { credentials: "include" });
+        if (response.ok) {
+          qrCodeDataUrl = (await response.json()).qrDataUrl;
+        }
+      } catch (err) {
+        console.error("Error fetching signed QR code:", err);
+      }
+
+      if (!qrCodeDataUrl && verificationCode) {
         try {
-          const qrCodeDataUrl = await QRCode.toDataURL(qrUrl, {
+          qrCodeDataUrl = await QRCode.toDataURL(`${window.location.origin}/receipts/verify/${verificationCode}`, {
             width: 120,
             margin: 1,
           });
-          
-          // Add QR code to PDF
-          doc.addImage(qrCodeDataUrl, "PNG", 140, 70, 40, 40);
-          
-          // Add verification text
-          doc.setFontSize(9);
-          doc.setTextColor(100, 100, 100);
-          doc.text("Scan to verify authenticity", 160, 115, { align: "center" });
-          doc.text(`Verification Code: ${verificationCode}`, 160, 120, { align: "center" });
         } catch (err) {
           console.error("Error generating QR code:", err);
         }
       }
+
+      if (qrCodeDataUrl) {
+        // Add QR code to PDF
+        doc.addImage(qrCodeDataUrl, "PNG", 140, 70, 40, 40);
+
+        // Add verification text
+        doc.setFontSize(9);
+        doc.setTextColor(100, 100, 100);
+        doc.text("Scan to verify authenticity", 160, 115, { align: "center" });
+        if (verificationCode) {
+          doc.text(`Verification Code: ${verificationCode}`, 160, 120, { align: "center" });
+        }
+      }
       
       // Add blockchain information if available
       if (receipt.blockchainHash) {
@@ -284,8 +297,8 @@ export default function ReceiptWidget() {
     queryClient.invalidateQueries({ queryKey: ['/api/receipts'] });
     
     toast({
-      title: "Transfer Success",
-      description: "Receipt ownership has been transferred successfully.",
+      title: "Endorsement Sent",
+      description: "The receiver has been asked to accept the receipt.",
     });
   };
 
@@ -423,15 +436,17 @@ export default function ReceiptWidget() {
                     
                     {receipt.status === "active" && (
                       <>
-                        <Button
-                          variant="secondary"
-                          size="sm"
-                          className="gap-1"
-                          onClick={() => handleTransferOwnership(receipt)}
-                        >
-                          <ArrowRight className="h-4 w-4" />
-                          Transfer Ownership
-                        </Button>
+                        {receipt.receiptType !== "non_negotiable" && (
+                          <Button
+                            variant="secondary"
+                            size="sm"
+                            className="gap-1"
+                            onClick={() => handleTransferOwnership(receipt)}
+                          >
+                            <ArrowRight className="h-4 w-4" />
+                            Endorse
+                          </Button>
+                        )}
                         
                         <Button
                           variant="default"
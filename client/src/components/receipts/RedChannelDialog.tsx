@@ -5,53 +5,67 @@ import { Input } from '@/components/ui/input';
 import { Textarea } from '@/components/ui/textarea';
 import { Form, FormControl, FormDescription, FormField, FormItem, FormLabel, FormMessage } from '@/components/ui/form';
 import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
-import { Check, AlertCircle, FileText, Info, Shield } from 'lucide-react';
+import { Check, AlertCircle, FileText, Shield } from 'lucide-react';
 import { useForm } from 'react-hook-form';
 import { zodResolver } from '@hookform/resolvers/zod';
 import * as z from 'zod';
 import { useToast } from '@/hooks/use-toast';
-import { apiRequest } from '@/lib/queryClient';
-import { useQueryClient } from '@tanstack/react-query';
+import { useQuery, useQueryClient } from '@tanstack/react-query';
 
 // Schema for the form
-const selfCertFormSchema = z.object({
-  receiptNumber: z.string().min(1, 'Receipt number is required'),
-  commodityName: z.string().min(1, 'Commodity name is required'),
-  quantity: z.string().min(1, 'Quantity is required'),
-  measurementUnit: z.string().default('MT'),
-  qualityGrade: z.string().optional(),
-  location: z.string().min(1, 'Storage location is required'),
-  description: z.string().optional(),
-  valuation: z.string().optional()
+const disputeFormSchema = z.object({
+  receiptId: z.string().min(1, 'Select the receipt to dispute'),
+  disputeType: z.enum(['quality', 'quantity', 'valuation', 'authenticity', 'legal'], {
+    required_error: 'Dispute type is required'
+  }),
+  priority: z.enum(['low', 'medium', 'high', 'critical']).default('medium'),
+  description: z.string().min(10, 'Describe the issue in at least 10 characters')
 });
 
-type SelfCertFormValues = z.infer<typeof selfCertFormSchema>;
+type DisputeFormValues = z.infer<typeof disputeFormSchema>;
 
 type Stage = 'form' | 'submitting' | 'success' | 'error';
 
+interface ReceiptOption {
+  id: number;
+  receiptNumber: string;
+  commodityName?: string | null;
+  isFrozen?: boolean | null;
+}
+
 interface RedChannelDialogProps {
   isOpen: boolean;
   onClose: () => void;
+  receiptId?: number;
 }
 
-export function RedChannelDialog({ isOpen, onClose }: RedChannelDialogProps) {
+export const disputeTypeLabels = {
+  quality: 'Quality Issues',
+  quantity: 'Quantity Discrepancy',
+  valuation: 'Valuation Dispute',
+  authenticity: 'Authenticity Concerns',
+  legal: 'Legal Issues'
+};
+
+export function RedChannelDialog({ isOpen, onClose, receiptId }: RedChannelDialogProps) {
   const [stage, setStage] = useState<Stage>('form');
   const [errorMessage, setErrorMessage] = useState<string>('');
+  const [evidenceFiles, setEvidenceFiles] = useState<File[]>([]);
   const { toast } = useToast();
   const queryClient = useQueryClient();
 
+  const { data: receipts } = useQuery<ReceiptOption[]>({
+    queryKey: ['/api/receipts'],
+    enabled: isOpen
+  });
+
   // Form handling
-  const form = useForm<SelfCertFormValues>({
-    resolver: zodResolver(selfCertFormSchema),
+  const form = useForm<DisputeFormValues>({
+    resolver: zodResolver(disputeFormSchema),
     defaultValues: {
-      receiptNumber: `SELF-${Math.floor(Math.random() * 10000)}`,
-      commodityName: '',
-      quantity: '',
-      measurementUnit: 'MT',
-      qualityGrade: 'Standard',
-      location: '',
-      description: '',
-      valuation: ''
+      receiptId: receiptId ? String(receiptId) : '',
+      priority: 'medium',
+      description: ''
     }
   });
 
@@ -60,63 +74,59 @@ export function RedChannelDialog({ isOpen, onClose }: RedChannelDialogProps) {
     if (isOpen) {
       setStage('form');
       setErrorMessage('');
+      setEvidenceFiles([]);
       form.reset({
-        receiptNumber: `SELF-${Math.floor(Math.random() * 10000)}`,
-        commodityName: '',
-        quantity: '',
-        measurementUnit: 'MT',
-        qualityGrade: 'Standard',
-        location: '',
-        description: '',
-        valuation: ''
+        receiptId: receiptId ? String(receiptId) : '',
+        priority: 'medium',
+        description: ''
       });
     }
-  }, [isOpen, form]);
+  }, [isOpen, receiptId, form]);
 
   // Handle form submission
-  const onSubmit = async (values: SelfCertFormValues) => {
+  const onSubmit = async (values: DisputeFormValues) => {
     try {
       setStage('submitting');
-      
-      // Add channel and self-certification metadata
-      const receiptData = {
-        ...values,
-        channelType: 'red',
-        metadata: {
-          isSelfCertified: true,
-          certificationDate: new Date().toISOString(),
-          storageLocation: values.location
-        }
-      };
-      
-      // Submit to API
-      const response = await apiRequest('POST', '/api/receipts/manual', receiptData);
-      
-      if (response.ok) {
-        setStage('success');
-        toast({
-          title: 'Self-Certified Receipt Created',
-          description: 'Your commodity has been successfully registered in the system.',
-        });
-        
-        // Refresh receipts data
-        queryClient.invalidateQueries({ queryKey: ['/api/receipts'] });
-        
-        // Close dialog after success with delay
-        setTimeout(() => {
-          onClose();
-        }, 2000);
-      } else {
+
+      // Multipart request so evidence files travel with the dispute
+      const formData = new FormData();
+      formData.append('receiptId', values.receiptId);
+      formData.append('disputeType', values.disputeType);
+      formData.append('priority', values.priority);
+      formData.append('description', values.description);
+      evidenceFiles.forEach(file => formData.append('evidence', file));
+
+      const response = await fetch('/api/disputes', {
+        method: 'POST',
+        body: formData,
+        credentials: 'include'
+      });
+
+      if (!response.ok) {
         const error = await response.json();
-        throw new Error(error.message || 'Failed to create self-certified receipt');
+        throw new Error(error.message || 'Failed to file dispute');
       }
+
+      setStage('success');
+      toast({
+        title: 'Dispute Filed',
+        description: 'The receipt is frozen until the dispute is closed.',
+      });
+
+      queryClient.invalidateQueries({ queryKey: ['/api/disputes'] });
+      queryClient.invalidateQueries({ queryKey: ['/api/receipts'] });
+
+      // Close dialog after success with delay
+      setTimeout(() => {
+        onClose();
+      }, 2000);
     } catch (error) {
       console.error('Submission error:', error);
       setStage('error');
       setErrorMessage(error instanceof Error ? error.message : 'Unknown error occurred');
       toast({
-        title: 'Creation Failed',
-        description: error instanceof Error ? error.message : 'Failed to create self-certified receipt',
+        title: 'Dispute Failed',
+        description: error instanceof Error ? error.message : 'Failed to file dispute',
         variant: 'destructive',
       });
     }
@@ -133,55 +143,60 @@ export function RedChannelDialog({ isOpen, onClose }: RedChannelDialogProps) {
                 <div className="flex">
                   <Shield className="h-5 w-5 text-red-500 mr-2" />
                   <div>
-                    <p className="text-sm font-medium text-red-800">Red Channel - Self-Certified</p>
+                    <p className="text-sm font-medium text-red-800">Red Channel - Dispute</p>
                     <p className="text-xs text-red-700">
-                      By submitting this form, you certify that you own the specified commodity. 
-                      Self-certified receipts have limited collateral value compared to verified receipts.
+                      Filing a dispute freezes the receipt: it cannot be transferred, pledged or withdrawn
+                      until the dispute is resolved or rejected.
                     </p>
                   </div>
                 </div>
               </div>
 
-              <div className="grid grid-cols-2 gap-4">
-                <FormField
-                  control={form.control}
-                  name="receiptNumber"
-                  render={({ field }) => (
-                    <FormItem>
-                      <FormLabel>Receipt Number*</FormLabel>
-                      <FormControl>
-                        <Input {...field} placeholder="SELF-12345" />
-                      </FormControl>
-                      <FormMessage />
-                    </FormItem>
-                  )}
-                />
-
-                <FormField
-                  control={form.control}
-                  name="commodityName"
-                  render={({ field }) => (
-                    <FormItem>
-                      <FormLabel>Commodity Name*</FormLabel>
+              <FormField
+                control={form.control}
+                name="receiptId"
+                render={({ field }) => (
+                  <FormItem>
+                    <FormLabel>Receipt*</FormLabel>
+                    <Select onValueChange={field.onChange} value={field.value}>
                       <FormControl>
-                        <Input {...field} placeholder="e.g. Wheat, Rice, Cotton" />
+                        <SelectTrigger>
+                          <SelectValue placeholder="Select receipt" />
+                        </SelectTrigger>
                       </FormControl>
-                      <FormMessage />
-                    </FormItem>
-                  )}
-                />
-              </div>
+                      <SelectContent>
+                        {receipts?.map(receipt => (
+                          <SelectItem key={receipt.id} value={String(receipt.id)}>
+                            {receipt.receiptNumber}{receipt.commodityName ? ` - ${receipt.commodityName}` : ''}
+                            {receipt.isFrozen ? ' (frozen)' : ''}
+                          </SelectItem>
+                        ))}
+                      </SelectContent>
+                    </Select>
+                    <FormMessage />
+                  </FormItem>
+                )}
+              />
 
               <div className="grid grid-cols-2 gap-4">
                 <FormField
                   control={form.control}
-                  name="quantity"
+                  name="disputeType"
                   render={({ field }) => (
                     <FormItem>
-                      <FormLabel>Quantity*</FormLabel>
-                      <FormControl>
-                        <Input {...field} type="text" placeholder="e.g. 100" />
-                      </FormControl>
+                      <FormLabel>Dispute Type*</FormLabel>
+                      <Select onValueChange={field.onChange} value={field.value}>
+                        <FormControl>
+                          <SelectTrigger>
+                            <SelectValue placeholder="Select type" />
+                          </SelectTrigger>
+                        </FormControl>
+                        <SelectContent>
+                          {Object.entries(disputeTypeLabels).map(([key, label]) => (
+                            <SelectItem key={key} value={key}>{label}</SelectItem>
+                          ))}
+                        </SelectContent>
+                      </Select>
                       <FormMessage />
                     </FormItem>
                   )}
@@ -189,21 +204,21 @@ export function RedChannelDialog({ isOpen, onClose }: RedChannelDialogProps) {
 
                 <FormField
                   control={form.control}
-                  name="measurementUnit"
+                  name="priority"
                   render={({ field }) => (
                     <FormItem>
-                      <FormLabel>Unit</FormLabel>
-                      <Select onValueChange={field.onChange} defaultValue={field.value}>
+                      <FormLabel>Priority</FormLabel>
+                      <Select onValueChange={field.onChange} value={field.value}>
                         <FormControl>
                           <SelectTrigger>
-                            <SelectValue placeholder="Select unit" />
+                            <SelectValue />
                           </SelectTrigger>
                         </FormControl>
                         <SelectContent>
-                          <SelectItem value="MT">Metric Tons (MT)</SelectItem>
-                          <SelectItem value="KG">Kilograms (KG)</SelectItem>
-                          <SelectItem value="Quintals">Quintals</SelectItem>
-                          <SelectItem value="Bales">Bales</SelectItem>
+                          <SelectItem value="low">Low Priority</SelectItem>
+                          <SelectItem value="medium">Medium Priority</SelectItem>
+                          <SelectItem value="high">High Priority</SelectItem>
+                          <SelectItem value="critical">Critical Priority</SelectItem>
                         </SelectContent>
                       </Select>
                       <FormMessage />
@@ -212,115 +227,83 @@ export function RedChannelDialog({ isOpen, onClose }: RedChannelDialogProps) {
                 />
               </div>
 
-              <FormField
-                control={form.control}
-                name="qualityGrade"
-                render={({ field }) => (
-                  <FormItem>
-                    <FormLabel>Quality Grade</FormLabel>
-                    <FormControl>
-                      <Input {...field} placeholder="e.g. Grade A, Premium" />
-                    </FormControl>
-                    <FormMessage />
-                  </FormItem>
-                )}
-              />
-
-              <FormField
-                control={form.control}
-                name="location"
-                render={({ field }) => (
-                  <FormItem>
-                    <FormLabel>Storage Location*</FormLabel>
-                    <FormControl>
-                      <Input {...field} placeholder="e.g. Home Farm, Village Storehouse" />
-                    </FormControl>
-                    <FormMessage />
-                  </FormItem>
-                )}
-              />
-
               <FormField
                 control={form.control}
                 name="description"
                 render={({ field }) => (
                   <FormItem>
-                    <FormLabel>Description</FormLabel>
+                    <FormLabel>Description*</FormLabel>
                     <FormControl>
-                      <Textarea {...field} placeholder="Additional details about your stored commodity" />
+                      <Textarea {...field} rows={4} placeholder="Provide a detailed description of the issue..." />
                     </FormControl>
                     <FormMessage />
                   </FormItem>
                 )}
               />
 
-              <FormField
-                control={form.control}
-                name="valuation"
-                render={({ field }) => (
-                  <FormItem>
-                    <FormLabel>Estimated Value (₹)</FormLabel>
-                    <FormControl>
-                      <Input {...field} type="text" placeholder="e.g. 50000" />
-                    </FormControl>
-                    <FormDescription>
-                      Approximate market value of the commodity
-                    </FormDescription>
-                    <FormMessage />
-                  </FormItem>
-                )}
-              />
+              <FormItem>
+                <FormLabel>Evidence</FormLabel>
+                <Input
+                  type="file"
+                  multiple
+                  accept="image/jpeg,image/png,application/pdf"
+                  onChange={(e) => setEvidenceFiles(Array.from(e.target.files || []).slice(0, 5))}
+                />
+                <FormDescription>
+                  Up to 5 photos or PDFs (lab reports, weighbridge slips), 10MB each
+                </FormDescription>
+              </FormItem>
 
               <DialogFooter>
                 <Button type="button" variant="outline" onClick={onClose}>
                   Cancel
                 </Button>
                 <Button type="submit" className="bg-red-600 hover:bg-red-700">
-                  Create Self-Certified Receipt
+                  File Dispute
                 </Button>
               </DialogFooter>
             </form>
           </Form>
         );
-        
+
       case 'submitting':
         return (
           <div className="flex flex-col items-center justify-center py-10">
             <div className="h-16 w-16 rounded-full bg-red-100 flex items-center justify-center animate-pulse mb-4">
               <FileText className="h-10 w-10 text-red-600" />
             </div>
-            <h3 className="text-lg font-medium">Creating Self-Certified Receipt</h3>
+            <h3 className="text-lg font-medium">Filing Dispute</h3>
             <p className="text-sm text-muted-foreground mt-2 text-center">
-              Please wait while we register your commodity...
+              Uploading evidence and sending the dispute for review...
             </p>
           </div>
         );
-        
+
       case 'success':
         return (
           <div className="flex flex-col items-center justify-center py-10">
             <div className="h-16 w-16 rounded-full bg-green-100 flex items-center justify-center mb-4">
               <Check className="h-10 w-10 text-green-600" />
             </div>
-            <h3 className="text-lg font-medium">Receipt Created</h3>
+            <h3 className="text-lg font-medium">Dispute Filed</h3>
             <p className="text-sm text-muted-foreground mt-2 text-center">
-              Your self-certified storage receipt has been successfully created.
+              Your dispute has been sent to the Red Channel for review.
             </p>
             <div className="mt-6">
               <Button onClick={onClose} variant="outline">Close</Button>
             </div>
           </div>
         );
-        
+
       case 'error':
         return (
           <div className="flex flex-col items-center justify-center py-10">
             <div className="h-16 w-16 rounded-full bg-red-100 flex items-center justify-center mb-4">
               <AlertCircle className="h-10 w-10 text-red-600" />
             </div>
-            <h3 className="text-lg font-medium">Creation Failed</h3>
+            <h3 className="text-lg font-medium">Filing Failed</h3>
             <p className="text-sm text-muted-foreground mt-2 text-center">
-              {errorMessage || "We couldn't create your receipt. Please try again."}
+              {errorMessage || "We couldn't file your dispute. Please try again."}
             </p>
             <div className="mt-6 space-x-2">
               <Button onClick={() => setStage('form')} variant="outline">Try Again</Button>
@@ -328,7 +311,7 @@ export function RedChannelDialog({ isOpen, onClose }: RedChannelDialogProps) {
             </div>
           </div>
         );
-        
+
       default:
         return null;
     }
@@ -341,16 +324,16 @@ export function RedChannelDialog({ isOpen, onClose }: RedChannelDialogProps) {
           <DialogTitle>
             <div className="flex items-center text-red-800">
               <Shield className="h-5 w-5 mr-2 text-red-600" />
-              Self-Certified Commodity Registration
+              File Red Channel Dispute
             </div>
           </DialogTitle>
           <DialogDescription>
-            Register commodities stored in your personal facility or farm storage
+            Report quality, quantity, valuation or authenticity issues with a warehouse receipt
           </DialogDescription>
         </DialogHeader>
-        
+
         {renderStageContent()}
       </DialogContent>
     </Dialog>
   );
-}
\ No newline at end of file
+}
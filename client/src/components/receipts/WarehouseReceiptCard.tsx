@@ -307,8 +307,8 @@ export default function WarehouseReceiptCard({ receipt, onView, onPledge, classN
                   <div>
                     <p className="font-medium">Type</p>
                     <p className="text-muted-foreground">
-                      {(receipt.metadata && typeof receipt.metadata === 'object' && (receipt.metadata as any).receiptType) || 
-                      (isRedChannel ? "Self-Certified" : isOrangeChannel ? "External" : "Standard")}
+                      {receipt.receiptType === 'non_negotiable' ? "Non-Negotiable" : "Negotiable"}
+                      {isRedChannel ? " · Self-Certified" : isOrangeChannel ? " · External" : ""}
                     </p>
                   </div>
                 </div>
@@ -112,8 +112,10 @@ export function WithdrawalDialog({
 
       // Show success toast
       toast({
-        title: "Withdrawal Initiated",
-        description: "Your commodity withdrawal process has been started.",
+        title: responseData.requiresLenderConsent ? "Awaiting Lender Consent" : "Withdrawal Initiated",
+        description: responseData.requiresLenderConsent
+          ? "This receipt is pledged. The withdrawal will start once your lender consents to the release."
+          : "Your commodity withdrawal process has been started.",
       });
 
     } catch (err) {
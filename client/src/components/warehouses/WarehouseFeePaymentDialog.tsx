@@ -2,7 +2,7 @@ import React, { useState } from 'react';
 import { useForm } from 'react-hook-form';
 import { zodResolver } from '@hookform/resolvers/zod';
 import { z } from 'zod';
-import { useMutation } from '@tanstack/react-query';
+import { useMutation, useQuery } from '@tanstack/react-query';
 import { apiRequest, queryClient } from '@/lib/queryClient';
 import { PaymentMethodSelector } from '../payments/PaymentMethodSelector';
 import { useToast } from '@/hooks/use-toast';
@@ -15,14 +15,13 @@ import {
   DialogTitle,
   DialogTrigger,
 } from '@/components/ui/dialog';
-import { Input } from '@/components/ui/input';
 import { Button } from '@/components/ui/button';
 import { Form, FormControl, FormField, FormItem, FormLabel, FormMessage } from '@/components/ui/form';
 import { Loader2, CheckCircle, Warehouse } from 'lucide-react';
+import { StorageInvoice } from '@shared/schema';
 
 // Define form validation schema
 const formSchema = z.object({
-  amount: z.string().min(1, 'Amount is required'),
   paymentMethod: z.string().min(1, 'Payment method is required'),
 });
 
@@ -31,7 +30,6 @@ type FormData = z.infer<typeof formSchema>;
 interface WarehouseFeePaymentDialogProps {
   warehouseId: number;
   warehouseName: string;
-  suggestedAmount?: string;
   trigger: React.ReactNode;
   onPaymentSuccess?: () => void;
 }
@@ -39,7 +37,6 @@ interface WarehouseFeePaymentDialogProps {
 export function WarehouseFeePaymentDialog({
   warehouseId,
   warehouseName,
-  suggestedAmount = '500',
   trigger,
   onPaymentSuccess
 }: WarehouseFeePaymentDialogProps) {
@@ -48,11 +45,20 @@ export function WarehouseFeePaymentDialog({
   const [isSuccess, setIsSuccess] = useState(false);
   const { toast } = useToast();
 
+  // Fees are billed by the warehouse; the amount due is the unpaid part of its invoices
+  const { data: invoices = [] } = useQuery<StorageInvoice[]>({
+    queryKey: ['/api/storage-fees/invoices'],
+    enabled: open
+  });
+  const unpaid = invoices.filter(invoice => invoice.warehouseId === warehouseId && invoice.status === 'issued');
+  const amountDue = unpaid.reduce(
+    (sum, invoice) => sum + parseFloat(invoice.totalAmount) - parseFloat(invoice.amountPaid), 0
+  );
+
   // Initialize form
   const form = useForm<FormData>({
     resolver: zodResolver(formSchema),
     defaultValues: {
-      amount: suggestedAmount,
       paymentMethod: '',
     }
   });
@@ -61,7 +67,7 @@ export function WarehouseFeePaymentDialog({
   const { mutate, isPending } = useMutation({
     mutationFn: async (data: FormData) => {
       setIsProcessing(true);
-      return apiRequest('POST', `/api/warehouses/${warehouseId}/pay-fees`, data);
+      return apiRequest('POST', `/api/storage-fees/warehouses/${warehouseId}/pay`, data);
     },
     onSuccess: async (response) => {
       const data = await response.json();
@@ -78,6 +84,7 @@ export function WarehouseFeePaymentDialog({
       queryClient.invalidateQueries({ queryKey: ['/api/warehouses'] });
       queryClient.invalidateQueries({ queryKey: [`/api/warehouses/${warehouseId}`] });
       queryClient.invalidateQueries({ queryKey: ['/api/payment/history'] });
+      queryClient.invalidateQueries({ queryKey: ['/api/storage-fees/invoices'] });
       
       // Wait a moment before closing dialog
       setTimeout(() => {
@@ -132,26 +139,18 @@ export function WarehouseFeePaymentDialog({
               </div>
             </div>
             
-            <FormField
-              control={form.control}
-              name="amount"
-              render={({ field }) => (
-                <FormItem>
-                  <FormLabel>Amount (₹)</FormLabel>
-                  <FormControl>
-                    <Input 
-                      {...field} 
-                      type="number" 
-                      step="0.01" 
-                      min="1"
-                      placeholder="Enter amount" 
-                      disabled={isPending || isSuccess}
-                    />
-                  </FormControl>
-                  <FormMessage />
-                </FormItem>
-              )}
-            />
+            <div className="space-y-1 text-sm">
+              {unpaid.map(invoice => (
+                <div key={invoice.id} className="flex justify-between">
+                  <span className="text-muted-foreground">Invoice {invoice.invoiceNumber}</span>
+                  <span>₹{(parseFloat(invoice.totalAmount) - parseFloat(invoice.amountPaid)).toFixed(2)}</span>
+                </div>
+              ))}
+              <div className="flex justify-between font-medium border-t pt-1">
+                <span>Amount due (incl. GST)</span>
+                <span>₹{amountDue.toFixed(2)}</span>
+              </div>
+            </div>
             
             <FormField
               control={form.control}
@@ -181,7 +180,7 @@ export function WarehouseFeePaymentDialog({
               </Button>
               <Button 
                 type="submit" 
-                disabled={isPending || isSuccess}
+                disabled={isPending || isSuccess || amountDue <= 0}
               >
                 {isPending ? (
                   <>
@@ -2,6 +2,7 @@ import { useState, useEffect } from 'react';
 import { useQueryClient } from '@tanstack/react-query';
 import { apiRequest } from '@/lib/queryClient';
 import { useToast } from '@/hooks/use-toast';
+import { useAuth } from '@/hooks/useAuth';
 import { Button } from '@/components/ui/button';
 import { Progress } from '@/components/ui/progress';
 import {
@@ -37,6 +38,9 @@ interface StageConfig {
 
 export default function WithdrawalTracker({ process, onWithdrawalCompleted }: WithdrawalTrackerProps) {
   const { toast } = useToast();
+  const { user } = useAuth();
+  // Only the warehouse releases the goods
+  const canComplete = user?.role === 'warehouse_owner' || user?.role === 'admin';
   const queryClient = useQueryClient();
   const [loading, setLoading] = useState(false);
   const [currentProgress, setCurrentProgress] = useState(0);
@@ -221,13 +225,15 @@ export default function WithdrawalTracker({ process, onWithdrawalCompleted }: Wi
           <p className="text-sm text-muted-foreground">
             Updates will be shown here as the process progresses.
           </p>
-          <Button 
-            variant="outline" 
-            onClick={handleCompleteWithdrawal}
-            disabled={loading || process.status !== 'in_progress' || currentProgress < 80}
-          >
-            {loading ? 'Processing...' : 'Complete Withdrawal'}
-          </Button>
+          {canComplete && (
+            <Button 
+              variant="outline" 
+              onClick={handleCompleteWithdrawal}
+              disabled={loading || process.status !== 'in_progress' || currentProgress < 80}
+            >
+              {loading ? 'Processing...' : 'Complete Withdrawal'}
+            </Button>
+          )}
         </CardFooter>
       )}
     </Card>
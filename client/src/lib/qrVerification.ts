@@ -0,0 +1,47 @@
+/**
+ * Offline checks of signed receipt and sack QR codes.
+ *
+ * The platform's public keys are fetched when online and cached in
+ * localStorage, so a field inspector can validate a tag with no connection.
+ */
+import { verifyQrToken, type QrPublicKeys, type QrVerification } from '@shared/qrPayload';
+
+const KEYS_STORAGE_KEY = 'tradewiser.qrPublicKeys';
+
+function cachedKeys(): QrPublicKeys | null {
+  try {
+    const stored = localStorage.getItem(KEYS_STORAGE_KEY);
+    return stored ? JSON.parse(stored) : null;
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * The platform's QR signing keys: fresh when online, cached otherwise
+ */
+export async function getQrPublicKeys(): Promise<QrPublicKeys | null> {
+  try {
+    const response = await fetch('/api/qr/keys');
+    if (response.ok) {
+      const { keys } = await response.json();
+      localStorage.setItem(KEYS_STORAGE_KEY, JSON.stringify(keys));
+      return keys;
+    }
+  } catch {
+    // Offline: fall back to the cached keys
+  }
+  return cachedKeys();
+}
+
+/**
+ * Check the signature of a scanned QR code
+ * @param text The scanned text: a token or a verification URL carrying one
+ */
+export async function verifyScannedQr(text: string): Promise<QrVerification> {
+  const keys = await getQrPublicKeys();
+  if (!keys) {
+    return { valid: false, claims: null, reason: 'No signing keys cached yet; connect once to download them' };
+  }
+  return verifyQrToken(text, keys);
+}
@@ -0,0 +1,121 @@
+/**
+ * Client-side check of a receipt's Merkle inclusion proof.
+ *
+ * Every hash is recomputed in the browser: the committed receipt state, the
+ * ledger entry that carries it, the path from that entry to the block's
+ * Merkle root, and the block hash. The receipt is then shown from the
+ * committed state rather than from the server's copy of the row.
+ */
+import {
+  blockPreimage,
+  canonicalJson,
+  entryPreimage,
+  receiptState,
+  type ReceiptProof,
+  type ReceiptState
+} from '@shared/auditProof';
+
+export type ProofStatus = 'verified' | 'pending' | 'changed' | 'failed' | 'unavailable';
+
+export interface ProofResult {
+  status: ProofStatus;
+  // The receipt state the proof commits to, once its hashes check out
+  state: ReceiptState | null;
+  blockHeight: number | null;
+  blockHash: string | null;
+  merkleRoot: string | null;
+  committedAt: string | null;
+  message: string;
+}
+
+async function sha256(value: string): Promise<string> {
+  const digest = await crypto.subtle.digest('SHA-256', new TextEncoder().encode(value));
+  return Array.from(new Uint8Array(digest), byte => byte.toString(16).padStart(2, '0')).join('');
+}
+
+const failed = (message: string): ProofResult => ({
+  status: 'failed',
+  state: null,
+  blockHeight: null,
+  blockHash: null,
+  merkleRoot: null,
+  committedAt: null,
+  message
+});
+
+/**
+ * Verify a receipt's proof as returned by GET /api/receipts/verify/:code
+ * @param receipt The receipt in the response, used only to spot later changes
+ * @param proof The proof in the response
+ */
+export async function verifyReceiptProof(
+  receipt: { id: number } & Parameters<typeof receiptState>[0],
+  proof: ReceiptProof | null | undefined
+): Promise<ProofResult> {
+  if (!proof) {
+    return { ...failed('This receipt has no ledger commitment'), status: 'unavailable' };
+  }
+
+  const { entry, block, steps } = proof;
+  const payload = (entry.payload ?? {}) as { state?: ReceiptState; stateDigest?: string };
+  if (entry.entityType !== 'receipt' || entry.entityId !== receipt.id || !payload.state) {
+    return failed('The ledger entry does not belong to this receipt');
+  }
+  if (await sha256(canonicalJson(payload.state)) !== payload.stateDigest) {
+    return failed('The committed receipt state does not match its digest');
+  }
+  if (await sha256(canonicalJson(entry.payload)) !== entry.payloadHash) {
+    return failed('The ledger entry does not match its payload hash');
+  }
+  if (await sha256(entryPreimage(entry)) !== entry.entryHash) {
+    return failed('The ledger entry does not match its hash');
+  }
+
+  const committed = {
+    state: payload.state,
+    committedAt: new Date(entry.createdAt).toISOString()
+  };
+
+  if (!block || !steps) {
+    return {
+      status: 'pending',
+      ...committed,
+      blockHeight: null,
+      blockHash: null,
+      merkleRoot: null,
+      message: 'Recorded in the ledger and waiting to be sealed into a block'
+    };
+  }
+
+  let node = entry.entryHash;
+  for (const step of steps) {
+    node = await sha256(step.position === 'left' ? step.hash + node : node + step.hash);
+  }
+  if (node !== block.merkleRoot) {
+    return failed('The inclusion proof does not lead to the block\'s Merkle root');
+  }
+  if (await sha256(blockPreimage(block)) !== block.blockHash) {
+    return failed('The block header does not match its hash');
+  }
+
+  const sealed = {
+    ...committed,
+    blockHeight: block.height,
+    blockHash: block.blockHash,
+    merkleRoot: block.merkleRoot
+  };
+
+  // The proof holds; flag a response that disagrees with what was committed
+  const current = receiptState(receipt);
+  const changed = (['receiptNumber', 'status', 'quantity'] as const)
+    .filter(field => current[field] !== payload.state![field]);
+  if (changed.length > 0) {
+    return {
+      status: 'changed',
+      ...sealed,
+      message: `Changed since its last sealed commitment: ${changed.join(', ')}`
+    };
+  }
+
+  return { status: 'verified', ...sealed, message: `Included in audit block #${block.height}` };
+}
@@ -30,6 +30,7 @@ import {
   Percent
 } from "lucide-react";
 import { format } from "date-fns";
+import MarginCallPanel from "@/components/loans/MarginCallPanel";
 
 interface EligibleReceipt {
   id: number;
@@ -271,6 +272,9 @@ export default function LoansPage() {
           </p>
         </div>
 
+        {/* Margin calls on existing loans */}
+        <MarginCallPanel />
+
         {/* Progress Bar */}
         <div className="mb-8">
           <div className="flex items-center justify-between mb-4">
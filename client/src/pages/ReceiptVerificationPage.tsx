@@ -5,27 +5,47 @@ import { Button } from "@/components/ui/button";
 import { Alert, AlertDescription, AlertTitle } from "@/components/ui/alert";
 import { Badge } from "@/components/ui/badge";
 import { Separator } from "@/components/ui/separator";
-import { ShieldCheck, AlertTriangle, FileCheck, Download, Calendar, ArrowLeft } from "lucide-react";
+import { ShieldCheck, AlertTriangle, FileCheck, Download, Calendar, ArrowLeft, Link2, Clock } from "lucide-react";
 import { apiRequest } from '@/lib/queryClient';
 import { WarehouseReceipt, Commodity, Warehouse } from '@shared/schema';
 import { formatDate } from '@/lib/utils';
 import { useToast } from '@/hooks/use-toast';
 import { Link } from 'wouter';
 import { downloadReceiptPDF, generateReceiptPDF } from '@/lib/receiptGenerator';
+import { verifyReceiptProof, type ProofResult } from '@/lib/receiptProof';
+import { verifyScannedQr } from '@/lib/qrVerification';
+import type { QrVerification } from '@shared/qrPayload';
+import type { ReceiptProof } from '@shared/auditProof';
+
+interface EndorsementChainEntry {
+  sequence: number;
+  endorser: string;
+  endorsee: string;
+  endorsedAt: string | null;
+  acceptedAt: string | null;
+  endorsementHash: string;
+  previousHash: string;
+}
 
 // Extending the WarehouseReceipt type with proper typing for various fields 
 type ExtendedWarehouseReceipt = WarehouseReceipt & {
   // Ensure the metadata is properly typed for verification
   metadata: Record<string, any>;
+  endorsementChain?: { entries: EndorsementChainEntry[]; intact: boolean };
+  proof?: ReceiptProof | null;
 }
 
 // Verification page that doesn't require authentication
 // This page is used to verify receipts via QR code
 export default function ReceiptVerificationPage() {
-  const { verificationCode } = useParams<{ verificationCode: string }>();
+  // Reachable as /verify-receipt/:verificationCode and /receipts/verify/:code
+  const params = useParams<{ verificationCode?: string; code?: string }>();
+  const verificationCode = params.verificationCode || params.code || '';
   const [receipt, setReceipt] = useState<ExtendedWarehouseReceipt | null>(null);
   const [loading, setLoading] = useState(true);
   const [error, setError] = useState<string | null>(null);
+  const [proofResult, setProofResult] = useState<ProofResult | null>(null);
+  const [signature, setSignature] = useState<QrVerification | null>(null);
   const { toast } = useToast();
   
   // Fetch receipt data using verification code
@@ -48,6 +68,8 @@ export default function ReceiptVerificationPage() {
         
         const data = await response.json();
         setReceipt(data);
+        // The ledger proof is checked here, not taken on the server's word
+        setProofResult(await verifyReceiptProof(data, data.proof));
       } catch (err) {
         setError('Invalid verification code or receipt not found');
         console.error('Verification error:', err);
@@ -57,8 +79,25 @@ export default function ReceiptVerificationPage() {
     };
     
     verifyReceipt();
+
+    // Links from a signed QR code carry the platform-signed payload as ?qr=
+    const token = new URLSearchParams(window.location.search).get('qr');
+    if (token) {
+      verifyScannedQr(token).then(setSignature);
+    }
   }, [verificationCode]);
   
+  // Show the receipt as committed to the ledger once its proof checks out
+  const committed = proofResult?.state;
+  const shown = receipt && {
+    receiptNumber: committed?.receiptNumber ?? receipt.receiptNumber,
+    status: committed?.status ?? receipt.status,
+    commodityName: committed?.commodityName ?? receipt.commodityName,
+    quantity: committed?.quantity ?? receipt.quantity,
+    warehouseName: committed?.warehouseName ?? receipt.warehouseName,
+    issuedDate: committed?.issuedDate ?? receipt.issuedDate
+  };
+
   // Format dates
   const formatExpiryDate = (issueDate: Date | string | null) => {
     if (!issueDate) return 'Not available';
@@ -134,22 +173,30 @@ export default function ReceiptVerificationPage() {
             </Alert>
           ) : receipt ? (
             <div className="space-y-4">
-              <Alert className="bg-green-50 border-green-200 text-green-700">
-                <FileCheck className="h-4 w-4 text-green-600" />
-                <AlertTitle className="text-green-800">Verification Successful</AlertTitle>
-                <AlertDescription className="text-green-700">
-                  This warehouse receipt is valid and authentic
-                </AlertDescription>
-              </Alert>
+              {proofResult?.status === 'failed' || proofResult?.status === 'changed' ? (
+                <Alert variant="destructive">
+                  <AlertTriangle className="h-4 w-4" />
+                  <AlertTitle>Ledger Proof Failed</AlertTitle>
+                  <AlertDescription>{proofResult.message}</AlertDescription>
+                </Alert>
+              ) : (
+                <Alert className="bg-green-50 border-green-200 text-green-700">
+                  <FileCheck className="h-4 w-4 text-green-600" />
+                  <AlertTitle className="text-green-800">Verification Successful</AlertTitle>
+                  <AlertDescription className="text-green-700">
+                    This warehouse receipt is valid and authentic
+                  </AlertDescription>
+                </Alert>
+              )}
               
               <div className="space-y-2">
                 <div className="flex justify-between items-center">
                   <div>
                     <p className="text-sm font-medium">Receipt Number</p>
-                    <p className="font-mono text-muted-foreground text-xs">{receipt.receiptNumber}</p>
+                    <p className="font-mono text-muted-foreground text-xs">{shown!.receiptNumber}</p>
                   </div>
-                  <Badge variant={receipt.status === 'active' ? 'default' : (receipt.status === 'collateralized' ? 'outline' : 'destructive')}>
-                    {receipt.status}
+                  <Badge variant={shown!.status === 'active' ? 'default' : (shown!.status === 'collateralized' ? 'outline' : 'destructive')}>
+                    {shown!.status}
                   </Badge>
                 </div>
                 
@@ -157,13 +204,13 @@ export default function ReceiptVerificationPage() {
                 
                 <div>
                   <p className="text-sm font-medium">Commodity</p>
-                  <p className="text-muted-foreground">{receipt.commodityName || "Not available"}</p>
+                  <p className="text-muted-foreground">{shown!.commodityName || "Not available"}</p>
                 </div>
                 
                 <div className="grid grid-cols-2 gap-2">
                   <div>
                     <p className="text-sm font-medium">Quantity</p>
-                    <p className="text-muted-foreground">{receipt.quantity} MT</p>
+                    <p className="text-muted-foreground">{shown!.quantity} MT</p>
                   </div>
                   <div>
                     <p className="text-sm font-medium">Valuation</p>
@@ -175,7 +222,7 @@ export default function ReceiptVerificationPage() {
                 
                 <div>
                   <p className="text-sm font-medium">Warehouse</p>
-                  <p className="text-muted-foreground">{receipt.warehouseName || "Not available"}</p>
+                  <p className="text-muted-foreground">{shown!.warehouseName || "Not available"}</p>
                 </div>
                 
                 <div className="grid grid-cols-2 gap-2">
@@ -183,16 +230,98 @@ export default function ReceiptVerificationPage() {
                     <p className="text-sm font-medium">Issue Date</p>
                     <div className="flex items-center text-muted-foreground text-sm">
                       <Calendar className="h-3 w-3 mr-1" />
-                      {formatDate(receipt.issuedDate || new Date())}
+                      {formatDate(shown!.issuedDate || new Date())}
                     </div>
                   </div>
                   <div>
                     <p className="text-sm font-medium">Expiry Date</p>
                     <div className="flex items-center text-muted-foreground text-sm">
                       <Calendar className="h-3 w-3 mr-1" />
-                      {formatExpiryDate(receipt.issuedDate)}
+                      {formatExpiryDate(shown!.issuedDate)}
+                    </div>
+                  </div>
+                </div>
+
+                {signature && (
+                  <>
+                    <Separator className="my-2" />
+
+                    <div>
+                      <p className="text-sm font-medium flex items-center gap-1 mb-1">
+                        {signature.valid ? <ShieldCheck className="h-4 w-4" /> : <AlertTriangle className="h-4 w-4" />}
+                        QR Signature
+                      </p>
+                      <p className={signature.valid ? "text-muted-foreground text-sm" : "text-destructive text-sm"}>
+                        {signature.valid ? `Signed by TradeWiser (key ${signature.claims!.kid})` : signature.reason}
+                      </p>
                     </div>
+                  </>
+                )}
+
+                {proofResult && (
+                  <>
+                    <Separator className="my-2" />
+
+                    <div>
+                      <p className="text-sm font-medium flex items-center gap-1 mb-1">
+                        {proofResult.status === 'pending' ? <Clock className="h-4 w-4" /> : <ShieldCheck className="h-4 w-4" />}
+                        Ledger Proof
+                      </p>
+                      <p className="text-muted-foreground text-sm">{proofResult.message}</p>
+                      {proofResult.merkleRoot && (
+                        <p className="font-mono text-[10px] text-muted-foreground truncate">
+                          Merkle root {proofResult.merkleRoot}
+                        </p>
+                      )}
+                      {proofResult.blockHash && (
+                        <p className="font-mono text-[10px] text-muted-foreground truncate">
+                          Block hash {proofResult.blockHash}
+                        </p>
+                      )}
+                    </div>
+                  </>
+                )}
+
+                <Separator className="my-2" />
+
+                <div>
+                  <div className="flex justify-between items-center mb-2">
+                    <p className="text-sm font-medium flex items-center gap-1">
+                      <Link2 className="h-4 w-4" />
+                      Endorsement Chain
+                    </p>
+                    <Badge variant="outline">
+                      {receipt.receiptType === 'non_negotiable' ? 'Non-negotiable' : 'Negotiable'}
+                    </Badge>
                   </div>
+
+                  {!receipt.endorsementChain || receipt.endorsementChain.entries.length === 0 ? (
+                    <p className="text-muted-foreground text-sm">
+                      No endorsements — held by the original depositor
+                    </p>
+                  ) : (
+                    <div className="space-y-2">
+                      {!receipt.endorsementChain.intact && (
+                        <Alert variant="destructive">
+                          <AlertTriangle className="h-4 w-4" />
+                          <AlertDescription>The endorsement chain failed its integrity check</AlertDescription>
+                        </Alert>
+                      )}
+                      {receipt.endorsementChain.entries.map(entry => (
+                        <div key={entry.sequence} className="border rounded-md p-2 text-sm">
+                          <div className="flex justify-between">
+                            <span>{entry.sequence}. {entry.endorser} → {entry.endorsee}</span>
+                            <span className="text-muted-foreground text-xs">
+                              {entry.acceptedAt ? formatDate(entry.acceptedAt) : ''}
+                            </span>
+                          </div>
+                          <p className="font-mono text-[10px] text-muted-foreground truncate">
+                            {entry.endorsementHash}
+                          </p>
+                        </div>
+                      ))}
+                    </div>
+                  )}
                 </div>
               </div>
             </div>
@@ -8,17 +8,21 @@ import { Button } from "@/components/ui/button";
 import { Badge } from "@/components/ui/badge";
 import { 
   Plus, FileText, Upload, CreditCard, 
-  Clock, Download, ExternalLink, Calendar 
+  Clock, Download, ExternalLink, Calendar, Scissors, Combine 
 } from "lucide-react";
 import { WarehouseReceipt } from "@shared/schema";
 import { Dialog, DialogContent, DialogHeader, DialogTitle, DialogDescription } from "@/components/ui/dialog";
 import UploadReceiptDialog from "@/components/receipts/UploadReceiptDialog";
+import IncomingEndorsements from "@/components/receipts/IncomingEndorsements";
+import { SplitReceiptDialog, MergeReceiptsDialog, ReceiptLineagePanel, isTradableLot } from "@/components/receipts/ReceiptLotDialogs";
 
 export default function ReceiptsPage() {
   const [selectedTab, setSelectedTab] = useState("all");
   const [selectedReceipt, setSelectedReceipt] = useState<WarehouseReceipt | null>(null);
   const [isUploadDialogOpen, setIsUploadDialogOpen] = useState(false);
   const [isDetailsOpen, setIsDetailsOpen] = useState(false);
+  const [isSplitOpen, setIsSplitOpen] = useState(false);
+  const [isMergeOpen, setIsMergeOpen] = useState(false);
   const [viewMode, setViewMode] = useState<"cards" | "demat">("demat"); // Default to demat view
 
   // Query to fetch receipts
@@ -140,6 +144,14 @@ export default function ReceiptsPage() {
                 </>
               )}
             </Button>
+            <Button 
+              variant="outline" 
+              size="sm"
+              onClick={() => setIsMergeOpen(true)}
+            >
+              <Combine className="h-4 w-4 mr-2" />
+              Merge Lots
+            </Button>
             <Button 
               onClick={() => setIsUploadDialogOpen(true)}
               className="gap-2"
@@ -150,6 +162,9 @@ export default function ReceiptsPage() {
           </div>
         </div>
 
+        {/* Endorsements waiting for acceptance */}
+        <IncomingEndorsements />
+
         {/* Stats summary cards */}
         <div className="grid grid-cols-1 md:grid-cols-3 gap-4 mb-6">
           <div className="bg-white border rounded-lg p-4 shadow-sm">
@@ -333,9 +348,35 @@ export default function ReceiptsPage() {
                 receipt={selectedReceipt} 
                 className="w-full max-w-full cursor-default" 
               />
+
+              <ReceiptLineagePanel receiptId={selectedReceipt.id} />
+
+              {isTradableLot(selectedReceipt) && (
+                <Button variant="outline" onClick={() => setIsSplitOpen(true)}>
+                  <Scissors className="h-4 w-4 mr-2" />
+                  Split Lot
+                </Button>
+              )}
             </DialogContent>
           </Dialog>
         )}
+
+        {/* Split and Merge Dialogs */}
+        {selectedReceipt && isSplitOpen && (
+          <SplitReceiptDialog
+            receipt={selectedReceipt}
+            open={isSplitOpen}
+            onOpenChange={(open) => {
+              setIsSplitOpen(open);
+              if (!open) setIsDetailsOpen(false);
+            }}
+          />
+        )}
+        <MergeReceiptsDialog
+          receipts={receipts as WarehouseReceipt[]}
+          open={isMergeOpen}
+          onOpenChange={setIsMergeOpen}
+        />
       </div>
     </MainLayout>
   );
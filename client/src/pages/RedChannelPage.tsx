@@ -2,12 +2,10 @@ import { useState } from 'react';
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
 import { Button } from '@/components/ui/button';
 import { Input } from '@/components/ui/input';
-import { Label } from '@/components/ui/label';
 import { Textarea } from '@/components/ui/textarea';
-import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
 import { Badge } from '@/components/ui/badge';
-import { Progress } from '@/components/ui/progress';
 import { Alert, AlertDescription } from '@/components/ui/alert';
+import { Tabs, TabsContent, TabsList, TabsTrigger } from '@/components/ui/tabs';
 import { 
   AlertTriangle, 
   FileX, 
@@ -19,35 +17,56 @@ import {
   TrendingDown,
   Shield,
   Zap,
-  FileCheck
+  FileCheck,
+  Paperclip,
+  Upload,
+  Lock
 } from 'lucide-react';
 import { useToast } from '@/hooks/use-toast';
 import { useQuery, useMutation, useQueryClient } from '@tanstack/react-query';
 import { apiRequest } from '@/lib/queryClient';
+import { RedChannelDialog, disputeTypeLabels } from '@/components/receipts/RedChannelDialog';
 
-interface DisputedReceipt {
+type DisputeStatus = 'filed' | 'under_review' | 'evidence_requested' | 'resolved' | 'rejected';
+
+interface DisputeEvidence {
+  fileName: string;
+  originalName: string;
+  fileType: string;
+  uploadedBy: number;
+  uploadedAt: string;
+  note?: string;
+}
+
+interface DisputeHistoryEntry {
+  status: DisputeStatus;
+  actorId: number;
+  note?: string;
+  at: string;
+}
+
+interface Dispute {
   id: number;
-  receiptNumber: string;
-  commodityName: string;
-  quantity: string;
-  valuation: string;
-  disputeReason: string;
-  disputeType: 'quality' | 'quantity' | 'valuation' | 'authenticity' | 'legal';
-  status: 'disputed' | 'under_review' | 'resolved' | 'rejected';
+  receiptId: number;
+  filedBy: number;
+  assigneeId: number | null;
+  receiptNumber?: string;
+  commodityName?: string | null;
+  quantity?: string;
+  valuation?: string | null;
+  description: string;
+  disputeType: keyof typeof disputeTypeLabels;
+  status: DisputeStatus;
   priority: 'low' | 'medium' | 'high' | 'critical';
+  evidenceRequest: string | null;
+  evidence: DisputeEvidence[];
+  history: DisputeHistoryEntry[];
+  isReceiptFrozen: boolean;
   createdAt: string;
-  resolvedAt?: string;
-  resolutionNote?: string;
+  resolvedAt?: string | null;
+  resolutionNote?: string | null;
 }
 
-const disputeTypes = {
-  quality: 'Quality Issues',
-  quantity: 'Quantity Discrepancy',
-  valuation: 'Valuation Dispute',
-  authenticity: 'Authenticity Concerns',
-  legal: 'Legal Issues'
-};
-
 const priorityColors = {
   low: 'bg-blue-100 text-blue-800',
   medium: 'bg-yellow-100 text-yellow-800',
@@ -56,109 +75,374 @@ const priorityColors = {
 };
 
 const statusColors = {
-  disputed: 'bg-red-100 text-red-800',
+  filed: 'bg-red-100 text-red-800',
   under_review: 'bg-yellow-100 text-yellow-800',
+  evidence_requested: 'bg-purple-100 text-purple-800',
   resolved: 'bg-green-100 text-green-800',
   rejected: 'bg-gray-100 text-gray-800'
 };
 
-export default function RedChannelPage() {
-  const [disputeForm, setDisputeForm] = useState({
-    receiptNumber: '',
-    disputeType: '',
-    priority: 'medium',
-    description: '',
-    evidence: ''
-  });
+const isOpenDispute = (dispute: Dispute) =>
+  dispute.status !== 'resolved' && dispute.status !== 'rejected';
+
+const formatCurrency = (value?: string | null) => {
+  return `₹${parseFloat(value || '0').toLocaleString('en-IN')}`;
+};
+
+const getStatusIcon = (status: string) => {
+  switch (status) {
+    case 'filed': return <AlertTriangle className="h-4 w-4" />;
+    case 'under_review': return <Clock className="h-4 w-4" />;
+    case 'evidence_requested': return <Paperclip className="h-4 w-4" />;
+    case 'resolved': return <CheckCircle className="h-4 w-4" />;
+    case 'rejected': return <XCircle className="h-4 w-4" />;
+    default: return <AlertCircle className="h-4 w-4" />;
+  }
+};
+
+interface DisputeCardProps {
+  dispute: Dispute;
+  role: 'filer' | 'reviewer';
+}
+
+function DisputeCard({ dispute, role }: DisputeCardProps) {
+  const [showDetails, setShowDetails] = useState(false);
+  const [note, setNote] = useState('');
+  const [evidenceFiles, setEvidenceFiles] = useState<File[]>([]);
   const { toast } = useToast();
   const queryClient = useQueryClient();
 
-  // Query for disputed receipts
-  const { data: disputedReceipts, isLoading } = useQuery<DisputedReceipt[]>({
-    queryKey: ['/api/receipts/disputed'],
-    queryFn: async () => {
-      const res = await apiRequest('GET', '/api/receipts/disputed');
-      return await res.json();
-    }
-  });
+  const onDone = (title: string) => {
+    toast({ title });
+    setNote('');
+    setEvidenceFiles([]);
+    queryClient.invalidateQueries({ queryKey: ['/api/disputes'] });
+  };
 
-  // Submit dispute mutation
-  const submitDisputeMutation = useMutation({
-    mutationFn: async (disputeData: any) => {
-      const res = await apiRequest('POST', '/api/receipts/dispute', disputeData);
+  const onError = (error: Error) => {
+    toast({
+      title: "Action Failed",
+      description: error.message,
+      variant: "destructive",
+    });
+  };
+
+  // Reviewer transitions
+  const actionMutation = useMutation({
+    mutationFn: async ({ action, body }: { action: string; body: Record<string, string> }) => {
+      const res = await apiRequest('POST', `/api/disputes/${dispute.id}/${action}`, body);
       return await res.json();
     },
-    onSuccess: () => {
-      toast({
-        title: "Dispute Filed",
-        description: "Your dispute has been submitted for review",
-      });
-      setDisputeForm({
-        receiptNumber: '',
-        disputeType: '',
-        priority: 'medium',
-        description: '',
-        evidence: ''
-      });
-      queryClient.invalidateQueries({ queryKey: ['/api/receipts/disputed'] });
-    },
-    onError: (error: Error) => {
-      toast({
-        title: "Dispute Failed",
-        description: error.message,
-        variant: "destructive",
+    onSuccess: () => onDone("Dispute Updated"),
+    onError
+  });
+
+  // Evidence upload (multipart)
+  const evidenceMutation = useMutation({
+    mutationFn: async () => {
+      const formData = new FormData();
+      evidenceFiles.forEach(file => formData.append('evidence', file));
+      if (note) formData.append('note', note);
+
+      const res = await fetch(`/api/disputes/${dispute.id}/evidence`, {
+        method: 'POST',
+        body: formData,
+        credentials: 'include'
       });
+      if (!res.ok) {
+        const error = await res.json();
+        throw new Error(error.message || 'Failed to upload evidence');
+      }
+      return await res.json();
     },
+    onSuccess: () => onDone("Evidence Uploaded"),
+    onError
   });
 
-  const handleSubmitDispute = () => {
-    if (!disputeForm.receiptNumber || !disputeForm.disputeType || !disputeForm.description) {
+  const requireNote = (action: string, body: (text: string) => Record<string, string>) => {
+    if (!note.trim()) {
       toast({
         title: "Missing Information",
-        description: "Please fill in all required fields",
+        description: "Add a note before updating the dispute",
         variant: "destructive",
       });
       return;
     }
-
-    submitDisputeMutation.mutate(disputeForm);
+    actionMutation.mutate({ action, body: body(note.trim()) });
   };
 
-  const formatCurrency = (value: string) => {
-    return `₹${parseFloat(value).toLocaleString('en-IN')}`;
-  };
+  const open = isOpenDispute(dispute);
+  const canReview = role === 'reviewer' && open;
+  const canUpload = open && evidenceFiles.length > 0;
 
-  const getStatusIcon = (status: string) => {
-    switch (status) {
-      case 'disputed': return <AlertTriangle className="h-4 w-4" />;
-      case 'under_review': return <Clock className="h-4 w-4" />;
-      case 'resolved': return <CheckCircle className="h-4 w-4" />;
-      case 'rejected': return <XCircle className="h-4 w-4" />;
-      default: return <AlertCircle className="h-4 w-4" />;
+  return (
+    <div className="border rounded-lg p-4 hover:bg-gray-50 transition-colors">
+      <div className="flex items-start justify-between mb-3">
+        <div className="space-y-2">
+          <div className="flex items-center gap-3">
+            {getStatusIcon(dispute.status)}
+            <span className="font-medium">{dispute.receiptNumber}</span>
+            <Badge className={statusColors[dispute.status]}>
+              {dispute.status.replace('_', ' ')}
+            </Badge>
+            <Badge className={priorityColors[dispute.priority]}>
+              {dispute.priority} priority
+            </Badge>
+            {dispute.isReceiptFrozen && (
+              <Badge variant="outline" className="border-red-300 text-red-700">
+                <Lock className="h-3 w-3 mr-1" />
+                Receipt frozen
+              </Badge>
+            )}
+          </div>
+          <div className="text-sm text-gray-600 space-y-1">
+            <p><span className="font-medium">Type:</span> {disputeTypeLabels[dispute.disputeType]}</p>
+            <p><span className="font-medium">Commodity:</span> {dispute.commodityName || '-'}</p>
+            <p><span className="font-medium">Quantity:</span> {dispute.quantity} MT</p>
+            <p><span className="font-medium">Valuation:</span> {formatCurrency(dispute.valuation)}</p>
+            <p><span className="font-medium">Filed:</span> {new Date(dispute.createdAt).toLocaleDateString()}</p>
+          </div>
+          <div className="bg-gray-100 p-3 rounded-md">
+            <p className="text-sm"><span className="font-medium">Issue:</span> {dispute.description}</p>
+          </div>
+          {dispute.status === 'evidence_requested' && dispute.evidenceRequest && (
+            <div className="bg-purple-50 border border-purple-200 p-3 rounded-md">
+              <p className="text-sm text-purple-800">
+                <span className="font-medium">Evidence requested:</span> {dispute.evidenceRequest}
+              </p>
+            </div>
+          )}
+          {dispute.resolutionNote && (
+            <div className={`${dispute.status === 'resolved' ? 'bg-green-50 border-green-200 text-green-800' : 'bg-gray-50 border-gray-200 text-gray-800'} border p-3 rounded-md`}>
+              <p className="text-sm">
+                <span className="font-medium">{dispute.status === 'resolved' ? 'Resolution' : 'Rejection'}:</span> {dispute.resolutionNote}
+              </p>
+            </div>
+          )}
+        </div>
+        <div className="flex items-center gap-2">
+          <Button variant="outline" size="sm" onClick={() => setShowDetails(!showDetails)}>
+            <FileCheck className="h-4 w-4 mr-1" />
+            {showDetails ? 'Hide' : 'Details'}
+          </Button>
+        </div>
+      </div>
+
+      {showDetails && (
+        <div className="mt-3 space-y-4 border-t pt-3">
+          <div>
+            <p className="text-sm font-medium mb-2">Evidence ({dispute.evidence.length})</p>
+            {dispute.evidence.length > 0 ? (
+              <ul className="space-y-1">
+                {dispute.evidence.map(item => (
+                  <li key={item.fileName} className="text-sm flex items-center gap-2">
+                    <Paperclip className="h-3 w-3 text-gray-500" />
+                    <a
+                      href={`/api/disputes/${dispute.id}/evidence/${item.fileName}`}
+                      target="_blank"
+                      rel="noreferrer"
+                      className="text-blue-600 hover:underline"
+                    >
+                      {item.originalName}
+                    </a>
+                    <span className="text-gray-400">{new Date(item.uploadedAt).toLocaleDateString()}</span>
+                    {item.note && <span className="text-gray-500">- {item.note}</span>}
+                  </li>
+                ))}
+              </ul>
+            ) : (
+              <p className="text-sm text-gray-500">No evidence uploaded</p>
+            )}
+          </div>
+
+          <div>
+            <p className="text-sm font-medium mb-2">History</p>
+            <ul className="space-y-1">
+              {dispute.history.map((entry, index) => (
+                <li key={index} className="text-sm text-gray-600">
+                  <span className="text-gray-400">{new Date(entry.at).toLocaleString()}</span>
+                  {' '}<span className="font-medium">{entry.status.replace('_', ' ')}</span>
+                  {entry.note && <> - {entry.note}</>}
+                </li>
+              ))}
+            </ul>
+          </div>
+
+          {open && (
+            <div className="space-y-3">
+              <Textarea
+                value={note}
+                onChange={(e) => setNote(e.target.value)}
+                placeholder={role === 'reviewer' ? 'Review note, evidence request or resolution...' : 'Note describing the evidence (optional)'}
+                rows={2}
+              />
+              <div className="flex flex-wrap items-center gap-2">
+                <Input
+                  type="file"
+                  multiple
+                  accept="image/jpeg,image/png,application/pdf"
+                  className="max-w-xs"
+                  onChange={(e) => setEvidenceFiles(Array.from(e.target.files || []).slice(0, 5))}
+                />
+                <Button
+                  variant="outline"
+                  size="sm"
+                  disabled={!canUpload || evidenceMutation.isPending}
+                  onClick={() => evidenceMutation.mutate()}
+                >
+                  <Upload className="h-4 w-4 mr-1" />
+                  Upload Evidence
+                </Button>
+              </div>
+
+              {canReview && (
+                <div className="flex flex-wrap gap-2">
+                  {(dispute.status === 'filed' || dispute.status === 'evidence_requested') && (
+                    <Button
+                      variant="outline"
+                      size="sm"
+                      disabled={actionMutation.isPending}
+                      onClick={() => actionMutation.mutate({ action: 'review', body: note ? { note } : {} })}
+                    >
+                      <RefreshCw className="h-4 w-4 mr-1" />
+                      Start Review
+                    </Button>
+                  )}
+                  {dispute.status === 'under_review' && (
+                    <>
+                      <Button
+                        variant="outline"
+                        size="sm"
+                        disabled={actionMutation.isPending}
+                        onClick={() => requireNote('request-evidence', request => ({ request }))}
+                      >
+                        <Paperclip className="h-4 w-4 mr-1" />
+                        Request Evidence
+                      </Button>
+                      <Button
+                        size="sm"
+                        className="bg-green-600 hover:bg-green-700"
+                        disabled={actionMutation.isPending}
+                        onClick={() => requireNote('resolve', resolutionNote => ({ resolutionNote }))}
+                      >
+                        <CheckCircle className="h-4 w-4 mr-1" />
+                        Resolve
+                      </Button>
+                    </>
+                  )}
+                  <Button
+                    variant="outline"
+                    size="sm"
+                    disabled={actionMutation.isPending}
+                    onClick={() => requireNote('reject', resolutionNote => ({ resolutionNote }))}
+                  >
+                    <XCircle className="h-4 w-4 mr-1" />
+                    Reject
+                  </Button>
+                </div>
+              )}
+            </div>
+          )}
+        </div>
+      )}
+    </div>
+  );
+}
+
+interface DisputeListProps {
+  disputes?: Dispute[];
+  isLoading: boolean;
+  role: 'filer' | 'reviewer';
+  emptyTitle: string;
+  emptyDescription: string;
+}
+
+function DisputeList({ disputes, isLoading, role, emptyTitle, emptyDescription }: DisputeListProps) {
+  if (isLoading) {
+    return (
+      <div className="text-center py-8">
+        <div className="animate-spin w-8 h-8 border-4 border-red-200 border-t-red-600 rounded-full mx-auto"></div>
+        <p className="text-gray-500 mt-4">Loading disputes...</p>
+      </div>
+    );
+  }
+
+  if (!disputes || disputes.length === 0) {
+    return (
+      <div className="text-center py-8">
+        <AlertTriangle className="h-12 w-12 text-gray-300 mx-auto mb-4" />
+        <p className="text-gray-500 mb-2">{emptyTitle}</p>
+        <p className="text-sm text-gray-400">{emptyDescription}</p>
+      </div>
+    );
+  }
+
+  return (
+    <div className="space-y-4">
+      {disputes.map(dispute => (
+        <DisputeCard key={dispute.id} dispute={dispute} role={role} />
+      ))}
+    </div>
+  );
+}
+
+export default function RedChannelPage() {
+  const [isDialogOpen, setIsDialogOpen] = useState(false);
+
+  // Disputes filed by the current user
+  const { data: myDisputes, isLoading } = useQuery<Dispute[]>({
+    queryKey: ['/api/disputes', 'mine'],
+    queryFn: async () => {
+      const res = await apiRequest('GET', '/api/disputes?scope=mine');
+      return await res.json();
     }
-  };
+  });
+
+  // Disputes assigned to the current user for review
+  const { data: assignedDisputes, isLoading: isLoadingAssigned } = useQuery<Dispute[]>({
+    queryKey: ['/api/disputes', 'assigned'],
+    queryFn: async () => {
+      const res = await apiRequest('GET', '/api/disputes?scope=assigned');
+      return await res.json();
+    }
+  });
 
-  const mockStats = {
-    totalDisputes: disputedReceipts?.length || 0,
-    underReview: disputedReceipts?.filter(r => r.status === 'under_review').length || 0,
-    resolved: disputedReceipts?.filter(r => r.status === 'resolved').length || 0,
-    avgResolutionTime: '3.2 days'
+  // Average time from filing to closure over the user's closed disputes
+  const closedDisputes = myDisputes?.filter(d => d.resolvedAt) || [];
+  const avgResolutionDays = closedDisputes.length > 0
+    ? closedDisputes.reduce(
+        (sum, d) => sum + (new Date(d.resolvedAt!).getTime() - new Date(d.createdAt).getTime()),
+        0
+      ) / closedDisputes.length / (24 * 60 * 60 * 1000)
+    : null;
+
+  const stats = {
+    totalDisputes: myDisputes?.length || 0,
+    open: myDisputes?.filter(isOpenDispute).length || 0,
+    resolved: myDisputes?.filter(r => r.status === 'resolved').length || 0,
+    avgResolutionTime: avgResolutionDays !== null ? `${avgResolutionDays.toFixed(1)} days` : '-'
   };
 
   return (
     <div className="container mx-auto p-6 space-y-6">
-      <div className="mb-6">
-        <h1 className="text-3xl font-bold text-gray-900">Red Channel - Dispute Management</h1>
-        <p className="text-gray-600 mt-2">
-          Manage disputed warehouse receipts and resolve quality, quantity, or authenticity issues
-        </p>
+      <div className="mb-6 flex items-start justify-between">
+        <div>
+          <h1 className="text-3xl font-bold text-gray-900">Red Channel - Dispute Management</h1>
+          <p className="text-gray-600 mt-2">
+            Manage disputed warehouse receipts and resolve quality, quantity, or authenticity issues
+          </p>
+        </div>
+        <Button onClick={() => setIsDialogOpen(true)} className="bg-red-600 hover:bg-red-700">
+          <AlertTriangle className="h-4 w-4 mr-2" />
+          File Dispute
+        </Button>
       </div>
 
       {/* Alert for Red Channel */}
       <Alert className="border-red-200 bg-red-50">
         <AlertTriangle className="h-4 w-4 text-red-600" />
         <AlertDescription className="text-red-800">
-          <strong>Red Channel Notice:</strong> All receipts in this channel require immediate attention due to quality concerns, disputes, or regulatory issues.
+          <strong>Red Channel Notice:</strong> Receipts with an open dispute are frozen and cannot be transferred, pledged or withdrawn until the dispute is closed.
         </AlertDescription>
       </Alert>
 
@@ -169,7 +453,7 @@ export default function RedChannelPage() {
             <div className="flex items-center justify-between">
               <div>
                 <p className="text-sm font-medium text-gray-600">Total Disputes</p>
-                <p className="text-2xl font-bold text-red-600">{mockStats.totalDisputes}</p>
+                <p className="text-2xl font-bold text-red-600">{stats.totalDisputes}</p>
               </div>
               <FileX className="h-8 w-8 text-red-600" />
             </div>
@@ -180,8 +464,8 @@ export default function RedChannelPage() {
           <CardContent className="p-6">
             <div className="flex items-center justify-between">
               <div>
-                <p className="text-sm font-medium text-gray-600">Under Review</p>
-                <p className="text-2xl font-bold text-yellow-600">{mockStats.underReview}</p>
+                <p className="text-sm font-medium text-gray-600">Open</p>
+                <p className="text-2xl font-bold text-yellow-600">{stats.open}</p>
               </div>
               <Clock className="h-8 w-8 text-yellow-600" />
             </div>
@@ -193,7 +477,7 @@ export default function RedChannelPage() {
             <div className="flex items-center justify-between">
               <div>
                 <p className="text-sm font-medium text-gray-600">Resolved</p>
-                <p className="text-2xl font-bold text-green-600">{mockStats.resolved}</p>
+                <p className="text-2xl font-bold text-green-600">{stats.resolved}</p>
               </div>
               <CheckCircle className="h-8 w-8 text-green-600" />
             </div>
@@ -205,7 +489,7 @@ export default function RedChannelPage() {
             <div className="flex items-center justify-between">
               <div>
                 <p className="text-sm font-medium text-gray-600">Avg Resolution</p>
-                <p className="text-2xl font-bold text-gray-900">{mockStats.avgResolutionTime}</p>
+                <p className="text-2xl font-bold text-gray-900">{stats.avgResolutionTime}</p>
               </div>
               <TrendingDown className="h-8 w-8 text-gray-600" />
             </div>
@@ -213,192 +497,45 @@ export default function RedChannelPage() {
         </Card>
       </div>
 
-      {/* File New Dispute */}
+      {/* Disputes */}
       <Card>
         <CardHeader>
-          <CardTitle className="flex items-center gap-2">
-            <AlertTriangle className="h-5 w-5 text-red-600" />
-            File New Dispute
-          </CardTitle>
+          <CardTitle>Disputes</CardTitle>
           <CardDescription>
-            Report issues with warehouse receipts that require investigation and resolution
+            Track disputes you filed and review disputes assigned to you
           </CardDescription>
         </CardHeader>
-        <CardContent className="space-y-4">
-          <div className="grid md:grid-cols-2 gap-4">
-            <div className="space-y-2">
-              <Label htmlFor="receipt-number">Receipt Number *</Label>
-              <Input
-                id="receipt-number"
-                value={disputeForm.receiptNumber}
-                onChange={(e) => setDisputeForm(prev => ({ ...prev, receiptNumber: e.target.value }))}
-                placeholder="Enter receipt number to dispute"
+        <CardContent>
+          <Tabs defaultValue="mine" className="space-y-4">
+            <TabsList>
+              <TabsTrigger value="mine">My Disputes</TabsTrigger>
+              <TabsTrigger value="assigned">
+                Assigned to Me{assignedDisputes?.length ? ` (${assignedDisputes.filter(isOpenDispute).length})` : ''}
+              </TabsTrigger>
+            </TabsList>
+            <TabsContent value="mine">
+              <DisputeList
+                disputes={myDisputes}
+                isLoading={isLoading}
+                role="filer"
+                emptyTitle="No disputes filed yet"
+                emptyDescription="File your first dispute if you encounter any issues with warehouse receipts"
               />
-            </div>
-
-            <div className="space-y-2">
-              <Label htmlFor="dispute-type">Dispute Type *</Label>
-              <Select
-                value={disputeForm.disputeType}
-                onValueChange={(value) => setDisputeForm(prev => ({ ...prev, disputeType: value }))}
-              >
-                <SelectTrigger>
-                  <SelectValue placeholder="Select dispute type" />
-                </SelectTrigger>
-                <SelectContent>
-                  {Object.entries(disputeTypes).map(([key, label]) => (
-                    <SelectItem key={key} value={key}>{label}</SelectItem>
-                  ))}
-                </SelectContent>
-              </Select>
-            </div>
-          </div>
-
-          <div className="space-y-2">
-            <Label htmlFor="priority">Priority Level</Label>
-            <Select
-              value={disputeForm.priority}
-              onValueChange={(value) => setDisputeForm(prev => ({ ...prev, priority: value }))}
-            >
-              <SelectTrigger>
-                <SelectValue />
-              </SelectTrigger>
-              <SelectContent>
-                <SelectItem value="low">Low Priority</SelectItem>
-                <SelectItem value="medium">Medium Priority</SelectItem>
-                <SelectItem value="high">High Priority</SelectItem>
-                <SelectItem value="critical">Critical Priority</SelectItem>
-              </SelectContent>
-            </Select>
-          </div>
-
-          <div className="space-y-2">
-            <Label htmlFor="description">Dispute Description *</Label>
-            <Textarea
-              id="description"
-              value={disputeForm.description}
-              onChange={(e) => setDisputeForm(prev => ({ ...prev, description: e.target.value }))}
-              placeholder="Provide detailed description of the issue..."
-              rows={4}
-            />
-          </div>
-
-          <div className="space-y-2">
-            <Label htmlFor="evidence">Supporting Evidence</Label>
-            <Textarea
-              id="evidence"
-              value={disputeForm.evidence}
-              onChange={(e) => setDisputeForm(prev => ({ ...prev, evidence: e.target.value }))}
-              placeholder="List any supporting documents, witness statements, or evidence..."
-              rows={3}
-            />
-          </div>
-
-          <Button
-            onClick={handleSubmitDispute}
-            disabled={submitDisputeMutation.isPending}
-            className="w-full bg-red-600 hover:bg-red-700"
-          >
-            {submitDisputeMutation.isPending ? (
-              <>Processing...</>
-            ) : (
-              <>
-                <AlertTriangle className="h-4 w-4 mr-2" />
-                File Dispute
-              </>
-            )}
-          </Button>
+            </TabsContent>
+            <TabsContent value="assigned">
+              <DisputeList
+                disputes={assignedDisputes}
+                isLoading={isLoadingAssigned}
+                role="reviewer"
+                emptyTitle="No disputes assigned"
+                emptyDescription="Disputes assigned to you for review will appear here"
+              />
+            </TabsContent>
+          </Tabs>
         </CardContent>
       </Card>
 
-      {/* Existing Disputes */}
-      <Card>
-        <CardHeader>
-          <CardTitle>Active Disputes</CardTitle>
-          <CardDescription>
-            Monitor and track the status of your filed disputes
-          </CardDescription>
-        </CardHeader>
-        <CardContent>
-          {isLoading ? (
-            <div className="text-center py-8">
-              <div className="animate-spin w-8 h-8 border-4 border-red-200 border-t-red-600 rounded-full mx-auto"></div>
-              <p className="text-gray-500 mt-4">Loading disputes...</p>
-            </div>
-          ) : disputedReceipts && disputedReceipts.length > 0 ? (
-            <div className="space-y-4">
-              {disputedReceipts.map((dispute) => (
-                <div
-                  key={dispute.id}
-                  className="border rounded-lg p-4 hover:bg-gray-50 transition-colors"
-                >
-                  <div className="flex items-start justify-between mb-3">
-                    <div className="space-y-2">
-                      <div className="flex items-center gap-3">
-                        {getStatusIcon(dispute.status)}
-                        <span className="font-medium">{dispute.receiptNumber}</span>
-                        <Badge className={statusColors[dispute.status as keyof typeof statusColors]}>
-                          {dispute.status.replace('_', ' ')}
-                        </Badge>
-                        <Badge className={priorityColors[dispute.priority as keyof typeof priorityColors]}>
-                          {dispute.priority} priority
-                        </Badge>
-                      </div>
-                      <div className="text-sm text-gray-600 space-y-1">
-                        <p><span className="font-medium">Type:</span> {disputeTypes[dispute.disputeType as keyof typeof disputeTypes]}</p>
-                        <p><span className="font-medium">Commodity:</span> {dispute.commodityName}</p>
-                        <p><span className="font-medium">Quantity:</span> {dispute.quantity} MT</p>
-                        <p><span className="font-medium">Valuation:</span> {formatCurrency(dispute.valuation)}</p>
-                        <p><span className="font-medium">Filed:</span> {new Date(dispute.createdAt).toLocaleDateString()}</p>
-                      </div>
-                      <div className="bg-gray-100 p-3 rounded-md">
-                        <p className="text-sm"><span className="font-medium">Issue:</span> {dispute.disputeReason}</p>
-                      </div>
-                      {dispute.resolutionNote && (
-                        <div className="bg-green-50 border border-green-200 p-3 rounded-md">
-                          <p className="text-sm text-green-800">
-                            <span className="font-medium">Resolution:</span> {dispute.resolutionNote}
-                          </p>
-                        </div>
-                      )}
-                    </div>
-                    <div className="flex items-center gap-2">
-                      <Button variant="outline" size="sm">
-                        <FileCheck className="h-4 w-4 mr-1" />
-                        Details
-                      </Button>
-                      {dispute.status === 'under_review' && (
-                        <Button variant="outline" size="sm">
-                          <RefreshCw className="h-4 w-4 mr-1" />
-                          Update
-                        </Button>
-                      )}
-                    </div>
-                  </div>
-                  
-                  {dispute.status === 'under_review' && (
-                    <div className="mt-3">
-                      <div className="flex items-center justify-between text-sm text-gray-600 mb-1">
-                        <span>Resolution Progress</span>
-                        <span>65%</span>
-                      </div>
-                      <Progress value={65} className="h-2" />
-                    </div>
-                  )}
-                </div>
-              ))}
-            </div>
-          ) : (
-            <div className="text-center py-8">
-              <AlertTriangle className="h-12 w-12 text-gray-300 mx-auto mb-4" />
-              <p className="text-gray-500 mb-2">No disputes filed yet</p>
-              <p className="text-sm text-gray-400">
-                File your first dispute if you encounter any issues with warehouse receipts
-              </p>
-            </div>
-          )}
-        </CardContent>
-      </Card>
+      <RedChannelDialog isOpen={isDialogOpen} onClose={() => setIsDialogOpen(false)} />
 
       {/* Red Channel Features */}
       <div className="grid md:grid-cols-3 gap-6">
@@ -16,13 +16,13 @@ import { Tabs, TabsContent, TabsList, TabsTrigger } from '@/components/ui/tabs';
 import { SackHistory } from '@/components/commodities/SackHistory';
 import { SackVisualization } from '@/components/commodities/SackVisualization';
 import { useToast } from '@/hooks/use-toast';
+import { apiRequest, queryClient } from '@/lib/queryClient';
 import { 
   AlertTriangle,
   ArrowLeft, 
   ArrowRight, 
   Copy, 
   Download, 
-  ExternalLink, 
   Loader2, 
   Warehouse, 
   Package, 
@@ -260,23 +260,15 @@ export default function SackDetailPage() {
                   className="h-48 w-48 object-contain mb-2"
                 />
                 <p className="text-sm text-muted-foreground mb-2">
-                  Scan to verify this commodity sack
+                  Signed tag: scan to verify this commodity sack, even offline
                 </p>
                 <div className="flex gap-2">
-                  <Button 
-                    variant="outline" 
-                    size="sm"
-                    onClick={() => window.open(sack.qrCodeUrl!, '_blank')}
-                  >
-                    <ExternalLink className="h-4 w-4 mr-2" />
-                    Open in New Tab
-                  </Button>
-                  <Button 
-                    variant="outline" 
-                    size="sm"
-                  >
-                    <Download className="h-4 w-4 mr-2" />
-                    Download
+                  {/* The tag is a locally generated data URL, so it downloads rather than opens */}
+                  <Button variant="outline" size="sm" asChild>
+                    <a href={sack.qrCodeUrl} download={`${sack.sackId}.png`}>
+                      <Download className="h-4 w-4 mr-2" />
+                      Download
+                    </a>
                   </Button>
                 </div>
               </>
@@ -290,12 +282,21 @@ export default function SackDetailPage() {
                 </p>
                 <Button 
                   className="mt-4" 
-                  onClick={() => {
-                    // This would be an API call to generate a QR code
-                    toast({
-                      title: "Feature Coming Soon",
-                      description: "QR code generation will be available in the next update.",
-                    });
+                  onClick={async () => {
+                    try {
+                      await apiRequest('POST', `/api/qr/sacks/${sack.id}`);
+                      queryClient.invalidateQueries({ queryKey: ['/api/commodity-sacks', sackId] });
+                      toast({
+                        title: "QR code generated",
+                        description: "The sack tag is signed and ready to print.",
+                      });
+                    } catch (error) {
+                      toast({
+                        title: "QR code generation failed",
+                        description: error instanceof Error ? error.message : "Please try again.",
+                        variant: "destructive",
+                      });
+                    }
                   }}
                 >
                   Generate QR Code
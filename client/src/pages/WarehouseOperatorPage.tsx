@@ -0,0 +1,342 @@
+import { useState } from 'react';
+import MainLayout from '@/components/layout/MainLayout';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Textarea } from '@/components/ui/textarea';
+import { Badge } from '@/components/ui/badge';
+import { Truck, Scale, Droplets, FlaskConical, CheckCircle, XCircle, Inbox, Circle } from 'lucide-react';
+import { useToast } from '@/hooks/use-toast';
+import { useQuery, useMutation, useQueryClient } from '@tanstack/react-query';
+import { apiRequest } from '@/lib/queryClient';
+import type { GradeSpecification } from '@shared/schema';
+
+interface LotInspection {
+  gateIn?: { vehicleNumber: string; driverName?: string; bagCount?: number; recordedAt: string };
+  weighbridge?: { grossWeight: number; tareWeight: number; netWeight: number; recordedAt: string };
+  moisture?: { moisturePercent: number; recordedAt: string };
+  sampling?: { sampleId: string; parameters: Record<string, number>; recordedAt: string };
+}
+
+interface InboundLot {
+  id: number;
+  status: string;
+  currentStage: string | null;
+  statusMessage: string | null;
+  startTime: string;
+  warehouseName: string;
+  commodityName?: string;
+  commodityType?: string;
+  declaredQuantity?: string;
+  measurementUnit?: string;
+  inspection: LotInspection;
+}
+
+interface GradingResult {
+  passed: boolean;
+  grade: string;
+  score: number;
+  deductionPercent: number;
+  deductions: { parameter: string; value: number; basis: number; deductionPercent: number }[];
+  failures: string[];
+}
+
+// Sampling fields used when no grade specification applies to the commodity
+const fallbackSampleParameters = ['foreignMatter', 'brokenGrains', 'damaged'];
+
+const steps = [
+  { key: 'gateIn', label: 'Gate-in', icon: Truck },
+  { key: 'weighbridge', label: 'Weighbridge', icon: Scale },
+  { key: 'moisture', label: 'Moisture', icon: Droplets },
+  { key: 'sampling', label: 'Sampling', icon: FlaskConical }
+] as const;
+
+function StepBadges({ inspection }: { inspection: LotInspection }) {
+  return (
+    <div className="flex flex-wrap gap-2">
+      {steps.map(({ key, label, icon: Icon }) => (
+        <Badge
+          key={key}
+          variant="outline"
+          className={inspection[key] ? 'border-green-300 text-green-700' : 'text-gray-500'}
+        >
+          {inspection[key] ? <Icon className="h-3 w-3 mr-1" /> : <Circle className="h-3 w-3 mr-1" />}
+          {label}
+        </Badge>
+      ))}
+    </div>
+  );
+}
+
+function LotActions({ lot }: { lot: InboundLot }) {
+  const [gateIn, setGateIn] = useState({ vehicleNumber: '', driverName: '', bagCount: '' });
+  const [weights, setWeights] = useState({ grossWeight: '', tareWeight: '' });
+  const [moisture, setMoisture] = useState('');
+  const [sampleId, setSampleId] = useState('');
+  const [sampleValues, setSampleValues] = useState<Record<string, string>>({});
+  const [rejectReason, setRejectReason] = useState('');
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+
+  const stepMutation = useMutation({
+    mutationFn: async ({ action, body }: { action: string; body: Record<string, unknown> }) => {
+      const res = await apiRequest('POST', `/api/operator/processes/${lot.id}/${action}`, body);
+      return await res.json();
+    },
+    onSuccess: (_data, { action }) => {
+      toast({ title: 'Lot Updated', description: `${action.replace('-', ' ')} recorded` });
+      queryClient.invalidateQueries({ queryKey: ['/api/operator/queue'] });
+      queryClient.invalidateQueries({ queryKey: [`/api/operator/processes/${lot.id}/grading`] });
+    },
+    onError: (error: Error) => {
+      toast({ title: 'Update Failed', description: error.message, variant: 'destructive' });
+    }
+  });
+
+  const { inspection } = lot;
+  const readyForDecision = !!(inspection.gateIn && inspection.weighbridge && inspection.moisture && inspection.sampling);
+
+  const specParams = new URLSearchParams({ commodityName: lot.commodityName || '', commodityType: lot.commodityType || '' });
+  const { data: specData } = useQuery<{ spec: GradeSpecification | null; source: string }>({
+    queryKey: [`/api/grading/specs/resolve?${specParams.toString()}`],
+    enabled: !!(lot.commodityName && lot.commodityType)
+  });
+  const sampleParameters = specData?.spec
+    ? Object.keys(specData.spec.parameters).filter(name => name !== 'moisture')
+    : fallbackSampleParameters;
+
+  const { data: grading } = useQuery<GradingResult>({
+    queryKey: [`/api/operator/processes/${lot.id}/grading`],
+    enabled: !!(inspection.moisture && inspection.sampling)
+  });
+
+  return (
+    <div className="space-y-6">
+      {/* Gate-in */}
+      <div className="space-y-2">
+        <h4 className="font-medium flex items-center gap-2"><Truck className="h-4 w-4" /> Gate-in</h4>
+        {inspection.gateIn ? (
+          <p className="text-sm text-gray-600">
+            Vehicle {inspection.gateIn.vehicleNumber}
+            {inspection.gateIn.bagCount ? `, ${inspection.gateIn.bagCount} bags` : ''} at {new Date(inspection.gateIn.recordedAt).toLocaleString()}
+          </p>
+        ) : (
+          <div className="grid md:grid-cols-4 gap-2">
+            <Input placeholder="Vehicle number" value={gateIn.vehicleNumber} onChange={(e) => setGateIn(prev => ({ ...prev, vehicleNumber: e.target.value }))} />
+            <Input placeholder="Driver name" value={gateIn.driverName} onChange={(e) => setGateIn(prev => ({ ...prev, driverName: e.target.value }))} />
+            <Input placeholder="Bag count" type="number" value={gateIn.bagCount} onChange={(e) => setGateIn(prev => ({ ...prev, bagCount: e.target.value }))} />
+            <Button
+              disabled={!gateIn.vehicleNumber || stepMutation.isPending}
+              onClick={() => stepMutation.mutate({
+                action: 'gate-in',
+                body: { vehicleNumber: gateIn.vehicleNumber, driverName: gateIn.driverName || undefined, bagCount: gateIn.bagCount || undefined }
+              })}
+            >
+              Record Gate-in
+            </Button>
+          </div>
+        )}
+      </div>
+
+      {/* Weighbridge */}
+      <div className="space-y-2">
+        <h4 className="font-medium flex items-center gap-2"><Scale className="h-4 w-4" /> Weighbridge</h4>
+        {inspection.weighbridge ? (
+          <p className="text-sm text-gray-600">
+            Gross {inspection.weighbridge.grossWeight.toLocaleString('en-IN')} kg, tare {inspection.weighbridge.tareWeight.toLocaleString('en-IN')} kg,
+            net <span className="font-medium">{inspection.weighbridge.netWeight.toLocaleString('en-IN')} kg</span>
+          </p>
+        ) : (
+          <div className="grid md:grid-cols-3 gap-2">
+            <Input placeholder="Gross weight (kg)" type="number" value={weights.grossWeight} onChange={(e) => setWeights(prev => ({ ...prev, grossWeight: e.target.value }))} />
+            <Input placeholder="Tare weight (kg)" type="number" value={weights.tareWeight} onChange={(e) => setWeights(prev => ({ ...prev, tareWeight: e.target.value }))} />
+            <Button
+              disabled={!inspection.gateIn || !weights.grossWeight || !weights.tareWeight || stepMutation.isPending}
+              onClick={() => stepMutation.mutate({ action: 'weighbridge', body: weights })}
+            >
+              Record Weight
+            </Button>
+          </div>
+        )}
+      </div>
+
+      {/* Moisture */}
+      <div className="space-y-2">
+        <h4 className="font-medium flex items-center gap-2"><Droplets className="h-4 w-4" /> Moisture</h4>
+        {inspection.moisture ? (
+          <p className="text-sm text-gray-600">{inspection.moisture.moisturePercent}% moisture</p>
+        ) : (
+          <div className="grid md:grid-cols-3 gap-2">
+            <Input placeholder="Moisture %" type="number" value={moisture} onChange={(e) => setMoisture(e.target.value)} />
+            <Button
+              disabled={!inspection.weighbridge || !moisture || stepMutation.isPending}
+              onClick={() => stepMutation.mutate({ action: 'moisture', body: { moisturePercent: moisture } })}
+            >
+              Record Moisture
+            </Button>
+          </div>
+        )}
+      </div>
+
+      {/* Sampling */}
+      <div className="space-y-2">
+        <h4 className="font-medium flex items-center gap-2"><FlaskConical className="h-4 w-4" /> Sampling</h4>
+        {inspection.sampling ? (
+          <p className="text-sm text-gray-600">
+            Sample {inspection.sampling.sampleId}:{' '}
+            {Object.entries(inspection.sampling.parameters).map(([key, value]) => `${key} ${value}%`).join(', ')}
+          </p>
+        ) : (
+          <div className="grid md:grid-cols-5 gap-2">
+            <Input placeholder="Sample ID" value={sampleId} onChange={(e) => setSampleId(e.target.value)} />
+            {sampleParameters.map(name => (
+              <Input
+                key={name}
+                placeholder={`${name} ${specData?.spec?.parameters[name]?.unit || '%'}`}
+                type="number"
+                value={sampleValues[name] || ''}
+                onChange={(e) => setSampleValues(prev => ({ ...prev, [name]: e.target.value }))}
+              />
+            ))}
+            <Button
+              disabled={!inspection.weighbridge || !sampleId || stepMutation.isPending}
+              onClick={() => {
+                const parameters = Object.fromEntries(Object.entries(sampleValues).filter(([, value]) => value !== ''));
+                stepMutation.mutate({ action: 'sampling', body: { sampleId, parameters } });
+              }}
+            >
+              Record Sample
+            </Button>
+          </div>
+        )}
+      </div>
+
+      {/* Decision */}
+      <div className="border-t pt-4 grid md:grid-cols-2 gap-4">
+        <div className="space-y-2">
+          <Label>Grade</Label>
+          {grading ? (
+            <div className="text-sm space-y-1">
+              <Badge variant="outline" className={grading.passed ? 'border-green-300 text-green-700' : 'border-red-300 text-red-700'}>
+                {grading.passed ? `Grade ${grading.grade}` : grading.grade}
+              </Badge>
+              {grading.deductions.map(d => (
+                <p key={d.parameter} className="text-gray-600">
+                  {d.parameter} {d.value} (basis {d.basis}): -{d.deductionPercent}% value
+                </p>
+              ))}
+              {grading.failures.map(failure => (
+                <p key={failure} className="text-red-600">{failure}</p>
+              ))}
+            </div>
+          ) : (
+            <p className="text-sm text-gray-500">Recorded once moisture and sampling are in</p>
+          )}
+          <Button
+            className="bg-green-600 hover:bg-green-700"
+            disabled={!readyForDecision || grading?.passed === false || stepMutation.isPending}
+            onClick={() => stepMutation.mutate({ action: 'approve', body: {} })}
+          >
+            <CheckCircle className="h-4 w-4 mr-1" />
+            Approve Lot
+          </Button>
+        </div>
+        <div className="space-y-2">
+          <Label>Rejection reason</Label>
+          <div className="flex gap-2">
+            <Textarea rows={1} value={rejectReason} onChange={(e) => setRejectReason(e.target.value)} placeholder="Why the lot is rejected" />
+            <Button
+              variant="destructive"
+              disabled={rejectReason.trim().length < 5 || stepMutation.isPending}
+              onClick={() => stepMutation.mutate({ action: 'reject', body: { reason: rejectReason.trim() } })}
+            >
+              <XCircle className="h-4 w-4 mr-1" />
+              Reject
+            </Button>
+          </div>
+        </div>
+      </div>
+    </div>
+  );
+}
+
+export default function WarehouseOperatorPage() {
+  const [selectedId, setSelectedId] = useState<number | null>(null);
+
+  const { data: queue, isLoading, error } = useQuery<InboundLot[]>({
+    queryKey: ['/api/operator/queue'],
+    refetchInterval: 30000
+  });
+
+  const selectedLot = queue?.find(lot => lot.id === selectedId);
+
+  return (
+    <MainLayout>
+      <div className="max-w-7xl mx-auto px-4 sm:px-6 lg:px-8 py-8 space-y-6" data-testid="warehouse-operator-page">
+        <div>
+          <h1 className="text-3xl font-bold text-gray-900">Operator Console</h1>
+          <p className="text-gray-600 mt-2">
+            Receive inbound deposits: record gate-in, weighbridge, moisture and sampling, then approve or reject each lot
+          </p>
+        </div>
+
+        <div className="grid lg:grid-cols-3 gap-6">
+          <Card className="lg:col-span-1">
+            <CardHeader>
+              <CardTitle>Inbound Queue</CardTitle>
+              <CardDescription>Open deposits at your warehouses</CardDescription>
+            </CardHeader>
+            <CardContent>
+              {isLoading ? (
+                <p className="text-gray-500 text-sm">Loading queue...</p>
+              ) : error ? (
+                <p className="text-red-600 text-sm">{(error as Error).message}</p>
+              ) : queue && queue.length > 0 ? (
+                <div className="space-y-3">
+                  {queue.map(lot => (
+                    <button
+                      key={lot.id}
+                      onClick={() => setSelectedId(lot.id)}
+                      className={`w-full text-left border rounded-lg p-3 transition-colors ${selectedId === lot.id ? 'border-primary-500 bg-primary-50' : 'hover:bg-gray-50'}`}
+                    >
+                      <div className="flex items-center justify-between">
+                        <span className="font-medium">#{lot.id} {lot.commodityName}</span>
+                        <span className="text-xs text-gray-500">{new Date(lot.startTime).toLocaleDateString()}</span>
+                      </div>
+                      <p className="text-sm text-gray-600">
+                        {lot.declaredQuantity} {lot.measurementUnit} at {lot.warehouseName}
+                      </p>
+                      <div className="mt-2">
+                        <StepBadges inspection={lot.inspection} />
+                      </div>
+                    </button>
+                  ))}
+                </div>
+              ) : (
+                <div className="text-center py-8">
+                  <Inbox className="h-10 w-10 text-gray-300 mx-auto mb-3" />
+                  <p className="text-gray-500 text-sm">No inbound deposits waiting</p>
+                </div>
+              )}
+            </CardContent>
+          </Card>
+
+          <Card className="lg:col-span-2">
+            <CardHeader>
+              <CardTitle>
+                {selectedLot ? `Lot #${selectedLot.id} - ${selectedLot.commodityName}` : 'Select a lot'}
+              </CardTitle>
+              <CardDescription>
+                {selectedLot?.statusMessage || 'Choose a deposit from the queue to record inspection results'}
+              </CardDescription>
+            </CardHeader>
+            <CardContent>
+              {selectedLot && <LotActions key={selectedLot.id} lot={selectedLot} />}
+            </CardContent>
+          </Card>
+        </div>
+      </div>
+    </MainLayout>
+  );
+}
@@ -1,71 +1,71 @@
 
 import { db } from '../server/db';
-import { commodityCategories, defaultQualityParameters } from '../shared/schema';
+import { commodityCategories, defaultGradeSpecifications } from '../shared/schema';
 
 const commodityCategoriesData = [
   // Cereals
   {
     name: 'Wheat',
     category: 'cereals',
-    qualityParameters: defaultQualityParameters.cereals
+    qualityParameters: defaultGradeSpecifications.cereals
   },
   {
     name: 'Rice',
     category: 'cereals',
-    qualityParameters: defaultQualityParameters.cereals
+    qualityParameters: defaultGradeSpecifications.cereals
   },
   {
     name: 'Maize',
     category: 'cereals',
-    qualityParameters: defaultQualityParameters.cereals
+    qualityParameters: defaultGradeSpecifications.cereals
   },
   // Pulses
   {
     name: 'Green Gram',
     category: 'pulses',
-    qualityParameters: defaultQualityParameters.pulses
+    qualityParameters: defaultGradeSpecifications.pulses
   },
   {
     name: 'Black Gram',
     category: 'pulses',
-    qualityParameters: defaultQualityParameters.pulses
+    qualityParameters: defaultGradeSpecifications.pulses
   },
   {
     name: 'Red Gram',
     category: 'pulses',
-    qualityParameters: defaultQualityParameters.pulses
+    qualityParameters: defaultGradeSpecifications.pulses
   },
   // Oilseeds
   {
     name: 'Soybean',
     category: 'oilseeds',
-    qualityParameters: defaultQualityParameters.oilseeds
+    qualityParameters: defaultGradeSpecifications.oilseeds
   },
   {
     name: 'Groundnut',
     category: 'oilseeds',
-    qualityParameters: defaultQualityParameters.oilseeds
+    qualityParameters: defaultGradeSpecifications.oilseeds
   },
   {
     name: 'Mustard',
     category: 'oilseeds',
-    qualityParameters: defaultQualityParameters.oilseeds
+    qualityParameters: defaultGradeSpecifications.oilseeds
   },
   // Spices
   {
     name: 'Turmeric',
     category: 'spices',
-    qualityParameters: defaultQualityParameters.spices
+    qualityParameters: defaultGradeSpecifications.spices
   },
   {
     name: 'Black Pepper',
     category: 'spices',
-    qualityParameters: defaultQualityParameters.spices
+    qualityParameters: defaultGradeSpecifications.spices
   },
   {
     name: 'Cardamom',
     category: 'spices',
-    qualityParameters: defaultQualityParameters.spices
+    qualityParameters: defaultGradeSpecifications.spices
   }
 ];
 
@@ -1,11 +1,31 @@
 import express, { type Request, Response, NextFunction } from "express";
 import { registerRoutes } from "./routes";
 import { setupVite, serveStatic, log } from "./vite";
+import { revaluationService } from "./services/RevaluationService";
+import { marginCallService } from "./services/MarginCallService";
+import { liquidationService } from "./services/LiquidationService";
+import { loanAccountingService } from "./services/LoanAccountingService";
+import { storageFeeService } from "./services/StorageFeeService";
+import { lendingMiddleware } from "./services/LendingMiddleware";
+import { creditScoringService } from "./services/CreditScoringService";
+import { auditLedgerService } from "./services/AuditLedgerService";
+import { smartContractService } from "./services/SmartContractService";
 import session from "express-session";
 import MemoryStore from "memorystore";
 
+declare module "http" {
+  interface IncomingMessage {
+    // Body bytes as received; partner webhook signatures are checked against them
+    rawBody?: Buffer;
+  }
+}
+
 const app = express();
-app.use(express.json());
+app.use(express.json({
+  verify: (req, _res, buf) => {
+    req.rawBody = buf;
+  }
+}));
 app.use(express.urlencoded({ extended: false }));
 
 // Create memory store for sessions
@@ -95,5 +115,14 @@ app.use((req, res, next) => {
     reusePort: true,
   }, () => {
     log(`serving on port ${port}`);
+    revaluationService.start();
+    marginCallService.start();
+    liquidationService.start();
+    loanAccountingService.start();
+    storageFeeService.start();
+    lendingMiddleware.start();
+    creditScoringService.start();
+    auditLedgerService.start();
+    smartContractService.start();
   });
 })();
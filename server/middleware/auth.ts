@@ -0,0 +1,205 @@
+import { Request, Response, NextFunction } from 'express';
+import { storage } from '../storage';
+import type { User, UserRole, Process } from '@shared/schema';
+
+declare global {
+  namespace Express {
+    interface Request {
+      currentUser?: User;
+    }
+  }
+}
+
+/**
+ * Permissions checked by route policies
+ */
+export type Permission =
+  | 'admin:system'         // Monitoring, error logs, metrics, health checks
+  | 'admin:users'          // Manage user roles
+  | 'warehouse:seed'       // Seed mandi warehouse directory
+  | 'warehouse:operate'    // Operate inbound/outbound processes at owned warehouses
+  | 'dispute:assign'       // Assign Red Channel disputes to reviewers
+  | 'dispute:review'       // Review and close Red Channel disputes
+  | 'grading:manage'       // Configure commodity grade specifications
+  | 'loan:manage'          // Lender-side loan operations
+  | 'auction:bid'          // Bid in liquidation auctions
+  | 'ledger:view'          // Trial balance and every ledger account's statement
+  | 'kyc:review';          // Review KYC submissions and their documents
+
+/**
+ * Role to permission mapping. Admins implicitly hold every permission.
+ */
+const ROLE_PERMISSIONS: Record<UserRole, Permission[]> = {
+  farmer: [],
+  trader: ['auction:bid'],
+  warehouse_owner: ['warehouse:operate'],
+  logistics_provider: [],
+  lender: ['loan:manage'],
+  admin: []
+};
+
+/**
+ * Check whether a role grants a permission
+ */
+export function hasPermission(role: UserRole, permission: Permission): boolean {
+  return role === 'admin' || ROLE_PERMISSIONS[role].includes(permission);
+}
+
+/**
+ * Session validation middleware
+ * Rejects requests that do not carry an authenticated session
+ */
+export const requireAuth = (req: Request, res: Response, next: NextFunction) => {
+  if (!req.session?.userId) {
+    return res.status(401).json({ message: "Not authenticated" });
+  }
+  next();
+};
+
+/**
+ * Load the session user onto req.currentUser
+ */
+async function loadCurrentUser(req: Request, res: Response): Promise<User | undefined> {
+  if (!req.session?.userId) {
+    res.status(401).json({ message: "Not authenticated" });
+    return undefined;
+  }
+
+  if (!req.currentUser) {
+    req.currentUser = await storage.getUser(req.session.userId);
+  }
+
+  if (!req.currentUser) {
+    res.status(401).json({ message: "Not authenticated" });
+    return undefined;
+  }
+
+  return req.currentUser;
+}
+
+/**
+ * Only allow users holding one of the given roles
+ */
+export function requireRole(...roles: UserRole[]) {
+  return async (req: Request, res: Response, next: NextFunction) => {
+    try {
+      const user = await loadCurrentUser(req, res);
+      if (!user) return;
+
+      if (!roles.includes(user.role)) {
+        return res.status(403).json({ message: "Insufficient role" });
+      }
+      next();
+    } catch (error) {
+      next(error);
+    }
+  };
+}
+
+/**
+ * Only allow users whose role grants the given permission
+ */
+export function requirePermission(permission: Permission) {
+  return async (req: Request, res: Response, next: NextFunction) => {
+    try {
+      const user = await loadCurrentUser(req, res);
+      if (!user) return;
+
+      if (!hasPermission(user.role, permission)) {
+        return res.status(403).json({ message: "Insufficient permissions" });
+      }
+      next();
+    } catch (error) {
+      next(error);
+    }
+  };
+}
+
+/**
+ * Check whether a user operates the warehouse where a process takes place
+ * (warehouse owner or admin). Depositors do not qualify.
+ */
+export async function canOperateProcess(user: User, process: Process): Promise<boolean> {
+  if (user.role === 'admin') {
+    return true;
+  }
+
+  if (!hasPermission(user.role, 'warehouse:operate') || !process.warehouseId) {
+    return false;
+  }
+
+  const warehouse = await storage.getWarehouse(process.warehouseId);
+  return warehouse?.ownerId === user.id;
+}
+
+/**
+ * Check whether a user acts for a lending partner: a lender user linked to the
+ * partner, or an admin. Nobody acts for a loan without a partner but admins.
+ */
+export function actsForLender(user: User, lendingPartnerId: number | null): boolean {
+  if (user.role === 'admin') {
+    return true;
+  }
+
+  return hasPermission(user.role, 'loan:manage')
+    && lendingPartnerId !== null
+    && user.lendingPartnerId === lendingPartnerId;
+}
+
+/**
+ * Check whether a user may act on a process: the depositor, the operator
+ * owning the process warehouse, or an admin.
+ */
+export async function canActOnProcess(user: User, process: Process): Promise<boolean> {
+  return process.userId === user.id || canOperateProcess(user, process);
+}
+
+/**
+ * Only allow the depositor, the owning warehouse operator, or an admin to act on
+ * the process identified by the given route parameter
+ */
+export function requireProcessAccess(param: string = 'processId') {
+  return async (req: Request, res: Response, next: NextFunction) => {
+    try {
+      const user = await loadCurrentUser(req, res);
+      if (!user) return;
+
+      const process = await storage.getProcess(parseInt(req.params[param]));
+      if (!process) {
+        return res.status(404).json({ message: "Process not found" });
+      }
+
+      if (!(await canActOnProcess(user, process))) {
+        return res.status(403).json({ message: "Access denied" });
+      }
+      next();
+    } catch (error) {
+      next(error);
+    }
+  };
+}
+
+/**
+ * Only allow the operator owning the warehouse of the process identified by the
+ * given route parameter, or an admin. Depositors do not qualify.
+ */
+export function requireProcessOperator(param: string = 'processId') {
+  return async (req: Request, res: Response, next: NextFunction) => {
+    try {
+      const user = await loadCurrentUser(req, res);
+      if (!user) return;
+
+      const process = await storage.getProcess(parseInt(req.params[param]));
+      if (!process) {
+        return res.status(404).json({ message: "Process not found" });
+      }
+
+      if (!(await canOperateProcess(user, process))) {
+        return res.status(403).json({ message: "Access denied" });
+      }
+      next();
+    } catch (error) {
+      next(error);
+    }
+  };
+}
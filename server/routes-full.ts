@@ -2420,11 +2420,7 @@ if (oldWarehouse) {
       }
 
       const { id } = req.params;
-      const { amount, paymentMethod } = req.body;
-
-      if (!amount) {
-        return res.status(400).json({ message: "Payment amount is required" });
-      }
+      const { paymentMethod } = req.body;
 
       // Check if warehouse exists
       const warehouse = await storage.getWarehouse(parseInt(id));
@@ -2436,7 +2432,6 @@ if (oldWarehouse) {
       const result = await paymentService.payWarehouseFees(
         req.session.userId,
         parseInt(id),
-        amount,
         paymentMethod as PaymentMethod
       );
 
@@ -4,7 +4,8 @@ import { createServer, type Server } from "http";
 import path from "path";
 import crypto from 'crypto';
 import { storage } from "./storage";
-import { insertUserSchema } from "@shared/schema";
+import { insertUserSchema, userRoleEnum, processStatusEnum } from "@shared/schema";
+import { receiptLiens } from "@shared/auditProof";
 import { z } from "zod";
 import { fromZodError } from "zod-validation-error";
 import multer from "multer";
@@ -12,6 +13,38 @@ import IntegrationMonitoringService from "./services/IntegrationMonitoringServic
 import RetryService from "./services/RetryService";
 import { webhookRateLimiter, adminRateLimiter, generalRateLimiter } from "./middleware/rateLimiter";
 import authRouter from "./routes/auth";
+import disputesRouter from "./routes/disputes";
+import operatorRouter from "./routes/operator";
+import gradingRouter from "./routes/grading";
+import receiptLotsRouter from "./routes/receiptLots";
+import endorsementsRouter from "./routes/endorsements";
+import pricingRouter from "./routes/pricing";
+import revaluationRouter from "./routes/revaluation";
+import marginCallsRouter from "./routes/marginCalls";
+import auctionsRouter from "./routes/auctions";
+import loanAccountsRouter from "./routes/loanAccounts";
+import ledgerRouter from "./routes/ledger";
+import storageFeesRouter from "./routes/storageFees";
+import lendingRouter from "./routes/lending";
+import creditRouter from "./routes/credit";
+import liensRouter from "./routes/liens";
+import kycRouter from "./routes/kyc";
+import auditRouter from "./routes/audit";
+import qrRouter from "./routes/qr";
+import contractsRouter from "./routes/contracts";
+import tradesRouter from "./routes/trades";
+import { requireAuth, requirePermission, requireProcessAccess, requireProcessOperator, canOperateProcess } from "./middleware/auth";
+import { disputeService } from "./services/DisputeService";
+import { qualityGradingService, type GradingResult } from "./services/QualityGradingService";
+import { withdrawalService } from "./services/WithdrawalService";
+import { endorsementService } from "./services/EndorsementService";
+import { loanAccountingService } from "./services/LoanAccountingService";
+import { ledgerService } from "./services/LedgerService";
+import { priceFeedService } from "./services/PriceFeedService";
+import { creditScoringService } from "./services/CreditScoringService";
+import { lienService } from "./services/LienService";
+import { kycService } from "./services/KycService";
+import { auditLedgerService } from "./services/AuditLedgerService";
 import { verifyPassword } from './auth';
 import 'express-session';
 
@@ -30,14 +63,6 @@ export async function registerRoutes(app: Express): Promise<Server> {
   
   console.log("Registering API routes...");
 
-  // Session validation middleware
-  const requireAuth = (req: Request, res: Response, next: any) => {
-    if (!req.session?.userId) {
-      return res.status(401).json({ message: "Not authenticated" });
-    }
-    next();
-  };
-
   // OLD Auth routes - REPLACED with comprehensive auth system at /api/auth
   /*
   apiRouter.post("/auth/register", async (req: Request, res: Response) => {
@@ -273,6 +298,16 @@ export async function registerRoutes(app: Express): Promise<Server> {
         return res.status(404).json({ message: "Warehouse not found" });
       }
 
+      // Estimated at the warehouse's mandi price until graded
+      const { totalValue } = await priceFeedService.valuateAtWarehouse(
+        commodityName, quantity, measurementUnit || 'MT', warehouse.id
+      );
+
+      const kycRefusal = await kycService.checkLimit(userId, 'deposit', totalValue);
+      if (kycRefusal) {
+        return res.status(403).json({ message: kycRefusal });
+      }
+
       // Create commodity first
       const commodityData = {
         name: commodityName,
@@ -280,11 +315,11 @@ export async function registerRoutes(app: Express): Promise<Server> {
         quantity: parseFloat(quantity.toString()),
         measurementUnit: measurementUnit || 'MT',
         qualityParameters: {},
-        gradeAssigned: 'A',
+        gradeAssigned: 'pending', // Graded at the warehouse on inspection
         ownerId: userId,
         warehouseId: warehouseId,
         notes: `Deposit created on ${new Date().toISOString()}`,
-        valuation: parseFloat(quantity.toString()) * 1000 * 50 // Default Rs 50/kg, 1000kg per MT
+        valuation: totalValue
       };
 
       console.log('Creating commodity:', commodityData);
@@ -303,7 +338,6 @@ export async function registerRoutes(app: Express): Promise<Server> {
         status: 'active' as const,
         valuation: commodityData.valuation,
         smartContractId: `SC-${commodity.id}-${Date.now().toString(16)}`,
-        blockchainHash: `0x${Math.random().toString(16).substr(2, 40)}`,
         metadata: {
           deliveryDate: deliveryDate,
           deliveryTime: deliveryTime,
@@ -314,7 +348,7 @@ export async function registerRoutes(app: Express): Promise<Server> {
       };
 
       console.log('Creating warehouse receipt:', receiptData);
-      const receipt = await storage.createWarehouseReceipt(receiptData);
+      const receipt = await auditLedgerService.anchorReceipt(await storage.createWarehouseReceipt(receiptData));
       console.log('Warehouse receipt created:', receipt.id);
 
       res.status(201).json({
@@ -450,7 +484,7 @@ export async function registerRoutes(app: Express): Promise<Server> {
   });
 
   // Seed mandi warehouses endpoint
-  apiRouter.post("/warehouses/seed-mandi-data", async (req: Request, res: Response) => {
+  apiRouter.post("/warehouses/seed-mandi-data", requirePermission('warehouse:seed'), async (req: Request, res: Response) => {
     try {
       // Clear existing warehouses first (optional, can be removed if needed)
       const seededCount = await storage.seedMandiWarehouses();
@@ -526,8 +560,7 @@ export async function registerRoutes(app: Express): Promise<Server> {
         qualityParameters,
         gradeAssigned,
         warehouseId,
-        notes,
-        valuation
+        notes
       } = req.body;
 
       // Validate required fields
@@ -537,6 +570,21 @@ export async function registerRoutes(app: Express): Promise<Server> {
         });
       }
 
+      const warehouse = await storage.getWarehouse(parseInt(warehouseId));
+      if (!warehouse) {
+        return res.status(404).json({ message: "Warehouse not found" });
+      }
+
+      // Valued at the warehouse's mandi price, never at a value the client sends
+      const { totalValue } = await priceFeedService.valuateAtWarehouse(
+        name, quantity, measurementUnit || "MT", warehouse.id
+      );
+
+      const kycRefusal = await kycService.checkLimit(req.session.userId, 'deposit', totalValue);
+      if (kycRefusal) {
+        return res.status(403).json({ message: kycRefusal });
+      }
+
       const commodityData = {
         name,
         type,
@@ -544,11 +592,11 @@ export async function registerRoutes(app: Express): Promise<Server> {
         measurementUnit: measurementUnit || "MT",
         qualityParameters: qualityParameters || {},
         gradeAssigned: gradeAssigned || "pending",
-        warehouseId: parseInt(warehouseId),
+        warehouseId: warehouse.id,
         ownerId: req.session.userId,
         status: "active" as const,
         channelType: "green" as const,
-        valuation: valuation?.toString() || (parseFloat(quantity) * 1000 * 50).toString() // Rs 50 per kg default (MT to kg conversion)
+        valuation: totalValue.toString()
       };
 
       const commodity = await storage.createCommodity(commodityData);
@@ -674,7 +722,6 @@ export async function registerRoutes(app: Express): Promise<Server> {
         valuation: '125000', // Would be calculated based on extracted data
         issuedDate: new Date(),
         expiryDate: new Date(Date.now() + 365 * 24 * 60 * 60 * 1000), // 1 year from now
-        blockchainHash: `0x${Math.random().toString(16).substring(2, 18)}`,
         liens: {
           externalImport: true,
           originalWarehouse: req.file.originalname.split('.')[0],
@@ -684,7 +731,7 @@ export async function registerRoutes(app: Express): Promise<Server> {
       };
 
       // Create the warehouse receipt
-      const receipt = await storage.createWarehouseReceipt({
+      const receipt = await auditLedgerService.anchorReceipt(await storage.createWarehouseReceipt({
         receiptNumber: mockParsedData.receiptNumber,
         commodityId: null, // No commodity for external imports initially
         warehouseId: mockParsedData.warehouseId,
@@ -692,7 +739,6 @@ export async function registerRoutes(app: Express): Promise<Server> {
         quantity: mockParsedData.quantity,
         measurementUnit: mockParsedData.measurementUnit,
         status: mockParsedData.status,
-        blockchainHash: mockParsedData.blockchainHash,
         valuation: mockParsedData.valuation,
         externalId: mockParsedData.receiptNumber,
         externalSource: mockParsedData.externalSource,
@@ -710,7 +756,7 @@ export async function registerRoutes(app: Express): Promise<Server> {
           expiryDate: mockParsedData.expiryDate
         }),
         liens: JSON.stringify(mockParsedData.liens)
-      });
+      }));
 
       console.log("External receipt imported:", receipt.id);
       
@@ -757,42 +803,12 @@ export async function registerRoutes(app: Express): Promise<Server> {
   // Query disputed receipts (Red Channel)
   apiRouter.get("/receipts/disputed", requireAuth, async (req: Request, res: Response) => {
     try {
-      const userId = req.session!.userId;
-      
-      // For now, return mock disputed receipts data since we don't have a disputes table
-      // In production, this would query a disputes table with foreign key to receipts
-      const mockDisputed = [
-        {
-          id: 1,
-          receiptNumber: 'WR577619-1',
-          commodityName: 'Wheat',
-          quantity: '25.5',
-          valuation: '637500',
-          disputeReason: 'Quality parameters do not match expected standards',
-          disputeType: 'quality',
-          status: 'under_review',
-          priority: 'high',
-          createdAt: new Date(Date.now() - 2 * 24 * 60 * 60 * 1000).toISOString(),
-          resolutionNote: null
-        },
-        {
-          id: 2,
-          receiptNumber: 'EXT-1757324-456',
-          commodityName: 'Rice',
-          quantity: '15.0',
-          valuation: '375000',
-          disputeReason: 'Quantity discrepancy found during verification',
-          disputeType: 'quantity',
-          status: 'resolved',
-          priority: 'medium',
-          createdAt: new Date(Date.now() - 5 * 24 * 60 * 60 * 1000).toISOString(),
-          resolvedAt: new Date(Date.now() - 1 * 24 * 60 * 60 * 1000).toISOString(),
-          resolutionNote: 'Discrepancy resolved through re-weighing. Quantity confirmed accurate.'
-        }
-      ];
+      const userId = req.session!.userId as number;
+      const disputes = await storage.listDisputesByFiler(userId);
+      const disputed = await Promise.all(disputes.map(d => disputeService.toView(d)));
       
       res.setHeader('Content-Type', 'application/json');
-      res.json(mockDisputed);
+      res.json(disputed);
     } catch (error) {
       console.error("Error fetching disputed receipts:", error);
       res.setHeader('Content-Type', 'application/json');
@@ -800,42 +816,228 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
-  // Submit new dispute (Red Channel)
+  // Submit new dispute by receipt number (Red Channel)
   apiRouter.post("/receipts/dispute", requireAuth, async (req: Request, res: Response) => {
     try {
-      const userId = req.session!.userId;
-      const { receiptNumber, disputeType, priority, description, evidence } = req.body;
+      const userId = req.session!.userId as number;
+      const { receiptNumber, disputeType, priority, description } = req.body;
       
       if (!receiptNumber || !disputeType || !description) {
         return res.status(400).json({ message: "Receipt number, dispute type, and description are required" });
       }
       
-      // For demo purposes, we'll simulate creating a dispute
-      // In production, this would create entries in a disputes table
-      const dispute = {
-        id: Date.now(),
-        receiptNumber,
+      const receipt = await storage.getWarehouseReceiptByNumber(receiptNumber);
+      if (!receipt) {
+        return res.status(404).json({ message: "Receipt not found" });
+      }
+      
+      const dispute = await disputeService.fileDispute(userId, {
+        receiptId: receipt.id,
         disputeType,
         priority: priority || 'medium',
-        disputeReason: description,
-        evidence: evidence || null,
-        status: 'disputed',
-        createdAt: new Date().toISOString(),
-        userId
-      };
-      
-      console.log("Dispute filed:", dispute);
+        description
+      });
       
       res.setHeader('Content-Type', 'application/json');
       res.status(201).json({
         success: true,
-        dispute,
+        dispute: await disputeService.toView(dispute),
         message: 'Dispute filed successfully and sent to Red Channel for review'
       });
     } catch (error) {
       console.error("Error filing dispute:", error);
       res.setHeader('Content-Type', 'application/json');
-      res.status(500).json({ message: "Failed to file dispute" });
+      res.status(400).json({ message: error instanceof Error ? error.message : "Failed to file dispute" });
+    }
+  });
+
+  // Withdrawal routes
+  apiRouter.post("/receipts/:id/withdraw", requireAuth, async (req: Request, res: Response) => {
+    try {
+      const receiptId = parseInt(req.params.id);
+      if (isNaN(receiptId)) {
+        return res.status(400).json({ message: "Invalid receipt ID" });
+      }
+
+      // Optional quantity for partial withdrawals
+      const quantity = req.body.quantity !== undefined ? String(req.body.quantity) : undefined;
+
+      const result = await withdrawalService.initiateWithdrawal(receiptId, req.session.userId!, quantity);
+
+      res.status(200).json({
+        message: result.requiresLenderConsent
+          ? "Withdrawal requested; the receipt is pledged and awaits lender consent"
+          : result.isFullWithdrawal ? "Full withdrawal initiated" : "Partial withdrawal of " + quantity + " initiated",
+        process: result.process,
+        receipt: result.receipt,
+        requiresLenderConsent: result.requiresLenderConsent
+      });
+    } catch (error) {
+      console.error("Withdrawal initiation error:", error);
+      const errorMessage = error instanceof Error ? error.message : "Server error during withdrawal";
+      const statusCode = errorMessage.includes("Not authorized") ? 403 : errorMessage.endsWith("not found") ? 404 : 400;
+      res.status(statusCode).json({ message: errorMessage });
+    }
+  });
+
+  // Withdrawals of pledged receipts waiting for lender consent
+  apiRouter.get("/withdrawals/pending-consent", requirePermission('loan:manage'), async (req: Request, res: Response) => {
+    try {
+      res.json(await withdrawalService.listPendingConsents(req.currentUser!));
+    } catch (error) {
+      console.error("Error fetching pending withdrawal consents:", error);
+      res.status(500).json({ message: "Failed to fetch pending withdrawal consents" });
+    }
+  });
+
+  // Lender consents to (or declines) releasing a pledged receipt
+  apiRouter.post("/processes/:id/withdrawal-consent", requirePermission('loan:manage'), async (req: Request, res: Response) => {
+    try {
+      const processId = parseInt(req.params.id);
+      const { approve, note } = req.body;
+
+      if (typeof approve !== "boolean") {
+        return res.status(400).json({ message: "approve (boolean) is required" });
+      }
+
+      const process = await withdrawalService.decideLenderConsent(processId, req.currentUser!, approve, note);
+      res.json(process);
+    } catch (error) {
+      console.error("Withdrawal consent error:", error);
+      const errorMessage = error instanceof Error ? error.message : "Failed to record lender consent";
+      const status = errorMessage.endsWith("not found") ? 404 : errorMessage.startsWith("Not authorized") ? 403 : 400;
+      res.status(status).json({ message: errorMessage });
+    }
+  });
+
+  apiRouter.post("/processes/:id/withdrawal-update", requireProcessOperator('id'), async (req: Request, res: Response) => {
+    try {
+      const processId = parseInt(req.params.id);
+      const { stage, status, message } = req.body;
+
+      if (!stage || !status) {
+        return res.status(400).json({
+          message: "Missing required fields: stage and status are required"
+        });
+      }
+
+      const result = await withdrawalService.updateWithdrawalStage(processId, stage, status, message);
+      res.status(200).json(result);
+    } catch (error) {
+      console.error("Withdrawal update error:", error);
+      res.status(400).json({
+        message: error instanceof Error ? error.message : "Server error during withdrawal update"
+      });
+    }
+  });
+
+  apiRouter.post("/processes/:id/complete-withdrawal", requireProcessOperator('id'), async (req: Request, res: Response) => {
+    try {
+      const processId = parseInt(req.params.id);
+      const result = await withdrawalService.completeWithdrawal(processId);
+
+      res.status(200).json({
+        message: "Withdrawal completed successfully",
+        ...result
+      });
+    } catch (error) {
+      console.error("Withdrawal completion error:", error);
+      res.status(400).json({
+        message: error instanceof Error ? error.message : "Server error during withdrawal completion"
+      });
+    }
+  });
+
+  // Endorse a negotiable receipt to another user; ownership moves when the endorsee accepts
+  apiRouter.post("/receipts/:id/transfer", requireAuth, async (req: Request, res: Response) => {
+    try {
+      const receiptId = parseInt(req.params.id);
+      if (isNaN(receiptId)) {
+        return res.status(400).json({ message: "Invalid receipt ID" });
+      }
+
+      const { receiverId, consent, note } = req.body;
+      if (!receiverId) {
+        return res.status(400).json({ message: "receiverId is required" });
+      }
+
+      // The holder must explicitly consent to the endorsement
+      if (consent !== true) {
+        return res.status(400).json({ message: "Holder consent is required to endorse a receipt" });
+      }
+
+      const endorsement = await endorsementService.endorse(receiptId, req.session.userId!, parseInt(receiverId), note);
+
+      res.status(202).json({
+        message: "Receipt endorsed; ownership transfers once the endorsee accepts",
+        endorsement
+      });
+    } catch (error) {
+      console.error("Error endorsing receipt:", error);
+      const errorMessage = error instanceof Error ? error.message : "Failed to endorse receipt";
+      const statusCode = errorMessage.startsWith("Not authorized") ? 403 : errorMessage.endsWith("not found") ? 404 : 400;
+      res.status(statusCode).json({ message: errorMessage });
+    }
+  });
+
+  // Endorsement history of a receipt, visible to its holder and every party in the chain
+  apiRouter.get("/receipts/:id/endorsements", requireAuth, async (req: Request, res: Response) => {
+    try {
+      const receiptId = parseInt(req.params.id);
+      const receipt = await storage.getWarehouseReceipt(receiptId);
+      if (!receipt) {
+        return res.status(404).json({ message: "Receipt not found" });
+      }
+
+      const endorsements = await storage.listReceiptEndorsementsByReceipt(receiptId);
+      const userId = req.session.userId!;
+      const isParty = receipt.ownerId === userId ||
+        endorsements.some(e => e.endorserId === userId || e.endorseeId === userId);
+      if (!isParty) {
+        return res.status(403).json({ message: "Not authorized to view this receipt" });
+      }
+
+      const chain = await endorsementService.getChain(receiptId);
+      res.json({ receiptType: receipt.receiptType, endorsements, ...chain });
+    } catch (error) {
+      console.error("Error fetching endorsements:", error);
+      res.status(500).json({ message: "Failed to fetch endorsements" });
+    }
+  });
+
+  // Verify receipt by verification code - no auth required for public verification
+  apiRouter.get("/receipts/verify/:code", async (req: Request, res: Response) => {
+    try {
+      const verificationCode = req.params.code;
+
+      // Verification codes are stored in the liens field; older QR codes carry the receipt number
+      const receipt = await storage.getWarehouseReceiptByVerificationCode(verificationCode)
+        ?? await storage.getWarehouseReceiptByNumber(verificationCode);
+
+      if (!receipt) {
+        return res.status(404).json({ message: "Receipt verification failed" });
+      }
+
+      const liens = receiptLiens(receipt.liens);
+
+      const endorsementChain = await endorsementService.getChain(receipt.id);
+      // Lets the verifier check the receipt against the sealed ledger instead of this response
+      const proof = await auditLedgerService.proveReceipt(receipt.id);
+
+      res.status(200).json({
+        ...receipt,
+        commodityName: receipt.commodityName || liens.commodityName || 'Unknown',
+        qualityGrade: receipt.qualityGrade || liens.qualityGrade || 'Unknown',
+        metadata: {
+          verificationCode: liens.verificationCode || verificationCode,
+          processId: liens.processId || 0
+        },
+        endorsementChain,
+        proof
+      });
+    } catch (error) {
+      console.error("Receipt verification error:", error);
+      res.status(500).json({ message: "Server error" });
     }
   });
 
@@ -874,7 +1076,7 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
-  apiRouter.get("/processes/:id", async (req: Request, res: Response) => {
+  apiRouter.get("/processes/:id", requireProcessAccess('id'), async (req: Request, res: Response) => {
     try {
       if (!req.session?.userId) {
         return res.status(401).json({ message: "Not authenticated" });
@@ -896,8 +1098,32 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
+  // Transport details the depositor may update on their own process
+  const depositorProcessUpdateSchema = z.object({
+    vehicleNumber: z.string().nullable(),
+    driverName: z.string().nullable(),
+    driverPhone: z.string().nullable(),
+    transportCompany: z.string().nullable(),
+    pickupDate: z.coerce.date().nullable(),
+    estimatedArrival: z.coerce.date().nullable()
+  }).partial();
+
+  // Stage, status and inspection data only the warehouse operator may write
+  const operatorProcessFieldsSchema = z.object({
+    status: z.enum(processStatusEnum.enumValues),
+    currentStage: z.string(),
+    stageProgress: z.record(z.string()),
+    trackingData: z.record(z.any()),
+    statusMessage: z.string().nullable(),
+    arrivalDate: z.coerce.date().nullable(),
+    completedTime: z.coerce.date().nullable(),
+    estimatedCompletionTime: z.coerce.date().nullable()
+  }).partial();
+
+  const operatorProcessUpdateSchema = depositorProcessUpdateSchema.merge(operatorProcessFieldsSchema);
+
   // Update process status
-  apiRouter.patch("/processes/:id", async (req: Request, res: Response) => {
+  apiRouter.patch("/processes/:id", requireProcessAccess('id'), async (req: Request, res: Response) => {
     try {
       if (!req.session?.userId) {
         return res.status(401).json({ message: "Not authenticated" });
@@ -909,21 +1135,37 @@ export async function registerRoutes(app: Express): Promise<Server> {
       if (!process) {
         return res.status(404).json({ message: "Process not found" });
       }
-      
-      // Verify ownership
-      if (process.userId !== req.session.userId) {
-        return res.status(403).json({ message: "Access denied" });
+
+      const isOperator = await canOperateProcess(req.currentUser!, process);
+      if (!isOperator) {
+        const restricted = Object.keys(operatorProcessFieldsSchema.shape).filter(field => field in req.body);
+        if (restricted.length > 0) {
+          return res.status(403).json({ message: `Only the warehouse operator can update ${restricted.join(', ')}` });
+        }
+      }
+
+      const updates: z.infer<typeof operatorProcessUpdateSchema> = isOperator
+        ? operatorProcessUpdateSchema.parse(req.body)
+        : depositorProcessUpdateSchema.parse(req.body);
+
+      // The withdrawal request is written by the withdrawal workflow only
+      if (updates.trackingData) {
+        const { withdrawal } = (process.trackingData || {}) as { withdrawal?: unknown };
+        updates.trackingData = { ...updates.trackingData, withdrawal };
       }
       
-      console.log("Updating process:", id, req.body);
+      console.log("Updating process:", id, updates);
       
-      const updatedProcess = await storage.updateProcess(id, req.body);
+      const updatedProcess = await storage.updateProcess(id, updates);
       
       res.setHeader('Content-Type', 'application/json');
       res.json(updatedProcess);
     } catch (error) {
       console.error("Error updating process:", error);
       res.setHeader('Content-Type', 'application/json');
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ message: fromZodError(error).message });
+      }
       res.status(500).json({ message: "Failed to update process" });
     }
   });
@@ -937,11 +1179,30 @@ export async function registerRoutes(app: Express): Promise<Server> {
 
       console.log("Creating warehouse receipt:", req.body);
       
-      // FIXED: Ensure valuation defaults to Rs 50/kg if not provided (1 MT = 1000 kg)
-      const { quantity, valuation, ...rest } = req.body;
-      const calculatedValuation = (valuation && parseFloat(valuation) > 0) 
-        ? valuation 
-        : (parseFloat(quantity) * 1000 * 50).toString();
+      // Receipts are valued at the current mandi price; a client-supplied valuation is ignored
+      const { quantity, valuation: _, ...rest } = req.body;
+      const commodity = rest.commodityId ? await storage.getCommodity(parseInt(rest.commodityId)) : undefined;
+      const commodityName = commodity?.name || rest.commodityName;
+      if (!commodityName) {
+        return res.status(400).json({ message: "commodityId or commodityName is required to value the receipt" });
+      }
+      const calculatedValuation = (await priceFeedService.valuateAtWarehouse(
+        commodityName, quantity, rest.measurementUnit || commodity?.measurementUnit || 'MT', rest.warehouseId
+      )).totalValue.toString();
+
+      // Only value beyond a deposit already counted against the KYC limit is new
+      const alreadyDeposited = commodity?.ownerId === req.session.userId &&
+        (commodity.status === 'active' || commodity.status === 'processing')
+        ? (await priceFeedService.valuateAtWarehouse(
+            commodity.name, commodity.quantity, commodity.measurementUnit, commodity.warehouseId
+          )).totalValue
+        : 0;
+      const kycRefusal = await kycService.checkLimit(
+        req.session.userId, 'deposit', Math.max(0, parseFloat(calculatedValuation) - alreadyDeposited)
+      );
+      if (kycRefusal) {
+        return res.status(403).json({ message: kycRefusal });
+      }
       
       const receiptData = {
         ...rest,
@@ -949,7 +1210,6 @@ export async function registerRoutes(app: Express): Promise<Server> {
         valuation: calculatedValuation,
         ownerId: req.session.userId,
         receiptNumber: `WR${Date.now()}-${req.session.userId}`,
-        blockchainHash: `198324${Math.random().toString(16).substring(2, 18)}`,
         expiryDate: new Date(Date.now() + 6 * 30 * 24 * 60 * 60 * 1000), // 6 months from now
         liens: JSON.stringify({
           verificationCode: `WR-${req.session.userId}-${Math.random().toString(16).substring(2, 11).toUpperCase()}-${Math.random().toString(16).substring(2, 6).toUpperCase()}`,
@@ -966,7 +1226,7 @@ export async function registerRoutes(app: Express): Promise<Server> {
         updatedAt: new Date()
       };
 
-      const receipt = await storage.createWarehouseReceipt(receiptData);
+      const receipt = await auditLedgerService.anchorReceipt(await storage.createWarehouseReceipt(receiptData));
       
       console.log("Warehouse receipt created:", receipt.id);
       
@@ -996,8 +1256,7 @@ export async function registerRoutes(app: Express): Promise<Server> {
         deliveryMethod,
         scheduledDate,
         scheduledTime,
-        pickupAddress,
-        estimatedValue 
+        pickupAddress
       } = req.body;
 
       // Validate required fields
@@ -1007,6 +1266,15 @@ export async function registerRoutes(app: Express): Promise<Server> {
         });
       }
 
+      // Valued at the warehouse's mandi price; a client estimate is ignored
+      const depositValuation =
+        (await priceFeedService.valuateAtWarehouse(commodityName, quantity, "MT", parseInt(warehouseId))).totalValue.toString();
+
+      const kycRefusal = await kycService.checkLimit(req.session.userId, 'deposit', parseFloat(depositValuation));
+      if (kycRefusal) {
+        return res.status(403).json({ message: kycRefusal });
+      }
+
       // First create the commodity record
       const commodity = await storage.createCommodity({
         name: commodityName,
@@ -1019,7 +1287,7 @@ export async function registerRoutes(app: Express): Promise<Server> {
         ownerId: req.session.userId,
         status: "active",
         channelType: "green",
-        valuation: estimatedValue?.toString() || (parseFloat(quantity) * 1000 * 50).toString()
+        valuation: depositValuation
       });
 
       // Then create the process
@@ -1037,7 +1305,7 @@ export async function registerRoutes(app: Express): Promise<Server> {
           scheduledDate,
           scheduledTime,
           pickupAddress,
-          estimatedValue
+          estimatedValue: depositValuation
         }
       };
 
@@ -1116,12 +1384,11 @@ export async function registerRoutes(app: Express): Promise<Server> {
           quantity: quantity.toString(),
           measurementUnit: "MT",
           status: "active" as const,
-          blockchainHash: `0x${Math.random().toString(16).substring(2, 18)}`,
-          valuation: estimatedValue?.toString() || (parseFloat(quantity) * 1000 * 50).toString(),
+          valuation: depositValuation,
           issuedDate: new Date(),
           expiryDate: new Date(Date.now() + 6 * 30 * 24 * 60 * 60 * 1000), // 6 months from now
           commodityName: commodityName,
-          qualityGrade: "Grade A", // Default grade
+          qualityGrade: "Pending Assessment", // Graded at the warehouse on inspection
           warehouseName: `Warehouse ${warehouseId}`, // We'll enhance this later
           warehouseAddress: "Warehouse Address", // We'll enhance this later
           measurementUnit: "MT",
@@ -1144,7 +1411,7 @@ export async function registerRoutes(app: Express): Promise<Server> {
           })
         };
 
-        const receipt = await storage.createWarehouseReceipt(receiptData);
+        const receipt = await auditLedgerService.anchorReceipt(await storage.createWarehouseReceipt(receiptData));
         console.log("Warehouse receipt created immediately:", receipt.id);
         
         // Update process to show eWR generation completed
@@ -1172,73 +1439,40 @@ export async function registerRoutes(app: Express): Promise<Server> {
 
   // Bypass demo routes for quality assessment and pricing when external services unavailable
   
-  // Mock quality assessment results based on commodity type
-  const generateMockQualityResults = (commodityType: string) => {
-    const baseResults: Record<string, any> = {
-      cereals: {
-        moisture: 12.5,
-        foreignMatter: 1.2,
-        brokenGrains: 2.8,
-        weeviled: 0.5,
-        grade: 'A',
-        score: 87
-      },
-      pulses: {
-        moisture: 10.2,
-        foreignMatter: 0.8,
-        damaged: 1.5,
-        weeviled: 0.3,
-        grade: 'A',
-        score: 89
-      },
-      oilseeds: {
-        moisture: 8.5,
-        foreignMatter: 1.1,
-        oilContent: 42.3,
-        freefattyAcid: 1.2,
-        grade: 'A',
-        score: 85
-      },
-      vegetables: {
-        moisture: 85.2,
-        freshness: 92,
-        damage: 3.5,
-        pesticide: 0.1,
-        grade: 'A',
-        score: 88
-      }
-    };
-    
-    return baseResults[commodityType.toLowerCase()] || baseResults.vegetables;
+  // Grade a bypassed lot: measurements from the request, or nominal top-grade values for the demo
+  const gradeBypassLot = async (commodity: any, measured?: Record<string, number>) => {
+    const { spec, source } = await qualityGradingService.resolveSpec(commodity.name, commodity.type);
+    const parameters = measured && Object.keys(measured).length > 0 ? measured : qualityGradingService.nominalParameters(spec);
+    return qualityGradingService.grade(spec, parameters, source);
   };
   
-  // Mock pricing calculation based on quality results
-  const calculateMockPricing = (commodity: any, qualityResults: any) => {
-    const baseRates: Record<string, number> = {
-      cereals: 2500,
-      pulses: 4500,
-      oilseeds: 3200,
-      vegetables: 1800,
-      spices: 8500
-    };
-    
-    const baseRate = baseRates[commodity.type.toLowerCase()] || 2000;
-    const qualityMultiplier = qualityResults.score / 100;
-    const marketRate = baseRate * qualityMultiplier;
+  // Pricing from the mandi price feed, net of quality deductions
+  const calculateMockPricing = async (commodity: any, qualityResults: GradingResult) => {
+    const unit = commodity.measurementUnit || 'MT';
+    const valuation = await priceFeedService.valuateAtWarehouse(
+      commodity.name,
+      commodity.quantity,
+      unit,
+      commodity.warehouseId,
+      qualityResults.deductionPercent
+    );
+    const qualityMultiplier = 1 - qualityResults.deductionPercent / 100;
     
     return {
-      baseRate,
+      baseRate: valuation.pricePerUnit,
       qualityScore: qualityResults.score,
       qualityMultiplier: qualityMultiplier.toFixed(2),
-      marketRate: Math.round(marketRate),
-      totalValue: Math.round(marketRate * parseFloat(commodity.quantity)),
+      qualityDeductionPercent: qualityResults.deductionPercent,
+      marketRate: Math.round(valuation.pricePerUnit * qualityMultiplier),
+      totalValue: Math.round(valuation.totalValue),
       currency: 'INR',
-      pricePerUnit: 'MT'
+      pricePerUnit: unit,
+      priceSource: valuation.quote
     };
   };
 
   // Bypass route: Quality assessment (alias for complete-assessment)
-  apiRouter.post("/bypass/quality-assessment/:processId", async (req: Request, res: Response) => {
+  apiRouter.post("/bypass/quality-assessment/:processId", requireProcessOperator(), async (req: Request, res: Response) => {
     try {
       if (!req.session?.userId) {
         return res.status(401).json({ message: "Not authenticated" });
@@ -1257,15 +1491,18 @@ export async function registerRoutes(app: Express): Promise<Server> {
         return res.status(404).json({ message: "Commodity not found" });
       }
 
-      // Generate mock quality assessment results
-      const qualityResults = generateMockQualityResults(commodity.type);
+      // Grade against the commodity's specification
+      const qualityResults = await gradeBypassLot(commodity, req.body?.parameters);
+      if (!qualityResults.passed) {
+        return res.status(400).json({ message: 'Lot fails the quality specification', qualityAssessment: qualityResults });
+      }
       
       // Calculate mock pricing
-      const pricingData = calculateMockPricing(commodity, qualityResults);
+      const pricingData = await calculateMockPricing(commodity, qualityResults);
       
       // Update commodity with quality and pricing data
       await storage.updateCommodity(commodity.id, {
-        qualityParameters: qualityResults,
+        qualityParameters: qualityGradingService.toQualityParameters(qualityResults),
         gradeAssigned: qualityResults.grade,
         valuation: pricingData.totalValue.toString(),
         status: "processing"
@@ -1307,7 +1544,7 @@ export async function registerRoutes(app: Express): Promise<Server> {
   });
 
   // Bypass route: Complete quality assessment and pricing flow (legacy alias)
-  apiRouter.post("/bypass/complete-assessment/:processId", async (req: Request, res: Response) => {
+  apiRouter.post("/bypass/complete-assessment/:processId", requireProcessOperator(), async (req: Request, res: Response) => {
     try {
       if (!req.session?.userId) {
         return res.status(401).json({ message: "Not authenticated" });
@@ -1326,15 +1563,18 @@ export async function registerRoutes(app: Express): Promise<Server> {
         return res.status(404).json({ message: "Commodity not found" });
       }
 
-      // Generate mock quality assessment results
-      const qualityResults = generateMockQualityResults(commodity.type);
+      // Grade against the commodity's specification
+      const qualityResults = await gradeBypassLot(commodity, req.body?.parameters);
+      if (!qualityResults.passed) {
+        return res.status(400).json({ message: 'Lot fails the quality specification', qualityAssessment: qualityResults });
+      }
       
       // Calculate mock pricing
-      const pricingData = calculateMockPricing(commodity, qualityResults);
+      const pricingData = await calculateMockPricing(commodity, qualityResults);
       
       // Update commodity with quality and pricing data
       await storage.updateCommodity(commodity.id, {
-        qualityParameters: qualityResults,
+        qualityParameters: qualityGradingService.toQualityParameters(qualityResults),
         gradeAssigned: qualityResults.grade,
         valuation: pricingData.totalValue.toString(),
         status: "processing"
@@ -1376,7 +1616,7 @@ export async function registerRoutes(app: Express): Promise<Server> {
   });
 
   // Generate Electronic Warehouse Receipt (eWR)
-  apiRouter.post("/bypass/generate-ewr/:processId", async (req: Request, res: Response) => {
+  apiRouter.post("/bypass/generate-ewr/:processId", requireProcessOperator(), async (req: Request, res: Response) => {
     try {
       if (!req.session?.userId) {
         return res.status(401).json({ message: "Not authenticated" });
@@ -1399,21 +1639,22 @@ export async function registerRoutes(app: Express): Promise<Server> {
       // Generate unique receipt number
       const receiptNumber = `eWR-${Date.now()}-${process.commodityId}`;
       
-      // FIXED: Ensure proper valuation calculation (1 MT = 1000 kg × Rs 50/kg)
+      // Graded valuation if present, otherwise the warehouse's mandi price
       const calculatedValuation = commodity.valuation && parseFloat(commodity.valuation) > 0 
         ? commodity.valuation 
-        : (parseFloat(commodity.quantity) * 1000 * 50).toString();
+        : (await priceFeedService.valuateAtWarehouse(
+            commodity.name, commodity.quantity, commodity.measurementUnit, warehouse.id
+          )).totalValue.toString();
 
       // Create warehouse receipt
-      const receipt = await storage.createWarehouseReceipt({
+      const receipt = await auditLedgerService.anchorReceipt(await storage.createWarehouseReceipt({
         receiptNumber,
         commodityId: commodity.id,
         warehouseId: warehouse.id,
-        ownerId: req.session.userId,
+        ownerId: process.userId,
         quantity: commodity.quantity,
         measurementUnit: commodity.measurementUnit,
         status: "active",
-        blockchainHash: `0x${Math.random().toString(16).substring(2, 18)}`,
         valuation: calculatedValuation,
         warehouseName: warehouse.name,
         metadata: JSON.stringify({
@@ -1421,9 +1662,9 @@ export async function registerRoutes(app: Express): Promise<Server> {
           url: `/documents/quality_cert_${receiptNumber}.pdf`,
           timestamp: new Date().toISOString(),
           storageLocation: `${warehouse.name}-${Math.floor(Math.random() * 100)}`,
-          insuranceCoverage: (parseFloat(commodity.valuation || (parseFloat(commodity.quantity) * 1000 * 50).toString()) * 0.8).toString()
+          insuranceCoverage: (parseFloat(calculatedValuation) * 0.8).toString()
         })
-      });
+      }));
 
       // Complete the process
       await storage.updateProcess(processId, {
@@ -1653,7 +1894,9 @@ export async function registerRoutes(app: Express): Promise<Server> {
 
       // Recalculate valuation based on actual weight
       const newValuation = actualWeight ? 
-        (parseFloat(actualWeight) * 1000 * 50).toString() : 
+        (await priceFeedService.valuateAtWarehouse(
+          commodity.name, actualWeight, measurementUnit || commodity.measurementUnit, commodity.warehouseId
+        )).totalValue.toString() : 
         commodity.valuation;
 
       if (actualWeight && newValuation !== commodity.valuation) {
@@ -1680,7 +1923,7 @@ export async function registerRoutes(app: Express): Promise<Server> {
           const warehouse = await storage.getWarehouse(process.warehouseId!);
           const receiptNumber = `WR${Date.now()}-${commodity.id}`;
           
-          const receipt = await storage.createWarehouseReceipt({
+          const receipt = await auditLedgerService.anchorReceipt(await storage.createWarehouseReceipt({
             receiptNumber,
             commodityId: commodity.id,
             warehouseId: warehouse?.id || 1,
@@ -1688,7 +1931,6 @@ export async function registerRoutes(app: Express): Promise<Server> {
             quantity: actualWeight || commodity.quantity,
             measurementUnit: measurementUnit || commodity.measurementUnit,
             status: "active",
-            blockchainHash: `0x${crypto.randomBytes(8).toString('hex')}`,
             valuation: newValuation || commodity.valuation,
             warehouseName: warehouse?.name || 'IoT Warehouse',
             metadata: JSON.stringify({
@@ -1699,7 +1941,7 @@ export async function registerRoutes(app: Express): Promise<Server> {
               autoGenerated: true,
               timestamp: timestamp || new Date().toISOString()
             })
-          });
+          }));
 
           console.log(`Auto-generated warehouse receipt ${receiptNumber} for commodity ${commodity.id}`);
         }
@@ -1820,7 +2062,9 @@ export async function registerRoutes(app: Express): Promise<Server> {
         default: qualityMultiplier = 1.0;
       }
 
-      const baseValuation = parseFloat(commodity.quantity) * 1000 * 50;
+      const { totalValue: baseValuation } = await priceFeedService.valuateAtWarehouse(
+        commodity.name, commodity.quantity, commodity.measurementUnit, commodity.warehouseId
+      );
       const newValuation = (baseValuation * qualityMultiplier).toString();
 
       await storage.updateCommodity(commodity.id, { 
@@ -1856,7 +2100,7 @@ export async function registerRoutes(app: Express): Promise<Server> {
         const warehouse = process ? await storage.getWarehouse(process.warehouseId!) : null;
         const receiptNumber = `QC${Date.now()}-${commodity.id}`;
         
-        receipt = await storage.createWarehouseReceipt({
+        receipt = await auditLedgerService.anchorReceipt(await storage.createWarehouseReceipt({
           receiptNumber,
           commodityId: commodity.id,
           warehouseId: warehouse?.id || 1,
@@ -1864,7 +2108,6 @@ export async function registerRoutes(app: Express): Promise<Server> {
           quantity: commodity.quantity,
           measurementUnit: commodity.measurementUnit,
           status: "active",
-          blockchainHash: `0x${crypto.randomBytes(8).toString('hex')}`,
           valuation: newValuation,
           warehouseName: warehouse?.name || 'Quality Certified Warehouse',
           metadata: JSON.stringify({
@@ -1875,7 +2118,7 @@ export async function registerRoutes(app: Express): Promise<Server> {
             autoGenerated: true,
             timestamp: timestamp || new Date().toISOString()
           })
-        });
+        }));
 
         console.log(`Auto-generated quality-certified receipt ${receiptNumber} for commodity ${commodity.id}`);
       }
@@ -1936,7 +2179,7 @@ export async function registerRoutes(app: Express): Promise<Server> {
   // ADMIN ENDPOINTS
 
   // Admin: System Health Dashboard
-  apiRouter.get("/admin/system-health", requireAuth, async (req: Request, res: Response) => {
+  apiRouter.get("/admin/system-health", requirePermission('admin:system'), async (req: Request, res: Response) => {
     try {
       const health = monitoringService.getSystemHealth();
       res.json(health);
@@ -1947,7 +2190,7 @@ export async function registerRoutes(app: Express): Promise<Server> {
   });
 
   // Admin: Error Logs
-  apiRouter.get("/admin/error-logs", requireAuth, async (req: Request, res: Response) => {
+  apiRouter.get("/admin/error-logs", requirePermission('admin:system'), async (req: Request, res: Response) => {
     try {
       const limit = parseInt(req.query.limit as string) || 50;
       const endpoint = req.query.endpoint as string;
@@ -1961,7 +2204,7 @@ export async function registerRoutes(app: Express): Promise<Server> {
   });
 
   // Admin: Integration Metrics Export
-  apiRouter.get("/admin/metrics/export", requireAuth, async (req: Request, res: Response) => {
+  apiRouter.get("/admin/metrics/export", requirePermission('admin:system'), async (req: Request, res: Response) => {
     try {
       const metrics = monitoringService.exportMetrics();
       
@@ -1975,7 +2218,7 @@ export async function registerRoutes(app: Express): Promise<Server> {
   });
 
   // Admin: Force Health Check
-  apiRouter.post("/admin/health-check/:module", requireAuth, async (req: Request, res: Response) => {
+  apiRouter.post("/admin/health-check/:module", requirePermission('admin:system'), async (req: Request, res: Response) => {
     try {
       const module = req.params.module;
       const isHealthy = await monitoringService.performHealthCheck(module);
@@ -1992,6 +2235,76 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
+  // Admin: List users with their roles
+  apiRouter.get("/admin/users", requirePermission('admin:users'), async (req: Request, res: Response) => {
+    try {
+      const users = await storage.listUsers();
+      res.json(users.map(({ password, ...user }) => user));
+    } catch (error) {
+      console.error('Failed to list users:', error);
+      res.status(500).json({ message: 'Failed to retrieve users' });
+    }
+  });
+
+  // Admin: Change a user's role
+  apiRouter.patch("/admin/users/:id/role", requirePermission('admin:users'), async (req: Request, res: Response) => {
+    try {
+      const id = parseInt(req.params.id);
+      const role = userRoleEnum.enumValues.find(r => r === req.body.role);
+
+      if (!role) {
+        return res.status(400).json({ message: `Role must be one of: ${userRoleEnum.enumValues.join(', ')}` });
+      }
+
+      if (id === req.session.userId && role !== 'admin') {
+        return res.status(400).json({ message: 'Admins cannot remove their own admin role' });
+      }
+
+      const user = await storage.updateUser(id, { role });
+      if (!user) {
+        return res.status(404).json({ message: 'User not found' });
+      }
+
+      const { password, ...userWithoutPassword } = user;
+      res.json(userWithoutPassword);
+    } catch (error) {
+      console.error('Failed to update user role:', error);
+      res.status(500).json({ message: 'Failed to update user role' });
+    }
+  });
+
+  // Admin: Link a lender user to the lending partner they act for
+  apiRouter.patch("/admin/users/:id/lending-partner", requirePermission('admin:users'), async (req: Request, res: Response) => {
+    try {
+      const id = parseInt(req.params.id);
+      const lendingPartnerId = req.body.lendingPartnerId === null ? null : parseInt(req.body.lendingPartnerId);
+
+      if (lendingPartnerId !== null && isNaN(lendingPartnerId)) {
+        return res.status(400).json({ message: 'lendingPartnerId must be a partner id or null' });
+      }
+
+      const target = await storage.getUser(id);
+      if (!target) {
+        return res.status(404).json({ message: 'User not found' });
+      }
+      if (lendingPartnerId !== null) {
+        if (target.role !== 'lender') {
+          return res.status(400).json({ message: 'Only lender users can act for a lending partner' });
+        }
+        if (!await storage.getLendingPartner(lendingPartnerId)) {
+          return res.status(404).json({ message: 'Lending partner not found' });
+        }
+      }
+
+      const user = await storage.updateUser(id, { lendingPartnerId });
+      const { password, ...userWithoutPassword } = user!;
+      res.json(userWithoutPassword);
+    } catch (error) {
+      console.error('Failed to link user to lending partner:', error);
+      res.status(500).json({ message: 'Failed to link user to lending partner' });
+    }
+  });
+
   // API Documentation Endpoint (OpenAPI Specification)
   apiRouter.get("/docs/openapi.json", (req: Request, res: Response) => {
     const openApiSpec = {
@@ -2193,10 +2506,10 @@ export async function registerRoutes(app: Express): Promise<Server> {
       const userId = req.session!.userId as number;
       
       // Get all active receipts for the user that aren't already collateralized
-      const userReceipts = await storage.listWarehouseReceiptsByOwner(userId);
+      const userReceipts = await lienService.unencumbered(await storage.listWarehouseReceiptsByOwner(userId));
       const eligibleReceipts = userReceipts.filter(receipt => 
         receipt.status === 'active' && 
-        !receipt.liens && // No existing liens
+        !receipt.isFrozen && // No open Red Channel dispute
         receipt.valuation && 
         parseFloat(receipt.valuation) > 0
       );
@@ -2242,6 +2555,56 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
+  // Credit limit against receipts, valued at current mandi prices
+  apiRouter.post("/loans/credit-limit", requireAuth, async (req: Request, res: Response) => {
+    try {
+      const userId = req.session!.userId as number;
+      const { receiptIds } = req.body;
+
+      if (!receiptIds || !Array.isArray(receiptIds)) {
+        return res.status(400).json({ 
+          error: "Missing required parameters. Please provide a receiptIds array." 
+        });
+      }
+
+      const receipts = (await storage.getReceiptsByIds(receiptIds.map(Number)))
+        .filter(receipt => receipt.ownerId === userId);
+
+      let totalValuation = 0;
+      const receiptDetails = [];
+
+      for (const receipt of receipts) {
+        const { totalValue, quote } = await priceFeedService.valueReceipt(receipt);
+        totalValuation += totalValue;
+
+        receiptDetails.push({
+          receiptId: receipt.id,
+          receiptNumber: receipt.receiptNumber,
+          commodityName: receipt.commodityName,
+          quantity: receipt.quantity,
+          valuation: totalValue,
+          creditLimit: totalValue * 0.8, // 80% of valuation
+          priceSource: quote
+        });
+      }
+
+      const pricing = await creditScoringService.directLendingRate(userId);
+      res.json({
+        userId,
+        totalValuation,
+        availableCredit: pricing.interestRate === null ? 0 : totalValuation * 0.8,
+        receiptDetails,
+        interestRate: pricing.interestRate, // % p.a. for the borrower's credit rating
+        creditScore: pricing.creditScore,
+        creditRating: pricing.creditRating,
+        timestamp: new Date().toISOString()
+      });
+    } catch (error) {
+      console.error('Failed to calculate credit limit:', error);
+      res.status(500).json({ error: "Failed to calculate credit limit" });
+    }
+  });
+
   // Calculate loan offer for specific receipts
   apiRouter.post("/loans/calculate-offer", requireAuth, async (req: Request, res: Response) => {
     try {
@@ -2257,14 +2620,14 @@ export async function registerRoutes(app: Express): Promise<Server> {
         receiptIds.map(id => storage.getWarehouseReceipt(id))
       );
       
-      // Check all receipts exist and belong to user
-      const validReceipts = receipts.filter((receipt): receipt is NonNullable<typeof receipt> => 
+      // Check all receipts exist, belong to user and carry no lien
+      const validReceipts = await lienService.unencumbered(receipts.filter((receipt): receipt is NonNullable<typeof receipt> => 
         receipt !== undefined &&
         receipt !== null && 
         receipt.ownerId === userId && 
         receipt.status === 'active' && 
-        !receipt.liens
-      );
+        !receipt.isFrozen
+      ));
       
       if (validReceipts.length !== receiptIds.length) {
         return res.status(400).json({ message: 'Some receipts are invalid or not eligible' });
@@ -2280,8 +2643,11 @@ export async function registerRoutes(app: Express): Promise<Server> {
         Math.min(requestedAmount, maxLoanAmount) : 
         maxLoanAmount;
       
-      // Calculate loan terms
-      const interestRate = 12; // 12% annual rate (can be dynamic based on risk)
+      // Calculate loan terms; the rate follows the borrower's credit rating
+      const { interestRate, creditScore, creditRating } = await creditScoringService.directLendingRate(userId);
+      if (interestRate === null) {
+        return res.status(400).json({ message: `Credit rating ${creditRating} is not eligible for a loan`, creditScore, creditRating });
+      }
       const defaultTenureMonths = 12;
       const monthlyPayment = Math.ceil((finalLoanAmount * (1 + (interestRate / 100))) / defaultTenureMonths);
       const totalPayment = monthlyPayment * defaultTenureMonths;
@@ -2296,6 +2662,8 @@ export async function registerRoutes(app: Express): Promise<Server> {
         approvedAmount: finalLoanAmount,
         collateralRatio: 80,
         interestRate,
+        creditScore,
+        creditRating,
         tenureMonths: defaultTenureMonths,
         monthlyPayment,
         totalPayment,
@@ -2345,7 +2713,8 @@ export async function registerRoutes(app: Express): Promise<Server> {
       });
       
       if (!offerResponse.ok) {
-        return res.status(400).json({ message: 'Unable to calculate loan offer' });
+        const { message } = await offerResponse.json().catch(() => ({ message: undefined }));
+        return res.status(400).json({ message: message || 'Unable to calculate loan offer' });
       }
       
       const offer = await offerResponse.json();
@@ -2353,6 +2722,11 @@ export async function registerRoutes(app: Express): Promise<Server> {
       if (!offer.eligible || offer.approvedAmount <= 0) {
         return res.status(400).json({ message: 'Loan not eligible based on collateral' });
       }
+
+      const kycRefusal = await kycService.checkLimit(userId, 'loan', offer.approvedAmount);
+      if (kycRefusal) {
+        return res.status(403).json({ message: kycRefusal });
+      }
       
       // Create the loan
       const endDate = new Date();
@@ -2369,27 +2743,21 @@ export async function registerRoutes(app: Express): Promise<Server> {
         collateralReceiptIds: JSON.stringify(receiptIds),
         outstandingAmount: offer.approvedAmount.toString(),
         purpose,
-        creditScore: 750 // Default credit score
-      });
-      
-      // Update receipts to mark them as collateralized
-      await Promise.all(receiptIds.map(async (receiptId: number) => {
-        await storage.updateWarehouseReceipt(receiptId, {
-          status: 'collateralized',
-          liens: JSON.stringify([{
-            type: 'loan_collateral',
-            loanId: newLoan.id,
-            amount: offer.approvedAmount,
-            date: new Date().toISOString()
-          }])
-        });
-      }));
+        creditScore: offer.creditScore
+      });
+      
+      // Register the lender's lien on each receipt
+      for (const receiptId of receiptIds as number[]) {
+        await lienService.register((await storage.getWarehouseReceipt(receiptId))!, newLoan);
+      }
       
       // Auto-approve for demo purposes (in production, this would go through underwriting)
-      const approvedLoan = await storage.updateLoan(newLoan.id, {
+      await storage.updateLoan(newLoan.id, {
         status: 'approved',
         outstandingAmount: offer.approvedAmount.toString()
       });
+      const { loan: approvedLoan } = await loanAccountingService.initialise(newLoan.id, { tenureMonths });
+      await ledgerService.postLoanDisbursement(approvedLoan);
       
       res.json({
         success: true,
@@ -2549,8 +2917,9 @@ export async function registerRoutes(app: Express): Promise<Server> {
         quantity: commodity.quantity,
         measurementUnit: commodity.measurementUnit || "MT",
         status: "active" as const,
-        blockchainHash: `0x${Math.random().toString(16).substring(2, 18)}`,
-        valuation: commodity.valuation || (parseFloat(commodity.quantity) * 1000 * 50).toString(),
+        valuation: commodity.valuation || (await priceFeedService.valuateAtWarehouse(
+          commodity.name, commodity.quantity, commodity.measurementUnit, commodity.warehouseId
+        )).totalValue.toString(),
         commodityName: commodity.name,
         qualityGrade: commodity.gradeAssigned || "Standard",
         issuedDate: new Date(),
@@ -2563,7 +2932,7 @@ export async function registerRoutes(app: Express): Promise<Server> {
         })
       };
 
-      await storage.createWarehouseReceipt(receiptData);
+      await auditLedgerService.anchorReceipt(await storage.createWarehouseReceipt(receiptData));
       console.log(`Auto-generated warehouse receipt ${receiptNumber} for commodity ${commodityId}`);
     } catch (error) {
       console.error('Error generating warehouse receipt:', error);
@@ -2663,7 +3032,11 @@ export async function registerRoutes(app: Express): Promise<Server> {
           name: commodity.name,
           quantity: parseFloat(commodity.quantity),
           measurementUnit: commodity.measurementUnit || 'MT',
-          estimatedValue: commodity.valuation ? parseFloat(commodity.valuation) : getCommodityBasePrice(commodity.name) * parseFloat(commodity.quantity)
+          estimatedValue: commodity.valuation
+            ? parseFloat(commodity.valuation)
+            : (await priceFeedService.valuateAtWarehouse(
+                commodity.name, commodity.quantity, commodity.measurementUnit, commodity.warehouseId
+              )).totalValue
         };
       }
 
@@ -2690,28 +3063,6 @@ export async function registerRoutes(app: Express): Promise<Server> {
   // REBUILD: CORE WORKING APIS
   // ===============================
 
-  // Helper function for commodity pricing
-  function getCommodityBasePrice(commodity: string): number {
-    const prices: Record<string, number> = {
-      'Wheat': 2500,
-      'Rice': 3000,
-      'Maize': 2000,
-      'Soybean': 4500,
-      'Cotton': 6000,
-      'Sugarcane': 300,
-      'Bajra': 2200,
-      'Jowar': 2100,
-      'Groundnut': 5500,
-      'Mustard': 4800,
-      'Barley': 2300,
-      'Gram': 4200,
-      'Tur': 6500,
-      'Moong': 7000,
-      'Urad': 6800
-    };
-    return prices[commodity] || 2500; // Default price per MT
-  }
-
   // WORKING DEPOSIT API - IMMEDIATELY CREATES RECEIPT
   apiRouter.post('/deposits', requireAuth, async (req: Request, res: Response) => {
     try {
@@ -2725,9 +3076,26 @@ export async function registerRoutes(app: Express): Promise<Server> {
         });
       }
 
-      // Calculate market value (mock pricing for now)
-      const basePrice = getCommodityBasePrice(commodityName);
-      const marketValue = basePrice * parseFloat(quantity);
+      // Grade declared quality parameters when provided; otherwise grading happens on inspection
+      const grading = qualityParams && Object.keys(qualityParams).length > 0
+        ? await qualityGradingService.evaluate(commodityName, commodityType, qualityParams)
+        : null;
+      if (grading && !grading.passed) {
+        return res.status(400).json({
+          success: false,
+          error: `Lot fails the quality specification: ${grading.failures.join('; ')}`
+        });
+      }
+
+      // Market value at the current mandi price, net of quality deductions
+      const { totalValue: marketValue } = await priceFeedService.valuateAtWarehouse(
+        commodityName, quantity, unit || 'MT', 1, grading?.deductionPercent
+      );
+
+      const kycRefusal = await kycService.checkLimit(userId, 'deposit', marketValue);
+      if (kycRefusal) {
+        return res.status(403).json({ success: false, error: kycRefusal });
+      }
 
       // Create commodity entry
       const commodity = await storage.createCommodity({
@@ -2735,8 +3103,8 @@ export async function registerRoutes(app: Express): Promise<Server> {
         type: commodityType,
         quantity: quantity.toString(),
         measurementUnit: unit || 'MT',
-        qualityParameters: qualityParams || {},
-        gradeAssigned: 'Pending Assessment',
+        qualityParameters: grading ? qualityGradingService.toQualityParameters(grading) : {},
+        gradeAssigned: grading?.grade || 'Pending Assessment',
         warehouseId: 1, // Default warehouse
         ownerId: userId,
         status: 'active',
@@ -2749,7 +3117,7 @@ export async function registerRoutes(app: Express): Promise<Server> {
 
       // IMMEDIATELY create warehouse receipt (no complex tracking for now)
       const receiptNumber = `TW${Date.now()}-${Math.random().toString(36).substr(2, 6)}`;
-      const receipt = await storage.createWarehouseReceipt({
+      const receipt = await auditLedgerService.anchorReceipt(await storage.createWarehouseReceipt({
         receiptNumber,
         commodityId: commodity.id,
         ownerId: userId,
@@ -2759,13 +3127,12 @@ export async function registerRoutes(app: Express): Promise<Server> {
         status: 'active',
         availableForCollateral: true,
         collateralUsed: '0',
-        blockchainHash: `BC-${Date.now()}`,
-        qualityGrade: 'Grade A', // Mock quality for demo
+        qualityGrade: grading ? qualityGradingService.receiptGradeLabel(grading.grade) : 'Pending Assessment',
         commodityName: commodityName,
         measurementUnit: unit || 'MT',
         issuedDate: new Date(),
         expiryDate: new Date(Date.now() + 365 * 24 * 60 * 60 * 1000) // 1 year
-      });
+      }));
 
       res.json({
         success: true,
@@ -2836,6 +3203,7 @@ export async function registerRoutes(app: Express): Promise<Server> {
       const eligibleReceipts = receipts
         .filter(receipt => 
           receipt.status === 'active' &&
+          !receipt.isFrozen &&
           receipt.availableForCollateral !== false &&
           parseFloat(receipt.valuation || '0') > 0
         )
@@ -2907,13 +3275,13 @@ export async function registerRoutes(app: Express): Promise<Server> {
         receiptIds.map(id => storage.getWarehouseReceipt(id))
       );
 
-      const validReceipts = receipts.filter((receipt): receipt is NonNullable<typeof receipt> => 
+      const validReceipts = await lienService.unencumbered(receipts.filter((receipt): receipt is NonNullable<typeof receipt> => 
         receipt !== undefined &&
         receipt !== null && 
         receipt.ownerId === userId && 
         receipt.status === 'active' && 
-        !receipt.liens
-      );
+        !receipt.isFrozen
+      ));
 
       if (validReceipts.length !== receiptIds.length) {
         return res.status(400).json({
@@ -2936,19 +3304,23 @@ export async function registerRoutes(app: Express): Promise<Server> {
         });
       }
 
-      // Calculate EMI and terms
-      const interestRate = 12; // 12% annual
-      const monthlyRate = interestRate / 12 / 100;
-      const monthlyEMI = Math.round(
-        (requestedAmount * monthlyRate * Math.pow(1 + monthlyRate, tenureMonths)) /
-        (Math.pow(1 + monthlyRate, tenureMonths) - 1)
-      );
-      const totalAmount = monthlyEMI * tenureMonths;
-      const totalInterest = totalAmount - requestedAmount;
+      const { interestRate, creditScore, creditRating } = await creditScoringService.directLendingRate(userId);
+      if (interestRate === null) {
+        return res.status(400).json({
+          success: false,
+          message: `Credit rating ${creditRating} is not eligible for a loan`
+        });
+      }
+
+      const kycRefusal = await kycService.checkLimit(userId, 'loan', requestedAmount);
+      if (kycRefusal) {
+        return res.status(403).json({ success: false, message: kycRefusal });
+      }
       const processingFee = Math.round(requestedAmount * 0.005); // 0.5%
+      const repaymentType = ['emi', 'bullet', 'interest_only'].includes(req.body.repaymentType) ? req.body.repaymentType : 'emi';
 
       // Create loan record
-      const loan = await storage.createLoan({
+      const createdLoan = await storage.createLoan({
         userId: userId,
         lendingPartnerId: 1,
         lendingPartnerName: 'TradeWiser Direct Lending',
@@ -2959,36 +3331,29 @@ export async function registerRoutes(app: Express): Promise<Server> {
         collateralReceiptIds: JSON.stringify(receiptIds),
         outstandingAmount: requestedAmount.toString(),
         purpose,
-        creditScore: 750,
-        repaymentSchedule: JSON.stringify({
-          monthlyEMI,
-          totalAmount,
-          totalInterest,
+        creditScore,
+        repaymentType,
+        tenureMonths,
+        repaymentSchedule: {
           processingFee,
           bankDetails,
-          startDate: new Date(),
-          nextPaymentDate: new Date(Date.now() + 30 * 24 * 60 * 60 * 1000)
-        })
+          startDate: new Date()
+        }
       });
 
-      // Update receipts to mark as collateralized
-      await Promise.all(receiptIds.map(async (receiptId: number) => {
-        await storage.updateWarehouseReceipt(receiptId, {
-          status: 'collateralized',
-          liens: JSON.stringify([{
-            type: 'loan_collateral',
-            loanId: loan.id,
-            amount: requestedAmount,
-            date: new Date().toISOString(),
-            bankDetails: {
-              accountNumber: bankDetails.accountNumber,
-              ifscCode: bankDetails.ifscCode,
-              accountHolderName: bankDetails.accountHolderName,
-              bankName: bankDetails.bankName
-            }
-          }])
-        });
-      }));
+      // Generate the repayment schedule
+      const { loan, instalments } = await loanAccountingService.initialise(createdLoan.id);
+      await ledgerService.postLoanDisbursement(loan);
+      const monthlyEMI = instalments.length > 0
+        ? parseFloat(instalments[0].principalDue) + parseFloat(instalments[0].interestDue)
+        : 0;
+      const totalInterest = instalments.reduce((sum, instalment) => sum + parseFloat(instalment.interestDue), 0);
+      const totalAmount = requestedAmount + totalInterest;
+
+      // Register the lender's lien on each receipt
+      for (const receipt of validReceipts) {
+        await lienService.register(receipt, loan);
+      }
 
       res.json({
         success: true,
@@ -2999,6 +3364,7 @@ export async function registerRoutes(app: Express): Promise<Server> {
           status: 'approved',
           interestRate,
           tenureMonths,
+          repaymentType,
           monthlyEMI,
           totalAmount,
           totalInterest,
@@ -3045,6 +3411,10 @@ export async function registerRoutes(app: Express): Promise<Server> {
         return res.status(400).json({ success: false, error: 'Receipt not found or not owned by user' });
       }
 
+      if (receipt.isFrozen) {
+        return res.status(400).json({ success: false, error: 'Receipt is frozen while a dispute is open' });
+      }
+
       const receiptValue = parseFloat(receipt.valuation || '0');
       const collateralUsed = parseFloat(receipt.collateralUsed || '0');
       const maxLoanAmount = (receiptValue - collateralUsed) * 0.8;
@@ -3056,30 +3426,41 @@ export async function registerRoutes(app: Express): Promise<Server> {
         });
       }
 
-      // Calculate EMI
-      const monthlyRate = 0.12 / 12; // 12% annual
-      const emi = (parseFloat(amount) * monthlyRate * Math.pow(1 + monthlyRate, durationMonths)) /
-                  (Math.pow(1 + monthlyRate, durationMonths) - 1);
+      const pricing = await creditScoringService.directLendingRate(userId);
+      if (pricing.interestRate === null) {
+        return res.status(400).json({ success: false, error: `Credit rating ${pricing.creditRating} is not eligible for a loan` });
+      }
 
-      const loan = await storage.createLoan({
+      const kycRefusal = await kycService.checkLimit(userId, 'loan', parseFloat(amount));
+      if (kycRefusal) {
+        return res.status(403).json({ success: false, error: kycRefusal });
+      }
+
+      const createdLoan = await storage.createLoan({
         userId: userId,
         lendingPartnerId: 1, // Default lending partner
         lendingPartnerName: 'TradeWiser Direct Lending',
         amount: amount,
-        interestRate: '12.0',
+        interestRate: pricing.interestRate.toFixed(1),
         endDate: new Date(Date.now() + durationMonths * 30 * 24 * 60 * 60 * 1000),
         status: 'active',
         collateralReceiptIds: JSON.stringify([receiptId]),
         outstandingAmount: amount,
         purpose: 'Working Capital',
-        creditScore: 750
+        creditScore: pricing.creditScore,
+        tenureMonths: parseInt(durationMonths)
       });
-
-      // Update collateral usage
-      const newCollateralUsed = collateralUsed + parseFloat(amount);
+      const { loan, instalments } = await loanAccountingService.initialise(createdLoan.id);
+      await ledgerService.postLoanDisbursement(loan);
+      const emi = instalments.length > 0
+        ? parseFloat(instalments[0].principalDue) + parseFloat(instalments[0].interestDue)
+        : 0;
+
+      // Register the lien, ranked behind any earlier loan on the receipt, and update collateral usage.
+      // The lien registry owns the receipt status: it stays collateralized while any lien is open.
+      await lienService.register(receipt, loan);
       await storage.updateWarehouseReceipt(receiptId, {
-        collateralUsed: newCollateralUsed.toString(),
-        status: newCollateralUsed >= receiptValue ? 'collateralized' : 'active'
+        collateralUsed: (collateralUsed + parseFloat(amount)).toString()
       });
 
       res.json({ 
@@ -3109,6 +3490,7 @@ export async function registerRoutes(app: Express): Promise<Server> {
       
       const creditInfo = await storage.getAvailableCredit(userId);
       console.log('Credit info calculated:', JSON.stringify(creditInfo, null, 2));
+      const { interestRate, creditRating } = await creditScoringService.directLendingRate(userId);
 
       const responseData = {
         success: true,
@@ -3118,7 +3500,8 @@ export async function registerRoutes(app: Express): Promise<Server> {
           outstandingBalance: creditInfo.outstandingBalance,
           availableCredit: creditInfo.availableCredit,
           utilizationPercentage: creditInfo.utilizationPercentage,
-          interestRate: 12.0, // Fixed rate for demo
+          interestRate, // % p.a. for the borrower's credit rating
+          creditRating,
           processingTime: '2-4 business hours',
           minimumWithdrawal: 1000,
           maximumWithdrawal: creditInfo.availableCredit
@@ -3138,6 +3521,7 @@ export async function registerRoutes(app: Express): Promise<Server> {
     try {
       const userId = req.session!.userId as number;
       const creditInfo = await storage.getAvailableCredit(userId);
+      const interestRate = (await creditScoringService.directLendingRate(userId)).interestRate ?? 0;
 
       res.json({
         success: true,
@@ -3145,9 +3529,9 @@ export async function registerRoutes(app: Express): Promise<Server> {
           totalLimit: creditInfo.maxEligibleCredit,
           availableBalance: creditInfo.availableCredit,
           outstandingAmount: creditInfo.outstandingBalance,
-          interestRate: 12.0,
-          dailyInterest: Math.round((creditInfo.outstandingBalance * 12 / 100 / 365) * 100) / 100,
-          monthlyInterest: Math.round((creditInfo.outstandingBalance * 12 / 100 / 12) * 100) / 100,
+          interestRate,
+          dailyInterest: Math.round((creditInfo.outstandingBalance * interestRate / 100 / 365) * 100) / 100,
+          monthlyInterest: Math.round((creditInfo.outstandingBalance * interestRate / 100 / 12) * 100) / 100,
           lastPaymentDate: '2025-09-01'
         }
       });
@@ -3310,6 +3694,11 @@ export async function registerRoutes(app: Express): Promise<Server> {
         });
       }
 
+      const kycRefusal = await kycService.checkLimit(userId, 'withdrawal', parsedAmount);
+      if (kycRefusal) {
+        return res.status(403).json({ success: false, error: kycRefusal });
+      }
+
       // Enhanced bank account validation
       if (bankAccountId === null || bankAccountId === undefined || bankAccountId === '') {
         return res.status(400).json({ success: false, error: 'Bank account selection is required' });
@@ -3360,11 +3749,12 @@ export async function registerRoutes(app: Express): Promise<Server> {
       });
 
       // For demo purposes, immediately complete the withdrawal
-      await storage.updateCreditWithdrawal(withdrawal.id, {
+      const completedWithdrawal = await storage.updateCreditWithdrawal(withdrawal.id, {
         status: 'completed',
         externalTransactionId: `TXN${Date.now()}`,
         transactionReference: `REF${withdrawal.id}${Date.now()}`
       });
+      await ledgerService.postCreditWithdrawal(completedWithdrawal ?? withdrawal);
 
       res.json({
         success: true,
@@ -3405,6 +3795,66 @@ export async function registerRoutes(app: Express): Promise<Server> {
   // Enhanced Authentication System - Phone/OTP, Username/Password, Social Login
   app.use("/api/auth", authRouter);
 
+  // Red Channel dispute lifecycle
+  app.use("/api/disputes", disputesRouter);
+
+  // Warehouse operator console (inbound deposits)
+  app.use("/api/operator", operatorRouter);
+
+  // Commodity grade specifications
+  app.use("/api/grading", gradingRouter);
+
+  // Receipt split, merge and lineage
+  app.use("/api/receipts", receiptLotsRouter);
+
+  // Endorsements awaiting acceptance by the receiving party
+  app.use("/api/endorsements", endorsementsRouter);
+
+  // Mandi price feed and price history
+  app.use("/api/pricing", pricingRouter);
+
+  // Mark-to-market receipt valuations and loan LTV
+  app.use("/api/revaluation", revaluationRouter);
+
+  // Margin calls and their cure workflow
+  app.use("/api/margin-calls", marginCallsRouter);
+
+  // Liquidation auctions of defaulted loans' collateral
+  app.use("/api/auctions", auctionsRouter);
+
+  // Loan schedules, payoff quotes and repayments
+  app.use("/api/loans", loanAccountsRouter);
+
+  // Double-entry ledger: trial balance and account statements
+  app.use("/api/ledger", ledgerRouter);
+
+  // Warehouse tariffs, storage fee invoices and their payment
+  app.use("/api/storage-fees", storageFeesRouter);
+
+  // Lending partner offers, applications, disbursement and partner webhooks
+  app.use("/api/lending", lendingRouter);
+
+  // Credit scores and the factors behind them; other /api/credit routes fall through to the API router
+  app.use("/api/credit", creditRouter);
+
+  // Lien registry and tri-party lien release sign-off
+  app.use("/api/liens", liensRouter);
+
+  // KYC submissions, reviewer queue and tier limits
+  app.use("/api/kyc", kycRouter);
+
+  // Hash-chained audit ledger: chain verification, blocks and entity history
+  app.use("/api/audit", auditRouter);
+
+  // Ed25519-signed QR codes for receipts and sacks, and the keys to check them
+  app.use("/api/qr", qrRouter);
+
+  // Persisted smart contracts: automatic repayment, evaluation and cancellation
+  app.use("/api/contracts", contractsRouter);
+
+  // Spot trades of receipts settled delivery versus payment through escrow
+  app.use("/api/trades", tradesRouter);
+
   // Mount API router on /api path
   app.use("/api", apiRouter);
   
@@ -3586,7 +4036,6 @@ export async function registerRoutes(app: Express): Promise<Server> {
           warehouseAddress: 'Grain Market Road, Karnal, Haryana',
           qualityGrade: 'Grade A',
           valuation: (250 * 1000 * 50).toString(),
-          blockchainHash: `0x${Math.random().toString(16).substring(2, 18)}`,
           issuedDate: new Date(),
           expiryDate: new Date(Date.now() + 6 * 30 * 24 * 60 * 60 * 1000),
           liens: JSON.stringify({
@@ -3607,7 +4056,6 @@ export async function registerRoutes(app: Express): Promise<Server> {
           warehouseAddress: 'Azadpur Mandi, Delhi',
           qualityGrade: 'Super Grade',
           valuation: (100 * 1000 * 75).toString(), // Premium pricing for Basmati
-          blockchainHash: `0x${Math.random().toString(16).substring(2, 18)}`,
           issuedDate: new Date(Date.now() - 15 * 24 * 60 * 60 * 1000), // 15 days ago
           expiryDate: new Date(Date.now() + 5 * 30 * 24 * 60 * 60 * 1000),
           liens: JSON.stringify({
@@ -3625,7 +4073,6 @@ export async function registerRoutes(app: Express): Promise<Server> {
           warehouseAddress: 'Krishi Upaj Mandi, Indore, MP',
           qualityGrade: 'Grade A',
           valuation: (500 * 1000 * 45).toString(),
-          blockchainHash: `0x${Math.random().toString(16).substring(2, 18)}`,
           issuedDate: new Date(Date.now() - 30 * 24 * 60 * 60 * 1000), // 1 month ago
           expiryDate: new Date(Date.now() + 4 * 30 * 24 * 60 * 60 * 1000),
           liens: JSON.stringify({
@@ -3646,7 +4093,6 @@ export async function registerRoutes(app: Express): Promise<Server> {
           warehouseAddress: 'Hajipur Industrial Area, Bihar',
           qualityGrade: 'Grade B',
           valuation: (150 * 1000 * 35).toString(),
-          blockchainHash: `0x${Math.random().toString(16).substring(2, 18)}`,
           issuedDate: new Date(Date.now() - 7 * 24 * 60 * 60 * 1000), // 1 week ago
           expiryDate: new Date(Date.now() + 5 * 30 * 24 * 60 * 60 * 1000),
           liens: JSON.stringify({
@@ -3664,7 +4110,6 @@ export async function registerRoutes(app: Express): Promise<Server> {
           warehouseAddress: 'Cotton Market, Rajkot, Gujarat',
           qualityGrade: 'Premium',
           valuation: (75 * 1000 * 85).toString(), // Premium cotton pricing
-          blockchainHash: `0x${Math.random().toString(16).substring(2, 18)}`,
           issuedDate: new Date(Date.now() - 45 * 24 * 60 * 60 * 1000), // 45 days ago
           expiryDate: new Date(Date.now() + 3 * 30 * 24 * 60 * 60 * 1000),
           liens: JSON.stringify({
@@ -3685,7 +4130,6 @@ export async function registerRoutes(app: Express): Promise<Server> {
           warehouseAddress: 'Spice Market, Erode, Tamil Nadu',
           qualityGrade: 'Export Quality',
           valuation: (25 * 1000 * 120).toString(), // High value spice
-          blockchainHash: `0x${Math.random().toString(16).substring(2, 18)}`,
           issuedDate: new Date(Date.now() - 20 * 24 * 60 * 60 * 1000),
           expiryDate: new Date(Date.now() + 8 * 30 * 24 * 60 * 60 * 1000),
           liens: JSON.stringify({
@@ -3703,7 +4147,6 @@ export async function registerRoutes(app: Express): Promise<Server> {
           warehouseAddress: 'Kota Mandi, Rajasthan',
           qualityGrade: 'Grade A',
           valuation: (200 * 1000 * 55).toString(),
-          blockchainHash: `0x${Math.random().toString(16).substring(2, 18)}`,
           issuedDate: new Date(Date.now() - 60 * 24 * 60 * 60 * 1000), // 2 months ago
           expiryDate: new Date(Date.now() + 2 * 30 * 24 * 60 * 60 * 1000),
           liens: JSON.stringify({
@@ -3724,7 +4167,6 @@ export async function registerRoutes(app: Express): Promise<Server> {
           warehouseAddress: 'Latur Agricultural Market, Maharashtra',
           qualityGrade: 'Grade A',
           valuation: (300 * 1000 * 60).toString(),
-          blockchainHash: `0x${Math.random().toString(16).substring(2, 18)}`,
           issuedDate: new Date(Date.now() - 10 * 24 * 60 * 60 * 1000),
           expiryDate: new Date(Date.now() + 6 * 30 * 24 * 60 * 60 * 1000),
           liens: JSON.stringify({
@@ -3742,7 +4184,6 @@ export async function registerRoutes(app: Express): Promise<Server> {
           warehouseAddress: 'Kurnool District Storage, AP',
           qualityGrade: 'Premium',
           valuation: (180 * 1000 * 70).toString(),
-          blockchainHash: `0x${Math.random().toString(16).substring(2, 18)}`,
           issuedDate: new Date(Date.now() - 25 * 24 * 60 * 60 * 1000),
           expiryDate: new Date(Date.now() + 4 * 30 * 24 * 60 * 60 * 1000),
           liens: JSON.stringify({
@@ -3763,7 +4204,6 @@ export async function registerRoutes(app: Express): Promise<Server> {
           warehouseAddress: 'Unjha Spice Market, Gujarat',
           qualityGrade: 'Export Grade',
           valuation: (15 * 1000 * 200).toString(), // High value spice
-          blockchainHash: `0x${Math.random().toString(16).substring(2, 18)}`,
           issuedDate: new Date(Date.now() - 5 * 24 * 60 * 60 * 1000),
           expiryDate: new Date(Date.now() + 12 * 30 * 24 * 60 * 60 * 1000), // Longer expiry for spices
           liens: JSON.stringify({
@@ -3781,7 +4221,6 @@ export async function registerRoutes(app: Express): Promise<Server> {
           warehouseAddress: 'Barrackpore Jute Mill Area, WB',
           qualityGrade: 'Grade A',
           valuation: (120 * 1000 * 40).toString(),
-          blockchainHash: `0x${Math.random().toString(16).substring(2, 18)}`,
           issuedDate: new Date(Date.now() - 35 * 24 * 60 * 60 * 1000),
           expiryDate: new Date(Date.now() + 3 * 30 * 24 * 60 * 60 * 1000),
           liens: JSON.stringify({
@@ -3802,7 +4241,6 @@ export async function registerRoutes(app: Express): Promise<Server> {
           warehouseAddress: 'Bhubaneswar Agricultural Hub, Odisha',
           qualityGrade: 'Premium',
           valuation: (50 * 1000 * 90).toString(),
-          blockchainHash: `0x${Math.random().toString(16).substring(2, 18)}`,
           issuedDate: new Date(Date.now() - 18 * 24 * 60 * 60 * 1000),
           expiryDate: new Date(Date.now() + 7 * 30 * 24 * 60 * 60 * 1000),
           liens: JSON.stringify({
@@ -3816,10 +4254,10 @@ export async function registerRoutes(app: Express): Promise<Server> {
       
       for (const receiptData of demoReceiptsData) {
         try {
-          const receipt = await storage.createWarehouseReceipt({
+          const receipt = await auditLedgerService.anchorReceipt(await storage.createWarehouseReceipt({
             ...receiptData,
             ownerId: req.session.userId
-          });
+          }));
           createdReceipts.push(receipt);
           console.log(`Created demo receipt: ${receiptData.receiptNumber} - ${receiptData.commodityName}`);
         } catch (error) {
@@ -3847,7 +4285,7 @@ export async function registerRoutes(app: Express): Promise<Server> {
   // =============================================
 
   // Advance process to next stage manually (demo mode)
-  apiRouter.post("/processes/:processId/advance-stage", requireAuth, async (req: Request, res: Response) => {
+  apiRouter.post("/processes/:processId/advance-stage", requireProcessOperator(), async (req: Request, res: Response) => {
     try {
       const processId = parseInt(req.params.processId);
       const { nextStage, demoMode } = req.body;
@@ -3862,11 +4300,6 @@ export async function registerRoutes(app: Express): Promise<Server> {
         return res.status(404).json({ message: "Process not found" });
       }
 
-      // Verify ownership
-      if (process.userId !== req.session.userId) {
-        return res.status(403).json({ message: "Unauthorized" });
-      }
-
       // Update process stage
       await storage.updateProcess(processId, {
         currentStage: nextStage,
@@ -3898,7 +4331,7 @@ export async function registerRoutes(app: Express): Promise<Server> {
   });
 
   // Jump to specific stage (demo mode)
-  apiRouter.post("/processes/:processId/jump-to-stage", requireAuth, async (req: Request, res: Response) => {
+  apiRouter.post("/processes/:processId/jump-to-stage", requireProcessOperator(), async (req: Request, res: Response) => {
     try {
       const processId = parseInt(req.params.processId);
       const { targetStage, demoMode } = req.body;
@@ -3913,11 +4346,6 @@ export async function registerRoutes(app: Express): Promise<Server> {
         return res.status(404).json({ message: "Process not found" });
       }
 
-      // Verify ownership
-      if (process.userId !== req.session.userId) {
-        return res.status(403).json({ message: "Unauthorized" });
-      }
-
       // Update process stage
       await storage.updateProcess(processId, {
         currentStage: targetStage,
@@ -3949,7 +4377,7 @@ export async function registerRoutes(app: Express): Promise<Server> {
   });
 
   // Reset process to beginning (demo mode)
-  apiRouter.post("/processes/:processId/reset-stages", requireAuth, async (req: Request, res: Response) => {
+  apiRouter.post("/processes/:processId/reset-stages", requireProcessOperator(), async (req: Request, res: Response) => {
     try {
       const processId = parseInt(req.params.processId);
       const { demoMode } = req.body;
@@ -3964,11 +4392,6 @@ export async function registerRoutes(app: Express): Promise<Server> {
         return res.status(404).json({ message: "Process not found" });
       }
 
-      // Verify ownership
-      if (process.userId !== req.session.userId) {
-        return res.status(403).json({ message: "Unauthorized" });
-      }
-
       // Reset to initial stage
       await storage.updateProcess(processId, {
         currentStage: 'pickup_scheduled',
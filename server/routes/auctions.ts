@@ -0,0 +1,103 @@
+import { Request, Response, Router } from 'express';
+import { z } from 'zod';
+import { requireAuth, requirePermission } from '../middleware/auth';
+import { liquidationService } from '../services/LiquidationService';
+
+const auctionsRouter = Router();
+
+// Validation schemas
+const openAuctionSchema = z.object({
+  loanId: z.coerce.number().int().positive(),
+  auctionType: z.enum(['sealed_bid', 'ascending']).optional(),
+  durationHours: z.coerce.number().positive().max(24 * 30).optional(),
+  reservePrice: z.coerce.number().positive().optional(),
+  minIncrement: z.coerce.number().positive().optional()
+});
+
+const bidSchema = z.object({
+  amount: z.coerce.number().positive('Bid amount must be positive')
+});
+
+const statusSchema = z.enum(['open', 'settled', 'failed', 'cancelled']).optional();
+
+/**
+ * Map validation and service errors to HTTP responses
+ */
+function handleAuctionError(res: Response, error: unknown, fallback: string) {
+  if (error instanceof z.ZodError) {
+    return res.status(400).json({ message: error.errors[0]?.message || 'Invalid request' });
+  }
+
+  const message = error instanceof Error ? error.message : fallback;
+  if (message.endsWith('not found')) {
+    return res.status(404).json({ message });
+  }
+  if (message.startsWith('Not authorized')) {
+    return res.status(403).json({ message });
+  }
+
+  console.error(`${fallback}:`, error);
+  res.status(400).json({ message });
+}
+
+auctionsRouter.use(requireAuth);
+
+// Liquidation auctions, optionally filtered by status
+auctionsRouter.get('/', async (req: Request, res: Response) => {
+  try {
+    const status = statusSchema.parse(req.query.status || undefined);
+    res.json(await liquidationService.list(req.session.userId!, status));
+  } catch (error) {
+    handleAuctionError(res, error, 'Failed to fetch auctions');
+  }
+});
+
+// Put a defaulted loan's collateral up for auction
+auctionsRouter.post('/', requirePermission('loan:manage'), async (req: Request, res: Response) => {
+  try {
+    const { loanId, ...options } = openAuctionSchema.parse(req.body);
+    const auction = await liquidationService.openAuction(loanId, { ...options, createdBy: req.session.userId! });
+    res.status(201).json(auction);
+  } catch (error) {
+    handleAuctionError(res, error, 'Failed to open auction');
+  }
+});
+
+auctionsRouter.get('/:id', async (req: Request, res: Response) => {
+  try {
+    res.json(await liquidationService.get(parseInt(req.params.id), req.session.userId!));
+  } catch (error) {
+    handleAuctionError(res, error, 'Failed to fetch auction');
+  }
+});
+
+// Traders bid for the whole lot
+auctionsRouter.post('/:id/bids', requirePermission('auction:bid'), async (req: Request, res: Response) => {
+  try {
+    const { amount } = bidSchema.parse(req.body);
+    const bid = await liquidationService.placeBid(parseInt(req.params.id), req.session.userId!, amount);
+    res.status(201).json(bid);
+  } catch (error) {
+    handleAuctionError(res, error, 'Failed to place bid');
+  }
+});
+
+// Settle an auction that has ended without waiting for the scheduler
+auctionsRouter.post('/:id/close', requirePermission('loan:manage'), async (req: Request, res: Response) => {
+  try {
+    res.json(await liquidationService.close(parseInt(req.params.id)));
+  } catch (error) {
+    handleAuctionError(res, error, 'Failed to close auction');
+  }
+});
+
+// Withdraw an auction before anyone has bid
+auctionsRouter.post('/:id/cancel', requirePermission('loan:manage'), async (req: Request, res: Response) => {
+  try {
+    res.json(await liquidationService.cancel(parseInt(req.params.id)));
+  } catch (error) {
+    handleAuctionError(res, error, 'Failed to cancel auction');
+  }
+});
+
+export default auctionsRouter;
@@ -0,0 +1,80 @@
+import { Request, Response, Router } from 'express';
+import { z } from 'zod';
+import { requireAuth, requirePermission } from '../middleware/auth';
+import { auditLedgerService } from '../services/AuditLedgerService';
+
+const auditRouter = Router();
+
+// Validation schemas
+const entityParamsSchema = z.object({
+  entityType: z.enum(['receipt', 'sack', 'lien', 'contract']),
+  entityId: z.coerce.number().int().positive()
+});
+
+/**
+ * Map validation and service errors to HTTP responses
+ */
+function handleAuditError(res: Response, error: unknown, fallback: string) {
+  if (error instanceof z.ZodError) {
+    return res.status(400).json({ message: error.errors[0]?.message || 'Invalid request' });
+  }
+
+  const message = error instanceof Error ? error.message : fallback;
+  if (message.endsWith('not found')) {
+    return res.status(404).json({ message });
+  }
+
+  console.error(`${fallback}:`, error);
+  res.status(400).json({ message });
+}
+
+auditRouter.use(requireAuth, requirePermission('admin:system'));
+
+// Recompute every hash in the ledger and report any tampering
+auditRouter.get('/verify', async (req: Request, res: Response) => {
+  try {
+    res.json(await auditLedgerService.verifyChain());
+  } catch (error) {
+    handleAuditError(res, error, 'Failed to verify audit ledger');
+  }
+});
+
+// Sealed blocks, newest first
+auditRouter.get('/blocks', async (req: Request, res: Response) => {
+  try {
+    const limit = Math.min(parseInt(req.query.limit as string) || 50, 500);
+    res.json(await auditLedgerService.listBlocks(limit));
+  } catch (error) {
+    handleAuditError(res, error, 'Failed to fetch audit blocks');
+  }
+});
+
+// Seal unsealed entries into blocks now rather than on the next interval
+auditRouter.post('/blocks/seal', async (req: Request, res: Response) => {
+  try {
+    res.status(201).json(await auditLedgerService.seal());
+  } catch (error) {
+    handleAuditError(res, error, 'Failed to seal audit blocks');
+  }
+});
+
+// An entry and the block it was sealed in
+auditRouter.get('/entries/:id', async (req: Request, res: Response) => {
+  try {
+    res.json(await auditLedgerService.getEntry(parseInt(req.params.id)));
+  } catch (error) {
+    handleAuditError(res, error, 'Failed to fetch audit entry');
+  }
+});
+
+// Ledger history of a receipt, sack or lien
+auditRouter.get('/:entityType/:entityId', async (req: Request, res: Response) => {
+  try {
+    const { entityType, entityId } = entityParamsSchema.parse(req.params);
+    res.json(await auditLedgerService.listEntityEntries(entityType, entityId));
+  } catch (error) {
+    handleAuditError(res, error, 'Failed to fetch audit history');
+  }
+});
+
+export default auditRouter;
@@ -0,0 +1,102 @@
+import { Request, Response, Router } from 'express';
+import { z } from 'zod';
+import { storage } from '../storage';
+import { requireAuth, requirePermission } from '../middleware/auth';
+import { smartContractService } from '../services/SmartContractService';
+
+const contractsRouter = Router();
+
+// Validation schemas
+const autoRepaySchema = z.object({
+  loanId: z.coerce.number().int().positive()
+});
+
+const cancelSchema = z.object({
+  reason: z.string().trim().min(1, 'A reason for cancelling is required')
+});
+
+/**
+ * Map validation and service errors to HTTP responses
+ */
+function handleContractError(res: Response, error: unknown, fallback: string) {
+  if (error instanceof z.ZodError) {
+    return res.status(400).json({ message: error.errors[0]?.message || 'Invalid request' });
+  }
+
+  const message = error instanceof Error ? error.message : fallback;
+  if (message.endsWith('not found')) {
+    return res.status(404).json({ message });
+  }
+  if (message.startsWith('Not authorized')) {
+    return res.status(403).json({ message });
+  }
+
+  console.error(`${fallback}:`, error);
+  res.status(400).json({ message });
+}
+
+contractsRouter.use(requireAuth);
+
+// Contracts the caller is party to; admins see all of them
+contractsRouter.get('/', async (req: Request, res: Response) => {
+  try {
+    const user = await storage.getUser(req.session.userId!);
+    res.json(await smartContractService.listForUser(user!));
+  } catch (error) {
+    handleContractError(res, error, 'Failed to fetch contracts');
+  }
+});
+
+// Collect a loan's instalments automatically on their due dates
+contractsRouter.post('/auto-repay', async (req: Request, res: Response) => {
+  try {
+    const { loanId } = autoRepaySchema.parse(req.body);
+    const user = await storage.getUser(req.session.userId!);
+    const contractId = await smartContractService.createRepaymentContract(loanId, user!.id);
+    res.status(201).json(await smartContractService.get(contractId, user!));
+  } catch (error) {
+    handleContractError(res, error, 'Failed to set up automatic repayment');
+  }
+});
+
+// Evaluate every active contract now instead of waiting for the scheduler
+contractsRouter.post('/run', requirePermission('admin:system'), async (req: Request, res: Response) => {
+  try {
+    res.json(await smartContractService.runDue());
+  } catch (error) {
+    handleContractError(res, error, 'Failed to run contracts');
+  }
+});
+
+// A contract with its audit trail
+contractsRouter.get('/:contractId', async (req: Request, res: Response) => {
+  try {
+    const user = await storage.getUser(req.session.userId!);
+    res.json(await smartContractService.get(req.params.contractId, user!));
+  } catch (error) {
+    handleContractError(res, error, 'Failed to fetch contract');
+  }
+});
+
+// How the contract's condition evaluates right now, without executing it
+contractsRouter.get('/:contractId/evaluation', async (req: Request, res: Response) => {
+  try {
+    const user = await storage.getUser(req.session.userId!);
+    res.json(await smartContractService.preview(req.params.contractId, user!));
+  } catch (error) {
+    handleContractError(res, error, 'Failed to evaluate contract');
+  }
+});
+
+// Cancel an active contract
+contractsRouter.post('/:contractId/cancel', async (req: Request, res: Response) => {
+  try {
+    const { reason } = cancelSchema.parse(req.body);
+    const user = await storage.getUser(req.session.userId!);
+    res.json(await smartContractService.cancel(req.params.contractId, user!, reason));
+  } catch (error) {
+    handleContractError(res, error, 'Failed to cancel contract');
+  }
+});
+
+export default contractsRouter;
@@ -0,0 +1,61 @@
+import { Request, Response, Router } from 'express';
+import { requireAuth, requirePermission } from '../middleware/auth';
+import { creditScoringService, DIRECT_LENDING_RATES } from '../services/CreditScoringService';
+import type { CreditRating, UserCreditProfile } from '@shared/schema';
+
+const creditRouter = Router();
+
+/**
+ * Map service errors to HTTP responses
+ */
+function handleCreditError(res: Response, error: unknown, fallback: string) {
+  const message = error instanceof Error ? error.message : fallback;
+  if (message.endsWith('not found')) {
+    return res.status(404).json({ message });
+  }
+  if (message.startsWith('Not authorized')) {
+    return res.status(403).json({ message });
+  }
+
+  console.error(`${fallback}:`, error);
+  res.status(400).json({ message });
+}
+
+// Score, rating, the factors behind them and the direct lending rate they price to
+function describe(profile: UserCreditProfile) {
+  return {
+    ...profile,
+    interestRate: profile.creditRating ? DIRECT_LENDING_RATES[profile.creditRating as CreditRating] : null
+  };
+}
+
+creditRouter.use(requireAuth);
+
+// The signed-in user's credit score with its explanation
+creditRouter.get('/score', async (req: Request, res: Response) => {
+  try {
+    res.json(describe(await creditScoringService.getProfile(req.session.userId!)));
+  } catch (error) {
+    handleCreditError(res, error, 'Failed to fetch credit score');
+  }
+});
+
+// Re-score the signed-in user from their current history
+creditRouter.post('/score/refresh', async (req: Request, res: Response) => {
+  try {
+    res.json(describe(await creditScoringService.rescore(req.session.userId!, 'requested')));
+  } catch (error) {
+    handleCreditError(res, error, 'Failed to refresh credit score');
+  }
+});
+
+// A borrower's credit score, for lenders
+creditRouter.get('/users/:id', requirePermission('loan:manage'), async (req: Request, res: Response) => {
+  try {
+    res.json(describe(await creditScoringService.getProfile(parseInt(req.params.id))));
+  } catch (error) {
+    handleCreditError(res, error, 'Failed to fetch credit score');
+  }
+});
+
+export default creditRouter;
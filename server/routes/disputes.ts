@@ -0,0 +1,218 @@
+import { Request, Response, Router } from 'express';
+import fs from 'fs';
+import multer from 'multer';
+import { z } from 'zod';
+import { storage } from '../storage';
+import { requireAuth, requirePermission, hasPermission } from '../middleware/auth';
+import { disputeService } from '../services/DisputeService';
+import FileUploadService from '../services/FileUploadService';
+import type { DisputeEvidence } from '@shared/schema';
+
+const disputesRouter = Router();
+
+// Evidence files are kept in memory and persisted by FileUploadService
+const evidenceUpload = multer({
+  storage: multer.memoryStorage(),
+  limits: { fileSize: 10 * 1024 * 1024, files: 5 }
+});
+
+// Validation schemas
+const fileDisputeSchema = z.object({
+  receiptId: z.coerce.number().int().positive(),
+  disputeType: z.enum(['quality', 'quantity', 'valuation', 'authenticity', 'legal']),
+  priority: z.enum(['low', 'medium', 'high', 'critical']).default('medium'),
+  description: z.string().min(10)
+});
+
+const assignSchema = z.object({
+  assigneeId: z.coerce.number().int().positive()
+});
+
+const noteSchema = z.object({
+  note: z.string().optional()
+});
+
+const evidenceRequestSchema = z.object({
+  request: z.string().min(5)
+});
+
+const resolutionSchema = z.object({
+  resolutionNote: z.string().min(5)
+});
+
+disputesRouter.use(requireAuth);
+
+/**
+ * Map service errors to HTTP responses
+ */
+function handleDisputeError(res: Response, error: unknown, fallback: string) {
+  if (error instanceof z.ZodError) {
+    return res.status(400).json({ message: error.errors[0]?.message || 'Invalid request' });
+  }
+
+  const message = error instanceof Error ? error.message : fallback;
+  if (message.endsWith('not found')) {
+    return res.status(404).json({ message });
+  }
+  if (message.startsWith('Not authorized') || message.startsWith('Only the assigned')) {
+    return res.status(403).json({ message });
+  }
+
+  console.error(`${fallback}:`, error);
+  res.status(400).json({ message });
+}
+
+// List disputes filed by or assigned to the current user (scope=all for dispute administrators)
+disputesRouter.get('/', async (req: Request, res: Response) => {
+  try {
+    const userId = req.session.userId!;
+    const scope = req.query.scope;
+
+    let disputes;
+    if (scope === 'all') {
+      const user = await storage.getUser(userId);
+      if (!user || !hasPermission(user.role, 'dispute:assign')) {
+        return res.status(403).json({ message: 'Insufficient permissions' });
+      }
+      disputes = await storage.listDisputes();
+    } else if (scope === 'assigned') {
+      disputes = await storage.listDisputesByAssignee(userId);
+    } else {
+      disputes = await storage.listDisputesByFiler(userId);
+    }
+
+    res.json(await Promise.all(disputes.map(d => disputeService.toView(d))));
+  } catch (error) {
+    console.error('Error listing disputes:', error);
+    res.status(500).json({ message: 'Failed to fetch disputes' });
+  }
+});
+
+// Get a single dispute
+disputesRouter.get('/:id', async (req: Request, res: Response) => {
+  try {
+    const dispute = await storage.getDispute(parseInt(req.params.id));
+    if (!dispute) {
+      return res.status(404).json({ message: 'Dispute not found' });
+    }
+
+    if (!(await disputeService.canView(dispute, req.session.userId!))) {
+      return res.status(403).json({ message: 'Not authorized to view this dispute' });
+    }
+
+    res.json(await disputeService.toView(dispute));
+  } catch (error) {
+    console.error('Error fetching dispute:', error);
+    res.status(500).json({ message: 'Failed to fetch dispute' });
+  }
+});
+
+// File a new dispute, optionally with evidence files
+disputesRouter.post('/', evidenceUpload.array('evidence', 5), async (req: Request, res: Response) => {
+  try {
+    const data = fileDisputeSchema.parse(req.body);
+    const files = (req.files as Express.Multer.File[] | undefined) || [];
+
+    const dispute = await disputeService.fileDispute(req.session.userId!, data, files);
+    res.status(201).json(await disputeService.toView(dispute));
+  } catch (error) {
+    handleDisputeError(res, error, 'Failed to file dispute');
+  }
+});
+
+// Assign a reviewer
+disputesRouter.post('/:id/assign', requirePermission('dispute:assign'), async (req: Request, res: Response) => {
+  try {
+    const { assigneeId } = assignSchema.parse(req.body);
+    const dispute = await disputeService.assign(parseInt(req.params.id), req.session.userId!, assigneeId);
+    res.json(await disputeService.toView(dispute));
+  } catch (error) {
+    handleDisputeError(res, error, 'Failed to assign dispute');
+  }
+});
+
+// Start (or resume) review
+disputesRouter.post('/:id/review', async (req: Request, res: Response) => {
+  try {
+    const { note } = noteSchema.parse(req.body);
+    const dispute = await disputeService.startReview(parseInt(req.params.id), req.session.userId!, note);
+    res.json(await disputeService.toView(dispute));
+  } catch (error) {
+    handleDisputeError(res, error, 'Failed to start review');
+  }
+});
+
+// Request additional evidence from the filer
+disputesRouter.post('/:id/request-evidence', async (req: Request, res: Response) => {
+  try {
+    const { request } = evidenceRequestSchema.parse(req.body);
+    const dispute = await disputeService.requestEvidence(parseInt(req.params.id), req.session.userId!, request);
+    res.json(await disputeService.toView(dispute));
+  } catch (error) {
+    handleDisputeError(res, error, 'Failed to request evidence');
+  }
+});
+
+// Upload evidence files
+disputesRouter.post('/:id/evidence', evidenceUpload.array('evidence', 5), async (req: Request, res: Response) => {
+  try {
+    const { note } = noteSchema.parse(req.body);
+    const files = (req.files as Express.Multer.File[] | undefined) || [];
+    const dispute = await disputeService.addEvidence(parseInt(req.params.id), req.session.userId!, files, note);
+    res.json(await disputeService.toView(dispute));
+  } catch (error) {
+    handleDisputeError(res, error, 'Failed to upload evidence');
+  }
+});
+
+// Resolve a dispute
+disputesRouter.post('/:id/resolve', async (req: Request, res: Response) => {
+  try {
+    const { resolutionNote } = resolutionSchema.parse(req.body);
+    const dispute = await disputeService.resolve(parseInt(req.params.id), req.session.userId!, resolutionNote);
+    res.json(await disputeService.toView(dispute));
+  } catch (error) {
+    handleDisputeError(res, error, 'Failed to resolve dispute');
+  }
+});
+
+// Reject a dispute
+disputesRouter.post('/:id/reject', async (req: Request, res: Response) => {
+  try {
+    const { resolutionNote } = resolutionSchema.parse(req.body);
+    const dispute = await disputeService.reject(parseInt(req.params.id), req.session.userId!, resolutionNote);
+    res.json(await disputeService.toView(dispute));
+  } catch (error) {
+    handleDisputeError(res, error, 'Failed to reject dispute');
+  }
+});
+
+// Download an evidence file attached to a dispute
+disputesRouter.get('/:id/evidence/:fileName', async (req: Request, res: Response) => {
+  try {
+    const dispute = await storage.getDispute(parseInt(req.params.id));
+    if (!dispute) {
+      return res.status(404).json({ message: 'Dispute not found' });
+    }
+
+    if (!(await disputeService.canView(dispute, req.session.userId!))) {
+      return res.status(403).json({ message: 'Not authorized to view this dispute' });
+    }
+
+    const evidence = (Array.isArray(dispute.evidence) ? dispute.evidence : []) as DisputeEvidence[];
+    const item = evidence.find(e => e.fileName === req.params.fileName);
+    const filePath = item ? FileUploadService.getAttachmentPath(item.fileName) : null;
+    if (!item || !filePath || !fs.existsSync(filePath)) {
+      return res.status(404).json({ message: 'Evidence file not found' });
+    }
+
+    res.setHeader('Content-Type', item.fileType);
+    res.setHeader('Content-Disposition', `inline; filename="${item.originalName}"`);
+    res.sendFile(filePath);
+  } catch (error) {
+    console.error('Error fetching evidence file:', error);
+    res.status(500).json({ message: 'Failed to fetch evidence file' });
+  }
+});
+
+export default disputesRouter;
@@ -0,0 +1,75 @@
+import { Request, Response, Router } from 'express';
+import { z } from 'zod';
+import { requireAuth } from '../middleware/auth';
+import { endorsementService } from '../services/EndorsementService';
+
+const endorsementsRouter = Router();
+
+// Validation schemas
+const respondSchema = z.object({
+  note: z.string().max(1000).optional()
+});
+
+/**
+ * Map validation and service errors to HTTP responses
+ */
+function handleEndorsementError(res: Response, error: unknown, fallback: string) {
+  if (error instanceof z.ZodError) {
+    return res.status(400).json({ message: error.errors[0]?.message || 'Invalid request' });
+  }
+
+  const message = error instanceof Error ? error.message : fallback;
+  if (message.endsWith('not found')) {
+    return res.status(404).json({ message });
+  }
+  if (message.startsWith('Not authorized')) {
+    return res.status(403).json({ message });
+  }
+
+  console.error(`${fallback}:`, error);
+  res.status(400).json({ message });
+}
+
+endorsementsRouter.use(requireAuth);
+
+// Endorsements waiting for the current user to accept or reject
+endorsementsRouter.get('/incoming', async (req: Request, res: Response) => {
+  try {
+    res.json(await endorsementService.listIncoming(req.session.userId!));
+  } catch (error) {
+    handleEndorsementError(res, error, 'Failed to fetch endorsements');
+  }
+});
+
+// Endorsee accepts: the receipt moves to them and the endorsement joins the chain
+endorsementsRouter.post('/:id/accept', async (req: Request, res: Response) => {
+  try {
+    const { note } = respondSchema.parse(req.body);
+    const result = await endorsementService.respond(parseInt(req.params.id), req.session.userId!, true, note);
+    res.json(result);
+  } catch (error) {
+    handleEndorsementError(res, error, 'Failed to accept endorsement');
+  }
+});
+
+// Endorsee rejects: the receipt stays with the endorser
+endorsementsRouter.post('/:id/reject', async (req: Request, res: Response) => {
+  try {
+    const { note } = respondSchema.parse(req.body);
+    const result = await endorsementService.respond(parseInt(req.params.id), req.session.userId!, false, note);
+    res.json(result);
+  } catch (error) {
+    handleEndorsementError(res, error, 'Failed to reject endorsement');
+  }
+});
+
+// Endorser withdraws an endorsement that has not been accepted yet
+endorsementsRouter.post('/:id/cancel', async (req: Request, res: Response) => {
+  try {
+    res.json(await endorsementService.cancel(parseInt(req.params.id), req.session.userId!));
+  } catch (error) {
+    handleEndorsementError(res, error, 'Failed to cancel endorsement');
+  }
+});
+
+export default endorsementsRouter;
@@ -0,0 +1,86 @@
+import { Request, Response, Router } from 'express';
+import { z } from 'zod';
+import { storage } from '../storage';
+import { requireAuth, requirePermission } from '../middleware/auth';
+import { qualityGradingService } from '../services/QualityGradingService';
+import { commodityCategoryEnum, defaultGradeSpecifications, gradeSpecificationSchema } from '@shared/schema';
+
+const gradingRouter = Router();
+
+// Validation schemas
+const upsertSpecSchema = z.object({
+  category: z.enum(commodityCategoryEnum.enumValues),
+  specification: gradeSpecificationSchema
+});
+
+const evaluateSchema = z.object({
+  commodityName: z.string().min(1),
+  commodityType: z.string().min(1),
+  parameters: z.record(z.coerce.number())
+});
+
+gradingRouter.use(requireAuth);
+
+// Configured commodity specifications and the category defaults
+gradingRouter.get('/specs', async (req: Request, res: Response) => {
+  try {
+    const commodities = await storage.listCommodityCategories();
+    res.json({ commodities, defaults: defaultGradeSpecifications });
+  } catch (error) {
+    console.error('Error fetching grade specifications:', error);
+    res.status(500).json({ message: 'Failed to fetch grade specifications' });
+  }
+});
+
+// Specification that applies to a commodity
+gradingRouter.get('/specs/resolve', async (req: Request, res: Response) => {
+  try {
+    const commodityName = String(req.query.commodityName || '');
+    const commodityType = String(req.query.commodityType || '');
+    if (!commodityName || !commodityType) {
+      return res.status(400).json({ message: 'commodityName and commodityType are required' });
+    }
+
+    res.json(await qualityGradingService.resolveSpec(commodityName, commodityType));
+  } catch (error) {
+    console.error('Error resolving grade specification:', error);
+    res.status(500).json({ message: 'Failed to resolve grade specification' });
+  }
+});
+
+// Create or replace the specification for a commodity
+gradingRouter.put('/specs/:commodityName', requirePermission('grading:manage'), async (req: Request, res: Response) => {
+  try {
+    const { category, specification } = upsertSpecSchema.parse(req.body);
+    const name = req.params.commodityName.trim();
+
+    const existing = await storage.getCommodityCategoryByName(name);
+    const saved = existing
+      ? await storage.updateCommodityCategory(existing.id, { category, qualityParameters: specification })
+      : await storage.createCommodityCategory({ name, category, qualityParameters: specification });
+
+    res.status(existing ? 200 : 201).json(saved);
+  } catch (error) {
+    if (error instanceof z.ZodError) {
+      return res.status(400).json({ message: error.errors[0]?.message || 'Invalid specification' });
+    }
+    console.error('Error saving grade specification:', error);
+    res.status(500).json({ message: 'Failed to save grade specification' });
+  }
+});
+
+// Grade measured parameters without recording anything
+gradingRouter.post('/evaluate', async (req: Request, res: Response) => {
+  try {
+    const { commodityName, commodityType, parameters } = evaluateSchema.parse(req.body);
+    res.json(await qualityGradingService.evaluate(commodityName, commodityType, parameters));
+  } catch (error) {
+    if (error instanceof z.ZodError) {
+      return res.status(400).json({ message: error.errors[0]?.message || 'Invalid request' });
+    }
+    console.error('Error evaluating grade:', error);
+    res.status(500).json({ message: 'Failed to evaluate grade' });
+  }
+});
+
+export default gradingRouter;
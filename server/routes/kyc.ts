@@ -0,0 +1,154 @@
+import { Request, Response, Router } from 'express';
+import fs from 'fs';
+import multer from 'multer';
+import { z } from 'zod';
+import { storage } from '../storage';
+import { requireAuth, requirePermission, hasPermission } from '../middleware/auth';
+import { kycService, type KycUpload } from '../services/KycService';
+
+const kycRouter = Router();
+
+// Identity documents are kept in memory and persisted by FileUploadService
+const documentUpload = multer({
+  storage: multer.memoryStorage(),
+  limits: { fileSize: 5 * 1024 * 1024, files: 3 }
+}).fields([
+  { name: 'aadhaar', maxCount: 1 },
+  { name: 'pan', maxCount: 1 },
+  { name: 'gst_certificate', maxCount: 1 }
+]);
+
+// Validation schemas
+const submitSchema = z.object({
+  level: z.enum(['basic', 'full']).default('basic'),
+  aadhaarNumber: z.string().trim().min(1, 'Aadhaar number is required'),
+  panNumber: z.string().trim().min(1, 'PAN is required'),
+  gstNumber: z.string().trim().optional()
+});
+
+const approveSchema = z.object({
+  note: z.string().trim().optional()
+});
+
+const rejectSchema = z.object({
+  reason: z.string().trim().min(1, 'A rejection reason is required'),
+  note: z.string().trim().optional()
+});
+
+/**
+ * Map validation and service errors to HTTP responses
+ */
+function handleKycError(res: Response, error: unknown, fallback: string) {
+  if (error instanceof z.ZodError) {
+    return res.status(400).json({ message: error.errors[0]?.message || 'Invalid request' });
+  }
+
+  const message = error instanceof Error ? error.message : fallback;
+  if (message.endsWith('not found')) {
+    return res.status(404).json({ message });
+  }
+  if (message.startsWith('Not authorized')) {
+    return res.status(403).json({ message });
+  }
+
+  console.error(`${fallback}:`, error);
+  res.status(400).json({ message });
+}
+
+async function canReview(userId: number) {
+  const user = await storage.getUser(userId);
+  return !!user && hasPermission(user.role, 'kyc:review');
+}
+
+kycRouter.use(requireAuth);
+
+// The caller's KYC tier, limits and usage
+kycRouter.get('/status', async (req: Request, res: Response) => {
+  try {
+    res.json(await kycService.getStatus(req.session.userId!));
+  } catch (error) {
+    handleKycError(res, error, 'Failed to fetch KYC status');
+  }
+});
+
+// Submit identity numbers and documents (multipart: aadhaar, pan, gst_certificate)
+kycRouter.post('/submissions', documentUpload, async (req: Request, res: Response) => {
+  try {
+    const input = submitSchema.parse(req.body);
+    const files = (req.files ?? {}) as Record<string, Express.Multer.File[]>;
+    const uploads: KycUpload[] = (['aadhaar', 'pan', 'gst_certificate'] as const)
+      .filter(type => files[type]?.[0])
+      .map(type => ({ type, file: files[type][0] }));
+
+    res.status(201).json(await kycService.submit(req.session.userId!, input, uploads));
+  } catch (error) {
+    handleKycError(res, error, 'Failed to submit KYC');
+  }
+});
+
+// The caller's submissions, newest first
+kycRouter.get('/submissions', async (req: Request, res: Response) => {
+  try {
+    res.json(await kycService.listSubmissions(req.session.userId!));
+  } catch (error) {
+    handleKycError(res, error, 'Failed to fetch KYC submissions');
+  }
+});
+
+// Reviewer queue: pending submissions, oldest first
+kycRouter.get('/queue', requirePermission('kyc:review'), async (req: Request, res: Response) => {
+  try {
+    res.json(await kycService.listQueue());
+  } catch (error) {
+    handleKycError(res, error, 'Failed to fetch KYC queue');
+  }
+});
+
+// A submission, for its owner or a reviewer
+kycRouter.get('/submissions/:id', async (req: Request, res: Response) => {
+  try {
+    const userId = req.session.userId!;
+    res.json(await kycService.getSubmission(parseInt(req.params.id), userId, await canReview(userId)));
+  } catch (error) {
+    handleKycError(res, error, 'Failed to fetch KYC submission');
+  }
+});
+
+// Download a document of a submission, for its owner or a reviewer
+kycRouter.get('/submissions/:id/documents/:fileName', async (req: Request, res: Response) => {
+  try {
+    const userId = req.session.userId!;
+    const document = await kycService.getDocumentPath(parseInt(req.params.id), req.params.fileName, userId, await canReview(userId));
+    if (!fs.existsSync(document.path)) {
+      return res.status(404).json({ message: 'KYC document not found' });
+    }
+
+    res.setHeader('Content-Type', document.fileType);
+    res.setHeader('Content-Disposition', `inline; filename="${document.originalName}"`);
+    res.sendFile(document.path);
+  } catch (error) {
+    handleKycError(res, error, 'Failed to fetch KYC document');
+  }
+});
+
+// Approve a pending submission
+kycRouter.post('/submissions/:id/approve', requirePermission('kyc:review'), async (req: Request, res: Response) => {
+  try {
+    const { note } = approveSchema.parse(req.body);
+    res.json(await kycService.approve(parseInt(req.params.id), req.session.userId!, note));
+  } catch (error) {
+    handleKycError(res, error, 'Failed to approve KYC submission');
+  }
+});
+
+// Reject a pending submission with a reason
+kycRouter.post('/submissions/:id/reject', requirePermission('kyc:review'), async (req: Request, res: Response) => {
+  try {
+    const { reason, note } = rejectSchema.parse(req.body);
+    res.json(await kycService.reject(parseInt(req.params.id), req.session.userId!, reason, note));
+  } catch (error) {
+    handleKycError(res, error, 'Failed to reject KYC submission');
+  }
+});
+
+export default kycRouter;
@@ -0,0 +1,81 @@
+import { Request, Response, Router } from 'express';
+import { z } from 'zod';
+import { requireAuth, requirePermission, hasPermission } from '../middleware/auth';
+import { storage } from '../storage';
+import { ledgerService } from '../services/LedgerService';
+
+const ledgerRouter = Router();
+
+// Validation schemas
+const periodSchema = z.object({
+  from: z.coerce.date().optional(),
+  to: z.coerce.date().optional()
+});
+
+const asOfSchema = z.object({
+  asOf: z.coerce.date().optional()
+});
+
+/**
+ * Map validation and service errors to HTTP responses
+ */
+function handleLedgerError(res: Response, error: unknown, fallback: string) {
+  if (error instanceof z.ZodError) {
+    return res.status(400).json({ message: error.errors[0]?.message || 'Invalid request' });
+  }
+
+  const message = error instanceof Error ? error.message : fallback;
+  if (message.endsWith('not found')) {
+    return res.status(404).json({ message });
+  }
+  if (message.startsWith('Not authorized')) {
+    return res.status(403).json({ message });
+  }
+
+  console.error(`${fallback}:`, error);
+  res.status(500).json({ message });
+}
+
+async function canViewAll(userId: number) {
+  const user = await storage.getUser(userId);
+  return !!user && hasPermission(user.role, 'ledger:view');
+}
+
+ledgerRouter.use(requireAuth);
+
+// Debit and credit totals of every account; the books balance when they match
+ledgerRouter.get('/trial-balance', requirePermission('ledger:view'), async (req: Request, res: Response) => {
+  try {
+    const { asOf } = asOfSchema.parse(req.query);
+    res.json(await ledgerService.trialBalance(asOf));
+  } catch (error) {
+    handleLedgerError(res, error, 'Failed to build trial balance');
+  }
+});
+
+// The caller's own accounts; finance users see the whole chart of accounts
+ledgerRouter.get('/accounts', async (req: Request, res: Response) => {
+  try {
+    const userId = req.session.userId!;
+    res.json(await ledgerService.listAccounts(await canViewAll(userId) ? undefined : userId));
+  } catch (error) {
+    handleLedgerError(res, error, 'Failed to fetch ledger accounts');
+  }
+});
+
+// Postings to an account over a period, with opening, running and closing balances
+ledgerRouter.get('/accounts/:code/statement', async (req: Request, res: Response) => {
+  try {
+    const userId = req.session.userId!;
+    const { from, to } = periodSchema.parse(req.query);
+    res.json(await ledgerService.statement(req.params.code, userId, {
+      from,
+      to,
+      allViewable: await canViewAll(userId)
+    }));
+  } catch (error) {
+    handleLedgerError(res, error, 'Failed to build account statement');
+  }
+});
+
+export default ledgerRouter;
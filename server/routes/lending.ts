@@ -0,0 +1,200 @@
+import { Request, Response, Router } from 'express';
+import { z } from 'zod';
+import { requireAuth, requirePermission } from '../middleware/auth';
+import { lendingMiddleware } from '../services/LendingMiddleware';
+import { loanMarketplaceService } from '../services/LoanMarketplaceService';
+import { CreditRating } from '@shared/schema';
+
+const lendingRouter = Router();
+
+// Validation schemas
+const offersSchema = z.object({
+  receiptIds: z.array(z.coerce.number().int().positive()).min(1, 'Select at least one receipt'),
+  requestedAmount: z.coerce.number().positive().optional(),
+  tenureDays: z.coerce.number().int().positive().optional()
+});
+
+const applicationSchema = z.object({
+  partnerId: z.coerce.number().int().positive(),
+  offerId: z.string().optional(),
+  receiptIds: z.array(z.coerce.number().int().positive()).min(1, 'Select at least one receipt'),
+  amount: z.coerce.number().positive('Amount must be positive'),
+  tenureDays: z.coerce.number().int().positive('Tenure must be positive'),
+  purpose: z.string().trim().min(1, 'Purpose is required')
+});
+
+const pledgeSchema = z.object({
+  receiptIds: z.array(z.coerce.number().int().positive()).min(1, 'Select at least one receipt'),
+  requestedAmount: z.coerce.number().positive('Amount must be positive'),
+  tenureDays: z.coerce.number().int().positive('Tenure must be positive'),
+  purpose: z.string().trim().min(1).default('Working capital')
+});
+
+const partnerSchema = z.object({
+  apiEndpoint: z.string().url().nullable().optional(),
+  apiKey: z.string().nullable().optional(),
+  apiSecretKey: z.string().nullable().optional(),
+  creditRatingCriteria: z.array(z.nativeEnum(CreditRating)).optional(),
+  processingFeePercent: z.coerce.number().min(0).max(10).transform(String).optional(),
+  loanToValueRatio: z.coerce.number().positive().max(100).transform(String).optional(),
+  active: z.boolean().optional()
+});
+
+/**
+ * Map validation and service errors to HTTP responses
+ */
+function handleLendingError(res: Response, error: unknown, fallback: string) {
+  if (error instanceof z.ZodError) {
+    return res.status(400).json({ message: error.errors[0]?.message || 'Invalid request' });
+  }
+
+  const message = error instanceof Error ? error.message : fallback;
+  if (message.endsWith('not found')) {
+    return res.status(404).json({ message });
+  }
+  if (message.startsWith('Not authorized')) {
+    return res.status(403).json({ message });
+  }
+  // KYC tier limits
+  if (message.startsWith('KYC')) {
+    return res.status(403).json({ message });
+  }
+
+  console.error(`${fallback}:`, error);
+  res.status(400).json({ message });
+}
+
+// Partner webhooks authenticate with their signature rather than a session
+lendingRouter.post('/webhooks/:partnerId', async (req: Request, res: Response) => {
+  try {
+    res.json(await lendingMiddleware.handleWebhook(parseInt(req.params.partnerId), req.headers, req.rawBody, req.body));
+  } catch (error) {
+    const message = error instanceof Error ? error.message : 'Invalid webhook';
+    res.status(message.startsWith('Not authorized') ? 401 : 400).json({ message });
+  }
+});
+
+lendingRouter.use(requireAuth);
+
+// Active lending partners and their published terms
+lendingRouter.get('/partners', async (req: Request, res: Response) => {
+  try {
+    res.json(await lendingMiddleware.listPartners());
+  } catch (error) {
+    handleLendingError(res, error, 'Failed to fetch lending partners');
+  }
+});
+
+// Connect a partner's API, set its lending terms, rotate its credentials or suspend it
+lendingRouter.patch('/partners/:id', requirePermission('loan:manage'), async (req: Request, res: Response) => {
+  try {
+    const input = partnerSchema.parse(req.body);
+    res.json(await lendingMiddleware.updatePartner(parseInt(req.params.id), input));
+  } catch (error) {
+    handleLendingError(res, error, 'Failed to update lending partner');
+  }
+});
+
+// Offers from every active partner against the caller's receipts
+lendingRouter.post('/offers', async (req: Request, res: Response) => {
+  try {
+    const { receiptIds, ...options } = offersSchema.parse(req.body);
+    res.json(await lendingMiddleware.getOffers(req.session.userId!, receiptIds, options));
+  } catch (error) {
+    handleLendingError(res, error, 'Failed to fetch loan offers');
+  }
+});
+
+// Pledge receipts once and collect competing offers from every matching partner
+lendingRouter.post('/pledges', async (req: Request, res: Response) => {
+  try {
+    const input = pledgeSchema.parse(req.body);
+    res.status(201).json(await loanMarketplaceService.createPledgeRequest(req.session.userId!, input));
+  } catch (error) {
+    handleLendingError(res, error, 'Failed to create pledge request');
+  }
+});
+
+lendingRouter.get('/pledges', async (req: Request, res: Response) => {
+  try {
+    res.json(await loanMarketplaceService.listPledgeRequests(req.session.userId!));
+  } catch (error) {
+    handleLendingError(res, error, 'Failed to fetch pledge requests');
+  }
+});
+
+// A pledge request with its offers, cheapest APR first
+lendingRouter.get('/pledges/:id', async (req: Request, res: Response) => {
+  try {
+    res.json(await loanMarketplaceService.getPledgeRequest(parseInt(req.params.id), req.session.userId!));
+  } catch (error) {
+    handleLendingError(res, error, 'Failed to fetch pledge request');
+  }
+});
+
+// Accept one offer; the others are declined
+lendingRouter.post('/pledges/:id/offers/:offerId/accept', async (req: Request, res: Response) => {
+  try {
+    res.json(await loanMarketplaceService.acceptOffer(
+      parseInt(req.params.id),
+      parseInt(req.params.offerId),
+      req.session.userId!
+    ));
+  } catch (error) {
+    handleLendingError(res, error, 'Failed to accept offer');
+  }
+});
+
+lendingRouter.post('/pledges/:id/cancel', async (req: Request, res: Response) => {
+  try {
+    res.json(await loanMarketplaceService.cancelPledgeRequest(parseInt(req.params.id), req.session.userId!));
+  } catch (error) {
+    handleLendingError(res, error, 'Failed to cancel pledge request');
+  }
+});
+
+// Apply to a partner, usually against one of its offers
+lendingRouter.post('/applications', async (req: Request, res: Response) => {
+  try {
+    const input = applicationSchema.parse(req.body);
+    res.status(201).json(await lendingMiddleware.submitLoanApplication(req.session.userId!, input));
+  } catch (error) {
+    handleLendingError(res, error, 'Failed to submit loan application');
+  }
+});
+
+lendingRouter.get('/applications', async (req: Request, res: Response) => {
+  try {
+    res.json(await lendingMiddleware.listApplications(req.session.userId!));
+  } catch (error) {
+    handleLendingError(res, error, 'Failed to fetch loan applications');
+  }
+});
+
+lendingRouter.get('/applications/:id', async (req: Request, res: Response) => {
+  try {
+    res.json(await lendingMiddleware.getApplication(parseInt(req.params.id), req.session.userId!));
+  } catch (error) {
+    handleLendingError(res, error, 'Failed to fetch loan application');
+  }
+});
+
+// Ask the partner for its latest decision
+lendingRouter.post('/applications/:id/refresh', async (req: Request, res: Response) => {
+  try {
+    res.json(await lendingMiddleware.checkApplicationStatus(parseInt(req.params.id), req.session.userId!));
+  } catch (error) {
+    handleLendingError(res, error, 'Failed to refresh loan application');
+  }
+});
+
+// Draw down an approved application
+lendingRouter.post('/applications/:id/disburse', async (req: Request, res: Response) => {
+  try {
+    res.status(201).json(await lendingMiddleware.disburseLoan(parseInt(req.params.id), req.session.userId!));
+  } catch (error) {
+    handleLendingError(res, error, 'Failed to disburse loan');
+  }
+});
+
+export default lendingRouter;
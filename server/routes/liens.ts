@@ -0,0 +1,109 @@
+import { Request, Response, Router } from 'express';
+import { z } from 'zod';
+import { requireAuth, requirePermission } from '../middleware/auth';
+import { lienService } from '../services/LienService';
+
+const liensRouter = Router();
+
+// Validation schemas
+const requestReleaseSchema = z.object({
+  reason: z.string().trim().min(1, 'A reason for the release is required')
+});
+
+const approveReleaseSchema = z.object({
+  note: z.string().trim().optional()
+});
+
+const rejectReleaseSchema = z.object({
+  note: z.string().trim().min(1, 'A note explaining the rejection is required')
+});
+
+/**
+ * Map validation and service errors to HTTP responses
+ */
+function handleLienError(res: Response, error: unknown, fallback: string) {
+  if (error instanceof z.ZodError) {
+    return res.status(400).json({ message: error.errors[0]?.message || 'Invalid request' });
+  }
+
+  const message = error instanceof Error ? error.message : fallback;
+  if (message.endsWith('not found')) {
+    return res.status(404).json({ message });
+  }
+  if (message.startsWith('Not authorized')) {
+    return res.status(403).json({ message });
+  }
+
+  console.error(`${fallback}:`, error);
+  res.status(400).json({ message });
+}
+
+liensRouter.use(requireAuth);
+
+// Releases awaiting the caller's sign-off
+liensRouter.get('/pending-releases', async (req: Request, res: Response) => {
+  try {
+    res.json(await lienService.listPendingReleases(req.session.userId!));
+  } catch (error) {
+    handleLienError(res, error, 'Failed to fetch pending releases');
+  }
+});
+
+// Liens on a receipt, first charge first
+liensRouter.get('/receipts/:receiptId', async (req: Request, res: Response) => {
+  try {
+    res.json(await lienService.listByReceipt(parseInt(req.params.receiptId), req.session.userId!));
+  } catch (error) {
+    handleLienError(res, error, 'Failed to fetch liens');
+  }
+});
+
+// Liens securing a loan
+liensRouter.get('/loans/:loanId', requirePermission('loan:manage'), async (req: Request, res: Response) => {
+  try {
+    res.json(await lienService.listByLoan(parseInt(req.params.loanId)));
+  } catch (error) {
+    handleLienError(res, error, 'Failed to fetch liens');
+  }
+});
+
+// A lien with its event history
+liensRouter.get('/:id', async (req: Request, res: Response) => {
+  try {
+    res.json(await lienService.get(parseInt(req.params.id), req.session.userId!));
+  } catch (error) {
+    handleLienError(res, error, 'Failed to fetch lien');
+  }
+});
+
+// Ask for a lien to be released
+liensRouter.post('/:id/release', async (req: Request, res: Response) => {
+  try {
+    const { reason } = requestReleaseSchema.parse(req.body);
+    res.json(await lienService.requestRelease(parseInt(req.params.id), req.session.userId!, reason));
+  } catch (error) {
+    handleLienError(res, error, 'Failed to request lien release');
+  }
+});
+
+// Sign off a requested release
+liensRouter.post('/:id/release/approve', async (req: Request, res: Response) => {
+  try {
+    const { note } = approveReleaseSchema.parse(req.body);
+    res.json(await lienService.approveRelease(parseInt(req.params.id), req.session.userId!, note));
+  } catch (error) {
+    handleLienError(res, error, 'Failed to approve lien release');
+  }
+});
+
+// Refuse a requested release
+liensRouter.post('/:id/release/reject', async (req: Request, res: Response) => {
+  try {
+    const { note } = rejectReleaseSchema.parse(req.body);
+    res.json(await lienService.rejectRelease(parseInt(req.params.id), req.session.userId!, note));
+  } catch (error) {
+    handleLienError(res, error, 'Failed to reject lien release');
+  }
+});
+
+export default liensRouter;
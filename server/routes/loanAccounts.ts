@@ -0,0 +1,108 @@
+import { Request, Response, Router } from 'express';
+import { z } from 'zod';
+import { requireAuth, hasPermission } from '../middleware/auth';
+import { storage } from '../storage';
+import { loanAccountingService } from '../services/LoanAccountingService';
+import { paymentService, PaymentMethod } from '../services/PaymentService';
+
+const loanAccountsRouter = Router();
+
+// Validation schemas
+const repaySchema = z.object({
+  amount: z.coerce.number().positive('Payment amount must be positive'),
+  paymentMethod: z.nativeEnum(PaymentMethod).default(PaymentMethod.UPI),
+  prepaymentMode: z.enum(['reduce_emi', 'reduce_tenure']).optional()
+});
+
+/**
+ * Map validation and service errors to HTTP responses
+ */
+function handleLoanAccountError(res: Response, error: unknown, fallback: string) {
+  if (error instanceof z.ZodError) {
+    return res.status(400).json({ message: error.errors[0]?.message || 'Invalid request' });
+  }
+
+  const message = error instanceof Error ? error.message : fallback;
+  if (message.endsWith('not found')) {
+    return res.status(404).json({ message });
+  }
+  if (message.startsWith('Not authorized')) {
+    return res.status(403).json({ message });
+  }
+
+  console.error(`${fallback}:`, error);
+  res.status(400).json({ message });
+}
+
+/**
+ * Borrowers see their own loans; lender-side users see any
+ */
+async function assertCanView(userId: number, loanId: number) {
+  const loan = await storage.getLoan(loanId);
+  if (!loan) {
+    throw new Error('Loan not found');
+  }
+  if (loan.userId === userId) return loan;
+
+  const user = await storage.getUser(userId);
+  if (!user || !hasPermission(user.role, 'loan:manage')) {
+    throw new Error('Not authorized to view this loan');
+  }
+  return loan;
+}
+
+// Instalments, balances and repayments of a loan
+loanAccountsRouter.get('/:id/schedule', requireAuth, async (req: Request, res: Response) => {
+  try {
+    const loan = await assertCanView(req.session.userId!, parseInt(req.params.id));
+    res.json(await loanAccountingService.getSchedule(loan.id));
+  } catch (error) {
+    handleLoanAccountError(res, error, 'Failed to fetch repayment schedule');
+  }
+});
+
+// Amount that closes the loan today
+loanAccountsRouter.get('/:id/payoff', requireAuth, async (req: Request, res: Response) => {
+  try {
+    const loan = await assertCanView(req.session.userId!, parseInt(req.params.id));
+    res.json(await loanAccountingService.payoffQuote(loan.id));
+  } catch (error) {
+    handleLoanAccountError(res, error, 'Failed to fetch payoff amount');
+  }
+});
+
+// Repay an instalment, prepay part of the loan or pay it off
+loanAccountsRouter.post('/:id/repay', requireAuth, async (req: Request, res: Response) => {
+  try {
+    const { amount, paymentMethod, prepaymentMode } = repaySchema.parse(req.body);
+    const loan = await storage.getLoan(parseInt(req.params.id));
+    if (!loan) {
+      return res.status(404).json({ message: 'Loan not found' });
+    }
+    if (loan.userId !== req.session.userId) {
+      return res.status(403).json({ message: 'Not authorized to repay this loan' });
+    }
+
+    const result = await paymentService.processLoanRepayment(
+      req.session.userId!,
+      loan.id,
+      amount.toFixed(2),
+      paymentMethod,
+      prepaymentMode
+    );
+
+    res.json({
+      success: result.success,
+      loanId: loan.id,
+      payment: result.payment,
+      repayment: result.repayment,
+      loan: result.loan,
+      prepayment: result.prepayment,
+      message: 'Loan repayment processed successfully'
+    });
+  } catch (error) {
+    handleLoanAccountError(res, error, 'Failed to process loan repayment');
+  }
+});
+
+export default loanAccountsRouter;
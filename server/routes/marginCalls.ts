@@ -0,0 +1,94 @@
+import { Request, Response, Router } from 'express';
+import { z } from 'zod';
+import { requireAuth, requirePermission } from '../middleware/auth';
+import { marginCallService } from '../services/MarginCallService';
+
+const marginCallsRouter = Router();
+
+// Validation schemas
+const topUpSchema = z.object({
+  receiptIds: z.array(z.coerce.number().int().positive()).min(1, 'Select at least one receipt')
+});
+
+const repaySchema = z.object({
+  amount: z.coerce.number().positive('Repayment amount must be positive')
+});
+
+/**
+ * Map validation and service errors to HTTP responses
+ */
+function handleMarginCallError(res: Response, error: unknown, fallback: string) {
+  if (error instanceof z.ZodError) {
+    return res.status(400).json({ message: error.errors[0]?.message || 'Invalid request' });
+  }
+
+  const message = error instanceof Error ? error.message : fallback;
+  if (message.endsWith('not found')) {
+    return res.status(404).json({ message });
+  }
+  if (message.startsWith('Not authorized')) {
+    return res.status(403).json({ message });
+  }
+
+  console.error(`${fallback}:`, error);
+  res.status(400).json({ message });
+}
+
+marginCallsRouter.use(requireAuth);
+
+// Margin calls on the current user's loans
+marginCallsRouter.get('/', async (req: Request, res: Response) => {
+  try {
+    res.json(await marginCallService.listForUser(req.session.userId!));
+  } catch (error) {
+    handleMarginCallError(res, error, 'Failed to fetch margin calls');
+  }
+});
+
+// Open margin calls across all borrowers, for lenders
+marginCallsRouter.get('/open', requirePermission('loan:manage'), async (req: Request, res: Response) => {
+  try {
+    res.json(await marginCallService.listOpen());
+  } catch (error) {
+    handleMarginCallError(res, error, 'Failed to fetch open margin calls');
+  }
+});
+
+// Default loans whose margin calls are past their deadline now
+marginCallsRouter.post('/escalate', requirePermission('admin:system'), async (req: Request, res: Response) => {
+  try {
+    res.json(await marginCallService.escalateOverdue());
+  } catch (error) {
+    handleMarginCallError(res, error, 'Failed to escalate margin calls');
+  }
+});
+
+marginCallsRouter.get('/:id', async (req: Request, res: Response) => {
+  try {
+    res.json(await marginCallService.getForUser(parseInt(req.params.id), req.session.userId!));
+  } catch (error) {
+    handleMarginCallError(res, error, 'Failed to fetch margin call');
+  }
+});
+
+// Cure by pledging more receipts
+marginCallsRouter.post('/:id/top-up', async (req: Request, res: Response) => {
+  try {
+    const { receiptIds } = topUpSchema.parse(req.body);
+    res.json(await marginCallService.topUp(parseInt(req.params.id), req.session.userId!, receiptIds));
+  } catch (error) {
+    handleMarginCallError(res, error, 'Failed to top up collateral');
+  }
+});
+
+// Cure by partial repayment
+marginCallsRouter.post('/:id/repay', async (req: Request, res: Response) => {
+  try {
+    const { amount } = repaySchema.parse(req.body);
+    res.json(await marginCallService.repay(parseInt(req.params.id), req.session.userId!, amount));
+  } catch (error) {
+    handleMarginCallError(res, error, 'Failed to record repayment');
+  }
+});
+
+export default marginCallsRouter;
@@ -0,0 +1,166 @@
+import { Request, Response, NextFunction, Router } from 'express';
+import { z } from 'zod';
+import { storage } from '../storage';
+import { requirePermission, canOperateProcess } from '../middleware/auth';
+import { warehouseOperatorService } from '../services/WarehouseOperatorService';
+import type { Process } from '@shared/schema';
+
+const operatorRouter = Router();
+
+// Validation schemas
+const gateInSchema = z.object({
+  vehicleNumber: z.string().min(4),
+  driverName: z.string().optional(),
+  bagCount: z.coerce.number().int().positive().optional(),
+  notes: z.string().optional()
+});
+
+const weighbridgeSchema = z.object({
+  grossWeight: z.coerce.number().positive(),
+  tareWeight: z.coerce.number().nonnegative(),
+  weighbridgeSlip: z.string().optional()
+});
+
+const moistureSchema = z.object({
+  moisturePercent: z.coerce.number().min(0).max(100),
+  method: z.string().optional()
+});
+
+const samplingSchema = z.object({
+  sampleId: z.string().min(1),
+  parameters: z.record(z.coerce.number()),
+  notes: z.string().optional()
+});
+
+const rejectSchema = z.object({
+  reason: z.string().min(5)
+});
+
+operatorRouter.use(requirePermission('warehouse:operate'));
+
+/**
+ * Load the process from :processId and check the operator owns its warehouse
+ */
+async function loadOperatedProcess(req: Request, res: Response, next: NextFunction) {
+  try {
+    const process = await storage.getProcess(parseInt(req.params.processId));
+    if (!process) {
+      return res.status(404).json({ message: 'Process not found' });
+    }
+
+    if (!(await canOperateProcess(req.currentUser!, process))) {
+      return res.status(403).json({ message: 'Process is not at a warehouse you operate' });
+    }
+
+    res.locals.process = process;
+    next();
+  } catch (error) {
+    next(error);
+  }
+}
+
+/**
+ * Map validation and service errors to HTTP responses
+ */
+function handleOperatorError(res: Response, error: unknown, fallback: string) {
+  if (error instanceof z.ZodError) {
+    return res.status(400).json({ message: error.errors[0]?.message || 'Invalid request' });
+  }
+
+  console.error(`${fallback}:`, error);
+  res.status(400).json({ message: error instanceof Error ? error.message : fallback });
+}
+
+// Inbound deposit queue for the operator's warehouses
+operatorRouter.get('/queue', async (req: Request, res: Response) => {
+  try {
+    const queue = await warehouseOperatorService.getInboundQueue(req.currentUser!);
+    res.json(queue);
+  } catch (error) {
+    console.error('Error fetching inbound queue:', error);
+    res.status(500).json({ message: 'Failed to fetch inbound queue' });
+  }
+});
+
+// Single process with inspection record
+operatorRouter.get('/processes/:processId', loadOperatedProcess, async (req: Request, res: Response) => {
+  const process = res.locals.process as Process;
+  res.json({ ...process, inspection: warehouseOperatorService.getInspection(process) });
+});
+
+// Record gate-in
+operatorRouter.post('/processes/:processId/gate-in', loadOperatedProcess, async (req: Request, res: Response) => {
+  try {
+    const data = gateInSchema.parse(req.body);
+    const process = await warehouseOperatorService.recordGateIn(res.locals.process, req.currentUser!.id, data);
+    res.json(process);
+  } catch (error) {
+    handleOperatorError(res, error, 'Failed to record gate-in');
+  }
+});
+
+// Record weighbridge weight
+operatorRouter.post('/processes/:processId/weighbridge', loadOperatedProcess, async (req: Request, res: Response) => {
+  try {
+    const data = weighbridgeSchema.parse(req.body);
+    const process = await warehouseOperatorService.recordWeighbridge(res.locals.process, req.currentUser!.id, data);
+    res.json(process);
+  } catch (error) {
+    handleOperatorError(res, error, 'Failed to record weighbridge weight');
+  }
+});
+
+// Record moisture content
+operatorRouter.post('/processes/:processId/moisture', loadOperatedProcess, async (req: Request, res: Response) => {
+  try {
+    const data = moistureSchema.parse(req.body);
+    const process = await warehouseOperatorService.recordMoisture(res.locals.process, req.currentUser!.id, data);
+    res.json(process);
+  } catch (error) {
+    handleOperatorError(res, error, 'Failed to record moisture');
+  }
+});
+
+// Record sampling results
+operatorRouter.post('/processes/:processId/sampling', loadOperatedProcess, async (req: Request, res: Response) => {
+  try {
+    const data = samplingSchema.parse(req.body);
+    const process = await warehouseOperatorService.recordSampling(res.locals.process, req.currentUser!.id, data);
+    res.json(process);
+  } catch (error) {
+    handleOperatorError(res, error, 'Failed to record sampling results');
+  }
+});
+
+// Preview the grade and deductions for the recorded inspection
+operatorRouter.get('/processes/:processId/grading', loadOperatedProcess, async (req: Request, res: Response) => {
+  try {
+    const grading = await warehouseOperatorService.previewGrading(res.locals.process);
+    res.json(grading);
+  } catch (error) {
+    handleOperatorError(res, error, 'Failed to grade lot');
+  }
+});
+
+// Approve the lot, grade it against its specification and issue the receipt
+operatorRouter.post('/processes/:processId/approve', loadOperatedProcess, async (req: Request, res: Response) => {
+  try {
+    const result = await warehouseOperatorService.approveLot(res.locals.process, req.currentUser!.id);
+    res.json(result);
+  } catch (error) {
+    handleOperatorError(res, error, 'Failed to approve lot');
+  }
+});
+
+// Reject the lot
+operatorRouter.post('/processes/:processId/reject', loadOperatedProcess, async (req: Request, res: Response) => {
+  try {
+    const { reason } = rejectSchema.parse(req.body);
+    const process = await warehouseOperatorService.rejectLot(res.locals.process, req.currentUser!.id, reason);
+    res.json(process);
+  } catch (error) {
+    handleOperatorError(res, error, 'Failed to reject lot');
+  }
+});
+
+export default operatorRouter;
@@ -0,0 +1,106 @@
+import { Request, Response, Router } from 'express';
+import { z } from 'zod';
+import { requireAuth, requirePermission } from '../middleware/auth';
+import { priceFeedService } from '../services/PriceFeedService';
+
+const pricingRouter = Router();
+
+// Validation schemas
+const fetchSchema = z.object({
+  commodityType: z.string().min(1),
+  commodityName: z.string().min(1).optional(),
+  quality: z.object({
+    score: z.coerce.number().optional(),
+    deductionPercent: z.coerce.number().min(0).max(100).optional()
+  }).passthrough(),
+  quantity: z.coerce.number().positive(),
+  unit: z.string().optional(),
+  warehouseId: z.coerce.number().int().positive().optional()
+});
+
+pricingRouter.use(requireAuth);
+
+// Price a lot for a deposit or loan estimate
+pricingRouter.post('/fetch', async (req: Request, res: Response) => {
+  try {
+    const { commodityType, commodityName, quality, quantity, unit, warehouseId } = fetchSchema.parse(req.body);
+    const name = commodityName || commodityType;
+    const location = await priceFeedService.warehouseLocation(warehouseId);
+
+    const valuation = await priceFeedService.valuate(name, quantity, unit || 'MT', {
+      location,
+      deductionPercent: quality.deductionPercent
+    });
+    const qualityAdjustedPrice = valuation.pricePerUnit * (1 - valuation.deductionPercent / 100);
+
+    res.json({
+      commodityType,
+      commodityName: name,
+      basePrice: valuation.pricePerUnit,
+      qualityAdjustedPrice: qualityAdjustedPrice.toFixed(2),
+      totalValuation: valuation.totalValue.toFixed(2),
+      marketTrend: await priceFeedService.getTrend(name, location),
+      timestamp: new Date().toISOString(),
+      perUnitPrice: qualityAdjustedPrice.toFixed(2),
+      unit: valuation.unit,
+      creditLimit: (valuation.totalValue * 0.8).toFixed(2), // 80% of valuation
+      priceSource: valuation.quote
+    });
+  } catch (error) {
+    if (error instanceof z.ZodError) {
+      return res.status(400).json({ error: error.errors[0]?.message || 'Invalid pricing request' });
+    }
+    console.error('Error fetching pricing data:', error);
+    res.status(500).json({ error: 'Failed to fetch pricing data' });
+  }
+});
+
+// Current price for a commodity, optionally at a market or warehouse
+pricingRouter.get('/quote', async (req: Request, res: Response) => {
+  try {
+    const commodityName = String(req.query.commodityName || '');
+    if (!commodityName) {
+      return res.status(400).json({ message: 'commodityName is required' });
+    }
+
+    const location = req.query.warehouseId
+      ? await priceFeedService.warehouseLocation(parseInt(String(req.query.warehouseId)))
+      : { market: req.query.market ? String(req.query.market) : undefined, state: req.query.state ? String(req.query.state) : undefined };
+
+    res.json(await priceFeedService.getQuote(commodityName, location));
+  } catch (error) {
+    console.error('Error fetching price quote:', error);
+    res.status(500).json({ message: 'Failed to fetch price quote' });
+  }
+});
+
+// Stored price history for a commodity
+pricingRouter.get('/history', async (req: Request, res: Response) => {
+  try {
+    const commodityName = String(req.query.commodityName || '');
+    if (!commodityName) {
+      return res.status(400).json({ message: 'commodityName is required' });
+    }
+
+    res.json(await priceFeedService.getHistory(commodityName, {
+      market: req.query.market ? String(req.query.market) : undefined,
+      days: req.query.days ? parseInt(String(req.query.days)) : undefined
+    }));
+  } catch (error) {
+    console.error('Error fetching price history:', error);
+    res.status(500).json({ message: 'Failed to fetch price history' });
+  }
+});
+
+// Pull the latest prices from every provider now
+pricingRouter.post('/refresh', requirePermission('admin:system'), async (req: Request, res: Response) => {
+  try {
+    const stored = await priceFeedService.refresh();
+    res.json({ stored, providers: priceFeedService.listProviders() });
+  } catch (error) {
+    console.error('Error refreshing price feed:', error);
+    res.status(502).json({ message: error instanceof Error ? error.message : 'Failed to refresh price feed' });
+  }
+});
+
+export default pricingRouter;
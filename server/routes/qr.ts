@@ -0,0 +1,50 @@
+import { Request, Response, Router } from 'express';
+import { storage } from '../storage';
+import { requireAuth } from '../middleware/auth';
+import { qrCodeService } from '../services/QrCodeService';
+
+const qrRouter = Router();
+
+/**
+ * Map service errors to HTTP responses
+ */
+function handleQrError(res: Response, error: unknown, fallback: string) {
+  const message = error instanceof Error ? error.message : fallback;
+  if (message.endsWith('not found')) {
+    return res.status(404).json({ message });
+  }
+  if (message.startsWith('Not authorized')) {
+    return res.status(403).json({ message });
+  }
+
+  console.error(`${fallback}:`, error);
+  res.status(400).json({ message });
+}
+
+// Public keys for checking signed QR codes offline - no auth required
+qrRouter.get('/keys', (req: Request, res: Response) => {
+  res.setHeader('Cache-Control', 'public, max-age=3600');
+  res.json({ algorithm: 'Ed25519', keys: qrCodeService.getPublicKeys() });
+});
+
+// Sign a new tag for a sack and store it on the sack
+qrRouter.post('/sacks/:id', requireAuth, async (req: Request, res: Response) => {
+  try {
+    const user = await storage.getUser(req.session.userId!);
+    res.status(201).json(await qrCodeService.issueSackTag(parseInt(req.params.id), user!));
+  } catch (error) {
+    handleQrError(res, error, 'Failed to issue sack tag');
+  }
+});
+
+// Signed QR code for a receipt's verification link
+qrRouter.get('/receipts/:id', requireAuth, async (req: Request, res: Response) => {
+  try {
+    const user = await storage.getUser(req.session.userId!);
+    res.json(await qrCodeService.issueReceiptCode(parseInt(req.params.id), user!));
+  } catch (error) {
+    handleQrError(res, error, 'Failed to issue receipt QR code');
+  }
+});
+
+export default qrRouter;
@@ -0,0 +1,79 @@
+import { Request, Response, Router } from 'express';
+import { z } from 'zod';
+import { storage } from '../storage';
+import { requireAuth } from '../middleware/auth';
+import { receiptLotService } from '../services/ReceiptLotService';
+
+// Mounted on /api/receipts ahead of the main router (including public verification), so auth is applied per route
+const receiptLotsRouter = Router();
+
+// Validation schemas
+const splitSchema = z.object({
+  quantities: z.array(z.coerce.number().positive()).min(2, 'A split needs at least two child quantities').max(50)
+});
+
+const mergeSchema = z.object({
+  receiptIds: z.array(z.coerce.number().int().positive()).min(2, 'At least two receipts are required to merge')
+});
+
+/**
+ * Map validation and service errors to HTTP responses
+ */
+function handleLotError(res: Response, error: unknown, fallback: string) {
+  if (error instanceof z.ZodError) {
+    return res.status(400).json({ message: error.errors[0]?.message || 'Invalid request' });
+  }
+
+  const message = error instanceof Error ? error.message : fallback;
+  if (message.endsWith('not found')) {
+    return res.status(404).json({ message });
+  }
+  if (message.startsWith('Not authorized')) {
+    return res.status(403).json({ message });
+  }
+
+  console.error(`${fallback}:`, error);
+  res.status(400).json({ message });
+}
+
+// Merge compatible receipts into one
+receiptLotsRouter.post('/merge', requireAuth, async (req: Request, res: Response) => {
+  try {
+    const { receiptIds } = mergeSchema.parse(req.body);
+    const result = await receiptLotService.merge(receiptIds, req.session.userId!);
+    res.status(201).json(result);
+  } catch (error) {
+    handleLotError(res, error, 'Failed to merge receipts');
+  }
+});
+
+// Split a receipt into child receipts
+receiptLotsRouter.post('/:id/split', requireAuth, async (req: Request, res: Response) => {
+  try {
+    const { quantities } = splitSchema.parse(req.body);
+    const result = await receiptLotService.split(parseInt(req.params.id), req.session.userId!, quantities);
+    res.status(201).json(result);
+  } catch (error) {
+    handleLotError(res, error, 'Failed to split receipt');
+  }
+});
+
+// Parent/child lineage and inherited transfer history of a receipt
+receiptLotsRouter.get('/:id/lineage', requireAuth, async (req: Request, res: Response) => {
+  try {
+    const receipt = await storage.getWarehouseReceipt(parseInt(req.params.id));
+    if (!receipt) {
+      return res.status(404).json({ message: 'Receipt not found' });
+    }
+
+    if (receipt.ownerId !== req.session.userId) {
+      return res.status(403).json({ message: 'Not authorized to view this receipt' });
+    }
+
+    res.json(await receiptLotService.getLineage(receipt.id));
+  } catch (error) {
+    handleLotError(res, error, 'Failed to fetch receipt lineage');
+  }
+});
+
+export default receiptLotsRouter;
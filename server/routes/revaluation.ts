@@ -0,0 +1,76 @@
+import { Request, Response, Router } from 'express';
+import { requireAuth, requirePermission, hasPermission } from '../middleware/auth';
+import { storage } from '../storage';
+import { revaluationService } from '../services/RevaluationService';
+
+const revaluationRouter = Router();
+
+/**
+ * Map service errors to HTTP responses
+ */
+function handleRevaluationError(res: Response, error: unknown, fallback: string) {
+  const message = error instanceof Error ? error.message : fallback;
+  if (message.endsWith('not found')) {
+    return res.status(404).json({ message });
+  }
+  if (message.startsWith('Not authorized')) {
+    return res.status(403).json({ message });
+  }
+
+  console.error(`${fallback}:`, error);
+  res.status(500).json({ message });
+}
+
+/**
+ * Owners see their own history; lender-side users see any
+ */
+async function assertCanView(userId: number, ownerId: number | null) {
+  if (ownerId === userId) return;
+  const user = await storage.getUser(userId);
+  if (!user || !hasPermission(user.role, 'loan:manage')) {
+    throw new Error('Not authorized to view this valuation');
+  }
+}
+
+revaluationRouter.use(requireAuth);
+
+// Run the mark-to-market revaluation now instead of waiting for the schedule
+revaluationRouter.post('/run', requirePermission('admin:system'), async (req: Request, res: Response) => {
+  try {
+    res.json(await revaluationService.run());
+  } catch (error) {
+    handleRevaluationError(res, error, 'Failed to run revaluation');
+  }
+});
+
+// Valuation history of a receipt
+revaluationRouter.get('/receipts/:id', async (req: Request, res: Response) => {
+  try {
+    const receipt = await storage.getWarehouseReceipt(parseInt(req.params.id));
+    if (!receipt) {
+      return res.status(404).json({ message: 'Receipt not found' });
+    }
+    await assertCanView(req.session.userId!, receipt.ownerId);
+
+    res.json(await revaluationService.getReceiptHistory(receipt.id));
+  } catch (error) {
+    handleRevaluationError(res, error, 'Failed to fetch valuation history');
+  }
+});
+
+// LTV level and snapshots of a loan
+revaluationRouter.get('/loans/:id', async (req: Request, res: Response) => {
+  try {
+    const loan = await storage.getLoan(parseInt(req.params.id));
+    if (!loan) {
+      return res.status(404).json({ message: 'Loan not found' });
+    }
+    await assertCanView(req.session.userId!, loan.userId);
+
+    res.json(await revaluationService.getLoanLtv(loan.id));
+  } catch (error) {
+    handleRevaluationError(res, error, 'Failed to fetch loan LTV');
+  }
+});
+
+export default revaluationRouter;
@@ -0,0 +1,144 @@
+import { Request, Response, Router } from 'express';
+import path from 'path';
+import { z } from 'zod';
+import { requireAuth, requirePermission } from '../middleware/auth';
+import { storageFeeService } from '../services/StorageFeeService';
+import { paymentService, PaymentMethod } from '../services/PaymentService';
+
+const storageFeesRouter = Router();
+
+// Validation schemas
+const tariffSchema = z.object({
+  commodity: z.string().trim().min(1).nullable().optional(),
+  ratePerMtPerDay: z.coerce.number().positive('Rate per MT per day must be positive'),
+  handlingChargePerMt: z.coerce.number().min(0).optional(),
+  insurancePercentPerYear: z.coerce.number().min(0).max(100).optional(),
+  gstPercent: z.coerce.number().min(0).max(28).optional()
+});
+
+const paySchema = z.object({
+  paymentMethod: z.nativeEnum(PaymentMethod).default(PaymentMethod.UPI)
+});
+
+/**
+ * Map validation and service errors to HTTP responses
+ */
+function handleStorageFeeError(res: Response, error: unknown, fallback: string) {
+  if (error instanceof z.ZodError) {
+    return res.status(400).json({ message: error.errors[0]?.message || 'Invalid request' });
+  }
+
+  const message = error instanceof Error ? error.message : fallback;
+  if (message.endsWith('not found')) {
+    return res.status(404).json({ message });
+  }
+  if (message.startsWith('Not authorized')) {
+    return res.status(403).json({ message });
+  }
+
+  console.error(`${fallback}:`, error);
+  res.status(400).json({ message });
+}
+
+storageFeesRouter.use(requireAuth);
+
+// Active tariff cards of a warehouse
+storageFeesRouter.get('/warehouses/:id/tariffs', async (req: Request, res: Response) => {
+  try {
+    res.json(await storageFeeService.listTariffs(parseInt(req.params.id)));
+  } catch (error) {
+    handleStorageFeeError(res, error, 'Failed to fetch tariffs');
+  }
+});
+
+// Publish a tariff; it replaces the active tariff for the same commodity
+storageFeesRouter.post('/warehouses/:id/tariffs', requirePermission('warehouse:operate'), async (req: Request, res: Response) => {
+  try {
+    const input = tariffSchema.parse(req.body);
+    res.status(201).json(await storageFeeService.setTariff(parseInt(req.params.id), req.session.userId!, input));
+  } catch (error) {
+    handleStorageFeeError(res, error, 'Failed to set tariff');
+  }
+});
+
+// Withdraw a tariff
+storageFeesRouter.delete('/warehouses/:id/tariffs/:tariffId', requirePermission('warehouse:operate'), async (req: Request, res: Response) => {
+  try {
+    res.json(await storageFeeService.deactivateTariff(
+      parseInt(req.params.id),
+      parseInt(req.params.tariffId),
+      req.session.userId!
+    ));
+  } catch (error) {
+    handleStorageFeeError(res, error, 'Failed to withdraw tariff');
+  }
+});
+
+// Invoices raised by a warehouse, for its owner
+storageFeesRouter.get('/warehouses/:id/invoices', requirePermission('warehouse:operate'), async (req: Request, res: Response) => {
+  try {
+    res.json(await storageFeeService.listWarehouseInvoices(parseInt(req.params.id), req.session.userId!));
+  } catch (error) {
+    handleStorageFeeError(res, error, 'Failed to fetch warehouse invoices');
+  }
+});
+
+// Pay every unpaid invoice the caller has at a warehouse
+storageFeesRouter.post('/warehouses/:id/pay', async (req: Request, res: Response) => {
+  try {
+    const { paymentMethod } = paySchema.parse(req.body);
+    res.json(await paymentService.payWarehouseFees(req.session.userId!, parseInt(req.params.id), paymentMethod));
+  } catch (error) {
+    handleStorageFeeError(res, error, 'Failed to pay storage fees');
+  }
+});
+
+// Unpaid fees on a receipt, billed up to today
+storageFeesRouter.get('/receipts/:id/dues', async (req: Request, res: Response) => {
+  try {
+    res.json(await storageFeeService.duesForUser(parseInt(req.params.id), req.session.userId!));
+  } catch (error) {
+    handleStorageFeeError(res, error, 'Failed to fetch storage dues');
+  }
+});
+
+// Invoices billed to the caller
+storageFeesRouter.get('/invoices', async (req: Request, res: Response) => {
+  try {
+    res.json(await storageFeeService.listInvoices(req.session.userId!));
+  } catch (error) {
+    handleStorageFeeError(res, error, 'Failed to fetch invoices');
+  }
+});
+
+storageFeesRouter.get('/invoices/:id', async (req: Request, res: Response) => {
+  try {
+    res.json(await storageFeeService.getInvoice(parseInt(req.params.id), req.session.userId!));
+  } catch (error) {
+    handleStorageFeeError(res, error, 'Failed to fetch invoice');
+  }
+});
+
+// GST tax invoice as PDF
+storageFeesRouter.get('/invoices/:id/pdf', async (req: Request, res: Response) => {
+  try {
+    const { invoice, file } = await storageFeeService.getInvoicePdf(parseInt(req.params.id), req.session.userId!);
+    res.setHeader('Content-Type', 'application/pdf');
+    res.setHeader('Content-Disposition', `inline; filename="${path.basename(invoice.pdfUrl!)}"`);
+    res.send(file);
+  } catch (error) {
+    handleStorageFeeError(res, error, 'Failed to fetch invoice PDF');
+  }
+});
+
+// Pay one invoice in full
+storageFeesRouter.post('/invoices/:id/pay', async (req: Request, res: Response) => {
+  try {
+    const { paymentMethod } = paySchema.parse(req.body);
+    res.json(await paymentService.payStorageInvoice(req.session.userId!, parseInt(req.params.id), paymentMethod));
+  } catch (error) {
+    handleStorageFeeError(res, error, 'Failed to pay invoice');
+  }
+});
+
+export default storageFeesRouter;
@@ -0,0 +1,118 @@
+import { Request, Response, Router } from 'express';
+import { z } from 'zod';
+import { storage } from '../storage';
+import { requireAuth } from '../middleware/auth';
+import { spotTradeService } from '../services/SpotTradeService';
+import { PaymentMethod } from '../services/PaymentService';
+
+const tradesRouter = Router();
+
+// Validation schemas
+const offerSchema = z.object({
+  receiptId: z.coerce.number().int().positive(),
+  price: z.coerce.number().positive('Price must be greater than zero').transform(price => price.toFixed(2)),
+  expiresInHours: z.coerce.number().positive().optional(),
+  note: z.string().trim().optional(),
+  paymentMethod: z.nativeEnum(PaymentMethod).optional()
+});
+
+const responseSchema = z.object({
+  note: z.string().trim().optional()
+});
+
+/**
+ * Map validation and service errors to HTTP responses
+ */
+function handleTradeError(res: Response, error: unknown, fallback: string) {
+  if (error instanceof z.ZodError) {
+    return res.status(400).json({ message: error.errors[0]?.message || 'Invalid request' });
+  }
+
+  const message = error instanceof Error ? error.message : fallback;
+  if (message.endsWith('not found')) {
+    return res.status(404).json({ message });
+  }
+  if (message.startsWith('Not authorized')) {
+    return res.status(403).json({ message });
+  }
+  // KYC tier limits
+  if (message.startsWith('KYC')) {
+    return res.status(403).json({ message });
+  }
+
+  console.error(`${fallback}:`, error);
+  res.status(400).json({ message });
+}
+
+tradesRouter.use(requireAuth);
+
+// Trades the caller is buying or selling in
+tradesRouter.get('/', async (req: Request, res: Response) => {
+  try {
+    res.json(await spotTradeService.listForUser(req.session.userId!));
+  } catch (error) {
+    handleTradeError(res, error, 'Failed to fetch trades');
+  }
+});
+
+// Offer a price on a receipt; the payment is held in escrow until the offer closes
+tradesRouter.post('/', async (req: Request, res: Response) => {
+  try {
+    const { receiptId, price, ...options } = offerSchema.parse(req.body);
+    res.status(201).json(await spotTradeService.offer(req.session.userId!, receiptId, price, options));
+  } catch (error) {
+    handleTradeError(res, error, 'Failed to make offer');
+  }
+});
+
+// Open offers on a receipt, for its holder
+tradesRouter.get('/receipts/:receiptId', async (req: Request, res: Response) => {
+  try {
+    res.json(await spotTradeService.listOffers(parseInt(req.params.receiptId), req.session.userId!));
+  } catch (error) {
+    handleTradeError(res, error, 'Failed to fetch offers');
+  }
+});
+
+// A trade, for its buyer or seller
+tradesRouter.get('/:id', async (req: Request, res: Response) => {
+  try {
+    res.json(await spotTradeService.get(parseInt(req.params.id), req.session.userId!));
+  } catch (error) {
+    handleTradeError(res, error, 'Failed to fetch trade');
+  }
+});
+
+// Accept an offer: the receipt moves to the buyer and the escrowed payment to the seller
+tradesRouter.post('/:id/accept', async (req: Request, res: Response) => {
+  try {
+    const { note } = responseSchema.parse(req.body);
+    const user = await storage.getUser(req.session.userId!);
+    res.json(await spotTradeService.accept(parseInt(req.params.id), user!, note));
+  } catch (error) {
+    handleTradeError(res, error, 'Failed to accept offer');
+  }
+});
+
+// Refuse an offer and refund the buyer
+tradesRouter.post('/:id/reject', async (req: Request, res: Response) => {
+  try {
+    const { note } = responseSchema.parse(req.body);
+    const user = await storage.getUser(req.session.userId!);
+    res.json(await spotTradeService.reject(parseInt(req.params.id), user!, note));
+  } catch (error) {
+    handleTradeError(res, error, 'Failed to reject offer');
+  }
+});
+
+// Withdraw an offer and take the payment back
+tradesRouter.post('/:id/withdraw', async (req: Request, res: Response) => {
+  try {
+    const user = await storage.getUser(req.session.userId!);
+    res.json(await spotTradeService.withdraw(parseInt(req.params.id), user!));
+  } catch (error) {
+    handleTradeError(res, error, 'Failed to withdraw offer');
+  }
+});
+
+export default tradesRouter;
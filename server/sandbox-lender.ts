@@ -0,0 +1,233 @@
+/**
+ * Sandbox lender for local development
+ *
+ * A mock lending partner that speaks the partner HTTP API used by HttpLendingAdapter,
+ * so integrations can be built and tested without a real bank. Point a partner at it:
+ *
+ *   npm run sandbox:lender
+ *   PATCH /api/lending/partners/:id { "apiEndpoint": "http://localhost:5055",
+ *     "apiKey": "sandbox-key", "apiSecretKey": "sandbox-secret" }
+ *
+ * Applications are decided a few seconds after submission and reported by webhook;
+ * scores below 550 are declined. State is held in memory.
+ */
+import express, { type NextFunction, type Request, type Response } from 'express';
+import crypto from 'crypto';
+import { pathToFileURL } from 'url';
+// Types only: the sandbox runs without the platform's storage
+import type {
+  ApplicationRequest,
+  ApplicationStatus,
+  Disbursement,
+  LendingWebhookEvent,
+  OfferRequest,
+  PartnerRepayment
+} from './services/LendingAdapters';
+
+export interface SandboxLenderOptions {
+  apiKey?: string;
+  secret?: string;
+  decisionDelayMs?: number;
+}
+
+interface SandboxApplication extends ApplicationStatus {
+  request: ApplicationRequest;
+}
+
+interface SandboxLoan {
+  loanId: string;
+  applicationId: string;
+  callbackUrl: string;
+  outstanding: number;
+  repayments: PartnerRepayment[];
+}
+
+const MIN_SCORE = 550;
+const MAX_LTV = 0.7;
+
+/**
+ * Build the sandbox lender's express app
+ */
+export function createSandboxLenderApp(options: SandboxLenderOptions = {}) {
+  const apiKey = options.apiKey ?? process.env.SANDBOX_LENDER_API_KEY ?? 'sandbox-key';
+  const secret = options.secret ?? process.env.SANDBOX_LENDER_SECRET ?? 'sandbox-secret';
+  const decisionDelayMs = options.decisionDelayMs ?? parseInt(process.env.SANDBOX_LENDER_DECISION_MS || '3000', 10);
+
+  const applications = new Map<string, SandboxApplication>();
+  const loans = new Map<string, SandboxLoan>();
+  let sequence = 0;
+
+  const nextId = (prefix: string) => `${prefix}-${++sequence}`;
+  const statusOf = ({ request, ...status }: SandboxApplication): ApplicationStatus => status;
+
+  // Price from the applicant's score: 10% at 800 and above, rising to 18% at the minimum
+  const rateFor = (score: number | null) => {
+    const risk = Math.min(1, Math.max(0, (800 - (score ?? 650)) / (800 - MIN_SCORE)));
+    return Math.round((10 + 8 * risk) * 100) / 100;
+  };
+
+  async function sendWebhook(callbackUrl: string, event: LendingWebhookEvent) {
+    const timestamp = Date.now().toString();
+    const payload = JSON.stringify(event);
+    // Signed over the exact bytes sent, as the platform checks them
+    const signature = crypto.createHmac('sha256', secret).update(payload + timestamp).digest('hex');
+    try {
+      const response = await fetch(callbackUrl, {
+        method: 'POST',
+        headers: {
+          'Content-Type': 'application/json',
+          'X-Signature': signature,
+          'X-Timestamp': timestamp
+        },
+        body: payload
+      });
+      if (!response.ok) {
+        console.warn(`[sandbox-lender] webhook ${event.type} answered ${response.status}`);
+      }
+    } catch (error) {
+      console.warn(`[sandbox-lender] webhook ${event.type} to ${callbackUrl} failed:`, error);
+    }
+  }
+
+  const app = express();
+  app.use(express.json());
+
+  app.use((req: Request, res: Response, next: NextFunction) => {
+    if (req.headers.authorization !== `Bearer ${apiKey}`) {
+      return res.status(401).json({ message: 'Invalid API key' });
+    }
+    next();
+  });
+
+  app.post('/offers', (req: Request, res: Response) => {
+    const request = req.body as OfferRequest;
+    const score = request.applicant?.creditScore ?? null;
+    const maxAmount = Math.floor((request.collateralValue ?? 0) * MAX_LTV);
+    if ((score !== null && score < MIN_SCORE) || maxAmount <= 0) {
+      return res.json({ offer: null });
+    }
+
+    res.json({
+      offer: {
+        offerId: nextId('OFFER'),
+        interestRate: rateFor(score),
+        maxAmount,
+        minAmount: 10000,
+        tenureDays: request.tenureDays ?? 180,
+        processingFeePercent: 1,
+        validUntil: new Date(Date.now() + 24 * 60 * 60 * 1000).toISOString()
+      }
+    });
+  });
+
+  app.post('/applications', (req: Request, res: Response) => {
+    const request = req.body as ApplicationRequest;
+    const application: SandboxApplication = {
+      applicationId: nextId('APP'),
+      reference: request.reference,
+      status: 'under_review',
+      request
+    };
+    applications.set(application.applicationId, application);
+
+    setTimeout(() => {
+      const score = request.applicant?.creditScore ?? null;
+      const limit = request.collateral.reduce((sum, item) => sum + item.valuation, 0) * MAX_LTV;
+      if (score !== null && score < MIN_SCORE) {
+        Object.assign(application, { status: 'rejected', rejectionReason: 'Credit score below policy minimum' });
+      } else if (request.amount > limit) {
+        Object.assign(application, { status: 'rejected', rejectionReason: `Amount exceeds ${MAX_LTV * 100}% of collateral value` });
+      } else {
+        Object.assign(application, { status: 'approved', approvedAmount: request.amount, interestRate: rateFor(score) });
+      }
+      sendWebhook(request.callbackUrl, {
+        eventId: nextId('EVT'),
+        type: 'application.updated',
+        application: statusOf(application)
+      });
+    }, decisionDelayMs).unref?.();
+
+    res.status(201).json(statusOf(application));
+  });
+
+  app.get('/applications/:id', (req: Request, res: Response) => {
+    const application = applications.get(req.params.id);
+    if (!application) {
+      return res.status(404).json({ message: 'Application not found' });
+    }
+    res.json(statusOf(application));
+  });
+
+  app.post('/applications/:id/disburse', (req: Request, res: Response) => {
+    const application = applications.get(req.params.id);
+    if (!application) {
+      return res.status(404).json({ message: 'Application not found' });
+    }
+    if (application.status !== 'approved') {
+      return res.status(409).json({ message: `Application is ${application.status}` });
+    }
+
+    const disbursement: Disbursement = {
+      applicationId: application.applicationId,
+      loanId: nextId('LOAN'),
+      amount: application.approvedAmount!,
+      transactionId: nextId('TXN'),
+      disbursedAt: new Date().toISOString()
+    };
+    Object.assign(application, { status: 'disbursed', loanId: disbursement.loanId });
+    loans.set(disbursement.loanId, {
+      loanId: disbursement.loanId,
+      applicationId: application.applicationId,
+      callbackUrl: application.request.callbackUrl,
+      outstanding: disbursement.amount,
+      repayments: []
+    });
+
+    sendWebhook(application.request.callbackUrl, { eventId: nextId('EVT'), type: 'loan.disbursed', disbursement });
+    res.status(201).json(disbursement);
+  });
+
+  // Repayments the platform collected and forwards
+  app.post('/loans/:id/repayments', (req: Request, res: Response) => {
+    const loan = loans.get(req.params.id);
+    if (!loan) {
+      return res.status(404).json({ message: 'Loan not found' });
+    }
+    res.status(201).json(recordRepayment(loan, Number(req.body.amount), req.body.reference));
+  });
+
+  // Simulate the borrower paying the lender directly; reported to the platform by webhook
+  app.post('/loans/:id/simulate-repayment', (req: Request, res: Response) => {
+    const loan = loans.get(req.params.id);
+    if (!loan) {
+      return res.status(404).json({ message: 'Loan not found' });
+    }
+    const repayment = recordRepayment(loan, Number(req.body.amount));
+    sendWebhook(loan.callbackUrl, { eventId: nextId('EVT'), type: 'repayment.received', repayment });
+    res.status(201).json(repayment);
+  });
+
+  function recordRepayment(loan: SandboxLoan, amount: number, reference?: string): PartnerRepayment {
+    loan.outstanding = Math.max(0, loan.outstanding - amount);
+    const repayment: PartnerRepayment = {
+      loanId: loan.loanId,
+      transactionId: `TXN-${crypto.randomUUID()}`,
+      amount,
+      reference,
+      outstanding: loan.outstanding,
+      paidAt: new Date().toISOString()
+    };
+    loan.repayments.push(repayment);
+    return repayment;
+  }
+
+  return app;
+}
+
+// Run standalone with `npm run sandbox:lender`
+if (process.argv[1] && import.meta.url === pathToFileURL(process.argv[1]).href) {
+  const port = parseInt(process.env.SANDBOX_LENDER_PORT || '5055', 10);
+  createSandboxLenderApp().listen(port, () => {
+    console.log(`[sandbox-lender] listening on http://localhost:${port}`);
+  });
+}
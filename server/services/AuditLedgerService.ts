@@ -0,0 +1,350 @@
+import crypto from "crypto";
+import { storage, type InsertReceiptTransfer } from "../storage";
+import type { AuditBlock, AuditEntry, CommoditySack, WarehouseReceipt } from "@shared/schema";
+import {
+  GENESIS_HASH,
+  blockPreimage,
+  canonicalJson,
+  entryPreimage,
+  receiptState,
+  type MerkleStep,
+  type ReceiptProof
+} from "@shared/auditProof";
+
+// How often unsealed entries are sealed into blocks, and the most entries in one block
+const SEAL_INTERVAL_MS = parseInt(process.env.AUDIT_SEAL_SECONDS || '60', 10) * 1000;
+const MAX_BLOCK_ENTRIES = parseInt(process.env.AUDIT_BLOCK_SIZE || '256', 10);
+
+export type AuditEntityType = 'receipt' | 'sack' | 'lien' | 'contract';
+
+export interface ChainProblem {
+  entryId?: number;
+  blockId?: number;
+  problem: string;
+}
+
+const sha256 = (value: string) => crypto.createHash('sha256').update(value).digest('hex');
+
+/**
+ * Hash of an entry: its payload hash chained to the previous entry's hash
+ */
+export function hashEntry(entry: Pick<AuditEntry, 'previousHash' | 'entityType' | 'entityId' | 'action' | 'payloadHash' | 'createdAt'>): string {
+  return sha256(entryPreimage(entry));
+}
+
+/**
+ * Merkle root of entry hashes; an odd node at any level is paired with itself
+ */
+export function merkleRoot(leaves: string[]): string {
+  if (leaves.length === 0) return GENESIS_HASH;
+  let level = leaves;
+  while (level.length > 1) {
+    const next: string[] = [];
+    for (let i = 0; i < level.length; i += 2) {
+      next.push(sha256(level[i] + (level[i + 1] ?? level[i])));
+    }
+    level = next;
+  }
+  return level[0];
+}
+
+/**
+ * Siblings on the path from one leaf to the Merkle root, bottom level first
+ */
+export function merkleProof(leaves: string[], index: number): MerkleStep[] {
+  const steps: MerkleStep[] = [];
+  let level = leaves;
+  let position = index;
+  while (level.length > 1) {
+    const isLeft = position % 2 === 0;
+    const sibling = isLeft ? (level[position + 1] ?? level[position]) : level[position - 1];
+    steps.push({ hash: sibling, position: isLeft ? 'right' : 'left' });
+
+    const next: string[] = [];
+    for (let i = 0; i < level.length; i += 2) {
+      next.push(sha256(level[i] + (level[i + 1] ?? level[i])));
+    }
+    level = next;
+    position = Math.floor(position / 2);
+  }
+  return steps;
+}
+
+/**
+ * Hash of a block header, chained to the previous block's hash
+ */
+export function hashBlock(block: Pick<AuditBlock, 'previousBlockHash' | 'height' | 'firstEntryId' | 'lastEntryId' | 'merkleRoot' | 'sealedAt'>): string {
+  return sha256(blockPreimage(block));
+}
+
+/**
+ * Tamper-evident audit ledger.
+ * Receipt, sack, lien and contract events are appended as entries; each entry hashes its
+ * payload together with the previous entry's hash, so altering, removing or
+ * reordering any entry breaks every hash after it. Entries are periodically sealed,
+ * in order, into blocks that carry the Merkle root of their entries and chain to the
+ * previous block. Appends are serialised within the process, and the unique previous
+ * hash stops a second process from forking the chain.
+ */
+export class AuditLedgerService {
+  private sealTimer: NodeJS.Timeout | null = null;
+  private queue: Promise<unknown> = Promise.resolve();
+
+  /**
+   * Seal unsealed entries into blocks on an interval
+   */
+  start() {
+    if (this.sealTimer) return;
+    this.sealTimer = setInterval(() => {
+      this.seal().catch(error => console.error('Sealing audit ledger blocks failed:', error));
+    }, SEAL_INTERVAL_MS);
+    this.sealTimer.unref?.();
+  }
+
+  /**
+   * Cancel block sealing
+   */
+  stop() {
+    if (this.sealTimer) clearInterval(this.sealTimer);
+    this.sealTimer = null;
+  }
+
+  /**
+   * Append an entry to the chain
+   * @param entityType What the entry is about
+   * @param entityId Its id
+   * @param action The event, e.g. 'issued'
+   * @param payload Event details; stored and hashed as JSON
+   */
+  async append(entityType: AuditEntityType, entityId: number, action: string, payload: Record<string, unknown>) {
+    return this.exclusive(async () => {
+      const latest = await storage.getLatestAuditEntry();
+      // Round-trip through JSON so the stored payload is exactly what was hashed
+      const normalised = JSON.parse(JSON.stringify(payload));
+      const entry = {
+        entityType,
+        entityId,
+        action,
+        payload: normalised,
+        payloadHash: sha256(canonicalJson(normalised)),
+        previousHash: latest?.entryHash ?? GENESIS_HASH,
+        createdAt: new Date()
+      };
+      return storage.createAuditEntry({ ...entry, entryHash: hashEntry(entry) });
+    });
+  }
+
+  /**
+   * Record an event on a receipt, committing its current state, and point the
+   * receipt at the entry. The issuing entry's hash becomes the receipt's blockchainHash.
+   * @returns The updated receipt
+   */
+  async anchorReceipt(receipt: WarehouseReceipt, action = 'issued', details: Record<string, unknown> = {}) {
+    const state = receiptState(receipt);
+    const entry = await this.append('receipt', receipt.id, action, {
+      ...details,
+      ownerId: receipt.ownerId,
+      warehouseId: receipt.warehouseId,
+      commodityId: receipt.commodityId,
+      state,
+      stateDigest: sha256(canonicalJson(state))
+    });
+
+    const updated = await storage.updateWarehouseReceipt(receipt.id, {
+      auditEntryId: entry.id,
+      ...(action === 'issued' ? { blockchainHash: entry.entryHash } : {})
+    });
+    return updated ?? receipt;
+  }
+
+  /**
+   * Record a change of hands of a receipt and create the transfer, referencing the entry
+   */
+  async recordTransfer(transfer: Omit<InsertReceiptTransfer, 'transactionHash' | 'auditEntryId'>) {
+    const entry = await this.append('receipt', transfer.receiptId, 'transfer', {
+      transferType: transfer.transferType,
+      fromUserId: transfer.fromUserId,
+      toUserId: transfer.toUserId,
+      metadata: transfer.metadata ?? null
+    });
+    await storage.updateWarehouseReceipt(transfer.receiptId, { auditEntryId: entry.id });
+
+    return storage.createReceiptTransfer({
+      ...transfer,
+      transactionHash: entry.entryHash,
+      auditEntryId: entry.id
+    });
+  }
+
+  /**
+   * Record an event on a sack and point the sack at the entry
+   * @returns The entry, whose hash can be put on the matching sack movement
+   */
+  async anchorSack(sack: CommoditySack, action: string, details: Record<string, unknown> = {}) {
+    const entry = await this.append('sack', sack.id, action, {
+      sackId: sack.sackId,
+      receiptId: sack.receiptId,
+      ownerId: sack.ownerId,
+      warehouseId: sack.warehouseId,
+      status: sack.status,
+      ...details
+    });
+    await storage.updateCommoditySack(sack.id, { auditEntryId: entry.id, blockchainHash: entry.entryHash });
+    return entry;
+  }
+
+  /**
+   * An entry with the block it was sealed in, if any
+   */
+  async getEntry(entryId: number) {
+    const entry = await storage.getAuditEntry(entryId);
+    if (!entry) {
+      throw new Error("Audit entry not found");
+    }
+    const block = entry.blockId ? await storage.getAuditBlock(entry.blockId) : null;
+    return { ...entry, block: block ?? null };
+  }
+
+  /**
+   * The history of a receipt, sack or lien, oldest first
+   */
+  async listEntityEntries(entityType: AuditEntityType, entityId: number) {
+    return storage.listAuditEntriesByEntity(entityType, entityId);
+  }
+
+  /**
+   * Merkle inclusion proof of a receipt's latest state commitment, or null if the
+   * receipt was never anchored. Steps and block are null until the entry is sealed.
+   */
+  async proveReceipt(receiptId: number): Promise<ReceiptProof | null> {
+    const entries = await storage.listAuditEntriesByEntity('receipt', receiptId);
+    const entry = entries.reverse().find(item => (item.payload as Record<string, unknown> | null)?.stateDigest);
+    if (!entry) return null;
+
+    const { blockId, ...proofEntry } = entry;
+    const block = blockId ? await storage.getAuditBlock(blockId) : undefined;
+    if (!block) {
+      return { entry: proofEntry, leafIndex: null, steps: null, block: null };
+    }
+
+    const leaves = (await storage.listAuditEntriesByBlock(block.id)).map(item => item.entryHash);
+    const leafIndex = leaves.indexOf(entry.entryHash);
+    const { id, ...header } = block;
+    return { entry: proofEntry, leafIndex, steps: merkleProof(leaves, leafIndex), block: header };
+  }
+
+  /**
+   * Sealed blocks, newest first
+   */
+  async listBlocks(limit = 50) {
+    return (await storage.listAuditBlocks()).reverse().slice(0, limit);
+  }
+
+  /**
+   * Seal unsealed entries into blocks, oldest first
+   * @returns The blocks sealed
+   */
+  async seal() {
+    return this.exclusive(async () => {
+      const sealed: AuditBlock[] = [];
+      for (;;) {
+        const entries = await storage.listUnsealedAuditEntries(MAX_BLOCK_ENTRIES);
+        if (entries.length === 0) break;
+
+        const previous = await storage.getLatestAuditBlock();
+        const header = {
+          height: (previous?.height ?? 0) + 1,
+          firstEntryId: entries[0].id,
+          lastEntryId: entries[entries.length - 1].id,
+          entryCount: entries.length,
+          merkleRoot: merkleRoot(entries.map(entry => entry.entryHash)),
+          previousBlockHash: previous?.blockHash ?? GENESIS_HASH,
+          sealedAt: new Date()
+        };
+        const block = await storage.createAuditBlock({ ...header, blockHash: hashBlock(header) });
+        await storage.sealAuditEntries(block.id, block.firstEntryId, block.lastEntryId);
+        sealed.push(block);
+      }
+      return sealed;
+    });
+  }
+
+  /**
+   * Recompute every entry and block hash and check the links between them.
+   * Any edit, deletion, insertion or reordering shows up as a problem.
+   */
+  async verifyChain() {
+    const entries = await storage.listAuditEntries();
+    const blocks = await storage.listAuditBlocks();
+    const problems: ChainProblem[] = [];
+
+    let expectedPrevious = GENESIS_HASH;
+    for (const entry of entries) {
+      if (sha256(canonicalJson(entry.payload)) !== entry.payloadHash) {
+        problems.push({ entryId: entry.id, problem: 'Payload does not match its hash' });
+      }
+      if (entry.previousHash !== expectedPrevious) {
+        problems.push({ entryId: entry.id, problem: 'Previous hash does not match the preceding entry' });
+      }
+      if (hashEntry(entry) !== entry.entryHash) {
+        problems.push({ entryId: entry.id, problem: 'Entry hash does not match its contents' });
+      }
+      expectedPrevious = entry.entryHash;
+    }
+
+    let expectedPreviousBlock = GENESIS_HASH;
+    let nextEntryId: number | undefined = entries[0]?.id;
+    blocks.forEach((block, index) => {
+      const members = entries.filter(entry => entry.blockId === block.id);
+      const ids = members.map(entry => entry.id);
+      const contiguous = entries.filter(entry => entry.id >= block.firstEntryId && entry.id <= block.lastEntryId);
+
+      if (block.height !== index + 1) {
+        problems.push({ blockId: block.id, problem: `Block height ${block.height} is out of sequence` });
+      }
+      if (block.previousBlockHash !== expectedPreviousBlock) {
+        problems.push({ blockId: block.id, problem: 'Previous block hash does not match the preceding block' });
+      }
+      if (hashBlock(block) !== block.blockHash) {
+        problems.push({ blockId: block.id, problem: 'Block hash does not match its header' });
+      }
+      if (block.firstEntryId !== nextEntryId || members.length !== block.entryCount ||
+          contiguous.length !== members.length || ids[0] !== block.firstEntryId || ids[ids.length - 1] !== block.lastEntryId) {
+        problems.push({ blockId: block.id, problem: 'Block does not cover the entries it claims' });
+      }
+      if (merkleRoot(members.map(entry => entry.entryHash)) !== block.merkleRoot) {
+        problems.push({ blockId: block.id, problem: 'Merkle root does not match the block entries' });
+      }
+      expectedPreviousBlock = block.blockHash;
+      nextEntryId = entries.find(entry => entry.id > block.lastEntryId)?.id;
+    });
+
+    const blockIds = new Set(blocks.map(block => block.id));
+    for (const entry of entries) {
+      if (entry.blockId !== null && !blockIds.has(entry.blockId)) {
+        problems.push({ entryId: entry.id, problem: `Sealed in block ${entry.blockId}, which does not exist` });
+      }
+    }
+
+    return {
+      valid: problems.length === 0,
+      entryCount: entries.length,
+      blockCount: blocks.length,
+      unsealedCount: entries.filter(entry => entry.blockId === null).length,
+      headHash: entries[entries.length - 1]?.entryHash ?? GENESIS_HASH,
+      headBlockHash: blocks[blocks.length - 1]?.blockHash ?? GENESIS_HASH,
+      verifiedAt: new Date().toISOString(),
+      problems
+    };
+  }
+
+  // Run appends and sealing one at a time so each entry sees the true chain head
+  private exclusive<T>(task: () => Promise<T>): Promise<T> {
+    const run = this.queue.then(task, task);
+    this.queue = run.catch(() => undefined);
+    return run;
+  }
+}
+
+// Export singleton instance
+export const auditLedgerService = new AuditLedgerService();
@@ -1,157 +0,0 @@
-/**
- * Blockchain Service for TradeWiser Platform
- * 
- * This file contains server-side implementation of blockchain services 
- * for secure tracking of commodity sack transactions.
- * 
- * In a production environment, these functions would interact with a real
- * blockchain network like Ethereum, Hyperledger Fabric, or a custom blockchain.
- */
-
-// Demo mode configuration
-const DEMO_MODE = true;
-const BLOCKCHAIN_LATENCY = 1500; // ms
-
-// Store transaction history for verification
-const blockchainTransactions: Record<string, any> = {};
-
-/**
- * Generate a unique blockchain transaction hash
- * @returns A transaction hash that resembles an Ethereum transaction hash
- */
-function generateHash(): string {
-  const characters = "0123456789abcdef";
-  let result = "0x";
-  for (let i = 0; i < 64; i++) {
-    result += characters.charAt(Math.floor(Math.random() * characters.length));
-  }
-  return result;
-}
-
-/**
- * Generate a blockchain transaction for commodity sack operations
- * Creates a record of the transaction with appropriate metadata
- * 
- * @param data The transaction data to record
- * @returns The transaction hash for the created record
- */
-export async function generateBlockchainTransaction(data: any): Promise<string> {
-  if (DEMO_MODE) {
-    // Simulate blockchain latency
-    await new Promise((resolve) => setTimeout(resolve, BLOCKCHAIN_LATENCY));
-    
-    // Generate transaction hash
-    const transactionHash = generateHash();
-    
-    // Create blockchain record
-    blockchainTransactions[transactionHash] = {
-      ...data,
-      createdAt: new Date().toISOString(),
-      blockNumber: Math.floor(Math.random() * 1000000) + 15000000,
-      blockHash: generateHash(),
-      confirmations: 12,
-      network: "TradeWiser Private Chain"
-    };
-    
-    // Log transaction creation
-    console.log(`Blockchain transaction created: ${transactionHash}`);
-    
-    return transactionHash;
-  } else {
-    // In production, this would connect to an actual blockchain network
-    throw new Error("Production blockchain integration not implemented");
-  }
-}
-
-/**
- * Verify if a blockchain transaction exists and is valid
- * 
- * @param transactionHash The hash of the transaction to verify
- * @returns Whether the transaction is valid
- */
-export async function verifyTransaction(transactionHash: string): Promise<boolean> {
-  if (DEMO_MODE) {
-    // Simulate blockchain verification latency
-    await new Promise((resolve) => setTimeout(resolve, BLOCKCHAIN_LATENCY / 2));
-    
-    // Check if transaction exists in our records
-    return !!blockchainTransactions[transactionHash];
-  } else {
-    // In production, this would verify against an actual blockchain
-    throw new Error("Production blockchain verification not implemented");
-  }
-}
-
-/**
- * Get detailed information about a blockchain transaction
- * 
- * @param transactionHash The hash of the transaction to retrieve
- * @returns The transaction data or null if not found
- */
-export async function getTransactionDetails(transactionHash: string): Promise<any | null> {
-  if (DEMO_MODE) {
-    // Simulate blockchain query latency
-    await new Promise((resolve) => setTimeout(resolve, BLOCKCHAIN_LATENCY / 2));
-    
-    // Return transaction details if found
-    if (blockchainTransactions[transactionHash]) {
-      return {
-        transactionHash,
-        ...blockchainTransactions[transactionHash],
-        status: "confirmed"
-      };
-    }
-    
-    return null;
-  } else {
-    // In production, this would query an actual blockchain
-    throw new Error("Production blockchain query not implemented");
-  }
-}
-
-/**
- * Generate QR code data for a commodity sack
- * This data would be used to create physical QR codes for sacks
- * 
- * @param sackId The unique ID of the commodity sack
- * @param receiptId The ID of the parent receipt
- * @param commodityId The ID of the commodity
- * @returns QR code data string
- */
-export function generateSackQrCodeData(sackId: string, receiptId: number, commodityId: number): string {
-  // Create a data string that includes:
-  // - Sack ID (already unique)
-  // - Parent receipt ID
-  // - Commodity ID
-  // - Timestamp (for verification)
-  // - Checksum (simple hash of the data)
-  
-  const timestamp = Date.now();
-  const dataString = `${sackId}|${receiptId}|${commodityId}|${timestamp}`;
-  
-  // Generate simple checksum (in production, use a proper hash function)
-  let checksum = 0;
-  for (let i = 0; i < dataString.length; i++) {
-    checksum = ((checksum << 5) - checksum) + dataString.charCodeAt(i);
-    checksum = checksum & checksum; // Convert to 32-bit integer
-  }
-  
-  // Return complete data string with checksum
-  return `${dataString}|${checksum}`;
-}
-
-/**
- * Generate a URL for a QR code service
- * In production, this would likely generate and store the QR code image
- * 
- * @param data The data to encode in the QR code
- * @returns URL to a QR code service that will render the data
- */
-export function generateQrCodeUrl(data: string): string {
-  // URL encode the data
-  const encodedData = encodeURIComponent(data);
-  
-  // Use a QR code service to generate the image
-  // In production, consider generating and storing these images
-  return `https://api.qrserver.com/v1/create-qr-code/?data=${encodedData}&size=200x200`;
-}
\ No newline at end of file
@@ -0,0 +1,362 @@
+import { storage } from "../storage";
+import { CreditRating, type Commodity, type UserCreditProfile } from "@shared/schema";
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+// Every borrower starts here; factor contributions move the score within the bureau-style range
+const BASE_SCORE = 600;
+const MIN_SCORE = 300;
+const MAX_SCORE = 900;
+
+// Days after the due date an instalment still counts as paid on time
+const GRACE_DAYS = 3;
+
+// Lowest score for each rating, best first
+export const RATING_THRESHOLDS: Array<[CreditRating, number]> = [
+  [CreditRating.AAA, 800],
+  [CreditRating.AA, 750],
+  [CreditRating.A, 700],
+  [CreditRating.BBB, 650],
+  [CreditRating.BB, 600],
+  [CreditRating.B, 550],
+  [CreditRating.C, 500],
+  [CreditRating.D, MIN_SCORE]
+];
+
+// Platform direct lending rate (% a year) for each rating; D is not lent to
+export const DIRECT_LENDING_RATES: Record<CreditRating, number | null> = {
+  [CreditRating.AAA]: 10,
+  [CreditRating.AA]: 10.5,
+  [CreditRating.A]: 11,
+  [CreditRating.BBB]: 12,
+  [CreditRating.BB]: 13.5,
+  [CreditRating.B]: 15,
+  [CreditRating.C]: 18,
+  [CreditRating.D]: null
+};
+
+// Quality scores of grade labels, for lots graded before scores were recorded
+const GRADE_SCORES: Record<string, number> = { A: 95, B: 85, C: 75, Rejected: 0 };
+
+/**
+ * One input to the score and the points it contributed
+ */
+export interface ScoreFactor {
+  factor: 'kyc' | 'deposit_history' | 'quality' | 'repayment' | 'disputes';
+  label: string;
+  points: number;
+  detail: string;
+}
+
+export interface CreditScore {
+  userId: number;
+  score: number;
+  rating: CreditRating;
+  baseScore: number;
+  factors: ScoreFactor[];
+  trigger: string;
+  scoredAt: string;
+}
+
+const clamp = (value: number, min: number, max: number) => Math.min(max, Math.max(min, value));
+
+/**
+ * Map a score to its credit rating
+ */
+export function ratingForScore(score: number): CreditRating {
+  return RATING_THRESHOLDS.find(([, minimum]) => score >= minimum)?.[0] ?? CreditRating.D;
+}
+
+/**
+ * Where a rating sits between a lender's best (0) and worst (1) rate
+ */
+export function ratingRisk(rating: CreditRating): number {
+  const position = RATING_THRESHOLDS.findIndex(([candidate]) => candidate === rating);
+  return position < 0 ? 1 : position / (RATING_THRESHOLDS.length - 1);
+}
+
+/**
+ * Credit scoring from platform history.
+ * The score is a base plus the points each factor contributes: KYC status, deposit
+ * history, quality grades of deposited lots, repayment punctuality and dispute
+ * outcomes. The contributions are stored on the profile's riskAssessment so that
+ * every score can be explained. Borrowers are re-scored when those inputs change.
+ */
+export class CreditScoringService {
+  private rescoreTimer: NodeJS.Timeout | null = null;
+
+  /**
+   * Re-score borrowers with open loans once a day, as instalments fall overdue
+   */
+  start() {
+    if (this.rescoreTimer) return;
+    this.rescoreTimer = setInterval(() => {
+      this.rescoreBorrowers().catch(error => console.error('Daily credit re-scoring failed:', error));
+    }, DAY_MS);
+    this.rescoreTimer.unref?.();
+  }
+
+  /**
+   * Cancel the daily re-scoring
+   */
+  stop() {
+    if (this.rescoreTimer) clearInterval(this.rescoreTimer);
+    this.rescoreTimer = null;
+  }
+
+  /**
+   * Compute a user's score without storing it
+   * @param userId The user
+   * @param trigger What prompted the scoring, recorded with the result
+   */
+  async score(userId: number, trigger: string = 'manual'): Promise<CreditScore> {
+    const user = await storage.getUser(userId);
+    if (!user) {
+      throw new Error("User not found");
+    }
+
+    const commodities = await storage.listCommoditiesByOwner(userId);
+    const factors = [
+      this.kycFactor(!!user.kycVerified),
+      this.depositFactor(commodities),
+      this.qualityFactor(commodities),
+      await this.repaymentFactor(userId),
+      await this.disputeFactor(userId)
+    ];
+
+    const score = Math.round(clamp(BASE_SCORE + factors.reduce((sum, factor) => sum + factor.points, 0), MIN_SCORE, MAX_SCORE));
+    return {
+      userId,
+      score,
+      rating: ratingForScore(score),
+      baseScore: BASE_SCORE,
+      factors,
+      trigger,
+      scoredAt: new Date().toISOString()
+    };
+  }
+
+  /**
+   * Score a user and store the result on their credit profile
+   */
+  async rescore(userId: number, trigger: string = 'manual'): Promise<UserCreditProfile> {
+    const result = await this.score(userId, trigger);
+    const history = await this.creditHistory(userId);
+
+    const profile = {
+      creditScore: result.score,
+      creditRating: result.rating,
+      creditHistory: history,
+      riskAssessment: {
+        model: 'platform-history-v1',
+        baseScore: result.baseScore,
+        factors: result.factors,
+        trigger: result.trigger,
+        scoredAt: result.scoredAt
+      },
+      // 0 (safest) to 100 (riskiest) across the score range
+      defaultRiskScore: ((MAX_SCORE - result.score) / (MAX_SCORE - MIN_SCORE) * 100).toFixed(2),
+      lastUpdated: new Date()
+    };
+
+    const existing = await storage.getUserCreditProfile(userId);
+    return existing
+      ? (await storage.updateUserCreditProfile(userId, profile))!
+      : storage.createUserCreditProfile({ userId, ...profile });
+  }
+
+  /**
+   * Re-score after an event; failures are logged so that the event itself is not undone
+   */
+  async rescoreQuietly(userId: number | null | undefined, trigger: string) {
+    if (!userId) return;
+    try {
+      await this.rescore(userId, trigger);
+    } catch (error) {
+      console.error(`Failed to re-score user ${userId} after ${trigger}:`, error);
+    }
+  }
+
+  /**
+   * A user's stored profile, scoring them first if they have never been scored
+   */
+  async getProfile(userId: number): Promise<UserCreditProfile> {
+    const profile = await storage.getUserCreditProfile(userId);
+    return profile?.creditScore != null ? profile : this.rescore(userId, 'first_use');
+  }
+
+  /**
+   * Platform direct lending rate for a user, from their rating; null when the rating is not lent to
+   */
+  async directLendingRate(userId: number) {
+    const profile = await this.getProfile(userId);
+    const creditScore = profile.creditScore ?? BASE_SCORE;
+    const creditRating = (profile.creditRating ?? ratingForScore(creditScore)) as CreditRating;
+    return { interestRate: DIRECT_LENDING_RATES[creditRating], creditScore, creditRating };
+  }
+
+  /**
+   * Re-score every user with an open loan
+   */
+  async rescoreBorrowers() {
+    const borrowers = new Set((await storage.listLoans())
+      .filter(loan => ['approved', 'active', 'defaulted'].includes(loan.status))
+      .map(loan => loan.userId)
+      .filter((userId): userId is number => userId !== null));
+
+    for (const userId of Array.from(borrowers)) {
+      await this.rescoreQuietly(userId, 'daily');
+    }
+    return borrowers.size;
+  }
+
+  private kycFactor(verified: boolean): ScoreFactor {
+    return {
+      factor: 'kyc',
+      label: 'KYC status',
+      points: verified ? 50 : -50,
+      detail: verified ? 'Identity verified' : 'Identity not verified'
+    };
+  }
+
+  // Regular depositors over a longer period score higher; up to +90
+  private depositFactor(commodities: Commodity[]): ScoreFactor {
+    const dates = commodities.map(commodity => commodity.depositDate).filter((date): date is Date => !!date);
+    if (dates.length === 0) {
+      return { factor: 'deposit_history', label: 'Deposit history', points: -30, detail: 'No deposits yet' };
+    }
+
+    const first = Math.min(...dates.map(date => new Date(date).getTime()));
+    const months = Math.floor((Date.now() - first) / (30 * DAY_MS));
+    return {
+      factor: 'deposit_history',
+      label: 'Deposit history',
+      points: Math.min(60, dates.length * 6) + Math.min(30, months * 3),
+      detail: `${dates.length} deposit${dates.length === 1 ? '' : 's'} over ${months} month${months === 1 ? '' : 's'}`
+    };
+  }
+
+  // Average quality score of graded lots against a B-grade benchmark of 80; -90 to +60
+  private qualityFactor(commodities: Commodity[]): ScoreFactor {
+    const scores = commodities
+      .map(commodity => this.qualityScore(commodity))
+      .filter((score): score is number => score !== null);
+    if (scores.length === 0) {
+      return { factor: 'quality', label: 'Quality grades', points: 0, detail: 'No graded lots' };
+    }
+
+    const average = scores.reduce((sum, score) => sum + score, 0) / scores.length;
+    const rejected = scores.filter(score => score === 0).length;
+    return {
+      factor: 'quality',
+      label: 'Quality grades',
+      points: Math.round(clamp((average - 80) * 3, -90, 60)),
+      detail: `Average quality score ${average.toFixed(1)} across ${scores.length} lot${scores.length === 1 ? '' : 's'}`
+        + (rejected ? `, ${rejected} rejected` : '')
+    };
+  }
+
+  // Share of instalments paid on time against an 80% benchmark, less overdue instalments and defaults; -300 to +150
+  private async repaymentFactor(userId: number): Promise<ScoreFactor> {
+    const history = await this.creditHistory(userId);
+    if (history.totalLoans === 0) {
+      return { factor: 'repayment', label: 'Repayment punctuality', points: 0, detail: 'No loans yet' };
+    }
+
+    const settled = history.repaidOnTime + history.lateRepayments;
+    const punctuality = settled > 0 ? history.repaidOnTime / settled : null;
+    const points = (punctuality === null ? 0 : clamp((punctuality - 0.8) * 500, -150, 100))
+      - history.overdueInstalments * 25
+      - history.defaults * 150
+      + Math.min(45, history.loansRepaid * 15);
+
+    const parts = [
+      punctuality === null ? 'No instalments due yet' : `${history.repaidOnTime} of ${settled} instalments paid on time`,
+      `${history.repaymentsMade} repayment${history.repaymentsMade === 1 ? '' : 's'} made`
+    ];
+    if (history.overdueInstalments) parts.push(`${history.overdueInstalments} overdue`);
+    if (history.defaults) parts.push(`${history.defaults} defaulted loan${history.defaults === 1 ? '' : 's'}`);
+    if (history.loansRepaid) parts.push(`${history.loansRepaid} loan${history.loansRepaid === 1 ? '' : 's'} repaid in full`);
+
+    return {
+      factor: 'repayment',
+      label: 'Repayment punctuality',
+      points: Math.round(clamp(points, -300, 150)),
+      detail: parts.join('; ')
+    };
+  }
+
+  // Disputes upheld on the user's goods, and disputes they filed that were rejected; down to -120
+  private async disputeFactor(userId: number): Promise<ScoreFactor> {
+    const receipts = await storage.listWarehouseReceiptsByOwner(userId);
+    let upheld = 0;
+    for (const receipt of receipts) {
+      const disputes = await storage.listDisputesByReceipt(receipt.id);
+      upheld += disputes.filter(dispute => dispute.status === 'resolved' && dispute.filedBy !== userId).length;
+    }
+    const rejected = (await storage.listDisputesByFiler(userId)).filter(dispute => dispute.status === 'rejected').length;
+
+    if (upheld === 0 && rejected === 0) {
+      return { factor: 'disputes', label: 'Dispute outcomes', points: 0, detail: 'No adverse dispute outcomes' };
+    }
+    const parts = [];
+    if (upheld) parts.push(`${upheld} dispute${upheld === 1 ? '' : 's'} upheld against your receipts`);
+    if (rejected) parts.push(`${rejected} dispute${rejected === 1 ? '' : 's'} you filed rejected`);
+    return {
+      factor: 'disputes',
+      label: 'Dispute outcomes',
+      points: Math.max(-120, -(upheld * 30 + rejected * 10)),
+      detail: parts.join('; ')
+    };
+  }
+
+  /**
+   * Loan and repayment counts, in the shape stored on userCreditProfiles.creditHistory
+   */
+  private async creditHistory(userId: number) {
+    const loans = await storage.listLoansByUser(userId);
+    const now = Date.now();
+    const history = {
+      totalLoans: loans.length,
+      loansRepaid: 0,
+      repaidOnTime: 0,
+      lateRepayments: 0,
+      overdueInstalments: 0,
+      repaymentsMade: 0,
+      defaults: 0
+    };
+
+    for (const loan of loans) {
+      if (loan.status === 'repaid') history.loansRepaid++;
+      if (loan.status === 'defaulted' || loan.status === 'liquidated') history.defaults++;
+      history.repaymentsMade += (await storage.listLoanRepaymentsByLoan(loan.id)).length;
+
+      for (const instalment of await storage.listLoanInstalments(loan.id)) {
+        const due = new Date(instalment.dueDate).getTime();
+        if (instalment.status === 'paid' && instalment.paidAt) {
+          if (new Date(instalment.paidAt).getTime() <= due + GRACE_DAYS * DAY_MS) {
+            history.repaidOnTime++;
+          } else {
+            history.lateRepayments++;
+          }
+        } else if (instalment.status === 'overdue' || (instalment.status !== 'rescheduled' && instalment.status !== 'paid' && due + GRACE_DAYS * DAY_MS < now)) {
+          history.overdueInstalments++;
+        }
+      }
+    }
+    return history;
+  }
+
+  // Score recorded by grading, or the score of the grade label for older lots
+  private qualityScore(commodity: Commodity): number | null {
+    const grading = (commodity.qualityParameters as { grading?: { score?: number; grade?: string } } | null)?.grading;
+    if (typeof grading?.score === 'number' && grading.grade !== 'Ungraded') {
+      return grading.score;
+    }
+    const grade = commodity.gradeAssigned?.replace(/^Grade\s+/i, '');
+    return grade && grade in GRADE_SCORES ? GRADE_SCORES[grade] : null;
+  }
+}
+
+// Export singleton instance
+export const creditScoringService = new CreditScoringService();
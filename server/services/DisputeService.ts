@@ -0,0 +1,332 @@
+import { storage } from "../storage";
+import FileUploadService from "./FileUploadService";
+import BroadcastService from "./BroadcastService";
+import { creditScoringService } from "./CreditScoringService";
+import { hasPermission } from "../middleware/auth";
+import type {
+  Dispute,
+  DisputeStatus,
+  DisputeEvidence,
+  DisputeHistoryEntry,
+  InsertDispute,
+  WarehouseReceipt
+} from "@shared/schema";
+
+/**
+ * Allowed status transitions for the Red Channel dispute lifecycle
+ * filed -> under_review -> evidence_requested -> resolved / rejected
+ */
+const DISPUTE_TRANSITIONS: Record<DisputeStatus, DisputeStatus[]> = {
+  filed: ['under_review', 'rejected'],
+  under_review: ['evidence_requested', 'resolved', 'rejected'],
+  evidence_requested: ['under_review', 'resolved', 'rejected'],
+  resolved: [],
+  rejected: []
+};
+
+const OPEN_DISPUTE_STATUSES: DisputeStatus[] = ['filed', 'under_review', 'evidence_requested'];
+
+/**
+ * Service for the Red Channel: filing, reviewing and closing disputes on warehouse receipts.
+ * A receipt is frozen while it has at least one open dispute.
+ */
+export class DisputeService {
+  /**
+   * Check whether a dispute is still open (not resolved or rejected)
+   */
+  isOpen(dispute: Dispute): boolean {
+    return OPEN_DISPUTE_STATUSES.includes(dispute.status);
+  }
+
+  /**
+   * File a new dispute against a receipt and freeze the receipt
+   * @param userId The user filing the dispute
+   * @param data Dispute details
+   * @param files Optional evidence files uploaded with the dispute
+   */
+  async fileDispute(
+    userId: number,
+    data: Pick<InsertDispute, 'receiptId' | 'disputeType' | 'priority' | 'description'>,
+    files: Express.Multer.File[] = []
+  ): Promise<Dispute> {
+    const receipt = await storage.getWarehouseReceipt(data.receiptId);
+    if (!receipt) {
+      throw new Error("Receipt not found");
+    }
+
+    if (receipt.ownerId !== userId) {
+      throw new Error("Not authorized to dispute this receipt");
+    }
+
+    const evidence = await this.saveEvidence(userId, files);
+
+    const dispute = await storage.createDispute({
+      ...data,
+      filedBy: userId,
+      status: 'filed',
+      evidence,
+      history: [this.historyEntry('filed', userId, data.description)]
+    });
+
+    await this.setReceiptFrozen(receipt, true);
+    this.notify(dispute, 'dispute_filed');
+
+    return dispute;
+  }
+
+  /**
+   * Assign a reviewer to a dispute
+   * @param disputeId The dispute to assign
+   * @param actorId The user performing the assignment
+   * @param assigneeId The reviewer being assigned
+   */
+  async assign(disputeId: number, actorId: number, assigneeId: number): Promise<Dispute> {
+    const dispute = await this.getOpenDispute(disputeId);
+
+    if (assigneeId === dispute.filedBy) {
+      throw new Error("The filer cannot review their own dispute");
+    }
+
+    const assignee = await storage.getUser(assigneeId);
+    if (!assignee) {
+      throw new Error("Assignee not found");
+    }
+
+    if (!hasPermission(assignee.role, 'dispute:review')) {
+      throw new Error("Assignee is not permitted to review disputes");
+    }
+
+    const history = this.getHistory(dispute);
+    history.push(this.historyEntry(dispute.status, actorId, `Assigned to user ${assigneeId}`));
+
+    const updated = await storage.updateDispute(disputeId, { assigneeId, history });
+    this.notify(updated!, 'dispute_assigned');
+
+    return updated!;
+  }
+
+  /**
+   * Move a dispute into review. Also used to resume review after evidence was requested.
+   */
+  async startReview(disputeId: number, actorId: number, note?: string): Promise<Dispute> {
+    const dispute = await this.getOpenDispute(disputeId);
+    this.assertAssignee(dispute, actorId);
+
+    return this.transition(dispute, 'under_review', actorId, note);
+  }
+
+  /**
+   * Ask the filer to provide additional evidence
+   */
+  async requestEvidence(disputeId: number, actorId: number, request: string): Promise<Dispute> {
+    const dispute = await this.getOpenDispute(disputeId);
+    this.assertAssignee(dispute, actorId);
+
+    return this.transition(dispute, 'evidence_requested', actorId, request, { evidenceRequest: request });
+  }
+
+  /**
+   * Attach evidence files to an open dispute
+   * @param disputeId The dispute receiving the evidence
+   * @param userId The user uploading the evidence (filer or assignee)
+   * @param files The uploaded files
+   * @param note Optional note describing the evidence
+   */
+  async addEvidence(disputeId: number, userId: number, files: Express.Multer.File[], note?: string): Promise<Dispute> {
+    const dispute = await this.getOpenDispute(disputeId);
+
+    if (userId !== dispute.filedBy && userId !== dispute.assigneeId) {
+      throw new Error("Not authorized to add evidence to this dispute");
+    }
+
+    if (files.length === 0) {
+      throw new Error("At least one evidence file is required");
+    }
+
+    const evidence = [...this.getEvidence(dispute), ...(await this.saveEvidence(userId, files, note))];
+    const history = this.getHistory(dispute);
+    history.push(this.historyEntry(dispute.status, userId, `Added ${files.length} evidence file(s)`));
+
+    const updated = await storage.updateDispute(disputeId, { evidence, history });
+    this.notify(updated!, 'dispute_evidence_added');
+
+    return updated!;
+  }
+
+  /**
+   * Resolve a dispute in favour of the filer and unfreeze the receipt
+   */
+  async resolve(disputeId: number, actorId: number, resolutionNote: string): Promise<Dispute> {
+    const dispute = await this.getOpenDispute(disputeId);
+    this.assertAssignee(dispute, actorId);
+
+    return this.close(dispute, 'resolved', actorId, resolutionNote);
+  }
+
+  /**
+   * Reject a dispute and unfreeze the receipt
+   */
+  async reject(disputeId: number, actorId: number, resolutionNote: string): Promise<Dispute> {
+    const dispute = await this.getOpenDispute(disputeId);
+    this.assertAssignee(dispute, actorId);
+
+    return this.close(dispute, 'rejected', actorId, resolutionNote);
+  }
+
+  /**
+   * Check whether a user may view a dispute (filer, assignee, receipt owner or dispute administrator)
+   */
+  async canView(dispute: Dispute, userId: number): Promise<boolean> {
+    if (dispute.filedBy === userId || dispute.assigneeId === userId) {
+      return true;
+    }
+
+    const user = await storage.getUser(userId);
+    if (user && hasPermission(user.role, 'dispute:assign')) {
+      return true;
+    }
+
+    const receipt = await storage.getWarehouseReceipt(dispute.receiptId);
+    return receipt?.ownerId === userId;
+  }
+
+  /**
+   * Build the client-facing view of a dispute with receipt details
+   */
+  async toView(dispute: Dispute) {
+    const receipt = await storage.getWarehouseReceipt(dispute.receiptId);
+
+    return {
+      ...dispute,
+      evidence: this.getEvidence(dispute),
+      history: this.getHistory(dispute),
+      receiptNumber: receipt?.receiptNumber,
+      commodityName: receipt?.commodityName,
+      quantity: receipt?.quantity,
+      valuation: receipt?.valuation,
+      isReceiptFrozen: receipt?.isFrozen ?? false
+    };
+  }
+
+  private async close(dispute: Dispute, status: 'resolved' | 'rejected', actorId: number, resolutionNote: string): Promise<Dispute> {
+    if (!resolutionNote) {
+      throw new Error("A resolution note is required");
+    }
+
+    const updated = await this.transition(dispute, status, actorId, resolutionNote, {
+      resolutionNote,
+      resolvedAt: new Date()
+    });
+
+    // Only unfreeze once no other dispute on the receipt remains open
+    const receiptDisputes = await storage.listDisputesByReceipt(dispute.receiptId);
+    const stillOpen = receiptDisputes.some(d => d.id !== dispute.id && this.isOpen(d));
+    const receipt = await storage.getWarehouseReceipt(dispute.receiptId);
+    if (!stillOpen && receipt) {
+      await this.setReceiptFrozen(receipt, false);
+    }
+
+    // The outcome counts towards the credit scores of the filer and the receipt owner
+    await creditScoringService.rescoreQuietly(dispute.filedBy, 'dispute_closed');
+    if (receipt?.ownerId && receipt.ownerId !== dispute.filedBy) {
+      await creditScoringService.rescoreQuietly(receipt.ownerId, 'dispute_closed');
+    }
+
+    return updated;
+  }
+
+  private async transition(
+    dispute: Dispute,
+    status: DisputeStatus,
+    actorId: number,
+    note?: string,
+    extra: Partial<InsertDispute> & { resolvedAt?: Date } = {}
+  ): Promise<Dispute> {
+    if (!DISPUTE_TRANSITIONS[dispute.status].includes(status)) {
+      throw new Error(`Cannot move dispute from '${dispute.status}' to '${status}'`);
+    }
+
+    const history = this.getHistory(dispute);
+    history.push(this.historyEntry(status, actorId, note));
+
+    const updated = await storage.updateDispute(dispute.id, { ...extra, status, history });
+    this.notify(updated!, `dispute_${status}`);
+
+    return updated!;
+  }
+
+  private async getOpenDispute(disputeId: number): Promise<Dispute> {
+    const dispute = await storage.getDispute(disputeId);
+    if (!dispute) {
+      throw new Error("Dispute not found");
+    }
+
+    if (!this.isOpen(dispute)) {
+      throw new Error(`Dispute is already ${dispute.status}`);
+    }
+
+    return dispute;
+  }
+
+  private assertAssignee(dispute: Dispute, actorId: number) {
+    if (!dispute.assigneeId) {
+      throw new Error("Dispute has not been assigned to a reviewer");
+    }
+
+    if (dispute.assigneeId !== actorId) {
+      throw new Error("Only the assigned reviewer can act on this dispute");
+    }
+  }
+
+  private async saveEvidence(userId: number, files: Express.Multer.File[], note?: string): Promise<DisputeEvidence[]> {
+    const evidence: DisputeEvidence[] = [];
+
+    for (const file of files) {
+      const saved = await FileUploadService.saveUploadedFile(file, false);
+      evidence.push({
+        fileName: saved.fileName,
+        originalName: file.originalname,
+        fileType: saved.fileType,
+        uploadedBy: userId,
+        uploadedAt: new Date().toISOString(),
+        note
+      });
+    }
+
+    return evidence;
+  }
+
+  private async setReceiptFrozen(receipt: WarehouseReceipt, isFrozen: boolean) {
+    if (receipt.isFrozen === isFrozen) return;
+
+    await storage.updateWarehouseReceipt(receipt.id, { isFrozen });
+    if (receipt.ownerId) {
+      BroadcastService.broadcastReceiptUpdate(receipt.ownerId, receipt.id, {
+        type: isFrozen ? 'receipt_frozen' : 'receipt_unfrozen',
+        isFrozen
+      });
+    }
+  }
+
+  private historyEntry(status: DisputeStatus, actorId: number, note?: string): DisputeHistoryEntry {
+    return { status, actorId, note, at: new Date().toISOString() };
+  }
+
+  private getHistory(dispute: Dispute): DisputeHistoryEntry[] {
+    return Array.isArray(dispute.history) ? [...(dispute.history as DisputeHistoryEntry[])] : [];
+  }
+
+  private getEvidence(dispute: Dispute): DisputeEvidence[] {
+    return Array.isArray(dispute.evidence) ? [...(dispute.evidence as DisputeEvidence[])] : [];
+  }
+
+  private notify(dispute: Dispute, type: string) {
+    const payload = { type, disputeId: dispute.id, status: dispute.status };
+    BroadcastService.broadcastReceiptUpdate(dispute.filedBy, dispute.receiptId, payload);
+    if (dispute.assigneeId && dispute.assigneeId !== dispute.filedBy) {
+      BroadcastService.broadcastReceiptUpdate(dispute.assigneeId, dispute.receiptId, payload);
+    }
+  }
+}
+
+export const disputeService = new DisputeService();
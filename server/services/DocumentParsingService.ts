@@ -8,6 +8,7 @@ import { PNG } from 'pngjs';
 import { WarehouseReceipt, insertWarehouseReceiptSchema } from '@shared/schema';
 import { storage } from '../storage';
 import fileUploadService from './FileUploadService';
+import { auditLedgerService } from './AuditLedgerService';
 import * as crypto from 'crypto';
 
 /**
@@ -401,7 +402,7 @@ class DocumentParsingService {
           } else if (receipt.receiptNumber) {
             // Only save if it has a receipt number
             console.log('Creating Orange Channel receipt:', JSON.stringify(receipt, null, 2));
-            const created = await storage.createWarehouseReceipt(receipt as any);
+            const created = await auditLedgerService.anchorReceipt(await storage.createWarehouseReceipt(receipt as any));
             savedReceipts.push(created);
           }
         } catch (error) {
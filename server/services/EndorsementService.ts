@@ -0,0 +1,318 @@
+import * as crypto from 'crypto';
+import { storage } from "../storage";
+import BroadcastService from "./BroadcastService";
+import { auditLedgerService } from "./AuditLedgerService";
+import type { EndorsementConsent, ReceiptEndorsement, WarehouseReceipt } from "@shared/schema";
+
+// Statement the holder consents to when endorsing a receipt
+const CONSENT_STATEMENT = "I, the holder of this warehouse receipt, endorse it and deliver the goods it represents to the endorsee";
+
+// Previous hash of the first endorsement when the receipt carries no hash of its own
+const GENESIS_HASH = "0".repeat(64);
+
+export interface EndorsementChainEntry {
+  sequence: number;
+  endorser: string;
+  endorsee: string;
+  endorsedAt: Date | null;
+  acceptedAt: Date | null;
+  endorsementHash: string;
+  previousHash: string;
+}
+
+/**
+ * Service for the endorsement chain of negotiable warehouse receipts.
+ * The holder endorses a receipt to another user with explicit consent; ownership only
+ * moves once the endorsee accepts. Every accepted endorsement is hash-linked to the
+ * previous one and recorded as an 'endorsement' receipt transfer.
+ */
+export class EndorsementService {
+  /**
+   * Endorse a receipt to another user (holder consent)
+   * @param receiptId The receipt being endorsed
+   * @param holderId The current holder giving consent
+   * @param endorseeId The user the receipt is endorsed to
+   * @param note Optional note for the endorsee
+   */
+  async endorse(receiptId: number, holderId: number, endorseeId: number, note?: string) {
+    const receipt = await storage.getWarehouseReceipt(receiptId);
+    if (!receipt) {
+      throw new Error("Receipt not found");
+    }
+
+    if (receipt.ownerId !== holderId) {
+      throw new Error("Not authorized to endorse this receipt");
+    }
+
+    this.assertEndorsable(receipt);
+
+    if (endorseeId === holderId) {
+      throw new Error("A receipt cannot be endorsed to its current holder");
+    }
+
+    const endorsee = await storage.getUser(endorseeId);
+    if (!endorsee) {
+      throw new Error("Endorsee not found");
+    }
+
+    const endorsements = await storage.listReceiptEndorsementsByReceipt(receiptId);
+    if (endorsements.some(e => e.status === 'pending')) {
+      throw new Error("Receipt already has an endorsement awaiting acceptance");
+    }
+
+    const accepted = endorsements.filter(e => e.status === 'accepted');
+    const sequence = accepted.length + 1;
+    const previousHash = accepted.length > 0
+      ? accepted[accepted.length - 1].endorsementHash
+      : receipt.blockchainHash || GENESIS_HASH;
+
+    const consent: EndorsementConsent = {
+      statement: CONSENT_STATEMENT,
+      consentedAt: new Date().toISOString()
+    };
+
+    const endorsement = await storage.createReceiptEndorsement({
+      receiptId,
+      sequence,
+      endorserId: holderId,
+      endorseeId,
+      status: 'pending',
+      holderConsent: consent,
+      note: note || null,
+      previousHash,
+      endorsementHash: this.hashEndorsement(receipt, sequence, holderId, endorseeId, consent, previousHash)
+    });
+
+    BroadcastService.broadcastReceiptUpdate(endorseeId, receiptId, {
+      type: 'endorsement_received',
+      endorsementId: endorsement.id,
+      receiptNumber: receipt.receiptNumber
+    });
+
+    return endorsement;
+  }
+
+  /**
+   * Accept or reject an endorsement (endorsee acceptance)
+   * @param endorsementId The pending endorsement
+   * @param userId The endorsee responding
+   * @param accept Whether the endorsee accepts the receipt
+   * @param note Optional response note
+   */
+  async respond(endorsementId: number, userId: number, accept: boolean, note?: string) {
+    const endorsement = await this.getPending(endorsementId);
+
+    if (endorsement.endorseeId !== userId) {
+      throw new Error("Not authorized to respond to this endorsement");
+    }
+
+    if (!accept) {
+      const rejected = await storage.updateReceiptEndorsement(endorsement.id, {
+        status: 'rejected',
+        responseNote: note || null,
+        respondedAt: new Date()
+      });
+
+      BroadcastService.broadcastReceiptUpdate(endorsement.endorserId, endorsement.receiptId, {
+        type: 'endorsement_rejected',
+        endorsementId: endorsement.id
+      });
+
+      return { endorsement: rejected!, receipt: undefined };
+    }
+
+    // The receipt may have changed since it was endorsed
+    const receipt = await storage.getWarehouseReceipt(endorsement.receiptId);
+    if (!receipt) {
+      throw new Error("Receipt not found");
+    }
+
+    if (receipt.ownerId !== endorsement.endorserId) {
+      throw new Error("The endorser no longer holds this receipt");
+    }
+
+    this.assertEndorsable(receipt);
+
+    const transfer = await auditLedgerService.recordTransfer({
+      receiptId: receipt.id,
+      fromUserId: endorsement.endorserId,
+      toUserId: endorsement.endorseeId,
+      transferType: 'endorsement',
+      metadata: {
+        endorsementId: endorsement.id,
+        sequence: endorsement.sequence,
+        endorsementHash: endorsement.endorsementHash,
+        note: endorsement.note
+      }
+    });
+
+    const accepted = await storage.updateReceiptEndorsement(endorsement.id, {
+      status: 'accepted',
+      transferId: transfer.id,
+      responseNote: note || null,
+      respondedAt: new Date()
+    });
+
+    const updatedReceipt = await storage.updateWarehouseReceipt(receipt.id, {
+      ownerId: endorsement.endorseeId
+    });
+
+    BroadcastService.broadcastReceiptUpdate(endorsement.endorserId, receipt.id, {
+      type: 'endorsement_accepted',
+      endorsementId: endorsement.id,
+      newOwnerId: endorsement.endorseeId
+    });
+
+    return { endorsement: accepted!, receipt: updatedReceipt };
+  }
+
+  /**
+   * Withdraw an endorsement before the endorsee has accepted it
+   * @param endorsementId The pending endorsement
+   * @param userId The endorser cancelling it
+   */
+  async cancel(endorsementId: number, userId: number) {
+    const endorsement = await this.getPending(endorsementId);
+
+    if (endorsement.endorserId !== userId) {
+      throw new Error("Not authorized to cancel this endorsement");
+    }
+
+    const cancelled = await storage.updateReceiptEndorsement(endorsement.id, {
+      status: 'cancelled',
+      respondedAt: new Date()
+    });
+
+    BroadcastService.broadcastReceiptUpdate(endorsement.endorseeId, endorsement.receiptId, {
+      type: 'endorsement_cancelled',
+      endorsementId: endorsement.id
+    });
+
+    return cancelled!;
+  }
+
+  /**
+   * Endorsements awaiting acceptance by a user, with the receipts they concern
+   */
+  async listIncoming(userId: number) {
+    const endorsements = await storage.listPendingEndorsementsForUser(userId);
+    const receipts = endorsements.length > 0
+      ? await storage.getReceiptsByIds(endorsements.map(e => e.receiptId))
+      : [];
+
+    return Promise.all(endorsements.map(async endorsement => ({
+      ...endorsement,
+      receipt: receipts.find(r => r.id === endorsement.receiptId),
+      endorser: await this.displayName(endorsement.endorserId)
+    })));
+  }
+
+  /**
+   * Accepted endorsements of a receipt in order, with the hash links checked
+   */
+  async getChain(receiptId: number): Promise<{ entries: EndorsementChainEntry[]; intact: boolean }> {
+    const receipt = await storage.getWarehouseReceipt(receiptId);
+    if (!receipt) {
+      throw new Error("Receipt not found");
+    }
+
+    const accepted = (await storage.listReceiptEndorsementsByReceipt(receiptId))
+      .filter(e => e.status === 'accepted')
+      .sort((a, b) => a.sequence - b.sequence);
+
+    let intact = true;
+    let expectedPrevious = receipt.blockchainHash || GENESIS_HASH;
+    const entries: EndorsementChainEntry[] = [];
+
+    for (const endorsement of accepted) {
+      const consent = endorsement.holderConsent as EndorsementConsent;
+      const recomputed = this.hashEndorsement(
+        receipt,
+        endorsement.sequence,
+        endorsement.endorserId,
+        endorsement.endorseeId,
+        consent,
+        endorsement.previousHash
+      );
+
+      if (endorsement.previousHash !== expectedPrevious || recomputed !== endorsement.endorsementHash) {
+        intact = false;
+      }
+      expectedPrevious = endorsement.endorsementHash;
+
+      entries.push({
+        sequence: endorsement.sequence,
+        endorser: await this.displayName(endorsement.endorserId),
+        endorsee: await this.displayName(endorsement.endorseeId),
+        endorsedAt: endorsement.createdAt,
+        acceptedAt: endorsement.respondedAt,
+        endorsementHash: endorsement.endorsementHash,
+        previousHash: endorsement.previousHash
+      });
+    }
+
+    return { entries, intact };
+  }
+
+  /**
+   * Non-negotiable receipts cannot change hands; negotiable ones only while active and unencumbered
+   */
+  private assertEndorsable(receipt: WarehouseReceipt) {
+    if (receipt.receiptType === 'non_negotiable') {
+      throw new Error("Non-negotiable receipts cannot be transferred");
+    }
+
+    if (receipt.isFrozen) {
+      throw new Error("Receipt is frozen while a dispute is open");
+    }
+
+    if (receipt.status !== 'active') {
+      throw new Error(`Receipt cannot be transferred in '${receipt.status}' status`);
+    }
+
+    if (parseFloat(receipt.collateralUsed || "0") > 0) {
+      throw new Error("Receipt is pledged as collateral");
+    }
+  }
+
+  private async getPending(endorsementId: number): Promise<ReceiptEndorsement> {
+    const endorsement = await storage.getReceiptEndorsement(endorsementId);
+    if (!endorsement) {
+      throw new Error("Endorsement not found");
+    }
+
+    if (endorsement.status !== 'pending') {
+      throw new Error(`Endorsement is already ${endorsement.status}`);
+    }
+
+    return endorsement;
+  }
+
+  private hashEndorsement(
+    receipt: WarehouseReceipt,
+    sequence: number,
+    endorserId: number,
+    endorseeId: number,
+    consent: EndorsementConsent,
+    previousHash: string
+  ): string {
+    return crypto
+      .createHash('sha256')
+      .update(JSON.stringify({
+        receiptNumber: receipt.receiptNumber,
+        sequence,
+        endorserId,
+        endorseeId,
+        consentedAt: consent.consentedAt,
+        previousHash
+      }))
+      .digest('hex');
+  }
+
+  private async displayName(userId: number): Promise<string> {
+    const user = await storage.getUser(userId);
+    return user?.fullName || user?.username || `User #${userId}`;
+  }
+}
+
+export const endorsementService = new EndorsementService();
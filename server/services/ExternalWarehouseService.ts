@@ -1,6 +1,7 @@
 import axios from 'axios';
 import { WarehouseReceipt, insertWarehouseReceiptSchema } from '@shared/schema';
 import { storage } from '../storage';
+import { auditLedgerService } from './AuditLedgerService';
 
 /**
  * Interface for external warehouse API credentials
@@ -267,7 +268,7 @@ class ExternalWarehouseService {
             savedReceipts.push(updated);
           } else {
             // Create new receipt
-            const created = await storage.createWarehouseReceipt(receipt as any);
+            const created = await auditLedgerService.anchorReceipt(await storage.createWarehouseReceipt(receipt as any));
             savedReceipts.push(created);
           }
         } catch (error) {
@@ -12,6 +12,7 @@ import { promises as fsPromises } from 'fs';
 export class FileUploadService {
   private uploadDir: string;
   private receiptAttachmentsDir: string;
+  private kycDocumentsDir: string;
 
   constructor() {
     // Set upload directory for temporary files
@@ -19,6 +20,9 @@ export class FileUploadService {
     
     // Set permanent directory for receipt attachments
     this.receiptAttachmentsDir = path.join(process.cwd(), 'uploads', 'receipts');
+
+    // KYC documents are kept apart and never given a public URL
+    this.kycDocumentsDir = path.join(process.cwd(), 'uploads', 'kyc');
     
     // Create directories if they don't exist
     if (!fs.existsSync(this.uploadDir)) {
@@ -28,6 +32,10 @@ export class FileUploadService {
     if (!fs.existsSync(this.receiptAttachmentsDir)) {
       fs.mkdirSync(this.receiptAttachmentsDir, { recursive: true });
     }
+
+    if (!fs.existsSync(this.kycDocumentsDir)) {
+      fs.mkdirSync(this.kycDocumentsDir, { recursive: true });
+    }
   }
 
   /**
@@ -159,6 +167,32 @@ export class FileUploadService {
     return path.join(this.receiptAttachmentsDir, filename);
   }
 
+  /**
+   * Save an identity document for KYC review. Only images and PDFs up to 5MB are accepted.
+   */
+  async saveKycDocument(file: Express.Multer.File): Promise<{ fileName: string; fileType: string }> {
+    const allowedTypes = ['image/jpeg', 'image/png', 'application/pdf'];
+    if (!allowedTypes.includes(file.mimetype)) {
+      throw new Error('Invalid file type. Please upload a JPEG, PNG or PDF document.');
+    }
+
+    const maxSize = 5 * 1024 * 1024; // 5MB
+    if (file.size > maxSize) {
+      throw new Error('File is too large. Maximum size is 5MB.');
+    }
+
+    const fileName = `${crypto.randomUUID()}${path.extname(file.originalname).toLowerCase()}`;
+    await fsPromises.writeFile(path.join(this.kycDocumentsDir, fileName), file.buffer);
+    return { fileName, fileType: file.mimetype };
+  }
+
+  /**
+   * Get the path to a KYC document by filename
+   */
+  getKycDocumentPath(filename: string): string {
+    return path.join(this.kycDocumentsDir, path.basename(filename));
+  }
+
   /**
    * Delete a file from disk
    */
@@ -0,0 +1,419 @@
+import crypto from "crypto";
+import { storage } from "../storage";
+import fileUploadService from "./FileUploadService";
+import { creditScoringService } from "./CreditScoringService";
+import { priceFeedService } from "./PriceFeedService";
+import type { KycDocument, KycLevel, KycSubmission, User } from "@shared/schema";
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+// Window over which credit withdrawals count against the tier limit
+const WITHDRAWAL_WINDOW_DAYS = 30;
+
+export type KycLimitKind = 'deposit' | 'loan' | 'withdrawal';
+
+/**
+ * Caps per KYC tier, in rupees: total value on deposit, total outstanding
+ * borrowing, and credit withdrawn over the last 30 days
+ */
+export const KYC_TIER_LIMITS: Record<KycLevel, Record<KycLimitKind, number>> = {
+  none: { deposit: 50_000, loan: 0, withdrawal: 0 },
+  basic: { deposit: 10_00_000, loan: 2_00_000, withdrawal: 1_00_000 },
+  full: { deposit: 1_00_00_000, loan: 50_00_000, withdrawal: 25_00_000 }
+};
+
+const LEVEL_RANK: Record<KycLevel, number> = { none: 0, basic: 1, full: 2 };
+
+// Documents that must accompany an application for each tier
+const REQUIRED_DOCUMENTS: Record<Exclude<KycLevel, 'none'>, KycDocument['type'][]> = {
+  basic: ['aadhaar', 'pan'],
+  full: ['aadhaar', 'pan', 'gst_certificate']
+};
+
+const LIMIT_LABELS: Record<KycLimitKind, string> = {
+  deposit: 'deposits',
+  loan: 'borrowing',
+  withdrawal: 'withdrawals'
+};
+
+// Verhoeff checksum tables used by Aadhaar
+const VERHOEFF_D = [
+  [0, 1, 2, 3, 4, 5, 6, 7, 8, 9],
+  [1, 2, 3, 4, 0, 6, 7, 8, 9, 5],
+  [2, 3, 4, 0, 1, 7, 8, 9, 5, 6],
+  [3, 4, 0, 1, 2, 8, 9, 5, 6, 7],
+  [4, 0, 1, 2, 3, 9, 5, 6, 7, 8],
+  [5, 9, 8, 7, 6, 0, 4, 3, 2, 1],
+  [6, 5, 9, 8, 7, 1, 0, 4, 3, 2],
+  [7, 6, 5, 9, 8, 2, 1, 0, 4, 3],
+  [8, 7, 6, 5, 9, 3, 2, 1, 0, 4],
+  [9, 8, 7, 6, 5, 4, 3, 2, 1, 0]
+];
+const VERHOEFF_P = [
+  [0, 1, 2, 3, 4, 5, 6, 7, 8, 9],
+  [1, 5, 7, 6, 2, 8, 3, 0, 9, 4],
+  [5, 8, 0, 3, 7, 9, 6, 1, 4, 2],
+  [8, 9, 1, 6, 0, 4, 3, 5, 2, 7],
+  [9, 4, 5, 3, 1, 2, 6, 8, 7, 0],
+  [4, 2, 8, 6, 5, 7, 3, 9, 0, 1],
+  [2, 7, 9, 3, 8, 0, 6, 4, 1, 5],
+  [7, 0, 4, 6, 9, 1, 3, 2, 5, 8]
+];
+
+const GSTIN_CHARSET = '0123456789ABCDEFGHIJKLMNOPQRSTUVWXYZ';
+
+/**
+ * Validate an Aadhaar number: 12 digits, not starting with 0 or 1, with a valid Verhoeff check digit
+ */
+export function isValidAadhaar(value: string): boolean {
+  if (!/^[2-9][0-9]{11}$/.test(value)) {
+    return false;
+  }
+  let check = 0;
+  value.split('').reverse().forEach((digit, i) => {
+    check = VERHOEFF_D[check][VERHOEFF_P[i % 8][parseInt(digit, 10)]];
+  });
+  return check === 0;
+}
+
+/**
+ * Validate a PAN: five letters, four digits, a letter; the fourth letter is the holder type
+ */
+export function isValidPan(value: string): boolean {
+  return /^[A-Z]{3}[ABCFGHLJPT][A-Z][0-9]{4}[A-Z]$/.test(value);
+}
+
+/**
+ * Validate a GSTIN: state code, the holder's PAN, entity number, 'Z' and a mod-36 check character
+ */
+export function isValidGstin(value: string): boolean {
+  if (!/^[0-9]{2}[A-Z]{5}[0-9]{4}[A-Z][1-9A-Z]Z[0-9A-Z]$/.test(value)) {
+    return false;
+  }
+  const stateCode = parseInt(value.slice(0, 2), 10);
+  if (stateCode < 1 || stateCode > 38 || !isValidPan(value.slice(2, 12))) {
+    return false;
+  }
+
+  let sum = 0;
+  for (let i = 0; i < 14; i++) {
+    const product = GSTIN_CHARSET.indexOf(value[i]) * (i % 2 === 0 ? 1 : 2);
+    sum += Math.floor(product / 36) + (product % 36);
+  }
+  return GSTIN_CHARSET[(36 - (sum % 36)) % 36] === value[14];
+}
+
+export interface KycSubmissionInput {
+  level: Exclude<KycLevel, 'none'>;
+  aadhaarNumber: string;
+  panNumber: string;
+  gstNumber?: string;
+}
+
+export interface KycUpload {
+  type: KycDocument['type'];
+  file: Express.Multer.File;
+}
+
+/**
+ * KYC onboarding.
+ * Users submit identity numbers and document scans for a tier; reviewers approve
+ * or reject from a queue. Identity numbers are format- and checksum-validated on
+ * submission, and Aadhaar is stored masked with a salted hash for duplicate checks.
+ * The approved tier caps how much a user may deposit, borrow and withdraw.
+ */
+export class KycService {
+  /**
+   * Submit identity details and documents for review
+   * @param userId The applicant
+   * @param input Tier applied for and identity numbers
+   * @param uploads Document scans, tagged with their type
+   */
+  async submit(userId: number, input: KycSubmissionInput, uploads: KycUpload[]) {
+    const user = await this.requireUser(userId);
+    if (LEVEL_RANK[this.levelOf(user)] >= LEVEL_RANK[input.level]) {
+      throw new Error(`KYC is already verified at the ${this.levelOf(user)} level`);
+    }
+
+    const history = await storage.listKycSubmissionsByUser(userId);
+    if (history.some(submission => submission.status === 'pending')) {
+      throw new Error("A KYC submission is already awaiting review");
+    }
+
+    const aadhaarNumber = input.aadhaarNumber.replace(/[\s-]/g, '');
+    const panNumber = input.panNumber.trim().toUpperCase();
+    const gstNumber = input.gstNumber?.trim().toUpperCase() || null;
+
+    if (!isValidAadhaar(aadhaarNumber)) {
+      throw new Error("Invalid Aadhaar number");
+    }
+    if (!isValidPan(panNumber)) {
+      throw new Error("Invalid PAN");
+    }
+    if (input.level === 'full' && !gstNumber) {
+      throw new Error("GSTIN is required for full KYC");
+    }
+    if (gstNumber) {
+      if (!isValidGstin(gstNumber)) {
+        throw new Error("Invalid GSTIN");
+      }
+      if (gstNumber.slice(2, 12) !== panNumber) {
+        throw new Error("GSTIN does not belong to the PAN provided");
+      }
+    }
+
+    const aadhaarHash = this.hashAadhaar(aadhaarNumber);
+    const sameAadhaar = await storage.listKycSubmissionsByAadhaarHash(aadhaarHash);
+    if (sameAadhaar.some(submission => submission.userId !== userId && submission.status !== 'rejected')) {
+      throw new Error("This Aadhaar number is already registered to another account");
+    }
+
+    const missing = REQUIRED_DOCUMENTS[input.level].filter(type => !uploads.some(upload => upload.type === type));
+    if (missing.length > 0) {
+      throw new Error(`Missing documents: ${missing.join(', ')}`);
+    }
+
+    const documents: KycDocument[] = [];
+    for (const upload of uploads) {
+      const saved = await fileUploadService.saveKycDocument(upload.file);
+      documents.push({
+        type: upload.type,
+        fileName: saved.fileName,
+        originalName: upload.file.originalname,
+        fileType: saved.fileType,
+        uploadedAt: new Date().toISOString()
+      });
+    }
+
+    const submission = await storage.createKycSubmission({
+      userId,
+      level: input.level,
+      aadhaarMasked: `XXXX-XXXX-${aadhaarNumber.slice(-4)}`,
+      aadhaarHash,
+      panNumber,
+      gstNumber,
+      documents,
+      status: 'pending'
+    });
+    return this.withoutHash(submission);
+  }
+
+  /**
+   * A user's verified tier, its limits, how much of each is used, and their latest submission
+   */
+  async getStatus(userId: number) {
+    const user = await this.requireUser(userId);
+    const level = this.levelOf(user);
+    const [latest] = await storage.listKycSubmissionsByUser(userId);
+
+    return {
+      userId,
+      level,
+      verified: level !== 'none',
+      limits: KYC_TIER_LIMITS[level],
+      usage: {
+        deposit: await this.usage(userId, 'deposit'),
+        loan: await this.usage(userId, 'loan'),
+        withdrawal: await this.usage(userId, 'withdrawal')
+      },
+      latestSubmission: latest ? this.withoutHash(latest) : null
+    };
+  }
+
+  /**
+   * Submissions of a user, newest first
+   */
+  async listSubmissions(userId: number) {
+    return (await storage.listKycSubmissionsByUser(userId)).map(submission => this.withoutHash(submission));
+  }
+
+  /**
+   * Pending submissions, oldest first
+   */
+  async listQueue() {
+    return (await storage.listKycSubmissionsByStatus('pending')).map(submission => this.withoutHash(submission));
+  }
+
+  /**
+   * A submission, for its owner or a reviewer
+   * @param canReview Whether the caller holds kyc:review
+   */
+  async getSubmission(submissionId: number, userId: number, canReview: boolean) {
+    const submission = await storage.getKycSubmission(submissionId);
+    if (!submission) {
+      throw new Error("KYC submission not found");
+    }
+    if (submission.userId !== userId && !canReview) {
+      throw new Error("Not authorized to view this KYC submission");
+    }
+    return this.withoutHash(submission);
+  }
+
+  /**
+   * Path of one of a submission's documents, for its owner or a reviewer
+   */
+  async getDocumentPath(submissionId: number, fileName: string, userId: number, canReview: boolean) {
+    const submission = await this.getSubmission(submissionId, userId, canReview);
+    const document = (submission.documents as KycDocument[]).find(doc => doc.fileName === fileName);
+    if (!document) {
+      throw new Error("KYC document not found");
+    }
+    return { ...document, path: fileUploadService.getKycDocumentPath(document.fileName) };
+  }
+
+  /**
+   * Approve a pending submission and raise the user to its tier
+   * @param reviewerId The reviewer; may not review their own submission
+   */
+  async approve(submissionId: number, reviewerId: number, note?: string) {
+    const submission = await this.requirePending(submissionId, reviewerId);
+    const reviewedAt = new Date();
+
+    const updated = await storage.updateKycSubmission(submission.id, {
+      status: 'approved',
+      reviewerId,
+      reviewNote: note ?? null,
+      reviewedAt
+    });
+
+    await storage.updateUser(submission.userId, {
+      kycVerified: true,
+      kycLevel: submission.level,
+      kycDocuments: {
+        level: submission.level,
+        aadhaarMasked: submission.aadhaarMasked,
+        panNumber: submission.panNumber,
+        gstNumber: submission.gstNumber,
+        submissionId: submission.id,
+        verifiedAt: reviewedAt.toISOString()
+      }
+    });
+    creditScoringService.rescoreQuietly(submission.userId, 'kyc_verified');
+
+    return this.withoutHash(updated!);
+  }
+
+  /**
+   * Reject a pending submission with a reason the applicant can act on
+   */
+  async reject(submissionId: number, reviewerId: number, reason: string, note?: string) {
+    const submission = await this.requirePending(submissionId, reviewerId);
+    const updated = await storage.updateKycSubmission(submission.id, {
+      status: 'rejected',
+      reviewerId,
+      rejectionReason: reason,
+      reviewNote: note ?? null,
+      reviewedAt: new Date()
+    });
+    return this.withoutHash(updated!);
+  }
+
+  /**
+   * Throw unless the user's KYC tier allows the amount on top of what they already use.
+   * Errors start with "KYC" so routes can tell them apart.
+   * @param kind Which limit: deposit value, outstanding borrowing or 30-day withdrawals
+   * @param amount The new deposit, loan or withdrawal amount
+   */
+  async assertWithinLimit(userId: number, kind: KycLimitKind, amount: number) {
+    const user = await this.requireUser(userId);
+    const level = this.levelOf(user);
+    const limit = KYC_TIER_LIMITS[level][kind];
+
+    if (limit === 0) {
+      throw new Error(`KYC verification is required for ${LIMIT_LABELS[kind]}`);
+    }
+    const used = await this.usage(userId, kind);
+    if (used + amount > limit) {
+      throw new Error(
+        `KYC ${level} tier limit for ${LIMIT_LABELS[kind]} is ₹${limit.toLocaleString('en-IN')}; ` +
+        `₹${used.toLocaleString('en-IN')} already used`
+      );
+    }
+  }
+
+  /**
+   * Like assertWithinLimit, but returns the reason the amount is refused instead of throwing
+   * @returns null when the amount is within the limit
+   */
+  async checkLimit(userId: number, kind: KycLimitKind, amount: number): Promise<string | null> {
+    try {
+      await this.assertWithinLimit(userId, kind, amount);
+      return null;
+    } catch (error) {
+      return error instanceof Error ? error.message : String(error);
+    }
+  }
+
+  /**
+   * A user's verified tier. Users verified before tiers existed count as basic.
+   */
+  levelOf(user: User): KycLevel {
+    if (user.kycLevel && user.kycLevel !== 'none') {
+      return user.kycLevel;
+    }
+    return user.kycVerified ? 'basic' : 'none';
+  }
+
+  private async usage(userId: number, kind: KycLimitKind) {
+    if (kind === 'deposit') {
+      // Valued at the current mandi price rather than the stored valuation, which older deposits took from the client
+      let deposited = 0;
+      for (const commodity of await storage.listCommoditiesByOwner(userId)) {
+        if (commodity.status !== 'active' && commodity.status !== 'processing') continue;
+        deposited += (await priceFeedService.valuateAtWarehouse(
+          commodity.name, commodity.quantity, commodity.measurementUnit, commodity.warehouseId
+        )).totalValue;
+      }
+      return deposited;
+    }
+
+    if (kind === 'loan') {
+      const loans = await storage.listLoansByUser(userId);
+      return loans
+        .filter(loan => ['pending_approval', 'approved', 'active', 'defaulted'].includes(loan.status))
+        .reduce((sum, loan) => sum + parseFloat(loan.outstandingAmount ?? loan.amount), 0);
+    }
+
+    const since = Date.now() - WITHDRAWAL_WINDOW_DAYS * DAY_MS;
+    const withdrawals = await storage.listCreditWithdrawalsByUser(userId);
+    return withdrawals
+      .filter(withdrawal => withdrawal.status !== 'rejected' && withdrawal.status !== 'failed')
+      .filter(withdrawal => (withdrawal.requestDate ?? new Date()).getTime() >= since)
+      .reduce((sum, withdrawal) => sum + parseFloat(withdrawal.amount), 0);
+  }
+
+  private async requirePending(submissionId: number, reviewerId: number) {
+    const submission = await storage.getKycSubmission(submissionId);
+    if (!submission) {
+      throw new Error("KYC submission not found");
+    }
+    if (submission.userId === reviewerId) {
+      throw new Error("Not authorized to review your own KYC submission");
+    }
+    if (submission.status !== 'pending') {
+      throw new Error(`KYC submission is already ${submission.status}`);
+    }
+    return submission;
+  }
+
+  private async requireUser(userId: number) {
+    const user = await storage.getUser(userId);
+    if (!user) {
+      throw new Error("User not found");
+    }
+    return user;
+  }
+
+  private hashAadhaar(aadhaarNumber: string) {
+    const salt = process.env.KYC_HASH_SALT || process.env.SESSION_SECRET || 'tradewiser-kyc';
+    return crypto.createHmac('sha256', salt).update(aadhaarNumber).digest('hex');
+  }
+
+  // The Aadhaar hash is only for duplicate checks and never leaves the service
+  private withoutHash({ aadhaarHash, ...submission }: KycSubmission) {
+    return submission;
+  }
+}
+
+// Export singleton instance
+export const kycService = new KycService();
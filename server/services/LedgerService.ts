@@ -0,0 +1,428 @@
+import { storage } from "../storage";
+import type {
+  Commodity,
+  CreditWithdrawal,
+  JournalEntryType,
+  LedgerAccount,
+  LedgerAccountType,
+  LedgerPosting,
+  LiquidationSettlement,
+  Loan,
+  LoanRepayment,
+  StorageFeeAllocation,
+  Warehouse
+} from "@shared/schema";
+
+interface AccountSpec {
+  code: string;
+  name: string;
+  type: LedgerAccountType;
+  userId?: number | null;
+}
+
+interface PostingLine {
+  account: AccountSpec;
+  direction: 'debit' | 'credit';
+  amount: number;
+}
+
+// Platform accounts; per-loan, per-user and per-warehouse accounts are opened on first use
+const SYSTEM_ACCOUNTS = {
+  bank: { code: '1000', name: 'Bank settlement account', type: 'asset' },
+  gstPayable: { code: '2200', name: 'GST output tax payable', type: 'liability' },
+  escrow: { code: '2300', name: 'Funds held in escrow', type: 'liability' },
+  interestIncome: { code: '4000', name: 'Interest income', type: 'income' },
+  penalInterestIncome: { code: '4010', name: 'Penal interest income', type: 'income' },
+  processingFeeIncome: { code: '4020', name: 'Loan processing fee income', type: 'income' },
+  liquidationFeeIncome: { code: '4030', name: 'Liquidation fee income', type: 'income' }
+} satisfies Record<string, AccountSpec>;
+
+// Accounts whose balance grows with debits; the rest grow with credits
+const DEBIT_NORMAL: LedgerAccountType[] = ['asset', 'expense'];
+
+const toPaise = (amount: number) => Math.round(amount * 100);
+
+/**
+ * Double-entry ledger for every money movement on the platform.
+ * Each movement posts one journal whose debits and credits balance, keyed by a
+ * reference to its source record so that it posts at most once. Loan principal,
+ * credit-line drawdowns and amounts held for users each have their own account;
+ * interest is recognised as income when it is paid.
+ */
+export class LedgerService {
+  /**
+   * Loan principal leaves the bank; the processing fee is kept as income
+   * @param loan The approved loan
+   */
+  async postLoanDisbursement(loan: Loan) {
+    const amount = parseFloat(loan.amount);
+    const fee = Math.min(amount, this.processingFee(loan));
+
+    return this.post('loan_disbursement', `loan_disbursement:${loan.id}`, `Disbursement of loan #${loan.id}`, [
+      { account: this.loanAccount(loan), direction: 'debit', amount },
+      { account: SYSTEM_ACCOUNTS.bank, direction: 'credit', amount: amount - fee },
+      { account: SYSTEM_ACCOUNTS.processingFeeIncome, direction: 'credit', amount: fee }
+    ], { userId: loan.userId, metadata: { loanId: loan.id, processingFee: fee } });
+  }
+
+  /**
+   * A repayment reaches the bank and is split into principal, interest and penal interest
+   * @param loan The loan repaid
+   * @param repayment The repayment row with its split
+   */
+  async postLoanRepayment(loan: Loan, repayment: LoanRepayment) {
+    return this.post('loan_repayment', `loan_repayment:${repayment.id}`, `Repayment of loan #${loan.id}`, [
+      { account: SYSTEM_ACCOUNTS.bank, direction: 'debit', amount: parseFloat(repayment.amount) },
+      ...this.repaymentCredits(loan, repayment)
+    ], { userId: repayment.userId, metadata: { loanId: loan.id, repaymentId: repayment.id, paymentMethod: repayment.paymentMethod } });
+  }
+
+  /**
+   * A credit-line drawdown paid out to the borrower's bank account, less any fee
+   * @param withdrawal The completed withdrawal
+   */
+  async postCreditWithdrawal(withdrawal: CreditWithdrawal) {
+    const amount = parseFloat(withdrawal.amount);
+    const fee = parseFloat(withdrawal.processingFee ?? '0');
+
+    return this.post('credit_withdrawal', `credit_withdrawal:${withdrawal.id}`, `Credit line withdrawal #${withdrawal.id}`, [
+      { account: this.creditLineAccount(withdrawal.userId), direction: 'debit', amount },
+      { account: SYSTEM_ACCOUNTS.bank, direction: 'credit', amount: parseFloat(withdrawal.actualAmount ?? String(amount - fee)) },
+      { account: SYSTEM_ACCOUNTS.processingFeeIncome, direction: 'credit', amount: fee }
+    ], { userId: withdrawal.userId, metadata: { withdrawalId: withdrawal.id, bankAccountId: withdrawal.bankAccountId } });
+  }
+
+  /**
+   * Storage fees received from a depositor; the GST in them is owed to the government
+   * @param paymentId The payment that collected the fees
+   * @param userId The depositor
+   * @param allocations Invoices the payment settled
+   */
+  async postWarehouseFee(paymentId: string, userId: number, allocations: StorageFeeAllocation[]) {
+    const amount = allocations.reduce((sum, allocation) => sum + allocation.amount, 0);
+
+    return this.post('warehouse_fee', `warehouse_fee:${paymentId}`, `Storage fees paid by user #${userId}`, [
+      { account: SYSTEM_ACCOUNTS.bank, direction: 'debit', amount },
+      ...(await this.storageFeeCredits(allocations))
+    ], { userId, metadata: { paymentId, invoiceIds: allocations.map(allocation => allocation.invoiceId) } });
+  }
+
+  /**
+   * A buyer's payment for a commodity, held for the seller after netting the seller's storage dues
+   * @param paymentId The buyer's payment
+   * @param buyerId The paying user
+   * @param commodity The commodity being transferred
+   * @param amount Amount paid
+   * @param storageFees Storage invoices settled out of the payment
+   */
+  async postTransferPayment(
+    paymentId: string,
+    buyerId: number,
+    commodity: Commodity,
+    amount: number,
+    storageFees: StorageFeeAllocation[] = []
+  ) {
+    if (!commodity.ownerId) {
+      throw new Error("Commodity has no owner to pay");
+    }
+
+    const netted = storageFees.reduce((sum, allocation) => sum + toPaise(allocation.amount), 0);
+    return this.post('transfer_payment', `transfer_payment:${paymentId}`, `Transfer payment for ${commodity.name}`, [
+      { account: SYSTEM_ACCOUNTS.bank, direction: 'debit', amount },
+      ...(await this.storageFeeCredits(storageFees)),
+      { account: this.userPayableAccount(commodity.ownerId), direction: 'credit', amount: (toPaise(amount) - netted) / 100 }
+    ], { userId: buyerId, metadata: { paymentId, commodityId: commodity.id, sellerId: commodity.ownerId } });
+  }
+
+  /**
+   * A buyer's payment received into escrow, owed to nobody until the escrow settles
+   * @param paymentId The buyer's payment
+   * @param buyerId The paying user
+   * @param amount Amount paid
+   */
+  async postEscrowHold(paymentId: string, buyerId: number, amount: number) {
+    return this.post('escrow_hold', `escrow_hold:${paymentId}`, `Payment held in escrow for user #${buyerId}`, [
+      { account: SYSTEM_ACCOUNTS.bank, direction: 'debit', amount },
+      { account: SYSTEM_ACCOUNTS.escrow, direction: 'credit', amount }
+    ], { userId: buyerId, metadata: { paymentId } });
+  }
+
+  /**
+   * Escrowed funds released to the seller on delivery, after netting the seller's storage dues
+   * @param paymentId The buyer's escrowed payment
+   * @param sellerId The user paid
+   * @param amount Amount held
+   * @param contractId The settled escrow contract
+   * @param storageFees Storage invoices settled out of the funds
+   */
+  async postEscrowRelease(
+    paymentId: string,
+    sellerId: number,
+    amount: number,
+    contractId: string,
+    storageFees: StorageFeeAllocation[] = []
+  ) {
+    const netted = storageFees.reduce((sum, allocation) => sum + toPaise(allocation.amount), 0);
+    return this.post('escrow_release', `escrow_release:${paymentId}`, `Escrow released to user #${sellerId}`, [
+      { account: SYSTEM_ACCOUNTS.escrow, direction: 'debit', amount },
+      ...(await this.storageFeeCredits(storageFees)),
+      { account: this.userPayableAccount(sellerId), direction: 'credit', amount: (toPaise(amount) - netted) / 100 }
+    ], { userId: sellerId, metadata: { paymentId, contractId } });
+  }
+
+  /**
+   * Escrowed funds returned to the buyer when the escrow lapses or is called off
+   * @param paymentId The buyer's escrowed payment
+   * @param buyerId The user refunded
+   * @param amount Amount held
+   * @param contractId The escrow contract
+   */
+  async postEscrowRefund(paymentId: string, buyerId: number, amount: number, contractId: string | null) {
+    return this.post('escrow_refund', `escrow_refund:${paymentId}`, `Escrow refunded to user #${buyerId}`, [
+      { account: SYSTEM_ACCOUNTS.escrow, direction: 'debit', amount },
+      { account: this.userPayableAccount(buyerId), direction: 'credit', amount }
+    ], { userId: buyerId, metadata: { paymentId, contractId } });
+  }
+
+  /**
+   * Auction proceeds applied through the liquidation waterfall
+   * @param auctionId The settled auction
+   * @param loan The liquidated loan
+   * @param settlement How the proceeds were applied
+   * @param repayment The repayment recorded against the loan, if any
+   * @param storageFees Storage invoices settled out of the proceeds
+   */
+  async postLiquidation(
+    auctionId: number,
+    loan: Loan,
+    settlement: LiquidationSettlement,
+    repayment: LoanRepayment | null,
+    storageFees: StorageFeeAllocation[] = []
+  ) {
+    // The borrower's surplus takes whatever rounding left over
+    const applied = toPaise(parseFloat(repayment?.amount ?? '0')) + toPaise(settlement.feesPaid)
+      + storageFees.reduce((sum, allocation) => sum + toPaise(allocation.amount), 0);
+    const surplus = (toPaise(settlement.proceeds) - applied) / 100;
+
+    return this.post('liquidation', `liquidation:${auctionId}`, `Liquidation of loan #${loan.id} collateral`, [
+      { account: SYSTEM_ACCOUNTS.bank, direction: 'debit', amount: settlement.proceeds },
+      ...(repayment ? this.repaymentCredits(loan, repayment) : []),
+      ...(await this.storageFeeCredits(storageFees)),
+      { account: SYSTEM_ACCOUNTS.liquidationFeeIncome, direction: 'credit', amount: settlement.feesPaid },
+      ...(loan.userId ? [{ account: this.userPayableAccount(loan.userId), direction: 'credit' as const, amount: surplus }] : [])
+    ], { userId: settlement.winnerId, metadata: { auctionId, loanId: loan.id, repaymentId: repayment?.id ?? null } });
+  }
+
+  /**
+   * Debit and credit totals and the balance of every account, as of a date
+   */
+  async trialBalance(asOf: Date = new Date()) {
+    const accounts = await storage.listLedgerAccounts();
+    const postings = (await storage.listLedgerPostings()).filter(posting => !posting.postedAt || posting.postedAt <= asOf);
+
+    const totals = new Map<number, { debit: number; credit: number }>();
+    for (const posting of postings) {
+      const total = totals.get(posting.accountId) ?? { debit: 0, credit: 0 };
+      total[posting.direction] += toPaise(parseFloat(posting.amount));
+      totals.set(posting.accountId, total);
+    }
+
+    const rows = accounts.map(account => {
+      const { debit, credit } = totals.get(account.id) ?? { debit: 0, credit: 0 };
+      return {
+        code: account.code,
+        name: account.name,
+        type: account.type,
+        debit: debit / 100,
+        credit: credit / 100,
+        balance: this.signed(account, debit - credit) / 100
+      };
+    });
+
+    const totalDebit = rows.reduce((sum, row) => sum + toPaise(row.debit), 0);
+    const totalCredit = rows.reduce((sum, row) => sum + toPaise(row.credit), 0);
+    return {
+      asOf,
+      accounts: rows,
+      totalDebit: totalDebit / 100,
+      totalCredit: totalCredit / 100,
+      balanced: totalDebit === totalCredit
+    };
+  }
+
+  /**
+   * Postings to an account between two dates with a running balance
+   * @param code Account code
+   * @param viewerId User asking; only the account holder sees it unless allViewable is set
+   * @param options Period and whether the viewer may see any account
+   */
+  async statement(code: string, viewerId: number, options: { from?: Date; to?: Date; allViewable?: boolean } = {}) {
+    const account = await storage.getLedgerAccountByCode(code);
+    if (!account) {
+      throw new Error("Ledger account not found");
+    }
+    if (!options.allViewable && account.userId !== viewerId) {
+      throw new Error("Not authorized to view this account");
+    }
+
+    const from = options.from ?? new Date(0);
+    const to = options.to ?? new Date();
+    const postings = await storage.listLedgerPostings(account.id);
+
+    let balance = postings
+      .filter(posting => posting.postedAt && posting.postedAt < from)
+      .reduce((sum, posting) => sum + this.movement(account, posting), 0);
+    const openingBalance = balance;
+
+    const lines = [];
+    for (const posting of postings.filter(p => !p.postedAt || (p.postedAt >= from && p.postedAt <= to))) {
+      const journal = await storage.getLedgerJournal(posting.journalId);
+      balance += this.movement(account, posting);
+      lines.push({
+        postingId: posting.id,
+        journalId: posting.journalId,
+        postedAt: posting.postedAt,
+        entryType: journal?.entryType,
+        reference: journal?.reference,
+        description: journal?.description,
+        debit: posting.direction === 'debit' ? parseFloat(posting.amount) : 0,
+        credit: posting.direction === 'credit' ? parseFloat(posting.amount) : 0,
+        balance: balance / 100
+      });
+    }
+
+    return {
+      account,
+      from,
+      to,
+      openingBalance: openingBalance / 100,
+      closingBalance: balance / 100,
+      lines
+    };
+  }
+
+  /**
+   * Accounts held by a user, or every account when no user is given
+   */
+  async listAccounts(userId?: number) {
+    return storage.listLedgerAccounts(userId);
+  }
+
+  /**
+   * Write a balanced journal; a reference that is already posted returns the existing journal
+   */
+  private async post(
+    entryType: JournalEntryType,
+    reference: string,
+    description: string,
+    lines: PostingLine[],
+    options: { userId?: number | null; metadata?: Record<string, unknown> } = {}
+  ) {
+    const existing = await storage.getLedgerJournalByReference(reference);
+    if (existing) {
+      return existing;
+    }
+
+    const entries = lines
+      .map(line => ({ ...line, paise: toPaise(line.amount) }))
+      .filter(line => line.paise > 0);
+    const debits = entries.filter(line => line.direction === 'debit').reduce((sum, line) => sum + line.paise, 0);
+    const credits = entries.filter(line => line.direction === 'credit').reduce((sum, line) => sum + line.paise, 0);
+    if (debits === 0 || debits !== credits) {
+      throw new Error(`Journal ${reference} does not balance: debits ${debits / 100}, credits ${credits / 100}`);
+    }
+
+    const postings = [];
+    for (const entry of entries) {
+      const account = await this.openAccount(entry.account);
+      postings.push({ accountId: account.id, direction: entry.direction, amount: (entry.paise / 100).toFixed(2) });
+    }
+
+    try {
+      const { journal } = await storage.createLedgerJournal({
+        entryType,
+        reference,
+        description,
+        userId: options.userId ?? null,
+        metadata: options.metadata ?? null
+      }, postings);
+      return journal;
+    } catch (error) {
+      // A concurrent post of the same reference got in first; the unique reference keeps it to one journal
+      const posted = await storage.getLedgerJournalByReference(reference);
+      if (posted) {
+        return posted;
+      }
+      throw error;
+    }
+  }
+
+  private async openAccount(spec: AccountSpec): Promise<LedgerAccount> {
+    const existing = await storage.getLedgerAccountByCode(spec.code);
+    if (existing) {
+      return existing;
+    }
+    return storage.createLedgerAccount({ code: spec.code, name: spec.name, type: spec.type, userId: spec.userId ?? null });
+  }
+
+  private repaymentCredits(loan: Loan, repayment: LoanRepayment): PostingLine[] {
+    return [
+      { account: this.loanAccount(loan), direction: 'credit', amount: parseFloat(repayment.principalAmount ?? '0') },
+      { account: SYSTEM_ACCOUNTS.interestIncome, direction: 'credit', amount: parseFloat(repayment.interestAmount ?? '0') },
+      { account: SYSTEM_ACCOUNTS.penalInterestIncome, direction: 'credit', amount: parseFloat(repayment.penalAmount ?? '0') }
+    ];
+  }
+
+  /**
+   * Fee income of each warehouse, net of GST, and the GST collected on it
+   */
+  private async storageFeeCredits(allocations: StorageFeeAllocation[]): Promise<PostingLine[]> {
+    const lines: PostingLine[] = [];
+    for (const allocation of allocations) {
+      const warehouse = await storage.getWarehouse(allocation.warehouseId);
+      if (!warehouse) {
+        throw new Error("Warehouse not found");
+      }
+      lines.push(
+        { account: this.warehouseFeeAccount(warehouse), direction: 'credit', amount: (toPaise(allocation.amount) - toPaise(allocation.gst)) / 100 },
+        { account: SYSTEM_ACCOUNTS.gstPayable, direction: 'credit', amount: allocation.gst }
+      );
+    }
+    return lines;
+  }
+
+  private loanAccount(loan: Loan): AccountSpec {
+    return { code: `1100-LOAN-${loan.id}`, name: `Loan #${loan.id} principal`, type: 'asset', userId: loan.userId };
+  }
+
+  private creditLineAccount(userId: number): AccountSpec {
+    return { code: `1200-CREDIT-${userId}`, name: `Credit line drawdowns of user #${userId}`, type: 'asset', userId };
+  }
+
+  private userPayableAccount(userId: number): AccountSpec {
+    return { code: `2100-USER-${userId}`, name: `Payable to user #${userId}`, type: 'liability', userId };
+  }
+
+  private warehouseFeeAccount(warehouse: Warehouse): AccountSpec {
+    return { code: `4100-WH-${warehouse.id}`, name: `Storage fees, ${warehouse.name}`, type: 'income' };
+  }
+
+  private processingFee(loan: Loan): number {
+    const schedule = typeof loan.repaymentSchedule === 'string'
+      ? JSON.parse(loan.repaymentSchedule)
+      : loan.repaymentSchedule;
+    return parseFloat(schedule?.processingFee ?? '0') || 0;
+  }
+
+  private movement(account: LedgerAccount, posting: LedgerPosting): number {
+    const paise = toPaise(parseFloat(posting.amount));
+    return this.signed(account, posting.direction === 'debit' ? paise : -paise);
+  }
+
+  // Balance in the account's normal direction, from debits minus credits
+  private signed(account: LedgerAccount, debitMinusCredit: number): number {
+    return DEBIT_NORMAL.includes(account.type) ? debitMinusCredit : -debitMinusCredit;
+  }
+}
+
+export const ledgerService = new LedgerService();
@@ -0,0 +1,336 @@
+/**
+ * Lending partner adapters
+ *
+ * The contract every lending partner integration implements, and the adapters for
+ * partners lending in-house and over the partner HTTP API. Partners with an
+ * apiEndpoint are reached over HTTP; the rest are priced and approved locally from
+ * their published terms.
+ */
+import crypto from 'crypto';
+import { storage } from '../storage';
+import { ratingRisk } from './CreditScoringService';
+import type { CreditRating, LendingPartner } from '@shared/schema';
+
+// Partners reject stale webhooks; also bounds how far our clock may drift from theirs
+const WEBHOOK_TOLERANCE_MS = 5 * 60 * 1000;
+
+const REQUEST_TIMEOUT_MS = parseInt(process.env.LENDING_PARTNER_TIMEOUT_MS || '10000', 10);
+
+/**
+ * The borrower as presented to a partner
+ */
+export interface LendingApplicant {
+  userId: number;
+  fullName: string;
+  creditScore: number | null;
+  creditRating: string | null;
+}
+
+/**
+ * A warehouse receipt offered as collateral
+ */
+export interface CollateralItem {
+  receiptId: number;
+  receiptNumber: string;
+  commodity: string | null;
+  quantity: number;
+  measurementUnit: string;
+  valuation: number;
+}
+
+export interface OfferRequest {
+  applicant: LendingApplicant;
+  collateral: CollateralItem[];
+  collateralValue: number;
+  requestedAmount?: number;
+  tenureDays?: number;
+}
+
+export interface LoanOffer {
+  partnerId: number;
+  partnerName: string;
+  offerId: string;
+  interestRate: number;                 // Annual %
+  maxAmount: number;
+  minAmount: number;
+  tenureDays: number;
+  processingFeePercent: number;
+  validUntil: string;
+}
+
+export interface ApplicationRequest {
+  reference: string;                    // Our application id, echoed back in webhooks
+  offerId?: string;
+  amount: number;
+  tenureDays: number;
+  purpose: string;
+  applicant: LendingApplicant;
+  collateral: CollateralItem[];
+  callbackUrl: string;
+}
+
+export type PartnerApplicationStatus = 'submitted' | 'under_review' | 'approved' | 'rejected' | 'disbursed';
+
+export interface ApplicationStatus {
+  applicationId: string;
+  reference?: string;
+  status: PartnerApplicationStatus;
+  approvedAmount?: number;
+  interestRate?: number;
+  rejectionReason?: string;
+  loanId?: string;
+}
+
+export interface Disbursement {
+  applicationId: string;
+  loanId: string;
+  amount: number;
+  transactionId: string;
+  disbursedAt: string;
+}
+
+export interface PartnerRepayment {
+  loanId: string;
+  transactionId: string;
+  amount: number;
+  reference?: string;                   // Ours when we forwarded the payment
+  outstanding?: number;
+  paidAt: string;
+}
+
+export type LendingWebhookEvent =
+  | { eventId: string; type: 'application.updated'; application: ApplicationStatus }
+  | { eventId: string; type: 'loan.disbursed'; disbursement: Disbursement }
+  | { eventId: string; type: 'repayment.received'; repayment: PartnerRepayment };
+
+/**
+ * What every lending partner integration provides
+ */
+export interface LendingPartnerAdapter {
+  /** A priced offer for the applicant and collateral, or null when the partner declines */
+  getOffer(request: OfferRequest): Promise<LoanOffer | null>;
+  submitApplication(request: ApplicationRequest): Promise<ApplicationStatus>;
+  getApplicationStatus(applicationId: string): Promise<ApplicationStatus>;
+  disburse(applicationId: string): Promise<Disbursement>;
+  repay(loanId: string, amount: number, reference: string): Promise<PartnerRepayment>;
+  /** Authenticate a webhook delivery by its raw body and parse its event; throws when the signature is wrong */
+  verifyWebhook(headers: Record<string, string | string[] | undefined>, rawBody: Buffer | undefined, body: unknown): LendingWebhookEvent;
+}
+
+/**
+ * Signature over the raw bytes of a webhook body, as sent in X-Signature alongside X-Timestamp
+ */
+export function signWebhook(secret: string, rawBody: Buffer | string, timestamp: string) {
+  return crypto.createHmac('sha256', secret).update(rawBody).update(timestamp).digest('hex');
+}
+
+/**
+ * Offer priced from a partner's published terms: the rate moves from the partner's
+ * minimum to its maximum as the credit rating falls from AAA to D (or, for unrated
+ * applicants, as the score falls from 800 to 500), and the amount is capped at the
+ * partner's loan-to-value ratio
+ */
+export function priceFromTerms(partner: LendingPartner, request: OfferRequest) {
+  const maxLtvPercent = parseFloat(partner.loanToValueRatio ?? '70');
+  const minRate = parseFloat(partner.interestRateMin);
+  const maxRate = parseFloat(partner.interestRateMax);
+  // The applicant's rating places them between the partner's best and worst rate
+  const score = request.applicant.creditScore ?? 650;
+  const risk = request.applicant.creditRating
+    ? ratingRisk(request.applicant.creditRating as CreditRating)
+    : Math.min(1, Math.max(0, (800 - score) / 300));
+
+  const maxAmount = Math.min(request.collateralValue * maxLtvPercent / 100, parseFloat(partner.maxLoanAmount));
+  return {
+    interestRate: Math.round((minRate + (maxRate - minRate) * risk) * 100) / 100,
+    maxAmount: Math.floor(maxAmount),
+    minAmount: parseFloat(partner.minLoanAmount),
+    tenureDays: Math.min(request.tenureDays ?? partner.maxTenureDays, partner.maxTenureDays)
+  };
+}
+
+/**
+ * Partners without an API, such as the platform's own lending desk. Offers are priced
+ * from the partner's terms and applications within them are approved at once.
+ */
+export class DirectLendingAdapter implements LendingPartnerAdapter {
+  constructor(private partner: LendingPartner) {}
+
+  async getOffer(request: OfferRequest): Promise<LoanOffer | null> {
+    const terms = priceFromTerms(this.partner, request);
+    if (terms.maxAmount < terms.minAmount) {
+      return null;
+    }
+
+    return {
+      partnerId: this.partner.id,
+      partnerName: this.partner.name,
+      offerId: `DIRECT-${this.partner.id}-${Date.now()}`,
+      ...terms,
+      processingFeePercent: parseFloat(this.partner.processingFeePercent ?? '1'),
+      validUntil: new Date(Date.now() + 24 * 60 * 60 * 1000).toISOString()
+    };
+  }
+
+  async submitApplication(request: ApplicationRequest): Promise<ApplicationStatus> {
+    const applicationId = `DIRECT-${request.reference}`;
+    const terms = priceFromTerms(this.partner, {
+      applicant: request.applicant,
+      collateral: request.collateral,
+      collateralValue: request.collateral.reduce((sum, item) => sum + item.valuation, 0),
+      tenureDays: request.tenureDays
+    });
+
+    if (request.amount > terms.maxAmount || request.amount < terms.minAmount) {
+      return {
+        applicationId,
+        reference: request.reference,
+        status: 'rejected',
+        rejectionReason: 'Amount is outside the lending limits for this collateral'
+      };
+    }
+    return {
+      applicationId,
+      reference: request.reference,
+      status: 'approved',
+      approvedAmount: request.amount,
+      interestRate: terms.interestRate
+    };
+  }
+
+  // Decisions are taken at submission, so the stored application is the partner's record
+  async getApplicationStatus(applicationId: string): Promise<ApplicationStatus> {
+    const application = await this.requireApplication(applicationId);
+    const decision = (application.underwritingResult ?? {}) as Partial<ApplicationStatus>;
+    return {
+      ...decision,
+      applicationId,
+      reference: String(application.id),
+      status: application.loanId ? 'disbursed' : application.status === 'rejected' ? 'rejected' : 'approved'
+    };
+  }
+
+  async disburse(applicationId: string): Promise<Disbursement> {
+    const application = await this.requireApplication(applicationId);
+    const decision = (application.underwritingResult ?? {}) as Partial<ApplicationStatus>;
+    if (application.status !== 'approved') {
+      throw new Error(`Application ${applicationId} is ${application.status}`);
+    }
+
+    return {
+      applicationId,
+      loanId: `${applicationId}-LOAN`,
+      amount: decision.approvedAmount ?? parseFloat(application.requestedAmount),
+      transactionId: `DIRECT-TXN-${Date.now()}`,
+      disbursedAt: new Date().toISOString()
+    };
+  }
+
+  async repay(loanId: string, amount: number, reference: string): Promise<PartnerRepayment> {
+    return { loanId, transactionId: reference, amount, reference, paidAt: new Date().toISOString() };
+  }
+
+  verifyWebhook(): LendingWebhookEvent {
+    throw new Error(`${this.partner.name} does not send webhooks`);
+  }
+
+  private async requireApplication(applicationId: string) {
+    const application = await storage.getLoanApplicationByExternalId(this.partner.id, applicationId);
+    if (!application) {
+      throw new Error(`Application ${applicationId} not found`);
+    }
+    return application;
+  }
+}
+
+/**
+ * Partners integrated over the partner HTTP API at lendingPartners.apiEndpoint.
+ * Requests carry the partner's API key as a bearer token; webhooks are signed with
+ * its secret key.
+ */
+export class HttpLendingAdapter implements LendingPartnerAdapter {
+  private baseUrl: string;
+
+  constructor(private partner: LendingPartner) {
+    if (!partner.apiEndpoint) {
+      throw new Error(`${partner.name} has no API endpoint`);
+    }
+    this.baseUrl = partner.apiEndpoint.replace(/\/+$/, '');
+  }
+
+  async getOffer(request: OfferRequest): Promise<LoanOffer | null> {
+    const { offer } = await this.request<{ offer: Omit<LoanOffer, 'partnerId' | 'partnerName'> | null }>('POST', '/offers', request);
+    return offer ? { ...offer, partnerId: this.partner.id, partnerName: this.partner.name } : null;
+  }
+
+  async submitApplication(request: ApplicationRequest): Promise<ApplicationStatus> {
+    return this.request('POST', '/applications', request);
+  }
+
+  async getApplicationStatus(applicationId: string): Promise<ApplicationStatus> {
+    return this.request('GET', `/applications/${encodeURIComponent(applicationId)}`);
+  }
+
+  async disburse(applicationId: string): Promise<Disbursement> {
+    return this.request('POST', `/applications/${encodeURIComponent(applicationId)}/disburse`, {});
+  }
+
+  async repay(loanId: string, amount: number, reference: string): Promise<PartnerRepayment> {
+    return this.request('POST', `/loans/${encodeURIComponent(loanId)}/repayments`, { amount, reference });
+  }
+
+  verifyWebhook(headers: Record<string, string | string[] | undefined>, rawBody: Buffer | undefined, body: unknown): LendingWebhookEvent {
+    const signature = headers['x-signature'];
+    const timestamp = headers['x-timestamp'];
+    if (typeof signature !== 'string' || typeof timestamp !== 'string') {
+      throw new Error('Not authorized: webhook signature missing');
+    }
+    if (!this.partner.apiSecretKey) {
+      throw new Error(`Not authorized: ${this.partner.name} has no webhook secret`);
+    }
+    if (Math.abs(Date.now() - Number(timestamp)) > WEBHOOK_TOLERANCE_MS) {
+      throw new Error('Not authorized: webhook timestamp outside tolerance');
+    }
+    if (!rawBody) {
+      throw new Error('Not authorized: webhook body was not captured');
+    }
+
+    const expected = Buffer.from(signWebhook(this.partner.apiSecretKey, rawBody, timestamp));
+    const actual = Buffer.from(signature);
+    if (expected.length !== actual.length || !crypto.timingSafeEqual(expected, actual)) {
+      throw new Error('Not authorized: webhook signature mismatch');
+    }
+
+    const event = body as LendingWebhookEvent;
+    if (!event?.eventId || !['application.updated', 'loan.disbursed', 'repayment.received'].includes(event.type)) {
+      throw new Error('Unrecognised webhook event');
+    }
+    return event;
+  }
+
+  private async request<T>(method: 'GET' | 'POST', path: string, body?: unknown): Promise<T> {
+    const response = await fetch(`${this.baseUrl}${path}`, {
+      method,
+      headers: {
+        'Content-Type': 'application/json',
+        'Authorization': `Bearer ${this.partner.apiKey ?? ''}`,
+        'User-Agent': 'TradeWiser-Platform/1.0'
+      },
+      body: body === undefined ? undefined : JSON.stringify(body),
+      signal: AbortSignal.timeout(REQUEST_TIMEOUT_MS)
+    });
+
+    const payload = await response.json().catch(() => ({}));
+    if (!response.ok) {
+      throw new Error(`${this.partner.name} responded ${response.status}: ${payload?.message ?? response.statusText}`);
+    }
+    return payload as T;
+  }
+}
+
+/**
+ * Adapter for a partner: over HTTP when it publishes an API endpoint, in-house otherwise
+ */
+export function createLendingAdapter(partner: LendingPartner): LendingPartnerAdapter {
+  return partner.apiEndpoint ? new HttpLendingAdapter(partner) : new DirectLendingAdapter(partner);
+}
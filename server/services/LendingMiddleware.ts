@@ -1,327 +1,321 @@
 /**
  * LendingMiddleware Service
- * 
+ *
  * This service acts as a middleware between the TradeWiser platform and external lending partners.
  * It handles communication with various banks and NBFCs, providing unified APIs for loan offers,
- * applications, credit assessment, and disbursements.
+ * applications, credit assessment, and disbursements. Each partner is reached through a
+ * LendingPartnerAdapter (see LendingAdapters.ts).
  */
 
-import axios from 'axios';
 import { storage } from '../storage';
-import { CreditRating, LendingPartner, LendingPartnerType, LoanStatus } from '../../shared/schema';
-
-// Adapter interfaces for different lending partner APIs
-interface LendingPartnerAdapter {
-  getLoanOffers(userId: number, collateralData: any): Promise<any>;
-  submitApplication(application: any): Promise<any>;
-  checkApplicationStatus(applicationId: string): Promise<any>;
-  disburseLoan(applicationId: string): Promise<any>;
-  repayLoan(loanId: string, amount: number): Promise<any>;
+import BroadcastService from './BroadcastService';
+import { loanAccountingService } from './LoanAccountingService';
+import { ledgerService } from './LedgerService';
+import { creditScoringService, ratingForScore } from './CreditScoringService';
+import { lienService } from './LienService';
+import { kycService } from './KycService';
+import {
+  createLendingAdapter,
+  type ApplicationStatus,
+  type CollateralItem,
+  type Disbursement,
+  type LendingApplicant,
+  type LendingPartnerAdapter,
+  type LoanOffer,
+  type PartnerRepayment
+} from './LendingAdapters';
+import { InsertLendingPartner, LendingPartner, Loan, LoanApplication, LoanRepayment } from '../../shared/schema';
+
+const POLL_INTERVAL_MS = parseInt(process.env.LENDING_POLL_MINUTES || '10', 10) * 60 * 1000;
+
+// Repayments we forward carry this prefix, so that partners echoing them back are not applied twice
+const FORWARDED_REPAYMENT_PREFIX = 'TW-REPAY-';
+
+// Partner application statuses as recorded on our loan application
+const APPLICATION_STATUS: Record<ApplicationStatus['status'], LoanApplication['status']> = {
+  submitted: 'pending_approval',
+  under_review: 'pending_approval',
+  approved: 'approved',
+  rejected: 'rejected',
+  disbursed: 'approved'
+};
+
+export interface LoanApplicationInput {
+  partnerId: number;
+  offerId?: string;
+  processingFeePercent?: number;       // As offered; the partner's published fee otherwise
+  receiptIds: number[];
+  amount: number;
+  tenureDays: number;
+  purpose: string;
 }
 
-// Mock adapters for demonstration (in production, these would connect to real bank APIs)
-class BankAdapter implements LendingPartnerAdapter {
-  private bankApiUrl: string;
-  private apiKey: string;
-  private partnerId: number;
+function callbackUrl(partnerId: number) {
+  return `${process.env.PUBLIC_BASE_URL || 'http://localhost:5000'}/api/lending/webhooks/${partnerId}`;
+}
 
-  constructor(bankApiUrl: string, apiKey: string, partnerId: number) {
-    this.bankApiUrl = bankApiUrl;
-    this.apiKey = apiKey;
-    this.partnerId = partnerId;
-  }
+// Main middleware service
+export class LendingMiddleware {
+  private pollTimer: NodeJS.Timeout | null = null;
+  // Bookings in flight, so a disbursement webhook racing the disburse response books once
+  private booking = new Map<number, Promise<Loan>>();
 
-  async getLoanOffers(userId: number, collateralData: any): Promise<any> {
-    // In a real implementation, this would make an API call to the bank's system
-    // For now, we'll simulate a response
-    
-    const partner = await storage.getLendingPartner(this.partnerId);
-    if (!partner) {
-      throw new Error('Lending partner not found');
-    }
-    
-    const userCreditInfo = await storage.getUserCreditInfo(userId);
-    const totalCollateralValue = collateralData.receipts.reduce(
-      (sum: number, receipt: any) => sum + receipt.valuation, 0
-    );
-    
-    // Calculate loan offer based on partner's terms and user's credit info
-    const maxLoanAmount = Math.min(
-      totalCollateralValue * 0.8, // 80% of collateral value
-      partner.maxLoanAmount
-    );
-    
-    // Adjust interest rate based on credit score
-    let interestRate = partner.interestRateRange.min;
-    if (userCreditInfo.creditScore < 700) {
-      interestRate = partner.interestRateRange.min + 
-        (partner.interestRateRange.max - partner.interestRateRange.min) * 
-        (1 - userCreditInfo.creditScore / 700);
-    }
-    
-    return {
-      partnerId: partner.id,
-      partnerName: partner.name,
-      interestRate,
-      maxLoanAmount,
-      maxTenureDays: partner.maxTenureDays,
-      processingFeePercentage: 0.5, // Example processing fee
-      collateralRequired: totalCollateralValue,
-      termsAndConditionsUrl: 'https://example.com/terms',
-      estimatedProcessingTime: '24 hours'
-    };
+  /**
+   * Poll partners for decisions on pending applications, for partners whose webhooks may not reach us
+   */
+  start() {
+    if (this.pollTimer) return;
+    this.pollTimer = setInterval(() => {
+      this.pollPending().catch(error => console.error('Lending partner poll failed:', error));
+    }, POLL_INTERVAL_MS);
+    this.pollTimer.unref?.();
   }
 
-  async submitApplication(application: any): Promise<any> {
-    // In a real implementation, this would submit the application to the bank's API
-    // For now, we'll simulate a successful submission
-    
-    return {
-      applicationId: `BANK-${Date.now()}-${Math.floor(Math.random() * 1000)}`,
-      status: LoanStatus.PENDING_APPROVAL,
-      message: 'Application submitted successfully',
-      estimatedApprovalTime: '24 hours'
-    };
+  /**
+   * Cancel the poll
+   */
+  stop() {
+    if (this.pollTimer) clearInterval(this.pollTimer);
+    this.pollTimer = null;
   }
 
-  async checkApplicationStatus(applicationId: string): Promise<any> {
-    // In a real implementation, this would check the status of the application with the bank
-    // For now, we'll simulate a response
-    
-    return {
-      applicationId,
-      status: LoanStatus.APPROVED,
-      updatedAt: new Date().toISOString()
-    };
+  /**
+   * Active partners, without their credentials
+   */
+  async listPartners() {
+    return (await storage.listLendingPartners())
+      .filter(partner => partner.active !== false)
+      .map(({ apiKey, apiSecretKey, ...partner }) => partner);
   }
 
-  async disburseLoan(applicationId: string): Promise<any> {
-    // In a real implementation, this would request disbursement from the bank
-    // For now, we'll simulate a successful disbursement
-    
-    return {
-      applicationId,
-      loanId: `LOAN-${Date.now()}-${Math.floor(Math.random() * 1000)}`,
-      status: 'disbursed',
-      disbursementDate: new Date().toISOString(),
-      disbursementDetails: {
-        accountNumber: 'XXXXXXXX1234',
-        amount: 100000,
-        transactionId: `TXN-${Date.now()}`
-      }
-    };
+  /**
+   * Connect a partner's API, set its lending terms, rotate its credentials or suspend it
+   */
+  async updatePartner(partnerId: number, changes: Pick<Partial<InsertLendingPartner>, 'apiEndpoint' | 'apiKey' | 'apiSecretKey' | 'creditRatingCriteria' | 'processingFeePercent' | 'loanToValueRatio' | 'active'>) {
+    await this.requirePartner(partnerId);
+    const { apiKey, apiSecretKey, ...partner } = (await storage.updateLendingPartner(partnerId, changes))!;
+    return partner;
   }
 
-  async repayLoan(loanId: string, amount: number): Promise<any> {
-    // In a real implementation, this would process a loan repayment with the bank
-    // For now, we'll simulate a successful repayment
-    
-    return {
-      loanId,
-      amountPaid: amount,
-      status: 'success',
-      transactionId: `TXN-${Date.now()}-${Math.floor(Math.random() * 1000)}`,
-      remainingBalance: 0, // Would be calculated in a real implementation
-      paymentDate: new Date().toISOString()
-    };
-  }
-}
+  /**
+   * Ask every active partner for an offer against the borrower's receipts
+   * @param userId The borrower
+   * @param receiptIds Unencumbered receipts of the borrower
+   * @param options Amount and tenure the borrower is looking for
+   */
+  async getOffers(userId: number, receiptIds: number[], options: { requestedAmount?: number; tenureDays?: number } = {}) {
+    const collateral = await this.collateral(userId, receiptIds);
+    const collateralValue = collateral.reduce((sum, item) => sum + item.valuation, 0);
+    const request = { applicant: await this.applicant(userId), collateral, collateralValue, ...options };
 
-class NBFCAdapter implements LendingPartnerAdapter {
-  private nbfcApiUrl: string;
-  private apiKey: string;
-  private partnerId: number;
+    const offers: LoanOffer[] = [];
+    const declined: Array<{ partnerId: number; partnerName: string; reason: string }> = [];
 
-  constructor(nbfcApiUrl: string, apiKey: string, partnerId: number) {
-    this.nbfcApiUrl = nbfcApiUrl;
-    this.apiKey = apiKey;
-    this.partnerId = partnerId;
-  }
+    for (const partner of await this.activePartners()) {
+      if (!this.lendsTo(partner, request.applicant)) {
+        declined.push({
+          partnerId: partner.id,
+          partnerName: partner.name,
+          reason: `Credit rating ${request.applicant.creditRating ?? 'unrated'} is outside the partner's lending criteria`
+        });
+        continue;
+      }
 
-  async getLoanOffers(userId: number, collateralData: any): Promise<any> {
-    // Similar to BankAdapter but with NBFC-specific logic
-    const partner = await storage.getLendingPartner(this.partnerId);
-    if (!partner) {
-      throw new Error('Lending partner not found');
-    }
-    
-    const userCreditInfo = await storage.getUserCreditInfo(userId);
-    const totalCollateralValue = collateralData.receipts.reduce(
-      (sum: number, receipt: any) => sum + receipt.valuation, 0
-    );
-    
-    // NBFCs might offer higher loan amounts but at higher interest rates
-    const maxLoanAmount = Math.min(
-      totalCollateralValue * 0.7, // 70% of collateral value
-      partner.maxLoanAmount
-    );
-    
-    // NBFCs typically have higher interest rates
-    let interestRate = partner.interestRateRange.min;
-    if (userCreditInfo.creditScore < 650) {
-      interestRate = partner.interestRateRange.min + 
-        (partner.interestRateRange.max - partner.interestRateRange.min) * 
-        (1 - userCreditInfo.creditScore / 650);
+      try {
+        const offer = await this.adapter(partner).getOffer(request);
+        if (offer) {
+          offers.push(offer);
+        } else {
+          declined.push({ partnerId: partner.id, partnerName: partner.name, reason: 'No offer for this collateral' });
+        }
+      } catch (error) {
+        console.error(`Failed to get loan offer from partner ${partner.id}:`, error);
+        declined.push({ partnerId: partner.id, partnerName: partner.name, reason: 'Partner unavailable' });
+      }
     }
-    
-    return {
-      partnerId: partner.id,
-      partnerName: partner.name,
-      interestRate,
-      maxLoanAmount,
-      maxTenureDays: partner.maxTenureDays,
-      processingFeePercentage: 1.0, // Higher processing fee for NBFCs
-      collateralRequired: totalCollateralValue,
-      termsAndConditionsUrl: 'https://example.com/nbfc-terms',
-      estimatedProcessingTime: '12 hours' // Might be faster than banks
-    };
-  }
 
-  async submitApplication(application: any): Promise<any> {
-    return {
-      applicationId: `NBFC-${Date.now()}-${Math.floor(Math.random() * 1000)}`,
-      status: LoanStatus.PENDING_APPROVAL,
-      message: 'Application submitted successfully',
-      estimatedApprovalTime: '12 hours'
-    };
+    return { collateralValue, offers, declined };
   }
 
-  async checkApplicationStatus(applicationId: string): Promise<any> {
-    return {
-      applicationId,
-      status: LoanStatus.APPROVED,
-      updatedAt: new Date().toISOString()
-    };
-  }
+  /**
+   * Submit a loan application to a partner
+   * @param userId The borrower
+   * @param input Partner, accepted offer, collateral and terms
+   */
+  async submitLoanApplication(userId: number, input: LoanApplicationInput): Promise<LoanApplication> {
+    const partner = await this.requirePartner(input.partnerId);
+    await kycService.assertWithinLimit(userId, 'loan', input.amount);
+    const collateral = await this.collateral(userId, input.receiptIds);
+    const applicant = await this.applicant(userId);
+    if (!this.lendsTo(partner, applicant)) {
+      throw new Error(`${partner.name} does not lend to credit rating ${applicant.creditRating ?? 'unrated'}`);
+    }
 
-  async disburseLoan(applicationId: string): Promise<any> {
-    return {
-      applicationId,
-      loanId: `NBFC-LOAN-${Date.now()}-${Math.floor(Math.random() * 1000)}`,
-      status: 'disbursed',
-      disbursementDate: new Date().toISOString(),
-      disbursementDetails: {
-        accountNumber: 'XXXXXXXX5678',
-        amount: 100000,
-        transactionId: `NBFC-TXN-${Date.now()}`
+    const application = await storage.createLoanApplication({
+      userId,
+      lendingPartnerId: partner.id,
+      requestedAmount: input.amount.toFixed(2),
+      requestedTenureDays: input.tenureDays,
+      purpose: input.purpose,
+      creditScore: applicant.creditScore,
+      status: 'pending_approval',
+      applicationData: {
+        receiptIds: input.receiptIds,
+        offerId: input.offerId ?? null,
+        processingFeePercent: input.processingFeePercent ?? parseFloat(partner.processingFeePercent ?? '0'),
+        collateral
       }
-    };
-  }
-
-  async repayLoan(loanId: string, amount: number): Promise<any> {
-    return {
-      loanId,
-      amountPaid: amount,
-      status: 'success',
-      transactionId: `NBFC-TXN-${Date.now()}-${Math.floor(Math.random() * 1000)}`,
-      remainingBalance: 0,
-      paymentDate: new Date().toISOString()
-    };
-  }
-}
+    });
 
-// Factory to create appropriate adapter for each lending partner
-class LendingPartnerAdapterFactory {
-  static createAdapter(partner: LendingPartner): LendingPartnerAdapter {
-    // API configurations would come from a secure configuration store in production
-    if (partner.type === LendingPartnerType.BANK) {
-      return new BankAdapter(`https://api.${partner.name.toLowerCase()}.com`, 'mock-api-key', partner.id);
-    } else if (partner.type === LendingPartnerType.NBFC) {
-      return new NBFCAdapter(`https://api.${partner.name.toLowerCase()}.com`, 'mock-api-key', partner.id);
-    } else {
-      throw new Error(`Unsupported lending partner type: ${partner.type}`);
+    let status: ApplicationStatus;
+    try {
+      status = await this.adapter(partner).submitApplication({
+        reference: String(application.id),
+        offerId: input.offerId,
+        amount: input.amount,
+        tenureDays: input.tenureDays,
+        purpose: input.purpose,
+        applicant,
+        collateral,
+        callbackUrl: callbackUrl(partner.id)
+      });
+    } catch (error) {
+      console.error(`Failed to submit loan application to partner ${partner.id}:`, error);
+      return (await storage.updateLoanApplication(application.id, {
+        status: 'rejected',
+        rejectionReason: `${partner.name} could not be reached; please try again`
+      }))!;
     }
-  }
-}
 
-// Main middleware service
-export class LendingMiddleware {
-  private adapters: Map<number, LendingPartnerAdapter> = new Map();
+    return this.applyStatus(application, status);
+  }
 
-  constructor() {
-    this.initializeAdapters();
+  /**
+   * Ask the partner for the latest status of an application
+   */
+  async checkApplicationStatus(applicationId: number, userId: number) {
+    const application = await this.getApplication(applicationId, userId);
+    return this.refresh(application);
   }
 
-  private async initializeAdapters() {
-    try {
-      const partners = await storage.listLendingPartners();
-      for (const partner of partners) {
-        this.adapters.set(partner.id, LendingPartnerAdapterFactory.createAdapter(partner));
+  /**
+   * Refresh every application still waiting on a partner's decision
+   */
+  async pollPending() {
+    const pending = (await storage.listLoanApplicationsByStatus('pending_approval'))
+      .filter(application => application.externalApplicationId);
+
+    for (const application of pending) {
+      try {
+        await this.refresh(application);
+      } catch (error) {
+        console.error(`Failed to poll loan application ${application.id}:`, error);
       }
-    } catch (error) {
-      console.error('Failed to initialize lending partner adapters:', error);
     }
+    return pending.length;
   }
 
-  private getAdapter(partnerId: number): LendingPartnerAdapter {
-    const adapter = this.adapters.get(partnerId);
-    if (!adapter) {
-      throw new Error(`No adapter found for lending partner ID: ${partnerId}`);
+  /**
+   * Draw down an approved application; the loan is booked against the pledged receipts
+   * @param applicationId The approved application
+   * @param userId The borrower
+   */
+  async disburseLoan(applicationId: number, userId: number) {
+    const application = await this.getApplication(applicationId, userId);
+    if (application.loanId) {
+      return (await storage.getLoan(application.loanId))!;
+    }
+    if (application.status !== 'approved' || !application.externalApplicationId) {
+      throw new Error(`Application is ${application.status}, not approved`);
     }
-    return adapter;
+
+    const partner = await this.requirePartner(application.lendingPartnerId);
+    const disbursement = await this.adapter(partner).disburse(application.externalApplicationId);
+    return this.book(application, disbursement);
   }
 
-  async getInitialLoanOffers(userId: number, collateralData: any): Promise<any[]> {
-    try {
-      const partners = await storage.listLendingPartners();
-      const offers = [];
-      
-      for (const partner of partners) {
-        try {
-          const adapter = this.getAdapter(partner.id);
-          const offer = await adapter.getLoanOffers(userId, collateralData);
-          offers.push(offer);
-        } catch (error) {
-          console.error(`Failed to get loan offer from partner ${partner.id}:`, error);
-          // Continue with other partners
-        }
-      }
-      
-      return offers;
-    } catch (error) {
-      console.error('Failed to get initial loan offers:', error);
-      throw error;
+  /**
+   * Pass a repayment taken on the platform to the partner that funded the loan.
+   * The payment is already applied here, so a partner failure is logged rather than thrown.
+   */
+  async repayLoan(loan: Loan, repayment: LoanRepayment): Promise<PartnerRepayment | null> {
+    if (!loan.lendingPartnerId || !loan.externalLoanId) {
+      return null;
     }
-  }
 
-  async submitLoanApplication(partnerId: number, application: any): Promise<any> {
     try {
-      const adapter = this.getAdapter(partnerId);
-      return await adapter.submitApplication(application);
+      const partner = await this.requirePartner(loan.lendingPartnerId);
+      return await this.adapter(partner).repay(
+        loan.externalLoanId,
+        parseFloat(repayment.amount),
+        `${FORWARDED_REPAYMENT_PREFIX}${repayment.id}`
+      );
     } catch (error) {
-      console.error(`Failed to submit loan application to partner ${partnerId}:`, error);
-      throw error;
+      console.error(`Failed to forward repayment ${repayment.id} to partner ${loan.lendingPartnerId}:`, error);
+      return null;
     }
   }
 
-  async checkApplicationStatus(partnerId: number, applicationId: string): Promise<any> {
-    try {
-      const adapter = this.getAdapter(partnerId);
-      return await adapter.checkApplicationStatus(applicationId);
-    } catch (error) {
-      console.error(`Failed to check loan application status with partner ${partnerId}:`, error);
-      throw error;
+  /**
+   * Apply a webhook from a partner; redelivered events are acknowledged without reapplying
+   * @param partnerId The partner the webhook URL belongs to
+   * @param headers Request headers carrying the signature
+   * @param rawBody The body as received, which the signature covers
+   * @param body The parsed event
+   */
+  async handleWebhook(partnerId: number, headers: Record<string, string | string[] | undefined>, rawBody: Buffer | undefined, body: unknown) {
+    const partner = await this.requirePartner(partnerId);
+    const event = this.adapter(partner).verifyWebhook(headers, rawBody, body);
+
+    if (await storage.getLendingWebhookEvent(partner.id, event.eventId)) {
+      return { eventId: event.eventId, duplicate: true };
     }
-  }
+    const record = await storage.createLendingWebhookEvent({
+      lendingPartnerId: partner.id,
+      eventId: event.eventId,
+      eventType: event.type,
+      payload: event
+    });
 
-  async disburseLoan(partnerId: number, applicationId: string): Promise<any> {
     try {
-      const adapter = this.getAdapter(partnerId);
-      return await adapter.disburseLoan(applicationId);
+      switch (event.type) {
+        case 'application.updated':
+          await this.applyStatus(await this.requireExternalApplication(partner, event.application.applicationId), event.application);
+          break;
+        case 'loan.disbursed':
+          await this.book(await this.requireExternalApplication(partner, event.disbursement.applicationId), event.disbursement);
+          break;
+        case 'repayment.received':
+          await this.applyPartnerRepayment(partner, event.repayment);
+          break;
+      }
     } catch (error) {
-      console.error(`Failed to disburse loan with partner ${partnerId}:`, error);
+      await storage.updateLendingWebhookEvent(record.id, { error: error instanceof Error ? error.message : String(error) });
       throw error;
     }
+
+    return { eventId: event.eventId, duplicate: false };
   }
 
-  async repayLoan(partnerId: number, loanId: string, amount: number): Promise<any> {
-    try {
-      const adapter = this.getAdapter(partnerId);
-      return await adapter.repayLoan(loanId, amount);
-    } catch (error) {
-      console.error(`Failed to process loan repayment with partner ${partnerId}:`, error);
-      throw error;
+  /**
+   * Applications of a borrower, newest first
+   */
+  async listApplications(userId: number) {
+    return (await storage.listLoanApplicationsByUser(userId)).sort((a, b) => b.id - a.id);
+  }
+
+  /**
+   * An application visible to its borrower
+   */
+  async getApplication(applicationId: number, userId: number) {
+    const application = await storage.getLoanApplication(applicationId);
+    if (!application) {
+      throw new Error("Loan application not found");
+    }
+    if (application.userId !== userId) {
+      throw new Error("Not authorized to view this loan application");
     }
+    return application;
   }
 
   // Underwriting service that aggregates credit assessment from multiple sources
@@ -332,51 +326,41 @@ export class LendingMiddleware {
       // 2. External credit bureau data
       // 3. Collateral valuation
       // 4. Market risk assessment
-      
-      const userCreditInfo = await storage.getUserCreditInfo(userId);
-      
-      // Calculate aggregate credit score (0-900 scale)
-      const creditScore = userCreditInfo.creditScore;
-      
-      // Determine credit rating
-      let creditRating: CreditRating;
-      if (creditScore >= 800) creditRating = CreditRating.AAA;
-      else if (creditScore >= 750) creditRating = CreditRating.AA;
-      else if (creditScore >= 700) creditRating = CreditRating.A;
-      else if (creditScore >= 650) creditRating = CreditRating.BBB;
-      else if (creditScore >= 600) creditRating = CreditRating.BB;
-      else if (creditScore >= 550) creditRating = CreditRating.B;
-      else if (creditScore >= 500) creditRating = CreditRating.C;
-      else creditRating = CreditRating.D;
-      
+
+      const userCreditInfo = await creditScoringService.getProfile(userId);
+
+      // Platform credit score (300-900 scale) and its rating
+      const creditScore = userCreditInfo.creditScore ?? 650;
+      const creditRating = ratingForScore(creditScore);
+
       // Calculate risk scores
       const totalCollateralValue = collateralData.receipts.reduce(
         (sum: number, receipt: any) => sum + receipt.valuation, 0
       );
-      
+
       const commodityPriceRisk = 0.3; // Example risk value (0-1)
       const creditRisk = 1 - (creditScore / 900);
       const operationalRisk = 0.2; // Example risk value (0-1)
-      
+
       // Overall risk is a weighted average
       const overallRisk = (
-        (commodityPriceRisk * 0.4) + 
-        (creditRisk * 0.4) + 
+        (commodityPriceRisk * 0.4) +
+        (creditRisk * 0.4) +
         (operationalRisk * 0.2)
       );
-      
+
       // Determine if application should be approved based on risk thresholds
       const approved = overallRisk < 0.5 && creditScore >= 600;
-      
+
       // Calculate recommended loan amount (up to 80% of collateral for good credit)
       const maxLoanPercentage = Math.max(0.5, 0.8 - (overallRisk * 0.3));
       const recommendedLoanAmount = totalCollateralValue * maxLoanPercentage;
-      
+
       // Calculate recommended interest rate based on risk
       const baseRate = 0.08; // 8% base rate
       const riskPremium = overallRisk * 0.12; // Up to 12% risk premium
       const recommendedInterestRate = baseRate + riskPremium;
-      
+
       return {
         approved,
         creditScore,
@@ -396,7 +380,226 @@ export class LendingMiddleware {
       throw error;
     }
   }
+
+  private async refresh(application: LoanApplication) {
+    if (!application.externalApplicationId || application.loanId) {
+      return application;
+    }
+
+    const partner = await this.requirePartner(application.lendingPartnerId);
+    const status = await this.adapter(partner).getApplicationStatus(application.externalApplicationId);
+    return this.applyStatus(application, status);
+  }
+
+  /**
+   * Record a partner's view of an application on ours
+   */
+  private async applyStatus(application: LoanApplication, status: ApplicationStatus) {
+    const updated = (await storage.updateLoanApplication(application.id, {
+      status: application.loanId ? application.status : APPLICATION_STATUS[status.status],
+      externalApplicationId: status.applicationId,
+      underwritingResult: status,
+      rejectionReason: status.rejectionReason ?? null,
+      statusCheckedAt: new Date()
+    }))!;
+
+    // A partner that disbursed without being asked has already paid the borrower
+    if (status.status === 'disbursed' && !updated.loanId && status.loanId) {
+      await this.book(updated, {
+        applicationId: status.applicationId,
+        loanId: status.loanId,
+        amount: status.approvedAmount ?? parseFloat(updated.requestedAmount),
+        transactionId: status.loanId,
+        disbursedAt: new Date().toISOString()
+      });
+      return (await storage.getLoanApplication(application.id))!;
+    }
+
+    if (updated.status !== application.status) {
+      BroadcastService.broadcastLoanUpdate(updated.userId, updated.loanId ?? 0, {
+        type: 'loan_application_updated',
+        applicationId: updated.id,
+        status: updated.status,
+        rejectionReason: updated.rejectionReason
+      });
+    }
+    return updated;
+  }
+
+  /**
+   * Book the loan a partner disbursed: pledge the receipts, build the schedule and post the disbursement
+   */
+  private async book(application: LoanApplication, disbursement: Disbursement): Promise<Loan> {
+    const inFlight = this.booking.get(application.id);
+    if (inFlight) {
+      return inFlight;
+    }
+
+    const booking = this.bookOnce(application.id, disbursement)
+      .finally(() => this.booking.delete(application.id));
+    this.booking.set(application.id, booking);
+    return booking;
+  }
+
+  private async bookOnce(applicationId: number, disbursement: Disbursement): Promise<Loan> {
+    const application = (await storage.getLoanApplication(applicationId))!;
+    if (application.loanId) {
+      return (await storage.getLoan(application.loanId))!;
+    }
+
+    const partner = await this.requirePartner(application.lendingPartnerId);
+    const data = (application.applicationData ?? {}) as { receiptIds?: number[]; processingFeePercent?: number };
+    const receiptIds = data.receiptIds ?? [];
+    const collateral = await this.collateral(application.userId, receiptIds);
+    const decision = (application.underwritingResult ?? {}) as Partial<ApplicationStatus>;
+    const interestRate = decision.interestRate ?? parseFloat(partner.interestRateMax);
+
+    const loan = await storage.createLoan({
+      userId: application.userId,
+      lendingPartnerId: partner.id,
+      lendingPartnerName: partner.name,
+      amount: disbursement.amount.toFixed(2),
+      interestRate: interestRate.toFixed(2),
+      endDate: new Date(Date.now() + application.requestedTenureDays * 24 * 60 * 60 * 1000),
+      status: 'approved',
+      collateralReceiptIds: JSON.stringify(receiptIds),
+      outstandingAmount: disbursement.amount.toFixed(2),
+      purpose: application.purpose,
+      creditScore: application.creditScore,
+      externalLoanId: disbursement.loanId,
+      repaymentSchedule: {
+        processingFee: Math.round(disbursement.amount * (data.processingFeePercent ?? 0)) / 100
+      }
+    });
+
+    for (const item of collateral) {
+      const receipt = (await storage.getWarehouseReceipt(item.receiptId))!;
+      await lienService.register(receipt, loan, { applicationId: application.id, disbursedAt: disbursement.disbursedAt });
+      await storage.createCollateralPledge({
+        receiptId: item.receiptId,
+        loanId: loan.id,
+        applicationId: application.id,
+        status: 'pledged',
+        valuationAmount: item.valuation.toFixed(2),
+        loanAmount: disbursement.amount.toFixed(2)
+      });
+    }
+
+    await storage.updateLoanApplication(application.id, { loanId: loan.id, status: 'approved' });
+
+    const tenureMonths = Math.max(1, Math.round(application.requestedTenureDays / 30));
+    const { loan: booked } = await loanAccountingService.initialise(loan.id, { tenureMonths });
+    await ledgerService.postLoanDisbursement(booked);
+
+    BroadcastService.broadcastLoanUpdate(application.userId, booked.id, {
+      type: 'loan_disbursed',
+      applicationId: application.id,
+      amount: booked.amount,
+      lendingPartnerName: partner.name
+    });
+    return booked;
+  }
+
+  /**
+   * A repayment the borrower made to the partner directly
+   */
+  private async applyPartnerRepayment(partner: LendingPartner, repayment: PartnerRepayment) {
+    if (repayment.reference?.startsWith(FORWARDED_REPAYMENT_PREFIX)) {
+      return;
+    }
+
+    const loan = await storage.getLoanByExternalId(partner.id, repayment.loanId);
+    if (!loan || !loan.userId) {
+      throw new Error(`Loan ${repayment.loanId} not found`);
+    }
+
+    await loanAccountingService.applyPayment(loan.id, loan.userId, repayment.amount, {
+      paymentMethod: 'partner_direct',
+      externalTransactionId: repayment.transactionId
+    });
+  }
+
+  /**
+   * The borrower's receipts as collateral; each must be theirs, valued and unencumbered
+   */
+  private async collateral(userId: number, receiptIds: number[]): Promise<CollateralItem[]> {
+    if (receiptIds.length === 0) {
+      throw new Error("At least one receipt is required as collateral");
+    }
+
+    const receipts = await storage.getReceiptsByIds(receiptIds);
+    if (receipts.length !== receiptIds.length) {
+      throw new Error("Receipt not found");
+    }
+
+    const items: CollateralItem[] = [];
+    for (const receipt of receipts) {
+      if (receipt.ownerId !== userId) {
+        throw new Error(`Not authorized to pledge receipt ${receipt.receiptNumber}`);
+      }
+      if (receipt.status !== 'active' || receipt.isFrozen || !parseFloat(receipt.valuation || "0")
+        || await lienService.isEncumbered(receipt.id)) {
+        throw new Error(`Receipt ${receipt.receiptNumber} is not eligible as collateral`);
+      }
+      items.push({
+        receiptId: receipt.id,
+        receiptNumber: receipt.receiptNumber,
+        commodity: receipt.commodityName,
+        quantity: parseFloat(receipt.quantity),
+        measurementUnit: receipt.measurementUnit || 'MT',
+        valuation: parseFloat(receipt.valuation!)
+      });
+    }
+    return items;
+  }
+
+  private async applicant(userId: number): Promise<LendingApplicant> {
+    const user = await storage.getUser(userId);
+    if (!user) {
+      throw new Error("User not found");
+    }
+    const profile = await creditScoringService.getProfile(userId);
+    return {
+      userId,
+      fullName: user.fullName,
+      creditScore: profile?.creditScore ?? null,
+      creditRating: profile?.creditRating ?? null
+    };
+  }
+
+  /**
+   * Whether the applicant's credit rating is one the partner lends to; partners without criteria lend to all
+   */
+  private lendsTo(partner: LendingPartner, applicant: LendingApplicant) {
+    const criteria = Array.isArray(partner.creditRatingCriteria) ? partner.creditRatingCriteria as string[] : [];
+    return criteria.length === 0 || (applicant.creditRating !== null && criteria.includes(applicant.creditRating));
+  }
+
+  private async activePartners() {
+    return (await storage.listLendingPartners()).filter(partner => partner.active !== false);
+  }
+
+  private async requirePartner(partnerId: number) {
+    const partner = await storage.getLendingPartner(partnerId);
+    if (!partner) {
+      throw new Error("Lending partner not found");
+    }
+    return partner;
+  }
+
+  private async requireExternalApplication(partner: LendingPartner, externalApplicationId: string) {
+    const application = await storage.getLoanApplicationByExternalId(partner.id, externalApplicationId);
+    if (!application) {
+      throw new Error(`Application ${externalApplicationId} not found`);
+    }
+    return application;
+  }
+
+  // Built per call so that endpoint and key changes apply without a restart
+  private adapter(partner: LendingPartner): LendingPartnerAdapter {
+    return createLendingAdapter(partner);
+  }
 }
 
 // Singleton instance
-export const lendingMiddleware = new LendingMiddleware();
\ No newline at end of file
+export const lendingMiddleware = new LendingMiddleware();
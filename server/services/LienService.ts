@@ -0,0 +1,529 @@
+import { storage } from "../storage";
+import BroadcastService from "./BroadcastService";
+import { auditLedgerService } from "./AuditLedgerService";
+import { actsForLender, hasPermission } from "../middleware/auth";
+import type { Lien, LienStatus, Loan, User, WarehouseReceipt } from "@shared/schema";
+
+/**
+ * The three parties to a lien release
+ */
+export type LienParty = 'borrower' | 'lender' | 'warehouse';
+
+export interface ReleaseApproval {
+  userId: number;
+  at: string;
+  note?: string;
+}
+
+export type ReleaseApprovals = Partial<Record<LienParty, ReleaseApproval>>;
+
+/**
+ * Where the lenders stand on a withdrawal of a receipt's stock. 'none' when no lien needs their consent.
+ */
+export type WithdrawalConsent = 'none' | 'pending' | 'approved' | 'declined';
+
+// Lien events recording a lender's decision on a withdrawal
+const CONSENT_EVENTS = ['withdrawal_consented', 'withdrawal_declined'];
+
+// A receipt under any of these is encumbered: its stock may not leave the warehouse
+const ENCUMBERING_STATUSES: LienStatus[] = ['active', 'release_requested', 'enforcing'];
+
+const PARTIES: LienParty[] = ['borrower', 'lender', 'warehouse'];
+
+/**
+ * Lien registry.
+ * Every loan secured on a receipt registers a lien naming the lender, loan, amount and
+ * its priority among the receipt's charges. A lien is released only once the borrower,
+ * the lender and the warehouse have all signed off; until then the warehouse may not
+ * release the stock. Each lien event is recorded on the receipt's transfer history.
+ */
+export class LienService {
+  /**
+   * Register a lien for a loan on a receipt and mark the receipt collateralized
+   * @param receipt The pledged receipt
+   * @param loan The loan it secures
+   * @param metadata Context recorded with the lien event (e.g. the margin call it cures)
+   */
+  async register(receipt: WarehouseReceipt, loan: Loan, metadata: Record<string, unknown> = {}) {
+    if (receipt.isFrozen) {
+      throw new Error(`Receipt ${receipt.receiptNumber} is frozen while a dispute is open`);
+    }
+
+    const existing = (await storage.listLiensByReceipt(receipt.id)).filter(lien => this.isEncumbering(lien));
+    if (existing.some(lien => lien.loanId === loan.id)) {
+      throw new Error(`Receipt ${receipt.receiptNumber} already secures loan ${loan.id}`);
+    }
+
+    const lien = await storage.createLien({
+      receiptId: receipt.id,
+      loanId: loan.id,
+      lendingPartnerId: loan.lendingPartnerId,
+      lenderName: loan.lendingPartnerName,
+      borrowerId: loan.userId ?? receipt.ownerId!,
+      amount: loan.amount,
+      priority: Math.max(0, ...existing.map(lien => lien.priority)) + 1,
+      status: 'active'
+    });
+
+    const collateralized = await storage.updateWarehouseReceipt(receipt.id, { status: 'collateralized' });
+    await auditLedgerService.anchorReceipt(collateralized!, 'collateralized', { lienId: lien.id });
+    await this.record(lien, 'pledge', 'registered', { ...metadata, amount: lien.amount, priority: lien.priority });
+    return lien;
+  }
+
+  /**
+   * Whether a receipt carries a lien that keeps its stock in the warehouse
+   */
+  async isEncumbered(receiptId: number) {
+    return (await this.encumbering(receiptId)).length > 0;
+  }
+
+  /**
+   * Liens that keep a receipt's stock in the warehouse, first charge first
+   */
+  async encumbering(receiptId: number) {
+    return (await storage.listLiensByReceipt(receiptId)).filter(lien => this.isEncumbering(lien));
+  }
+
+  /**
+   * The receipts that carry no lien
+   */
+  async unencumbered<T extends { id: number }>(receipts: T[]) {
+    const free: T[] = [];
+    for (const receipt of receipts) {
+      if (!(await this.isEncumbered(receipt.id))) free.push(receipt);
+    }
+    return free;
+  }
+
+  /**
+   * Refuse to release stock against a receipt with an outstanding lien
+   */
+  async assertReleasable(receiptId: number) {
+    const [lien] = await this.encumbering(receiptId);
+    if (lien) {
+      throw new Error(`Receipt has an active lien in favour of ${lien.lenderName ?? 'the lender'} (loan ${lien.loanId}); stock cannot be released`);
+    }
+  }
+
+  /**
+   * Liens on a receipt, visible to the parties to it
+   */
+  async listByReceipt(receiptId: number, userId: number) {
+    const receipt = await this.requireReceipt(receiptId);
+    const liens = await storage.listLiensByReceipt(receiptId);
+    const user = await storage.getUser(userId);
+    const canView = receipt.ownerId === userId
+      || (user && hasPermission(user.role, 'loan:manage'))
+      || (await this.managesWarehouse(receipt, userId))
+      || liens.some(lien => lien.borrowerId === userId);
+    if (!canView) {
+      throw new Error("Not authorized to view liens on this receipt");
+    }
+    return liens;
+  }
+
+  /**
+   * A lien with its events from the receipt's transfer history
+   */
+  async get(lienId: number, userId: number) {
+    const lien = await this.requireLien(lienId);
+    if ((await this.partiesOf(lien, userId)).length === 0) {
+      throw new Error("Not authorized to view this lien");
+    }
+    const events = (await storage.listReceiptTransfersByReceipt(lien.receiptId))
+      .filter(transfer => transfer.metadata?.lienId === lien.id);
+    return { ...lien, events };
+  }
+
+  /**
+   * Liens securing a loan
+   */
+  async listByLoan(loanId: number) {
+    return storage.listLiensByLoan(loanId);
+  }
+
+  /**
+   * Releases awaiting sign-off; a user sees those they are a party to and have not yet signed
+   */
+  async listPendingReleases(userId: number) {
+    const pending: Array<Lien & { awaiting: LienParty[] }> = [];
+    for (const lien of await storage.listLiensByStatus('release_requested')) {
+      const approvals = this.approvals(lien);
+      const parties = await this.partiesOf(lien, userId);
+      if (parties.some(party => !approvals[party])) {
+        pending.push({ ...lien, awaiting: PARTIES.filter(party => !approvals[party]) });
+      }
+    }
+    return pending;
+  }
+
+  /**
+   * Ask for a lien to be released. The requesting party's sign-off is recorded with the request.
+   * @param lienId The lien
+   * @param userId The borrower, a lender or the warehouse operator
+   * @param reason Why the lien should be released
+   */
+  async requestRelease(lienId: number, userId: number, reason: string) {
+    const lien = await this.requireLien(lienId);
+    if (lien.status !== 'active') {
+      throw new Error(`Lien is ${lien.status}`);
+    }
+
+    const [party] = await this.requireParty(lien, userId);
+    const requested = (await storage.updateLien(lien.id, {
+      status: 'release_requested',
+      releaseRequestedBy: userId,
+      releaseReason: reason,
+      releaseApprovals: { [party]: { userId, at: new Date().toISOString() } }
+    }))!;
+    await this.record(requested, 'release', 'release_requested', { party, userId, reason });
+    this.notify(requested, 'lien_release_requested');
+    return requested;
+  }
+
+  /**
+   * Sign off a requested release. The lien is released once all three parties have signed.
+   * @param lienId The lien
+   * @param userId A party that has not yet signed
+   * @param note Optional note recorded with the sign-off
+   */
+  async approveRelease(lienId: number, userId: number, note?: string) {
+    const lien = await this.requireLien(lienId);
+    if (lien.status !== 'release_requested') {
+      throw new Error("Lien has no release awaiting sign-off");
+    }
+
+    const approvals = this.approvals(lien);
+    const party = (await this.requireParty(lien, userId)).find(candidate => !approvals[candidate]);
+    if (!party) {
+      throw new Error("Release already signed off by you");
+    }
+
+    approvals[party] = { userId, at: new Date().toISOString(), ...(note ? { note } : {}) };
+    const signed = (await storage.updateLien(lien.id, { releaseApprovals: approvals }))!;
+    await this.record(signed, 'release', 'release_approved', { party, userId, note });
+
+    return PARTIES.every(candidate => approvals[candidate]) ? this.release(signed) : signed;
+  }
+
+  /**
+   * Refuse a requested release; the lien stays active
+   */
+  async rejectRelease(lienId: number, userId: number, note: string) {
+    const lien = await this.requireLien(lienId);
+    if (lien.status !== 'release_requested') {
+      throw new Error("Lien has no release awaiting sign-off");
+    }
+
+    const [party] = await this.requireParty(lien, userId);
+    const rejected = (await storage.updateLien(lien.id, {
+      status: 'active',
+      releaseApprovals: null,
+      releaseRequestedBy: null,
+      releaseReason: null
+    }))!;
+    await this.record(rejected, 'release', 'release_rejected', { party, userId, note });
+    this.notify(rejected, 'lien_release_rejected');
+    return rejected;
+  }
+
+  /**
+   * Request the release of every lien of a repaid loan, signed for the borrower
+   */
+  async requestReleaseForRepaidLoan(loan: Loan) {
+    for (const lien of await storage.listLiensByLoan(loan.id)) {
+      if (lien.status !== 'active') continue;
+      const requested = (await storage.updateLien(lien.id, {
+        status: 'release_requested',
+        releaseRequestedBy: lien.borrowerId,
+        releaseReason: 'Loan repaid in full',
+        releaseApprovals: { borrower: { userId: lien.borrowerId, at: new Date().toISOString() } }
+      }))!;
+      await this.record(requested, 'release', 'release_requested', { party: 'borrower', reason: 'Loan repaid in full' });
+      this.notify(requested, 'lien_release_requested');
+    }
+  }
+
+  /**
+   * Record a lender's decision on a withdrawal of a receipt's stock. The decision is a lien
+   * event on each encumbering lien whose loan the lender acts for; the other lenders decide
+   * on their own liens.
+   * @param receiptId The receipt being withdrawn
+   * @param lender The lender user deciding
+   * @param processId The withdrawal process
+   * @param approve Whether the lender consents
+   * @param note Optional note recorded with the decision
+   * @returns Where the withdrawal stands once the decision is recorded
+   */
+  async decideWithdrawal(receiptId: number, lender: User, processId: number, approve: boolean, note?: string) {
+    const liens = await this.encumbering(receiptId);
+    if (liens.length === 0) {
+      throw new Error("Receipt carries no lien, so there is no lender consent to give");
+    }
+
+    const held = await this.heldBy(liens, lender);
+    if (held.length === 0) {
+      throw new Error("Not authorized to decide on this withdrawal: you are not the lender of any loan the receipt secures");
+    }
+
+    const undecided: Lien[] = [];
+    for (const lien of held) {
+      if (!(await this.consentDecision(lien, processId))) undecided.push(lien);
+    }
+    if (undecided.length === 0) {
+      throw new Error("You have already decided on this withdrawal");
+    }
+
+    for (const lien of undecided) {
+      await this.record(lien, 'release', approve ? 'withdrawal_consented' : 'withdrawal_declined', {
+        processId,
+        userId: lender.id,
+        note
+      });
+    }
+    return this.withdrawalConsent(receiptId, processId);
+  }
+
+  /**
+   * Where the lenders stand on a withdrawal: declined once any lender declined, pending while an
+   * encumbering lien has no decision, approved once every lien has consented.
+   */
+  async withdrawalConsent(receiptId: number, processId: number): Promise<WithdrawalConsent> {
+    let pending = false;
+    let approved = false;
+    for (const lien of await storage.listLiensByReceipt(receiptId)) {
+      const decision = await this.consentDecision(lien, processId);
+      if (decision?.action === 'withdrawal_declined') return 'declined';
+      if (decision) {
+        approved = true;
+      } else if (this.isEncumbering(lien)) {
+        pending = true;
+      }
+    }
+    return pending ? 'pending' : approved ? 'approved' : 'none';
+  }
+
+  /**
+   * Whether a withdrawal waits on the decision of a lender: they act for the loan of an
+   * encumbering lien that has no decision yet
+   */
+  async awaitsConsentFrom(receiptId: number, processId: number, lender: User) {
+    for (const lien of await this.heldBy(await this.encumbering(receiptId), lender)) {
+      if (!(await this.consentDecision(lien, processId))) return true;
+    }
+    return false;
+  }
+
+  /**
+   * Release the liens on a receipt whose lenders consented to withdrawing it in full.
+   * The borrower asked for the withdrawal, each lender signs with their recorded consent
+   * and the warehouse carries it out.
+   * @param receiptId The receipt being withdrawn
+   * @param borrowerId The borrower who asked for the withdrawal
+   * @param processId The withdrawal process
+   */
+  async releaseForWithdrawal(receiptId: number, borrowerId: number, processId: number) {
+    const at = new Date().toISOString();
+    for (const lien of await this.encumbering(receiptId)) {
+      if (lien.status === 'enforcing') continue;
+      const consent = await this.consentDecision(lien, processId);
+      if (consent?.action !== 'withdrawal_consented') {
+        throw new Error(`Lien ${lien.id} has no lender consent to withdrawal ${processId}`);
+      }
+      const approvals: ReleaseApprovals = {
+        ...this.approvals(lien),
+        borrower: { userId: borrowerId, at, note: `Withdrawal ${processId}` },
+        lender: { userId: (consent.payload as { userId: number }).userId, at, note: `Consented to withdrawal ${processId}` }
+      };
+      const signed = (await storage.updateLien(lien.id, {
+        releaseApprovals: approvals,
+        releaseRequestedBy: lien.releaseRequestedBy ?? borrowerId,
+        releaseReason: lien.releaseReason ?? 'Withdrawal of the stock'
+      }))!;
+      await this.release(signed, { processId });
+    }
+  }
+
+  /**
+   * Move the liens of a partly withdrawn receipt onto the residual receipt still in the warehouse
+   */
+  async carryForward(receiptId: number, residual: WarehouseReceipt, processId: number) {
+    for (const lien of await this.encumbering(receiptId)) {
+      const closed = (await storage.updateLien(lien.id, {
+        status: 'released',
+        releasedAt: new Date(),
+        releaseReason: `Carried forward to receipt ${residual.receiptNumber}`
+      }))!;
+      await this.record(closed, 'release', 'carried_forward', { residualReceiptId: residual.id, processId });
+
+      const carried = await storage.createLien({
+        receiptId: residual.id,
+        loanId: lien.loanId,
+        lendingPartnerId: lien.lendingPartnerId,
+        lenderName: lien.lenderName,
+        borrowerId: lien.borrowerId,
+        amount: lien.amount,
+        priority: lien.priority,
+        status: lien.status === 'enforcing' ? 'enforcing' : 'active'
+      });
+      await this.record(carried, 'pledge', 'registered', { carriedFromLienId: lien.id, parentReceiptId: receiptId, processId });
+    }
+  }
+
+  /**
+   * The loan defaulted: its lender is enforcing the liens, which keep the stock in the warehouse
+   */
+  async markEnforcing(loanId: number) {
+    for (const lien of await storage.listLiensByLoan(loanId)) {
+      if (lien.status !== 'active' && lien.status !== 'release_requested') continue;
+      const enforcing = (await storage.updateLien(lien.id, { status: 'enforcing', releaseApprovals: null }))!;
+      await this.record(enforcing, 'pledge', 'enforcement_started', {});
+    }
+  }
+
+  /**
+   * The collateral was sold to recover the loan; the lien is discharged by the sale
+   * @param receiptId The receipt sold
+   * @param loanId The loan recovered
+   * @param metadata Sale details recorded with the event
+   */
+  async markEnforced(receiptId: number, loanId: number, metadata: Record<string, unknown>) {
+    for (const lien of await storage.listLiensByReceipt(receiptId)) {
+      if (lien.loanId !== loanId || !this.isEncumbering(lien)) continue;
+      const enforced = (await storage.updateLien(lien.id, { status: 'enforced', releasedAt: new Date() }))!;
+      await this.record(enforced, 'liquidation', 'enforced', metadata);
+    }
+  }
+
+  private async release(lien: Lien, metadata: Record<string, unknown> = {}) {
+    const released = (await storage.updateLien(lien.id, { status: 'released', releasedAt: new Date() }))!;
+    await this.record(released, 'release', 'released', { ...metadata, approvals: released.releaseApprovals });
+
+    // The receipt is free once no other lien remains on it
+    const receipt = await storage.getWarehouseReceipt(lien.receiptId);
+    if (receipt?.status === 'collateralized' && !(await this.isEncumbered(receipt.id))) {
+      const freed = await storage.updateWarehouseReceipt(receipt.id, { status: 'active' });
+      await auditLedgerService.anchorReceipt(freed!, 'released', { lienId: lien.id });
+    }
+
+    for (const pledge of await storage.listCollateralPledgesByLoan(lien.loanId)) {
+      if (pledge.receiptId === lien.receiptId && pledge.status === 'pledged') {
+        await storage.updateCollateralPledge(pledge.id, { status: 'released', releaseDate: new Date() });
+      }
+    }
+
+    this.notify(released, 'lien_released');
+    return released;
+  }
+
+  private isEncumbering(lien: Lien) {
+    return ENCUMBERING_STATUSES.includes(lien.status);
+  }
+
+  /**
+   * The liens whose loan the lender acts for, judged by the lending partner of the loan itself
+   */
+  private async heldBy(liens: Lien[], lender: User) {
+    const held: Lien[] = [];
+    for (const lien of liens) {
+      const loan = await storage.getLoan(lien.loanId);
+      if (loan && actsForLender(lender, loan.lendingPartnerId)) held.push(lien);
+    }
+    return held;
+  }
+
+  /**
+   * The latest lender decision recorded on a lien for a withdrawal, if any
+   */
+  private async consentDecision(lien: Lien, processId: number) {
+    const decisions = (await auditLedgerService.listEntityEntries('lien', lien.id))
+      .filter(entry => CONSENT_EVENTS.includes(entry.action) && (entry.payload as { processId?: number }).processId === processId);
+    return decisions[decisions.length - 1];
+  }
+
+  private approvals(lien: Lien): ReleaseApprovals {
+    return { ...((lien.releaseApprovals as ReleaseApprovals | null) ?? {}) };
+  }
+
+  /**
+   * The parties to a lien a user acts for: the borrower, a user of the lien's lending partner, and the warehouse's operator
+   */
+  private async partiesOf(lien: Lien, userId: number): Promise<LienParty[]> {
+    const [user, receipt] = await Promise.all([storage.getUser(userId), storage.getWarehouseReceipt(lien.receiptId)]);
+    if (!user) return [];
+
+    const parties: LienParty[] = [];
+    if (lien.borrowerId === userId) parties.push('borrower');
+    if (actsForLender(user, lien.lendingPartnerId)) parties.push('lender');
+    if (receipt && await this.managesWarehouse(receipt, userId)) parties.push('warehouse');
+    return parties;
+  }
+
+  private async requireParty(lien: Lien, userId: number) {
+    const parties = await this.partiesOf(lien, userId);
+    if (parties.length === 0) {
+      throw new Error("Not authorized to act on this lien");
+    }
+    return parties;
+  }
+
+  private async managesWarehouse(receipt: WarehouseReceipt, userId: number) {
+    if (!receipt.warehouseId) return false;
+    const warehouse = await storage.getWarehouse(receipt.warehouseId);
+    return warehouse?.ownerId === userId;
+  }
+
+  // Each lien event is an audit ledger entry on the lien, referenced by the lien and by a receipt transfer
+  private async record(lien: Lien, transferType: 'pledge' | 'release' | 'liquidation', event: string, metadata: Record<string, unknown>) {
+    const details = {
+      lienEvent: event,
+      lienId: lien.id,
+      loanId: lien.loanId,
+      lendingPartnerId: lien.lendingPartnerId,
+      lenderName: lien.lenderName,
+      status: lien.status,
+      ...metadata
+    };
+    const entry = await auditLedgerService.append('lien', lien.id, event, { receiptId: lien.receiptId, ...details });
+    await storage.updateLien(lien.id, { auditEntryId: entry.id });
+
+    await storage.createReceiptTransfer({
+      receiptId: lien.receiptId,
+      fromUserId: lien.borrowerId,
+      toUserId: lien.borrowerId,
+      transferType,
+      transactionHash: entry.entryHash,
+      auditEntryId: entry.id,
+      metadata: details
+    });
+  }
+
+  private notify(lien: Lien, type: string) {
+    BroadcastService.broadcastReceiptUpdate(lien.borrowerId, lien.receiptId, {
+      type,
+      lienId: lien.id,
+      loanId: lien.loanId,
+      status: lien.status
+    });
+  }
+
+  private async requireLien(lienId: number) {
+    const lien = await storage.getLien(lienId);
+    if (!lien) {
+      throw new Error("Lien not found");
+    }
+    return lien;
+  }
+
+  private async requireReceipt(receiptId: number) {
+    const receipt = await storage.getWarehouseReceipt(receiptId);
+    if (!receipt) {
+      throw new Error("Receipt not found");
+    }
+    return receipt;
+  }
+}
+
+// Export singleton instance
+export const lienService = new LienService();
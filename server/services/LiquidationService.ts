@@ -0,0 +1,467 @@
+import { storage } from "../storage";
+import BroadcastService from "./BroadcastService";
+import { auditLedgerService } from "./AuditLedgerService";
+import { loanAccountingService } from "./LoanAccountingService";
+import { ledgerService } from "./LedgerService";
+import { storageFeeService } from "./StorageFeeService";
+import { lienService } from "./LienService";
+import { paymentService } from "./PaymentService";
+import type {
+  AuctionBid,
+  AuctionType,
+  CollateralAuction,
+  LiquidationSettlement,
+  Loan,
+  WarehouseReceipt
+} from "@shared/schema";
+
+const CLOSE_CHECK_MS = 60 * 1000;
+
+export interface OpenAuctionOptions {
+  auctionType?: AuctionType;
+  durationHours?: number;
+  reservePrice?: number;
+  minIncrement?: number;
+  createdBy?: number;
+}
+
+function envNumber(name: string, fallback: number): number {
+  const value = parseFloat(process.env[name] || '');
+  return Number.isFinite(value) ? value : fallback;
+}
+
+/**
+ * Service for liquidating the collateral of defaulted loans.
+ * A defaulted loan's pledged receipts are sold as one lot in a sealed-bid
+ * (first price, bids hidden until close) or ascending auction among traders.
+ * At close the winning bid is applied in waterfall order (unpaid storage fees,
+ * principal, interest, fees) with any surplus due to the borrower, and the receipts move to
+ * the winner through 'liquidation' receipt transfers.
+ */
+export class LiquidationService {
+  private closeTimer: NodeJS.Timeout | null = null;
+  private queue: Promise<unknown> = Promise.resolve();
+
+  /**
+   * Close auctions as they reach their end time
+   */
+  start() {
+    if (this.closeTimer) return;
+    this.closeTimer = setInterval(() => {
+      this.closeExpired().catch(error => console.error('Closing liquidation auctions failed:', error));
+    }, CLOSE_CHECK_MS);
+    this.closeTimer.unref?.();
+  }
+
+  /**
+   * Cancel the close check
+   */
+  stop() {
+    if (this.closeTimer) clearInterval(this.closeTimer);
+    this.closeTimer = null;
+  }
+
+  /**
+   * Put a defaulted loan's collateral up for auction
+   * @param loanId The defaulted loan
+   * @param options Auction type, duration, reserve and bid increment
+   */
+  async openAuction(loanId: number, options: OpenAuctionOptions = {}): Promise<CollateralAuction> {
+    const loan = await storage.getLoan(loanId);
+    if (!loan) {
+      throw new Error("Loan not found");
+    }
+
+    if (loan.status !== 'defaulted') {
+      throw new Error(`Only defaulted loans can be liquidated, loan is '${loan.status}'`);
+    }
+
+    const existing = await storage.listCollateralAuctionsByLoan(loanId);
+    if (existing.some(auction => auction.status === 'open' || auction.status === 'settled')) {
+      throw new Error("Loan collateral is already being auctioned");
+    }
+
+    const receipts = await storage.getReceiptsByIds(this.collateralIds(loan));
+    const lot = receipts.filter(receipt => receipt.ownerId === loan.userId && receipt.status !== 'withdrawn');
+    if (lot.length === 0) {
+      throw new Error("Loan has no collateral left to auction");
+    }
+
+    const collateralValue = lot.reduce((sum, receipt) => sum + parseFloat(receipt.valuation || "0"), 0);
+    const reservePrice = options.reservePrice ?? collateralValue * envNumber('LIQUIDATION_RESERVE_PERCENT', 70) / 100;
+    const minIncrement = options.minIncrement ?? Math.max(100, Math.round(collateralValue * 0.005));
+    const durationHours = options.durationHours ?? envNumber('LIQUIDATION_AUCTION_HOURS', 48);
+
+    const auction = await storage.createCollateralAuction({
+      loanId,
+      receiptIds: lot.map(receipt => receipt.id),
+      auctionType: options.auctionType ?? (process.env.LIQUIDATION_AUCTION_TYPE === 'sealed_bid' ? 'sealed_bid' : 'ascending'),
+      status: 'open',
+      collateralValue: collateralValue.toFixed(2),
+      reservePrice: reservePrice.toFixed(2),
+      minIncrement: minIncrement.toFixed(2),
+      endsAt: new Date(Date.now() + durationHours * 60 * 60 * 1000),
+      createdBy: options.createdBy ?? null
+    });
+
+    if (loan.userId) {
+      BroadcastService.broadcastLoanUpdate(loan.userId, loan.id, {
+        type: 'liquidation_auction_opened',
+        auctionId: auction.id,
+        auctionType: auction.auctionType,
+        endsAt: auction.endsAt
+      });
+    }
+
+    return auction;
+  }
+
+  /**
+   * Place or raise a bid
+   * @param auctionId The open auction
+   * @param bidderId The trader bidding
+   * @param amount Bid for the whole lot
+   */
+  async placeBid(auctionId: number, bidderId: number, amount: number): Promise<AuctionBid> {
+    const auction = await this.requireAuction(auctionId);
+    if (auction.status !== 'open' || auction.endsAt <= new Date()) {
+      throw new Error("Auction is closed");
+    }
+
+    const loan = await storage.getLoan(auction.loanId);
+    if (loan?.userId === bidderId) {
+      throw new Error("Not authorized to bid on your own collateral");
+    }
+
+    if (amount < parseFloat(auction.reservePrice) && auction.auctionType === 'ascending') {
+      throw new Error(`Bid must be at least the reserve of ${auction.reservePrice}`);
+    }
+
+    const bids = await storage.listAuctionBids(auctionId);
+    const active = bids.filter(bid => bid.status === 'active');
+
+    if (auction.auctionType === 'sealed_bid') {
+      // One sealed bid per trader; a new bid replaces the previous one
+      for (const previous of active.filter(bid => bid.bidderId === bidderId)) {
+        await storage.updateAuctionBid(previous.id, { status: 'outbid' });
+      }
+      return storage.createAuctionBid({ auctionId, bidderId, amount: amount.toFixed(2), status: 'active' });
+    }
+
+    const leading = this.highest(active);
+    if (leading) {
+      const minimum = parseFloat(leading.amount) + parseFloat(auction.minIncrement);
+      if (amount < minimum) {
+        throw new Error(`Bid must be at least ${minimum.toFixed(2)}`);
+      }
+      await storage.updateAuctionBid(leading.id, { status: 'outbid' });
+      if (leading.bidderId !== bidderId) {
+        BroadcastService.broadcastLoanUpdate(leading.bidderId, auction.loanId, {
+          type: 'auction_outbid',
+          auctionId,
+          leadingAmount: amount.toFixed(2)
+        });
+      }
+    }
+
+    return storage.createAuctionBid({ auctionId, bidderId, amount: amount.toFixed(2), status: 'active' });
+  }
+
+  /**
+   * Close every open auction past its end time
+   */
+  async closeExpired(now: Date = new Date()) {
+    const expired = (await storage.listCollateralAuctions('open'))
+      .filter(auction => auction.endsAt <= now);
+
+    const closed: CollateralAuction[] = [];
+    for (const auction of expired) {
+      try {
+        closed.push(await this.close(auction.id));
+      } catch (error) {
+        console.error(`Failed to close auction ${auction.id}:`, error);
+      }
+    }
+    return closed;
+  }
+
+  /**
+   * Close an auction that has ended: collect the highest bid at or above the reserve and settle with it.
+   * Closes run one at a time, so the close check and an admin closing by hand settle an auction only once.
+   * @param auctionId The auction to close
+   */
+  async close(auctionId: number): Promise<CollateralAuction> {
+    return this.exclusive(() => this.closeAuction(auctionId));
+  }
+
+  private async closeAuction(auctionId: number): Promise<CollateralAuction> {
+    const auction = await this.requireAuction(auctionId);
+    if (auction.status !== 'open') {
+      throw new Error(`Auction is already ${auction.status}`);
+    }
+    if (auction.endsAt > new Date()) {
+      throw new Error("Auction has not ended yet");
+    }
+
+    const bids = (await storage.listAuctionBids(auctionId)).filter(bid => bid.status === 'active');
+    const winner = this.highest(bids);
+
+    if (!winner || parseFloat(winner.amount) < parseFloat(auction.reservePrice)) {
+      for (const bid of bids) {
+        await storage.updateAuctionBid(bid.id, { status: 'lost' });
+      }
+      const failed = await storage.updateCollateralAuction(auctionId, { status: 'failed', settledAt: new Date() });
+      this.notifyBorrower(failed!, 'liquidation_auction_failed');
+      return failed!;
+    }
+
+    // The collateral only moves once the winner has paid
+    const { payment, success } = await paymentService.processAuctionPayment(winner.bidderId, auctionId, winner.amount);
+    if (!success) {
+      for (const bid of bids) {
+        await storage.updateAuctionBid(bid.id, { status: 'lost' });
+      }
+      const failed = await storage.updateCollateralAuction(auctionId, { status: 'failed', settledAt: new Date() });
+      this.notifyBorrower(failed!, 'liquidation_auction_failed');
+      BroadcastService.broadcastLoanUpdate(winner.bidderId, auction.loanId, {
+        type: 'auction_payment_failed',
+        auctionId,
+        paymentId: payment.id
+      });
+      return failed!;
+    }
+
+    for (const bid of bids) {
+      await storage.updateAuctionBid(bid.id, { status: bid.id === winner.id ? 'won' : 'lost' });
+    }
+
+    const settlement = await this.settle(auction, winner, payment.id);
+    const settled = await storage.updateCollateralAuction(auctionId, {
+      status: 'settled',
+      winningBidId: winner.id,
+      settlement,
+      settledAt: new Date()
+    });
+
+    this.notifyBorrower(settled!, 'liquidation_settled');
+    for (const receiptId of this.lotIds(auction)) {
+      BroadcastService.broadcastReceiptUpdate(winner.bidderId, receiptId, {
+        type: 'auction_won',
+        auctionId
+      });
+    }
+
+    return settled!;
+  }
+
+  /**
+   * Withdraw an open auction that has no bids
+   */
+  async cancel(auctionId: number): Promise<CollateralAuction> {
+    return this.exclusive(() => this.cancelAuction(auctionId));
+  }
+
+  private async cancelAuction(auctionId: number): Promise<CollateralAuction> {
+    const auction = await this.requireAuction(auctionId);
+    if (auction.status !== 'open') {
+      throw new Error(`Auction is already ${auction.status}`);
+    }
+
+    const bids = await storage.listAuctionBids(auctionId);
+    if (bids.length > 0) {
+      throw new Error("Auction with bids cannot be cancelled");
+    }
+
+    const cancelled = await storage.updateCollateralAuction(auctionId, { status: 'cancelled', settledAt: new Date() });
+    this.notifyBorrower(cancelled!, 'liquidation_auction_cancelled');
+    return cancelled!;
+  }
+
+  /**
+   * Auctions with their lot; sealed bids stay hidden from everyone but their bidder until close
+   * @param status Only auctions in this status
+   * @param viewerId The user viewing the auctions
+   */
+  async list(viewerId: number, status?: CollateralAuction['status']) {
+    const auctions = await storage.listCollateralAuctions(status);
+    return Promise.all(auctions.map(auction => this.present(auction, viewerId)));
+  }
+
+  /**
+   * An auction with its lot and the bids visible to the viewer
+   */
+  async get(auctionId: number, viewerId: number) {
+    return this.present(await this.requireAuction(auctionId), viewerId);
+  }
+
+  /**
+   * Apply the collected winning bid to the loan and move the receipts to the winner
+   */
+  private async settle(auction: CollateralAuction, winner: AuctionBid, paymentId: string): Promise<LiquidationSettlement> {
+    const loan = await loanAccountingService.accrue(auction.loanId);
+
+    const proceeds = parseFloat(winner.amount);
+    const principalDue = parseFloat(loan.outstandingAmount ?? loan.amount);
+    const penalDue = parseFloat(loan.penalInterest ?? '0');
+    const interestDue = parseFloat(loan.accruedInterest ?? '0') + penalDue;
+    const feesDue = proceeds * envNumber('LIQUIDATION_FEE_PERCENT', 2) / 100;
+
+    // The warehouse's lien for unpaid storage ranks ahead of the lender
+    const storageFees = await storageFeeService.netFromProceeds(this.lotIds(auction), proceeds, `auction:${auction.id}`);
+
+    let remaining = proceeds - storageFees.paid;
+    const principalPaid = Math.min(remaining, principalDue);
+    remaining -= principalPaid;
+    const interestPaid = Math.min(remaining, interestDue);
+    remaining -= interestPaid;
+    const feesPaid = Math.min(remaining, feesDue);
+    remaining -= feesPaid;
+    const borrowerSurplus = remaining;
+    const shortfall = (principalDue - principalPaid) + (interestDue - interestPaid);
+    // Penal interest is cleared before regular interest, as for any repayment
+    const penalPaid = Math.min(interestPaid, penalDue);
+
+    const repayment = loan.userId && principalPaid + interestPaid > 0
+      ? await storage.createLoanRepayment({
+          loanId: loan.id,
+          userId: loan.userId,
+          amount: (principalPaid + interestPaid).toFixed(2),
+          paymentMethod: 'liquidation',
+          status: 'completed',
+          principalAmount: principalPaid.toFixed(2),
+          interestAmount: (interestPaid - penalPaid).toFixed(2),
+          penalAmount: penalPaid.toFixed(2),
+          externalTransactionId: `AUCTION-${auction.id}`
+        })
+      : null;
+
+    await storage.updateLoan(loan.id, {
+      status: 'liquidated',
+      outstandingAmount: (principalDue - principalPaid).toFixed(2),
+      accruedInterest: Math.max(0, interestDue - penalDue - (interestPaid - penalPaid)).toFixed(2),
+      penalInterest: (penalDue - penalPaid).toFixed(2),
+      lastPaymentDate: new Date()
+    });
+
+    const transferIds: number[] = [];
+    const receipts = await storage.getReceiptsByIds(this.lotIds(auction));
+    for (const receipt of receipts) {
+      transferIds.push(await this.transferToWinner(receipt, winner, auction));
+    }
+
+    for (const pledge of await storage.listCollateralPledgesByLoan(loan.id)) {
+      await storage.updateCollateralPledge(pledge.id, { status: 'liquidated', releaseDate: new Date() });
+    }
+
+    const settlement: LiquidationSettlement = {
+      proceeds,
+      principalDue,
+      principalPaid,
+      interestDue: Math.round(interestDue * 100) / 100,
+      interestPaid: Math.round(interestPaid * 100) / 100,
+      storageFeesDue: storageFees.due,
+      storageFeesPaid: storageFees.paid,
+      feesDue: Math.round(feesDue * 100) / 100,
+      feesPaid: Math.round(feesPaid * 100) / 100,
+      borrowerSurplus: Math.round(borrowerSurplus * 100) / 100,
+      shortfall: Math.round(shortfall * 100) / 100,
+      winnerId: winner.bidderId,
+      paymentId,
+      transferIds,
+      repaymentId: repayment?.id ?? null
+    };
+
+    await ledgerService.postLiquidation(auction.id, loan, settlement, repayment, storageFees.allocations);
+    return settlement;
+  }
+
+  private async transferToWinner(receipt: WarehouseReceipt, winner: AuctionBid, auction: CollateralAuction) {
+    const transfer = await auditLedgerService.recordTransfer({
+      receiptId: receipt.id,
+      fromUserId: receipt.ownerId!,
+      toUserId: winner.bidderId,
+      transferType: 'liquidation',
+      metadata: {
+        auctionId: auction.id,
+        loanId: auction.loanId,
+        bidId: winner.id,
+        amount: winner.amount
+      }
+    });
+
+    await lienService.markEnforced(receipt.id, auction.loanId, { auctionId: auction.id, transferId: transfer.id });
+    await storage.updateWarehouseReceipt(receipt.id, {
+      ownerId: winner.bidderId,
+      status: 'active',
+      liens: null,
+      collateralUsed: '0'
+    });
+
+    return transfer.id;
+  }
+
+  private async present(auction: CollateralAuction, viewerId: number) {
+    const bids = await storage.listAuctionBids(auction.id);
+    const active = bids.filter(bid => bid.status === 'active' || bid.status === 'won');
+    const sealed = auction.auctionType === 'sealed_bid' && auction.status === 'open';
+    const leading = this.highest(active);
+
+    return {
+      ...auction,
+      receipts: await storage.getReceiptsByIds(this.lotIds(auction)),
+      bidCount: active.length,
+      leadingBid: sealed ? null : leading?.amount ?? null,
+      bids: sealed ? bids.filter(bid => bid.bidderId === viewerId) : bids
+    };
+  }
+
+  private exclusive<T>(task: () => Promise<T>): Promise<T> {
+    const run = this.queue.then(task, task);
+    this.queue = run.catch(() => undefined);
+    return run;
+  }
+
+  private notifyBorrower(auction: CollateralAuction, type: string) {
+    storage.getLoan(auction.loanId).then(loan => {
+      if (loan?.userId) {
+        BroadcastService.broadcastLoanUpdate(loan.userId, loan.id, {
+          type,
+          auctionId: auction.id,
+          status: auction.status,
+          settlement: auction.settlement
+        });
+      }
+    }).catch(error => {
+      console.error(`Failed to notify the borrower of auction ${auction.id}:`, error);
+    });
+  }
+
+  private highest(bids: AuctionBid[]): AuctionBid | undefined {
+    // Earlier bid wins a tie
+    return bids.reduce<AuctionBid | undefined>(
+      (best, bid) => !best || parseFloat(bid.amount) > parseFloat(best.amount) ? bid : best,
+      undefined
+    );
+  }
+
+  private async requireAuction(auctionId: number) {
+    const auction = await storage.getCollateralAuction(auctionId);
+    if (!auction) {
+      throw new Error("Auction not found");
+    }
+    return auction;
+  }
+
+  private lotIds(auction: CollateralAuction): number[] {
+    return Array.isArray(auction.receiptIds) ? (auction.receiptIds as unknown[]).map(Number) : [];
+  }
+
+  private collateralIds(loan: Loan): number[] {
+    const raw = typeof loan.collateralReceiptIds === "string"
+      ? JSON.parse(loan.collateralReceiptIds)
+      : loan.collateralReceiptIds;
+    return Array.isArray(raw) ? raw.map(Number) : [];
+  }
+}
+
+export const liquidationService = new LiquidationService();
@@ -0,0 +1,475 @@
+import { addMonths, differenceInCalendarDays, startOfDay } from 'date-fns';
+import { storage } from "../storage";
+import BroadcastService from "./BroadcastService";
+import { ledgerService } from "./LedgerService";
+import { creditScoringService } from "./CreditScoringService";
+import { lienService } from "./LienService";
+import type { Loan, LoanInstalment, RepaymentType } from "@shared/schema";
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+// Loans that accrue interest
+const ACCRUING_STATUSES = ['approved', 'active', 'defaulted'];
+
+export type PrepaymentMode = 'reduce_emi' | 'reduce_tenure';
+
+export interface ScheduledInstalment {
+  sequence: number;
+  dueDate: Date;
+  principalDue: number;
+  interestDue: number;
+}
+
+export interface PaymentOptions {
+  paymentMethod: string;
+  externalTransactionId?: string;
+  prepaymentMode?: PrepaymentMode;
+  asOf?: Date;
+}
+
+const round2 = (value: number) => Math.round(value * 100) / 100;
+
+const amountDue = (instalment: LoanInstalment) =>
+  parseFloat(instalment.principalDue) + parseFloat(instalment.interestDue);
+
+const isOpen = (instalment: LoanInstalment) =>
+  instalment.status !== 'paid' && instalment.status !== 'rescheduled';
+
+/**
+ * Loan accounting engine.
+ * Generates EMI, bullet and interest-only schedules, accrues interest daily on
+ * the outstanding principal and penal interest on overdue instalments, and
+ * applies payments penal interest first, then interest, then principal. Any
+ * amount beyond the instalments currently due is a part-prepayment, after which
+ * the remaining schedule is re-amortized. loans.outstandingAmount holds principal only.
+ */
+export class LoanAccountingService {
+  private accrualTimer: NodeJS.Timeout | null = null;
+
+  /**
+   * Accrue interest on every open loan once a day
+   */
+  start() {
+    if (this.accrualTimer) return;
+    this.accrualTimer = setInterval(() => {
+      this.accrueAll().catch(error => console.error('Daily interest accrual failed:', error));
+    }, DAY_MS);
+    this.accrualTimer.unref?.();
+  }
+
+  /**
+   * Cancel the daily accrual
+   */
+  stop() {
+    if (this.accrualTimer) clearInterval(this.accrualTimer);
+    this.accrualTimer = null;
+  }
+
+  /**
+   * Instalments for a principal over a tenure, due monthly from the start date
+   * @param principal Amount to amortize
+   * @param annualRate Interest rate in percent per year
+   * @param tenureMonths Number of monthly periods
+   * @param type EMI, bullet (everything at maturity) or interest-only (principal at maturity)
+   * @param startDate Date the first period starts
+   * @param firstSequence Sequence number of the first instalment
+   * @param fixedInstalment EMI to keep instead of computing one for the tenure
+   */
+  buildSchedule(
+    principal: number,
+    annualRate: number,
+    tenureMonths: number,
+    type: RepaymentType,
+    startDate: Date,
+    firstSequence: number = 1,
+    fixedInstalment?: number
+  ): ScheduledInstalment[] {
+    if (principal <= 0 || tenureMonths <= 0) {
+      return [];
+    }
+
+    const monthlyRate = annualRate / 12 / 100;
+    const due = (period: number) => addMonths(startDate, period);
+
+    if (type === 'bullet') {
+      return [{
+        sequence: firstSequence,
+        dueDate: due(tenureMonths),
+        principalDue: round2(principal),
+        interestDue: round2(principal * monthlyRate * tenureMonths)
+      }];
+    }
+
+    if (type === 'interest_only') {
+      return Array.from({ length: tenureMonths }, (_, i) => ({
+        sequence: firstSequence + i,
+        dueDate: due(i + 1),
+        principalDue: i === tenureMonths - 1 ? round2(principal) : 0,
+        interestDue: round2(principal * monthlyRate)
+      }));
+    }
+
+    const emi = monthlyRate === 0
+      ? principal / tenureMonths
+      : principal * monthlyRate * Math.pow(1 + monthlyRate, tenureMonths) / (Math.pow(1 + monthlyRate, tenureMonths) - 1);
+    const instalmentAmount = fixedInstalment ?? Math.round(emi);
+
+    const schedule: ScheduledInstalment[] = [];
+    let balance = principal;
+    for (let i = 0; i < tenureMonths; i++) {
+      const interest = round2(balance * monthlyRate);
+      // The last instalment clears whatever rounding left on the balance
+      const principalPart = i === tenureMonths - 1 ? round2(balance) : round2(Math.min(balance, instalmentAmount - interest));
+      schedule.push({ sequence: firstSequence + i, dueDate: due(i + 1), principalDue: principalPart, interestDue: interest });
+      balance = round2(balance - principalPart);
+    }
+    return schedule;
+  }
+
+  /**
+   * Create the repayment schedule of a new loan
+   * @param loanId The loan, with amount, rate and start date set
+   * @param options Repayment type and tenure; tenure defaults to the months to the loan's end date
+   */
+  async initialise(loanId: number, options: { repaymentType?: RepaymentType; tenureMonths?: number } = {}) {
+    const loan = await this.requireLoan(loanId);
+
+    const existing = await storage.listLoanInstalments(loanId);
+    if (existing.length > 0) {
+      throw new Error("Loan already has a repayment schedule");
+    }
+
+    const startDate = startOfDay(loan.startDate ?? new Date());
+    const repaymentType = options.repaymentType ?? loan.repaymentType ?? 'emi';
+    const tenureMonths = options.tenureMonths ?? loan.tenureMonths ?? Math.max(1, Math.round(
+      differenceInCalendarDays(new Date(loan.endDate), startDate) / 30
+    ));
+    const principal = parseFloat(loan.outstandingAmount ?? loan.amount);
+
+    const schedule = this.buildSchedule(principal, parseFloat(loan.interestRate), tenureMonths, repaymentType, startDate);
+    const instalments: LoanInstalment[] = [];
+    for (const item of schedule) {
+      instalments.push(await this.storeInstalment(loanId, item));
+    }
+
+    const updated = await storage.updateLoan(loanId, {
+      repaymentType,
+      tenureMonths,
+      outstandingAmount: principal.toFixed(2),
+      accruedInterest: '0',
+      penalInterest: '0',
+      interestAccruedTo: startDate,
+      endDate: schedule[schedule.length - 1]?.dueDate ?? loan.endDate,
+      repaymentSchedule: this.summarise(loan, instalments, { repaymentType, tenureMonths })
+    });
+
+    return { loan: updated!, instalments };
+  }
+
+  /**
+   * Bring a loan's interest and penal interest up to a date, one whole day at a time
+   * @param loanId The loan to accrue
+   * @param asOf Accrue up to the start of this day
+   */
+  async accrue(loanId: number, asOf: Date = new Date()): Promise<Loan> {
+    const loan = await this.requireLoan(loanId);
+    if (!ACCRUING_STATUSES.includes(loan.status)) {
+      return loan;
+    }
+
+    const from = startOfDay(loan.interestAccruedTo ?? loan.startDate ?? asOf);
+    const to = startOfDay(asOf);
+    const days = differenceInCalendarDays(to, from);
+    if (days <= 0) {
+      return loan;
+    }
+
+    const principal = parseFloat(loan.outstandingAmount ?? loan.amount);
+    const interest = principal * parseFloat(loan.interestRate) * days / 36500;
+
+    // Penal interest runs on each overdue instalment's unpaid amount from its due date
+    const penalRate = parseFloat(loan.penalRate ?? '0');
+    let penal = 0;
+    for (const instalment of await storage.listLoanInstalments(loanId)) {
+      if (!isOpen(instalment) || instalment.dueDate >= to) continue;
+
+      const overdueDays = differenceInCalendarDays(to, instalment.dueDate > from ? startOfDay(instalment.dueDate) : from);
+      const unpaid = amountDue(instalment) - parseFloat(instalment.amountPaid);
+      const instalmentPenal = unpaid * penalRate * overdueDays / 36500;
+      penal += instalmentPenal;
+
+      await storage.updateLoanInstalment(instalment.id, {
+        status: 'overdue',
+        penalAccrued: (parseFloat(instalment.penalAccrued) + instalmentPenal).toFixed(2)
+      });
+    }
+
+    const updated = await storage.updateLoan(loanId, {
+      accruedInterest: (parseFloat(loan.accruedInterest ?? '0') + interest).toFixed(2),
+      penalInterest: (parseFloat(loan.penalInterest ?? '0') + penal).toFixed(2),
+      interestAccruedTo: to
+    });
+    return updated!;
+  }
+
+  /**
+   * Accrue every open loan up to today
+   */
+  async accrueAll(asOf: Date = new Date()) {
+    const loans = (await storage.listLoans()).filter(loan => ACCRUING_STATUSES.includes(loan.status));
+    for (const loan of loans) {
+      try {
+        await this.accrue(loan.id, asOf);
+      } catch (error) {
+        console.error(`Failed to accrue interest on loan ${loan.id}:`, error);
+      }
+    }
+    return loans.length;
+  }
+
+  /**
+   * Amount that closes the loan today
+   */
+  async payoffQuote(loanId: number, asOf: Date = new Date()) {
+    const loan = await this.accrue(loanId, asOf);
+    const principal = parseFloat(loan.outstandingAmount ?? loan.amount);
+    const interest = parseFloat(loan.accruedInterest ?? '0');
+    const penal = parseFloat(loan.penalInterest ?? '0');
+
+    return {
+      loanId,
+      asOf: startOfDay(asOf),
+      principal,
+      interest,
+      penalInterest: penal,
+      payoffAmount: round2(principal + interest + penal)
+    };
+  }
+
+  /**
+   * Apply a repayment: penal interest, then interest, then principal.
+   * Whatever exceeds the instalments due now and the next one is a part-prepayment
+   * and re-amortizes the rest of the schedule.
+   * @param loanId The loan being repaid
+   * @param userId The borrower paying
+   * @param amount Amount received
+   * @param options Payment method, reference and how a prepayment re-amortizes
+   */
+  async applyPayment(loanId: number, userId: number, amount: number, options: PaymentOptions) {
+    const asOf = options.asOf ?? new Date();
+    const loan = await this.accrue(loanId, asOf);
+
+    if (!ACCRUING_STATUSES.includes(loan.status)) {
+      throw new Error(`Payments cannot be applied to a ${loan.status} loan`);
+    }
+
+    const principal = parseFloat(loan.outstandingAmount ?? loan.amount);
+    const accrued = parseFloat(loan.accruedInterest ?? '0');
+    const penal = parseFloat(loan.penalInterest ?? '0');
+    const payoff = round2(principal + accrued + penal);
+
+    if (!(amount > 0)) {
+      throw new Error("Payment amount must be positive");
+    }
+    if (amount > payoff + 0.005) {
+      throw new Error(`Payment exceeds the payoff amount of ${payoff.toFixed(2)}`);
+    }
+
+    const penalPaid = round2(Math.min(amount, penal));
+    const interestPaid = round2(Math.min(amount - penalPaid, accrued));
+    const principalPaid = round2(Math.min(amount - penalPaid - interestPaid, principal));
+    const remainingPrincipal = round2(principal - principalPaid);
+
+    // Settle instalments due by today, then the next one; the excess is a prepayment
+    const instalments = await storage.listLoanInstalments(loanId);
+    const open = instalments.filter(isOpen);
+    const dueNow = open.filter(instalment => instalment.dueDate <= asOf);
+    const upcoming = open.find(instalment => instalment.dueDate > asOf);
+    let available = round2(amount - penalPaid);
+
+    for (const instalment of upcoming ? [...dueNow, upcoming] : dueNow) {
+      if (available <= 0) break;
+      const outstanding = round2(amountDue(instalment) - parseFloat(instalment.amountPaid));
+      const applied = Math.min(available, outstanding);
+      available = round2(available - applied);
+
+      const paid = applied >= outstanding;
+      await storage.updateLoanInstalment(instalment.id, {
+        amountPaid: (parseFloat(instalment.amountPaid) + applied).toFixed(2),
+        status: paid ? 'paid' : instalment.status === 'overdue' ? 'overdue' : 'partially_paid',
+        paidAt: paid ? asOf : instalment.paidAt
+      });
+    }
+
+    const prepayment = round2(Math.min(available, principalPaid));
+    if (prepayment > 0 || remainingPrincipal <= 0) {
+      await this.reamortize(loan, remainingPrincipal, options.prepaymentMode ?? 'reduce_emi', upcoming);
+    }
+
+    const repaid = remainingPrincipal <= 0 && accrued - interestPaid <= 0.005 && penal - penalPaid <= 0.005;
+    if (repaid) {
+      // The payoff settles whatever the schedule still showed as open
+      for (const instalment of (await storage.listLoanInstalments(loanId)).filter(isOpen)) {
+        await storage.updateLoanInstalment(instalment.id, { status: 'paid', paidAt: asOf });
+      }
+    }
+
+    const current = await storage.listLoanInstalments(loanId);
+    const updatedLoan = await storage.updateLoan(loanId, {
+      outstandingAmount: remainingPrincipal.toFixed(2),
+      accruedInterest: Math.max(0, accrued - interestPaid).toFixed(2),
+      penalInterest: Math.max(0, penal - penalPaid).toFixed(2),
+      lastPaymentDate: asOf,
+      ...(repaid ? { status: 'repaid' as const } : loan.status === 'approved' ? { status: 'active' as const } : {}),
+      repaymentSchedule: this.summarise(loan, current)
+    });
+
+    const repayment = await storage.createLoanRepayment({
+      loanId,
+      userId,
+      amount: amount.toFixed(2),
+      paymentMethod: options.paymentMethod,
+      externalTransactionId: options.externalTransactionId ?? null,
+      status: 'completed',
+      principalAmount: principalPaid.toFixed(2),
+      interestAmount: interestPaid.toFixed(2),
+      penalAmount: penalPaid.toFixed(2)
+    });
+    await ledgerService.postLoanRepayment(updatedLoan!, repayment);
+    if (repaid) {
+      // The collateral is freed once the lender and the warehouse sign off its release
+      await lienService.requestReleaseForRepaidLoan(updatedLoan!);
+    }
+
+    if (loan.userId) {
+      BroadcastService.broadcastLoanUpdate(loan.userId, loanId, {
+        type: 'repayment_applied',
+        repaymentId: repayment.id,
+        principalAmount: repayment.principalAmount,
+        interestAmount: repayment.interestAmount,
+        penalAmount: repayment.penalAmount,
+        prepayment,
+        outstandingAmount: updatedLoan!.outstandingAmount,
+        status: updatedLoan!.status
+      });
+    }
+    await creditScoringService.rescoreQuietly(loan.userId, 'repayment');
+
+    return { repayment, loan: updatedLoan!, prepayment, instalments: current.filter(i => i.status !== 'rescheduled') };
+  }
+
+  /**
+   * Schedule, balances and payment history of a loan
+   */
+  async getSchedule(loanId: number) {
+    const loan = await this.accrue(loanId);
+    const instalments = await storage.listLoanInstalments(loanId);
+    const repayments = await storage.listLoanRepaymentsByLoan(loanId);
+    const principal = parseFloat(loan.outstandingAmount ?? loan.amount);
+    const interest = parseFloat(loan.accruedInterest ?? '0');
+    const penal = parseFloat(loan.penalInterest ?? '0');
+
+    return {
+      loanId,
+      repaymentType: loan.repaymentType,
+      interestRate: loan.interestRate,
+      penalRate: loan.penalRate,
+      principalOutstanding: principal,
+      accruedInterest: interest,
+      penalInterest: penal,
+      payoffAmount: round2(principal + interest + penal),
+      summary: this.summarise(loan, instalments),
+      instalments: instalments.filter(instalment => instalment.status !== 'rescheduled'),
+      repayments
+    };
+  }
+
+  /**
+   * Replace the open instalments after a prepayment
+   */
+  private async reamortize(loan: Loan, principal: number, mode: PrepaymentMode, settledUpcoming?: LoanInstalment) {
+    const instalments = await storage.listLoanInstalments(loan.id);
+    const future = instalments.filter(instalment =>
+      isOpen(instalment) &&
+      instalment.id !== settledUpcoming?.id &&
+      (!settledUpcoming || instalment.dueDate > settledUpcoming.dueDate)
+    );
+
+    for (const instalment of future) {
+      await storage.updateLoanInstalment(instalment.id, { status: 'rescheduled' });
+    }
+
+    if (principal <= 0 || future.length === 0) {
+      return;
+    }
+
+    const rate = parseFloat(loan.interestRate);
+    const lastSequence = instalments.reduce((max, instalment) => Math.max(max, instalment.sequence), 0);
+    const periodStart = addMonths(future[0].dueDate, -1);
+    let periods = future.length;
+    let fixedInstalment: number | undefined;
+
+    if (mode === 'reduce_tenure' && loan.repaymentType === 'emi') {
+      // Keep the instalment amount and pay off sooner; the last instalment is smaller
+      const monthlyRate = rate / 12 / 100;
+      const instalment = amountDue(future[0]);
+      if (monthlyRate > 0 && instalment > principal * monthlyRate) {
+        periods = Math.min(periods, Math.ceil(-Math.log(1 - principal * monthlyRate / instalment) / Math.log(1 + monthlyRate)));
+        fixedInstalment = Math.round(instalment);
+      }
+    }
+
+    const schedule = this.buildSchedule(principal, rate, periods, loan.repaymentType, periodStart, lastSequence + 1, fixedInstalment);
+    for (const item of schedule) {
+      await this.storeInstalment(loan.id, item);
+    }
+  }
+
+  private storeInstalment(loanId: number, item: ScheduledInstalment) {
+    return storage.createLoanInstalment({
+      loanId,
+      sequence: item.sequence,
+      dueDate: item.dueDate,
+      principalDue: item.principalDue.toFixed(2),
+      interestDue: item.interestDue.toFixed(2),
+      amountPaid: '0',
+      penalAccrued: '0',
+      status: 'pending'
+    });
+  }
+
+  /**
+   * Summary kept in loans.repaymentSchedule, merged over whatever the application stored there
+   */
+  private summarise(loan: Loan, instalments: LoanInstalment[], overrides: { repaymentType?: RepaymentType; tenureMonths?: number } = {}) {
+    const existing = typeof loan.repaymentSchedule === 'string'
+      ? JSON.parse(loan.repaymentSchedule)
+      : loan.repaymentSchedule ?? {};
+    const live = instalments.filter(instalment => instalment.status !== 'rescheduled');
+    const open = live.filter(isOpen);
+    const next = open[0];
+
+    return {
+      ...(typeof existing === 'object' && existing !== null ? existing : {}),
+      repaymentType: overrides.repaymentType ?? loan.repaymentType,
+      tenureMonths: overrides.tenureMonths ?? loan.tenureMonths,
+      instalmentAmount: next ? round2(amountDue(next)) : 0,
+      monthlyEMI: (overrides.repaymentType ?? loan.repaymentType) === 'emi' && next ? round2(amountDue(next)) : undefined,
+      instalmentsRemaining: open.length,
+      totalInterest: round2(live.reduce((sum, instalment) => sum + parseFloat(instalment.interestDue), 0)),
+      nextPaymentDate: next?.dueDate ?? null,
+      nextAmountDue: next ? round2(amountDue(next) - parseFloat(next.amountPaid)) : 0,
+      updatedAt: new Date().toISOString()
+    };
+  }
+
+  private async requireLoan(loanId: number) {
+    const loan = await storage.getLoan(loanId);
+    if (!loan) {
+      throw new Error("Loan not found");
+    }
+    return loan;
+  }
+}
+
+export const loanAccountingService = new LoanAccountingService();
@@ -0,0 +1,243 @@
+import { storage } from "../storage";
+import BroadcastService from "./BroadcastService";
+import { lendingMiddleware } from "./LendingMiddleware";
+import { loanAccountingService } from "./LoanAccountingService";
+import { kycService } from "./KycService";
+import type { LoanOffer } from "./LendingAdapters";
+import type { LoanOfferRecord, PledgeRequest } from "@shared/schema";
+
+const round2 = (value: number) => Math.round(value * 100) / 100;
+
+export interface PledgeRequestInput {
+  receiptIds: number[];
+  requestedAmount: number;
+  tenureDays: number;
+  purpose: string;
+}
+
+/**
+ * Loan offer marketplace.
+ * A borrower pledges receipts once; every active partner whose credit criteria
+ * match is asked to quote. Offers are made comparable by pricing each as an EMI
+ * loan of the requested amount and computing its APR with the processing fee
+ * included. Accepting an offer applies to that partner and declines the rest.
+ */
+export class LoanMarketplaceService {
+  /**
+   * Pledge receipts and collect offers from matching partners
+   * @param userId The borrower
+   * @param input Receipts, amount, tenure and purpose
+   */
+  async createPledgeRequest(userId: number, input: PledgeRequestInput) {
+    // Refuse up front rather than collect offers the borrower could not accept
+    await kycService.assertWithinLimit(userId, 'loan', input.requestedAmount);
+    const { collateralValue, offers, declined } = await lendingMiddleware.getOffers(userId, input.receiptIds, {
+      requestedAmount: input.requestedAmount,
+      tenureDays: input.tenureDays
+    });
+
+    const request = await storage.createPledgeRequest({
+      userId,
+      receiptIds: input.receiptIds,
+      collateralValue: collateralValue.toFixed(2),
+      requestedAmount: input.requestedAmount.toFixed(2),
+      tenureDays: input.tenureDays,
+      purpose: input.purpose,
+      status: 'open',
+      declinedPartners: declined
+    });
+
+    for (const offer of offers) {
+      if (offer.maxAmount < offer.minAmount || input.requestedAmount < offer.minAmount) {
+        declined.push({ partnerId: offer.partnerId, partnerName: offer.partnerName, reason: `Minimum loan is ₹${offer.minAmount.toLocaleString('en-IN')}` });
+        continue;
+      }
+      await storage.createLoanOffer(this.price(request, offer));
+    }
+    await storage.updatePledgeRequest(request.id, { declinedPartners: declined });
+
+    return this.getPledgeRequest(request.id, userId);
+  }
+
+  /**
+   * A pledge request with its offers, cheapest APR first, and the recommended offer flagged
+   */
+  async getPledgeRequest(pledgeRequestId: number, userId: number) {
+    const request = await this.requireOwnRequest(pledgeRequestId, userId);
+    const offers = await this.expireStale(await storage.listLoanOffersByPledgeRequest(request.id));
+
+    const ranked = offers.sort((a, b) => parseFloat(a.apr) - parseFloat(b.apr) || a.id - b.id);
+    // Recommend the cheapest offer that lends the whole amount asked for, if any does
+    const open = ranked.filter(offer => offer.status === 'offered');
+    const best = open.find(offer => offer.amount === request.requestedAmount) ?? open[0];
+    return {
+      ...request,
+      offers: ranked.map(offer => ({ ...offer, recommended: offer.id === best?.id }))
+    };
+  }
+
+  /**
+   * Pledge requests of a borrower, newest first
+   */
+  async listPledgeRequests(userId: number) {
+    return storage.listPledgeRequestsByUser(userId);
+  }
+
+  /**
+   * Accept an offer: apply to its partner and, unless the partner rejects at once, decline the others.
+   * Partners that approve on submission are disbursed straight away.
+   * @param pledgeRequestId The borrower's open pledge request
+   * @param offerId One of its offers
+   * @param userId The borrower
+   */
+  async acceptOffer(pledgeRequestId: number, offerId: number, userId: number) {
+    const request = await this.requireOwnRequest(pledgeRequestId, userId);
+    if (request.status !== 'open') {
+      throw new Error(`Pledge request is ${request.status}`);
+    }
+
+    const offer = await storage.getLoanOffer(offerId);
+    if (!offer || offer.pledgeRequestId !== request.id) {
+      throw new Error("Offer not found");
+    }
+    const [current] = await this.expireStale([offer]);
+    if (current.status !== 'offered') {
+      throw new Error(`Offer is ${current.status}`);
+    }
+
+    const application = await lendingMiddleware.submitLoanApplication(userId, {
+      partnerId: offer.lendingPartnerId,
+      offerId: offer.externalOfferId ?? undefined,
+      processingFeePercent: parseFloat(offer.processingFeePercent),
+      receiptIds: request.receiptIds as number[],
+      amount: parseFloat(offer.amount),
+      tenureDays: offer.tenureDays,
+      purpose: request.purpose
+    });
+
+    if (application.status === 'rejected') {
+      await storage.updateLoanOffer(offer.id, {
+        status: 'declined',
+        declineReason: application.rejectionReason ?? 'Rejected by the partner',
+        loanApplicationId: application.id
+      });
+      throw new Error(`${offer.lendingPartnerName} rejected the application: ${application.rejectionReason ?? 'no reason given'}`);
+    }
+
+    await storage.updateLoanOffer(offer.id, { status: 'accepted', loanApplicationId: application.id });
+    await storage.updatePledgeRequest(request.id, { status: 'accepted', acceptedOfferId: offer.id });
+    await this.declineOthers(request.id, offer.id, 'Borrower accepted another offer');
+
+    const loan = application.status === 'approved'
+      ? await lendingMiddleware.disburseLoan(application.id, userId)
+      : null;
+
+    BroadcastService.broadcastLoanUpdate(userId, loan?.id ?? 0, {
+      type: 'loan_offer_accepted',
+      pledgeRequestId: request.id,
+      offerId: offer.id,
+      lendingPartnerName: offer.lendingPartnerName,
+      applicationStatus: application.status
+    });
+
+    return { pledgeRequest: await this.getPledgeRequest(request.id, userId), application, loan };
+  }
+
+  /**
+   * Withdraw an open pledge request; its offers are declined
+   */
+  async cancelPledgeRequest(pledgeRequestId: number, userId: number) {
+    const request = await this.requireOwnRequest(pledgeRequestId, userId);
+    if (request.status !== 'open') {
+      throw new Error(`Pledge request is ${request.status}`);
+    }
+
+    await storage.updatePledgeRequest(request.id, { status: 'cancelled' });
+    await this.declineOthers(request.id, null, 'Borrower cancelled the request');
+    return this.getPledgeRequest(request.id, userId);
+  }
+
+  /**
+   * Normalise a partner offer to the requested amount and price it as an EMI loan
+   */
+  private price(request: PledgeRequest, offer: LoanOffer) {
+    const amount = Math.min(parseFloat(request.requestedAmount), offer.maxAmount);
+    const tenureMonths = Math.max(1, Math.round(offer.tenureDays / 30));
+    const schedule = loanAccountingService.buildSchedule(amount, offer.interestRate, tenureMonths, 'emi', new Date());
+    const processingFee = round2(amount * offer.processingFeePercent / 100);
+    const instalments = schedule.map(item => item.principalDue + item.interestDue);
+
+    return {
+      pledgeRequestId: request.id,
+      lendingPartnerId: offer.partnerId,
+      lendingPartnerName: offer.partnerName,
+      externalOfferId: offer.offerId,
+      amount: amount.toFixed(2),
+      maxAmount: offer.maxAmount.toFixed(2),
+      interestRate: offer.interestRate.toFixed(2),
+      tenureDays: offer.tenureDays,
+      processingFeePercent: offer.processingFeePercent.toFixed(2),
+      processingFee: processingFee.toFixed(2),
+      emi: (instalments[0] ?? 0).toFixed(2),
+      totalInterest: schedule.reduce((sum, item) => sum + item.interestDue, 0).toFixed(2),
+      apr: this.apr(amount - processingFee, instalments).toFixed(2),
+      status: 'offered' as const,
+      validUntil: new Date(offer.validUntil)
+    };
+  }
+
+  /**
+   * Annual percentage rate: twelve times the monthly rate at which the instalments
+   * discount to the amount actually received, found by bisection
+   */
+  private apr(netDisbursed: number, instalments: number[]) {
+    const presentValue = (monthlyRate: number) =>
+      instalments.reduce((sum, amount, i) => sum + amount / Math.pow(1 + monthlyRate, i + 1), 0);
+
+    let low = 0;
+    let high = 1;
+    for (let i = 0; i < 100; i++) {
+      const mid = (low + high) / 2;
+      if (presentValue(mid) > netDisbursed) {
+        low = mid;
+      } else {
+        high = mid;
+      }
+    }
+    return round2(low * 12 * 100);
+  }
+
+  private async declineOthers(pledgeRequestId: number, acceptedOfferId: number | null, reason: string) {
+    for (const offer of await storage.listLoanOffersByPledgeRequest(pledgeRequestId)) {
+      if (offer.id !== acceptedOfferId && offer.status === 'offered') {
+        await storage.updateLoanOffer(offer.id, { status: 'declined', declineReason: reason });
+      }
+    }
+  }
+
+  // Offers past their validity are marked expired when next read
+  private async expireStale(offers: LoanOfferRecord[]) {
+    const now = new Date();
+    const current: LoanOfferRecord[] = [];
+    for (const offer of offers) {
+      current.push(offer.status === 'offered' && offer.validUntil <= now
+        ? (await storage.updateLoanOffer(offer.id, { status: 'expired' }))!
+        : offer);
+    }
+    return current;
+  }
+
+  private async requireOwnRequest(pledgeRequestId: number, userId: number) {
+    const request = await storage.getPledgeRequest(pledgeRequestId);
+    if (!request) {
+      throw new Error("Pledge request not found");
+    }
+    if (request.userId !== userId) {
+      throw new Error("Not authorized to view this pledge request");
+    }
+    return request;
+  }
+}
+
+// Export singleton instance
+export const loanMarketplaceService = new LoanMarketplaceService();
@@ -0,0 +1,361 @@
+import { storage } from "../storage";
+import BroadcastService from "./BroadcastService";
+import { smartContractService } from "./SmartContractService";
+import { liquidationService } from "./LiquidationService";
+import { loanAccountingService } from "./LoanAccountingService";
+import { lendingMiddleware } from "./LendingMiddleware";
+import { creditScoringService } from "./CreditScoringService";
+import { lienService } from "./LienService";
+import { revaluationService, type LtvThresholdEvent } from "./RevaluationService";
+import type { Loan, MarginCall, MarginCallEvent } from "@shared/schema";
+
+// A call is cured once the loan is back at the LTV it was written at
+const CURE_LTV = 80;
+
+const ESCALATION_CHECK_MS = 15 * 60 * 1000;
+
+function cureHours(): number {
+  return parseInt(process.env.MARGIN_CALL_CURE_HOURS || '72', 10);
+}
+
+/**
+ * Service for margin calls on commodity-backed loans.
+ * A call opens when revaluation pushes a loan to the margin-call LTV level. The
+ * borrower cures it by pledging more receipts or repaying part of the loan before
+ * the deadline; a call still open at the deadline escalates the loan to default,
+ * enforces the lien on its collateral and puts the collateral up for auction.
+ */
+export class MarginCallService {
+  private escalationTimer: NodeJS.Timeout | null = null;
+
+  constructor() {
+    revaluationService.ltvEvents.on('ltv_threshold_crossed', (event: LtvThresholdEvent) => {
+      this.handleLtvEvent(event).catch(error => {
+        console.error(`Failed to process LTV event for loan ${event.loanId}:`, error);
+      });
+    });
+  }
+
+  /**
+   * Check for overdue margin calls every 15 minutes
+   */
+  start() {
+    if (this.escalationTimer) return;
+    this.escalationTimer = setInterval(() => {
+      this.escalateOverdue().catch(error => console.error('Margin call escalation failed:', error));
+    }, ESCALATION_CHECK_MS);
+    this.escalationTimer.unref?.();
+  }
+
+  /**
+   * Cancel the escalation check
+   */
+  stop() {
+    if (this.escalationTimer) clearInterval(this.escalationTimer);
+    this.escalationTimer = null;
+  }
+
+  /**
+   * Open a call when a loan reaches the margin-call level; close it when prices recover
+   */
+  async handleLtvEvent(event: LtvThresholdEvent) {
+    const open = await this.getOpenCall(event.loanId);
+
+    if (open) {
+      if (event.ltv <= CURE_LTV) {
+        return this.resolve(open, 'cured', 'price_recovery', event.ltv);
+      }
+      return this.refresh(open, await this.requireLoan(open.loanId));
+    }
+
+    if (event.direction === 'up' && (event.level === 'margin_call' || event.level === 'liquidation')) {
+      return this.issue(await this.requireLoan(event.loanId));
+    }
+  }
+
+  /**
+   * Raise a margin call on a loan at its current LTV
+   * @param loan The under-collateralised loan
+   */
+  async issue(loan: Loan): Promise<MarginCall> {
+    if (!loan.userId) {
+      throw new Error("Loan has no borrower");
+    }
+
+    const existing = await this.getOpenCall(loan.id);
+    if (existing) {
+      return existing;
+    }
+
+    const measured = await revaluationService.measureLtv(loan);
+    const deadline = new Date(Date.now() + cureHours() * 60 * 60 * 1000);
+
+    const marginCall = await storage.createMarginCall({
+      loanId: loan.id,
+      userId: loan.userId,
+      status: 'open',
+      triggerLtv: measured.ltv.toFixed(2),
+      deadline,
+      events: [this.event('issued', measured.ltv, { deadline: deadline.toISOString() })],
+      ...this.requirements(measured)
+    });
+
+    this.notify(marginCall, 'margin_call_issued');
+    return marginCall;
+  }
+
+  /**
+   * Cure by pledging more receipts to the loan
+   * @param marginCallId The open call
+   * @param userId The borrower
+   * @param receiptIds Unencumbered receipts of the borrower
+   */
+  async topUp(marginCallId: number, userId: number, receiptIds: number[]) {
+    const marginCall = await this.getOpenForBorrower(marginCallId, userId);
+    const loan = await this.requireLoan(marginCall.loanId);
+
+    const receipts = await storage.getReceiptsByIds(receiptIds);
+    if (receipts.length !== receiptIds.length) {
+      throw new Error("Receipt not found");
+    }
+
+    for (const receipt of receipts) {
+      if (receipt.ownerId !== userId) {
+        throw new Error(`Not authorized to pledge receipt ${receipt.receiptNumber}`);
+      }
+      if (receipt.status !== 'active' || receipt.isFrozen || !parseFloat(receipt.valuation || "0")
+        || await lienService.isEncumbered(receipt.id)) {
+        throw new Error(`Receipt ${receipt.receiptNumber} is not eligible as collateral`);
+      }
+    }
+
+    for (const receipt of receipts) {
+      await lienService.register(receipt, loan, { marginCallId: marginCall.id });
+    }
+
+    const ids = [...this.collateralIds(loan), ...receiptIds];
+    const updatedLoan = await storage.updateLoan(loan.id, {
+      collateralReceiptIds: typeof loan.collateralReceiptIds === "string" ? JSON.stringify(ids) : ids
+    });
+
+    const measured = await revaluationService.measureLtv(updatedLoan!);
+    const addedValue = receipts.reduce((sum, r) => sum + parseFloat(r.valuation || "0"), 0);
+    return this.afterCureStep(marginCall, updatedLoan!, 'top_up', measured.ltv, { receiptIds, addedValue });
+  }
+
+  /**
+   * Cure by repaying part of the loan
+   * @param marginCallId The open call
+   * @param userId The borrower
+   * @param amount Amount repaid
+   */
+  async repay(marginCallId: number, userId: number, amount: number) {
+    const marginCall = await this.getOpenForBorrower(marginCallId, userId);
+    const loan = await this.requireLoan(marginCall.loanId);
+
+    const applied = await loanAccountingService.applyPayment(loan.id, userId, amount, {
+      paymentMethod: 'margin_call',
+      externalTransactionId: `MARGIN-CALL-${marginCall.id}`
+    });
+    await lendingMiddleware.repayLoan(applied.loan, applied.repayment);
+
+    const measured = await revaluationService.measureLtv(applied.loan);
+    return this.afterCureStep(marginCall, applied.loan, 'repayment', measured.ltv, {
+      amount,
+      repaymentId: applied.repayment.id,
+      principalAmount: applied.repayment.principalAmount,
+      remaining: applied.loan.outstandingAmount
+    });
+  }
+
+  /**
+   * Default every loan whose margin call passed its deadline uncured
+   */
+  async escalateOverdue(now: Date = new Date()) {
+    const overdue = (await storage.listMarginCallsByStatus('open'))
+      .filter(marginCall => marginCall.deadline <= now);
+
+    const escalated: MarginCall[] = [];
+    for (const marginCall of overdue) {
+      try {
+        escalated.push(await this.escalate(marginCall));
+      } catch (error) {
+        console.error(`Failed to escalate margin call ${marginCall.id}:`, error);
+      }
+    }
+    return escalated;
+  }
+
+  /**
+   * Margin calls of a borrower, newest first
+   */
+  async listForUser(userId: number) {
+    return storage.listMarginCallsByUser(userId);
+  }
+
+  /**
+   * Open margin calls across all borrowers, earliest deadline first
+   */
+  async listOpen() {
+    return storage.listMarginCallsByStatus('open');
+  }
+
+  /**
+   * A margin call visible to its borrower
+   */
+  async getForUser(marginCallId: number, userId: number) {
+    const marginCall = await storage.getMarginCall(marginCallId);
+    if (!marginCall) {
+      throw new Error("Margin call not found");
+    }
+    if (marginCall.userId !== userId) {
+      throw new Error("Not authorized to view this margin call");
+    }
+    return marginCall;
+  }
+
+  private async escalate(marginCall: MarginCall) {
+    const loan = await this.requireLoan(marginCall.loanId);
+    const measured = await revaluationService.measureLtv(loan);
+
+    // Prices may have recovered since the last revaluation
+    if (measured.ltv <= CURE_LTV) {
+      return this.resolve(marginCall, 'cured', 'price_recovery', measured.ltv);
+    }
+
+    await storage.updateLoan(loan.id, { status: 'defaulted' });
+    await creditScoringService.rescoreQuietly(loan.userId, 'loan_defaulted');
+
+    const collateralIds = this.collateralIds(loan);
+    const contractId = await smartContractService.createLienContract(
+      loan.id,
+      collateralIds,
+      measured.outstandingAmount.toFixed(2),
+      CURE_LTV
+    );
+    await smartContractService.executeContract(contractId);
+
+    const resolved = await this.resolve(marginCall, 'defaulted', null, measured.ltv, { lienContractId: contractId });
+
+    try {
+      await liquidationService.openAuction(loan.id);
+    } catch (error) {
+      console.error(`Failed to open liquidation auction for loan ${loan.id}:`, error);
+    }
+
+    return resolved;
+  }
+
+  private async afterCureStep(
+    marginCall: MarginCall,
+    loan: Loan,
+    step: 'top_up' | 'repayment',
+    ltv: number,
+    detail: Record<string, unknown>
+  ) {
+    const events = [...this.events(marginCall), this.event(step, ltv, detail)];
+
+    if (ltv <= CURE_LTV || loan.status === 'repaid') {
+      const updated = await storage.updateMarginCall(marginCall.id, { events });
+      return this.resolve(updated!, 'cured', step, ltv);
+    }
+
+    const updated = await storage.updateMarginCall(marginCall.id, {
+      events,
+      ...this.requirements(await revaluationService.measureLtv(loan))
+    });
+    this.notify(updated!, `margin_call_${step}`);
+    return updated!;
+  }
+
+  private async refresh(marginCall: MarginCall, loan: Loan) {
+    const updated = await storage.updateMarginCall(marginCall.id, this.requirements(await revaluationService.measureLtv(loan)));
+    this.notify(updated!, 'margin_call_updated');
+    return updated!;
+  }
+
+  private async resolve(
+    marginCall: MarginCall,
+    status: 'cured' | 'defaulted',
+    cureMethod: string | null,
+    ltv: number,
+    detail?: Record<string, unknown>
+  ) {
+    const updated = await storage.updateMarginCall(marginCall.id, {
+      status,
+      cureMethod,
+      currentLtv: Math.min(ltv, 999.99).toFixed(2),
+      resolvedAt: new Date(),
+      events: [...this.events(marginCall), this.event(status, ltv, detail)]
+    });
+
+    this.notify(updated!, status === 'cured' ? 'margin_call_cured' : 'margin_call_defaulted');
+    return updated!;
+  }
+
+  /**
+   * What the borrower must repay, or pledge in extra collateral value, to get back to the cure LTV
+   */
+  private requirements(measured: { collateralValue: number; outstandingAmount: number; ltv: number }) {
+    const { collateralValue, outstandingAmount, ltv } = measured;
+    return {
+      currentLtv: Math.min(ltv, 999.99).toFixed(2),
+      collateralValue: collateralValue.toFixed(2),
+      outstandingAmount: outstandingAmount.toFixed(2),
+      repaymentRequired: Math.max(0, outstandingAmount - collateralValue * CURE_LTV / 100).toFixed(2),
+      collateralRequired: Math.max(0, outstandingAmount * 100 / CURE_LTV - collateralValue).toFixed(2)
+    };
+  }
+
+  private notify(marginCall: MarginCall, type: string) {
+    BroadcastService.broadcastLoanUpdate(marginCall.userId, marginCall.loanId, {
+      type,
+      marginCallId: marginCall.id,
+      status: marginCall.status,
+      currentLtv: marginCall.currentLtv,
+      repaymentRequired: marginCall.repaymentRequired,
+      collateralRequired: marginCall.collateralRequired,
+      deadline: marginCall.deadline
+    });
+  }
+
+  private event(type: MarginCallEvent['type'], ltv: number, detail?: Record<string, unknown>): MarginCallEvent {
+    return { type, at: new Date().toISOString(), ltv: Math.round(ltv * 100) / 100, detail };
+  }
+
+  private events(marginCall: MarginCall): MarginCallEvent[] {
+    return Array.isArray(marginCall.events) ? marginCall.events as MarginCallEvent[] : [];
+  }
+
+  private async getOpenCall(loanId: number) {
+    return (await storage.listMarginCallsByLoan(loanId)).find(marginCall => marginCall.status === 'open');
+  }
+
+  private async getOpenForBorrower(marginCallId: number, userId: number) {
+    const marginCall = await this.getForUser(marginCallId, userId);
+    if (marginCall.status !== 'open') {
+      throw new Error(`Margin call is already ${marginCall.status}`);
+    }
+    if (marginCall.deadline <= new Date()) {
+      throw new Error("Margin call deadline has passed");
+    }
+    return marginCall;
+  }
+
+  private async requireLoan(loanId: number) {
+    const loan = await storage.getLoan(loanId);
+    if (!loan) {
+      throw new Error("Loan not found");
+    }
+    return loan;
+  }
+
+  private collateralIds(loan: Loan): number[] {
+    const raw = typeof loan.collateralReceiptIds === "string"
+      ? JSON.parse(loan.collateralReceiptIds)
+      : loan.collateralReceiptIds;
+    return Array.isArray(raw) ? raw.map(Number) : [];
+  }
+}
+
+export const marginCallService = new MarginCallService();
@@ -1,5 +1,10 @@
 import { storage } from '../storage';
 import { v4 as uuidv4 } from 'uuid';
+import { loanAccountingService, type PrepaymentMode } from './LoanAccountingService';
+import { ledgerService } from './LedgerService';
+import { lendingMiddleware } from './LendingMiddleware';
+import { storageFeeService } from './StorageFeeService';
+import type { StorageInvoice } from '@shared/schema';
 
 // Enum for payment status
 export enum PaymentStatus {
@@ -154,14 +159,20 @@ export class PaymentService {
     userId: number,
     loanId: number,
     amount: string,
-    paymentMethod: PaymentMethod = PaymentMethod.UPI
-  ): Promise<{ payment: Payment, success: boolean }> {
+    paymentMethod: PaymentMethod = PaymentMethod.UPI,
+    prepaymentMode?: PrepaymentMode
+  ) {
     // Get loan details
     const loan = await storage.getLoan(loanId);
     if (!loan) {
       throw new Error("Loan not found");
     }
 
+    const { payoffAmount } = await loanAccountingService.payoffQuote(loanId);
+    if (parseFloat(amount) > payoffAmount + 0.005) {
+      throw new Error(`Payment exceeds the payoff amount of ${payoffAmount.toFixed(2)}`);
+    }
+
     // Create payment
     const payment = await this.createPayment(
       userId,
@@ -176,61 +187,97 @@ export class PaymentService {
     // For demo purposes, assume payment is successful immediately
     const updatedPayment = this.updatePaymentStatus(payment.id, PaymentStatus.COMPLETED);
     
-    // Update loan status
-    const outstandingAmount = parseFloat(loan.outstandingAmount || loan.amount);
-    const repaymentAmount = parseFloat(amount);
-    
-    if (repaymentAmount >= outstandingAmount) {
-      // Full repayment
-      await storage.updateLoan(loanId, {
-        status: 'repaid',
-        outstandingAmount: '0'
-      });
-    } else {
-      // Partial repayment
-      const newOutstandingAmount = (outstandingAmount - repaymentAmount).toString();
-      await storage.updateLoan(loanId, {
-        outstandingAmount: newOutstandingAmount
-      });
-    }
+    // Split the payment into penal interest, interest and principal and update the schedule
+    const applied = await loanAccountingService.applyPayment(loanId, userId, parseFloat(amount), {
+      paymentMethod,
+      externalTransactionId: payment.id,
+      prepaymentMode
+    });
+    // Partner-funded loans are repaid to the partner as well
+    await lendingMiddleware.repayLoan(applied.loan, applied.repayment);
 
     return { 
       payment: updatedPayment!, 
-      success: updatedPayment!.status === PaymentStatus.COMPLETED 
+      success: updatedPayment!.status === PaymentStatus.COMPLETED,
+      repayment: applied.repayment,
+      loan: applied.loan,
+      prepayment: applied.prepayment
     };
   }
 
   /**
-   * Pay warehouse storage fees
+   * Pay every unpaid storage invoice a user has at a warehouse
    */
   async payWarehouseFees(
     userId: number,
     warehouseId: number,
-    amount: string,
     paymentMethod: PaymentMethod = PaymentMethod.UPI
-  ): Promise<{ payment: Payment, success: boolean }> {
-    // Get warehouse details
+  ): Promise<{ payment: Payment, success: boolean, invoices: StorageInvoice[] }> {
     const warehouse = await storage.getWarehouse(warehouseId);
     if (!warehouse) {
       throw new Error("Warehouse not found");
     }
 
-    // Create payment
+    const invoices = (await storageFeeService.listInvoices(userId))
+      .filter(invoice => invoice.warehouseId === warehouseId && invoice.status === 'issued');
+    if (invoices.length === 0) {
+      throw new Error(`No storage fees are due at ${warehouse.name}`);
+    }
+
+    return this.payStorageInvoices(userId, invoices.map(invoice => invoice.id), `Storage fees for ${warehouse.name}`, paymentMethod);
+  }
+
+  /**
+   * Pay one storage invoice in full
+   */
+  async payStorageInvoice(
+    userId: number,
+    invoiceId: number,
+    paymentMethod: PaymentMethod = PaymentMethod.UPI
+  ): Promise<{ payment: Payment, success: boolean, invoices: StorageInvoice[] }> {
+    const { invoice } = await storageFeeService.getPayable(invoiceId, userId);
+    return this.payStorageInvoices(userId, [invoice.id], `Storage invoice ${invoice.invoiceNumber}`, paymentMethod);
+  }
+
+  private async payStorageInvoices(
+    userId: number,
+    invoiceIds: number[],
+    description: string,
+    paymentMethod: PaymentMethod
+  ) {
+    const payable = [];
+    for (const invoiceId of invoiceIds) {
+      payable.push(await storageFeeService.getPayable(invoiceId, userId));
+    }
+    const amount = payable.reduce((sum, entry) => sum + entry.amount, 0);
+
     const payment = await this.createPayment(
       userId,
-      amount,
-      `Storage fees for ${warehouse.name}`,
+      amount.toFixed(2),
+      description,
       paymentMethod,
-      `warehouse_${warehouseId}`,
-      { warehouseId }
+      `storage_invoices_${invoiceIds.join('_')}`,
+      { invoiceIds }
     );
 
     // For demo purposes, assume payment is successful immediately
     const updatedPayment = this.updatePaymentStatus(payment.id, PaymentStatus.COMPLETED);
-    
-    return { 
-      payment: updatedPayment!, 
-      success: updatedPayment!.status === PaymentStatus.COMPLETED 
+
+    const allocations = [];
+    for (const { invoice } of payable) {
+      allocations.push(await storageFeeService.recordPayment(invoice.id, `payment:${payment.id}`));
+    }
+    await ledgerService.postWarehouseFee(payment.id, userId, allocations);
+
+    const invoices = [];
+    for (const invoiceId of invoiceIds) {
+      invoices.push((await storage.getStorageInvoice(invoiceId))!);
+    }
+
+    return {
+      payment: updatedPayment!,
+      success: updatedPayment!.status === PaymentStatus.COMPLETED,
+      invoices
     };
   }
 
@@ -261,6 +308,11 @@ export class PaymentService {
 
     // For demo purposes, assume payment is successful immediately
     const updatedPayment = this.updatePaymentStatus(payment.id, PaymentStatus.COMPLETED);
+
+    // The seller's storage dues on the goods come out of the payment before it is held for them
+    const receiptIds = (await storage.listWarehouseReceiptsByCommodity(commodityId)).map(receipt => receipt.id);
+    const storageFees = await storageFeeService.netFromProceeds(receiptIds, parseFloat(amount), `payment:${payment.id}`);
+    await ledgerService.postTransferPayment(payment.id, userId, commodity, parseFloat(amount), storageFees.allocations);
     
     return { 
       payment: updatedPayment!, 
@@ -268,6 +320,89 @@ export class PaymentService {
     };
   }
 
+  /**
+   * Collect a liquidation auction's winning bid from the winner before the collateral moves
+   * @param userId The winning bidder
+   * @param auctionId The auction won
+   * @param amount The winning bid
+   * @param paymentMethod How the winner pays
+   */
+  async processAuctionPayment(
+    userId: number,
+    auctionId: number,
+    amount: string,
+    paymentMethod: PaymentMethod = PaymentMethod.BANK_TRANSFER
+  ): Promise<{ payment: Payment, success: boolean }> {
+    const payment = await this.createPayment(
+      userId,
+      amount,
+      `Winning bid for liquidation auction #${auctionId}`,
+      paymentMethod,
+      `auction_${auctionId}`,
+      { auctionId }
+    );
+
+    // For demo purposes, assume payment is successful immediately; the proceeds
+    // reach the ledger through the liquidation journal
+    const updatedPayment = this.updatePaymentStatus(payment.id, PaymentStatus.COMPLETED);
+
+    return {
+      payment: updatedPayment!,
+      success: updatedPayment!.status === PaymentStatus.COMPLETED
+    };
+  }
+
+  /**
+   * Collect a buyer's payment into escrow until the escrow contract settles or lapses
+   * @param userId The paying buyer
+   * @param amount Amount to hold
+   * @param description What the payment is for
+   * @param paymentMethod How the buyer pays
+   */
+  async processEscrowPayment(
+    userId: number,
+    amount: string,
+    description: string,
+    paymentMethod: PaymentMethod = PaymentMethod.UPI
+  ): Promise<{ payment: Payment, success: boolean }> {
+    const payment = await this.createPayment(userId, amount, description, paymentMethod, 'escrow', { escrow: true });
+
+    // For demo purposes, assume payment is successful immediately
+    const updatedPayment = this.updatePaymentStatus(payment.id, PaymentStatus.COMPLETED);
+    await ledgerService.postEscrowHold(payment.id, userId, parseFloat(amount));
+
+    return {
+      payment: updatedPayment!,
+      success: updatedPayment!.status === PaymentStatus.COMPLETED
+    };
+  }
+
+  /**
+   * Release escrowed funds to the seller; the seller's storage dues on the goods are netted first
+   * @param paymentId The buyer's escrowed payment
+   * @param sellerId The user paid
+   * @param amount Amount held
+   * @param contractId The escrow contract being settled
+   * @param receiptIds Receipts delivered to the buyer
+   */
+  async releaseEscrowPayment(paymentId: string, sellerId: number, amount: string, contractId: string, receiptIds: number[]) {
+    const storageFees = await storageFeeService.netFromProceeds(receiptIds, parseFloat(amount), `escrow:${paymentId}`);
+    return ledgerService.postEscrowRelease(paymentId, sellerId, parseFloat(amount), contractId, storageFees.allocations);
+  }
+
+  /**
+   * Return escrowed funds to the buyer
+   * @param paymentId The buyer's escrowed payment
+   * @param buyerId The user refunded
+   * @param amount Amount held
+   * @param contractId The escrow contract that lapsed or was called off; null when it was never created
+   */
+  async refundEscrowPayment(paymentId: string, buyerId: number, amount: string, contractId: string | null) {
+    const journal = await ledgerService.postEscrowRefund(paymentId, buyerId, parseFloat(amount), contractId);
+    this.updatePaymentStatus(paymentId, PaymentStatus.REFUNDED);
+    return journal;
+  }
+
   /**
    * Get payment history for a user
    */
@@ -0,0 +1,467 @@
+import * as path from 'path';
+import { promises as fsPromises } from 'fs';
+import { storage } from "../storage";
+import type { CommodityPrice, WarehouseReceipt } from "@shared/schema";
+
+// Mandi prices are quoted per quintal; quintals per receipt measurement unit
+const QUINTALS_PER_UNIT: Record<string, number> = { MT: 10, tonne: 10, quintal: 1, kg: 0.01, KG: 0.01 };
+
+// Used only when no provider has ever reported the commodity (₹50/kg, the platform's previous flat rate)
+const DEFAULT_PRICE_PER_QUINTAL = 5000;
+
+// Markets whose latest price trails the newest report by more than this are left out of averages
+const LOOKBACK_DAYS = 30;
+
+const CACHE_TTL_MS = parseInt(process.env.PRICE_CACHE_TTL_MS || String(15 * 60 * 1000));
+
+/**
+ * A price reported by a provider, in ₹ per quintal
+ */
+export interface MandiPrice {
+  commodityName: string;
+  variety?: string;
+  market: string;
+  district?: string;
+  state?: string;
+  minPrice?: number;
+  maxPrice?: number;
+  modalPrice: number;
+  priceDate: Date;
+}
+
+/**
+ * Source of mandi prices. Providers are asked in registration order on every refresh.
+ */
+export interface PriceFeedProvider {
+  readonly name: string;
+  fetchPrices(): Promise<MandiPrice[]>;
+}
+
+/**
+ * Price used for a valuation and where it came from
+ */
+export interface PriceQuote {
+  commodityName: string;
+  scope: 'market' | 'state' | 'national' | 'default';
+  market: string | null;
+  state: string | null;
+  pricePerQuintal: number;
+  priceDate: Date | null;
+  source: string;
+  marketsSampled: number;
+}
+
+export interface PriceLocation {
+  market?: string | null;
+  state?: string | null;
+}
+
+/**
+ * Reads mandi modal prices from a CSV or JSON file.
+ * Column names follow the Agmarknet export (State, District, Market, Commodity, Variety,
+ * Arrival_Date, Min_Price, Max_Price, Modal_Price); JSON may be an array of such rows or
+ * an object with a `records` array.
+ */
+export class FilePriceProvider implements PriceFeedProvider {
+  readonly name: string;
+
+  constructor(private filePath: string) {
+    this.name = `file:${path.basename(filePath)}`;
+  }
+
+  async fetchPrices(): Promise<MandiPrice[]> {
+    const content = await fsPromises.readFile(this.filePath, 'utf-8');
+    const rows = this.filePath.toLowerCase().endsWith('.json')
+      ? this.parseJson(content)
+      : this.parseCsv(content);
+
+    return rows
+      .map(row => this.toMandiPrice(row))
+      .filter((price): price is MandiPrice => price !== null);
+  }
+
+  private parseJson(content: string): Record<string, unknown>[] {
+    const data = JSON.parse(content);
+    return Array.isArray(data) ? data : (data.records || []);
+  }
+
+  private parseCsv(content: string): Record<string, unknown>[] {
+    const lines = content.split(/\r?\n/).filter(line => line.trim().length > 0);
+    if (lines.length === 0) return [];
+
+    const headers = this.splitCsvLine(lines[0]);
+    return lines.slice(1).map(line => {
+      const values = this.splitCsvLine(line);
+      return Object.fromEntries(headers.map((header, i) => [header, values[i]]));
+    });
+  }
+
+  private splitCsvLine(line: string): string[] {
+    const fields: string[] = [];
+    let current = '';
+    let quoted = false;
+
+    for (let i = 0; i < line.length; i++) {
+      const char = line[i];
+      if (char === '"' && quoted && line[i + 1] === '"') {
+        current += '"';
+        i++;
+      } else if (char === '"') {
+        quoted = !quoted;
+      } else if (char === ',' && !quoted) {
+        fields.push(current.trim());
+        current = '';
+      } else {
+        current += char;
+      }
+    }
+    fields.push(current.trim());
+    return fields;
+  }
+
+  private toMandiPrice(row: Record<string, unknown>): MandiPrice | null {
+    // Normalise "Modal_x0020_Price", "modal_price" and "Modal Price" to "modalprice"
+    const fields: Record<string, string> = {};
+    for (const [key, value] of Object.entries(row)) {
+      const normalized = key.toLowerCase().replace(/_x0020_/g, '').replace(/[^a-z]/g, '');
+      fields[normalized] = value === undefined || value === null ? '' : String(value).trim();
+    }
+
+    const modalPrice = parseFloat(fields.modalprice);
+    const priceDate = this.parseDate(fields.arrivaldate || fields.pricedate || fields.date);
+    if (!fields.commodity || !fields.market || isNaN(modalPrice) || !priceDate) {
+      return null;
+    }
+
+    const optionalNumber = (value?: string) => value && !isNaN(parseFloat(value)) ? parseFloat(value) : undefined;
+
+    return {
+      commodityName: fields.commodity,
+      variety: fields.variety || undefined,
+      market: fields.market,
+      district: fields.district || undefined,
+      state: fields.state || undefined,
+      minPrice: optionalNumber(fields.minprice),
+      maxPrice: optionalNumber(fields.maxprice),
+      modalPrice,
+      priceDate
+    };
+  }
+
+  // Agmarknet dates are dd/mm/yyyy; anything else is left to the Date parser
+  private parseDate(value?: string): Date | null {
+    if (!value) return null;
+
+    const match = value.match(/^(\d{1,2})[\/-](\d{1,2})[\/-](\d{4})$/);
+    const date = match
+      ? new Date(Date.UTC(parseInt(match[3]), parseInt(match[2]) - 1, parseInt(match[1])))
+      : new Date(value);
+    return isNaN(date.getTime()) ? null : date;
+  }
+}
+
+/**
+ * Service for commodity prices used in every valuation.
+ * Prices from the registered providers are stored as price history; quotes are taken
+ * from that history (market first, then state, then the national average) and cached.
+ */
+export class PriceFeedService {
+  private providers: PriceFeedProvider[] = [];
+  private cache = new Map<string, { quote: PriceQuote; expiresAt: number }>();
+  private lastRefreshedAt = 0;
+  private refreshing: Promise<number> | null = null;
+
+  constructor(providers: PriceFeedProvider[] = []) {
+    providers.forEach(provider => this.registerProvider(provider));
+  }
+
+  /**
+   * Add a price provider
+   */
+  registerProvider(provider: PriceFeedProvider) {
+    this.providers.push(provider);
+    this.lastRefreshedAt = 0;
+  }
+
+  listProviders(): string[] {
+    return this.providers.map(provider => provider.name);
+  }
+
+  /**
+   * Pull prices from every provider into the price history
+   * @returns Number of new price records stored
+   */
+  async refresh(): Promise<number> {
+    if (!this.refreshing) {
+      this.refreshing = this.pullFromProviders().finally(() => {
+        this.refreshing = null;
+      });
+    }
+    return this.refreshing;
+  }
+
+  /**
+   * Current price for a commodity, preferring the given market, then its state
+   * @param commodityName Commodity name as reported by the mandi (case-insensitive)
+   * @param location Market (mandi) and state of the warehouse holding the goods
+   */
+  async getQuote(commodityName: string, location: PriceLocation = {}): Promise<PriceQuote> {
+    await this.refreshIfStale();
+
+    const cacheKey = [commodityName, location.market || '', location.state || ''].join('|').toLowerCase();
+    const cached = this.cache.get(cacheKey);
+    if (cached && cached.expiresAt > Date.now()) {
+      return cached.quote;
+    }
+
+    const prices = await storage.listCommodityPrices(commodityName);
+    const quote = this.buildQuote(commodityName, prices, location);
+
+    this.cache.set(cacheKey, { quote, expiresAt: Date.now() + CACHE_TTL_MS });
+    return quote;
+  }
+
+  /**
+   * Value a quantity of a commodity at the current price, net of quality deductions
+   * @param commodityName Commodity name
+   * @param quantity Quantity in the given unit
+   * @param unit Measurement unit (MT, quintal or kg)
+   * @param options Price location and quality deduction percentage
+   */
+  async valuate(
+    commodityName: string,
+    quantity: number | string,
+    unit: string | null = 'MT',
+    options: { location?: PriceLocation; deductionPercent?: number } = {}
+  ) {
+    const quote = await this.getQuote(commodityName, options.location);
+    const pricePerUnit = quote.pricePerQuintal * this.quintalsPerUnit(unit);
+    const deductionPercent = options.deductionPercent || 0;
+    const totalValue = pricePerUnit * parseFloat(String(quantity)) * (1 - deductionPercent / 100);
+
+    return {
+      quote,
+      unit: unit || 'MT',
+      pricePerUnit: Math.round(pricePerUnit * 100) / 100,
+      deductionPercent,
+      totalValue: Math.round(totalValue * 100) / 100
+    };
+  }
+
+  /**
+   * Value a quantity held at a warehouse, priced at the warehouse's mandi
+   */
+  async valuateAtWarehouse(
+    commodityName: string,
+    quantity: number | string,
+    unit: string | null,
+    warehouseId?: number | null,
+    deductionPercent?: number
+  ) {
+    return this.valuate(commodityName, quantity, unit, {
+      location: await this.warehouseLocation(warehouseId),
+      deductionPercent
+    });
+  }
+
+  /**
+   * Current market value of a receipt, net of the quality deductions found at grading
+   */
+  async valueReceipt(receipt: WarehouseReceipt) {
+    const commodity = receipt.commodityId ? await storage.getCommodity(receipt.commodityId) : undefined;
+    const commodityName = receipt.commodityName || commodity?.name;
+    if (!commodityName) {
+      throw new Error(`Receipt ${receipt.receiptNumber} has no commodity to price`);
+    }
+
+    const grading = (commodity?.qualityParameters as { grading?: { deductionPercent?: number } } | null)?.grading;
+    return this.valuateAtWarehouse(
+      commodityName,
+      receipt.quantity,
+      receipt.measurementUnit || commodity?.measurementUnit || 'MT',
+      receipt.warehouseId,
+      grading?.deductionPercent
+    );
+  }
+
+  /**
+   * Direction of the price between the two most recent report dates at the quote's scope
+   */
+  async getTrend(commodityName: string, location: PriceLocation = {}): Promise<'rising' | 'falling' | 'stable'> {
+    const quote = await this.getQuote(commodityName, location);
+    const prices = (await storage.listCommodityPrices(commodityName)).filter(p =>
+      quote.scope === 'market' ? p.market.toLowerCase() === (quote.market || '').toLowerCase()
+        : quote.scope === 'state' ? (p.state || '').toLowerCase() === (quote.state || '').toLowerCase()
+        : true
+    );
+
+    const byDate = new Map<string, number[]>();
+    for (const price of prices) {
+      const day = new Date(price.priceDate).toISOString().slice(0, 10);
+      byDate.set(day, [...(byDate.get(day) || []), parseFloat(price.modalPrice)]);
+    }
+
+    const days = Array.from(byDate.keys()).sort().reverse();
+    if (days.length < 2) return 'stable';
+
+    const average = (values: number[]) => values.reduce((sum, v) => sum + v, 0) / values.length;
+    const latest = average(byDate.get(days[0])!);
+    const previous = average(byDate.get(days[1])!);
+    return latest > previous ? 'rising' : latest < previous ? 'falling' : 'stable';
+  }
+
+  /**
+   * Stored price history for a commodity, newest first
+   */
+  async getHistory(commodityName: string, options: { market?: string; days?: number } = {}): Promise<CommodityPrice[]> {
+    await this.refreshIfStale();
+    const since = new Date(Date.now() - (options.days || LOOKBACK_DAYS) * 24 * 60 * 60 * 1000);
+    return storage.listCommodityPrices(commodityName, { market: options.market, since });
+  }
+
+  /**
+   * Market and state of a warehouse, used to pick the nearest price
+   */
+  async warehouseLocation(warehouseId?: number | null): Promise<PriceLocation> {
+    if (!warehouseId) return {};
+
+    const warehouse = await storage.getWarehouse(warehouseId);
+    return warehouse ? { market: warehouse.mandiName || warehouse.city, state: warehouse.state } : {};
+  }
+
+  quintalsPerUnit(unit?: string | null): number {
+    return QUINTALS_PER_UNIT[unit || 'MT'] ?? QUINTALS_PER_UNIT.MT;
+  }
+
+  private buildQuote(commodityName: string, prices: CommodityPrice[], location: PriceLocation): PriceQuote {
+    const matches = (a?: string | null, b?: string | null) => !!a && !!b && a.toLowerCase() === b.toLowerCase();
+
+    const atMarket = prices.filter(p => matches(p.market, location.market));
+    if (atMarket.length > 0) {
+      return this.averageLatest(commodityName, atMarket, 'market', location);
+    }
+
+    const inState = prices.filter(p => matches(p.state, location.state));
+    if (inState.length > 0) {
+      return this.averageLatest(commodityName, inState, 'state', location);
+    }
+
+    if (prices.length > 0) {
+      return this.averageLatest(commodityName, prices, 'national', location);
+    }
+
+    return {
+      commodityName,
+      scope: 'default',
+      market: null,
+      state: null,
+      pricePerQuintal: DEFAULT_PRICE_PER_QUINTAL,
+      priceDate: null,
+      source: 'default',
+      marketsSampled: 0
+    };
+  }
+
+  /**
+   * Average of the latest modal price reported by each market (prices are sorted newest first)
+   */
+  private averageLatest(
+    commodityName: string,
+    prices: CommodityPrice[],
+    scope: PriceQuote['scope'],
+    location: PriceLocation
+  ): PriceQuote {
+    const latestByMarket = new Map<string, CommodityPrice>();
+    for (const price of prices) {
+      const key = price.market.toLowerCase();
+      if (!latestByMarket.has(key)) {
+        latestByMarket.set(key, price);
+      }
+    }
+
+    const newest = Math.max(...Array.from(latestByMarket.values()).map(p => p.priceDate.getTime()));
+    const latest = Array.from(latestByMarket.values())
+      .filter(p => newest - p.priceDate.getTime() <= LOOKBACK_DAYS * 24 * 60 * 60 * 1000);
+    const average = latest.reduce((sum, p) => sum + parseFloat(p.modalPrice), 0) / latest.length;
+
+    return {
+      commodityName,
+      scope,
+      market: scope === 'market' ? latest[0].market : null,
+      state: scope === 'national' ? null : (latest[0].state || location.state || null),
+      pricePerQuintal: Math.round(average * 100) / 100,
+      priceDate: new Date(newest),
+      source: Array.from(new Set(latest.map(p => p.source))).join(', '),
+      marketsSampled: latest.length
+    };
+  }
+
+  private async refreshIfStale() {
+    if (Date.now() - this.lastRefreshedAt < CACHE_TTL_MS) {
+      return;
+    }
+
+    try {
+      await this.refresh();
+    } catch (error) {
+      // Valuation keeps working from stored history when a provider is down; retry after the TTL
+      console.error('Price feed refresh failed:', error);
+      this.lastRefreshedAt = Date.now();
+    }
+  }
+
+  private async pullFromProviders(): Promise<number> {
+    let stored = 0;
+
+    for (const provider of this.providers) {
+      const prices = await provider.fetchPrices();
+
+      // Skip prices already in the history (same market, date and variety from this provider)
+      const byCommodity = new Map<string, MandiPrice[]>();
+      for (const price of prices) {
+        const key = price.commodityName.toLowerCase();
+        byCommodity.set(key, [...(byCommodity.get(key) || []), price]);
+      }
+
+      for (const batch of Array.from(byCommodity.values())) {
+        const oldest = new Date(Math.min(...batch.map(p => p.priceDate.getTime())));
+        const existing = await storage.listCommodityPrices(batch[0].commodityName, { since: oldest });
+        const seen = new Set(existing
+          .filter(p => p.source === provider.name)
+          .map(p => this.historyKey(p.market, p.priceDate, p.variety)));
+
+        for (const price of batch) {
+          const key = this.historyKey(price.market, price.priceDate, price.variety);
+          if (seen.has(key)) continue;
+          seen.add(key);
+
+          await storage.createCommodityPrice({
+            commodityName: price.commodityName,
+            variety: price.variety || null,
+            market: price.market,
+            district: price.district || null,
+            state: price.state || null,
+            minPrice: price.minPrice !== undefined ? price.minPrice.toFixed(2) : null,
+            maxPrice: price.maxPrice !== undefined ? price.maxPrice.toFixed(2) : null,
+            modalPrice: price.modalPrice.toFixed(2),
+            priceDate: price.priceDate,
+            source: provider.name
+          });
+          stored++;
+        }
+      }
+    }
+
+    this.lastRefreshedAt = Date.now();
+    this.cache.clear();
+    return stored;
+  }
+
+  private historyKey(market: string, priceDate: Date, variety?: string | null) {
+    return [market.toLowerCase(), new Date(priceDate).toISOString().slice(0, 10), (variety || '').toLowerCase()].join('|');
+  }
+}
+
+export const priceFeedService = new PriceFeedService([
+  new FilePriceProvider(process.env.PRICE_FEED_FILE || path.resolve(process.cwd(), 'server/data/mandi-prices.csv'))
+]);
@@ -0,0 +1,162 @@
+import crypto from "crypto";
+import QRCode from "qrcode";
+import { storage } from "../storage";
+import { hasPermission } from "../middleware/auth";
+import type { User, WarehouseReceipt } from "@shared/schema";
+import { receiptLiens } from "@shared/auditProof";
+import {
+  qrSigningInput,
+  type QrClaims,
+  type QrPublicKeys,
+  type ReceiptQrClaims,
+  type SackQrClaims
+} from "@shared/qrPayload";
+
+// PKCS#8 DER header for an Ed25519 private key; the 32-byte seed follows it
+const ED25519_PKCS8_PREFIX = Buffer.from('302e020100300506032b657004220420', 'hex');
+
+/**
+ * The platform signing key, from QR_SIGNING_SEED (64 hex characters).
+ * Without a valid seed there is no key and nothing is signed: a guessable
+ * default would let anyone forge codes that verify.
+ */
+function loadSigningKey() {
+  const configured = process.env.QR_SIGNING_SEED;
+  if (!configured || !/^[0-9a-f]{64}$/i.test(configured)) {
+    console.warn(configured
+      ? 'QR_SIGNING_SEED is not 64 hex characters; QR codes will not be signed'
+      : 'QR_SIGNING_SEED is not set; QR codes will not be signed');
+    return null;
+  }
+  const seed = Buffer.from(configured, 'hex');
+
+  const privateKey = crypto.createPrivateKey({
+    key: Buffer.concat([ED25519_PKCS8_PREFIX, seed]),
+    format: 'der',
+    type: 'pkcs8'
+  });
+  const publicKey = crypto.createPublicKey(privateKey).export({ format: 'jwk' }).x!;
+  // Key id: the first 8 bytes of the public key's hash, so rotated keys can be told apart
+  const keyId = crypto.createHash('sha256').update(Buffer.from(publicKey, 'base64url')).digest('hex').slice(0, 16);
+  return { privateKey, publicKey, keyId };
+}
+
+/**
+ * Signed QR codes for receipts and sacks.
+ * Payloads are signed with the platform's Ed25519 key and rendered to QR images
+ * locally, so tags can be checked offline against the published public key.
+ */
+export class QrCodeService {
+  private key = loadSigningKey();
+
+  /**
+   * Public keys for verifying tokens, by key id; empty when signing is not configured
+   */
+  getPublicKeys(): QrPublicKeys {
+    return this.key ? { [this.key.keyId]: this.key.publicKey } : {};
+  }
+
+  /**
+   * Sign claims into a `TW1.<claims>.<signature>` token
+   */
+  sign(claims: Omit<SackQrClaims, 'kid' | 'iat'> | Omit<ReceiptQrClaims, 'kid' | 'iat'>): string {
+    if (!this.key) {
+      throw new Error("QR signing is not configured; set QR_SIGNING_SEED to 64 hex characters");
+    }
+    const input = qrSigningInput({ ...claims, kid: this.key.keyId, iat: new Date().toISOString() } as QrClaims);
+    const signature = crypto.sign(null, Buffer.from(input), this.key.privateKey);
+    return `${input}.${signature.toString('base64url')}`;
+  }
+
+  /**
+   * Issue a signed tag for a sack and keep it on the sack as its barcode data and QR image
+   * @param sackId The sack's id
+   * @param user The owner, an operator of the sack's warehouse, or an admin
+   */
+  async issueSackTag(sackId: number, user: User) {
+    const sack = await storage.getCommoditySack(sackId);
+    if (!sack) {
+      throw new Error("Sack not found");
+    }
+    if (sack.ownerId !== user.id && !(await this.operatesWarehouse(user, sack.warehouseId))) {
+      throw new Error("Not authorized to tag this sack");
+    }
+
+    if (sack.status !== 'active') {
+      throw new Error(`Sacks in '${sack.status}' status cannot be tagged`);
+    }
+    const receipt = sack.receiptId ? await storage.getWarehouseReceipt(sack.receiptId) : undefined;
+    if (receipt) {
+      this.assertLive(receipt);
+    }
+    const token = this.sign({
+      typ: 'sack',
+      sackId: sack.sackId,
+      receiptNumber: receipt?.receiptNumber ?? null,
+      warehouseId: sack.warehouseId,
+      weight: String(sack.weight),
+      unit: sack.measurementUnit,
+      grade: sack.gradeAssigned
+    });
+    const qrDataUrl = await QRCode.toDataURL(token, { errorCorrectionLevel: 'M', margin: 1, width: 320 });
+
+    await storage.updateCommoditySack(sack.id, { barcodeData: token, qrCodeUrl: qrDataUrl });
+    return { token, qrDataUrl };
+  }
+
+  /**
+   * Issue a signed QR for a receipt. The QR holds the public verification URL with the
+   * token as ?qr=, so any phone can open it and the app can check it offline.
+   * @param receiptId The receipt's id
+   * @param user The owner, an operator of the receipt's warehouse, or an admin
+   */
+  async issueReceiptCode(receiptId: number, user: User) {
+    const receipt = await storage.getWarehouseReceipt(receiptId);
+    if (!receipt) {
+      throw new Error("Receipt not found");
+    }
+    if (receipt.ownerId !== user.id && !(await this.operatesWarehouse(user, receipt.warehouseId))) {
+      throw new Error("Not authorized to issue a QR code for this receipt");
+    }
+    this.assertLive(receipt);
+
+    const liens = receiptLiens(receipt.liens);
+    const verificationCode: string | null = liens.verificationCode || null;
+    const token = this.sign({
+      typ: 'receipt',
+      receiptNumber: receipt.receiptNumber,
+      verificationCode,
+      commodity: receipt.commodityName || liens.commodityName || null,
+      quantity: String(receipt.quantity),
+      unit: receipt.measurementUnit || 'MT',
+      warehouseId: receipt.warehouseId
+    });
+    const url = `${process.env.PUBLIC_BASE_URL || 'http://localhost:5000'}/receipts/verify/${encodeURIComponent(verificationCode ?? receipt.receiptNumber)}?qr=${token}`;
+    const qrDataUrl = await QRCode.toDataURL(url, { errorCorrectionLevel: 'M', margin: 1, width: 320 });
+
+    return { token, url, qrDataUrl };
+  }
+
+  /**
+   * Only receipts that are still good for their goods get a signed code; a verifier
+   * offline cannot tell that a receipt was withdrawn or frozen after it was signed
+   */
+  private assertLive(receipt: WarehouseReceipt) {
+    if (receipt.status !== 'active') {
+      throw new Error(`Receipts in '${receipt.status}' status cannot be given a QR code`);
+    }
+    if (receipt.isFrozen) {
+      throw new Error("Receipt is frozen while a dispute is open");
+    }
+  }
+
+  private async operatesWarehouse(user: User, warehouseId: number | null) {
+    if (user.role === 'admin') return true;
+    if (!warehouseId || !hasPermission(user.role, 'warehouse:operate')) return false;
+    const warehouse = await storage.getWarehouse(warehouseId);
+    return warehouse?.ownerId === user.id;
+  }
+}
+
+// Export singleton instance
+export const qrCodeService = new QrCodeService();
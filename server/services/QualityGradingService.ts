@@ -0,0 +1,250 @@
+import { storage } from "../storage";
+import { creditScoringService } from "./CreditScoringService";
+import { auditLedgerService } from "./AuditLedgerService";
+import {
+  defaultGradeSpecifications,
+  gradeSpecificationSchema,
+  type Commodity,
+  type CommodityCategoryType,
+  type GradeSpecification
+} from "@shared/schema";
+
+/**
+ * Value deduction applied for one parameter past its deduction basis
+ */
+export interface GradeDeduction {
+  parameter: string;
+  value: number;
+  basis: number;
+  excess: number;
+  deductionPercent: number;
+}
+
+/**
+ * Outcome of grading a lot against a grade specification
+ */
+export interface GradingResult {
+  passed: boolean;
+  grade: string;
+  score: number;
+  deductionPercent: number;
+  deductions: GradeDeduction[];
+  failures: string[];
+  parameters: Record<string, number>;
+  specSource: 'commodity' | 'category' | 'none';
+  gradedAt: string;
+}
+
+export const REJECTED_GRADE = 'Rejected';
+export const UNGRADED = 'Ungraded';
+
+// Commodity types used across the app mapped to grading categories
+const TYPE_CATEGORIES: Record<string, CommodityCategoryType> = {
+  grains: 'cereals',
+  grain: 'cereals',
+  cereals: 'cereals',
+  cereal: 'cereals',
+  pulses: 'pulses',
+  pulse: 'pulses',
+  oilseeds: 'oilseeds',
+  oilseed: 'oilseeds',
+  spices: 'spices',
+  spice: 'spices'
+};
+
+/**
+ * Grades lots against per-commodity specifications stored in commodityCategories,
+ * falling back to the AGMARK-style defaults for the commodity's category.
+ */
+export class QualityGradingService {
+  /**
+   * Map a free-form commodity type (e.g. "Grains") to a grading category
+   */
+  categoryForType(commodityType: string): CommodityCategoryType {
+    return TYPE_CATEGORIES[commodityType.trim().toLowerCase()] || 'others';
+  }
+
+  /**
+   * Find the grade specification for a commodity: a commodity-specific entry by name,
+   * otherwise the default table for its category. Entries not in the grade specification
+   * shape (such as min/max ranges seeded before grade tables) fall back to the category default.
+   */
+  async resolveSpec(commodityName: string, commodityType: string): Promise<{ spec: GradeSpecification | null; source: GradingResult['specSource'] }> {
+    const configured = await storage.getCommodityCategoryByName(commodityName);
+    if (configured) {
+      const parsed = gradeSpecificationSchema.safeParse(configured.qualityParameters);
+      if (parsed.success) {
+        return { spec: parsed.data, source: 'commodity' };
+      }
+      console.warn(`Grade specification for ${configured.name} is malformed; using the ${configured.category} default`);
+    }
+
+    const category = configured?.category ?? this.categoryForType(commodityType);
+    if (category !== 'others') {
+      return { spec: defaultGradeSpecifications[category], source: 'category' };
+    }
+
+    return { spec: null, source: 'none' };
+  }
+
+  /**
+   * Grade measured parameters against a specification
+   */
+  grade(spec: GradeSpecification | null, measured: Record<string, number>, source: GradingResult['specSource'] = 'commodity'): GradingResult {
+    const parameters = this.normalize(measured);
+    const gradedAt = new Date().toISOString();
+
+    if (!spec) {
+      return { passed: true, grade: UNGRADED, score: 100, deductionPercent: 0, deductions: [], failures: [], parameters, specSource: 'none', gradedAt };
+    }
+
+    const failures: string[] = [];
+    const deductions: GradeDeduction[] = [];
+
+    for (const [name, param] of Object.entries(spec.parameters)) {
+      const value = parameters[name];
+      if (value === undefined) {
+        failures.push(`${name} was not measured`);
+        continue;
+      }
+
+      if (param.rejectAbove !== undefined && value > param.rejectAbove) {
+        failures.push(`${name} ${value}${param.unit} exceeds the limit of ${param.rejectAbove}${param.unit}`);
+      }
+      if (param.rejectBelow !== undefined && value < param.rejectBelow) {
+        failures.push(`${name} ${value}${param.unit} is below the minimum of ${param.rejectBelow}${param.unit}`);
+      }
+
+      const rate = param.deductionPerUnit || 0;
+      if (param.deductAbove !== undefined && value > param.deductAbove && rate > 0) {
+        const excess = value - param.deductAbove;
+        deductions.push({ parameter: name, value, basis: param.deductAbove, excess: round(excess), deductionPercent: round(excess * rate) });
+      }
+      if (param.deductBelow !== undefined && value < param.deductBelow && rate > 0) {
+        const excess = param.deductBelow - value;
+        deductions.push({ parameter: name, value, basis: param.deductBelow, excess: round(excess), deductionPercent: round(excess * rate) });
+      }
+    }
+
+    const deductionPercent = Math.min(100, round(deductions.reduce((sum, d) => sum + d.deductionPercent, 0)));
+
+    if (failures.length > 0) {
+      return { passed: false, grade: REJECTED_GRADE, score: 0, deductionPercent, deductions, failures, parameters, specSource: source, gradedAt };
+    }
+
+    const band = spec.grades.find(g => this.meetsLimits(g.limits, parameters)) || spec.grades[spec.grades.length - 1];
+
+    return {
+      passed: true,
+      grade: band?.grade || UNGRADED,
+      score: band?.score ?? 100,
+      deductionPercent,
+      deductions,
+      failures,
+      parameters,
+      specSource: source,
+      gradedAt
+    };
+  }
+
+  /**
+   * Resolve the specification for a commodity and grade measured parameters against it
+   */
+  async evaluate(commodityName: string, commodityType: string, measured: Record<string, number>): Promise<GradingResult> {
+    const { spec, source } = await this.resolveSpec(commodityName, commodityType);
+    return this.grade(spec, measured, source);
+  }
+
+  /**
+   * Grade a stored commodity and record the result on the commodity and the sacks of its receipts.
+   * Rejected lots keep their measured parameters but get the 'Rejected' grade.
+   */
+  async gradeCommodity(commodity: Commodity, measured: Record<string, number>): Promise<GradingResult> {
+    const result = await this.evaluate(commodity.name, commodity.type, measured);
+
+    await storage.updateCommodity(commodity.id, {
+      qualityParameters: this.toQualityParameters(result),
+      gradeAssigned: result.grade
+    });
+
+    const receipts = await storage.listWarehouseReceiptsByCommodity(commodity.id);
+    for (const receipt of receipts) {
+      await this.applyToSacks(receipt.id, result);
+    }
+    await creditScoringService.rescoreQuietly(commodity.ownerId, 'quality_graded');
+
+    return result;
+  }
+
+  /**
+   * Record a grading result on every sack of a receipt
+   */
+  async applyToSacks(receiptId: number, result: GradingResult): Promise<void> {
+    const sacks = await storage.listCommoditySacksByReceipt(receiptId);
+    for (const sack of sacks) {
+      const graded = await storage.updateCommoditySack(sack.id, {
+        qualityParameters: this.toQualityParameters(result),
+        gradeAssigned: result.grade,
+        lastInspectionDate: new Date(result.gradedAt)
+      });
+      await auditLedgerService.anchorSack(graded!, 'graded', { grade: result.grade, score: result.score });
+    }
+  }
+
+  /**
+   * Representative measurements that meet the top grade of a specification (bypass demo flow)
+   */
+  nominalParameters(spec: GradeSpecification | null): Record<string, number> {
+    if (!spec) return {};
+
+    const best = spec.grades[0]?.limits || {};
+    const parameters: Record<string, number> = {};
+    for (const [name, param] of Object.entries(spec.parameters)) {
+      const limit = best[name];
+      parameters[name] = limit?.max ?? limit?.min ?? param.deductAbove ?? param.deductBelow ?? param.rejectAbove ?? param.rejectBelow ?? 0;
+    }
+    return parameters;
+  }
+
+  /**
+   * Label shown on warehouse receipts for a grade (e.g. "Grade A")
+   */
+  receiptGradeLabel(grade: string): string {
+    return grade === UNGRADED || grade === REJECTED_GRADE ? grade : `Grade ${grade}`;
+  }
+
+  /**
+   * Shape stored in commodities/commoditySacks.qualityParameters: measured values plus a grading summary
+   */
+  toQualityParameters(result: GradingResult) {
+    const { parameters, ...grading } = result;
+    return { ...parameters, grading };
+  }
+
+  private meetsLimits(limits: Record<string, { min?: number; max?: number }>, parameters: Record<string, number>): boolean {
+    return Object.entries(limits).every(([name, limit]) => {
+      const value = parameters[name];
+      if (value === undefined) return false;
+      if (limit.max !== undefined && value > limit.max) return false;
+      if (limit.min !== undefined && value < limit.min) return false;
+      return true;
+    });
+  }
+
+  private normalize(measured: Record<string, unknown>): Record<string, number> {
+    const parameters: Record<string, number> = {};
+    for (const [name, value] of Object.entries(measured || {})) {
+      const num = typeof value === 'number' ? value : parseFloat(String(value));
+      if (!Number.isNaN(num)) {
+        parameters[name] = num;
+      }
+    }
+    return parameters;
+  }
+}
+
+function round(value: number): number {
+  return Math.round(value * 100) / 100;
+}
+
+export const qualityGradingService = new QualityGradingService();
@@ -0,0 +1,343 @@
+import { storage } from "../storage";
+import BroadcastService from "./BroadcastService";
+import { auditLedgerService } from "./AuditLedgerService";
+import { storageFeeService } from "./StorageFeeService";
+import { lienService } from "./LienService";
+import type { CommoditySack, InsertWarehouseReceipt, ReceiptLineage, WarehouseReceipt } from "@shared/schema";
+
+// Kilograms per receipt measurement unit, used to assign sacks to child receipts
+const KG_PER_UNIT: Record<string, number> = { MT: 1000, kg: 1, KG: 1, quintal: 100 };
+
+// Quantities are stored with two decimals
+const QUANTITY_TOLERANCE = 0.005;
+
+/**
+ * Service for trading-lot operations on warehouse receipts: splitting one receipt
+ * into several child receipts and merging compatible receipts into one.
+ * Superseded receipts stay on record and are linked to their children through receipt lineage.
+ */
+export class ReceiptLotService {
+  /**
+   * Split a receipt into child receipts with the given quantities
+   * @param receiptId The receipt to split
+   * @param userId The owner requesting the split
+   * @param quantities Quantity of each child receipt; must add up to the receipt quantity
+   */
+  async split(receiptId: number, userId: number, quantities: number[]) {
+    const receipt = await storage.getWarehouseReceipt(receiptId);
+    if (!receipt) {
+      throw new Error("Receipt not found");
+    }
+
+    await this.assertTradable(receipt, userId);
+
+    if (quantities.length < 2) {
+      throw new Error("A split needs at least two child quantities");
+    }
+
+    if (quantities.some(q => !(q > 0))) {
+      throw new Error("Each child quantity must be positive");
+    }
+
+    const total = parseFloat(receipt.quantity);
+    const requested = quantities.reduce((sum, q) => sum + q, 0);
+    if (Math.abs(requested - total) > QUANTITY_TOLERANCE) {
+      throw new Error(`Child quantities add up to ${requested.toFixed(2)} but the receipt holds ${receipt.quantity}`);
+    }
+
+    // Fees are billed to a receipt and would be stranded on the superseded parent
+    await storageFeeService.assertNoDues(receipt.id, 'splitting');
+
+    // Valuation is split pro rata; the last child takes the rounding remainder
+    const valuation = parseFloat(receipt.valuation || "0");
+    let allocatedValuation = 0;
+
+    const children: WarehouseReceipt[] = [];
+    for (let i = 0; i < quantities.length; i++) {
+      const isLast = i === quantities.length - 1;
+      const childValuation = isLast
+        ? valuation - allocatedValuation
+        : Math.round((valuation * quantities[i] / total) * 100) / 100;
+      allocatedValuation += childValuation;
+
+      const child = await auditLedgerService.anchorReceipt(await storage.createWarehouseReceipt({
+        ...this.inheritedFields(receipt),
+        receiptNumber: `${receipt.receiptNumber}-S${i + 1}`,
+        commodityId: receipt.commodityId,
+        quantity: quantities[i].toFixed(2),
+        valuation: childValuation.toFixed(2),
+        expiryDate: receipt.expiryDate,
+        metadata: {
+          ...((receipt.metadata as object) || {}),
+          parentReceiptIds: [receipt.id],
+          lotOperation: 'split'
+        }
+      }), 'issued', { parentReceiptIds: [receipt.id], lotOperation: 'split' });
+
+      await storage.createReceiptLineage({
+        parentReceiptId: receipt.id,
+        childReceiptId: child.id,
+        lineageType: 'split',
+        quantity: child.quantity,
+        createdBy: userId
+      });
+
+      children.push(child);
+    }
+
+    await this.assignSacksOnSplit(receipt, children);
+    const superseded = await storage.updateWarehouseReceipt(receipt.id, { status: 'superseded' });
+    await auditLedgerService.anchorReceipt(superseded!, 'superseded', { childReceiptIds: children.map(c => c.id) });
+
+    BroadcastService.broadcastReceiptUpdate(userId, receipt.id, {
+      type: 'receipt_split',
+      childReceiptIds: children.map(c => c.id)
+    });
+
+    return { parent: { ...receipt, status: 'superseded' as const }, children };
+  }
+
+  /**
+   * Merge compatible receipts (same commodity, grade, warehouse, owner and receipt type) into one receipt
+   * @param receiptIds The receipts to merge
+   * @param userId The owner requesting the merge
+   */
+  async merge(receiptIds: number[], userId: number) {
+    const uniqueIds = Array.from(new Set(receiptIds));
+    if (uniqueIds.length < 2) {
+      throw new Error("At least two receipts are required to merge");
+    }
+
+    const receipts = await storage.getReceiptsByIds(uniqueIds);
+    if (receipts.length !== uniqueIds.length) {
+      throw new Error("One or more receipts not found");
+    }
+
+    for (const receipt of receipts) {
+      await this.assertTradable(receipt, userId);
+    }
+    this.assertCompatible(receipts);
+    for (const receipt of receipts) {
+      await storageFeeService.assertNoDues(receipt.id, 'merging');
+    }
+
+    const [first] = receipts;
+    const quantity = receipts.reduce((sum, r) => sum + parseFloat(r.quantity), 0);
+    const valuation = receipts.reduce((sum, r) => sum + parseFloat(r.valuation || "0"), 0);
+    const expiryDates = receipts
+      .map(r => r.expiryDate)
+      .filter((d): d is Date => !!d)
+      .map(d => new Date(d).getTime());
+
+    const merged = await auditLedgerService.anchorReceipt(await storage.createWarehouseReceipt({
+      ...this.inheritedFields(first),
+      receiptNumber: `WR${Date.now()}-M${userId}`,
+      commodityId: first.commodityId,
+      quantity: quantity.toFixed(2),
+      valuation: valuation.toFixed(2),
+      // The merged lot expires with its earliest constituent
+      expiryDate: expiryDates.length > 0 ? new Date(Math.min(...expiryDates)) : undefined,
+      metadata: {
+        parentReceiptIds: receipts.map(r => r.id),
+        sourceCommodityIds: Array.from(new Set(receipts.map(r => r.commodityId).filter(Boolean))),
+        lotOperation: 'merge'
+      }
+    }), 'issued', { parentReceiptIds: receipts.map(r => r.id), lotOperation: 'merge' });
+
+    for (const receipt of receipts) {
+      await storage.createReceiptLineage({
+        parentReceiptId: receipt.id,
+        childReceiptId: merged.id,
+        lineageType: 'merge',
+        quantity: receipt.quantity,
+        createdBy: userId
+      });
+
+      const sacks = await this.activeSacks(receipt.id);
+      for (const sack of sacks) {
+        const moved = await storage.updateCommoditySack(sack.id, { receiptId: merged.id });
+        await auditLedgerService.anchorSack(moved!, 'reassigned', { fromReceiptId: receipt.id, lotOperation: 'merge' });
+      }
+
+      const superseded = await storage.updateWarehouseReceipt(receipt.id, { status: 'superseded' });
+      await auditLedgerService.anchorReceipt(superseded!, 'superseded', { childReceiptIds: [merged.id] });
+    }
+
+    BroadcastService.broadcastReceiptUpdate(userId, merged.id, {
+      type: 'receipt_merged',
+      parentReceiptIds: receipts.map(r => r.id)
+    });
+
+    return { parents: receipts.map(r => ({ ...r, status: 'superseded' as const })), merged };
+  }
+
+  /**
+   * Lineage of a receipt: every ancestor and descendant, plus the transfer history
+   * of the receipt and its ancestors
+   */
+  async getLineage(receiptId: number) {
+    const receipt = await storage.getWarehouseReceipt(receiptId);
+    if (!receipt) {
+      throw new Error("Receipt not found");
+    }
+
+    const ancestors = await this.walk(receiptId, 'up');
+    const descendants = await this.walk(receiptId, 'down');
+
+    const historyIds = [receiptId, ...ancestors.map(link => link.parentReceiptId)];
+    const transfers = (await Promise.all(historyIds.map(id => storage.listReceiptTransfersByReceipt(id))))
+      .flat()
+      .sort((a, b) => new Date(a.transferDate).getTime() - new Date(b.transferDate).getTime());
+
+    const relatedIds = Array.from(new Set([
+      ...ancestors.map(link => link.parentReceiptId),
+      ...descendants.map(link => link.childReceiptId)
+    ]));
+    const related = relatedIds.length > 0 ? await storage.getReceiptsByIds(relatedIds) : [];
+
+    return {
+      receipt,
+      ancestors,
+      descendants,
+      receipts: related.map(r => ({
+        id: r.id,
+        receiptNumber: r.receiptNumber,
+        quantity: r.quantity,
+        status: r.status,
+        ownerId: r.ownerId
+      })),
+      transfers
+    };
+  }
+
+  /**
+   * Follow lineage links breadth-first towards parents ('up') or children ('down')
+   */
+  private async walk(receiptId: number, direction: 'up' | 'down'): Promise<ReceiptLineage[]> {
+    const links: ReceiptLineage[] = [];
+    const seen = new Set<number>([receiptId]);
+    const queue = [receiptId];
+
+    while (queue.length > 0) {
+      const current = queue.shift()!;
+      const next = direction === 'up'
+        ? await storage.listReceiptLineageByChild(current)
+        : await storage.listReceiptLineageByParent(current);
+
+      for (const link of next) {
+        links.push(link);
+        const id = direction === 'up' ? link.parentReceiptId : link.childReceiptId;
+        if (!seen.has(id)) {
+          seen.add(id);
+          queue.push(id);
+        }
+      }
+    }
+
+    return links;
+  }
+
+  /**
+   * Only unencumbered active receipts held by the requester can be split or merged
+   */
+  private async assertTradable(receipt: WarehouseReceipt, userId: number) {
+    if (receipt.ownerId !== userId) {
+      throw new Error(`Not authorized to modify receipt ${receipt.receiptNumber}`);
+    }
+
+    if (receipt.isFrozen) {
+      throw new Error(`Receipt ${receipt.receiptNumber} is frozen while a dispute is open`);
+    }
+
+    if (receipt.status !== 'active') {
+      throw new Error(`Receipt ${receipt.receiptNumber} is ${receipt.status} and cannot be split or merged`);
+    }
+
+    if (parseFloat(receipt.collateralUsed || "0") > 0) {
+      throw new Error(`Receipt ${receipt.receiptNumber} is pledged as collateral`);
+    }
+
+    // A lien stays on the receipt it was registered against, so a liened receipt cannot be superseded
+    if (await lienService.isEncumbered(receipt.id)) {
+      throw new Error(`Receipt ${receipt.receiptNumber} is under a lien`);
+    }
+  }
+
+  private assertCompatible(receipts: WarehouseReceipt[]) {
+    const key = (r: WarehouseReceipt) => ({
+      commodity: (r.commodityName || '').trim().toLowerCase(),
+      grade: (r.qualityGrade || '').trim().toLowerCase(),
+      warehouseId: r.warehouseId,
+      unit: r.measurementUnit || 'MT',
+      receiptType: r.receiptType
+    });
+
+    const base = key(receipts[0]);
+    for (const receipt of receipts.slice(1)) {
+      const k = key(receipt);
+      if (k.commodity !== base.commodity) {
+        throw new Error("Receipts must be for the same commodity");
+      }
+      if (k.grade !== base.grade) {
+        throw new Error("Receipts must have the same quality grade");
+      }
+      if (k.warehouseId !== base.warehouseId) {
+        throw new Error("Receipts must be held at the same warehouse");
+      }
+      if (k.unit !== base.unit) {
+        throw new Error("Receipts must use the same measurement unit");
+      }
+      if (k.receiptType !== base.receiptType) {
+        throw new Error("Negotiable and non-negotiable receipts cannot be merged");
+      }
+    }
+  }
+
+  /**
+   * Fields a child or merged receipt carries over from its source
+   */
+  private inheritedFields(receipt: WarehouseReceipt): Omit<InsertWarehouseReceipt, 'receiptNumber' | 'quantity'> {
+    return {
+      ownerId: receipt.ownerId,
+      warehouseId: receipt.warehouseId,
+      status: 'active',
+      receiptType: receipt.receiptType,
+      availableForCollateral: receipt.availableForCollateral,
+      collateralUsed: '0',
+      commodityName: receipt.commodityName,
+      qualityGrade: receipt.qualityGrade,
+      warehouseName: receipt.warehouseName,
+      warehouseAddress: receipt.warehouseAddress,
+      measurementUnit: receipt.measurementUnit,
+      externalSource: receipt.externalSource
+    };
+  }
+
+  /**
+   * Hand the parent's sacks to the children in order, filling each child up to its quantity
+   */
+  private async assignSacksOnSplit(parent: WarehouseReceipt, children: WarehouseReceipt[]) {
+    const sacks = await this.activeSacks(parent.id);
+    const kgPerUnit = KG_PER_UNIT[parent.measurementUnit || 'MT'] ?? 1000;
+
+    let childIndex = 0;
+    let filledKg = 0;
+    for (const sack of sacks) {
+      while (childIndex < children.length - 1 && filledKg >= parseFloat(children[childIndex].quantity) * kgPerUnit) {
+        childIndex++;
+        filledKg = 0;
+      }
+
+      const moved = await storage.updateCommoditySack(sack.id, { receiptId: children[childIndex].id });
+      await auditLedgerService.anchorSack(moved!, 'reassigned', { fromReceiptId: parent.id, lotOperation: 'split' });
+      filledKg += parseFloat(sack.weight);
+    }
+  }
+
+  private async activeSacks(receiptId: number): Promise<CommoditySack[]> {
+    const sacks = await storage.listCommoditySacksByReceipt(receiptId);
+    return sacks.filter(sack => sack.status !== 'withdrawn' && sack.status !== 'transferred');
+  }
+}
+
+export const receiptLotService = new ReceiptLotService();
@@ -6,9 +6,9 @@
 import fs from 'fs';
 import path from 'path';
 import { jsPDF } from 'jspdf';
-// Import jspdf-autotable
-import 'jspdf-autotable';
-import { LoanRepayment, BankPayment } from '@shared/schema';
+// jspdf-autotable 5 no longer patches jsPDF on import
+import { applyPlugin } from 'jspdf-autotable';
+import { LoanRepayment, BankPayment, StorageInvoice, StorageInvoiceLine, Warehouse, WarehouseReceipt, User } from '@shared/schema';
 
 // Explicitly extend jsPDF with autoTable for TypeScript
 declare module 'jspdf' {
@@ -20,6 +20,8 @@ declare module 'jspdf' {
   }
 }
 
+applyPlugin(jsPDF);
+
 // Ensure receipts directory exists
 const RECEIPTS_DIR = path.join(process.cwd(), 'uploads', 'receipts');
 if (!fs.existsSync(RECEIPTS_DIR)) {
@@ -27,6 +29,15 @@ if (!fs.existsSync(RECEIPTS_DIR)) {
   console.log(`Created receipts directory at ${RECEIPTS_DIR}`);
 }
 
+// Storage invoices are kept apart from payment receipts
+const INVOICES_DIR = path.join(process.cwd(), 'uploads', 'invoices');
+if (!fs.existsSync(INVOICES_DIR)) {
+  fs.mkdirSync(INVOICES_DIR, { recursive: true });
+}
+
+const formatRupees = (amount: number | string) =>
+  `Rs. ${parseFloat(String(amount)).toLocaleString('en-IN', { minimumFractionDigits: 2, maximumFractionDigits: 2 })}`;
+
 /**
  * Generate a unique receipt number
  * Format: TW-RCPT-{timestamp}-{random digits}
@@ -59,6 +70,17 @@ interface ReceiptAdditionalInfo {
   };
 }
 
+/**
+ * Parties and goods printed on a storage tax invoice
+ */
+interface StorageInvoiceDetails {
+  warehouse: Warehouse;
+  receipt: WarehouseReceipt;
+  customer: User;
+  customerGstin?: string | null;
+  customerAddress?: string | null;
+}
+
 class ReceiptService {
   /**
    * Generate a receipt for a bank payment
@@ -202,6 +224,121 @@ class ReceiptService {
     };
   }
   
+  /**
+   * Generate a GST tax invoice for storage fees on a warehouse receipt
+   * @param invoice The issued invoice
+   * @param details Supplier, recipient and goods
+   * @returns Object containing path to the generated invoice
+   */
+  async generateStorageInvoice(invoice: StorageInvoice, details: StorageInvoiceDetails): Promise<ReceiptResult> {
+    const { warehouse, receipt, customer } = details;
+    const doc = new jsPDF();
+
+    doc.setFontSize(18);
+    doc.text('TAX INVOICE', 105, 18, { align: 'center' });
+    doc.setFontSize(9);
+    doc.text('Original for Recipient', 195, 12, { align: 'right' });
+
+    // Supplier and invoice particulars
+    doc.setFontSize(11);
+    doc.text(warehouse.name, 15, 30);
+    doc.setFontSize(9);
+    doc.text(`${warehouse.address}, ${warehouse.city}, ${warehouse.district}, ${warehouse.state}${warehouse.pincode ? ` - ${warehouse.pincode}` : ''}`, 15, 36);
+    doc.text(`GSTIN: ${warehouse.gstin || 'Unregistered'}`, 15, 42);
+    doc.text(`Invoice No: ${invoice.invoiceNumber}`, 195, 30, { align: 'right' });
+    doc.text(`Invoice Date: ${(invoice.issuedAt ?? new Date()).toLocaleDateString('en-IN')}`, 195, 36, { align: 'right' });
+    doc.text(`Place of Supply: ${invoice.placeOfSupply}`, 195, 42, { align: 'right' });
+
+    doc.autoTable({
+      startY: 50,
+      body: [
+        ['Billed To', customer.fullName],
+        ['Address', details.customerAddress || '-'],
+        ['Recipient GSTIN', details.customerGstin || 'Unregistered'],
+        ['Warehouse Receipt', `${receipt.receiptNumber} (${receipt.commodityName || 'Commodity'}, ${receipt.quantity} ${receipt.measurementUnit || 'MT'})`],
+        ['Billing Period', `${invoice.periodStart.toLocaleDateString('en-IN')} to ${invoice.periodEnd.toLocaleDateString('en-IN')}`]
+      ],
+      theme: 'grid',
+      styles: { fontSize: 9 },
+      columnStyles: {
+        0: { fontStyle: 'bold', cellWidth: 50 },
+        1: { cellWidth: 'auto' }
+      }
+    });
+
+    // Line items
+    const lines = (invoice.lines as StorageInvoiceLine[]) || [];
+    doc.autoTable({
+      startY: doc.lastAutoTable.finalY + 6,
+      head: [['#', 'Description', 'SAC', 'Qty (MT)', 'Days', 'Taxable Value']],
+      body: lines.map((line, index) => [
+        index + 1,
+        line.description,
+        line.sacCode,
+        line.quantityMt.toFixed(3),
+        line.days || '-',
+        formatRupees(line.amount)
+      ]),
+      theme: 'grid',
+      styles: { fontSize: 9 },
+      headStyles: { fillColor: [46, 125, 50] }
+    });
+
+    // Tax summary; storage is supplied where the warehouse stands, so the tax is CGST and SGST
+    const gstPercent = parseFloat(invoice.taxableAmount) > 0
+      ? ((parseFloat(invoice.cgst) + parseFloat(invoice.sgst)) / parseFloat(invoice.taxableAmount)) * 100
+      : 0;
+    doc.autoTable({
+      startY: doc.lastAutoTable.finalY + 4,
+      body: [
+        ['Taxable Value', formatRupees(invoice.taxableAmount)],
+        [`CGST @ ${(gstPercent / 2).toFixed(2)}%`, formatRupees(invoice.cgst)],
+        [`SGST @ ${(gstPercent / 2).toFixed(2)}%`, formatRupees(invoice.sgst)],
+        ['Invoice Total', formatRupees(invoice.totalAmount)]
+      ],
+      theme: 'grid',
+      styles: { fontSize: 9 },
+      margin: { left: 110 },
+      columnStyles: {
+        0: { fontStyle: 'bold', cellWidth: 45 },
+        1: { halign: 'right' }
+      }
+    });
+
+    doc.setFontSize(8);
+    doc.setTextColor(100);
+    doc.text(
+      'Tax is not payable on reverse charge basis. This is a computer-generated invoice and does not require a signature.',
+      105,
+      doc.internal.pageSize.height - 10,
+      { align: 'center' }
+    );
+
+    const filename = `invoice-${invoice.invoiceNumber.replace(/[^A-Za-z0-9-]/g, '_')}.pdf`;
+    const filepath = path.join(INVOICES_DIR, filename);
+    fs.writeFileSync(filepath, doc.output(), 'binary');
+
+    return {
+      url: `/uploads/invoices/${filename}`,
+      filepath,
+      receiptNumber: invoice.invoiceNumber
+    };
+  }
+
+  /**
+   * Retrieve a storage invoice PDF by its filename
+   * @param filename Name of the invoice file
+   * @returns The invoice file buffer or null if not found
+   */
+  getInvoiceFile(filename: string): Buffer | null {
+    const filepath = path.join(INVOICES_DIR, path.basename(filename));
+    if (!fs.existsSync(filepath)) {
+      console.error(`Invoice file not found: ${filepath}`);
+      return null;
+    }
+    return fs.readFileSync(filepath);
+  }
+
   /**
    * Retrieve a receipt by its filename
    * @param filename Name of the receipt file
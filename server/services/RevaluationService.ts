@@ -0,0 +1,307 @@
+import { EventEmitter } from 'events';
+import { storage } from "../storage";
+import BroadcastService from "./BroadcastService";
+import { priceFeedService } from "./PriceFeedService";
+import { LTV_THRESHOLDS } from "@shared/schema";
+import type { Loan, LtvLevel, WarehouseReceipt } from "@shared/schema";
+
+// Receipts that still represent goods in the warehouse and are marked to market
+const REVALUED_STATUSES = ['active', 'collateralized'];
+
+// Loans whose collateral cover is monitored
+const MONITORED_LOAN_STATUSES = ['approved', 'active'];
+
+const LEVEL_ORDER: LtvLevel[] = ['normal', 'warning', 'margin_call', 'liquidation'];
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+export interface LtvThresholdEvent {
+  loanId: number;
+  userId: number | null;
+  previousLevel: LtvLevel;
+  level: LtvLevel;
+  ltv: number;
+  collateralValue: number;
+  outstandingAmount: number;
+  direction: 'up' | 'down';
+}
+
+export interface RevaluationSummary {
+  startedAt: Date;
+  completedAt: Date;
+  receiptsRevalued: number;
+  receiptsFailed: number;
+  commoditiesUpdated: number;
+  loansChecked: number;
+  thresholdCrossings: LtvThresholdEvent[];
+}
+
+/**
+ * Service that marks warehouse receipts to market from the mandi price feed.
+ * A scheduled run revalues every active receipt, keeps a valuation history,
+ * rolls the new values up into commodities.marketValue and re-checks the LTV
+ * of every open loan. Listeners on `ltvEvents` receive an 'ltv_threshold_crossed'
+ * event whenever a loan moves between LTV levels.
+ */
+export class RevaluationService {
+  readonly ltvEvents = new EventEmitter();
+
+  private running: Promise<RevaluationSummary> | null = null;
+  private startTimer: NodeJS.Timeout | null = null;
+  private dailyTimer: NodeJS.Timeout | null = null;
+
+  /**
+   * Schedule the daily revaluation at REVALUATION_HOUR (server local time, default 06:00).
+   * Set REVALUATION_DISABLED=true to turn the schedule off.
+   */
+  start() {
+    if (this.startTimer || this.dailyTimer || process.env.REVALUATION_DISABLED === 'true') {
+      return;
+    }
+
+    const hour = parseInt(process.env.REVALUATION_HOUR || '6', 10);
+    const next = new Date();
+    next.setHours(hour, 0, 0, 0);
+    if (next.getTime() <= Date.now()) {
+      next.setTime(next.getTime() + DAY_MS);
+    }
+
+    this.startTimer = setTimeout(() => {
+      this.startTimer = null;
+      this.runScheduled();
+      this.dailyTimer = setInterval(() => this.runScheduled(), DAY_MS);
+    }, next.getTime() - Date.now());
+    this.startTimer.unref?.();
+
+    console.log(`📈 Receipt revaluation scheduled daily at ${String(hour).padStart(2, '0')}:00`);
+  }
+
+  /**
+   * Cancel the schedule
+   */
+  stop() {
+    if (this.startTimer) clearTimeout(this.startTimer);
+    if (this.dailyTimer) clearInterval(this.dailyTimer);
+    this.startTimer = null;
+    this.dailyTimer = null;
+  }
+
+  /**
+   * Revalue every active receipt and re-check loan LTVs.
+   * Concurrent calls share the run already in progress.
+   */
+  run(): Promise<RevaluationSummary> {
+    if (!this.running) {
+      this.running = this.revalueAll().finally(() => {
+        this.running = null;
+      });
+    }
+    return this.running;
+  }
+
+  /**
+   * Valuation history of a receipt, newest first
+   */
+  async getReceiptHistory(receiptId: number) {
+    const receipt = await storage.getWarehouseReceipt(receiptId);
+    if (!receipt) {
+      throw new Error("Receipt not found");
+    }
+
+    return {
+      receiptId,
+      receiptNumber: receipt.receiptNumber,
+      currentValuation: receipt.valuation,
+      history: await storage.listReceiptValuations(receiptId)
+    };
+  }
+
+  /**
+   * LTV snapshots of a loan, newest first, with the current level
+   */
+  async getLoanLtv(loanId: number) {
+    const loan = await storage.getLoan(loanId);
+    if (!loan) {
+      throw new Error("Loan not found");
+    }
+
+    const snapshots = await storage.listLoanLtvSnapshots(loanId);
+    return {
+      loanId,
+      level: snapshots[0]?.level ?? 'normal',
+      thresholds: LTV_THRESHOLDS,
+      snapshots
+    };
+  }
+
+  /**
+   * LTV level for a loan-to-value percentage
+   */
+  levelFor(ltv: number): LtvLevel {
+    if (ltv >= LTV_THRESHOLDS.liquidation) return 'liquidation';
+    if (ltv >= LTV_THRESHOLDS.margin_call) return 'margin_call';
+    if (ltv >= LTV_THRESHOLDS.warning) return 'warning';
+    return 'normal';
+  }
+
+  private async runScheduled() {
+    try {
+      const summary = await this.run();
+      console.log(
+        `📈 Revalued ${summary.receiptsRevalued} receipts (${summary.receiptsFailed} failed), ` +
+        `${summary.thresholdCrossings.length} LTV threshold crossings`
+      );
+    } catch (error) {
+      console.error('Scheduled revaluation failed:', error);
+    }
+  }
+
+  private async revalueAll(): Promise<RevaluationSummary> {
+    const startedAt = new Date();
+    const receipts = (await storage.listWarehouseReceipts())
+      .filter(receipt => REVALUED_STATUSES.includes(receipt.status));
+
+    let receiptsRevalued = 0;
+    let receiptsFailed = 0;
+    const current = new Map<number, WarehouseReceipt>();
+
+    for (const receipt of receipts) {
+      try {
+        current.set(receipt.id, await this.revalueReceipt(receipt));
+        receiptsRevalued++;
+      } catch (error) {
+        receiptsFailed++;
+        current.set(receipt.id, receipt);
+        console.error(`Failed to revalue receipt ${receipt.receiptNumber}:`, error);
+      }
+    }
+
+    const commoditiesUpdated = await this.updateCommodityValues(Array.from(current.values()));
+
+    const loans = (await storage.listLoans())
+      .filter(loan => MONITORED_LOAN_STATUSES.includes(loan.status));
+    const thresholdCrossings: LtvThresholdEvent[] = [];
+
+    for (const loan of loans) {
+      const crossing = await this.checkLoan(loan, current);
+      if (crossing) {
+        thresholdCrossings.push(crossing);
+      }
+    }
+
+    return {
+      startedAt,
+      completedAt: new Date(),
+      receiptsRevalued,
+      receiptsFailed,
+      commoditiesUpdated,
+      loansChecked: loans.length,
+      thresholdCrossings
+    };
+  }
+
+  private async revalueReceipt(receipt: WarehouseReceipt): Promise<WarehouseReceipt> {
+    const valuation = await priceFeedService.valueReceipt(receipt);
+    const value = valuation.totalValue.toFixed(2);
+
+    await storage.createReceiptValuation({
+      receiptId: receipt.id,
+      valuation: value,
+      previousValuation: receipt.valuation,
+      pricePerUnit: valuation.pricePerUnit.toFixed(2),
+      deductionPercent: valuation.deductionPercent.toFixed(2),
+      priceScope: valuation.quote.scope,
+      priceSource: valuation.quote.source,
+      priceDate: valuation.quote.priceDate
+    });
+
+    if (receipt.valuation === value) {
+      return receipt;
+    }
+
+    const updated = await storage.updateWarehouseReceipt(receipt.id, { valuation: value });
+    return updated ?? { ...receipt, valuation: value };
+  }
+
+  /**
+   * Market value of a commodity lot is the sum of its live receipts
+   */
+  private async updateCommodityValues(receipts: WarehouseReceipt[]): Promise<number> {
+    const totals = new Map<number, number>();
+    for (const receipt of receipts) {
+      if (!receipt.commodityId) continue;
+      totals.set(receipt.commodityId, (totals.get(receipt.commodityId) || 0) + parseFloat(receipt.valuation || "0"));
+    }
+
+    let updated = 0;
+    for (const [commodityId, total] of Array.from(totals.entries())) {
+      const commodity = await storage.updateCommodity(commodityId, { marketValue: total.toFixed(2) });
+      if (commodity) updated++;
+    }
+    return updated;
+  }
+
+  /**
+   * Current LTV of a loan from the stored valuations of its collateral
+   * @param loan The loan to measure
+   * @param receipts Receipts already loaded in this run, by id
+   */
+  async measureLtv(loan: Loan, receipts: Map<number, WarehouseReceipt> = new Map()) {
+    let collateralValue = 0;
+    for (const receiptId of this.collateralIds(loan)) {
+      const receipt = receipts.get(receiptId) ?? await storage.getWarehouseReceipt(receiptId);
+      collateralValue += parseFloat(receipt?.valuation || "0");
+    }
+
+    const outstandingAmount = parseFloat(loan.outstandingAmount ?? loan.amount);
+    const ltv = collateralValue > 0 ? (outstandingAmount / collateralValue) * 100 : outstandingAmount > 0 ? 999.99 : 0;
+    return { collateralValue, outstandingAmount, ltv };
+  }
+
+  private async checkLoan(loan: Loan, receipts: Map<number, WarehouseReceipt>): Promise<LtvThresholdEvent | null> {
+    const { collateralValue, outstandingAmount, ltv } = await this.measureLtv(loan, receipts);
+    const level = this.levelFor(ltv);
+
+    const [previous] = await storage.listLoanLtvSnapshots(loan.id);
+    const previousLevel: LtvLevel = previous?.level ?? 'normal';
+
+    await storage.createLoanLtvSnapshot({
+      loanId: loan.id,
+      collateralValue: collateralValue.toFixed(2),
+      outstandingAmount: outstandingAmount.toFixed(2),
+      ltv: Math.min(ltv, 999.99).toFixed(2),
+      level
+    });
+
+    if (level === previousLevel) {
+      return null;
+    }
+
+    const event: LtvThresholdEvent = {
+      loanId: loan.id,
+      userId: loan.userId,
+      previousLevel,
+      level,
+      ltv: Math.round(ltv * 100) / 100,
+      collateralValue,
+      outstandingAmount,
+      direction: LEVEL_ORDER.indexOf(level) > LEVEL_ORDER.indexOf(previousLevel) ? 'up' : 'down'
+    };
+
+    this.ltvEvents.emit('ltv_threshold_crossed', event);
+    if (loan.userId) {
+      BroadcastService.broadcastLoanUpdate(loan.userId, loan.id, { type: 'ltv_threshold_crossed', ...event });
+    }
+
+    return event;
+  }
+
+  private collateralIds(loan: Loan): number[] {
+    const raw = typeof loan.collateralReceiptIds === "string"
+      ? JSON.parse(loan.collateralReceiptIds)
+      : loan.collateralReceiptIds;
+    return Array.isArray(raw) ? raw.map(Number) : [];
+  }
+}
+
+export const revaluationService = new RevaluationService();
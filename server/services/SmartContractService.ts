@@ -1,144 +1,601 @@
-
+import crypto from "crypto";
+import { EventEmitter } from "events";
 import { storage } from "../storage";
-import { generateHash } from "./BlockchainService";
-
-interface SmartContract {
-  id: string;
-  type: 'lien' | 'loan' | 'escrow' | 'transfer';
-  status: 'active' | 'executed' | 'expired' | 'cancelled';
-  conditions: any;
-  parties: string[];
-  createdAt: string;
-  executedAt?: string;
+import { lienService } from "./LienService";
+import { auditLedgerService } from "./AuditLedgerService";
+import { revaluationService } from "./RevaluationService";
+import { loanAccountingService } from "./LoanAccountingService";
+import { paymentService, PaymentMethod } from "./PaymentService";
+import { REJECTED_GRADE, UNGRADED } from "./QualityGradingService";
+import { receiptState } from "@shared/auditProof";
+import type {
+  ConditionResult,
+  ContractCondition,
+  InsertSmartContract,
+  LoanInstalment,
+  SmartContract,
+  SmartContractStatus,
+  User
+} from "@shared/schema";
+
+// How often active contracts are evaluated
+const EVALUATION_INTERVAL_MS = parseInt(process.env.CONTRACT_EVALUATION_SECONDS || '60', 10) * 1000;
+
+// Contracts are identified by a random 32-byte id
+const newContractId = () => `0x${crypto.randomBytes(32).toString('hex')}`;
+
+const isOpen = (instalment: LoanInstalment) =>
+  instalment.status !== 'paid' && instalment.status !== 'rescheduled';
+
+const round2 = (value: number) => Math.round(value * 100) / 100;
+
+/**
+ * What each contract type acts on once its condition is met
+ */
+export interface LienTerms {
+  loanId: number;
+  receiptIds: number[];
+  amount: string;
+}
+
+export interface RepaymentTerms {
+  loanId: number;
+  userId: number;
+  instalmentId: number;       // The instalment the current condition waits on
 }
 
-const contracts = new Map<string, SmartContract>();
+export interface EscrowTerms {
+  commodityId: number | null;  // Commodity handed to the buyer, if any
+  receiptId: number | null;    // Receipt delivered to the buyer, if any
+  sellerId: number;
+  buyerId: number;
+  amount: string;
+  paymentId: string | null;    // Buyer's payment held in escrow
+  tradeId?: number;            // Spot trade the escrow settles
+}
 
+/**
+ * Smart contract engine.
+ * Contracts are persisted with a declarative condition (dates, payments, quality
+ * grades, LTV) that the scheduler evaluates on an interval; a contract executes only
+ * once its condition is met, and expires if it is still unmet at its expiry date.
+ * Repayment contracts re-arm on the next instalment until the loan is repaid;
+ * escrows deliver against payment when executed and refund the buyer otherwise.
+ * Every state transition is appended to the audit ledger, and listeners on
+ * `contractEvents` receive a 'contract_transition' event for each.
+ */
 export class SmartContractService {
-  // Create lien enforcement contract
-  static async createLienContract(loanId: number, receiptIds: number[], amount: string): Promise<string> {
-    const contractId = generateHash();
-    
-    contracts.set(contractId, {
-      id: contractId,
+  readonly contractEvents = new EventEmitter();
+
+  private evaluationTimer: NodeJS.Timeout | null = null;
+  private running = false;
+  private queue: Promise<unknown> = Promise.resolve();
+
+  /**
+   * Evaluate active contracts on an interval
+   */
+  start() {
+    if (this.evaluationTimer) return;
+    this.evaluationTimer = setInterval(() => {
+      this.runDue().catch(error => console.error('Smart contract evaluation failed:', error));
+    }, EVALUATION_INTERVAL_MS);
+    this.evaluationTimer.unref?.();
+  }
+
+  /**
+   * Cancel scheduled evaluation
+   */
+  stop() {
+    if (this.evaluationTimer) clearInterval(this.evaluationTimer);
+    this.evaluationTimer = null;
+  }
+
+  /**
+   * Create a lien enforcement contract that executes once the loan's LTV reaches a threshold
+   * @param loanId The secured loan
+   * @param receiptIds Receipts pledged for it
+   * @param amount Amount the liens secure
+   * @param threshold LTV in percent at which the liens are enforced
+   * @returns The contract id
+   */
+  async createLienContract(loanId: number, receiptIds: number[], amount: string, threshold: number): Promise<string> {
+    const loan = await this.requireLoan(loanId);
+    const terms: LienTerms = { loanId, receiptIds, amount };
+    const contract = await this.create({
       type: 'lien',
-      status: 'active',
-      conditions: {
-        loanId,
-        receiptIds,
-        amount,
-        triggerConditions: {
-          defaultDays: 30,
-          graceAmount: amount
-        }
-      },
-      parties: receiptIds.map(id => id.toString()),
-      createdAt: new Date().toISOString()
+      condition: { type: 'ltv_breached', loanId, threshold },
+      terms,
+      parties: [loan.userId!],
+      loanId
     });
-
-    return contractId;
+    return contract.contractId;
   }
 
-  // Create self-executing loan repayment contract
-  static async createRepaymentContract(
-    loanId: number, 
-    amount: string,
-    schedule: { date: string; amount: string }[]
-  ): Promise<string> {
-    const contractId = generateHash();
-    
-    contracts.set(contractId, {
-      id: contractId,
+  /**
+   * Create a self-executing repayment contract that collects each instalment on its due date
+   * @param loanId The loan to repay
+   * @param userId The borrower authorising collection
+   * @returns The contract id
+   */
+  async createRepaymentContract(loanId: number, userId: number): Promise<string> {
+    const loan = await this.requireLoan(loanId);
+    if (loan.userId !== userId) {
+      throw new Error("Not authorized to set up repayment for this loan");
+    }
+    if (loan.status !== 'active') {
+      throw new Error("Only active loans can be repaid automatically");
+    }
+
+    const existing = await storage.listSmartContractsByLoan(loanId);
+    if (existing.some(contract => contract.type === 'loan' && contract.status === 'active')) {
+      throw new Error("Automatic repayment is already set up for this loan");
+    }
+
+    const next = await this.nextOpenInstalment(loanId);
+    if (!next) {
+      throw new Error("The loan has no instalments left to collect");
+    }
+
+    const terms: RepaymentTerms = { loanId, userId, instalmentId: next.id };
+    const contract = await this.create({
       type: 'loan',
-      status: 'active',
-      conditions: {
-        loanId,
-        totalAmount: amount,
-        schedule,
-        executionTrigger: 'scheduled'
-      },
-      parties: [loanId.toString()],
-      createdAt: new Date().toISOString()
+      condition: { type: 'date_passed', date: next.dueDate.toISOString() },
+      terms,
+      parties: [userId],
+      loanId
     });
+    return contract.contractId;
+  }
 
-    return contractId;
-  }
-
-  // Create escrow contract for commodity transfers
-  static async createEscrowContract(
-    commodityId: number,
-    sellerId: number,
-    buyerId: number,
-    amount: string,
-    conditions: any
-  ): Promise<string> {
-    const contractId = generateHash();
-    
-    contracts.set(contractId, {
-      id: contractId,
+  /**
+   * Create an escrow contract that delivers goods to the buyer against the held payment
+   * once its condition is met, and refunds the buyer if it expires, fails or is cancelled
+   * @param terms What is delivered, to whom, and the payment held for it
+   * @param condition When the escrow releases
+   * @param expiresAt When an unmet escrow lapses
+   * @returns The contract id
+   */
+  async createEscrowContract(terms: EscrowTerms, condition: ContractCondition, expiresAt?: Date): Promise<string> {
+    const contract = await this.create({
       type: 'escrow',
-      status: 'active',
-      conditions: {
-        commodityId,
-        sellerId,
-        buyerId,
-        amount,
-        releaseConditions: conditions
-      },
-      parties: [sellerId.toString(), buyerId.toString()],
-      createdAt: new Date().toISOString()
+      condition,
+      terms,
+      parties: [terms.sellerId, terms.buyerId],
+      expiresAt: expiresAt ?? null
     });
+    return contract.contractId;
+  }
+
+  /**
+   * Evaluate a condition against current platform state
+   * @param condition The condition tree
+   * @param now The time to evaluate date conditions at
+   * @param approvals Users who have approved the contract
+   */
+  async evaluate(condition: ContractCondition, now: Date = new Date(), approvals: number[] = []): Promise<ConditionResult> {
+    switch (condition.type) {
+      case 'date_passed': {
+        const date = new Date(condition.date);
+        return { type: condition.type, met: now >= date, detail: `Due ${date.toISOString()}` };
+      }
 
-    return contractId;
-  }
-
-  // Execute contract based on conditions
-  static async executeContract(contractId: string): Promise<boolean> {
-    const contract = contracts.get(contractId);
-    if (!contract) return false;
-
-    switch (contract.type) {
-      case 'lien':
-        // Implement lien enforcement logic
-        await this.enforceLien(contract);
-        break;
-      case 'loan':
-        // Implement automatic loan repayment
-        await this.executeRepayment(contract);
-        break;
-      case 'escrow':
-        // Implement escrow release
-        await this.releaseEscrow(contract);
-        break;
-    }
-
-    contract.status = 'executed';
-    contract.executedAt = new Date().toISOString();
-    contracts.set(contractId, contract);
-    
+      case 'payment_received': {
+        const loan = await storage.getLoan(condition.loanId);
+        if (!loan) {
+          return { type: condition.type, met: false, detail: `Loan ${condition.loanId} not found` };
+        }
+        if (!condition.amount) {
+          return { type: condition.type, met: loan.status === 'repaid', detail: `Loan is ${loan.status}` };
+        }
+        const since = condition.since ? new Date(condition.since) : null;
+        const received = (await storage.listLoanRepaymentsByLoan(condition.loanId))
+          .filter(repayment => repayment.status === 'completed')
+          .filter(repayment => !since || (repayment.transactionDate && repayment.transactionDate >= since))
+          .reduce((sum, repayment) => sum + parseFloat(repayment.amount), 0);
+        return {
+          type: condition.type,
+          met: received + 0.005 >= parseFloat(condition.amount),
+          detail: `Received ${received.toFixed(2)} of ${condition.amount}`
+        };
+      }
+
+      case 'quality_confirmed': {
+        const receipt = await storage.getWarehouseReceipt(condition.receiptId);
+        if (!receipt) {
+          return { type: condition.type, met: false, detail: `Receipt ${condition.receiptId} not found` };
+        }
+        // Receipts carry the grade label, e.g. "Grade A"
+        const grade = receiptState(receipt).qualityGrade?.replace(/^Grade /, '') || null;
+        const passing = !!grade && grade !== REJECTED_GRADE && grade !== UNGRADED;
+        const met = passing && (!condition.grades?.length || condition.grades.includes(grade!));
+        return { type: condition.type, met, detail: grade ? `Graded ${grade}` : 'Not graded yet' };
+      }
+
+      case 'ltv_breached': {
+        const loan = await storage.getLoan(condition.loanId);
+        if (!loan) {
+          return { type: condition.type, met: false, detail: `Loan ${condition.loanId} not found` };
+        }
+        const { ltv } = await revaluationService.measureLtv(loan);
+        return {
+          type: condition.type,
+          met: ltv >= condition.threshold,
+          detail: `LTV ${ltv.toFixed(2)}% against ${condition.threshold}%`
+        };
+      }
+
+      case 'approved': {
+        const met = approvals.includes(condition.userId);
+        return { type: condition.type, met, detail: `User ${condition.userId} ${met ? 'approved' : 'has not approved'}` };
+      }
+
+      case 'all':
+      case 'any': {
+        const children = await Promise.all(condition.conditions.map(child => this.evaluate(child, now, approvals)));
+        const met = condition.type === 'all' ? children.every(child => child.met) : children.some(child => child.met);
+        return { type: condition.type, met, children };
+      }
+
+      case 'not': {
+        const child = await this.evaluate(condition.condition, now, approvals);
+        return { type: condition.type, met: !child.met, children: [child] };
+      }
+    }
+  }
+
+  /**
+   * Evaluate a contract and execute it if its condition is met.
+   * Executions, approvals and cancellations run one at a time, so the scheduler and a
+   * party approving cannot both act on the same contract.
+   * @param contractId The contract's id
+   * @returns Whether the contract acted
+   */
+  async executeContract(contractId: string): Promise<boolean> {
+    return this.exclusive(() => this.execute(contractId));
+  }
+
+  private async execute(contractId: string): Promise<boolean> {
+    const contract = await this.requireContract(contractId);
+    if (contract.status !== 'active') return false;
+
+    const now = new Date();
+    const result = await this.evaluate(contract.condition as ContractCondition, now, contract.approvals as number[]);
+    await storage.updateSmartContract(contract.id, { lastEvaluation: result, lastEvaluatedAt: now });
+
+    if (!result.met) {
+      if (contract.expiresAt && contract.expiresAt <= now) {
+        await this.transition(contract, 'expired', {}, { evaluation: result });
+      }
+      return false;
+    }
+
+    let outcome: Record<string, unknown> = {};
+    try {
+      switch (contract.type) {
+        case 'lien':
+          await this.enforceLien(contract);
+          break;
+        case 'loan':
+          await this.executeRepayment(contract);
+          return true;
+        case 'escrow':
+          outcome = await this.releaseEscrow(contract);
+          break;
+      }
+    } catch (error) {
+      const reason = error instanceof Error ? error.message : String(error);
+      await this.transition(contract, 'failed', { failureReason: reason }, { evaluation: result, reason });
+      return false;
+    }
+
+    await this.transition(contract, 'executed', { executedAt: now }, { ...outcome, evaluation: result });
     return true;
   }
 
-  private static async enforceLien(contract: SmartContract): Promise<void> {
-    const { loanId, receiptIds } = contract.conditions;
-    // Implement lien enforcement logic here
+  /**
+   * Evaluate every active contract, executing or expiring those that are due
+   */
+  async runDue() {
+    if (this.running) return { evaluated: 0, executed: 0 };
+    this.running = true;
+    try {
+      let evaluated = 0;
+      let executed = 0;
+      for (const contract of await storage.listSmartContractsByStatus('active')) {
+        try {
+          evaluated++;
+          if (await this.executeContract(contract.contractId)) executed++;
+        } catch (error) {
+          console.error(`Failed to evaluate smart contract ${contract.contractId}:`, error);
+        }
+      }
+      return { evaluated, executed };
+    } finally {
+      this.running = false;
+    }
+  }
+
+  /**
+   * Record a party's approval and execute the contract if that meets its condition
+   * @param contractId The contract's id
+   * @param user A party to the contract
+   */
+  async approve(contractId: string, user: User) {
+    return this.exclusive(async () => {
+      const contract = await this.requireContract(contractId);
+      if (!(contract.parties as number[]).includes(user.id)) {
+        throw new Error("Not authorized to approve this contract");
+      }
+      if (contract.status !== 'active') {
+        throw new Error(`Contract is already ${contract.status}`);
+      }
+
+      const approvals = contract.approvals as number[];
+      if (!approvals.includes(user.id)) {
+        await this.record(contract, 'approved', { approvals: [...approvals, user.id] }, { approvedBy: user.id });
+      }
+      await this.execute(contractId);
+      return this.requireContract(contractId);
+    });
+  }
+
+  /**
+   * Cancel an active contract. Parties may stop their own automatic repayment or call
+   * off an escrow, which refunds the buyer; lien contracts only an admin may cancel.
+   * @param contractId The contract's id
+   * @param user A party to a repayment or escrow contract, or an admin
+   * @param reason Why it was cancelled
+   */
+  async cancel(contractId: string, user: User, reason: string) {
+    return this.exclusive(async () => {
+      const contract = await this.requireContract(contractId);
+      this.assertParty(contract, user);
+      if (user.role !== 'admin' && contract.type === 'lien') {
+        throw new Error("Not authorized to cancel this contract");
+      }
+      if (contract.status !== 'active') {
+        throw new Error(`Contract is already ${contract.status}`);
+      }
+      return this.transition(contract, 'cancelled', {}, { reason, cancelledBy: user.id });
+    });
+  }
+
+  /**
+   * Contracts a user is party to; admins see every contract
+   */
+  async listForUser(user: User) {
+    const contracts = await storage.listSmartContracts();
+    return user.role === 'admin'
+      ? contracts
+      : contracts.filter(contract => (contract.parties as number[]).includes(user.id));
+  }
+
+  /**
+   * A contract with its audit trail
+   * @param contractId The contract's id
+   * @param user A party to the contract or an admin
+   */
+  async get(contractId: string, user: User) {
+    const contract = await this.requireContract(contractId);
+    this.assertParty(contract, user);
+    const history = await auditLedgerService.listEntityEntries('contract', contract.id);
+    return { ...contract, history };
+  }
+
+  /**
+   * Evaluate a contract's condition without acting on it
+   * @param contractId The contract's id
+   * @param user A party to the contract or an admin
+   */
+  async preview(contractId: string, user: User) {
+    const contract = await this.requireContract(contractId);
+    this.assertParty(contract, user);
+    return this.evaluate(contract.condition as ContractCondition, new Date(), contract.approvals as number[]);
+  }
+
+  private async enforceLien(contract: SmartContract): Promise<void> {
+    const { loanId, receiptIds } = contract.terms as LienTerms;
+    // The registered liens now hold the stock for the lender's recovery
     for (const receiptId of receiptIds) {
-      await storage.updateWarehouseReceipt(receiptId, {
-        status: 'collateralized',
-        liens: { loanId, enforcementDate: new Date().toISOString() }
+      await storage.updateWarehouseReceipt(receiptId, { status: 'collateralized' });
+    }
+    await lienService.markEnforcing(loanId);
+  }
+
+  /**
+   * Collect everything due on the loan, then re-arm on the next instalment or finish
+   */
+  private async executeRepayment(contract: SmartContract): Promise<void> {
+    const terms = contract.terms as RepaymentTerms;
+    const loan = await this.requireLoan(terms.loanId);
+
+    let collected = 0;
+    if (loan.status === 'active') {
+      const now = new Date();
+      const due = (await storage.listLoanInstalments(terms.loanId))
+        .filter(instalment => isOpen(instalment) && instalment.dueDate <= now)
+        .reduce((sum, instalment) =>
+          sum + parseFloat(instalment.principalDue) + parseFloat(instalment.interestDue)
+            + parseFloat(instalment.penalAccrued) - parseFloat(instalment.amountPaid), 0);
+      const { payoffAmount } = await loanAccountingService.payoffQuote(terms.loanId);
+      collected = round2(Math.min(due, payoffAmount));
+
+      if (collected > 0) {
+        await paymentService.processLoanRepayment(
+          terms.userId,
+          terms.loanId,
+          collected.toFixed(2),
+          PaymentMethod.BANK_TRANSFER
+        );
+      }
+    }
+
+    const updatedLoan = await this.requireLoan(terms.loanId);
+    const next = updatedLoan.status === 'active' ? await this.nextOpenInstalment(terms.loanId) : undefined;
+    if (!next) {
+      await this.transition(contract, 'executed', { executedAt: new Date() }, {
+        collected: collected.toFixed(2),
+        loanStatus: updatedLoan.status
       });
+      return;
     }
+
+    const condition: ContractCondition = { type: 'date_passed', date: next.dueDate.toISOString() };
+    await this.record(contract, 'collected', {
+      terms: { ...terms, instalmentId: next.id },
+      condition
+    }, { collected: collected.toFixed(2), nextDueDate: condition.date });
   }
 
-  private static async executeRepayment(contract: SmartContract): Promise<void> {
-    // Implement automatic repayment logic
-    const { loanId, schedule } = contract.conditions;
-    // Add your payment processing logic here
+  /**
+   * Delivery versus payment: the receipt and commodity move to the buyer and the held
+   * payment to the seller in one execution. Every check runs before anything moves, so
+   * a receipt that can no longer be delivered fails the contract and refunds the buyer.
+   */
+  private async releaseEscrow(contract: SmartContract): Promise<Record<string, unknown>> {
+    const terms = contract.terms as EscrowTerms;
+
+    const receipt = terms.receiptId ? await storage.getWarehouseReceipt(terms.receiptId) : undefined;
+    if (terms.receiptId) {
+      if (!receipt) {
+        throw new Error("Receipt not found");
+      }
+      if (receipt.ownerId !== terms.sellerId) {
+        throw new Error("The seller no longer holds this receipt");
+      }
+      if (receipt.isFrozen) {
+        throw new Error("Receipt is frozen while a dispute is open");
+      }
+      if (receipt.status !== 'active') {
+        throw new Error(`Receipt cannot be transferred in '${receipt.status}' status`);
+      }
+      if (await lienService.isEncumbered(receipt.id)) {
+        throw new Error("Receipt is under a lien");
+      }
+    }
+
+    let transferId: number | null = null;
+    if (receipt) {
+      const transfer = await auditLedgerService.recordTransfer({
+        receiptId: receipt.id,
+        fromUserId: terms.sellerId,
+        toUserId: terms.buyerId,
+        transferType: 'ownership',
+        metadata: { contractId: contract.contractId, tradeId: terms.tradeId ?? null, amount: terms.amount }
+      });
+      transferId = transfer.id;
+      await storage.updateWarehouseReceipt(receipt.id, { ownerId: terms.buyerId });
+    }
+    if (terms.commodityId) {
+      await storage.updateCommodity(terms.commodityId, { ownerId: terms.buyerId });
+    }
+
+    // The goods have been delivered, so a failed release is left for reconciliation instead of refunding the buyer
+    let releaseError: string | null = null;
+    if (terms.paymentId) {
+      try {
+        await paymentService.releaseEscrowPayment(
+          terms.paymentId,
+          terms.sellerId,
+          terms.amount,
+          contract.contractId,
+          receipt ? [receipt.id] : []
+        );
+      } catch (error) {
+        console.error(`Failed to release escrow payment ${terms.paymentId}:`, error);
+        releaseError = error instanceof Error ? error.message : String(error);
+      }
+    }
+
+    return { transferId, releaseError };
+  }
+
+  /**
+   * Return a lapsed or called-off escrow's held payment to the buyer
+   */
+  private async refundEscrow(contract: SmartContract) {
+    const terms = contract.terms as EscrowTerms;
+    if (terms.paymentId) {
+      await paymentService.refundEscrowPayment(terms.paymentId, terms.buyerId, terms.amount, contract.contractId);
+    }
+  }
+
+  private async create(contract: Omit<InsertSmartContract, 'contractId' | 'status'>) {
+    const created = await storage.createSmartContract({ ...contract, contractId: newContractId(), status: 'active' });
+    await this.log(created, 'created', { condition: created.condition, terms: created.terms });
+    return created;
+  }
+
+  /**
+   * Move a contract to a new status and record the transition
+   */
+  private exclusive<T>(task: () => Promise<T>): Promise<T> {
+    const run = this.queue.then(task, task);
+    this.queue = run.catch(() => undefined);
+    return run;
+  }
+
+  private async transition(
+    contract: SmartContract,
+    status: Exclude<SmartContractStatus, 'active'>,
+    changes: Partial<InsertSmartContract>,
+    detail: Record<string, unknown>
+  ) {
+    if (contract.type === 'escrow' && status !== 'executed') {
+      await this.refundEscrow(contract);
+    }
+    return this.record(contract, status, { ...changes, status }, detail);
+  }
+
+  private async record(
+    contract: SmartContract,
+    action: string,
+    changes: Partial<InsertSmartContract>,
+    detail: Record<string, unknown>
+  ) {
+    const updated = await storage.updateSmartContract(contract.id, changes);
+    await this.log(updated!, action, detail);
+    this.contractEvents.emit('contract_transition', updated!, action, detail);
+    return updated!;
   }
 
-  private static async releaseEscrow(contract: SmartContract): Promise<void> {
-    const { commodityId, buyerId } = contract.conditions;
-    // Transfer ownership once conditions are met
-    await storage.updateCommodity(commodityId, { ownerId: buyerId });
+  private async log(contract: SmartContract, action: string, detail: Record<string, unknown>) {
+    await auditLedgerService.append('contract', contract.id, action, {
+      ...detail,
+      contractId: contract.contractId,
+      type: contract.type,
+      status: contract.status
+    });
+  }
+
+  private async nextOpenInstalment(loanId: number) {
+    return (await storage.listLoanInstalments(loanId))
+      .filter(isOpen)
+      .sort((a, b) => a.dueDate.getTime() - b.dueDate.getTime())[0];
+  }
+
+  private assertParty(contract: SmartContract, user: User) {
+    if (user.role !== 'admin' && !(contract.parties as number[]).includes(user.id)) {
+      throw new Error("Not authorized to access this contract");
+    }
+  }
+
+  private async requireContract(contractId: string) {
+    const contract = await storage.getSmartContractByContractId(contractId);
+    if (!contract) {
+      throw new Error("Contract not found");
+    }
+    return contract;
+  }
+
+  private async requireLoan(loanId: number) {
+    const loan = await storage.getLoan(loanId);
+    if (!loan) {
+      throw new Error("Loan not found");
+    }
+    return loan;
   }
 }
+
+// Export singleton instance
+export const smartContractService = new SmartContractService();
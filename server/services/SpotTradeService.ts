@@ -0,0 +1,303 @@
+import { storage } from "../storage";
+import BroadcastService from "./BroadcastService";
+import { lienService } from "./LienService";
+import { kycService } from "./KycService";
+import { paymentService, PaymentMethod } from "./PaymentService";
+import { smartContractService, type EscrowTerms } from "./SmartContractService";
+import type { SmartContract, SpotTrade, SpotTradeStatus, User, WarehouseReceipt } from "@shared/schema";
+
+// How long an offer stays open when the buyer does not set a shorter time
+const OFFER_HOURS = parseInt(process.env.SPOT_TRADE_OFFER_HOURS || '48', 10);
+
+// What each closing escrow transition means for the trade
+const CLOSED_BY: Partial<Record<SmartContract['status'], SpotTradeStatus>> = {
+  executed: 'settled',
+  expired: 'expired',
+  failed: 'failed'
+};
+
+export interface SpotTradeOfferOptions {
+  expiresInHours?: number;
+  note?: string;
+  paymentMethod?: PaymentMethod;
+}
+
+/**
+ * Spot trades of negotiable receipts, settled delivery versus payment.
+ * A buyer offers a price on a receipt and pays it into escrow at once. Each offer is
+ * an escrow smart contract whose condition is the seller's approval: accepting moves
+ * the receipt to the buyer and the funds to the seller in the same execution. Offers
+ * the seller rejects, the buyer withdraws, or that lapse unanswered are refunded;
+ * lapsed offers are picked up by the smart contract scheduler.
+ */
+export class SpotTradeService {
+  private queue: Promise<unknown> = Promise.resolve();
+
+  constructor() {
+    smartContractService.contractEvents.on('contract_transition', (contract: SmartContract, action: string, detail: Record<string, unknown>) => {
+      this.syncFromContract(contract, detail).catch(error => {
+        console.error(`Failed to update spot trade for contract ${contract.contractId}:`, error);
+      });
+    });
+  }
+
+  /**
+   * Offer a price on a receipt and hold the payment in escrow
+   * @param buyerId The buying user
+   * @param receiptId The receipt to buy
+   * @param price Price offered for the whole receipt
+   * @param options How long the offer stays open, a note for the seller and how the buyer pays
+   */
+  async offer(buyerId: number, receiptId: number, price: string, options: SpotTradeOfferOptions = {}) {
+    const receipt = await storage.getWarehouseReceipt(receiptId);
+    if (!receipt) {
+      throw new Error("Receipt not found");
+    }
+    if (receipt.ownerId === buyerId) {
+      throw new Error("You already hold this receipt");
+    }
+    await this.assertTradable(receipt);
+
+    const open = (await storage.listSpotTradesByReceipt(receiptId))
+      .filter(trade => trade.status === 'offered' && trade.buyerId === buyerId);
+    if (open.length > 0) {
+      throw new Error("You already have an open offer on this receipt");
+    }
+
+    // The goods bought count towards the buyer's deposit limit
+    await kycService.assertWithinLimit(buyerId, 'deposit', parseFloat(receipt.valuation || price));
+
+    const hours = Math.min(options.expiresInHours ?? OFFER_HOURS, OFFER_HOURS);
+    const expiresAt = new Date(Date.now() + hours * 60 * 60 * 1000);
+    const { payment, success } = await paymentService.processEscrowPayment(
+      buyerId,
+      price,
+      `Escrow for receipt ${receipt.receiptNumber}`,
+      options.paymentMethod
+    );
+    if (!success) {
+      throw new Error("Escrow payment failed");
+    }
+
+    // Until its escrow contract exists nothing would ever refund the payment, so hand it back here
+    let trade: SpotTrade | undefined;
+    let contractId: string;
+    try {
+      trade = await storage.createSpotTrade({
+        receiptId,
+        sellerId: receipt.ownerId!,
+        buyerId,
+        price,
+        status: 'offered',
+        paymentId: payment.id,
+        note: options.note || null,
+        expiresAt
+      });
+
+      const terms: EscrowTerms = {
+        commodityId: null,
+        receiptId,
+        sellerId: receipt.ownerId!,
+        buyerId,
+        amount: price,
+        paymentId: payment.id,
+        tradeId: trade.id
+      };
+      contractId = await smartContractService.createEscrowContract(
+        terms,
+        { type: 'approved', userId: receipt.ownerId! },
+        expiresAt
+      );
+    } catch (error) {
+      await paymentService.refundEscrowPayment(payment.id, buyerId, price, null);
+      if (trade) {
+        await storage.updateSpotTrade(trade.id, {
+          status: 'failed',
+          failureReason: error instanceof Error ? error.message : String(error),
+          closedAt: new Date()
+        });
+      }
+      throw error;
+    }
+    const offered = await storage.updateSpotTrade(trade.id, { contractId });
+
+    BroadcastService.broadcastReceiptUpdate(receipt.ownerId!, receiptId, {
+      type: 'trade_offer_received',
+      tradeId: trade.id,
+      price,
+      expiresAt
+    });
+
+    return offered!;
+  }
+
+  /**
+   * Accept an offer: the receipt and the escrowed payment change hands together
+   * @param tradeId The open offer
+   * @param user The seller
+   * @param note Optional response note
+   */
+  async accept(tradeId: number, user: User, note?: string) {
+    const trade = await this.requireOpen(tradeId);
+    if (trade.sellerId !== user.id) {
+      throw new Error("Not authorized to accept this offer");
+    }
+    if (trade.expiresAt <= new Date()) {
+      // Lapse it now rather than at the next scheduled run, which refunds the buyer
+      await smartContractService.executeContract(trade.contractId!);
+      throw new Error("Offer has expired");
+    }
+
+    await storage.updateSpotTrade(trade.id, { responseNote: note || null });
+    const contract = await smartContractService.approve(trade.contractId!, user);
+    return this.syncFromContract(contract);
+  }
+
+  /**
+   * Turn an offer down and refund the buyer
+   * @param tradeId The open offer
+   * @param user The seller
+   * @param note Why the offer was refused
+   */
+  async reject(tradeId: number, user: User, note?: string) {
+    const trade = await this.requireOpen(tradeId);
+    if (trade.sellerId !== user.id) {
+      throw new Error("Not authorized to reject this offer");
+    }
+
+    await storage.updateSpotTrade(trade.id, { responseNote: note || null });
+    const contract = await smartContractService.cancel(trade.contractId!, user, note || 'Rejected by the seller');
+    return this.syncFromContract(contract, { cancelledBy: user.id });
+  }
+
+  /**
+   * Withdraw an offer and take the escrowed payment back
+   * @param tradeId The open offer
+   * @param user The buyer
+   */
+  async withdraw(tradeId: number, user: User) {
+    const trade = await this.requireOpen(tradeId);
+    if (trade.buyerId !== user.id) {
+      throw new Error("Not authorized to withdraw this offer");
+    }
+
+    const contract = await smartContractService.cancel(trade.contractId!, user, 'Withdrawn by the buyer');
+    return this.syncFromContract(contract, { cancelledBy: user.id });
+  }
+
+  /**
+   * Trades a user is buying or selling in, newest first
+   */
+  async listForUser(userId: number) {
+    return storage.listSpotTradesByUser(userId);
+  }
+
+  /**
+   * Open offers on a receipt, for its holder
+   * @param receiptId The receipt
+   * @param userId Its holder
+   */
+  async listOffers(receiptId: number, userId: number) {
+    const receipt = await storage.getWarehouseReceipt(receiptId);
+    if (!receipt) {
+      throw new Error("Receipt not found");
+    }
+    if (receipt.ownerId !== userId) {
+      throw new Error("Not authorized to view offers on this receipt");
+    }
+    return (await storage.listSpotTradesByReceipt(receiptId)).filter(trade => trade.status === 'offered');
+  }
+
+  /**
+   * A trade visible to its buyer or seller
+   */
+  async get(tradeId: number, userId: number) {
+    const trade = await this.requireTrade(tradeId);
+    if (trade.buyerId !== userId && trade.sellerId !== userId) {
+      throw new Error("Not authorized to view this trade");
+    }
+    return trade;
+  }
+
+  /**
+   * Close a trade once its escrow contract has executed, lapsed, failed or been cancelled.
+   * Runs one at a time, so the contract event and the caller's own sync close it only once.
+   * @param contract The trade's escrow contract
+   * @param detail Details of the contract's latest transition
+   */
+  private async syncFromContract(contract: SmartContract, detail: Record<string, unknown> = {}): Promise<SpotTrade | undefined> {
+    const tradeId = contract.type === 'escrow' ? (contract.terms as EscrowTerms).tradeId : undefined;
+    if (!tradeId) return undefined;
+    return this.exclusive(() => this.close(tradeId, contract, detail));
+  }
+
+  private async close(tradeId: number, contract: SmartContract, detail: Record<string, unknown>) {
+    const trade = await this.requireTrade(tradeId);
+    if (trade.status !== 'offered' || contract.status === 'active') {
+      return trade;
+    }
+
+    // A cancelled escrow was refused by the seller or withdrawn by the buyer (or an admin)
+    const status = CLOSED_BY[contract.status] ?? (detail.cancelledBy === trade.sellerId ? 'rejected' : 'withdrawn');
+    const transfer = status === 'settled'
+      ? (await storage.listReceiptTransfersByReceipt(trade.receiptId))
+          .find(item => item.metadata?.contractId === contract.contractId)
+      : undefined;
+
+    const closed = await storage.updateSpotTrade(trade.id, {
+      status,
+      transferId: transfer?.id ?? null,
+      failureReason: contract.failureReason,
+      closedAt: new Date()
+    });
+
+    for (const userId of [trade.buyerId, trade.sellerId]) {
+      BroadcastService.broadcastReceiptUpdate(userId, trade.receiptId, {
+        type: `trade_${status}`,
+        tradeId: trade.id,
+        price: trade.price
+      });
+    }
+    return closed;
+  }
+
+  private async assertTradable(receipt: WarehouseReceipt) {
+    if (receipt.receiptType === 'non_negotiable') {
+      throw new Error("Non-negotiable receipts cannot be traded");
+    }
+    if (receipt.isFrozen) {
+      throw new Error("Receipt is frozen while a dispute is open");
+    }
+    if (receipt.status !== 'active') {
+      throw new Error(`Receipt cannot be traded in '${receipt.status}' status`);
+    }
+    if (await lienService.isEncumbered(receipt.id)) {
+      throw new Error("Receipt is under a lien");
+    }
+  }
+
+  private exclusive<T>(task: () => Promise<T>): Promise<T> {
+    const run = this.queue.then(task, task);
+    this.queue = run.catch(() => undefined);
+    return run;
+  }
+
+  private async requireOpen(tradeId: number) {
+    const trade = await this.requireTrade(tradeId);
+    if (trade.status !== 'offered') {
+      throw new Error(`Offer is already ${trade.status}`);
+    }
+    return trade;
+  }
+
+  private async requireTrade(tradeId: number) {
+    const trade = await storage.getSpotTrade(tradeId);
+    if (!trade) {
+      throw new Error("Trade not found");
+    }
+    return trade;
+  }
+}
+
+// Export singleton instance
+export const spotTradeService = new SpotTradeService();
@@ -0,0 +1,581 @@
+import { differenceInCalendarDays, startOfDay } from 'date-fns';
+import path from 'path';
+import { storage } from "../storage";
+import BroadcastService from "./BroadcastService";
+import { receiptService } from "./ReceiptService";
+import type {
+  StorageFeeAccrual,
+  StorageFeeAllocation,
+  StorageInvoice,
+  StorageInvoiceLine,
+  Warehouse,
+  WarehouseReceipt,
+  WarehouseTariff
+} from "@shared/schema";
+
+// Receipts whose goods are still in the warehouse
+const ACCRUING_STATUSES: WarehouseReceipt['status'][] = ['active', 'collateralized', 'processing'];
+
+// Metric tonnes per receipt measurement unit
+const MT_PER_UNIT: Record<string, number> = { MT: 1, quintal: 0.1, kg: 0.001, KG: 0.001 };
+
+// SAC 996729: other storage and warehousing services; 996719: other cargo handling services
+const SAC_STORAGE = '996729';
+const SAC_HANDLING = '996719';
+
+const DAILY_RUN_MS = 24 * 60 * 60 * 1000;
+
+const round2 = (value: number) => Math.round(value * 100) / 100;
+
+export interface TariffInput {
+  commodity?: string | null;
+  ratePerMtPerDay: number;
+  handlingChargePerMt?: number;
+  insurancePercentPerYear?: number;
+  gstPercent?: number;
+}
+
+export interface StorageDues {
+  receiptId: number;
+  invoices: Array<StorageInvoice & { outstanding: number }>;
+  total: number;
+}
+
+/**
+ * Service for warehouse storage fees.
+ * Each warehouse publishes tariff cards (rate per MT per day, one-off handling and
+ * insurance on the receipt valuation). Fees accrue daily on every receipt still in
+ * the warehouse and are billed monthly as GST tax invoices to the receipt holder.
+ * Goods cannot be withdrawn while invoices are unpaid; on a sale or liquidation the
+ * dues are netted from the proceeds instead.
+ */
+export class StorageFeeService {
+  private timer: NodeJS.Timeout | null = null;
+
+  /**
+   * Accrue fees once a day and raise invoices on the first of each month
+   */
+  start() {
+    if (this.timer) return;
+    this.timer = setInterval(() => {
+      this.runDaily().catch(error => console.error('Storage fee run failed:', error));
+    }, DAILY_RUN_MS);
+    this.timer.unref?.();
+  }
+
+  /**
+   * Cancel the daily run
+   */
+  stop() {
+    if (this.timer) clearInterval(this.timer);
+    this.timer = null;
+  }
+
+  async runDaily(asOf: Date = new Date()) {
+    const accrued = await this.accrueAll(asOf);
+    const invoiced = asOf.getDate() === 1 ? await this.invoiceAll(asOf) : 0;
+    return { accrued, invoiced };
+  }
+
+  /**
+   * Publish a tariff, replacing the active tariff for the same commodity
+   * @param warehouseId The warehouse
+   * @param userId The warehouse owner, or an admin
+   * @param input Rates of the new tariff
+   */
+  async setTariff(warehouseId: number, userId: number, input: TariffInput) {
+    await this.assertCanManage(warehouseId, userId);
+
+    const commodity = input.commodity?.trim() || null;
+    const previous = (await storage.listWarehouseTariffs(warehouseId))
+      .filter(tariff => tariff.isActive && this.sameCommodity(tariff.commodity, commodity));
+    for (const tariff of previous) {
+      await storage.updateWarehouseTariff(tariff.id, { isActive: false });
+    }
+
+    return storage.createWarehouseTariff({
+      warehouseId,
+      commodity,
+      ratePerMtPerDay: input.ratePerMtPerDay.toFixed(2),
+      handlingChargePerMt: (input.handlingChargePerMt ?? 0).toFixed(2),
+      insurancePercentPerYear: (input.insurancePercentPerYear ?? 0).toFixed(2),
+      gstPercent: (input.gstPercent ?? 18).toFixed(2),
+      isActive: true,
+      createdBy: userId
+    });
+  }
+
+  /**
+   * Withdraw a tariff; receipts it covered stop accruing unless a default tariff applies
+   */
+  async deactivateTariff(warehouseId: number, tariffId: number, userId: number) {
+    await this.assertCanManage(warehouseId, userId);
+
+    const tariff = (await storage.listWarehouseTariffs(warehouseId)).find(t => t.id === tariffId);
+    if (!tariff) {
+      throw new Error("Tariff not found");
+    }
+    return storage.updateWarehouseTariff(tariff.id, { isActive: false });
+  }
+
+  /**
+   * Active tariffs of a warehouse
+   */
+  async listTariffs(warehouseId: number) {
+    return (await storage.listWarehouseTariffs(warehouseId)).filter(tariff => tariff.isActive);
+  }
+
+  /**
+   * Tariff applying to a receipt: one naming its commodity, else the warehouse default
+   */
+  async tariffFor(receipt: WarehouseReceipt): Promise<WarehouseTariff | undefined> {
+    if (!receipt.warehouseId) return undefined;
+
+    const tariffs = await this.listTariffs(receipt.warehouseId);
+    const commodity = receipt.commodityId ? await storage.getCommodity(receipt.commodityId) : undefined;
+    const names = [receipt.commodityName, commodity?.name, commodity?.type]
+      .filter((name): name is string => !!name)
+      .map(name => name.toLowerCase());
+
+    return tariffs.find(tariff => tariff.commodity && names.includes(tariff.commodity.toLowerCase()))
+      ?? tariffs.find(tariff => !tariff.commodity);
+  }
+
+  /**
+   * Accrue fees on a receipt for the whole days since its last accrual
+   * @param receiptId The receipt
+   * @param asOf Accrue up to the start of this day
+   * @returns The new accrual, or null when nothing was due
+   */
+  async accrue(receiptId: number, asOf: Date = new Date()): Promise<StorageFeeAccrual | null> {
+    const receipt = await storage.getWarehouseReceipt(receiptId);
+    if (!receipt || !receipt.warehouseId || !ACCRUING_STATUSES.includes(receipt.status)) {
+      return null;
+    }
+
+    const tariff = await this.tariffFor(receipt);
+    if (!tariff) {
+      return null;
+    }
+
+    const accruals = await storage.listStorageFeeAccruals(receipt.id);
+    const last = accruals[accruals.length - 1];
+    const periodStart = startOfDay(last?.periodEnd ?? receipt.issuedDate ?? asOf);
+    const periodEnd = startOfDay(asOf);
+    const days = Math.max(0, differenceInCalendarDays(periodEnd, periodStart));
+
+    const quantityMt = this.quantityMt(receipt);
+    const storageCharge = quantityMt * parseFloat(tariff.ratePerMtPerDay) * days;
+    const insuranceCharge = parseFloat(receipt.valuation || "0")
+      * parseFloat(tariff.insurancePercentPerYear) / 100 * days / 365;
+
+    // Handling is charged once, at deposit; split and residual receipts inherit it from their parent
+    const firstAccrual = accruals.length === 0
+      && (await storage.listReceiptLineageByChild(receipt.id)).length === 0;
+    const handlingCharge = firstAccrual ? quantityMt * parseFloat(tariff.handlingChargePerMt) : 0;
+
+    if (days === 0 && handlingCharge <= 0) {
+      return null;
+    }
+
+    return storage.createStorageFeeAccrual({
+      receiptId: receipt.id,
+      warehouseId: receipt.warehouseId,
+      tariffId: tariff.id,
+      periodStart,
+      periodEnd,
+      days,
+      quantityMt: quantityMt.toFixed(3),
+      storageCharge: storageCharge.toFixed(2),
+      handlingCharge: handlingCharge.toFixed(2),
+      insuranceCharge: insuranceCharge.toFixed(2),
+      gstPercent: tariff.gstPercent,
+      invoiceId: null
+    });
+  }
+
+  /**
+   * Accrue fees on every receipt still in a warehouse
+   * @returns Number of receipts accrued
+   */
+  async accrueAll(asOf: Date = new Date()) {
+    const receipts = (await storage.listWarehouseReceipts())
+      .filter(receipt => ACCRUING_STATUSES.includes(receipt.status));
+
+    let accrued = 0;
+    for (const receipt of receipts) {
+      try {
+        if (await this.accrue(receipt.id, asOf)) accrued++;
+      } catch (error) {
+        console.error(`Failed to accrue storage fees on receipt ${receipt.id}:`, error);
+      }
+    }
+    return accrued;
+  }
+
+  /**
+   * Bring a receipt's accruals up to date and bill everything not yet invoiced
+   * @param receiptId The receipt
+   * @param asOf Invoice date
+   * @returns The new invoice, or null when nothing was unbilled
+   */
+  async invoice(receiptId: number, asOf: Date = new Date()): Promise<StorageInvoice | null> {
+    await this.accrue(receiptId, asOf);
+
+    const receipt = await storage.getWarehouseReceipt(receiptId);
+    if (!receipt) {
+      throw new Error("Receipt not found");
+    }
+
+    const pending = (await storage.listStorageFeeAccruals(receiptId)).filter(accrual => !accrual.invoiceId);
+    if (pending.length === 0) {
+      return null;
+    }
+    if (!receipt.ownerId) {
+      throw new Error(`Receipt ${receipt.receiptNumber} has no holder to bill`);
+    }
+
+    const warehouse = await storage.getWarehouse(pending[0].warehouseId);
+    if (!warehouse) {
+      throw new Error("Warehouse not found");
+    }
+
+    const lines = this.invoiceLines(pending);
+    const taxableAmount = round2(lines.reduce((sum, line) => sum + line.amount, 0));
+    const gst = pending.reduce((sum, accrual) =>
+      sum + this.accrualTotal(accrual) * parseFloat(accrual.gstPercent) / 100, 0);
+    const cgst = round2(gst / 2);
+    const sgst = round2(gst / 2);
+
+    const invoice = await storage.createStorageInvoice({
+      invoiceNumber: await this.nextInvoiceNumber(warehouse, asOf),
+      warehouseId: warehouse.id,
+      receiptId: receipt.id,
+      userId: receipt.ownerId,
+      periodStart: pending[0].periodStart,
+      periodEnd: pending[pending.length - 1].periodEnd,
+      lines,
+      taxableAmount: taxableAmount.toFixed(2),
+      cgst: cgst.toFixed(2),
+      sgst: sgst.toFixed(2),
+      totalAmount: (taxableAmount + cgst + sgst).toFixed(2),
+      amountPaid: '0',
+      status: 'issued',
+      placeOfSupply: warehouse.gstin ? `${warehouse.state} (${warehouse.gstin.slice(0, 2)})` : warehouse.state,
+      pdfUrl: null,
+      settlementReference: null,
+      settledAt: null
+    });
+
+    for (const accrual of pending) {
+      await storage.updateStorageFeeAccrual(accrual.id, { invoiceId: invoice.id });
+    }
+
+    // A failed render does not hold up billing; the PDF is rebuilt when first downloaded
+    const withPdf = await this.renderPdf(invoice, warehouse, receipt).catch(error => {
+      console.error(`Failed to render invoice ${invoice.invoiceNumber}:`, error);
+      return invoice;
+    });
+
+    BroadcastService.broadcastReceiptUpdate(receipt.ownerId, receipt.id, {
+      type: 'storage_invoice_issued',
+      invoiceId: invoice.id,
+      invoiceNumber: invoice.invoiceNumber,
+      totalAmount: invoice.totalAmount
+    });
+
+    return withPdf;
+  }
+
+  /**
+   * Invoice every receipt with unbilled fees
+   * @returns Number of invoices raised
+   */
+  async invoiceAll(asOf: Date = new Date()) {
+    let invoiced = 0;
+    for (const receipt of await storage.listWarehouseReceipts()) {
+      try {
+        if (await this.invoice(receipt.id, asOf)) invoiced++;
+      } catch (error) {
+        console.error(`Failed to invoice storage fees on receipt ${receipt.id}:`, error);
+      }
+    }
+    return invoiced;
+  }
+
+  /**
+   * Unpaid storage fees on a receipt, billing anything accrued up to today first
+   */
+  async dues(receiptId: number, asOf: Date = new Date()): Promise<StorageDues> {
+    await this.invoice(receiptId, asOf);
+
+    const invoices = (await storage.listStorageInvoicesByReceipt(receiptId))
+      .filter(invoice => invoice.status === 'issued')
+      .map(invoice => ({ ...invoice, outstanding: this.outstanding(invoice) }));
+
+    return {
+      receiptId,
+      invoices,
+      total: round2(invoices.reduce((sum, invoice) => sum + invoice.outstanding, 0))
+    };
+  }
+
+  /**
+   * Dues on a receipt, visible to its holder and the warehouse owner
+   */
+  async duesForUser(receiptId: number, userId: number) {
+    const receipt = await storage.getWarehouseReceipt(receiptId);
+    if (!receipt) {
+      throw new Error("Receipt not found");
+    }
+    if (receipt.ownerId !== userId && !(await this.managesWarehouse(receipt.warehouseId, userId))) {
+      throw new Error("Not authorized to view storage fees on this receipt");
+    }
+    return this.dues(receiptId);
+  }
+
+  /**
+   * Refuse to release goods, or to reissue the receipt, while storage fees on it are unpaid
+   * @param receiptId The receipt
+   * @param action What the holder is trying to do, for the error message
+   */
+  async assertNoDues(receiptId: number, action: string = 'withdrawing') {
+    const dues = await this.dues(receiptId);
+    if (dues.total > 0) {
+      const numbers = dues.invoices.map(invoice => invoice.invoiceNumber).join(', ');
+      throw new Error(`Storage fees of ₹${dues.total.toFixed(2)} are due on this receipt; pay invoice ${numbers} before ${action}`);
+    }
+  }
+
+  /**
+   * An unpaid invoice of a receipt holder and the amount left to pay
+   */
+  async getPayable(invoiceId: number, userId: number) {
+    const invoice = await storage.getStorageInvoice(invoiceId);
+    if (!invoice) {
+      throw new Error("Invoice not found");
+    }
+    if (invoice.userId !== userId) {
+      throw new Error("Not authorized to pay this invoice");
+    }
+    if (invoice.status !== 'issued') {
+      throw new Error(`Invoice is already ${invoice.status}`);
+    }
+    return { invoice, amount: this.outstanding(invoice) };
+  }
+
+  /**
+   * Mark an invoice paid in full
+   * @param invoiceId The invoice
+   * @param reference Payment that settled it
+   * @returns The allocation to post to the ledger
+   */
+  async recordPayment(invoiceId: number, reference: string): Promise<StorageFeeAllocation> {
+    const invoice = await storage.getStorageInvoice(invoiceId);
+    if (!invoice) {
+      throw new Error("Invoice not found");
+    }
+
+    const amount = this.outstanding(invoice);
+    await storage.updateStorageInvoice(invoice.id, {
+      amountPaid: invoice.totalAmount,
+      status: 'paid',
+      settlementReference: reference,
+      settledAt: new Date()
+    });
+
+    return this.allocation(invoice, amount);
+  }
+
+  /**
+   * Settle storage dues on receipts out of sale proceeds, oldest invoice first
+   * @param receiptIds Receipts whose goods were sold
+   * @param available Proceeds available for the dues
+   * @param reference The sale the dues were netted from
+   */
+  async netFromProceeds(receiptIds: number[], available: number, reference: string) {
+    const open: StorageInvoice[] = [];
+    for (const receiptId of receiptIds) {
+      open.push(...(await this.dues(receiptId)).invoices);
+    }
+    open.sort((a, b) => (a.issuedAt?.getTime() ?? 0) - (b.issuedAt?.getTime() ?? 0));
+
+    let remaining = round2(Math.max(0, available));
+    let due = 0;
+    const allocations: StorageFeeAllocation[] = [];
+
+    for (const invoice of open) {
+      const outstanding = this.outstanding(invoice);
+      due += outstanding;
+
+      const applied = round2(Math.min(remaining, outstanding));
+      if (applied <= 0) continue;
+      remaining = round2(remaining - applied);
+
+      const settled = applied >= outstanding;
+      await storage.updateStorageInvoice(invoice.id, {
+        amountPaid: (parseFloat(invoice.amountPaid) + applied).toFixed(2),
+        status: settled ? 'netted' : 'issued',
+        settlementReference: reference,
+        settledAt: settled ? new Date() : null
+      });
+      allocations.push(this.allocation(invoice, applied));
+    }
+
+    return {
+      due: round2(due),
+      paid: round2(allocations.reduce((sum, allocation) => sum + allocation.amount, 0)),
+      allocations
+    };
+  }
+
+  /**
+   * Invoices billed to a receipt holder, newest first
+   */
+  async listInvoices(userId: number) {
+    return storage.listStorageInvoicesByUser(userId);
+  }
+
+  /**
+   * Invoices raised by a warehouse, newest first
+   */
+  async listWarehouseInvoices(warehouseId: number, userId: number) {
+    await this.assertCanManage(warehouseId, userId);
+    return storage.listStorageInvoicesByWarehouse(warehouseId);
+  }
+
+  /**
+   * An invoice visible to the billed holder and the warehouse owner
+   */
+  async getInvoice(invoiceId: number, userId: number) {
+    const invoice = await storage.getStorageInvoice(invoiceId);
+    if (!invoice) {
+      throw new Error("Invoice not found");
+    }
+    if (invoice.userId !== userId && !(await this.managesWarehouse(invoice.warehouseId, userId))) {
+      throw new Error("Not authorized to view this invoice");
+    }
+    return invoice;
+  }
+
+  /**
+   * PDF of an invoice, regenerated if the file is missing
+   */
+  async getInvoicePdf(invoiceId: number, userId: number) {
+    let invoice = await this.getInvoice(invoiceId, userId);
+
+    let file = invoice.pdfUrl ? receiptService.getInvoiceFile(path.basename(invoice.pdfUrl)) : null;
+    if (!file) {
+      const warehouse = await storage.getWarehouse(invoice.warehouseId);
+      const receipt = await storage.getWarehouseReceipt(invoice.receiptId);
+      if (!warehouse || !receipt) {
+        throw new Error("Invoice PDF not found");
+      }
+      invoice = await this.renderPdf(invoice, warehouse, receipt);
+      file = receiptService.getInvoiceFile(path.basename(invoice.pdfUrl!));
+    }
+    if (!file) {
+      throw new Error("Invoice PDF not found");
+    }
+    return { invoice, file };
+  }
+
+  private async renderPdf(invoice: StorageInvoice, warehouse: Warehouse, receipt: WarehouseReceipt) {
+    const customer = await storage.getUser(invoice.userId);
+    if (!customer) {
+      return invoice;
+    }
+
+    const business = (customer.businessDetails ?? {}) as Record<string, any>;
+    const pdf = await receiptService.generateStorageInvoice(invoice, {
+      warehouse,
+      receipt,
+      customer,
+      customerGstin: business.gstin ?? business.gstNumber ?? null,
+      customerAddress: business.address ?? null
+    });
+
+    return (await storage.updateStorageInvoice(invoice.id, { pdfUrl: pdf.url })) ?? invoice;
+  }
+
+  /**
+   * One invoice line per charge, summed over the billed accruals
+   */
+  private invoiceLines(accruals: StorageFeeAccrual[]): StorageInvoiceLine[] {
+    const quantityMt = parseFloat(accruals[accruals.length - 1].quantityMt);
+    const days = accruals.reduce((sum, accrual) => sum + accrual.days, 0);
+    const sum = (field: 'storageCharge' | 'handlingCharge' | 'insuranceCharge') =>
+      round2(accruals.reduce((total, accrual) => total + parseFloat(accrual[field]), 0));
+
+    const lines: StorageInvoiceLine[] = [
+      { description: 'Warehousing charges', sacCode: SAC_STORAGE, quantityMt, days, amount: sum('storageCharge') }
+    ];
+    const handling = sum('handlingCharge');
+    if (handling > 0) {
+      lines.push({ description: 'Handling charges (loading/unloading)', sacCode: SAC_HANDLING, quantityMt, days: 0, amount: handling });
+    }
+    const insurance = sum('insuranceCharge');
+    if (insurance > 0) {
+      lines.push({ description: 'Insurance of stored goods', sacCode: SAC_STORAGE, quantityMt, days, amount: insurance });
+    }
+    return lines;
+  }
+
+  /**
+   * Sequential within the warehouse and financial year; GST caps invoice numbers at 16 characters
+   */
+  private async nextInvoiceNumber(warehouse: Warehouse, date: Date) {
+    const startYear = date.getMonth() >= 3 ? date.getFullYear() : date.getFullYear() - 1;
+    const financialYear = `${String(startYear).slice(-2)}${String(startYear + 1).slice(-2)}`;
+    const prefix = `SF${warehouse.id}/${financialYear}/`;
+
+    const issued = (await storage.listStorageInvoicesByWarehouse(warehouse.id))
+      .filter(invoice => invoice.invoiceNumber.startsWith(prefix)).length;
+    return `${prefix}${String(issued + 1).padStart(4, '0')}`;
+  }
+
+  private allocation(invoice: StorageInvoice, amount: number): StorageFeeAllocation {
+    const total = parseFloat(invoice.totalAmount);
+    const gst = parseFloat(invoice.cgst) + parseFloat(invoice.sgst);
+    return {
+      invoiceId: invoice.id,
+      warehouseId: invoice.warehouseId,
+      amount: round2(amount),
+      gst: total > 0 ? round2(gst * amount / total) : 0
+    };
+  }
+
+  private outstanding(invoice: StorageInvoice) {
+    return round2(parseFloat(invoice.totalAmount) - parseFloat(invoice.amountPaid));
+  }
+
+  private accrualTotal(accrual: StorageFeeAccrual) {
+    return parseFloat(accrual.storageCharge) + parseFloat(accrual.handlingCharge) + parseFloat(accrual.insuranceCharge);
+  }
+
+  private quantityMt(receipt: WarehouseReceipt) {
+    return parseFloat(receipt.quantity) * (MT_PER_UNIT[receipt.measurementUnit || 'MT'] ?? 1);
+  }
+
+  private sameCommodity(a: string | null, b: string | null) {
+    return (a?.toLowerCase() ?? null) === (b?.toLowerCase() ?? null);
+  }
+
+  private async managesWarehouse(warehouseId: number | null, userId: number) {
+    if (!warehouseId) return false;
+    const [warehouse, user] = await Promise.all([storage.getWarehouse(warehouseId), storage.getUser(userId)]);
+    return !!warehouse && (warehouse.ownerId === userId || user?.role === 'admin');
+  }
+
+  private async assertCanManage(warehouseId: number, userId: number) {
+    const warehouse = await storage.getWarehouse(warehouseId);
+    if (!warehouse) {
+      throw new Error("Warehouse not found");
+    }
+    if (!(await this.managesWarehouse(warehouseId, userId))) {
+      throw new Error("Not authorized to manage fees of this warehouse");
+    }
+  }
+}
+
+export const storageFeeService = new StorageFeeService();
@@ -0,0 +1,454 @@
+import { storage } from "../storage";
+import BroadcastService from "./BroadcastService";
+import { qualityGradingService, type GradingResult } from "./QualityGradingService";
+import { priceFeedService } from "./PriceFeedService";
+import { auditLedgerService } from "./AuditLedgerService";
+import { lienService } from "./LienService";
+import type { InsertProcess, Process, User, WarehouseReceipt } from "@shared/schema";
+
+/**
+ * Inspection data recorded by warehouse staff for an inbound lot.
+ * Stored under processes.trackingData.inspection.
+ */
+export interface LotInspection {
+  gateIn?: {
+    vehicleNumber: string;
+    driverName?: string;
+    bagCount?: number;
+    notes?: string;
+    recordedBy: number;
+    recordedAt: string;
+  };
+  weighbridge?: {
+    grossWeight: number;     // kg
+    tareWeight: number;      // kg
+    netWeight: number;       // kg
+    weighbridgeSlip?: string;
+    recordedBy: number;
+    recordedAt: string;
+  };
+  moisture?: {
+    moisturePercent: number;
+    method?: string;
+    recordedBy: number;
+    recordedAt: string;
+  };
+  sampling?: {
+    sampleId: string;
+    parameters: Record<string, number>;
+    notes?: string;
+    recordedBy: number;
+    recordedAt: string;
+  };
+  grading?: GradingResult;
+  decision?: {
+    outcome: 'approved' | 'rejected';
+    reason?: string;
+    receiptId?: number;
+    decidedBy: number;
+    decidedAt: string;
+  };
+}
+
+// Inbound stage keys, shared with the deposit tracking UI
+const INBOUND_STAGES = [
+  'pickup_scheduled',
+  'arrived_at_warehouse',
+  'weighing_complete',
+  'moisture_analysis',
+  'qa_assessment_complete',
+  'pricing_calculated',
+  'ewr_generation'
+] as const;
+
+// Grade on a receipt issued up-front for a deposit, before the warehouse has inspected the lot
+const PENDING_GRADE = 'Pending Assessment';
+
+type InboundStage = typeof INBOUND_STAGES[number];
+type StageState = 'pending' | 'in_progress' | 'completed' | 'failed';
+
+/**
+ * Service backing the warehouse operator console: the inbound deposit queue and
+ * the gate-in, weighbridge, moisture, sampling and approval steps for each lot.
+ */
+export class WarehouseOperatorService {
+  /**
+   * List open inbound deposit processes at warehouses the operator owns (all warehouses for admins)
+   */
+  async getInboundQueue(operator: User) {
+    const warehouses = operator.role === 'admin'
+      ? await storage.listWarehouses()
+      : await storage.listWarehousesByOwner(operator.id);
+
+    const queue = [];
+    for (const warehouse of warehouses) {
+      const processes = await storage.listProcessesByWarehouse(warehouse.id);
+      for (const process of processes) {
+        if (process.processType !== 'deposit' || process.status === 'completed' || process.status === 'failed') {
+          continue;
+        }
+
+        const commodity = process.commodityId ? await storage.getCommodity(process.commodityId) : undefined;
+        queue.push({
+          ...process,
+          inspection: this.getInspection(process),
+          warehouseName: warehouse.name,
+          commodityName: commodity?.name,
+          commodityType: commodity?.type,
+          declaredQuantity: commodity?.quantity,
+          measurementUnit: commodity?.measurementUnit
+        });
+      }
+    }
+
+    return queue.sort((a, b) => new Date(a.startTime!).getTime() - new Date(b.startTime!).getTime());
+  }
+
+  /**
+   * Record the lot arriving at the warehouse gate
+   */
+  async recordGateIn(process: Process, operatorId: number, data: { vehicleNumber: string; driverName?: string; bagCount?: number; notes?: string }) {
+    this.assertOpen(process);
+
+    const inspection = this.getInspection(process);
+    inspection.gateIn = { ...data, recordedBy: operatorId, recordedAt: new Date().toISOString() };
+
+    return this.saveStep(process, inspection, {
+      stageProgress: { pickup_scheduled: 'completed', arrived_at_warehouse: 'completed', weighing_complete: 'in_progress' },
+      currentStage: 'arrived_at_warehouse',
+      statusMessage: `Gate-in recorded for vehicle ${data.vehicleNumber}`,
+      extra: {
+        vehicleNumber: data.vehicleNumber,
+        driverName: data.driverName ?? process.driverName,
+        arrivalDate: new Date()
+      }
+    });
+  }
+
+  /**
+   * Record weighbridge gross and tare weight. Net weight replaces the declared quantity.
+   */
+  async recordWeighbridge(process: Process, operatorId: number, data: { grossWeight: number; tareWeight: number; weighbridgeSlip?: string }) {
+    this.assertOpen(process);
+
+    const inspection = this.getInspection(process);
+    if (!inspection.gateIn) {
+      throw new Error("Gate-in must be recorded before weighing");
+    }
+
+    if (data.tareWeight >= data.grossWeight) {
+      throw new Error("Gross weight must be greater than tare weight");
+    }
+
+    const netWeight = data.grossWeight - data.tareWeight;
+    inspection.weighbridge = { ...data, netWeight, recordedBy: operatorId, recordedAt: new Date().toISOString() };
+
+    // Net weight (kg) becomes the commodity quantity in MT
+    if (process.commodityId) {
+      await storage.updateCommodity(process.commodityId, { quantity: (netWeight / 1000).toFixed(2) });
+    }
+
+    return this.saveStep(process, inspection, {
+      stageProgress: { weighing_complete: 'completed', moisture_analysis: 'in_progress' },
+      currentStage: 'weighing_complete',
+      statusMessage: `Net weight ${netWeight.toLocaleString('en-IN')} kg recorded`
+    });
+  }
+
+  /**
+   * Record moisture content of the lot
+   */
+  async recordMoisture(process: Process, operatorId: number, data: { moisturePercent: number; method?: string }) {
+    this.assertOpen(process);
+
+    const inspection = this.getInspection(process);
+    if (!inspection.weighbridge) {
+      throw new Error("Weighbridge weight must be recorded before moisture analysis");
+    }
+
+    inspection.moisture = { ...data, recordedBy: operatorId, recordedAt: new Date().toISOString() };
+
+    return this.saveStep(process, inspection, {
+      stageProgress: { moisture_analysis: 'completed', qa_assessment_complete: 'in_progress' },
+      currentStage: 'moisture_analysis',
+      statusMessage: `Moisture ${data.moisturePercent}% recorded`
+    });
+  }
+
+  /**
+   * Record sampling results (foreign matter, broken grains and other quality parameters)
+   */
+  async recordSampling(process: Process, operatorId: number, data: { sampleId: string; parameters: Record<string, number>; notes?: string }) {
+    this.assertOpen(process);
+
+    const inspection = this.getInspection(process);
+    if (!inspection.weighbridge) {
+      throw new Error("Weighbridge weight must be recorded before sampling");
+    }
+
+    inspection.sampling = { ...data, recordedBy: operatorId, recordedAt: new Date().toISOString() };
+
+    if (process.commodityId) {
+      await storage.updateCommodity(process.commodityId, {
+        qualityParameters: {
+          ...data.parameters,
+          ...(inspection.moisture ? { moisture: inspection.moisture.moisturePercent } : {})
+        }
+      });
+    }
+
+    return this.saveStep(process, inspection, {
+      stageProgress: { qa_assessment_complete: 'completed' },
+      currentStage: 'qa_assessment_complete',
+      statusMessage: `Sample ${data.sampleId} analysed`
+    });
+  }
+
+  /**
+   * Grade the lot from the recorded moisture and sampling results without approving it
+   */
+  async previewGrading(process: Process): Promise<GradingResult> {
+    const inspection = this.getInspection(process);
+    if (!inspection.moisture || !inspection.sampling) {
+      throw new Error("Moisture and sampling must be recorded before grading");
+    }
+
+    const commodity = process.commodityId ? await storage.getCommodity(process.commodityId) : undefined;
+    if (!commodity) {
+      throw new Error("Associated commodity not found");
+    }
+
+    return qualityGradingService.evaluate(commodity.name, commodity.type, this.measuredParameters(inspection));
+  }
+
+  /**
+   * Approve the lot and issue (or update) the warehouse receipt for the depositor.
+   * The grade and value deductions come from the commodity's grade specification;
+   * lots that fail the specification must be rejected instead.
+   */
+  async approveLot(process: Process, operatorId: number) {
+    this.assertOpen(process);
+
+    const inspection = this.getInspection(process);
+    if (!inspection.gateIn || !inspection.weighbridge || !inspection.moisture || !inspection.sampling) {
+      throw new Error("Gate-in, weighbridge, moisture and sampling must be recorded before approval");
+    }
+
+    const commodity = process.commodityId ? await storage.getCommodity(process.commodityId) : undefined;
+    const warehouse = process.warehouseId ? await storage.getWarehouse(process.warehouseId) : undefined;
+    if (!commodity || !warehouse) {
+      throw new Error("Associated commodity or warehouse not found");
+    }
+
+    const grading = await qualityGradingService.evaluate(commodity.name, commodity.type, this.measuredParameters(inspection));
+    if (!grading.passed) {
+      throw new Error(`Lot fails the quality specification: ${grading.failures.join('; ')}`);
+    }
+
+    // Deposits created through /processes already carry a receipt; it is updated with measured values
+    const existingReceipt = await this.pendingReceipt(process);
+
+    const quantity = (inspection.weighbridge.netWeight / 1000).toFixed(2);
+    // Weighbridge net weight is in kg; priced at the warehouse's mandi
+    const pricing = await priceFeedService.valuateAtWarehouse(
+      commodity.name, inspection.weighbridge.netWeight, 'kg', warehouse.id, grading.deductionPercent
+    );
+    const valuation = pricing.totalValue.toFixed(2);
+    const gradeAssigned = grading.grade;
+    inspection.grading = grading;
+
+    await storage.updateCommodity(commodity.id, {
+      quantity,
+      gradeAssigned,
+      qualityParameters: qualityGradingService.toQualityParameters(grading),
+      valuation,
+      status: 'active'
+    });
+
+    let receipt: WarehouseReceipt | undefined;
+    if (existingReceipt) {
+      receipt = await storage.updateWarehouseReceipt(existingReceipt.id, {
+        quantity,
+        valuation,
+        qualityGrade: qualityGradingService.receiptGradeLabel(gradeAssigned),
+        status: 'active'
+      });
+    } else {
+      receipt = await storage.createWarehouseReceipt({
+        receiptNumber: `eWR-${Date.now()}-${commodity.id}`,
+        commodityId: commodity.id,
+        warehouseId: warehouse.id,
+        ownerId: process.userId,
+        quantity,
+        measurementUnit: commodity.measurementUnit,
+        status: 'active',
+        valuation,
+        commodityName: commodity.name,
+        qualityGrade: qualityGradingService.receiptGradeLabel(gradeAssigned),
+        warehouseName: warehouse.name,
+        warehouseAddress: warehouse.address,
+        expiryDate: new Date(Date.now() + 6 * 30 * 24 * 60 * 60 * 1000), // 6 months from now
+        metadata: { processId: process.id, inspection }
+      });
+    }
+    if (receipt) {
+      receipt = await auditLedgerService.anchorReceipt(receipt, existingReceipt ? 'inspected' : 'issued', {
+        processId: process.id,
+        grade: gradeAssigned
+      });
+    }
+
+    // Sacks inherit the lot grade
+    if (receipt) {
+      await qualityGradingService.applyToSacks(receipt.id, grading);
+    }
+
+    inspection.decision = {
+      outcome: 'approved',
+      receiptId: receipt?.id,
+      decidedBy: operatorId,
+      decidedAt: new Date().toISOString()
+    };
+
+    const updated = await this.saveStep(process, inspection, {
+      stageProgress: { pricing_calculated: 'completed', ewr_generation: 'completed' },
+      currentStage: 'ewr_generated',
+      statusMessage: `Lot approved (${qualityGradingService.receiptGradeLabel(gradeAssigned)}) and warehouse receipt issued`,
+      extra: { status: 'completed' }
+    });
+
+    if (receipt && process.userId) {
+      BroadcastService.broadcastReceiptUpdate(process.userId, receipt.id, { type: 'receipt_issued', receipt });
+    }
+
+    return { process: updated, receipt, grading };
+  }
+
+  /**
+   * Reject the lot. Any receipt issued up-front for the deposit is voided.
+   */
+  async rejectLot(process: Process, operatorId: number, reason: string) {
+    this.assertOpen(process);
+
+    const receipt = await this.pendingReceipt(process);
+    if (receipt) {
+      await lienService.assertReleasable(receipt.id);
+    }
+
+    const inspection = this.getInspection(process);
+    inspection.decision = {
+      outcome: 'rejected',
+      reason,
+      decidedBy: operatorId,
+      decidedAt: new Date().toISOString()
+    };
+
+    if (process.commodityId) {
+      await storage.updateCommodity(process.commodityId, { status: 'withdrawn' });
+    }
+    if (receipt) {
+      const withdrawn = await storage.updateWarehouseReceipt(receipt.id, { status: 'withdrawn' });
+      await auditLedgerService.anchorReceipt(withdrawn!, 'withdrawn', { reason });
+    }
+
+    const currentStage = (process.currentStage || 'arrived_at_warehouse') as InboundStage;
+    return this.saveStep(process, inspection, {
+      stageProgress: { [currentStage]: 'failed' },
+      currentStage: 'lot_rejected',
+      statusMessage: `Lot rejected: ${reason}`,
+      extra: { status: 'failed' }
+    });
+  }
+
+  /**
+   * Read the inspection record from a process
+   */
+  getInspection(process: Process): LotInspection {
+    const trackingData = (process.trackingData || {}) as { inspection?: LotInspection };
+    return { ...(trackingData.inspection || {}) };
+  }
+
+  /**
+   * Measured quality parameters: sampling results plus recorded moisture
+   */
+  private measuredParameters(inspection: LotInspection): Record<string, number> {
+    return {
+      ...(inspection.sampling?.parameters || {}),
+      ...(inspection.moisture ? { moisture: inspection.moisture.moisturePercent } : {})
+    };
+  }
+
+  /**
+   * The receipt issued up-front for this deposit, if any. Once it has been graded, traded,
+   * pledged or frozen it no longer stands for an uninspected lot, and the lot cannot be decided.
+   */
+  private async pendingReceipt(process: Process): Promise<WarehouseReceipt | undefined> {
+    if (!process.commodityId) return undefined;
+
+    const receipt = (await storage.listWarehouseReceiptsByCommodity(process.commodityId))
+      .find(candidate => this.receiptProcessId(candidate) === process.id);
+    if (!receipt) return undefined;
+
+    if (receipt.qualityGrade !== PENDING_GRADE || receipt.status !== 'active' || receipt.isFrozen || receipt.ownerId !== process.userId) {
+      throw new Error(`Receipt ${receipt.receiptNumber} for this deposit is no longer pending inspection`);
+    }
+    return receipt;
+  }
+
+  private receiptProcessId(receipt: WarehouseReceipt): number | undefined {
+    const metadata = typeof receipt.metadata === 'string'
+      ? JSON.parse(receipt.metadata)
+      : receipt.metadata;
+    return (metadata as { processId?: number } | null)?.processId;
+  }
+
+  private assertOpen(process: Process) {
+    if (process.processType !== 'deposit') {
+      throw new Error("Only deposit processes can be handled at the gate");
+    }
+
+    if (process.status === 'completed' || process.status === 'failed') {
+      throw new Error(`Lot is already ${process.status === 'completed' ? 'approved' : 'rejected'}`);
+    }
+  }
+
+  private async saveStep(
+    process: Process,
+    inspection: LotInspection,
+    step: {
+      stageProgress: Partial<Record<InboundStage, StageState>>;
+      currentStage: string;
+      statusMessage: string;
+      extra?: Partial<InsertProcess>;
+    }
+  ): Promise<Process> {
+    const stageProgress = {
+      ...((process.stageProgress as Record<string, StageState>) || {}),
+      ...step.stageProgress
+    };
+
+    const updated = await storage.updateProcess(process.id, {
+      status: 'in_progress',
+      ...step.extra,
+      currentStage: step.currentStage,
+      stageProgress,
+      statusMessage: step.statusMessage,
+      trackingData: { ...((process.trackingData as object) || {}), inspection }
+    });
+
+    if (process.userId) {
+      BroadcastService.broadcastProcessUpdate(process.userId, process.id, {
+        type: 'process_update',
+        currentStage: step.currentStage,
+        stageProgress,
+        status: updated?.status,
+        message: step.statusMessage,
+        timestamp: new Date().toISOString()
+      });
+    }
+
+    return updated!;
+  }
+}
+
+export const warehouseOperatorService = new WarehouseOperatorService();
@@ -1,12 +1,36 @@
 import { storage } from "../storage";
-import type { InsertProcess, WarehouseReceipt } from "@shared/schema";
+import BroadcastService from "./BroadcastService";
+import { storageFeeService } from "./StorageFeeService";
+import { lienService } from "./LienService";
+import { auditLedgerService } from "./AuditLedgerService";
+import type { CommoditySack, InsertProcess, InsertWarehouseReceipt, Loan, Process, User, WarehouseReceipt } from "@shared/schema";
+
+/**
+ * Withdrawal request recorded on the withdrawal process under trackingData.withdrawal.
+ * Lender consent is not part of it: each lender's decision is an event on their lien.
+ */
+export interface WithdrawalRequest {
+  receiptId: number;
+  quantity: string;
+  isPartial: boolean;
+  previousStatus: WarehouseReceipt['status'];
+  residualReceiptId?: number;
+  withdrawnSackIds?: number[];
+}
+
+// Loan statuses under which a receipt counts as pledged
+const OPEN_LOAN_STATUSES: Loan['status'][] = ['pending_approval', 'approved', 'active'];
+
+// Kilograms per receipt measurement unit, used to pick sacks for release
+const KG_PER_UNIT: Record<string, number> = { MT: 1000, kg: 1, KG: 1, quintal: 100 };
 
 /**
  * Service for handling commodity withdrawal operations
  */
 export class WithdrawalService {
   /**
-   * Initiates a withdrawal process for a commodity
+   * Initiates a withdrawal process for a commodity.
+   * Pledged receipts wait for lender consent before the withdrawal can proceed.
    * @param receiptId The ID of the receipt to withdraw from
    * @param userId The ID of the user initiating the withdrawal
    * @param quantity The quantity to withdraw (if not provided, full withdrawal)
@@ -15,30 +39,62 @@ export class WithdrawalService {
     try {
       // Get the receipt to verify ownership and available quantity
       const receipt = await storage.getWarehouseReceipt(receiptId);
-      
+
       if (!receipt) {
         throw new Error("Receipt not found");
       }
-      
+
       if (receipt.ownerId !== userId) {
         throw new Error("Not authorized to withdraw this receipt");
       }
-      
-      if (receipt.status !== "active") {
+
+      if (receipt.status !== "active" && receipt.status !== "collateralized") {
         throw new Error(`Cannot withdraw receipt in '${receipt.status}' status`);
       }
-      
+
+      if (receipt.isFrozen) {
+        throw new Error("Cannot withdraw a receipt while a dispute is open");
+      }
+
+      // Goods are only released once storage fees are cleared
+      await storageFeeService.assertNoDues(receipt.id);
+
+      const totalQuantity = parseFloat(receipt.quantity);
+      const requestedQuantity = quantity ? parseFloat(quantity) : totalQuantity;
+      if (isNaN(requestedQuantity) || requestedQuantity <= 0) {
+        throw new Error("Withdrawal quantity must be a positive number");
+      }
+
+      if (requestedQuantity > totalQuantity) {
+        throw new Error(`Withdrawal quantity exceeds the receipt quantity of ${receipt.quantity}`);
+      }
+
       // Determine if this is a full or partial withdrawal
-      const isFullWithdrawal = !quantity || quantity === receipt.quantity;
-      
+      const isFullWithdrawal = requestedQuantity === totalQuantity;
+
       // Get the original commodity details
       const commodity = await storage.getCommodity(receipt.commodityId!);
       const warehouse = await storage.getWarehouse(receipt.warehouseId!);
-      
+
       if (!commodity || !warehouse) {
         throw new Error("Associated commodity or warehouse not found");
       }
-      
+
+      // Pledged receipts need the consent of the lenders holding liens on them before anything is released
+      const isPledged = await lienService.isEncumbered(receipt.id);
+      if (!isPledged && (receipt.status === "collateralized"
+        || parseFloat(receipt.collateralUsed || "0") > 0
+        || (await this.findPledgingLoans(receipt)).length > 0)) {
+        throw new Error("Receipt is pledged without a registered lien, so no lender can consent to its release");
+      }
+
+      const withdrawal: WithdrawalRequest = {
+        receiptId,
+        quantity: requestedQuantity.toString(),
+        isPartial: !isFullWithdrawal,
+        previousStatus: receipt.status
+      };
+
       // Create a withdrawal process
       const processData: Partial<InsertProcess> = {
         processType: "withdrawal",
@@ -46,190 +102,272 @@ export class WithdrawalService {
         commodityId: receipt.commodityId || undefined,
         warehouseId: receipt.warehouseId || undefined,
         status: "pending",
-        currentStage: "verification",
+        currentStage: isPledged ? "lender_consent" : "verification",
         estimatedCompletionTime: new Date(Date.now() + 24 * 60 * 60 * 1000), // 24 hours from now
         stageProgress: {
+          ...(isPledged ? { lender_consent: "pending" } : {}),
           verification: "pending",
           preparation: "pending",
           document_check: "pending",
           physical_release: "pending",
           quantity_confirmation: "pending",
           receipt_update: "pending"
-        }
+        },
+        statusMessage: isPledged ? "Awaiting lender consent to release pledged collateral" : undefined,
+        trackingData: { withdrawal }
       };
-      
+
       // Create the process
-      const process = await storage.createProcess(processData);
-      
-      // Get the liens field as a properly typed object
-      const liens: Record<string, any> = typeof receipt.liens === 'object' && receipt.liens !== null 
-        ? (receipt.liens as any) 
-        : {};
-      
-      // Update receipt status to 'processing' during withdrawal
-      await storage.updateWarehouseReceipt(receiptId, {
-        status: "processing", 
-        liens: {
-          ...liens,
-          withdrawalProcessId: process.id,
-          withdrawalQuantity: quantity || receipt.quantity,
-          withdrawalDate: new Date().toISOString(),
-          isPartial: !isFullWithdrawal
-        }
-      });
-      
-      return { 
+      const process = await storage.createProcess(processData as InsertProcess);
+
+      // Lock the receipt while the withdrawal is in progress
+      await storage.updateWarehouseReceipt(receiptId, { status: "processing" });
+
+      return {
         process,
         receipt,
-        isFullWithdrawal
+        isFullWithdrawal,
+        requiresLenderConsent: isPledged
       };
     } catch (error) {
       console.error("WithdrawalService: Error initiating withdrawal", error);
       throw error;
     }
   }
-  
+
   /**
-   * Completes a withdrawal process and updates relevant receipts
+   * Record a lender's decision on a withdrawal against a pledged receipt.
+   * Every lender holding a lien on the receipt decides for their own liens. Once all have
+   * consented, a full withdrawal releases the liens; on a partial withdrawal they move to the
+   * residual receipt. A declined withdrawal is closed and the receipt returns to its previous status.
+   * @param processId The ID of the withdrawal process
+   * @param lender The lender user deciding; they must act for the lender of a loan the receipt secures
+   * @param approve Whether the lender consents to the release
+   * @param note Optional note from the lender
+   */
+  async decideLenderConsent(processId: number, lender: User, approve: boolean, note?: string) {
+    const process = await this.getOpenWithdrawal(processId);
+    const withdrawal = this.getWithdrawal(process);
+
+    if (await lienService.withdrawalConsent(withdrawal.receiptId, processId) !== "pending") {
+      throw new Error("Withdrawal is not awaiting lender consent");
+    }
+    const consent = await lienService.decideWithdrawal(withdrawal.receiptId, lender, processId, approve, note);
+
+    if (consent === "pending") {
+      return (await storage.updateProcess(processId, {
+        statusMessage: "Lender consent recorded; awaiting the other lenders on the receipt"
+      }))!;
+    }
+
+    const approved = consent === "approved";
+    const stageProgress = {
+      ...JSON.parse(JSON.stringify(process.stageProgress || {})),
+      lender_consent: approved ? "completed" : "failed"
+    };
+
+    const statusMessage = approved
+      ? "Lender consented to the release"
+      : `Lender declined the release${note ? `: ${note}` : ""}`;
+
+    const updated = await storage.updateProcess(processId, {
+      status: approved ? "in_progress" : "failed",
+      currentStage: approved ? "verification" : "lender_consent",
+      stageProgress,
+      statusMessage
+    });
+
+    if (!approved) {
+      await storage.updateWarehouseReceipt(withdrawal.receiptId, { status: withdrawal.previousStatus });
+    } else if (!withdrawal.isPartial && process.userId) {
+      await lienService.releaseForWithdrawal(withdrawal.receiptId, process.userId, processId);
+    }
+
+    if (process.userId) {
+      BroadcastService.broadcastProcessUpdate(process.userId, processId, {
+        type: approved ? "withdrawal_consent_approved" : "withdrawal_consent_declined",
+        message: statusMessage,
+        stageProgress
+      });
+    }
+
+    return updated!;
+  }
+
+  /**
+   * List withdrawals waiting for the consent of a lender
+   * @param lender The lender user; only withdrawals of receipts carrying their undecided liens are listed
+   */
+  async listPendingConsents(lender: User) {
+    const processes = await storage.listProcesses();
+    const pending: Process[] = [];
+    for (const p of processes) {
+      const withdrawal = (p.trackingData as { withdrawal?: WithdrawalRequest } | null)?.withdrawal;
+      if (p.processType === "withdrawal" &&
+        p.status !== "completed" && p.status !== "failed" &&
+        withdrawal &&
+        await lienService.awaitsConsentFrom(withdrawal.receiptId, p.id, lender)) {
+        pending.push(p);
+      }
+    }
+
+    return Promise.all(pending.map(async process => {
+      const withdrawal = this.getWithdrawal(process);
+      const receipt = await storage.getWarehouseReceipt(withdrawal.receiptId);
+      return {
+        ...process,
+        withdrawal,
+        receiptNumber: receipt?.receiptNumber,
+        commodityName: receipt?.commodityName,
+        receiptQuantity: receipt?.quantity,
+        valuation: receipt?.valuation
+      };
+    }));
+  }
+
+  /**
+   * Completes a withdrawal process and updates relevant receipts.
+   * A partial withdrawal closes the original receipt and issues a residual receipt
+   * for the remaining quantity, linked through receipt lineage.
    * @param processId The ID of the withdrawal process
    */
   async completeWithdrawal(processId: number) {
     try {
       // Get the process
       const process = await storage.getProcess(processId);
-      
+
       if (!process) {
         throw new Error("Process not found");
       }
-      
-      if (process.processType !== "withdrawal" || process.status === "completed") {
+
+      if (process.processType !== "withdrawal" || process.status === "completed" || process.status === "failed") {
         throw new Error("Invalid process for withdrawal completion");
       }
-      
+
+      const withdrawal = this.getWithdrawal(process);
+
       // Find the receipt associated with this withdrawal process
-      const receipts = await storage.listWarehouseReceipts();
-      const receipt = receipts.find(r => {
-        if (r.liens && typeof r.liens === 'object') {
-          const liens = r.liens as Record<string, any>;
-          return liens.withdrawalProcessId === processId;
-        }
-        return false;
-      });
-      
+      const receipt = await storage.getWarehouseReceipt(withdrawal.receiptId);
+
       if (!receipt) {
         throw new Error("Associated receipt not found");
       }
-      
-      // Get the liens field as a properly typed object
-      const liens: Record<string, any> = typeof receipt.liens === 'object' && receipt.liens !== null 
-        ? (receipt.liens as any) 
-        : {};
-      
-      const withdrawalQuantity = liens.withdrawalQuantity || receipt.quantity;
-      const isPartial = liens.isPartial === true;
-      
-      if (isPartial) {
-        // For partial withdrawals, create a new receipt with the remaining quantity
-        const remainingQuantity = String(parseFloat(receipt.quantity) - parseFloat(withdrawalQuantity));
-        
-        // Update the original receipt status to show withdrawn
-        await storage.updateWarehouseReceipt(receipt.id, {
-          status: "withdrawn",
-          liens: {
-            ...liens,
-            withdrawalCompleted: true,
-            withdrawalCompletionDate: new Date().toISOString()
-          }
-        });
-        
-        // Import receipt service dynamically to avoid circular dependencies
-        const { receiptService } = await import("./ReceiptService");
-        
-        // Create a new receipt for the remaining quantity
-        const newReceiptData = {
-          receiptNumber: `${receipt.receiptNumber}-REMAINING`,
+
+      const consent = await lienService.withdrawalConsent(receipt.id, processId);
+      if (consent === "pending" || consent === "declined") {
+        throw new Error("Lender consent is required to release a pledged receipt");
+      }
+
+      // Bill the days since initiation; the residual receipt accrues afresh
+      await storageFeeService.assertNoDues(receipt.id);
+
+      // Stock under a lien stays put, unless the lender consented and the lien moves to the residual receipt
+      const carryLiens = withdrawal.isPartial && consent === "approved";
+      if (!carryLiens) {
+        await lienService.assertReleasable(receipt.id);
+      }
+
+      const withdrawalQuantity = withdrawal.quantity;
+      const remaining = parseFloat(receipt.quantity) - parseFloat(withdrawalQuantity);
+
+      // Close the original receipt
+      const closed = await storage.updateWarehouseReceipt(receipt.id, { status: "withdrawn" });
+      await auditLedgerService.anchorReceipt(closed!, "withdrawn", { processId, withdrawnQuantity: withdrawalQuantity });
+
+      let residualReceipt: WarehouseReceipt | undefined;
+      if (withdrawal.isPartial && remaining > 0) {
+        const remainingQuantity = remaining.toFixed(2);
+        const share = remaining / parseFloat(receipt.quantity);
+
+        // Issue the residual receipt for the quantity still in the warehouse
+        residualReceipt = await storage.createWarehouseReceipt({
+          receiptNumber: `${receipt.receiptNumber}-R`,
           commodityId: receipt.commodityId,
+          ownerId: receipt.ownerId,
           warehouseId: receipt.warehouseId,
           quantity: remainingQuantity,
-          valuation: receipt.valuation ? 
-            String(parseFloat(receipt.valuation) * (parseFloat(remainingQuantity) / parseFloat(receipt.quantity))) : 
-            undefined,
-          // Copy over relevant liens data except for withdrawal info
-          liens: {
-            ...liens,
-            originalReceiptId: receipt.id,
-            isPartialRemaining: true,
-            withdrawalProcessId: undefined,
-            withdrawalQuantity: undefined,
-            withdrawalDate: undefined,
-            isPartial: undefined
-          }
-        };
-        
-        // Create the new receipt
-        const newReceipt = await receiptService.createReceipt(newReceiptData, receipt.ownerId!);
-        
-        // Update the process to completed
-        await storage.updateProcess(processId, {
-          status: "completed",
-          completedAt: new Date(),
-          currentStage: "receipt_update",
-          stageProgress: {
-            ...JSON.parse(JSON.stringify(process.stageProgress || {})),
-            verification: "completed",
-            preparation: "completed",
-            document_check: "completed",
-            physical_release: "completed",
-            quantity_confirmation: "completed",
-            receipt_update: "completed"
-          }
-        });
-        
-        return {
-          originalReceipt: receipt,
-          newReceipt,
-          withdrawalQuantity,
-          processId
-        };
-      } else {
-        // For full withdrawals, just update the receipt status
-        await storage.updateWarehouseReceipt(receipt.id, {
-          status: "withdrawn",
-          liens: {
-            ...liens,
-            withdrawalCompleted: true,
-            withdrawalCompletionDate: new Date().toISOString()
+          status: withdrawal.previousStatus,
+          receiptType: receipt.receiptType,
+          expiryDate: receipt.expiryDate,
+          valuation: receipt.valuation ? (parseFloat(receipt.valuation) * share).toFixed(2) : undefined,
+          liens: receipt.liens as InsertWarehouseReceipt["liens"],
+          availableForCollateral: receipt.availableForCollateral,
+          collateralUsed: receipt.collateralUsed,
+          commodityName: receipt.commodityName,
+          qualityGrade: receipt.qualityGrade,
+          warehouseName: receipt.warehouseName,
+          warehouseAddress: receipt.warehouseAddress,
+          measurementUnit: receipt.measurementUnit,
+          smartContractId: receipt.smartContractId,
+          metadata: {
+            ...((receipt.metadata as object) || {}),
+            parentReceiptId: receipt.id,
+            withdrawalProcessId: processId
           }
         });
-        
-        // Update the process to completed
-        await storage.updateProcess(processId, {
-          status: "completed",
-          completedAt: new Date(),
-          currentStage: "receipt_update",
-          stageProgress: {
-            ...JSON.parse(JSON.stringify(process.stageProgress || {})),
-            verification: "completed",
-            preparation: "completed",
-            document_check: "completed",
-            physical_release: "completed", 
-            quantity_confirmation: "completed",
-            receipt_update: "completed"
-          }
+
+        await storage.createReceiptLineage({
+          parentReceiptId: receipt.id,
+          childReceiptId: residualReceipt.id,
+          lineageType: "partial_withdrawal",
+          quantity: remainingQuantity,
+          processId,
+          createdBy: receipt.ownerId,
+          metadata: { withdrawnQuantity: withdrawalQuantity }
         });
-        
-        return {
-          receipt,
+        residualReceipt = await auditLedgerService.anchorReceipt(residualReceipt, "issued", { parentReceiptId: receipt.id, processId });
+
+        withdrawal.residualReceiptId = residualReceipt.id;
+        if (carryLiens) {
+          await lienService.carryForward(receipt.id, residualReceipt, processId);
+        }
+      }
+
+      // Keep the lender's collateral pointing at the receipt still in the warehouse
+      await this.repointCollateral(await this.findPledgingLoans(receipt), receipt.id, residualReceipt?.id);
+
+      // Release the withdrawn sacks and move the rest onto the residual receipt
+      withdrawal.withdrawnSackIds = await this.releaseSacks(receipt, parseFloat(withdrawalQuantity), residualReceipt, processId);
+
+      if (receipt.commodityId) {
+        await storage.updateCommodity(receipt.commodityId, residualReceipt
+          ? { quantity: residualReceipt.quantity }
+          : { status: "withdrawn" });
+      }
+
+      // Update the process to completed
+      await storage.updateProcess(processId, {
+        status: "completed",
+        currentStage: "receipt_update",
+        stageProgress: {
+          ...JSON.parse(JSON.stringify(process.stageProgress || {})),
+          verification: "completed",
+          preparation: "completed",
+          document_check: "completed",
+          physical_release: "completed",
+          quantity_confirmation: "completed",
+          receipt_update: "completed"
+        },
+        trackingData: { ...((process.trackingData as object) || {}), withdrawal }
+      });
+
+      if (receipt.ownerId) {
+        BroadcastService.broadcastReceiptUpdate(receipt.ownerId, receipt.id, {
+          type: "receipt_withdrawn",
           withdrawalQuantity,
-          processId
-        };
+          residualReceiptId: residualReceipt?.id
+        });
       }
+
+      return residualReceipt
+        ? { originalReceipt: receipt, newReceipt: residualReceipt, withdrawalQuantity, processId }
+        : { receipt, withdrawalQuantity, processId };
     } catch (error) {
       console.error("WithdrawalService: Error completing withdrawal", error);
       throw error;
     }
   }
-  
+
   /**
    * Updates a withdrawal process stage
    * @param processId The ID of the withdrawal process
@@ -240,42 +378,46 @@ export class WithdrawalService {
     try {
       // Get the process
       const process = await storage.getProcess(processId);
-      
+
       if (!process) {
         throw new Error("Process not found");
       }
-      
+
       if (process.processType !== "withdrawal") {
         throw new Error("Process is not a withdrawal");
       }
-      
+
+      const withdrawal = (process.trackingData as { withdrawal?: WithdrawalRequest } | null)?.withdrawal;
+      if (withdrawal && await lienService.withdrawalConsent(withdrawal.receiptId, processId) === "pending") {
+        throw new Error("Lender consent is required before the withdrawal can proceed");
+      }
+
       // Get current stage progress
       const stageProgress = JSON.parse(JSON.stringify(process.stageProgress || {}));
-      
+
       // Update the stage progress
       stageProgress[stage] = status;
-      
+
       // Calculate overall progress percentage
       const stages = Object.keys(stageProgress);
       const completedStages = stages.filter(s => stageProgress[s] === "completed").length;
       const progress = Math.floor((completedStages / stages.length) * 100);
-      
+
       // Determine if process is complete
       const isCompleted = progress === 100;
-      
-      // Update the process
+
+      // Update the process (completion itself is recorded by completeWithdrawal)
       const updatedProcess = await storage.updateProcess(processId, {
         currentStage: stage,
-        status: isCompleted ? "completed" : "in_progress",
-        completedAt: isCompleted ? new Date() : undefined,
+        status: "in_progress",
         stageProgress
       });
-      
+
       // If all stages are complete, automatically complete the withdrawal
       if (isCompleted) {
         return this.completeWithdrawal(processId);
       }
-      
+
       return {
         process: updatedProcess,
         progress,
@@ -286,6 +428,104 @@ export class WithdrawalService {
       throw error;
     }
   }
+
+  /**
+   * Read the withdrawal request from a process
+   */
+  getWithdrawal(process: Process): WithdrawalRequest {
+    const trackingData = (process.trackingData || {}) as { withdrawal?: WithdrawalRequest };
+    if (!trackingData.withdrawal) {
+      throw new Error("Process has no withdrawal request");
+    }
+    return { ...trackingData.withdrawal };
+  }
+
+  private async getOpenWithdrawal(processId: number): Promise<Process> {
+    const process = await storage.getProcess(processId);
+    if (!process || process.processType !== "withdrawal") {
+      throw new Error("Withdrawal not found");
+    }
+
+    if (process.status === "completed" || process.status === "failed") {
+      throw new Error(`Withdrawal is already ${process.status}`);
+    }
+
+    return process;
+  }
+
+  /**
+   * Open loans that list the receipt as collateral
+   */
+  private async findPledgingLoans(receipt: WarehouseReceipt): Promise<Loan[]> {
+    const loans = await storage.listLoans();
+    return loans.filter(loan =>
+      OPEN_LOAN_STATUSES.includes(loan.status) &&
+      this.collateralIds(loan).includes(receipt.id)
+    );
+  }
+
+  private collateralIds(loan: Loan): number[] {
+    const raw = typeof loan.collateralReceiptIds === "string"
+      ? JSON.parse(loan.collateralReceiptIds)
+      : loan.collateralReceiptIds;
+    return Array.isArray(raw) ? raw.map(Number) : [];
+  }
+
+  /**
+   * Replace the withdrawn receipt with its residual in each pledging loan's collateral
+   */
+  private async repointCollateral(loans: Loan[], receiptId: number, residualReceiptId?: number) {
+    for (const loan of loans) {
+      const ids = this.collateralIds(loan).filter(id => id !== receiptId);
+      if (residualReceiptId) {
+        ids.push(residualReceiptId);
+      }
+      await storage.updateLoan(loan.id, { collateralReceiptIds: JSON.stringify(ids) });
+    }
+  }
+
+  /**
+   * Mark sacks covering the withdrawn quantity as withdrawn; remaining sacks move to the residual receipt
+   * @returns IDs of the withdrawn sacks
+   */
+  private async releaseSacks(
+    receipt: WarehouseReceipt,
+    withdrawnQuantity: number,
+    residualReceipt: WarehouseReceipt | undefined,
+    processId: number
+  ): Promise<number[]> {
+    const sacks = (await storage.listCommoditySacksByReceipt(receipt.id))
+      .filter(sack => sack.status !== "withdrawn" && sack.status !== "transferred");
+
+    const withdrawnKg = withdrawnQuantity * (KG_PER_UNIT[receipt.measurementUnit || "MT"] ?? 1000);
+    const released: CommoditySack[] = [];
+    let releasedKg = 0;
+    for (const sack of sacks) {
+      if (!residualReceipt || releasedKg < withdrawnKg) {
+        released.push(sack);
+        releasedKg += parseFloat(sack.weight);
+      } else {
+        const moved = await storage.updateCommoditySack(sack.id, { receiptId: residualReceipt.id });
+        await auditLedgerService.anchorSack(moved!, "reassigned", { fromReceiptId: receipt.id, processId });
+      }
+    }
+
+    for (const sack of released) {
+      const withdrawn = await storage.updateCommoditySack(sack.id, { status: "withdrawn" });
+      const entry = await auditLedgerService.anchorSack(withdrawn!, "withdrawn", { processId });
+      await storage.createSackMovement({
+        sackId: sack.id,
+        fromLocationId: sack.warehouseId,
+        fromOwnerId: sack.ownerId,
+        toOwnerId: sack.ownerId,
+        movementType: "withdrawal",
+        transactionHash: entry.entryHash,
+        metadata: { processId, receiptId: receipt.id, auditEntryId: entry.id }
+      });
+    }
+
+    return released.map(sack => sack.id);
+  }
 }
 
-export const withdrawalService = new WithdrawalService();
\ No newline at end of file
+export const withdrawalService = new WithdrawalService();
@@ -1,5 +1,6 @@
 import { 
   users, User, InsertUser, 
+  userSettings, otpVerifications,
   warehouses, Warehouse, InsertWarehouse,
   commodities, Commodity, InsertCommodity,
   warehouseReceipts, WarehouseReceipt, InsertWarehouseReceipt,
@@ -10,10 +11,39 @@ import {
   loanApplications, LoanApplication, InsertLoanApplication,
   collateralPledges, CollateralPledge, InsertCollateralPledge,
   loanRepayments, LoanRepayment, InsertLoanRepayment,
+  loanInstalments, LoanInstalment, InsertLoanInstalment,
   userCreditProfiles, UserCreditProfile, InsertUserCreditProfile,
   // Credit withdrawal related imports
   userBankAccounts, UserBankAccount, InsertUserBankAccount,
   creditWithdrawals, CreditWithdrawal, InsertCreditWithdrawal,
+  receiptTransfers, transferTypeEnum,
+  // Dispute (Red Channel) imports
+  disputes, Dispute, InsertDispute,
+  // Receipt lineage imports
+  receiptLineage, ReceiptLineage, InsertReceiptLineage,
+  receiptEndorsements, ReceiptEndorsement, InsertReceiptEndorsement,
+  // Commodity grading specification imports
+  commodityCategories, CommodityCategory, InsertCommodityCategory,
+  commodityPrices, CommodityPrice, InsertCommodityPrice,
+  receiptValuations, ReceiptValuation, InsertReceiptValuation,
+  loanLtvSnapshots, LoanLtvSnapshot, InsertLoanLtvSnapshot,
+  marginCalls, MarginCall, InsertMarginCall, MarginCallStatus,
+  collateralAuctions, CollateralAuction, InsertCollateralAuction, AuctionStatus,
+  auctionBids, AuctionBid, InsertAuctionBid,
+  warehouseTariffs, WarehouseTariff, InsertWarehouseTariff,
+  storageFeeAccruals, StorageFeeAccrual, InsertStorageFeeAccrual,
+  storageInvoices, StorageInvoice, InsertStorageInvoice,
+  ledgerAccounts, LedgerAccount, InsertLedgerAccount,
+  ledgerJournals, LedgerJournal, InsertLedgerJournal,
+  ledgerPostings, LedgerPosting, InsertLedgerPosting,
+  lendingWebhookEvents, LendingWebhookEventRecord, InsertLendingWebhookEvent,
+  pledgeRequests, PledgeRequest, InsertPledgeRequest, loanOffers, LoanOfferRecord, InsertLoanOffer,
+  liens, Lien, InsertLien, LienStatus,
+  kycSubmissions, KycSubmission, InsertKycSubmission,
+  auditEntries, AuditEntry, InsertAuditEntry,
+  auditBlocks, AuditBlock, InsertAuditBlock,
+  smartContracts, SmartContract, InsertSmartContract, SmartContractStatus,
+  spotTrades, SpotTrade, InsertSpotTrade,
   // Enums for lending and loan status
   LendingPartnerType, CollateralStatus, LoanStatus, CreditRating,
   // Sack-level tracking imports
@@ -21,19 +51,24 @@ import {
   sackMovements, SackMovement, InsertSackMovement,
   sackQualityAssessments, SackQualityAssessment, InsertSackQualityAssessment
 } from "@shared/schema";
-import { eq, and, or, desc } from "drizzle-orm";
+import { receiptLiens } from "@shared/auditProof";
+import { eq, and, or, desc, lt, gte, lte, ilike, inArray, isNull, sql } from "drizzle-orm";
 import { db } from "./db";
 
 // Interface for storage operations
+// Transfer types accepted by the receipt_transfers table
+type ReceiptTransferType = (typeof transferTypeEnum.enumValues)[number];
+
 // Receipt transfer interface for blockchain-secured ownership transfers
 export interface ReceiptTransfer {
   id: number;
   receiptId: number;
   fromUserId: number;
   toUserId: number;
-  transferType: 'endorsement' | 'delivery' | 'pledge';
+  transferType: ReceiptTransferType;
   transferDate: Date;
   transactionHash: string;
+  auditEntryId?: number | null;
   metadata?: any;
 }
 
@@ -41,8 +76,9 @@ export interface InsertReceiptTransfer {
   receiptId: number;
   fromUserId: number;
   toUserId: number;
-  transferType: 'endorsement' | 'delivery' | 'pledge';
+  transferType: ReceiptTransferType;
   transactionHash: string;
+  auditEntryId?: number | null;
   metadata?: any;
 }
 
@@ -70,6 +106,7 @@ export interface IStorage {
   getWarehouse(id: number): Promise<Warehouse | undefined>;
   createWarehouse(warehouse: InsertWarehouse): Promise<Warehouse>;
   listWarehouses(): Promise<Warehouse[]>;
+  listWarehousesByOwner(ownerId: number): Promise<Warehouse[]>;
   listWarehousesByLocation(latitude: number, longitude: number, radius: number): Promise<Warehouse[]>;
   getWarehousesByState(state: string): Promise<Warehouse[]>;
   getWarehousesByDistrict(district: string): Promise<Warehouse[]>;
@@ -104,6 +141,11 @@ export interface IStorage {
   updateLoanRepaymentReceipt(id: number, receiptUrl: string, receiptNumber: string): Promise<LoanRepayment | undefined>;
   listLoanRepayments(): Promise<LoanRepayment[]>;
   listLoanRepaymentsByLoan(loanId: number): Promise<LoanRepayment[]>;
+
+  // Loan instalment operations
+  createLoanInstalment(instalment: InsertLoanInstalment): Promise<LoanInstalment>;
+  updateLoanInstalment(id: number, instalment: Partial<InsertLoanInstalment>): Promise<LoanInstalment | undefined>;
+  listLoanInstalments(loanId: number): Promise<LoanInstalment[]>;
   
   // User Credit Profile operations
   getUserCreditProfile(userId: number): Promise<UserCreditProfile | undefined>;
@@ -121,6 +163,7 @@ export interface IStorage {
   getWarehouseReceipt(id: number): Promise<WarehouseReceipt | undefined>;
   getWarehouseReceiptByNumber(receiptNumber: string): Promise<WarehouseReceipt | undefined>;
   getWarehouseReceiptByExternalId(externalId: string, source: string): Promise<WarehouseReceipt | undefined>;
+  getWarehouseReceiptByVerificationCode(verificationCode: string): Promise<WarehouseReceipt | undefined>;
   createWarehouseReceipt(receipt: InsertWarehouseReceipt): Promise<WarehouseReceipt>;
   listWarehouseReceipts(): Promise<WarehouseReceipt[]>;
   listWarehouseReceiptsByOwner(ownerId: number): Promise<WarehouseReceipt[]>;
@@ -148,6 +191,7 @@ export interface IStorage {
   listProcesses(): Promise<Process[]>;
   listProcessesByUser(userId: number): Promise<Process[]>;
   listProcessesByCommodity(commodityId: number): Promise<Process[]>;
+  listProcessesByWarehouse(warehouseId: number): Promise<Process[]>;
   updateProcess(id: number, process: Partial<InsertProcess>): Promise<Process | undefined>;
   
   // Commodity Sack operations
@@ -187,13 +231,288 @@ export interface IStorage {
   updateCreditWithdrawal(id: number, withdrawal: Partial<InsertCreditWithdrawal>): Promise<CreditWithdrawal | undefined>;
   
   // Credit Line operations
-  getAvailableCredit(userId: number): Promise<{
-    totalCollateralValue: number;
-    maxEligibleCredit: number;
-    outstandingBalance: number;
-    availableCredit: number;
-    utilizationPercentage: number;
-  }>;
+  getAvailableCredit(userId: number): Promise<AvailableCreditSummary>;
+  
+  // Dispute operations (Red Channel)
+  getDispute(id: number): Promise<Dispute | undefined>;
+  createDispute(dispute: InsertDispute): Promise<Dispute>;
+  listDisputes(): Promise<Dispute[]>;
+  listDisputesByFiler(userId: number): Promise<Dispute[]>;
+  listDisputesByAssignee(userId: number): Promise<Dispute[]>;
+  listDisputesByReceipt(receiptId: number): Promise<Dispute[]>;
+  updateDispute(id: number, dispute: Partial<InsertDispute> & { resolvedAt?: Date | null }): Promise<Dispute | undefined>;
+
+  // Receipt lineage operations
+  createReceiptLineage(lineage: InsertReceiptLineage): Promise<ReceiptLineage>;
+  listReceiptLineageByParent(receiptId: number): Promise<ReceiptLineage[]>;
+  listReceiptLineageByChild(receiptId: number): Promise<ReceiptLineage[]>;
+
+  // Receipt endorsement operations
+  getReceiptEndorsement(id: number): Promise<ReceiptEndorsement | undefined>;
+  createReceiptEndorsement(endorsement: InsertReceiptEndorsement): Promise<ReceiptEndorsement>;
+  listReceiptEndorsementsByReceipt(receiptId: number): Promise<ReceiptEndorsement[]>;
+  listPendingEndorsementsForUser(userId: number): Promise<ReceiptEndorsement[]>;
+  updateReceiptEndorsement(id: number, endorsement: Partial<InsertReceiptEndorsement>): Promise<ReceiptEndorsement | undefined>;
+
+  // Commodity category operations (grade specifications)
+  getCommodityCategory(id: number): Promise<CommodityCategory | undefined>;
+  getCommodityCategoryByName(name: string): Promise<CommodityCategory | undefined>;
+  listCommodityCategories(): Promise<CommodityCategory[]>;
+  createCommodityCategory(category: InsertCommodityCategory): Promise<CommodityCategory>;
+  updateCommodityCategory(id: number, category: Partial<InsertCommodityCategory>): Promise<CommodityCategory | undefined>;
+
+  // Commodity price history operations
+  createCommodityPrice(price: InsertCommodityPrice): Promise<CommodityPrice>;
+  listCommodityPrices(commodityName: string, options?: { market?: string; since?: Date }): Promise<CommodityPrice[]>;
+
+  // Mark-to-market operations
+  createReceiptValuation(valuation: InsertReceiptValuation): Promise<ReceiptValuation>;
+  listReceiptValuations(receiptId: number): Promise<ReceiptValuation[]>;
+  createLoanLtvSnapshot(snapshot: InsertLoanLtvSnapshot): Promise<LoanLtvSnapshot>;
+  listLoanLtvSnapshots(loanId: number): Promise<LoanLtvSnapshot[]>;
+
+  // Margin call operations
+  getMarginCall(id: number): Promise<MarginCall | undefined>;
+  createMarginCall(marginCall: InsertMarginCall): Promise<MarginCall>;
+  updateMarginCall(id: number, marginCall: Partial<MarginCall>): Promise<MarginCall | undefined>;
+  listMarginCallsByLoan(loanId: number): Promise<MarginCall[]>;
+  listMarginCallsByUser(userId: number): Promise<MarginCall[]>;
+  listMarginCallsByStatus(status: MarginCallStatus): Promise<MarginCall[]>;
+
+  // Liquidation auction operations
+  getCollateralAuction(id: number): Promise<CollateralAuction | undefined>;
+  createCollateralAuction(auction: InsertCollateralAuction): Promise<CollateralAuction>;
+  updateCollateralAuction(id: number, auction: Partial<CollateralAuction>): Promise<CollateralAuction | undefined>;
+  listCollateralAuctions(status?: AuctionStatus): Promise<CollateralAuction[]>;
+  listCollateralAuctionsByLoan(loanId: number): Promise<CollateralAuction[]>;
+  createAuctionBid(bid: InsertAuctionBid): Promise<AuctionBid>;
+  updateAuctionBid(id: number, bid: Partial<AuctionBid>): Promise<AuctionBid | undefined>;
+  listAuctionBids(auctionId: number): Promise<AuctionBid[]>;
+
+  // Double-entry ledger operations
+  getLedgerAccount(id: number): Promise<LedgerAccount | undefined>;
+  getLedgerAccountByCode(code: string): Promise<LedgerAccount | undefined>;
+  createLedgerAccount(account: InsertLedgerAccount): Promise<LedgerAccount>;
+  listLedgerAccounts(userId?: number): Promise<LedgerAccount[]>;
+  getLedgerJournal(id: number): Promise<LedgerJournal | undefined>;
+  getLedgerJournalByReference(reference: string): Promise<LedgerJournal | undefined>;
+  createLedgerJournal(journal: InsertLedgerJournal, postings: InsertLedgerPosting[]): Promise<{ journal: LedgerJournal; postings: LedgerPosting[] }>;
+  listLedgerPostings(accountId?: number): Promise<LedgerPosting[]>;
+
+  // Storage fee billing operations
+  createWarehouseTariff(tariff: InsertWarehouseTariff): Promise<WarehouseTariff>;
+  updateWarehouseTariff(id: number, tariff: Partial<InsertWarehouseTariff>): Promise<WarehouseTariff | undefined>;
+  listWarehouseTariffs(warehouseId: number): Promise<WarehouseTariff[]>;
+  createStorageFeeAccrual(accrual: InsertStorageFeeAccrual): Promise<StorageFeeAccrual>;
+  updateStorageFeeAccrual(id: number, accrual: Partial<InsertStorageFeeAccrual>): Promise<StorageFeeAccrual | undefined>;
+  listStorageFeeAccruals(receiptId: number): Promise<StorageFeeAccrual[]>;
+  getStorageInvoice(id: number): Promise<StorageInvoice | undefined>;
+  createStorageInvoice(invoice: InsertStorageInvoice): Promise<StorageInvoice>;
+  updateStorageInvoice(id: number, invoice: Partial<InsertStorageInvoice>): Promise<StorageInvoice | undefined>;
+  listStorageInvoicesByReceipt(receiptId: number): Promise<StorageInvoice[]>;
+  listStorageInvoicesByUser(userId: number): Promise<StorageInvoice[]>;
+  listStorageInvoicesByWarehouse(warehouseId: number): Promise<StorageInvoice[]>;
+
+  // Lending partner integration operations
+  getLoanApplicationByExternalId(lendingPartnerId: number, externalApplicationId: string): Promise<LoanApplication | undefined>;
+  listLoanApplicationsByStatus(status: LoanApplication['status']): Promise<LoanApplication[]>;
+  getLoanByExternalId(lendingPartnerId: number, externalLoanId: string): Promise<Loan | undefined>;
+  getLendingWebhookEvent(lendingPartnerId: number, eventId: string): Promise<LendingWebhookEventRecord | undefined>;
+  createLendingWebhookEvent(event: InsertLendingWebhookEvent): Promise<LendingWebhookEventRecord>;
+  updateLendingWebhookEvent(id: number, event: Partial<InsertLendingWebhookEvent>): Promise<LendingWebhookEventRecord | undefined>;
+
+  // Loan marketplace operations
+  getPledgeRequest(id: number): Promise<PledgeRequest | undefined>;
+  createPledgeRequest(request: InsertPledgeRequest): Promise<PledgeRequest>;
+  updatePledgeRequest(id: number, request: Partial<InsertPledgeRequest>): Promise<PledgeRequest | undefined>;
+  listPledgeRequestsByUser(userId: number): Promise<PledgeRequest[]>;
+  getLoanOffer(id: number): Promise<LoanOfferRecord | undefined>;
+  createLoanOffer(offer: InsertLoanOffer): Promise<LoanOfferRecord>;
+  updateLoanOffer(id: number, offer: Partial<InsertLoanOffer>): Promise<LoanOfferRecord | undefined>;
+  listLoanOffersByPledgeRequest(pledgeRequestId: number): Promise<LoanOfferRecord[]>;
+
+  // Lien registry operations
+  getLien(id: number): Promise<Lien | undefined>;
+  createLien(lien: InsertLien): Promise<Lien>;
+  updateLien(id: number, lien: Partial<InsertLien>): Promise<Lien | undefined>;
+  listLiensByReceipt(receiptId: number): Promise<Lien[]>;
+  listLiensByLoan(loanId: number): Promise<Lien[]>;
+  listLiensByStatus(status: LienStatus): Promise<Lien[]>;
+
+  // KYC operations
+  getKycSubmission(id: number): Promise<KycSubmission | undefined>;
+  createKycSubmission(submission: InsertKycSubmission): Promise<KycSubmission>;
+  updateKycSubmission(id: number, submission: Partial<InsertKycSubmission>): Promise<KycSubmission | undefined>;
+  listKycSubmissionsByUser(userId: number): Promise<KycSubmission[]>;
+  listKycSubmissionsByStatus(status: KycSubmission['status']): Promise<KycSubmission[]>;
+  listKycSubmissionsByAadhaarHash(aadhaarHash: string): Promise<KycSubmission[]>;
+
+  // Audit ledger operations
+  getAuditEntry(id: number): Promise<AuditEntry | undefined>;
+  getLatestAuditEntry(): Promise<AuditEntry | undefined>;
+  createAuditEntry(entry: InsertAuditEntry): Promise<AuditEntry>;
+  listAuditEntries(): Promise<AuditEntry[]>;
+  listAuditEntriesByEntity(entityType: string, entityId: number): Promise<AuditEntry[]>;
+  listUnsealedAuditEntries(limit: number): Promise<AuditEntry[]>;
+  listAuditEntriesByBlock(blockId: number): Promise<AuditEntry[]>;
+  sealAuditEntries(blockId: number, firstEntryId: number, lastEntryId: number): Promise<void>;
+  getAuditBlock(id: number): Promise<AuditBlock | undefined>;
+  getLatestAuditBlock(): Promise<AuditBlock | undefined>;
+  createAuditBlock(block: InsertAuditBlock): Promise<AuditBlock>;
+  listAuditBlocks(): Promise<AuditBlock[]>;
+
+  // Smart contract operations
+  getSmartContract(id: number): Promise<SmartContract | undefined>;
+  getSmartContractByContractId(contractId: string): Promise<SmartContract | undefined>;
+  createSmartContract(contract: InsertSmartContract): Promise<SmartContract>;
+  updateSmartContract(id: number, contract: Partial<InsertSmartContract>): Promise<SmartContract | undefined>;
+  listSmartContracts(): Promise<SmartContract[]>;
+  listSmartContractsByStatus(status: SmartContractStatus): Promise<SmartContract[]>;
+  listSmartContractsByLoan(loanId: number): Promise<SmartContract[]>;
+
+  // Spot trade operations
+  getSpotTrade(id: number): Promise<SpotTrade | undefined>;
+  createSpotTrade(trade: InsertSpotTrade): Promise<SpotTrade>;
+  updateSpotTrade(id: number, trade: Partial<InsertSpotTrade>): Promise<SpotTrade | undefined>;
+  listSpotTradesByUser(userId: number): Promise<SpotTrade[]>;
+  listSpotTradesByReceipt(receiptId: number): Promise<SpotTrade[]>;
+}
+
+// Credit line summary returned by getAvailableCredit
+export interface AvailableCreditSummary {
+  totalCollateralValue: number;
+  maxEligibleCredit: number;
+  outstandingBalance: number;
+  availableCredit: number;
+  utilizationPercentage: number;
+}
+
+// Shared helpers used by both storage implementations
+
+function getDefaultUserSettings() {
+  return {
+    notifications: {
+      email: true,
+      sms: true,
+      push: true,
+      depositUpdates: true,
+      receiptGeneration: true,
+      loanAlerts: true,
+      priceAlerts: false
+    },
+    preferences: {
+      language: 'en-in',
+      currency: 'INR',
+      timezone: 'Asia/Kolkata',
+      theme: 'light',
+      dashboardLayout: 'default'
+    },
+    security: {
+      twoFactorEnabled: false,
+      sessionTimeout: 60,
+      loginNotifications: true
+    }
+  };
+}
+
+// FIXED: Ensure valuation defaults to Rs 50/kg if not provided (1 MT = 1000 kg)
+function getDefaultReceiptValuation(quantity: InsertWarehouseReceipt['quantity']): string {
+  const parsedQuantity = parseFloat(quantity?.toString() || '0');
+  return (parsedQuantity * 1000 * 50).toString();
+}
+
+async function buildMandiWarehouseInserts(): Promise<InsertWarehouse[]> {
+  const { panIndiaMandiWarehouses } = await import('./data/mandi-warehouse-data');
+  
+  return panIndiaMandiWarehouses.map(mandiData => ({
+    name: `${mandiData.mandiName} TradeWiser Warehouse`,
+    mandiName: mandiData.mandiName,
+    address: `Agricultural Market Complex, ${mandiData.mandiName}, ${mandiData.district}`,
+    city: mandiData.mandiName,
+    district: mandiData.district,
+    state: mandiData.state,
+    pincode: mandiData.pincode || "000000",
+    latitude: mandiData.latitude?.toString() || "0",
+    longitude: mandiData.longitude?.toString() || "0",
+    capacity: mandiData.capacity.toString(),
+    availableSpace: (mandiData.capacity * 0.8).toString(), // 80% available initially
+    channelType: "green",
+    warehouseType: mandiData.warehouseType,
+    regulationStatus: mandiData.regulationStatus,
+    nearestRailwayStation: mandiData.nearestRailwayStation,
+    railwayDistance: mandiData.railwayDistance.toString(),
+    hasGodownFacilities: mandiData.hasGodownFacilities,
+    hasColdStorage: mandiData.hasColdStorage,
+    hasGradingFacility: false, // Default to false for now
+    phoneNumber: mandiData.phoneNumber,
+    primaryCommodities: mandiData.primaryCommodities,
+    specializations: [],
+    facilities: [],
+    ownerId: 1, // Default to test user
+    isActive: true,
+    verificationStatus: "verified"
+  }));
+}
+
+function buildDemoBankAccounts(userId: number): InsertUserBankAccount[] {
+  return [
+    {
+      userId,
+      accountNumber: '1234567890123456',
+      ifscCode: 'SBIN0001234',
+      accountHolderName: 'Demo User Account',
+      bankName: 'State Bank of India',
+      branchName: 'Main Branch',
+      accountType: 'savings' as const,
+      isDefault: true,
+      isVerified: true
+    },
+    {
+      userId,
+      accountNumber: '9876543210987654',
+      ifscCode: 'HDFC0001234',
+      accountHolderName: 'Demo User Business Account',
+      bankName: 'HDFC Bank',
+      branchName: 'Commercial Branch',
+      accountType: 'current' as const,
+      isDefault: false,
+      isVerified: true
+    }
+  ];
+}
+
+function calculateAvailableCredit(receipts: WarehouseReceipt[], userLoans: Loan[]): AvailableCreditSummary {
+  // Only active warehouse receipts count towards collateral
+  const activeReceipts = receipts.filter(receipt => receipt.status === 'active');
+  
+  // Calculate total collateral value
+  const totalCollateralValue = activeReceipts.reduce((sum, receipt) => {
+    return sum + parseFloat(receipt.valuation || '0');
+  }, 0);
+  
+  // Calculate maximum eligible credit (80% LTV ratio)
+  const LTV_RATIO = 0.8;
+  const maxEligibleCredit = totalCollateralValue * LTV_RATIO;
+  
+  // Calculate outstanding balance from all active loans
+  const activeLoans = userLoans.filter(loan => loan.status === 'active');
+  const outstandingBalance = activeLoans.reduce((sum, loan) => {
+    return sum + parseFloat(loan.outstandingAmount || '0');
+  }, 0);
+  
+  // Calculate available credit
+  const availableCredit = Math.max(0, maxEligibleCredit - outstandingBalance);
+  
+  // Calculate utilization percentage
+  const utilizationPercentage = maxEligibleCredit > 0 ? (outstandingBalance / maxEligibleCredit) * 100 : 0;
+  
+  return {
+    totalCollateralValue,
+    maxEligibleCredit,
+    outstandingBalance,
+    availableCredit,
+    utilizationPercentage: Math.round(utilizationPercentage * 100) / 100 // Round to 2 decimal places
+  };
 }
 
 // In-memory storage implementation
@@ -210,6 +529,7 @@ export class MemStorage implements IStorage {
   private loanApplications: Map<number, LoanApplication>;
   private collateralPledges: Map<number, CollateralPledge>;
   private loanRepayments: Map<number, LoanRepayment>;
+  private loanInstalments: Map<number, LoanInstalment>;
   private userCreditProfiles: Map<number, UserCreditProfile>;
   
   // Sack-level tracking maps
@@ -221,6 +541,33 @@ export class MemStorage implements IStorage {
   private userBankAccounts: Map<number, UserBankAccount>;
   private creditWithdrawals: Map<number, CreditWithdrawal>;
   
+  // Dispute map
+  private disputes: Map<number, Dispute>;
+  private commodityCategories: Map<number, CommodityCategory>;
+  private receiptLineage: Map<number, ReceiptLineage>;
+  private receiptEndorsements: Map<number, ReceiptEndorsement>;
+  private commodityPrices: Map<number, CommodityPrice>;
+  private receiptValuations: Map<number, ReceiptValuation>;
+  private loanLtvSnapshots: Map<number, LoanLtvSnapshot>;
+  private marginCalls: Map<number, MarginCall>;
+  private collateralAuctions: Map<number, CollateralAuction>;
+  private auctionBids: Map<number, AuctionBid>;
+  private warehouseTariffs: Map<number, WarehouseTariff>;
+  private storageFeeAccruals: Map<number, StorageFeeAccrual>;
+  private storageInvoices: Map<number, StorageInvoice>;
+  private lendingWebhookEvents: Map<number, LendingWebhookEventRecord>;
+  private pledgeRequests: Map<number, PledgeRequest>;
+  private loanOffers: Map<number, LoanOfferRecord>;
+  private liens: Map<number, Lien>;
+  private kycSubmissions: Map<number, KycSubmission>;
+  private auditEntries: Map<number, AuditEntry>;
+  private auditBlocks: Map<number, AuditBlock>;
+  private smartContracts: Map<number, SmartContract>;
+  private spotTrades: Map<number, SpotTrade>;
+  private ledgerAccounts: Map<number, LedgerAccount>;
+  private ledgerJournals: Map<number, LedgerJournal>;
+  private ledgerPostings: Map<number, LedgerPosting>;
+  
   // ID counters
   private currentUserId: number;
   private currentWarehouseId: number;
@@ -234,6 +581,7 @@ export class MemStorage implements IStorage {
   private currentLoanApplicationId: number;
   private currentCollateralPledgeId: number;
   private currentLoanRepaymentId: number;
+  private currentLoanInstalmentId: number;
   private currentUserCreditProfileId: number;
   
   // ID counters for sack-level tracking entities
@@ -244,6 +592,31 @@ export class MemStorage implements IStorage {
   // ID counters for credit withdrawal related entities
   private currentBankAccountId: number;
   private currentCreditWithdrawalId: number;
+  private currentDisputeId: number;
+  private currentCommodityCategoryId: number;
+  private currentReceiptLineageId: number;
+  private currentReceiptEndorsementId: number;
+  private currentCommodityPriceId: number;
+  private currentReceiptValuationId: number;
+  private currentLoanLtvSnapshotId: number;
+  private currentMarginCallId: number;
+  private currentCollateralAuctionId: number;
+  private currentAuctionBidId: number;
+  private currentWarehouseTariffId: number;
+  private currentStorageFeeAccrualId: number;
+  private currentStorageInvoiceId: number;
+  private currentLendingWebhookEventId: number;
+  private currentPledgeRequestId: number;
+  private currentLoanOfferId: number;
+  private currentLienId: number;
+  private currentKycSubmissionId: number;
+  private currentAuditEntryId: number;
+  private currentAuditBlockId: number;
+  private currentSmartContractId: number;
+  private currentSpotTradeId: number;
+  private currentLedgerAccountId: number;
+  private currentLedgerJournalId: number;
+  private currentLedgerPostingId: number;
   
   constructor() {
     this.users = new Map();
@@ -258,6 +631,7 @@ export class MemStorage implements IStorage {
     this.loanApplications = new Map();
     this.collateralPledges = new Map();
     this.loanRepayments = new Map();
+    this.loanInstalments = new Map();
     this.userCreditProfiles = new Map();
     
     // Initialize maps for sack-level tracking
@@ -268,6 +642,31 @@ export class MemStorage implements IStorage {
     // Initialize maps for credit withdrawal related entities
     this.userBankAccounts = new Map();
     this.creditWithdrawals = new Map();
+    this.disputes = new Map();
+    this.commodityCategories = new Map();
+    this.receiptLineage = new Map();
+    this.receiptEndorsements = new Map();
+    this.commodityPrices = new Map();
+    this.receiptValuations = new Map();
+    this.loanLtvSnapshots = new Map();
+    this.marginCalls = new Map();
+    this.collateralAuctions = new Map();
+    this.auctionBids = new Map();
+    this.warehouseTariffs = new Map();
+    this.storageFeeAccruals = new Map();
+    this.storageInvoices = new Map();
+    this.lendingWebhookEvents = new Map();
+    this.pledgeRequests = new Map();
+    this.loanOffers = new Map();
+    this.liens = new Map();
+    this.kycSubmissions = new Map();
+    this.auditEntries = new Map();
+    this.auditBlocks = new Map();
+    this.smartContracts = new Map();
+    this.spotTrades = new Map();
+    this.ledgerAccounts = new Map();
+    this.ledgerJournals = new Map();
+    this.ledgerPostings = new Map();
     
     // Set starting ID counters
     this.currentUserId = 1;
@@ -373,6 +772,7 @@ export class MemStorage implements IStorage {
     this.currentLoanApplicationId = 1;
     this.currentCollateralPledgeId = 1;
     this.currentLoanRepaymentId = 1;
+    this.currentLoanInstalmentId = 1;
     this.currentUserCreditProfileId = 1;
     
     // Set starting IDs for sack-level tracking entities
@@ -381,6 +781,31 @@ export class MemStorage implements IStorage {
     this.currentSackQualityAssessmentId = 1;
     this.currentBankAccountId = 1;
     this.currentCreditWithdrawalId = 1;
+    this.currentDisputeId = 1;
+    this.currentCommodityCategoryId = 1;
+    this.currentReceiptLineageId = 1;
+    this.currentReceiptEndorsementId = 1;
+    this.currentCommodityPriceId = 1;
+    this.currentReceiptValuationId = 1;
+    this.currentLoanLtvSnapshotId = 1;
+    this.currentMarginCallId = 1;
+    this.currentCollateralAuctionId = 1;
+    this.currentAuctionBidId = 1;
+    this.currentWarehouseTariffId = 1;
+    this.currentStorageFeeAccrualId = 1;
+    this.currentStorageInvoiceId = 1;
+    this.currentLendingWebhookEventId = 1;
+    this.currentPledgeRequestId = 1;
+    this.currentLoanOfferId = 1;
+    this.currentLienId = 1;
+    this.currentKycSubmissionId = 1;
+    this.currentAuditEntryId = 1;
+    this.currentAuditBlockId = 1;
+    this.currentSmartContractId = 1;
+    this.currentSpotTradeId = 1;
+    this.currentLedgerAccountId = 1;
+    this.currentLedgerJournalId = 1;
+    this.currentLedgerPostingId = 1;
   }
   
   // Lending Partner operations
@@ -529,6 +954,36 @@ export class MemStorage implements IStorage {
       repayment => repayment.loanId === loanId
     );
   }
+
+  // Loan instalment operations
+  async createLoanInstalment(insertInstalment: InsertLoanInstalment): Promise<LoanInstalment> {
+    const id = this.currentLoanInstalmentId++;
+    const instalment: LoanInstalment = {
+      ...insertInstalment,
+      id,
+      amountPaid: insertInstalment.amountPaid ?? '0',
+      penalAccrued: insertInstalment.penalAccrued ?? '0',
+      status: insertInstalment.status ?? 'pending',
+      paidAt: insertInstalment.paidAt ?? null
+    };
+    this.loanInstalments.set(id, instalment);
+    return instalment;
+  }
+
+  async updateLoanInstalment(id: number, instalmentData: Partial<InsertLoanInstalment>): Promise<LoanInstalment | undefined> {
+    const instalment = this.loanInstalments.get(id);
+    if (!instalment) return undefined;
+
+    const updated = { ...instalment, ...instalmentData, id };
+    this.loanInstalments.set(id, updated);
+    return updated;
+  }
+
+  async listLoanInstalments(loanId: number): Promise<LoanInstalment[]> {
+    return Array.from(this.loanInstalments.values())
+      .filter(instalment => instalment.loanId === loanId)
+      .sort((a, b) => a.sequence - b.sequence || a.id - b.id);
+  }
   
   // User Credit Profile operations
   async getUserCreditProfile(userId: number): Promise<UserCreditProfile | undefined> {
@@ -629,29 +1084,7 @@ export class MemStorage implements IStorage {
     }
     
     // Return default settings if none exist
-    const defaultSettings = {
-      notifications: {
-        email: true,
-        sms: true,
-        push: true,
-        depositUpdates: true,
-        receiptGeneration: true,
-        loanAlerts: true,
-        priceAlerts: false
-      },
-      preferences: {
-        language: 'en-in',
-        currency: 'INR',
-        timezone: 'Asia/Kolkata',
-        theme: 'light',
-        dashboardLayout: 'default'
-      },
-      security: {
-        twoFactorEnabled: false,
-        sessionTimeout: 60,
-        loginNotifications: true
-      }
-    };
+    const defaultSettings = getDefaultUserSettings();
     
     this.userSettings.set(userId, defaultSettings);
     return defaultSettings;
@@ -726,6 +1159,12 @@ export class MemStorage implements IStorage {
     return Array.from(this.warehouses.values());
   }
   
+  async listWarehousesByOwner(ownerId: number): Promise<Warehouse[]> {
+    return Array.from(this.warehouses.values()).filter(
+      warehouse => warehouse.ownerId === ownerId
+    );
+  }
+  
   async listWarehousesByLocation(latitude: number, longitude: number, radius: number): Promise<Warehouse[]> {
     // Simple distance calculation (this would be more sophisticated in a real app)
     return Array.from(this.warehouses.values()).filter(warehouse => {
@@ -770,42 +1209,10 @@ export class MemStorage implements IStorage {
   }
 
   async seedMandiWarehouses(): Promise<number> {
-    const { panIndiaMandiWarehouses } = await import('./data/mandi-warehouse-data');
+    const mandiWarehouses = await buildMandiWarehouseInserts();
     
     let seededCount = 0;
-    for (const mandiData of panIndiaMandiWarehouses) {
-      const warehouseName = `${mandiData.mandiName} TradeWiser Warehouse`;
-      const address = `Agricultural Market Complex, ${mandiData.mandiName}, ${mandiData.district}`;
-      
-      const insertWarehouse: InsertWarehouse = {
-        name: warehouseName,
-        mandiName: mandiData.mandiName,
-        address: address,
-        city: mandiData.mandiName,
-        district: mandiData.district,
-        state: mandiData.state,
-        pincode: mandiData.pincode || "000000",
-        latitude: mandiData.latitude?.toString() || "0",
-        longitude: mandiData.longitude?.toString() || "0",
-        capacity: mandiData.capacity.toString(),
-        availableSpace: (mandiData.capacity * 0.8).toString(), // 80% available initially
-        channelType: "green",
-        warehouseType: mandiData.warehouseType,
-        regulationStatus: mandiData.regulationStatus,
-        nearestRailwayStation: mandiData.nearestRailwayStation,
-        railwayDistance: mandiData.railwayDistance.toString(),
-        hasGodownFacilities: mandiData.hasGodownFacilities,
-        hasColdStorage: mandiData.hasColdStorage,
-        hasGradingFacility: false, // Default to false for now
-        phoneNumber: mandiData.phoneNumber,
-        primaryCommodities: mandiData.primaryCommodities,
-        specializations: [],
-        facilities: [],
-        ownerId: 1, // Default to test user
-        isActive: true,
-        verificationStatus: "verified"
-      };
-      
+    for (const insertWarehouse of mandiWarehouses) {
       await this.createWarehouse(insertWarehouse);
       seededCount++;
     }
@@ -871,15 +1278,17 @@ export class MemStorage implements IStorage {
       receipt => receipt.externalId === externalId && receipt.externalSource === source
     );
   }
+
+  async getWarehouseReceiptByVerificationCode(verificationCode: string): Promise<WarehouseReceipt | undefined> {
+    return Array.from(this.warehouseReceipts.values()).find(
+      receipt => receiptLiens(receipt.liens).verificationCode === verificationCode
+    );
+  }
   
   async createWarehouseReceipt(insertReceipt: InsertWarehouseReceipt): Promise<WarehouseReceipt> {
     const id = this.currentReceiptId++;
     const now = new Date();
     
-    // FIXED: Ensure valuation defaults to Rs 50/kg if not provided (1 MT = 1000 kg)
-    const quantity = parseFloat(insertReceipt.quantity?.toString() || '0');
-    const defaultValuation = (quantity * 1000 * 50).toString();
-    
     const receipt: WarehouseReceipt = { 
       ...insertReceipt, 
       id, 
@@ -887,7 +1296,8 @@ export class MemStorage implements IStorage {
       status: insertReceipt.status || 'active',
       ownerId: insertReceipt.ownerId || null,
       measurementUnit: insertReceipt.measurementUnit || null,
-      valuation: insertReceipt.valuation || defaultValuation  // FIXED: Proper valuation handling
+      receiptType: insertReceipt.receiptType || 'negotiable',
+      valuation: insertReceipt.valuation || getDefaultReceiptValuation(insertReceipt.quantity)  // FIXED: Proper valuation handling
     };
     this.warehouseReceipts.set(id, receipt);
     return receipt;
@@ -952,7 +1362,13 @@ export class MemStorage implements IStorage {
       startDate: now,
       status: insertLoan.status || 'approved', // Ensure status is set
       userId: insertLoan.userId || null,
-      lendingPartnerId: insertLoan.lendingPartnerId || null
+      lendingPartnerId: insertLoan.lendingPartnerId || null,
+      repaymentType: insertLoan.repaymentType ?? 'emi',
+      tenureMonths: insertLoan.tenureMonths ?? null,
+      penalRate: insertLoan.penalRate ?? '24.00',
+      accruedInterest: insertLoan.accruedInterest ?? '0',
+      penalInterest: insertLoan.penalInterest ?? '0',
+      interestAccruedTo: insertLoan.interestAccruedTo ?? null
     };
     this.loans.set(id, loan);
     return loan;
@@ -1042,6 +1458,12 @@ export class MemStorage implements IStorage {
     );
   }
   
+  async listProcessesByWarehouse(warehouseId: number): Promise<Process[]> {
+    return Array.from(this.processes.values()).filter(
+      process => process.warehouseId === warehouseId
+    );
+  }
+  
   async updateProcess(id: number, processData: Partial<InsertProcess>): Promise<Process | undefined> {
     const process = await this.getProcess(id);
     if (!process) return undefined;
@@ -1235,30 +1657,7 @@ export class MemStorage implements IStorage {
     }
 
     // Create demo bank accounts for the user
-    const demoAccounts = [
-      {
-        userId,
-        accountNumber: '1234567890123456',
-        ifscCode: 'SBIN0001234',
-        accountHolderName: 'Demo User Account',
-        bankName: 'State Bank of India',
-        branchName: 'Main Branch',
-        accountType: 'savings' as const,
-        isDefault: true,
-        isVerified: true
-      },
-      {
-        userId,
-        accountNumber: '9876543210987654',
-        ifscCode: 'HDFC0001234',
-        accountHolderName: 'Demo User Business Account',
-        bankName: 'HDFC Bank',
-        branchName: 'Commercial Branch',
-        accountType: 'current' as const,
-        isDefault: false,
-        isVerified: true
-      }
-    ];
+    const demoAccounts = buildDemoBankAccounts(userId);
 
     const createdAccounts: UserBankAccount[] = [];
     for (const accountData of demoAccounts) {
@@ -1313,47 +1712,2260 @@ export class MemStorage implements IStorage {
   }
 
   // Credit Line operations
-  async getAvailableCredit(userId: number): Promise<{
-    totalCollateralValue: number;
-    maxEligibleCredit: number;
-    outstandingBalance: number;
-    availableCredit: number;
-    utilizationPercentage: number;
-  }> {
-    // Get all active warehouse receipts for the user
+  async getAvailableCredit(userId: number): Promise<AvailableCreditSummary> {
     const receipts = await this.listWarehouseReceiptsByOwner(userId);
-    const activeReceipts = receipts.filter(receipt => receipt.status === 'active');
-    
-    // Calculate total collateral value
-    const totalCollateralValue = activeReceipts.reduce((sum, receipt) => {
-      return sum + parseFloat(receipt.valuation || '0');
-    }, 0);
-    
-    // Calculate maximum eligible credit (80% LTV ratio)
-    const LTV_RATIO = 0.8;
-    const maxEligibleCredit = totalCollateralValue * LTV_RATIO;
-    
-    // Calculate outstanding balance from all active loans
     const userLoans = await this.listLoansByUser(userId);
-    const activeLoans = userLoans.filter(loan => loan.status === 'active');
-    const outstandingBalance = activeLoans.reduce((sum, loan) => {
-      return sum + parseFloat(loan.outstandingAmount || '0');
-    }, 0);
-    
-    // Calculate available credit
-    const availableCredit = Math.max(0, maxEligibleCredit - outstandingBalance);
-    
-    // Calculate utilization percentage
-    const utilizationPercentage = maxEligibleCredit > 0 ? (outstandingBalance / maxEligibleCredit) * 100 : 0;
+    return calculateAvailableCredit(receipts, userLoans);
+  }
+
+  // Dispute operations
+  async getDispute(id: number): Promise<Dispute | undefined> {
+    return this.disputes.get(id);
+  }
+
+  async createDispute(insertDispute: InsertDispute): Promise<Dispute> {
+    const id = this.currentDisputeId++;
+    const now = new Date();
+    const dispute: Dispute = {
+      ...insertDispute,
+      id,
+      assigneeId: insertDispute.assigneeId ?? null,
+      priority: insertDispute.priority || 'medium',
+      status: insertDispute.status || 'filed',
+      evidenceRequest: insertDispute.evidenceRequest ?? null,
+      evidence: insertDispute.evidence ?? [],
+      history: insertDispute.history ?? [],
+      resolutionNote: insertDispute.resolutionNote ?? null,
+      createdAt: now,
+      updatedAt: now,
+      resolvedAt: null
+    };
+    this.disputes.set(id, dispute);
+    return dispute;
+  }
+
+  async listDisputes(): Promise<Dispute[]> {
+    return Array.from(this.disputes.values());
+  }
+
+  async listDisputesByFiler(userId: number): Promise<Dispute[]> {
+    return Array.from(this.disputes.values()).filter(
+      dispute => dispute.filedBy === userId
+    );
+  }
+
+  async listDisputesByAssignee(userId: number): Promise<Dispute[]> {
+    return Array.from(this.disputes.values()).filter(
+      dispute => dispute.assigneeId === userId
+    );
+  }
+
+  async listDisputesByReceipt(receiptId: number): Promise<Dispute[]> {
+    return Array.from(this.disputes.values()).filter(
+      dispute => dispute.receiptId === receiptId
+    );
+  }
+
+  async updateDispute(id: number, disputeData: Partial<InsertDispute> & { resolvedAt?: Date | null }): Promise<Dispute | undefined> {
+    const dispute = await this.getDispute(id);
+    if (!dispute) return undefined;
     
-    return {
-      totalCollateralValue,
-      maxEligibleCredit,
-      outstandingBalance,
-      availableCredit,
-      utilizationPercentage: Math.round(utilizationPercentage * 100) / 100 // Round to 2 decimal places
+    const updatedDispute: Dispute = { ...dispute, ...disputeData, updatedAt: new Date() };
+    this.disputes.set(id, updatedDispute);
+    return updatedDispute;
+  }
+
+  // Receipt lineage operations
+  async createReceiptLineage(insertLineage: InsertReceiptLineage): Promise<ReceiptLineage> {
+    const id = this.currentReceiptLineageId++;
+    const lineage: ReceiptLineage = {
+      ...insertLineage,
+      id,
+      processId: insertLineage.processId ?? null,
+      createdBy: insertLineage.createdBy ?? null,
+      metadata: insertLineage.metadata ?? null,
+      createdAt: new Date()
+    };
+    this.receiptLineage.set(id, lineage);
+    return lineage;
+  }
+
+  async listReceiptLineageByParent(receiptId: number): Promise<ReceiptLineage[]> {
+    return Array.from(this.receiptLineage.values()).filter(
+      lineage => lineage.parentReceiptId === receiptId
+    );
+  }
+
+  async listReceiptLineageByChild(receiptId: number): Promise<ReceiptLineage[]> {
+    return Array.from(this.receiptLineage.values()).filter(
+      lineage => lineage.childReceiptId === receiptId
+    );
+  }
+
+  // Receipt endorsement operations
+  async getReceiptEndorsement(id: number): Promise<ReceiptEndorsement | undefined> {
+    return this.receiptEndorsements.get(id);
+  }
+
+  async createReceiptEndorsement(insertEndorsement: InsertReceiptEndorsement): Promise<ReceiptEndorsement> {
+    const id = this.currentReceiptEndorsementId++;
+    const endorsement: ReceiptEndorsement = {
+      ...insertEndorsement,
+      id,
+      status: insertEndorsement.status || 'pending',
+      note: insertEndorsement.note ?? null,
+      transferId: insertEndorsement.transferId ?? null,
+      responseNote: insertEndorsement.responseNote ?? null,
+      respondedAt: insertEndorsement.respondedAt ?? null,
+      createdAt: new Date()
+    };
+    this.receiptEndorsements.set(id, endorsement);
+    return endorsement;
+  }
+
+  async listReceiptEndorsementsByReceipt(receiptId: number): Promise<ReceiptEndorsement[]> {
+    return Array.from(this.receiptEndorsements.values())
+      .filter(endorsement => endorsement.receiptId === receiptId)
+      .sort((a, b) => a.id - b.id);
+  }
+
+  async listPendingEndorsementsForUser(userId: number): Promise<ReceiptEndorsement[]> {
+    return Array.from(this.receiptEndorsements.values()).filter(
+      endorsement => endorsement.endorseeId === userId && endorsement.status === 'pending'
+    );
+  }
+
+  async updateReceiptEndorsement(id: number, endorsementData: Partial<InsertReceiptEndorsement>): Promise<ReceiptEndorsement | undefined> {
+    const endorsement = this.receiptEndorsements.get(id);
+    if (!endorsement) return undefined;
+
+    const updatedEndorsement: ReceiptEndorsement = { ...endorsement, ...endorsementData };
+    this.receiptEndorsements.set(id, updatedEndorsement);
+    return updatedEndorsement;
+  }
+
+  // Commodity category operations
+  async getCommodityCategory(id: number): Promise<CommodityCategory | undefined> {
+    return this.commodityCategories.get(id);
+  }
+
+  async getCommodityCategoryByName(name: string): Promise<CommodityCategory | undefined> {
+    return Array.from(this.commodityCategories.values()).find(
+      category => category.name.toLowerCase() === name.toLowerCase()
+    );
+  }
+
+  async listCommodityCategories(): Promise<CommodityCategory[]> {
+    return Array.from(this.commodityCategories.values());
+  }
+
+  async createCommodityCategory(insertCategory: InsertCommodityCategory): Promise<CommodityCategory> {
+    const id = this.currentCommodityCategoryId++;
+    const category: CommodityCategory = { ...insertCategory, id, createdAt: new Date() };
+    this.commodityCategories.set(id, category);
+    return category;
+  }
+
+  async updateCommodityCategory(id: number, categoryData: Partial<InsertCommodityCategory>): Promise<CommodityCategory | undefined> {
+    const category = await this.getCommodityCategory(id);
+    if (!category) return undefined;
+
+    const updatedCategory: CommodityCategory = { ...category, ...categoryData };
+    this.commodityCategories.set(id, updatedCategory);
+    return updatedCategory;
+  }
+
+  // Commodity price history operations
+  async createCommodityPrice(insertPrice: InsertCommodityPrice): Promise<CommodityPrice> {
+    const id = this.currentCommodityPriceId++;
+    const price: CommodityPrice = {
+      ...insertPrice,
+      id,
+      variety: insertPrice.variety ?? null,
+      district: insertPrice.district ?? null,
+      state: insertPrice.state ?? null,
+      minPrice: insertPrice.minPrice ?? null,
+      maxPrice: insertPrice.maxPrice ?? null,
+      fetchedAt: new Date()
+    };
+    this.commodityPrices.set(id, price);
+    return price;
+  }
+
+  async listCommodityPrices(commodityName: string, options: { market?: string; since?: Date } = {}): Promise<CommodityPrice[]> {
+    return Array.from(this.commodityPrices.values())
+      .filter(price =>
+        price.commodityName.toLowerCase() === commodityName.toLowerCase() &&
+        (!options.market || price.market.toLowerCase() === options.market.toLowerCase()) &&
+        (!options.since || price.priceDate >= options.since)
+      )
+      .sort((a, b) => b.priceDate.getTime() - a.priceDate.getTime());
+  }
+
+  // Mark-to-market operations
+  async createReceiptValuation(insertValuation: InsertReceiptValuation): Promise<ReceiptValuation> {
+    const id = this.currentReceiptValuationId++;
+    const valuation: ReceiptValuation = {
+      ...insertValuation,
+      id,
+      previousValuation: insertValuation.previousValuation ?? null,
+      pricePerUnit: insertValuation.pricePerUnit ?? null,
+      deductionPercent: insertValuation.deductionPercent ?? null,
+      priceScope: insertValuation.priceScope ?? null,
+      priceSource: insertValuation.priceSource ?? null,
+      priceDate: insertValuation.priceDate ?? null,
+      valuedAt: new Date()
+    };
+    this.receiptValuations.set(id, valuation);
+    return valuation;
+  }
+
+  async listReceiptValuations(receiptId: number): Promise<ReceiptValuation[]> {
+    return Array.from(this.receiptValuations.values())
+      .filter(valuation => valuation.receiptId === receiptId)
+      .sort((a, b) => b.id - a.id);
+  }
+
+  async createLoanLtvSnapshot(insertSnapshot: InsertLoanLtvSnapshot): Promise<LoanLtvSnapshot> {
+    const id = this.currentLoanLtvSnapshotId++;
+    const snapshot: LoanLtvSnapshot = { ...insertSnapshot, id, recordedAt: new Date() };
+    this.loanLtvSnapshots.set(id, snapshot);
+    return snapshot;
+  }
+
+  async listLoanLtvSnapshots(loanId: number): Promise<LoanLtvSnapshot[]> {
+    return Array.from(this.loanLtvSnapshots.values())
+      .filter(snapshot => snapshot.loanId === loanId)
+      .sort((a, b) => b.id - a.id);
+  }
+
+  // Margin call operations
+  async getMarginCall(id: number): Promise<MarginCall | undefined> {
+    return this.marginCalls.get(id);
+  }
+
+  async createMarginCall(insertMarginCall: InsertMarginCall): Promise<MarginCall> {
+    const id = this.currentMarginCallId++;
+    const marginCall: MarginCall = {
+      ...insertMarginCall,
+      id,
+      status: insertMarginCall.status ?? 'open',
+      cureMethod: insertMarginCall.cureMethod ?? null,
+      resolvedAt: insertMarginCall.resolvedAt ?? null,
+      createdAt: new Date()
+    };
+    this.marginCalls.set(id, marginCall);
+    return marginCall;
+  }
+
+  async updateMarginCall(id: number, marginCallData: Partial<MarginCall>): Promise<MarginCall | undefined> {
+    const marginCall = this.marginCalls.get(id);
+    if (!marginCall) return undefined;
+
+    const updated = { ...marginCall, ...marginCallData, id };
+    this.marginCalls.set(id, updated);
+    return updated;
+  }
+
+  async listMarginCallsByLoan(loanId: number): Promise<MarginCall[]> {
+    return Array.from(this.marginCalls.values())
+      .filter(marginCall => marginCall.loanId === loanId)
+      .sort((a, b) => b.id - a.id);
+  }
+
+  async listMarginCallsByUser(userId: number): Promise<MarginCall[]> {
+    return Array.from(this.marginCalls.values())
+      .filter(marginCall => marginCall.userId === userId)
+      .sort((a, b) => b.id - a.id);
+  }
+
+  async listMarginCallsByStatus(status: MarginCallStatus): Promise<MarginCall[]> {
+    return Array.from(this.marginCalls.values())
+      .filter(marginCall => marginCall.status === status)
+      .sort((a, b) => a.deadline.getTime() - b.deadline.getTime());
+  }
+
+  // Liquidation auction operations
+  async getCollateralAuction(id: number): Promise<CollateralAuction | undefined> {
+    return this.collateralAuctions.get(id);
+  }
+
+  async createCollateralAuction(insertAuction: InsertCollateralAuction): Promise<CollateralAuction> {
+    const id = this.currentCollateralAuctionId++;
+    const auction: CollateralAuction = {
+      ...insertAuction,
+      id,
+      status: insertAuction.status ?? 'open',
+      startsAt: insertAuction.startsAt ?? new Date(),
+      winningBidId: insertAuction.winningBidId ?? null,
+      settlement: insertAuction.settlement ?? null,
+      createdBy: insertAuction.createdBy ?? null,
+      settledAt: insertAuction.settledAt ?? null,
+      createdAt: new Date()
+    };
+    this.collateralAuctions.set(id, auction);
+    return auction;
+  }
+
+  async updateCollateralAuction(id: number, auctionData: Partial<CollateralAuction>): Promise<CollateralAuction | undefined> {
+    const auction = this.collateralAuctions.get(id);
+    if (!auction) return undefined;
+
+    const updated = { ...auction, ...auctionData, id };
+    this.collateralAuctions.set(id, updated);
+    return updated;
+  }
+
+  async listCollateralAuctions(status?: AuctionStatus): Promise<CollateralAuction[]> {
+    return Array.from(this.collateralAuctions.values())
+      .filter(auction => !status || auction.status === status)
+      .sort((a, b) => a.endsAt.getTime() - b.endsAt.getTime());
+  }
+
+  async listCollateralAuctionsByLoan(loanId: number): Promise<CollateralAuction[]> {
+    return Array.from(this.collateralAuctions.values())
+      .filter(auction => auction.loanId === loanId)
+      .sort((a, b) => b.id - a.id);
+  }
+
+  async createAuctionBid(insertBid: InsertAuctionBid): Promise<AuctionBid> {
+    const id = this.currentAuctionBidId++;
+    const bid: AuctionBid = {
+      ...insertBid,
+      id,
+      status: insertBid.status ?? 'active',
+      createdAt: new Date()
+    };
+    this.auctionBids.set(id, bid);
+    return bid;
+  }
+
+  async updateAuctionBid(id: number, bidData: Partial<AuctionBid>): Promise<AuctionBid | undefined> {
+    const bid = this.auctionBids.get(id);
+    if (!bid) return undefined;
+
+    const updated = { ...bid, ...bidData, id };
+    this.auctionBids.set(id, updated);
+    return updated;
+  }
+
+  async listAuctionBids(auctionId: number): Promise<AuctionBid[]> {
+    return Array.from(this.auctionBids.values())
+      .filter(bid => bid.auctionId === auctionId)
+      .sort((a, b) => a.id - b.id);
+  }
+
+  // Double-entry ledger operations
+  async getLedgerAccount(id: number): Promise<LedgerAccount | undefined> {
+    return this.ledgerAccounts.get(id);
+  }
+
+  async getLedgerAccountByCode(code: string): Promise<LedgerAccount | undefined> {
+    return Array.from(this.ledgerAccounts.values()).find(account => account.code === code);
+  }
+
+  async createLedgerAccount(insertAccount: InsertLedgerAccount): Promise<LedgerAccount> {
+    if (await this.getLedgerAccountByCode(insertAccount.code)) {
+      throw new Error(`Ledger account ${insertAccount.code} already exists`);
+    }
+    const id = this.currentLedgerAccountId++;
+    const account: LedgerAccount = {
+      ...insertAccount,
+      id,
+      userId: insertAccount.userId ?? null,
+      createdAt: new Date()
+    };
+    this.ledgerAccounts.set(id, account);
+    return account;
+  }
+
+  async listLedgerAccounts(userId?: number): Promise<LedgerAccount[]> {
+    return Array.from(this.ledgerAccounts.values())
+      .filter(account => userId === undefined || account.userId === userId)
+      .sort((a, b) => a.code.localeCompare(b.code));
+  }
+
+  async getLedgerJournal(id: number): Promise<LedgerJournal | undefined> {
+    return this.ledgerJournals.get(id);
+  }
+
+  async getLedgerJournalByReference(reference: string): Promise<LedgerJournal | undefined> {
+    return Array.from(this.ledgerJournals.values()).find(journal => journal.reference === reference);
+  }
+
+  async createLedgerJournal(
+    insertJournal: InsertLedgerJournal,
+    insertPostings: InsertLedgerPosting[]
+  ): Promise<{ journal: LedgerJournal; postings: LedgerPosting[] }> {
+    // Checked and written without yielding, like the unique index on reference in the database
+    if (Array.from(this.ledgerJournals.values()).some(journal => journal.reference === insertJournal.reference)) {
+      throw new Error(`Journal ${insertJournal.reference} is already posted`);
+    }
+    const postedAt = new Date();
+    const journal: LedgerJournal = {
+      ...insertJournal,
+      id: this.currentLedgerJournalId++,
+      userId: insertJournal.userId ?? null,
+      metadata: insertJournal.metadata ?? null,
+      postedAt
+    };
+    this.ledgerJournals.set(journal.id, journal);
+
+    const postings = insertPostings.map(insertPosting => {
+      const posting: LedgerPosting = { ...insertPosting, id: this.currentLedgerPostingId++, journalId: journal.id, postedAt };
+      this.ledgerPostings.set(posting.id, posting);
+      return posting;
+    });
+    return { journal, postings };
+  }
+
+  async listLedgerPostings(accountId?: number): Promise<LedgerPosting[]> {
+    return Array.from(this.ledgerPostings.values())
+      .filter(posting => accountId === undefined || posting.accountId === accountId)
+      .sort((a, b) => a.id - b.id);
+  }
+
+  // Storage fee billing operations
+  async createWarehouseTariff(insertTariff: InsertWarehouseTariff): Promise<WarehouseTariff> {
+    const id = this.currentWarehouseTariffId++;
+    const tariff: WarehouseTariff = {
+      ...insertTariff,
+      id,
+      commodity: insertTariff.commodity ?? null,
+      handlingChargePerMt: insertTariff.handlingChargePerMt ?? '0',
+      insurancePercentPerYear: insertTariff.insurancePercentPerYear ?? '0',
+      gstPercent: insertTariff.gstPercent ?? '18.00',
+      isActive: insertTariff.isActive ?? true,
+      createdBy: insertTariff.createdBy ?? null,
+      createdAt: new Date()
+    };
+    this.warehouseTariffs.set(id, tariff);
+    return tariff;
+  }
+
+  async updateWarehouseTariff(id: number, tariffData: Partial<InsertWarehouseTariff>): Promise<WarehouseTariff | undefined> {
+    const tariff = this.warehouseTariffs.get(id);
+    if (!tariff) return undefined;
+
+    const updated = { ...tariff, ...tariffData, id };
+    this.warehouseTariffs.set(id, updated);
+    return updated;
+  }
+
+  async listWarehouseTariffs(warehouseId: number): Promise<WarehouseTariff[]> {
+    return Array.from(this.warehouseTariffs.values())
+      .filter(tariff => tariff.warehouseId === warehouseId)
+      .sort((a, b) => a.id - b.id);
+  }
+
+  async createStorageFeeAccrual(insertAccrual: InsertStorageFeeAccrual): Promise<StorageFeeAccrual> {
+    const id = this.currentStorageFeeAccrualId++;
+    const accrual: StorageFeeAccrual = {
+      ...insertAccrual,
+      id,
+      handlingCharge: insertAccrual.handlingCharge ?? '0',
+      insuranceCharge: insertAccrual.insuranceCharge ?? '0',
+      invoiceId: insertAccrual.invoiceId ?? null,
+      createdAt: new Date()
+    };
+    this.storageFeeAccruals.set(id, accrual);
+    return accrual;
+  }
+
+  async updateStorageFeeAccrual(id: number, accrualData: Partial<InsertStorageFeeAccrual>): Promise<StorageFeeAccrual | undefined> {
+    const accrual = this.storageFeeAccruals.get(id);
+    if (!accrual) return undefined;
+
+    const updated = { ...accrual, ...accrualData, id };
+    this.storageFeeAccruals.set(id, updated);
+    return updated;
+  }
+
+  async listStorageFeeAccruals(receiptId: number): Promise<StorageFeeAccrual[]> {
+    return Array.from(this.storageFeeAccruals.values())
+      .filter(accrual => accrual.receiptId === receiptId)
+      .sort((a, b) => a.periodStart.getTime() - b.periodStart.getTime());
+  }
+
+  async getStorageInvoice(id: number): Promise<StorageInvoice | undefined> {
+    return this.storageInvoices.get(id);
+  }
+
+  async createStorageInvoice(insertInvoice: InsertStorageInvoice): Promise<StorageInvoice> {
+    const id = this.currentStorageInvoiceId++;
+    const invoice: StorageInvoice = {
+      ...insertInvoice,
+      id,
+      amountPaid: insertInvoice.amountPaid ?? '0',
+      status: insertInvoice.status ?? 'issued',
+      pdfUrl: insertInvoice.pdfUrl ?? null,
+      settlementReference: insertInvoice.settlementReference ?? null,
+      issuedAt: new Date(),
+      settledAt: insertInvoice.settledAt ?? null
+    };
+    this.storageInvoices.set(id, invoice);
+    return invoice;
+  }
+
+  async updateStorageInvoice(id: number, invoiceData: Partial<InsertStorageInvoice>): Promise<StorageInvoice | undefined> {
+    const invoice = this.storageInvoices.get(id);
+    if (!invoice) return undefined;
+
+    const updated = { ...invoice, ...invoiceData, id };
+    this.storageInvoices.set(id, updated);
+    return updated;
+  }
+
+  async listStorageInvoicesByReceipt(receiptId: number): Promise<StorageInvoice[]> {
+    return Array.from(this.storageInvoices.values())
+      .filter(invoice => invoice.receiptId === receiptId)
+      .sort((a, b) => a.id - b.id);
+  }
+
+  async listStorageInvoicesByUser(userId: number): Promise<StorageInvoice[]> {
+    return Array.from(this.storageInvoices.values())
+      .filter(invoice => invoice.userId === userId)
+      .sort((a, b) => b.id - a.id);
+  }
+
+  async listStorageInvoicesByWarehouse(warehouseId: number): Promise<StorageInvoice[]> {
+    return Array.from(this.storageInvoices.values())
+      .filter(invoice => invoice.warehouseId === warehouseId)
+      .sort((a, b) => b.id - a.id);
+  }
+
+  // Lending partner integration operations
+  async getLoanApplicationByExternalId(lendingPartnerId: number, externalApplicationId: string): Promise<LoanApplication | undefined> {
+    return Array.from(this.loanApplications.values()).find(application =>
+      application.lendingPartnerId === lendingPartnerId && application.externalApplicationId === externalApplicationId
+    );
+  }
+
+  async listLoanApplicationsByStatus(status: LoanApplication['status']): Promise<LoanApplication[]> {
+    return Array.from(this.loanApplications.values()).filter(application => application.status === status);
+  }
+
+  async getLoanByExternalId(lendingPartnerId: number, externalLoanId: string): Promise<Loan | undefined> {
+    return Array.from(this.loans.values()).find(loan =>
+      loan.lendingPartnerId === lendingPartnerId && loan.externalLoanId === externalLoanId
+    );
+  }
+
+  async getLendingWebhookEvent(lendingPartnerId: number, eventId: string): Promise<LendingWebhookEventRecord | undefined> {
+    return Array.from(this.lendingWebhookEvents.values()).find(event =>
+      event.lendingPartnerId === lendingPartnerId && event.eventId === eventId
+    );
+  }
+
+  async createLendingWebhookEvent(insertEvent: InsertLendingWebhookEvent): Promise<LendingWebhookEventRecord> {
+    const id = this.currentLendingWebhookEventId++;
+    const event: LendingWebhookEventRecord = {
+      ...insertEvent,
+      id,
+      error: insertEvent.error ?? null,
+      receivedAt: new Date()
+    };
+    this.lendingWebhookEvents.set(id, event);
+    return event;
+  }
+
+  async updateLendingWebhookEvent(id: number, eventData: Partial<InsertLendingWebhookEvent>): Promise<LendingWebhookEventRecord | undefined> {
+    const event = this.lendingWebhookEvents.get(id);
+    if (!event) return undefined;
+
+    const updated = { ...event, ...eventData, id };
+    this.lendingWebhookEvents.set(id, updated);
+    return updated;
+  }
+
+  // Loan marketplace operations
+  async getPledgeRequest(id: number): Promise<PledgeRequest | undefined> {
+    return this.pledgeRequests.get(id);
+  }
+
+  async createPledgeRequest(insertRequest: InsertPledgeRequest): Promise<PledgeRequest> {
+    const id = this.currentPledgeRequestId++;
+    const request: PledgeRequest = {
+      ...insertRequest,
+      id,
+      status: insertRequest.status ?? 'open',
+      acceptedOfferId: insertRequest.acceptedOfferId ?? null,
+      declinedPartners: insertRequest.declinedPartners ?? null,
+      createdAt: new Date()
     };
+    this.pledgeRequests.set(id, request);
+    return request;
   }
+
+  async updatePledgeRequest(id: number, requestData: Partial<InsertPledgeRequest>): Promise<PledgeRequest | undefined> {
+    const request = this.pledgeRequests.get(id);
+    if (!request) return undefined;
+
+    const updated = { ...request, ...requestData, id };
+    this.pledgeRequests.set(id, updated);
+    return updated;
+  }
+
+  async listPledgeRequestsByUser(userId: number): Promise<PledgeRequest[]> {
+    return Array.from(this.pledgeRequests.values())
+      .filter(request => request.userId === userId)
+      .sort((a, b) => b.id - a.id);
+  }
+
+  async getLoanOffer(id: number): Promise<LoanOfferRecord | undefined> {
+    return this.loanOffers.get(id);
+  }
+
+  async createLoanOffer(insertOffer: InsertLoanOffer): Promise<LoanOfferRecord> {
+    const id = this.currentLoanOfferId++;
+    const offer: LoanOfferRecord = {
+      ...insertOffer,
+      id,
+      externalOfferId: insertOffer.externalOfferId ?? null,
+      status: insertOffer.status ?? 'offered',
+      declineReason: insertOffer.declineReason ?? null,
+      loanApplicationId: insertOffer.loanApplicationId ?? null,
+      createdAt: new Date()
+    };
+    this.loanOffers.set(id, offer);
+    return offer;
+  }
+
+  async updateLoanOffer(id: number, offerData: Partial<InsertLoanOffer>): Promise<LoanOfferRecord | undefined> {
+    const offer = this.loanOffers.get(id);
+    if (!offer) return undefined;
+
+    const updated = { ...offer, ...offerData, id };
+    this.loanOffers.set(id, updated);
+    return updated;
+  }
+
+  async listLoanOffersByPledgeRequest(pledgeRequestId: number): Promise<LoanOfferRecord[]> {
+    return Array.from(this.loanOffers.values()).filter(offer => offer.pledgeRequestId === pledgeRequestId);
+  }
+
+  // Lien registry operations
+  async getLien(id: number): Promise<Lien | undefined> {
+    return this.liens.get(id);
+  }
+
+  async createLien(insertLien: InsertLien): Promise<Lien> {
+    const id = this.currentLienId++;
+    const lien: Lien = {
+      ...insertLien,
+      id,
+      lendingPartnerId: insertLien.lendingPartnerId ?? null,
+      lenderName: insertLien.lenderName ?? null,
+      priority: insertLien.priority ?? 1,
+      status: insertLien.status ?? 'active',
+      releaseApprovals: insertLien.releaseApprovals ?? null,
+      releaseRequestedBy: insertLien.releaseRequestedBy ?? null,
+      releaseReason: insertLien.releaseReason ?? null,
+      releasedAt: insertLien.releasedAt ?? null,
+      auditEntryId: insertLien.auditEntryId ?? null,
+      createdAt: new Date()
+    };
+    this.liens.set(id, lien);
+    return lien;
+  }
+
+  async updateLien(id: number, lienData: Partial<InsertLien>): Promise<Lien | undefined> {
+    const lien = this.liens.get(id);
+    if (!lien) return undefined;
+
+    const updated = { ...lien, ...lienData, id };
+    this.liens.set(id, updated);
+    return updated;
+  }
+
+  async listLiensByReceipt(receiptId: number): Promise<Lien[]> {
+    return Array.from(this.liens.values())
+      .filter(lien => lien.receiptId === receiptId)
+      .sort((a, b) => a.priority - b.priority || a.id - b.id);
+  }
+
+  async listLiensByLoan(loanId: number): Promise<Lien[]> {
+    return Array.from(this.liens.values()).filter(lien => lien.loanId === loanId);
+  }
+
+  async listLiensByStatus(status: LienStatus): Promise<Lien[]> {
+    return Array.from(this.liens.values()).filter(lien => lien.status === status);
+  }
+
+  // KYC operations
+  async getKycSubmission(id: number): Promise<KycSubmission | undefined> {
+    return this.kycSubmissions.get(id);
+  }
+
+  async createKycSubmission(insertSubmission: InsertKycSubmission): Promise<KycSubmission> {
+    const id = this.currentKycSubmissionId++;
+    const submission: KycSubmission = {
+      ...insertSubmission,
+      id,
+      aadhaarMasked: insertSubmission.aadhaarMasked ?? null,
+      aadhaarHash: insertSubmission.aadhaarHash ?? null,
+      panNumber: insertSubmission.panNumber ?? null,
+      gstNumber: insertSubmission.gstNumber ?? null,
+      status: insertSubmission.status ?? 'pending',
+      reviewerId: insertSubmission.reviewerId ?? null,
+      reviewNote: insertSubmission.reviewNote ?? null,
+      rejectionReason: insertSubmission.rejectionReason ?? null,
+      reviewedAt: insertSubmission.reviewedAt ?? null,
+      submittedAt: new Date()
+    };
+    this.kycSubmissions.set(id, submission);
+    return submission;
+  }
+
+  async updateKycSubmission(id: number, submissionData: Partial<InsertKycSubmission>): Promise<KycSubmission | undefined> {
+    const submission = this.kycSubmissions.get(id);
+    if (!submission) return undefined;
+
+    const updated = { ...submission, ...submissionData, id };
+    this.kycSubmissions.set(id, updated);
+    return updated;
+  }
+
+  async listKycSubmissionsByUser(userId: number): Promise<KycSubmission[]> {
+    return Array.from(this.kycSubmissions.values())
+      .filter(submission => submission.userId === userId)
+      .sort((a, b) => b.id - a.id);
+  }
+
+  async listKycSubmissionsByStatus(status: KycSubmission['status']): Promise<KycSubmission[]> {
+    return Array.from(this.kycSubmissions.values()).filter(submission => submission.status === status);
+  }
+
+  async listKycSubmissionsByAadhaarHash(aadhaarHash: string): Promise<KycSubmission[]> {
+    return Array.from(this.kycSubmissions.values()).filter(submission => submission.aadhaarHash === aadhaarHash);
+  }
+
+  // Audit ledger operations
+  async getAuditEntry(id: number): Promise<AuditEntry | undefined> {
+    return this.auditEntries.get(id);
+  }
+
+  async getLatestAuditEntry(): Promise<AuditEntry | undefined> {
+    return this.auditEntries.get(this.currentAuditEntryId - 1);
+  }
+
+  async createAuditEntry(insertEntry: InsertAuditEntry): Promise<AuditEntry> {
+    const entries = Array.from(this.auditEntries.values());
+    if (entries.some(entry => entry.previousHash === insertEntry.previousHash)) {
+      throw new Error("Audit ledger already has an entry after this hash");
+    }
+
+    const id = this.currentAuditEntryId++;
+    const entry: AuditEntry = {
+      ...insertEntry,
+      id,
+      blockId: insertEntry.blockId ?? null
+    };
+    this.auditEntries.set(id, entry);
+    return entry;
+  }
+
+  async listAuditEntries(): Promise<AuditEntry[]> {
+    return Array.from(this.auditEntries.values()).sort((a, b) => a.id - b.id);
+  }
+
+  async listAuditEntriesByEntity(entityType: string, entityId: number): Promise<AuditEntry[]> {
+    return (await this.listAuditEntries())
+      .filter(entry => entry.entityType === entityType && entry.entityId === entityId);
+  }
+
+  async listUnsealedAuditEntries(limit: number): Promise<AuditEntry[]> {
+    return (await this.listAuditEntries()).filter(entry => entry.blockId === null).slice(0, limit);
+  }
+
+  async listAuditEntriesByBlock(blockId: number): Promise<AuditEntry[]> {
+    return (await this.listAuditEntries()).filter(entry => entry.blockId === blockId);
+  }
+
+  async sealAuditEntries(blockId: number, firstEntryId: number, lastEntryId: number): Promise<void> {
+    for (let id = firstEntryId; id <= lastEntryId; id++) {
+      const entry = this.auditEntries.get(id);
+      if (entry) this.auditEntries.set(id, { ...entry, blockId });
+    }
+  }
+
+  async getAuditBlock(id: number): Promise<AuditBlock | undefined> {
+    return this.auditBlocks.get(id);
+  }
+
+  async getLatestAuditBlock(): Promise<AuditBlock | undefined> {
+    return this.auditBlocks.get(this.currentAuditBlockId - 1);
+  }
+
+  async createAuditBlock(insertBlock: InsertAuditBlock): Promise<AuditBlock> {
+    const id = this.currentAuditBlockId++;
+    const block: AuditBlock = { ...insertBlock, id };
+    this.auditBlocks.set(id, block);
+    return block;
+  }
+
+  async listAuditBlocks(): Promise<AuditBlock[]> {
+    return Array.from(this.auditBlocks.values()).sort((a, b) => a.height - b.height);
+  }
+
+  // Smart contract operations
+  async getSmartContract(id: number): Promise<SmartContract | undefined> {
+    return this.smartContracts.get(id);
+  }
+
+  async getSmartContractByContractId(contractId: string): Promise<SmartContract | undefined> {
+    return Array.from(this.smartContracts.values()).find(contract => contract.contractId === contractId);
+  }
+
+  async createSmartContract(insertContract: InsertSmartContract): Promise<SmartContract> {
+    const id = this.currentSmartContractId++;
+    const contract: SmartContract = {
+      ...insertContract,
+      id,
+      status: insertContract.status ?? 'active',
+      approvals: insertContract.approvals ?? [],
+      loanId: insertContract.loanId ?? null,
+      lastEvaluation: insertContract.lastEvaluation ?? null,
+      lastEvaluatedAt: insertContract.lastEvaluatedAt ?? null,
+      expiresAt: insertContract.expiresAt ?? null,
+      executedAt: insertContract.executedAt ?? null,
+      failureReason: insertContract.failureReason ?? null,
+      createdAt: new Date()
+    };
+    this.smartContracts.set(id, contract);
+    return contract;
+  }
+
+  async updateSmartContract(id: number, contractData: Partial<InsertSmartContract>): Promise<SmartContract | undefined> {
+    const contract = this.smartContracts.get(id);
+    if (!contract) return undefined;
+
+    const updated = { ...contract, ...contractData, id };
+    this.smartContracts.set(id, updated);
+    return updated;
+  }
+
+  async listSmartContracts(): Promise<SmartContract[]> {
+    return Array.from(this.smartContracts.values()).sort((a, b) => a.id - b.id);
+  }
+
+  async listSmartContractsByStatus(status: SmartContractStatus): Promise<SmartContract[]> {
+    return (await this.listSmartContracts()).filter(contract => contract.status === status);
+  }
+
+  async listSmartContractsByLoan(loanId: number): Promise<SmartContract[]> {
+    return (await this.listSmartContracts()).filter(contract => contract.loanId === loanId);
+  }
+
+  // Spot trade operations
+  async getSpotTrade(id: number): Promise<SpotTrade | undefined> {
+    return this.spotTrades.get(id);
+  }
+
+  async createSpotTrade(insertTrade: InsertSpotTrade): Promise<SpotTrade> {
+    const id = this.currentSpotTradeId++;
+    const trade: SpotTrade = {
+      ...insertTrade,
+      id,
+      status: insertTrade.status ?? 'offered',
+      contractId: insertTrade.contractId ?? null,
+      transferId: insertTrade.transferId ?? null,
+      note: insertTrade.note ?? null,
+      responseNote: insertTrade.responseNote ?? null,
+      failureReason: insertTrade.failureReason ?? null,
+      createdAt: new Date(),
+      closedAt: insertTrade.closedAt ?? null
+    };
+    this.spotTrades.set(id, trade);
+    return trade;
+  }
+
+  async updateSpotTrade(id: number, tradeData: Partial<InsertSpotTrade>): Promise<SpotTrade | undefined> {
+    const trade = this.spotTrades.get(id);
+    if (!trade) return undefined;
+
+    const updated = { ...trade, ...tradeData, id };
+    this.spotTrades.set(id, updated);
+    return updated;
+  }
+
+  async listSpotTradesByUser(userId: number): Promise<SpotTrade[]> {
+    return Array.from(this.spotTrades.values())
+      .filter(trade => trade.buyerId === userId || trade.sellerId === userId)
+      .sort((a, b) => b.id - a.id);
+  }
+
+  async listSpotTradesByReceipt(receiptId: number): Promise<SpotTrade[]> {
+    return Array.from(this.spotTrades.values())
+      .filter(trade => trade.receiptId === receiptId)
+      .sort((a, b) => b.id - a.id);
+  }
+}
+
+// PostgreSQL (Drizzle) storage implementation - persists across restarts
+export class DatabaseStorage implements IStorage {
+  // User operations
+  async getUser(id: number): Promise<User | undefined> {
+    const [user] = await db.select().from(users).where(eq(users.id, id));
+    return user;
+  }
+
+  async getUserByUsername(username: string): Promise<User | undefined> {
+    const [user] = await db.select().from(users).where(eq(users.username, username));
+    return user;
+  }
+
+  async getUserByEmail(email: string): Promise<User | undefined> {
+    const [user] = await db.select().from(users).where(eq(users.email, email));
+    return user;
+  }
+
+  async getUserByPhone(phone: string): Promise<User | undefined> {
+    const [user] = await db.select().from(users).where(eq(users.phone, phone));
+    return user;
+  }
+
+  async getUserByGoogleId(googleId: string): Promise<User | undefined> {
+    const [user] = await db.select().from(users).where(eq(users.googleId, googleId));
+    return user;
+  }
+
+  async getUserByFacebookId(facebookId: string): Promise<User | undefined> {
+    const [user] = await db.select().from(users).where(eq(users.facebookId, facebookId));
+    return user;
+  }
+
+  async createUser(insertUser: InsertUser): Promise<User> {
+    const [user] = await db.insert(users).values(insertUser).returning();
+    return user;
+  }
+
+  async listUsers(): Promise<User[]> {
+    return db.select().from(users);
+  }
+
+  async updateUser(id: number, userData: Partial<InsertUser>): Promise<User | undefined> {
+    const [user] = await db
+      .update(users)
+      .set({ ...userData, updatedAt: new Date() })
+      .where(eq(users.id, id))
+      .returning();
+    return user;
+  }
+
+  async getUserSettings(userId: number): Promise<any> {
+    const [row] = await db.select().from(userSettings).where(eq(userSettings.userId, userId));
+    if (row) {
+      return row.settings;
+    }
+    
+    // Persist default settings on first access
+    const defaultSettings = getDefaultUserSettings();
+    await db.insert(userSettings).values({ userId, settings: defaultSettings });
+    return defaultSettings;
+  }
+
+  async updateUserSettings(userId: number, settings: any): Promise<any> {
+    const currentSettings = await this.getUserSettings(userId);
+    const updatedSettings = { ...currentSettings, ...settings };
+    await db
+      .update(userSettings)
+      .set({ settings: updatedSettings, updatedAt: new Date() })
+      .where(eq(userSettings.userId, userId));
+    return updatedSettings;
+  }
+
+  async updateUserPassword(userId: number, newPassword: string): Promise<void> {
+    await db
+      .update(users)
+      .set({ password: newPassword, updatedAt: new Date() })
+      .where(eq(users.id, userId));
+  }
+
+  // OTP operations
+  async storeOTP(phone: string, otp: string, purpose: string, expiryMinutes: number): Promise<void> {
+    const expiresAt = new Date(Date.now() + expiryMinutes * 60 * 1000);
+    
+    // Invalidate any outstanding OTPs for the same phone and purpose
+    await db
+      .update(otpVerifications)
+      .set({ isUsed: true })
+      .where(and(
+        eq(otpVerifications.phone, phone),
+        eq(otpVerifications.purpose, purpose),
+        eq(otpVerifications.isUsed, false)
+      ));
+    
+    await db.insert(otpVerifications).values({ phone, otp, purpose, expiresAt });
+  }
+
+  async verifyOTP(phone: string, otp: string, purpose: string): Promise<boolean> {
+    const [stored] = await db
+      .select()
+      .from(otpVerifications)
+      .where(and(
+        eq(otpVerifications.phone, phone),
+        eq(otpVerifications.purpose, purpose),
+        eq(otpVerifications.isUsed, false)
+      ))
+      .orderBy(desc(otpVerifications.createdAt))
+      .limit(1);
+    
+    if (!stored) return false;
+    if (stored.expiresAt < new Date()) {
+      await db.delete(otpVerifications).where(eq(otpVerifications.id, stored.id));
+      return false;
+    }
+    if ((stored.attempts || 0) >= 3) return false;
+    if (stored.otp !== otp) {
+      await db
+        .update(otpVerifications)
+        .set({ attempts: (stored.attempts || 0) + 1 })
+        .where(eq(otpVerifications.id, stored.id));
+      return false;
+    }
+
+    // Mark as used after successful verification
+    await db
+      .update(otpVerifications)
+      .set({ isUsed: true })
+      .where(eq(otpVerifications.id, stored.id));
+    return true;
+  }
+
+  async cleanupExpiredOTPs(): Promise<void> {
+    await db.delete(otpVerifications).where(lt(otpVerifications.expiresAt, new Date()));
+  }
+
+  // Warehouse operations
+  async getWarehouse(id: number): Promise<Warehouse | undefined> {
+    const [warehouse] = await db.select().from(warehouses).where(eq(warehouses.id, id));
+    return warehouse;
+  }
+
+  async createWarehouse(insertWarehouse: InsertWarehouse): Promise<Warehouse> {
+    const [warehouse] = await db.insert(warehouses).values(insertWarehouse).returning();
+    return warehouse;
+  }
+
+  async listWarehouses(): Promise<Warehouse[]> {
+    return db.select().from(warehouses);
+  }
+
+  async listWarehousesByOwner(ownerId: number): Promise<Warehouse[]> {
+    return db.select().from(warehouses).where(eq(warehouses.ownerId, ownerId));
+  }
+
+  async listWarehousesByLocation(latitude: number, longitude: number, radius: number): Promise<Warehouse[]> {
+    // Same approximate distance filter as the in-memory implementation
+    const allWarehouses = await this.listWarehouses();
+    return allWarehouses.filter(warehouse => {
+      const distance = Math.sqrt(
+        Math.pow(Number(warehouse.latitude) - latitude, 2) + 
+        Math.pow(Number(warehouse.longitude) - longitude, 2)
+      );
+      // Convert to approximate kilometers (very rough estimation)
+      const distanceKm = distance * 111;
+      return distanceKm <= radius;
+    });
+  }
+
+  async getWarehousesByState(state: string): Promise<Warehouse[]> {
+    return db.select().from(warehouses).where(ilike(warehouses.state, state));
+  }
+
+  async getWarehousesByDistrict(district: string): Promise<Warehouse[]> {
+    return db.select().from(warehouses).where(ilike(warehouses.district, district));
+  }
+
+  async getWarehousesByCommodity(commodity: string): Promise<Warehouse[]> {
+    // primaryCommodities is a JSON array, so match on its text representation
+    return db
+      .select()
+      .from(warehouses)
+      .where(sql`${warehouses.primaryCommodities}::text ILIKE ${'%' + commodity + '%'}`);
+  }
+
+  async updateWarehouse(id: number, warehouseData: Partial<InsertWarehouse>): Promise<Warehouse | undefined> {
+    const [warehouse] = await db
+      .update(warehouses)
+      .set({ ...warehouseData, updatedAt: new Date() })
+      .where(eq(warehouses.id, id))
+      .returning();
+    return warehouse;
+  }
+
+  async seedMandiWarehouses(): Promise<number> {
+    const mandiWarehouses = await buildMandiWarehouseInserts();
+    if (mandiWarehouses.length === 0) return 0;
+    
+    const created = await db.insert(warehouses).values(mandiWarehouses).returning({ id: warehouses.id });
+    return created.length;
+  }
+
+  // Lending Partner operations
+  async getLendingPartner(id: number): Promise<LendingPartner | undefined> {
+    const [partner] = await db.select().from(lendingPartners).where(eq(lendingPartners.id, id));
+    return partner;
+  }
+
+  async createLendingPartner(partner: InsertLendingPartner): Promise<LendingPartner> {
+    const [lendingPartner] = await db.insert(lendingPartners).values(partner).returning();
+    return lendingPartner;
+  }
+
+  async listLendingPartners(): Promise<LendingPartner[]> {
+    return db.select().from(lendingPartners);
+  }
+
+  async updateLendingPartner(id: number, partnerData: Partial<InsertLendingPartner>): Promise<LendingPartner | undefined> {
+    const [partner] = await db
+      .update(lendingPartners)
+      .set(partnerData)
+      .where(eq(lendingPartners.id, id))
+      .returning();
+    return partner;
+  }
+
+  // Loan Application operations
+  async getLoanApplication(id: number): Promise<LoanApplication | undefined> {
+    const [application] = await db.select().from(loanApplications).where(eq(loanApplications.id, id));
+    return application;
+  }
+
+  async createLoanApplication(application: InsertLoanApplication): Promise<LoanApplication> {
+    const [loanApplication] = await db.insert(loanApplications).values(application).returning();
+    return loanApplication;
+  }
+
+  async listLoanApplications(): Promise<LoanApplication[]> {
+    return db.select().from(loanApplications);
+  }
+
+  async listLoanApplicationsByUser(userId: number): Promise<LoanApplication[]> {
+    return db.select().from(loanApplications).where(eq(loanApplications.userId, userId));
+  }
+
+  async updateLoanApplication(id: number, applicationData: Partial<InsertLoanApplication>): Promise<LoanApplication | undefined> {
+    const [application] = await db
+      .update(loanApplications)
+      .set(applicationData)
+      .where(eq(loanApplications.id, id))
+      .returning();
+    return application;
+  }
+
+  // Collateral Pledge operations
+  async getCollateralPledge(id: number): Promise<CollateralPledge | undefined> {
+    const [pledge] = await db.select().from(collateralPledges).where(eq(collateralPledges.id, id));
+    return pledge;
+  }
+
+  async createCollateralPledge(pledge: InsertCollateralPledge): Promise<CollateralPledge> {
+    const [collateralPledge] = await db
+      .insert(collateralPledges)
+      .values({ ...pledge, status: pledge.status || CollateralStatus.PLEDGED })
+      .returning();
+    return collateralPledge;
+  }
+
+  async listCollateralPledges(): Promise<CollateralPledge[]> {
+    return db.select().from(collateralPledges);
+  }
+
+  async listCollateralPledgesByReceipt(receiptId: number): Promise<CollateralPledge[]> {
+    return db.select().from(collateralPledges).where(eq(collateralPledges.receiptId, receiptId));
+  }
+
+  async listCollateralPledgesByLoan(loanId: number): Promise<CollateralPledge[]> {
+    return db.select().from(collateralPledges).where(eq(collateralPledges.loanId, loanId));
+  }
+
+  async updateCollateralPledge(id: number, pledgeData: Partial<InsertCollateralPledge>): Promise<CollateralPledge | undefined> {
+    const [pledge] = await db
+      .update(collateralPledges)
+      .set(pledgeData)
+      .where(eq(collateralPledges.id, id))
+      .returning();
+    return pledge;
+  }
+
+  // Loan Repayment operations
+  async getLoanRepayment(id: number): Promise<LoanRepayment | undefined> {
+    const [repayment] = await db.select().from(loanRepayments).where(eq(loanRepayments.id, id));
+    return repayment;
+  }
+
+  async createLoanRepayment(repayment: InsertLoanRepayment): Promise<LoanRepayment> {
+    const [loanRepayment] = await db.insert(loanRepayments).values(repayment).returning();
+    return loanRepayment;
+  }
+
+  async updateLoanRepaymentReceipt(id: number, receiptUrl: string, receiptNumber: string): Promise<LoanRepayment | undefined> {
+    const [repayment] = await db
+      .update(loanRepayments)
+      .set({ receiptUrl, receiptNumber })
+      .where(eq(loanRepayments.id, id))
+      .returning();
+    return repayment;
+  }
+
+  async listLoanRepayments(): Promise<LoanRepayment[]> {
+    return db.select().from(loanRepayments);
+  }
+
+  async listLoanRepaymentsByLoan(loanId: number): Promise<LoanRepayment[]> {
+    return db.select().from(loanRepayments).where(eq(loanRepayments.loanId, loanId));
+  }
+
+  // Loan instalment operations
+  async createLoanInstalment(insertInstalment: InsertLoanInstalment): Promise<LoanInstalment> {
+    const [instalment] = await db.insert(loanInstalments).values(insertInstalment).returning();
+    return instalment;
+  }
+
+  async updateLoanInstalment(id: number, instalmentData: Partial<InsertLoanInstalment>): Promise<LoanInstalment | undefined> {
+    const [instalment] = await db.update(loanInstalments).set(instalmentData).where(eq(loanInstalments.id, id)).returning();
+    return instalment;
+  }
+
+  async listLoanInstalments(loanId: number): Promise<LoanInstalment[]> {
+    return db.select().from(loanInstalments).where(eq(loanInstalments.loanId, loanId)).orderBy(loanInstalments.sequence, loanInstalments.id);
+  }
+
+  // User Credit Profile operations
+  async getUserCreditProfile(userId: number): Promise<UserCreditProfile | undefined> {
+    const [profile] = await db.select().from(userCreditProfiles).where(eq(userCreditProfiles.userId, userId));
+    return profile;
+  }
+
+  async createUserCreditProfile(profile: InsertUserCreditProfile): Promise<UserCreditProfile> {
+    const [userCreditProfile] = await db.insert(userCreditProfiles).values(profile).returning();
+    return userCreditProfile;
+  }
+
+  async updateUserCreditProfile(userId: number, profileData: Partial<InsertUserCreditProfile>): Promise<UserCreditProfile | undefined> {
+    const [profile] = await db
+      .update(userCreditProfiles)
+      .set({ ...profileData, lastUpdated: new Date() })
+      .where(eq(userCreditProfiles.userId, userId))
+      .returning();
+    return profile;
+  }
+
+  // Commodity operations
+  async getCommodity(id: number): Promise<Commodity | undefined> {
+    const [commodity] = await db.select().from(commodities).where(eq(commodities.id, id));
+    return commodity;
+  }
+
+  async createCommodity(insertCommodity: InsertCommodity): Promise<Commodity> {
+    const [commodity] = await db.insert(commodities).values(insertCommodity).returning();
+    return commodity;
+  }
+
+  async listCommodities(): Promise<Commodity[]> {
+    return db.select().from(commodities);
+  }
+
+  async listCommoditiesByOwner(ownerId: number): Promise<Commodity[]> {
+    return db.select().from(commodities).where(eq(commodities.ownerId, ownerId));
+  }
+
+  async updateCommodity(id: number, commodityData: Partial<InsertCommodity>): Promise<Commodity | undefined> {
+    const [commodity] = await db
+      .update(commodities)
+      .set({ ...commodityData, lastUpdated: new Date() })
+      .where(eq(commodities.id, id))
+      .returning();
+    return commodity;
+  }
+
+  // Warehouse Receipt operations
+  async getWarehouseReceipt(id: number): Promise<WarehouseReceipt | undefined> {
+    const [receipt] = await db.select().from(warehouseReceipts).where(eq(warehouseReceipts.id, id));
+    return receipt;
+  }
+
+  async getWarehouseReceiptByNumber(receiptNumber: string): Promise<WarehouseReceipt | undefined> {
+    const [receipt] = await db
+      .select()
+      .from(warehouseReceipts)
+      .where(eq(warehouseReceipts.receiptNumber, receiptNumber));
+    return receipt;
+  }
+
+  async getWarehouseReceiptByExternalId(externalId: string, source: string): Promise<WarehouseReceipt | undefined> {
+    const [receipt] = await db
+      .select()
+      .from(warehouseReceipts)
+      .where(and(
+        eq(warehouseReceipts.externalId, externalId),
+        eq(warehouseReceipts.externalSource, source)
+      ));
+    return receipt;
+  }
+
+  async getWarehouseReceiptByVerificationCode(verificationCode: string): Promise<WarehouseReceipt | undefined> {
+    const [receipt] = await db
+      .select()
+      .from(warehouseReceipts)
+      // liens is sometimes stored as a JSON string holding the object
+      .where(sql`(case when json_typeof(${warehouseReceipts.liens}) = 'string'
+        then (${warehouseReceipts.liens} #>> '{}')::json
+        else ${warehouseReceipts.liens} end) ->> 'verificationCode' = ${verificationCode}`);
+    return receipt;
+  }
+
+  async createWarehouseReceipt(insertReceipt: InsertWarehouseReceipt): Promise<WarehouseReceipt> {
+    const [receipt] = await db
+      .insert(warehouseReceipts)
+      .values({
+        ...insertReceipt,
+        status: insertReceipt.status || 'active',
+        valuation: insertReceipt.valuation || getDefaultReceiptValuation(insertReceipt.quantity)
+      })
+      .returning();
+    return receipt;
+  }
+
+  async listWarehouseReceipts(): Promise<WarehouseReceipt[]> {
+    return db.select().from(warehouseReceipts);
+  }
+
+  async listWarehouseReceiptsByOwner(ownerId: number): Promise<WarehouseReceipt[]> {
+    return db.select().from(warehouseReceipts).where(eq(warehouseReceipts.ownerId, ownerId));
+  }
+
+  async listWarehouseReceiptsByCommodity(commodityId: number): Promise<WarehouseReceipt[]> {
+    return db.select().from(warehouseReceipts).where(eq(warehouseReceipts.commodityId, commodityId));
+  }
+
+  async listWarehouseReceiptsByExternalSource(source: string): Promise<WarehouseReceipt[]> {
+    return db.select().from(warehouseReceipts).where(eq(warehouseReceipts.externalSource, source));
+  }
+
+  async listUserReceipts(userId: number): Promise<WarehouseReceipt[]> {
+    return this.listWarehouseReceiptsByOwner(userId);
+  }
+
+  async getReceiptsByIds(receiptIds: number[]): Promise<WarehouseReceipt[]> {
+    if (receiptIds.length === 0) return [];
+    return db.select().from(warehouseReceipts).where(inArray(warehouseReceipts.id, receiptIds));
+  }
+
+  async updateWarehouseReceipt(id: number, receiptData: Partial<InsertWarehouseReceipt>): Promise<WarehouseReceipt | undefined> {
+    const [receipt] = await db
+      .update(warehouseReceipts)
+      .set(receiptData)
+      .where(eq(warehouseReceipts.id, id))
+      .returning();
+    return receipt;
+  }
+
+  // Loan operations
+  async getLoan(id: number): Promise<Loan | undefined> {
+    const [loan] = await db.select().from(loans).where(eq(loans.id, id));
+    return loan;
+  }
+
+  async createLoan(insertLoan: InsertLoan): Promise<Loan> {
+    const [loan] = await db
+      .insert(loans)
+      .values({ ...insertLoan, status: insertLoan.status || 'approved' })
+      .returning();
+    return loan;
+  }
+
+  async listLoans(): Promise<Loan[]> {
+    return db.select().from(loans);
+  }
+
+  async listLoansByUser(userId: number): Promise<Loan[]> {
+    return db.select().from(loans).where(eq(loans.userId, userId));
+  }
+
+  async updateLoan(id: number, loanData: Partial<InsertLoan>): Promise<Loan | undefined> {
+    const [loan] = await db
+      .update(loans)
+      .set(loanData)
+      .where(eq(loans.id, id))
+      .returning();
+    return loan;
+  }
+
+  // Receipt transfer operations (blockchain)
+  async createReceiptTransfer(insertTransfer: InsertReceiptTransfer): Promise<ReceiptTransfer> {
+    const [transfer] = await db.insert(receiptTransfers).values(insertTransfer).returning();
+    return transfer as ReceiptTransfer;
+  }
+
+  async listReceiptTransfersByReceipt(receiptId: number): Promise<ReceiptTransfer[]> {
+    const transfers = await db
+      .select()
+      .from(receiptTransfers)
+      .where(eq(receiptTransfers.receiptId, receiptId))
+      .orderBy(receiptTransfers.transferDate);
+    return transfers as ReceiptTransfer[];
+  }
+
+  async getReceiptTransferByHash(transactionHash: string): Promise<ReceiptTransfer | undefined> {
+    const [transfer] = await db
+      .select()
+      .from(receiptTransfers)
+      .where(eq(receiptTransfers.transactionHash, transactionHash));
+    return transfer as ReceiptTransfer | undefined;
+  }
+
+  // Process operations
+  async getProcess(id: number): Promise<Process | undefined> {
+    const [process] = await db.select().from(processes).where(eq(processes.id, id));
+    return process;
+  }
+
+  async createProcess(insertProcess: InsertProcess): Promise<Process> {
+    const [process] = await db.insert(processes).values(insertProcess).returning();
+    return process;
+  }
+
+  async listProcesses(): Promise<Process[]> {
+    return db.select().from(processes);
+  }
+
+  async listProcessesByUser(userId: number): Promise<Process[]> {
+    return db.select().from(processes).where(eq(processes.userId, userId));
+  }
+
+  async listProcessesByCommodity(commodityId: number): Promise<Process[]> {
+    return db.select().from(processes).where(eq(processes.commodityId, commodityId));
+  }
+
+  async listProcessesByWarehouse(warehouseId: number): Promise<Process[]> {
+    return db.select().from(processes).where(eq(processes.warehouseId, warehouseId));
+  }
+
+  async updateProcess(id: number, processData: Partial<InsertProcess>): Promise<Process | undefined> {
+    const existing = await this.getProcess(id);
+    if (!existing) return undefined;
+    
+    // If process status is changed to completed, update completion time
+    const completedTime = processData.status === 'completed' && existing.status !== 'completed'
+      ? new Date()
+      : existing.completedTime;
+    
+    const [process] = await db
+      .update(processes)
+      .set({ ...processData, completedTime })
+      .where(eq(processes.id, id))
+      .returning();
+    return process;
+  }
+
+  // Commodity Sack operations
+  async getCommoditySack(id: number): Promise<CommoditySack | undefined> {
+    const [sack] = await db.select().from(commoditySacks).where(eq(commoditySacks.id, id));
+    return sack;
+  }
+
+  async getCommoditySackBySackId(sackId: string): Promise<CommoditySack | undefined> {
+    const [sack] = await db.select().from(commoditySacks).where(eq(commoditySacks.sackId, sackId));
+    return sack;
+  }
+
+  async createCommoditySack(insertSack: InsertCommoditySack): Promise<CommoditySack> {
+    const [sack] = await db
+      .insert(commoditySacks)
+      .values({ ...insertSack, status: insertSack.status || 'active' })
+      .returning();
+    return sack;
+  }
+
+  async createManyCommoditySacks(sacks: InsertCommoditySack[]): Promise<CommoditySack[]> {
+    if (sacks.length === 0) return [];
+    return db
+      .insert(commoditySacks)
+      .values(sacks.map(sack => ({ ...sack, status: sack.status || 'active' })))
+      .returning();
+  }
+
+  async listCommoditySacks(): Promise<CommoditySack[]> {
+    return db.select().from(commoditySacks);
+  }
+
+  async listCommoditySacksByReceipt(receiptId: number): Promise<CommoditySack[]> {
+    return db.select().from(commoditySacks).where(eq(commoditySacks.receiptId, receiptId));
+  }
+
+  async listCommoditySacksByOwner(ownerId: number, includeHidden: boolean = false): Promise<CommoditySack[]> {
+    const ownerCondition = eq(commoditySacks.ownerId, ownerId);
+    return db
+      .select()
+      .from(commoditySacks)
+      .where(includeHidden ? ownerCondition : and(ownerCondition, eq(commoditySacks.isOwnerHidden, false)));
+  }
+
+  async listCommoditySacksByWarehouse(warehouseId: number): Promise<CommoditySack[]> {
+    return db.select().from(commoditySacks).where(eq(commoditySacks.warehouseId, warehouseId));
+  }
+
+  async updateCommoditySack(id: number, sackData: Partial<InsertCommoditySack>): Promise<CommoditySack | undefined> {
+    const [sack] = await db
+      .update(commoditySacks)
+      .set({ ...sackData, lastUpdated: new Date() })
+      .where(eq(commoditySacks.id, id))
+      .returning();
+    return sack;
+  }
+
+  // Sack Movement operations
+  async createSackMovement(movement: InsertSackMovement): Promise<SackMovement> {
+    const [sackMovement] = await db.insert(sackMovements).values(movement).returning();
+    return sackMovement;
+  }
+
+  async getSackMovementHistory(sackId: number): Promise<SackMovement[]> {
+    return db
+      .select()
+      .from(sackMovements)
+      .where(eq(sackMovements.sackId, sackId))
+      .orderBy(desc(sackMovements.movementDate));
+  }
+
+  async listRecentSackMovements(limit: number = 10): Promise<SackMovement[]> {
+    return db
+      .select()
+      .from(sackMovements)
+      .orderBy(desc(sackMovements.movementDate))
+      .limit(limit);
+  }
+
+  // Sack Quality Assessment operations
+  async createSackQualityAssessment(assessment: InsertSackQualityAssessment): Promise<SackQualityAssessment> {
+    const [sackQualityAssessment] = await db.insert(sackQualityAssessments).values(assessment).returning();
+    return sackQualityAssessment;
+  }
+
+  async getSackQualityAssessmentHistory(sackId: number): Promise<SackQualityAssessment[]> {
+    return db
+      .select()
+      .from(sackQualityAssessments)
+      .where(eq(sackQualityAssessments.sackId, sackId))
+      .orderBy(desc(sackQualityAssessments.inspectionDate));
+  }
+
+  // Bank Account operations
+  async getUserBankAccount(id: number): Promise<UserBankAccount | undefined> {
+    const [account] = await db.select().from(userBankAccounts).where(eq(userBankAccounts.id, id));
+    return account;
+  }
+
+  async createUserBankAccount(bankAccount: InsertUserBankAccount): Promise<UserBankAccount> {
+    const [account] = await db.insert(userBankAccounts).values(bankAccount).returning();
+    return account;
+  }
+
+  async listUserBankAccounts(userId: number): Promise<UserBankAccount[]> {
+    return db.select().from(userBankAccounts).where(eq(userBankAccounts.userId, userId));
+  }
+
+  async updateUserBankAccount(id: number, bankAccountData: Partial<InsertUserBankAccount>): Promise<UserBankAccount | undefined> {
+    const [account] = await db
+      .update(userBankAccounts)
+      .set({ ...bankAccountData, updatedAt: new Date() })
+      .where(eq(userBankAccounts.id, id))
+      .returning();
+    return account;
+  }
+
+  async deleteUserBankAccount(id: number): Promise<boolean> {
+    const deleted = await db
+      .delete(userBankAccounts)
+      .where(eq(userBankAccounts.id, id))
+      .returning({ id: userBankAccounts.id });
+    return deleted.length > 0;
+  }
+
+  async setDefaultBankAccount(userId: number, bankAccountId: number): Promise<boolean> {
+    return db.transaction(async (tx) => {
+      // First, unset all default accounts for this user
+      await tx
+        .update(userBankAccounts)
+        .set({ isDefault: false, updatedAt: new Date() })
+        .where(and(eq(userBankAccounts.userId, userId), eq(userBankAccounts.isDefault, true)));
+      
+      // Set the specified account as default
+      const updated = await tx
+        .update(userBankAccounts)
+        .set({ isDefault: true, updatedAt: new Date() })
+        .where(and(eq(userBankAccounts.id, bankAccountId), eq(userBankAccounts.userId, userId)))
+        .returning({ id: userBankAccounts.id });
+      return updated.length > 0;
+    });
+  }
+
+  async seedDemoBankAccounts(userId: number): Promise<UserBankAccount[]> {
+    // Check if user already has bank accounts
+    const existingAccounts = await this.listUserBankAccounts(userId);
+    if (existingAccounts.length > 0) {
+      return existingAccounts;
+    }
+
+    const createdAccounts = await db
+      .insert(userBankAccounts)
+      .values(buildDemoBankAccounts(userId))
+      .returning();
+
+    console.log(`Seeded ${createdAccounts.length} demo bank accounts for user ${userId}`);
+    return createdAccounts;
+  }
+
+  // Credit Withdrawal operations
+  async getCreditWithdrawal(id: number): Promise<CreditWithdrawal | undefined> {
+    const [withdrawal] = await db.select().from(creditWithdrawals).where(eq(creditWithdrawals.id, id));
+    return withdrawal;
+  }
+
+  async createCreditWithdrawal(withdrawal: InsertCreditWithdrawal): Promise<CreditWithdrawal> {
+    const [creditWithdrawal] = await db.insert(creditWithdrawals).values(withdrawal).returning();
+    return creditWithdrawal;
+  }
+
+  async listCreditWithdrawals(): Promise<CreditWithdrawal[]> {
+    return db.select().from(creditWithdrawals);
+  }
+
+  async listCreditWithdrawalsByUser(userId: number): Promise<CreditWithdrawal[]> {
+    return db
+      .select()
+      .from(creditWithdrawals)
+      .where(eq(creditWithdrawals.userId, userId))
+      .orderBy(desc(creditWithdrawals.requestDate));
+  }
+
+  async updateCreditWithdrawal(id: number, withdrawalData: Partial<InsertCreditWithdrawal>): Promise<CreditWithdrawal | undefined> {
+    const now = new Date();
+    const statusDates: Partial<CreditWithdrawal> = {};
+    if (withdrawalData.status && ['approved', 'completed', 'rejected'].includes(withdrawalData.status)) {
+      statusDates.processedDate = now;
+    }
+    if (withdrawalData.status === 'completed') {
+      statusDates.completedDate = now;
+    }
+    
+    const [withdrawal] = await db
+      .update(creditWithdrawals)
+      .set({ ...withdrawalData, ...statusDates })
+      .where(eq(creditWithdrawals.id, id))
+      .returning();
+    return withdrawal;
+  }
+
+  // Credit Line operations
+  async getAvailableCredit(userId: number): Promise<AvailableCreditSummary> {
+    const receipts = await this.listWarehouseReceiptsByOwner(userId);
+    const userLoans = await this.listLoansByUser(userId);
+    return calculateAvailableCredit(receipts, userLoans);
+  }
+
+  // Dispute operations
+  async getDispute(id: number): Promise<Dispute | undefined> {
+    const [dispute] = await db.select().from(disputes).where(eq(disputes.id, id));
+    return dispute;
+  }
+
+  async createDispute(insertDispute: InsertDispute): Promise<Dispute> {
+    const [dispute] = await db
+      .insert(disputes)
+      .values({ ...insertDispute, evidence: insertDispute.evidence ?? [], history: insertDispute.history ?? [] })
+      .returning();
+    return dispute;
+  }
+
+  async listDisputes(): Promise<Dispute[]> {
+    return db.select().from(disputes).orderBy(desc(disputes.createdAt));
+  }
+
+  async listDisputesByFiler(userId: number): Promise<Dispute[]> {
+    return db.select().from(disputes).where(eq(disputes.filedBy, userId)).orderBy(desc(disputes.createdAt));
+  }
+
+  async listDisputesByAssignee(userId: number): Promise<Dispute[]> {
+    return db.select().from(disputes).where(eq(disputes.assigneeId, userId)).orderBy(desc(disputes.createdAt));
+  }
+
+  async listDisputesByReceipt(receiptId: number): Promise<Dispute[]> {
+    return db.select().from(disputes).where(eq(disputes.receiptId, receiptId)).orderBy(desc(disputes.createdAt));
+  }
+
+  async updateDispute(id: number, disputeData: Partial<InsertDispute> & { resolvedAt?: Date | null }): Promise<Dispute | undefined> {
+    const [dispute] = await db
+      .update(disputes)
+      .set({ ...disputeData, updatedAt: new Date() })
+      .where(eq(disputes.id, id))
+      .returning();
+    return dispute;
+  }
+
+  // Receipt lineage operations
+  async createReceiptLineage(insertLineage: InsertReceiptLineage): Promise<ReceiptLineage> {
+    const [lineage] = await db.insert(receiptLineage).values(insertLineage).returning();
+    return lineage;
+  }
+
+  async listReceiptLineageByParent(receiptId: number): Promise<ReceiptLineage[]> {
+    return db.select().from(receiptLineage).where(eq(receiptLineage.parentReceiptId, receiptId)).orderBy(receiptLineage.createdAt);
+  }
+
+  async listReceiptLineageByChild(receiptId: number): Promise<ReceiptLineage[]> {
+    return db.select().from(receiptLineage).where(eq(receiptLineage.childReceiptId, receiptId)).orderBy(receiptLineage.createdAt);
+  }
+
+  // Receipt endorsement operations
+  async getReceiptEndorsement(id: number): Promise<ReceiptEndorsement | undefined> {
+    const [endorsement] = await db.select().from(receiptEndorsements).where(eq(receiptEndorsements.id, id));
+    return endorsement;
+  }
+
+  async createReceiptEndorsement(insertEndorsement: InsertReceiptEndorsement): Promise<ReceiptEndorsement> {
+    const [endorsement] = await db.insert(receiptEndorsements).values(insertEndorsement).returning();
+    return endorsement;
+  }
+
+  async listReceiptEndorsementsByReceipt(receiptId: number): Promise<ReceiptEndorsement[]> {
+    return db.select().from(receiptEndorsements).where(eq(receiptEndorsements.receiptId, receiptId)).orderBy(receiptEndorsements.id);
+  }
+
+  async listPendingEndorsementsForUser(userId: number): Promise<ReceiptEndorsement[]> {
+    return db
+      .select()
+      .from(receiptEndorsements)
+      .where(and(eq(receiptEndorsements.endorseeId, userId), eq(receiptEndorsements.status, 'pending')))
+      .orderBy(receiptEndorsements.createdAt);
+  }
+
+  async updateReceiptEndorsement(id: number, endorsementData: Partial<InsertReceiptEndorsement>): Promise<ReceiptEndorsement | undefined> {
+    const [endorsement] = await db
+      .update(receiptEndorsements)
+      .set(endorsementData)
+      .where(eq(receiptEndorsements.id, id))
+      .returning();
+    return endorsement;
+  }
+
+  // Commodity category operations
+  async getCommodityCategory(id: number): Promise<CommodityCategory | undefined> {
+    const [category] = await db.select().from(commodityCategories).where(eq(commodityCategories.id, id));
+    return category;
+  }
+
+  async getCommodityCategoryByName(name: string): Promise<CommodityCategory | undefined> {
+    const [category] = await db.select().from(commodityCategories).where(sql`lower(${commodityCategories.name}) = lower(${name})`);
+    return category;
+  }
+
+  async listCommodityCategories(): Promise<CommodityCategory[]> {
+    return db.select().from(commodityCategories).orderBy(commodityCategories.name);
+  }
+
+  async createCommodityCategory(insertCategory: InsertCommodityCategory): Promise<CommodityCategory> {
+    const [category] = await db.insert(commodityCategories).values(insertCategory).returning();
+    return category;
+  }
+
+  async updateCommodityCategory(id: number, categoryData: Partial<InsertCommodityCategory>): Promise<CommodityCategory | undefined> {
+    const [category] = await db
+      .update(commodityCategories)
+      .set(categoryData)
+      .where(eq(commodityCategories.id, id))
+      .returning();
+    return category;
+  }
+
+  // Commodity price history operations
+  async createCommodityPrice(insertPrice: InsertCommodityPrice): Promise<CommodityPrice> {
+    const [price] = await db.insert(commodityPrices).values(insertPrice).returning();
+    return price;
+  }
+
+  async listCommodityPrices(commodityName: string, options: { market?: string; since?: Date } = {}): Promise<CommodityPrice[]> {
+    const conditions = [sql`lower(${commodityPrices.commodityName}) = lower(${commodityName})`];
+    if (options.market) {
+      conditions.push(sql`lower(${commodityPrices.market}) = lower(${options.market})`);
+    }
+    if (options.since) {
+      conditions.push(gte(commodityPrices.priceDate, options.since));
+    }
+
+    return db
+      .select()
+      .from(commodityPrices)
+      .where(and(...conditions))
+      .orderBy(desc(commodityPrices.priceDate));
+  }
+
+  // Mark-to-market operations
+  async createReceiptValuation(insertValuation: InsertReceiptValuation): Promise<ReceiptValuation> {
+    const [valuation] = await db.insert(receiptValuations).values(insertValuation).returning();
+    return valuation;
+  }
+
+  async listReceiptValuations(receiptId: number): Promise<ReceiptValuation[]> {
+    return db.select().from(receiptValuations).where(eq(receiptValuations.receiptId, receiptId)).orderBy(desc(receiptValuations.id));
+  }
+
+  async createLoanLtvSnapshot(insertSnapshot: InsertLoanLtvSnapshot): Promise<LoanLtvSnapshot> {
+    const [snapshot] = await db.insert(loanLtvSnapshots).values(insertSnapshot).returning();
+    return snapshot;
+  }
+
+  async listLoanLtvSnapshots(loanId: number): Promise<LoanLtvSnapshot[]> {
+    return db.select().from(loanLtvSnapshots).where(eq(loanLtvSnapshots.loanId, loanId)).orderBy(desc(loanLtvSnapshots.id));
+  }
+
+  // Margin call operations
+  async getMarginCall(id: number): Promise<MarginCall | undefined> {
+    const [marginCall] = await db.select().from(marginCalls).where(eq(marginCalls.id, id));
+    return marginCall;
+  }
+
+  async createMarginCall(insertMarginCall: InsertMarginCall): Promise<MarginCall> {
+    const [marginCall] = await db.insert(marginCalls).values(insertMarginCall).returning();
+    return marginCall;
+  }
+
+  async updateMarginCall(id: number, marginCallData: Partial<MarginCall>): Promise<MarginCall | undefined> {
+    const [marginCall] = await db.update(marginCalls).set(marginCallData).where(eq(marginCalls.id, id)).returning();
+    return marginCall;
+  }
+
+  async listMarginCallsByLoan(loanId: number): Promise<MarginCall[]> {
+    return db.select().from(marginCalls).where(eq(marginCalls.loanId, loanId)).orderBy(desc(marginCalls.id));
+  }
+
+  async listMarginCallsByUser(userId: number): Promise<MarginCall[]> {
+    return db.select().from(marginCalls).where(eq(marginCalls.userId, userId)).orderBy(desc(marginCalls.id));
+  }
+
+  async listMarginCallsByStatus(status: MarginCallStatus): Promise<MarginCall[]> {
+    return db.select().from(marginCalls).where(eq(marginCalls.status, status)).orderBy(marginCalls.deadline);
+  }
+
+  // Liquidation auction operations
+  async getCollateralAuction(id: number): Promise<CollateralAuction | undefined> {
+    const [auction] = await db.select().from(collateralAuctions).where(eq(collateralAuctions.id, id));
+    return auction;
+  }
+
+  async createCollateralAuction(insertAuction: InsertCollateralAuction): Promise<CollateralAuction> {
+    const [auction] = await db.insert(collateralAuctions).values(insertAuction).returning();
+    return auction;
+  }
+
+  async updateCollateralAuction(id: number, auctionData: Partial<CollateralAuction>): Promise<CollateralAuction | undefined> {
+    const [auction] = await db.update(collateralAuctions).set(auctionData).where(eq(collateralAuctions.id, id)).returning();
+    return auction;
+  }
+
+  async listCollateralAuctions(status?: AuctionStatus): Promise<CollateralAuction[]> {
+    const query = db.select().from(collateralAuctions);
+    return (status ? query.where(eq(collateralAuctions.status, status)) : query).orderBy(collateralAuctions.endsAt);
+  }
+
+  async listCollateralAuctionsByLoan(loanId: number): Promise<CollateralAuction[]> {
+    return db.select().from(collateralAuctions).where(eq(collateralAuctions.loanId, loanId)).orderBy(desc(collateralAuctions.id));
+  }
+
+  async createAuctionBid(insertBid: InsertAuctionBid): Promise<AuctionBid> {
+    const [bid] = await db.insert(auctionBids).values(insertBid).returning();
+    return bid;
+  }
+
+  async updateAuctionBid(id: number, bidData: Partial<AuctionBid>): Promise<AuctionBid | undefined> {
+    const [bid] = await db.update(auctionBids).set(bidData).where(eq(auctionBids.id, id)).returning();
+    return bid;
+  }
+
+  async listAuctionBids(auctionId: number): Promise<AuctionBid[]> {
+    return db.select().from(auctionBids).where(eq(auctionBids.auctionId, auctionId)).orderBy(auctionBids.id);
+  }
+
+  // Double-entry ledger operations
+  async getLedgerAccount(id: number): Promise<LedgerAccount | undefined> {
+    const [account] = await db.select().from(ledgerAccounts).where(eq(ledgerAccounts.id, id));
+    return account;
+  }
+
+  async getLedgerAccountByCode(code: string): Promise<LedgerAccount | undefined> {
+    const [account] = await db.select().from(ledgerAccounts).where(eq(ledgerAccounts.code, code));
+    return account;
+  }
+
+  async createLedgerAccount(insertAccount: InsertLedgerAccount): Promise<LedgerAccount> {
+    const [account] = await db.insert(ledgerAccounts).values(insertAccount).returning();
+    return account;
+  }
+
+  async listLedgerAccounts(userId?: number): Promise<LedgerAccount[]> {
+    const query = db.select().from(ledgerAccounts);
+    return userId === undefined
+      ? query.orderBy(ledgerAccounts.code)
+      : query.where(eq(ledgerAccounts.userId, userId)).orderBy(ledgerAccounts.code);
+  }
+
+  async getLedgerJournal(id: number): Promise<LedgerJournal | undefined> {
+    const [journal] = await db.select().from(ledgerJournals).where(eq(ledgerJournals.id, id));
+    return journal;
+  }
+
+  async getLedgerJournalByReference(reference: string): Promise<LedgerJournal | undefined> {
+    const [journal] = await db.select().from(ledgerJournals).where(eq(ledgerJournals.reference, reference));
+    return journal;
+  }
+
+  async createLedgerJournal(
+    insertJournal: InsertLedgerJournal,
+    insertPostings: InsertLedgerPosting[]
+  ): Promise<{ journal: LedgerJournal; postings: LedgerPosting[] }> {
+    // A journal and its postings are written together or not at all
+    return db.transaction(async (tx) => {
+      const [journal] = await tx.insert(ledgerJournals).values(insertJournal).returning();
+      const postings = await tx
+        .insert(ledgerPostings)
+        .values(insertPostings.map(posting => ({ ...posting, journalId: journal.id })))
+        .returning();
+      return { journal, postings };
+    });
+  }
+
+  async listLedgerPostings(accountId?: number): Promise<LedgerPosting[]> {
+    const query = db.select().from(ledgerPostings);
+    return accountId === undefined
+      ? query.orderBy(ledgerPostings.id)
+      : query.where(eq(ledgerPostings.accountId, accountId)).orderBy(ledgerPostings.id);
+  }
+
+  // Storage fee billing operations
+  async createWarehouseTariff(insertTariff: InsertWarehouseTariff): Promise<WarehouseTariff> {
+    const [tariff] = await db.insert(warehouseTariffs).values(insertTariff).returning();
+    return tariff;
+  }
+
+  async updateWarehouseTariff(id: number, tariffData: Partial<InsertWarehouseTariff>): Promise<WarehouseTariff | undefined> {
+    const [tariff] = await db.update(warehouseTariffs).set(tariffData).where(eq(warehouseTariffs.id, id)).returning();
+    return tariff;
+  }
+
+  async listWarehouseTariffs(warehouseId: number): Promise<WarehouseTariff[]> {
+    return db.select().from(warehouseTariffs).where(eq(warehouseTariffs.warehouseId, warehouseId)).orderBy(warehouseTariffs.id);
+  }
+
+  async createStorageFeeAccrual(insertAccrual: InsertStorageFeeAccrual): Promise<StorageFeeAccrual> {
+    const [accrual] = await db.insert(storageFeeAccruals).values(insertAccrual).returning();
+    return accrual;
+  }
+
+  async updateStorageFeeAccrual(id: number, accrualData: Partial<InsertStorageFeeAccrual>): Promise<StorageFeeAccrual | undefined> {
+    const [accrual] = await db.update(storageFeeAccruals).set(accrualData).where(eq(storageFeeAccruals.id, id)).returning();
+    return accrual;
+  }
+
+  async listStorageFeeAccruals(receiptId: number): Promise<StorageFeeAccrual[]> {
+    return db.select().from(storageFeeAccruals).where(eq(storageFeeAccruals.receiptId, receiptId)).orderBy(storageFeeAccruals.periodStart);
+  }
+
+  async getStorageInvoice(id: number): Promise<StorageInvoice | undefined> {
+    const [invoice] = await db.select().from(storageInvoices).where(eq(storageInvoices.id, id));
+    return invoice;
+  }
+
+  async createStorageInvoice(insertInvoice: InsertStorageInvoice): Promise<StorageInvoice> {
+    const [invoice] = await db.insert(storageInvoices).values(insertInvoice).returning();
+    return invoice;
+  }
+
+  async updateStorageInvoice(id: number, invoiceData: Partial<InsertStorageInvoice>): Promise<StorageInvoice | undefined> {
+    const [invoice] = await db.update(storageInvoices).set(invoiceData).where(eq(storageInvoices.id, id)).returning();
+    return invoice;
+  }
+
+  async listStorageInvoicesByReceipt(receiptId: number): Promise<StorageInvoice[]> {
+    return db.select().from(storageInvoices).where(eq(storageInvoices.receiptId, receiptId)).orderBy(storageInvoices.id);
+  }
+
+  async listStorageInvoicesByUser(userId: number): Promise<StorageInvoice[]> {
+    return db.select().from(storageInvoices).where(eq(storageInvoices.userId, userId)).orderBy(desc(storageInvoices.id));
+  }
+
+  async listStorageInvoicesByWarehouse(warehouseId: number): Promise<StorageInvoice[]> {
+    return db.select().from(storageInvoices).where(eq(storageInvoices.warehouseId, warehouseId)).orderBy(desc(storageInvoices.id));
+  }
+
+  // Lending partner integration operations
+  async getLoanApplicationByExternalId(lendingPartnerId: number, externalApplicationId: string): Promise<LoanApplication | undefined> {
+    const [application] = await db.select().from(loanApplications).where(and(
+      eq(loanApplications.lendingPartnerId, lendingPartnerId),
+      eq(loanApplications.externalApplicationId, externalApplicationId)
+    ));
+    return application;
+  }
+
+  async listLoanApplicationsByStatus(status: LoanApplication['status']): Promise<LoanApplication[]> {
+    return db.select().from(loanApplications).where(eq(loanApplications.status, status)).orderBy(loanApplications.id);
+  }
+
+  async getLoanByExternalId(lendingPartnerId: number, externalLoanId: string): Promise<Loan | undefined> {
+    const [loan] = await db.select().from(loans).where(and(
+      eq(loans.lendingPartnerId, lendingPartnerId),
+      eq(loans.externalLoanId, externalLoanId)
+    ));
+    return loan;
+  }
+
+  async getLendingWebhookEvent(lendingPartnerId: number, eventId: string): Promise<LendingWebhookEventRecord | undefined> {
+    const [event] = await db.select().from(lendingWebhookEvents).where(and(
+      eq(lendingWebhookEvents.lendingPartnerId, lendingPartnerId),
+      eq(lendingWebhookEvents.eventId, eventId)
+    ));
+    return event;
+  }
+
+  async createLendingWebhookEvent(insertEvent: InsertLendingWebhookEvent): Promise<LendingWebhookEventRecord> {
+    const [event] = await db.insert(lendingWebhookEvents).values(insertEvent).returning();
+    return event;
+  }
+
+  async updateLendingWebhookEvent(id: number, eventData: Partial<InsertLendingWebhookEvent>): Promise<LendingWebhookEventRecord | undefined> {
+    const [event] = await db.update(lendingWebhookEvents).set(eventData).where(eq(lendingWebhookEvents.id, id)).returning();
+    return event;
+  }
+
+  // Loan marketplace operations
+  async getPledgeRequest(id: number): Promise<PledgeRequest | undefined> {
+    const [request] = await db.select().from(pledgeRequests).where(eq(pledgeRequests.id, id));
+    return request;
+  }
+
+  async createPledgeRequest(insertRequest: InsertPledgeRequest): Promise<PledgeRequest> {
+    const [request] = await db.insert(pledgeRequests).values(insertRequest).returning();
+    return request;
+  }
+
+  async updatePledgeRequest(id: number, requestData: Partial<InsertPledgeRequest>): Promise<PledgeRequest | undefined> {
+    const [request] = await db.update(pledgeRequests).set(requestData).where(eq(pledgeRequests.id, id)).returning();
+    return request;
+  }
+
+  async listPledgeRequestsByUser(userId: number): Promise<PledgeRequest[]> {
+    return db.select().from(pledgeRequests).where(eq(pledgeRequests.userId, userId)).orderBy(desc(pledgeRequests.id));
+  }
+
+  async getLoanOffer(id: number): Promise<LoanOfferRecord | undefined> {
+    const [offer] = await db.select().from(loanOffers).where(eq(loanOffers.id, id));
+    return offer;
+  }
+
+  async createLoanOffer(insertOffer: InsertLoanOffer): Promise<LoanOfferRecord> {
+    const [offer] = await db.insert(loanOffers).values(insertOffer).returning();
+    return offer;
+  }
+
+  async updateLoanOffer(id: number, offerData: Partial<InsertLoanOffer>): Promise<LoanOfferRecord | undefined> {
+    const [offer] = await db.update(loanOffers).set(offerData).where(eq(loanOffers.id, id)).returning();
+    return offer;
+  }
+
+  async listLoanOffersByPledgeRequest(pledgeRequestId: number): Promise<LoanOfferRecord[]> {
+    return db.select().from(loanOffers).where(eq(loanOffers.pledgeRequestId, pledgeRequestId)).orderBy(loanOffers.id);
+  }
+
+  // Lien registry operations
+  async getLien(id: number): Promise<Lien | undefined> {
+    const [lien] = await db.select().from(liens).where(eq(liens.id, id));
+    return lien;
+  }
+
+  async createLien(insertLien: InsertLien): Promise<Lien> {
+    const [lien] = await db.insert(liens).values(insertLien).returning();
+    return lien;
+  }
+
+  async updateLien(id: number, lienData: Partial<InsertLien>): Promise<Lien | undefined> {
+    const [lien] = await db.update(liens).set(lienData).where(eq(liens.id, id)).returning();
+    return lien;
+  }
+
+  async listLiensByReceipt(receiptId: number): Promise<Lien[]> {
+    return db.select().from(liens).where(eq(liens.receiptId, receiptId)).orderBy(liens.priority, liens.id);
+  }
+
+  async listLiensByLoan(loanId: number): Promise<Lien[]> {
+    return db.select().from(liens).where(eq(liens.loanId, loanId)).orderBy(liens.id);
+  }
+
+  async listLiensByStatus(status: LienStatus): Promise<Lien[]> {
+    return db.select().from(liens).where(eq(liens.status, status)).orderBy(liens.id);
+  }
+
+  // KYC operations
+  async getKycSubmission(id: number): Promise<KycSubmission | undefined> {
+    const [submission] = await db.select().from(kycSubmissions).where(eq(kycSubmissions.id, id));
+    return submission;
+  }
+
+  async createKycSubmission(insertSubmission: InsertKycSubmission): Promise<KycSubmission> {
+    const [submission] = await db.insert(kycSubmissions).values(insertSubmission).returning();
+    return submission;
+  }
+
+  async updateKycSubmission(id: number, submissionData: Partial<InsertKycSubmission>): Promise<KycSubmission | undefined> {
+    const [submission] = await db.update(kycSubmissions).set(submissionData).where(eq(kycSubmissions.id, id)).returning();
+    return submission;
+  }
+
+  async listKycSubmissionsByUser(userId: number): Promise<KycSubmission[]> {
+    return db.select().from(kycSubmissions).where(eq(kycSubmissions.userId, userId)).orderBy(desc(kycSubmissions.id));
+  }
+
+  async listKycSubmissionsByStatus(status: KycSubmission['status']): Promise<KycSubmission[]> {
+    return db.select().from(kycSubmissions).where(eq(kycSubmissions.status, status)).orderBy(kycSubmissions.id);
+  }
+
+  async listKycSubmissionsByAadhaarHash(aadhaarHash: string): Promise<KycSubmission[]> {
+    return db.select().from(kycSubmissions).where(eq(kycSubmissions.aadhaarHash, aadhaarHash));
+  }
+
+  // Audit ledger operations
+  async getAuditEntry(id: number): Promise<AuditEntry | undefined> {
+    const [entry] = await db.select().from(auditEntries).where(eq(auditEntries.id, id));
+    return entry;
+  }
+
+  async getLatestAuditEntry(): Promise<AuditEntry | undefined> {
+    const [entry] = await db.select().from(auditEntries).orderBy(desc(auditEntries.id)).limit(1);
+    return entry;
+  }
+
+  async createAuditEntry(insertEntry: InsertAuditEntry): Promise<AuditEntry> {
+    const [entry] = await db.insert(auditEntries).values(insertEntry).returning();
+    return entry;
+  }
+
+  async listAuditEntries(): Promise<AuditEntry[]> {
+    return db.select().from(auditEntries).orderBy(auditEntries.id);
+  }
+
+  async listAuditEntriesByEntity(entityType: string, entityId: number): Promise<AuditEntry[]> {
+    return db.select().from(auditEntries)
+      .where(and(eq(auditEntries.entityType, entityType), eq(auditEntries.entityId, entityId)))
+      .orderBy(auditEntries.id);
+  }
+
+  async listUnsealedAuditEntries(limit: number): Promise<AuditEntry[]> {
+    return db.select().from(auditEntries)
+      .where(isNull(auditEntries.blockId))
+      .orderBy(auditEntries.id)
+      .limit(limit);
+  }
+
+  async listAuditEntriesByBlock(blockId: number): Promise<AuditEntry[]> {
+    return db.select().from(auditEntries).where(eq(auditEntries.blockId, blockId)).orderBy(auditEntries.id);
+  }
+
+  async sealAuditEntries(blockId: number, firstEntryId: number, lastEntryId: number): Promise<void> {
+    await db.update(auditEntries)
+      .set({ blockId })
+      .where(and(gte(auditEntries.id, firstEntryId), lte(auditEntries.id, lastEntryId)));
+  }
+
+  async getAuditBlock(id: number): Promise<AuditBlock | undefined> {
+    const [block] = await db.select().from(auditBlocks).where(eq(auditBlocks.id, id));
+    return block;
+  }
+
+  async getLatestAuditBlock(): Promise<AuditBlock | undefined> {
+    const [block] = await db.select().from(auditBlocks).orderBy(desc(auditBlocks.height)).limit(1);
+    return block;
+  }
+
+  async createAuditBlock(insertBlock: InsertAuditBlock): Promise<AuditBlock> {
+    const [block] = await db.insert(auditBlocks).values(insertBlock).returning();
+    return block;
+  }
+
+  async listAuditBlocks(): Promise<AuditBlock[]> {
+    return db.select().from(auditBlocks).orderBy(auditBlocks.height);
+  }
+
+  // Smart contract operations
+  async getSmartContract(id: number): Promise<SmartContract | undefined> {
+    const [contract] = await db.select().from(smartContracts).where(eq(smartContracts.id, id));
+    return contract;
+  }
+
+  async getSmartContractByContractId(contractId: string): Promise<SmartContract | undefined> {
+    const [contract] = await db.select().from(smartContracts).where(eq(smartContracts.contractId, contractId));
+    return contract;
+  }
+
+  async createSmartContract(insertContract: InsertSmartContract): Promise<SmartContract> {
+    const [contract] = await db.insert(smartContracts).values(insertContract).returning();
+    return contract;
+  }
+
+  async updateSmartContract(id: number, contractData: Partial<InsertSmartContract>): Promise<SmartContract | undefined> {
+    const [contract] = await db.update(smartContracts).set(contractData).where(eq(smartContracts.id, id)).returning();
+    return contract;
+  }
+
+  async listSmartContracts(): Promise<SmartContract[]> {
+    return db.select().from(smartContracts).orderBy(smartContracts.id);
+  }
+
+  async listSmartContractsByStatus(status: SmartContractStatus): Promise<SmartContract[]> {
+    return db.select().from(smartContracts).where(eq(smartContracts.status, status)).orderBy(smartContracts.id);
+  }
+
+  async listSmartContractsByLoan(loanId: number): Promise<SmartContract[]> {
+    return db.select().from(smartContracts).where(eq(smartContracts.loanId, loanId)).orderBy(smartContracts.id);
+  }
+
+  // Spot trade operations
+  async getSpotTrade(id: number): Promise<SpotTrade | undefined> {
+    const [trade] = await db.select().from(spotTrades).where(eq(spotTrades.id, id));
+    return trade;
+  }
+
+  async createSpotTrade(insertTrade: InsertSpotTrade): Promise<SpotTrade> {
+    const [trade] = await db.insert(spotTrades).values(insertTrade).returning();
+    return trade;
+  }
+
+  async updateSpotTrade(id: number, tradeData: Partial<InsertSpotTrade>): Promise<SpotTrade | undefined> {
+    const [trade] = await db.update(spotTrades).set(tradeData).where(eq(spotTrades.id, id)).returning();
+    return trade;
+  }
+
+  async listSpotTradesByUser(userId: number): Promise<SpotTrade[]> {
+    return db.select().from(spotTrades)
+      .where(or(eq(spotTrades.buyerId, userId), eq(spotTrades.sellerId, userId)))
+      .orderBy(desc(spotTrades.id));
+  }
+
+  async listSpotTradesByReceipt(receiptId: number): Promise<SpotTrade[]> {
+    return db.select().from(spotTrades).where(eq(spotTrades.receiptId, receiptId)).orderBy(desc(spotTrades.id));
+  }
+}
+
+/**
+ * Storage backend selection. Set STORAGE_DRIVER=memory to use the in-memory
+ * store (tests and throwaway demos); anything else persists to PostgreSQL.
+ */
+function createStorage(): IStorage {
+  if (process.env.STORAGE_DRIVER === 'memory') {
+    console.log('Using in-memory storage (STORAGE_DRIVER=memory) - data will not survive a restart');
+    return new MemStorage();
+  }
+  return new DatabaseStorage();
 }
 
-export const storage = new MemStorage();
\ No newline at end of file
+export const storage: IStorage = createStorage();
\ No newline at end of file
@@ -0,0 +1,76 @@
+/**
+ * Offline verifier for signed receipt and sack QR codes
+ *
+ * Fetch the platform's public keys once while online, then check scanned codes
+ * without a connection:
+ *
+ *   npm run verify:qr -- --fetch-keys https://tradewiser.example.com
+ *   npm run verify:qr -- 'TW1.eyJ0eXAiOiJzYWNrIi...'
+ *   npm run verify:qr -- 'https://tradewiser.example.com/receipts/verify/WR-1-ABC?qr=TW1...'
+ *
+ * Keys are kept in qr-keys.json unless --keys names another file.
+ * Exits 0 for a valid code, 1 for an invalid one and 2 on usage errors.
+ */
+import fs from 'fs';
+import { pathToFileURL } from 'url';
+import { verifyQrToken, type QrPublicKeys } from '../shared/qrPayload';
+
+const DEFAULT_KEYS_FILE = 'qr-keys.json';
+
+function option(args: string[], name: string) {
+  const index = args.indexOf(name);
+  return index >= 0 ? args[index + 1] : undefined;
+}
+
+/**
+ * Download the public keys from a running platform and save them for offline use
+ */
+export async function fetchKeys(baseUrl: string, keysFile = DEFAULT_KEYS_FILE): Promise<QrPublicKeys> {
+  const response = await fetch(`${baseUrl.replace(/\/$/, '')}/api/qr/keys`);
+  if (!response.ok) {
+    throw new Error(`Fetching keys failed with HTTP ${response.status}`);
+  }
+  const { keys } = await response.json() as { keys: QrPublicKeys };
+  fs.writeFileSync(keysFile, JSON.stringify(keys, null, 2));
+  return keys;
+}
+
+export function loadKeys(keysFile = DEFAULT_KEYS_FILE): QrPublicKeys {
+  if (!fs.existsSync(keysFile)) {
+    throw new Error(`No keys in ${keysFile}; run with --fetch-keys <platform URL> first`);
+  }
+  return JSON.parse(fs.readFileSync(keysFile, 'utf8'));
+}
+
+async function main(args: string[]) {
+  const keysFile = option(args, '--keys') ?? DEFAULT_KEYS_FILE;
+  const baseUrl = option(args, '--fetch-keys');
+  if (baseUrl) {
+    const keys = await fetchKeys(baseUrl, keysFile);
+    console.log(`Saved ${Object.keys(keys).length} key(s) to ${keysFile}`);
+    return 0;
+  }
+
+  const code = args.find((arg, index) => !arg.startsWith('--') && !args[index - 1]?.startsWith('--'));
+  if (!code) {
+    console.error('Usage: verify-qr <token or URL> [--keys file] | --fetch-keys <platform URL> [--keys file]');
+    return 2;
+  }
+
+  const result = await verifyQrToken(code, loadKeys(keysFile));
+  if (result.claims) {
+    console.log(JSON.stringify(result.claims, null, 2));
+  }
+  console.log(result.valid ? 'VALID: signed by the platform' : `INVALID: ${result.reason}`);
+  return result.valid ? 0 : 1;
+}
+
+// Run standalone with `npm run verify:qr`
+if (process.argv[1] && import.meta.url === pathToFileURL(process.argv[1]).href) {
+  main(process.argv.slice(2))
+    .then(code => process.exit(code))
+    .catch(error => {
+      console.error(error instanceof Error ? error.message : error);
+      process.exit(2);
+    });
+}
@@ -0,0 +1,157 @@
+/**
+ * Audit ledger hashing shared by the server, which builds the ledger and its
+ * Merkle proofs, and the browser, which checks a receipt's proof without
+ * trusting the server's copy of the receipt.
+ * Only the preimages live here; each side applies its own SHA-256.
+ */
+
+// Previous hash of the first entry and of the first block
+export const GENESIS_HASH = "0".repeat(64);
+
+// Receipt fields committed to the ledger whenever the receipt is anchored
+export interface ReceiptState {
+  receiptNumber: string;
+  receiptType: string;
+  status: string;
+  quantity: string;
+  measurementUnit: string | null;
+  commodityName: string | null;
+  qualityGrade: string | null;
+  warehouseName: string | null;
+  issuedDate: string | null;
+  expiryDate: string | null;
+}
+
+// A sibling on the path from a leaf to the Merkle root
+export interface MerkleStep {
+  hash: string;
+  position: 'left' | 'right';
+}
+
+export interface ProofEntry {
+  id: number;
+  entityType: string;
+  entityId: number;
+  action: string;
+  payload: unknown;
+  payloadHash: string;
+  previousHash: string;
+  entryHash: string;
+  createdAt: Date | string;
+}
+
+export interface ProofBlock {
+  height: number;
+  firstEntryId: number;
+  lastEntryId: number;
+  entryCount: number;
+  merkleRoot: string;
+  previousBlockHash: string;
+  blockHash: string;
+  sealedAt: Date | string;
+}
+
+/**
+ * Inclusion proof of a receipt's latest state commitment.
+ * block and steps are null while the entry waits to be sealed.
+ */
+export interface ReceiptProof {
+  entry: ProofEntry;
+  leafIndex: number | null;
+  steps: MerkleStep[] | null;
+  block: ProofBlock | null;
+}
+
+const isoOrNull = (value: Date | string | null | undefined) =>
+  value ? new Date(value).toISOString() : null;
+
+/**
+ * A receipt's liens field as an object; some receipts store it as a JSON string
+ */
+export function receiptLiens(liens: unknown): Record<string, any> {
+  if (typeof liens === 'string') {
+    try {
+      return receiptLiens(JSON.parse(liens));
+    } catch {
+      return {};
+    }
+  }
+  return liens && typeof liens === 'object' ? liens as Record<string, any> : {};
+}
+
+/**
+ * JSON with object keys sorted, so equal payloads always hash the same
+ */
+export function canonicalJson(value: unknown): string {
+  if (Array.isArray(value)) {
+    return `[${value.map(canonicalJson).join(',')}]`;
+  }
+  if (value && typeof value === 'object') {
+    const entries = Object.entries(value as Record<string, unknown>)
+      .filter(([, item]) => item !== undefined)
+      .sort(([a], [b]) => (a < b ? -1 : a > b ? 1 : 0));
+    return `{${entries.map(([key, item]) => `${JSON.stringify(key)}:${canonicalJson(item)}`).join(',')}}`;
+  }
+  return JSON.stringify(value ?? null);
+}
+
+/**
+ * The committed state of a receipt. Works on the database row and on its JSON
+ * form alike. Commodity and grade fall back to the copies kept in liens.
+ * Valuation is left out: it follows the market, not the stock.
+ */
+export function receiptState(receipt: {
+  receiptNumber: string;
+  receiptType?: string | null;
+  status?: string | null;
+  quantity: string | number;
+  measurementUnit?: string | null;
+  commodityName?: string | null;
+  qualityGrade?: string | null;
+  warehouseName?: string | null;
+  issuedDate?: Date | string | null;
+  expiryDate?: Date | string | null;
+  liens?: unknown;
+}): ReceiptState {
+  const liens = receiptLiens(receipt.liens);
+  return {
+    receiptNumber: receipt.receiptNumber,
+    receiptType: receipt.receiptType ?? 'negotiable',
+    status: receipt.status ?? 'processing',
+    quantity: String(receipt.quantity),
+    measurementUnit: receipt.measurementUnit ?? null,
+    commodityName: receipt.commodityName || liens.commodityName || null,
+    qualityGrade: receipt.qualityGrade || liens.qualityGrade || null,
+    warehouseName: receipt.warehouseName ?? null,
+    issuedDate: isoOrNull(receipt.issuedDate),
+    expiryDate: isoOrNull(receipt.expiryDate)
+  };
+}
+
+/**
+ * What an entry hash covers: its payload hash chained to the previous entry's hash
+ */
+export function entryPreimage(entry: Pick<ProofEntry, 'previousHash' | 'entityType' | 'entityId' | 'action' | 'payloadHash' | 'createdAt'>): string {
+  return [
+    entry.previousHash,
+    entry.entityType,
+    entry.entityId,
+    entry.action,
+    entry.payloadHash,
+    new Date(entry.createdAt).toISOString()
+  ].join('|');
+}
+
+/**
+ * What a block hash covers: its header, chained to the previous block's hash
+ */
+export function blockPreimage(block: Pick<ProofBlock, 'previousBlockHash' | 'height' | 'firstEntryId' | 'lastEntryId' | 'merkleRoot' | 'sealedAt'>): string {
+  return [
+    block.previousBlockHash,
+    block.height,
+    block.firstEntryId,
+    block.lastEntryId,
+    block.merkleRoot,
+    new Date(block.sealedAt).toISOString()
+  ].join('|');
+}
@@ -0,0 +1,118 @@
+/**
+ * Signed QR payloads for receipts and sacks.
+ *
+ * A token is `TW1.<claims>.<signature>`: the claims are base64url JSON and the
+ * signature is an Ed25519 signature, by the platform key, over `TW1.<claims>`.
+ * Verification needs only the platform's public key and WebCrypto, so it runs
+ * offline in the browser and in the CLI alike.
+ */
+
+export const QR_TOKEN_PREFIX = 'TW1';
+
+export interface SackQrClaims {
+  typ: 'sack';
+  sackId: string;
+  receiptNumber: string | null;
+  warehouseId: number | null;
+  weight: string;
+  unit: string;
+  grade: string | null;
+  kid: string;
+  iat: string;
+}
+
+export interface ReceiptQrClaims {
+  typ: 'receipt';
+  receiptNumber: string;
+  verificationCode: string | null;
+  commodity: string | null;
+  quantity: string;
+  unit: string;
+  warehouseId: number | null;
+  kid: string;
+  iat: string;
+}
+
+export type QrClaims = SackQrClaims | ReceiptQrClaims;
+
+// Public keys by key id, as served by GET /api/qr/keys
+export type QrPublicKeys = Record<string, string>;
+
+export interface QrVerification {
+  valid: boolean;
+  claims: QrClaims | null;
+  reason: string | null;
+}
+
+export function toBase64Url(bytes: Uint8Array): string {
+  let binary = '';
+  bytes.forEach(byte => { binary += String.fromCharCode(byte); });
+  return btoa(binary).replace(/\+/g, '-').replace(/\//g, '_').replace(/=+$/, '');
+}
+
+export function fromBase64Url(value: string): Uint8Array {
+  const base64 = value.replace(/-/g, '+').replace(/_/g, '/');
+  const binary = atob(base64 + '='.repeat((4 - base64.length % 4) % 4));
+  return Uint8Array.from(binary, char => char.charCodeAt(0));
+}
+
+/**
+ * The part of a token that is signed
+ */
+export function qrSigningInput(claims: QrClaims): string {
+  const json = new TextEncoder().encode(JSON.stringify(claims));
+  return `${QR_TOKEN_PREFIX}.${toBase64Url(json)}`;
+}
+
+/**
+ * Pull a token out of scanned text: either the token itself or a URL carrying it as ?qr=
+ */
+export function extractQrToken(text: string): string | null {
+  const trimmed = text.trim();
+  if (trimmed.startsWith(`${QR_TOKEN_PREFIX}.`)) return trimmed;
+  try {
+    return new URL(trimmed).searchParams.get('qr');
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * Check a token's signature against the platform's public keys
+ * @param text The scanned text
+ * @param publicKeys Raw Ed25519 public keys (base64url) by key id
+ */
+export async function verifyQrToken(text: string, publicKeys: QrPublicKeys): Promise<QrVerification> {
+  const token = extractQrToken(text);
+  const parts = token?.split('.') ?? [];
+  if (parts.length !== 3 || parts[0] !== QR_TOKEN_PREFIX) {
+    return { valid: false, claims: null, reason: 'Not a TradeWiser QR code' };
+  }
+
+  let claims: QrClaims;
+  try {
+    claims = JSON.parse(new TextDecoder().decode(fromBase64Url(parts[1])));
+  } catch {
+    return { valid: false, claims: null, reason: 'QR payload is unreadable' };
+  }
+
+  const publicKey = publicKeys[claims.kid];
+  if (!publicKey) {
+    return { valid: false, claims, reason: `Signed with unknown key ${claims.kid}` };
+  }
+
+  try {
+    const key = await crypto.subtle.importKey('raw', fromBase64Url(publicKey), { name: 'Ed25519' }, false, ['verify']);
+    const valid = await crypto.subtle.verify(
+      'Ed25519',
+      key,
+      fromBase64Url(parts[2]),
+      new TextEncoder().encode(`${parts[0]}.${parts[1]}`)
+    );
+    return valid
+      ? { valid: true, claims, reason: null }
+      : { valid: false, claims, reason: 'Signature does not match the payload' };
+  } catch {
+    return { valid: false, claims, reason: 'Signature could not be checked' };
+  }
+}
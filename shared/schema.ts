@@ -25,7 +25,8 @@ export enum LoanStatus {
   ACTIVE = 'active',
   REPAID = 'repaid',
   DEFAULTED = 'defaulted',
-  LIQUIDATED = 'liquidated'
+  LIQUIDATED = 'liquidated',
+  REJECTED = 'rejected'
 }
 
 export enum CreditRating {
@@ -40,7 +41,7 @@ export enum CreditRating {
 }
 
 // PostgreSQL Enums
-export const userRoleEnum = pgEnum('user_role', ['farmer', 'trader', 'warehouse_owner', 'logistics_provider']);
+export const userRoleEnum = pgEnum('user_role', ['farmer', 'trader', 'warehouse_owner', 'logistics_provider', 'lender', 'admin']);
 export const commodityCategoryEnum = pgEnum('commodity_category', ['cereals', 'pulses', 'oilseeds', 'spices', 'others']);
 
 // Commodity categories and parameters table
@@ -52,6 +53,22 @@ export const commodityCategories = pgTable('commodity_categories', {
   createdAt: timestamp('created_at').defaultNow(),
 });
 
+// Mandi price history: prices reported by a price feed provider, in ₹ per quintal
+export const commodityPrices = pgTable('commodity_prices', {
+  id: serial('id').primaryKey(),
+  commodityName: text('commodity_name').notNull(),
+  variety: text('variety'),
+  market: text('market').notNull(),                     // Mandi name
+  district: text('district'),
+  state: text('state'),
+  minPrice: numeric('min_price', { precision: 12, scale: 2 }),
+  maxPrice: numeric('max_price', { precision: 12, scale: 2 }),
+  modalPrice: numeric('modal_price', { precision: 12, scale: 2 }).notNull(),
+  priceDate: timestamp('price_date').notNull(),         // Arrival date the price was reported for
+  source: text('source').notNull(),                     // Provider that supplied the price
+  fetchedAt: timestamp('fetched_at').defaultNow(),
+});
+
 // Commodity parameter defaults
 export const defaultQualityParameters = {
   cereals: {
@@ -78,12 +95,70 @@ export const defaultQualityParameters = {
     volatileOil: { min: 1, max: 4, unit: '%' }
   }
 };
+// AGMARK-style grade tables used when no commodity-specific specification is configured.
+// Parameters outside the reject limits fail the lot; values past the deduction basis
+// reduce the lot value by deductionPerUnit percent per unit.
+export const defaultGradeSpecifications: Record<'cereals' | 'pulses' | 'oilseeds' | 'spices', GradeSpecification> = {
+  cereals: {
+    parameters: {
+      moisture: { unit: '%', rejectAbove: 14, deductAbove: 12, deductionPerUnit: 1 },
+      foreignMatter: { unit: '%', rejectAbove: 2, deductAbove: 1, deductionPerUnit: 1 },
+      brokenGrains: { unit: '%', rejectAbove: 4, deductAbove: 2, deductionPerUnit: 0.5 },
+      weeviled: { unit: '%', rejectAbove: 1, deductAbove: 0.5, deductionPerUnit: 1 }
+    },
+    grades: [
+      { grade: 'A', score: 95, limits: { moisture: { max: 12 }, foreignMatter: { max: 0.5 }, brokenGrains: { max: 1 }, weeviled: { max: 0.25 } } },
+      { grade: 'B', score: 85, limits: { moisture: { max: 13 }, foreignMatter: { max: 1 }, brokenGrains: { max: 2.5 }, weeviled: { max: 0.5 } } },
+      { grade: 'C', score: 75, limits: {} }
+    ]
+  },
+  pulses: {
+    parameters: {
+      moisture: { unit: '%', rejectAbove: 12, deductAbove: 10, deductionPerUnit: 1 },
+      foreignMatter: { unit: '%', rejectAbove: 1, deductAbove: 0.5, deductionPerUnit: 1 },
+      damaged: { unit: '%', rejectAbove: 3, deductAbove: 1.5, deductionPerUnit: 0.5 },
+      weeviled: { unit: '%', rejectAbove: 1, deductAbove: 0.5, deductionPerUnit: 1 }
+    },
+    grades: [
+      { grade: 'A', score: 95, limits: { moisture: { max: 10 }, foreignMatter: { max: 0.25 }, damaged: { max: 1 }, weeviled: { max: 0.25 } } },
+      { grade: 'B', score: 85, limits: { moisture: { max: 11 }, foreignMatter: { max: 0.5 }, damaged: { max: 2 }, weeviled: { max: 0.5 } } },
+      { grade: 'C', score: 75, limits: {} }
+    ]
+  },
+  oilseeds: {
+    parameters: {
+      moisture: { unit: '%', rejectAbove: 12, deductAbove: 8, deductionPerUnit: 1 },
+      foreignMatter: { unit: '%', rejectAbove: 2, deductAbove: 1, deductionPerUnit: 1 },
+      oilContent: { unit: '%', rejectBelow: 35, deductBelow: 40, deductionPerUnit: 1.5 },
+      freefattyAcid: { unit: '%', rejectAbove: 2, deductAbove: 1, deductionPerUnit: 1 }
+    },
+    grades: [
+      { grade: 'A', score: 95, limits: { moisture: { max: 8 }, foreignMatter: { max: 0.5 }, oilContent: { min: 42 }, freefattyAcid: { max: 1 } } },
+      { grade: 'B', score: 85, limits: { moisture: { max: 10 }, foreignMatter: { max: 1 }, oilContent: { min: 40 }, freefattyAcid: { max: 1.5 } } },
+      { grade: 'C', score: 75, limits: {} }
+    ]
+  },
+  spices: {
+    parameters: {
+      moisture: { unit: '%', rejectAbove: 12, deductAbove: 10, deductionPerUnit: 1 },
+      foreignMatter: { unit: '%', rejectAbove: 1, deductAbove: 0.5, deductionPerUnit: 2 },
+      volatileOil: { unit: '%', rejectBelow: 1, deductBelow: 2, deductionPerUnit: 2 }
+    },
+    grades: [
+      { grade: 'A', score: 95, limits: { moisture: { max: 10 }, foreignMatter: { max: 0.25 }, volatileOil: { min: 3 } } },
+      { grade: 'B', score: 85, limits: { moisture: { max: 11 }, foreignMatter: { max: 0.5 }, volatileOil: { min: 2 } } },
+      { grade: 'C', score: 75, limits: {} }
+    ]
+  }
+};
 export const commodityStatusEnum = pgEnum('commodity_status', ['active', 'processing', 'withdrawn', 'transferred']);
 export const channelTypeEnum = pgEnum('channel_type', ['green', 'orange', 'red']);
-export const receiptStatusEnum = pgEnum('receipt_status', ['active', 'processing', 'withdrawn', 'transferred', 'collateralized']);
-export const loanStatusEnum = pgEnum('loan_status', ['pending_approval', 'approved', 'active', 'repaid', 'defaulted', 'liquidated']);
+export const receiptStatusEnum = pgEnum('receipt_status', ['active', 'processing', 'withdrawn', 'transferred', 'collateralized', 'superseded']);
+export const loanStatusEnum = pgEnum('loan_status', ['pending_approval', 'approved', 'active', 'repaid', 'defaulted', 'liquidated', 'rejected']);
+export const repaymentTypeEnum = pgEnum('repayment_type', ['emi', 'bullet', 'interest_only']);
+export const instalmentStatusEnum = pgEnum('instalment_status', ['pending', 'partially_paid', 'paid', 'overdue', 'rescheduled']);
 export const processStatusEnum = pgEnum('process_status', ['pending', 'in_progress', 'completed', 'failed']);
-export const transferTypeEnum = pgEnum('transfer_type', ['ownership', 'collateral', 'pledge', 'release']);
+export const transferTypeEnum = pgEnum('transfer_type', ['ownership', 'collateral', 'pledge', 'release', 'endorsement', 'liquidation']);
 export const sackStatusEnum = pgEnum('sack_status', ['active', 'processing', 'withdrawn', 'transferred', 'damaged']);
 
 // Lending partner type enum
@@ -103,6 +178,8 @@ export const creditRatingEnum = pgEnum('credit_rating', [
 
 // Authentication method enum
 export const authMethodEnum = pgEnum('auth_method', ['phone_otp', 'username_password', 'google', 'facebook']);
+// KYC tiers: basic is Aadhaar and PAN, full adds a GST registration
+export const kycLevelEnum = pgEnum('kyc_level', ['none', 'basic', 'full']);
 
 // User table - Enhanced for multiple authentication methods
 export const users = pgTable('users', {
@@ -129,8 +206,10 @@ export const users = pgTable('users', {
   
   // Account status and verification
   role: userRoleEnum('role').notNull().default('farmer'),
+  lendingPartnerId: integer('lending_partner_id').references(() => lendingPartners.id), // Partner a lender user acts for
   kycVerified: boolean('kyc_verified').default(false),
-  kycDocuments: json('kyc_documents'),
+  kycLevel: kycLevelEnum('kyc_level').default('none'),
+  kycDocuments: json('kyc_documents'),               // Verified identity numbers (Aadhaar masked) and the approving submission
   businessDetails: json('business_details'),
   
   // Security and tracking
@@ -140,6 +219,14 @@ export const users = pgTable('users', {
   updatedAt: timestamp('updated_at').defaultNow(),
 });
 
+// User settings table (notification, preference and security settings)
+export const userSettings = pgTable('user_settings', {
+  id: serial('id').primaryKey(),
+  userId: integer('user_id').references(() => users.id).notNull().unique(),
+  settings: json('settings').notNull(),
+  updatedAt: timestamp('updated_at').defaultNow(),
+});
+
 // OTP verification table for phone authentication
 export const otpVerifications = pgTable('otp_verifications', {
   id: serial('id').primaryKey(),
@@ -191,6 +278,7 @@ export const warehouses = pgTable('warehouses', {
   
   // Operational details
   ownerId: integer('owner_id').references(() => users.id),
+  gstin: text('gstin'),                                 // GST registration printed on storage invoices
   isActive: boolean('is_active').default(true),
   verificationStatus: text('verification_status').default('verified'),
   
@@ -228,7 +316,8 @@ export const warehouseReceipts = pgTable('warehouse_receipts', {
   warehouseId: integer('warehouse_id').references(() => warehouses.id),
   quantity: numeric('quantity', { precision: 12, scale: 2 }).notNull(),
   status: receiptStatusEnum('status').notNull().default('processing'),
-  blockchainHash: text('blockchain_hash'),
+  blockchainHash: text('blockchain_hash'),                  // Hash of the audit ledger entry that issued the receipt
+  auditEntryId: integer('audit_entry_id').references(() => auditEntries.id), // Latest audit ledger entry for the receipt
   issuedDate: timestamp('issued_date').defaultNow(),
   expiryDate: timestamp('expiry_date'),
   valuation: numeric('valuation', { precision: 14, scale: 2 }),
@@ -247,6 +336,10 @@ export const warehouseReceipts = pgTable('warehouse_receipts', {
   attachmentUrl: text('attachment_url'),                 // URL to uploaded receipt file attachment
   smartContractId: text('smart_contract_id'),            // Smart contract identifier
   metadata: json('metadata'),                            // Additional metadata from external source
+  // Red Channel: receipt is frozen (no transfer, pledge or withdrawal) while a dispute is open
+  isFrozen: boolean('is_frozen').default(false),
+  // Only negotiable receipts can change hands by endorsement
+  receiptType: receiptTypeEnum('receipt_type').notNull().default('negotiable'),
 });
 
 // Receipt transfers tracking
@@ -257,7 +350,41 @@ export const receiptTransfers = pgTable('receipt_transfers', {
   toUserId: integer('to_user_id').references(() => users.id),
   transferType: transferTypeEnum('transfer_type').notNull(),
   transferDate: timestamp('transfer_date').defaultNow(),
-  transactionHash: text('transaction_hash'),
+  transactionHash: text('transaction_hash'),                // Hash of the audit ledger entry recording the transfer
+  auditEntryId: integer('audit_entry_id').references(() => auditEntries.id),
+  metadata: json('metadata'),
+});
+
+// Endorsement chain of a negotiable receipt: the holder endorses it to the next holder, who must accept
+export const endorsementStatusEnum = pgEnum('endorsement_status', ['pending', 'accepted', 'rejected', 'cancelled']);
+export const receiptEndorsements = pgTable('receipt_endorsements', {
+  id: serial('id').primaryKey(),
+  receiptId: integer('receipt_id').references(() => warehouseReceipts.id).notNull(),
+  sequence: integer('sequence').notNull(),                  // Position in the receipt's chain, starting at 1
+  endorserId: integer('endorser_id').references(() => users.id).notNull(),
+  endorseeId: integer('endorsee_id').references(() => users.id).notNull(),
+  status: endorsementStatusEnum('status').notNull().default('pending'),
+  holderConsent: json('holder_consent').notNull(),         // Consent statement and timestamp given by the holder
+  note: text('note'),
+  previousHash: text('previous_hash').notNull(),           // Hash of the preceding endorsement (or of the receipt itself)
+  endorsementHash: text('endorsement_hash').notNull(),
+  transferId: integer('transfer_id').references(() => receiptTransfers.id), // Transfer recorded on acceptance
+  responseNote: text('response_note'),
+  createdAt: timestamp('created_at').defaultNow(),
+  respondedAt: timestamp('responded_at'),
+});
+
+// Receipt lineage: links a receipt to the receipts issued from it (residual, split or merged)
+export const receiptLineageTypeEnum = pgEnum('receipt_lineage_type', ['partial_withdrawal', 'split', 'merge']);
+export const receiptLineage = pgTable('receipt_lineage', {
+  id: serial('id').primaryKey(),
+  parentReceiptId: integer('parent_receipt_id').references(() => warehouseReceipts.id).notNull(),
+  childReceiptId: integer('child_receipt_id').references(() => warehouseReceipts.id).notNull(),
+  lineageType: receiptLineageTypeEnum('lineage_type').notNull(),
+  quantity: numeric('quantity', { precision: 12, scale: 2 }).notNull(), // Quantity carried from parent to child
+  processId: integer('process_id'),
+  createdBy: integer('created_by').references(() => users.id),
+  createdAt: timestamp('created_at').defaultNow(),
   metadata: json('metadata'),
 });
 
@@ -282,6 +409,371 @@ export const loans = pgTable('loans', {
   creditScore: integer('credit_score'), // User's credit score at the time of loan approval
   maxDrawdownAmount: numeric('max_drawdown_amount', { precision: 14, scale: 2 }), // For overdraft facility
   availableCredit: numeric('available_credit', { precision: 14, scale: 2 }), // For overdraft facility
+  repaymentType: repaymentTypeEnum('repayment_type').notNull().default('emi'),
+  tenureMonths: integer('tenure_months'),
+  penalRate: numeric('penal_rate', { precision: 5, scale: 2 }).default('24.00'), // Annual rate on overdue instalments
+  accruedInterest: numeric('accrued_interest', { precision: 14, scale: 2 }).default('0'), // Interest accrued and not yet paid
+  penalInterest: numeric('penal_interest', { precision: 14, scale: 2 }).default('0'),     // Penal interest accrued and not yet paid
+  interestAccruedTo: timestamp('interest_accrued_to'),
+});
+
+// Instalments of a loan's repayment schedule; outstandingAmount on the loan is principal only
+export const loanInstalments = pgTable('loan_instalments', {
+  id: serial('id').primaryKey(),
+  loanId: integer('loan_id').references(() => loans.id).notNull(),
+  sequence: integer('sequence').notNull(),
+  dueDate: timestamp('due_date').notNull(),
+  principalDue: numeric('principal_due', { precision: 14, scale: 2 }).notNull(),
+  interestDue: numeric('interest_due', { precision: 14, scale: 2 }).notNull(),
+  amountPaid: numeric('amount_paid', { precision: 14, scale: 2 }).notNull().default('0'),
+  penalAccrued: numeric('penal_accrued', { precision: 14, scale: 2 }).notNull().default('0'),
+  status: instalmentStatusEnum('status').notNull().default('pending'),
+  paidAt: timestamp('paid_at'),
+});
+
+// Loan-to-value levels, in percent of current collateral value. New loans are written at up to 80%.
+export const LTV_THRESHOLDS = {
+  warning: 85,
+  margin_call: 90,
+  liquidation: 95
+} as const;
+export const ltvLevelEnum = pgEnum('ltv_level', ['normal', 'warning', 'margin_call', 'liquidation']);
+
+// Mark-to-market history of receipt valuations
+export const receiptValuations = pgTable('receipt_valuations', {
+  id: serial('id').primaryKey(),
+  receiptId: integer('receipt_id').references(() => warehouseReceipts.id).notNull(),
+  valuation: numeric('valuation', { precision: 14, scale: 2 }).notNull(),
+  previousValuation: numeric('previous_valuation', { precision: 14, scale: 2 }),
+  pricePerUnit: numeric('price_per_unit', { precision: 12, scale: 2 }),
+  deductionPercent: numeric('deduction_percent', { precision: 5, scale: 2 }),
+  priceScope: text('price_scope'),                      // market, state, national or default
+  priceSource: text('price_source'),
+  priceDate: timestamp('price_date'),
+  valuedAt: timestamp('valued_at').defaultNow(),
+});
+
+// LTV of an open loan at each revaluation
+export const loanLtvSnapshots = pgTable('loan_ltv_snapshots', {
+  id: serial('id').primaryKey(),
+  loanId: integer('loan_id').references(() => loans.id).notNull(),
+  collateralValue: numeric('collateral_value', { precision: 14, scale: 2 }).notNull(),
+  outstandingAmount: numeric('outstanding_amount', { precision: 14, scale: 2 }).notNull(),
+  ltv: numeric('ltv', { precision: 7, scale: 2 }).notNull(),
+  level: ltvLevelEnum('level').notNull(),
+  recordedAt: timestamp('recorded_at').defaultNow(),
+});
+
+// Margin calls raised when a loan's LTV crosses the margin-call threshold
+export const marginCallStatusEnum = pgEnum('margin_call_status', ['open', 'cured', 'defaulted']);
+
+export const marginCalls = pgTable('margin_calls', {
+  id: serial('id').primaryKey(),
+  loanId: integer('loan_id').references(() => loans.id).notNull(),
+  userId: integer('user_id').references(() => users.id).notNull(),
+  status: marginCallStatusEnum('status').notNull().default('open'),
+  triggerLtv: numeric('trigger_ltv', { precision: 7, scale: 2 }).notNull(),
+  currentLtv: numeric('current_ltv', { precision: 7, scale: 2 }).notNull(),
+  collateralValue: numeric('collateral_value', { precision: 14, scale: 2 }).notNull(),
+  outstandingAmount: numeric('outstanding_amount', { precision: 14, scale: 2 }).notNull(),
+  repaymentRequired: numeric('repayment_required', { precision: 14, scale: 2 }).notNull(),   // to cure by repayment alone
+  collateralRequired: numeric('collateral_required', { precision: 14, scale: 2 }).notNull(), // extra collateral value to cure by top-up alone
+  deadline: timestamp('deadline').notNull(),
+  cureMethod: text('cure_method'),                      // top_up, repayment or price_recovery
+  events: json('events').notNull(),                     // MarginCallEvent[]
+  createdAt: timestamp('created_at').defaultNow(),
+  resolvedAt: timestamp('resolved_at'),
+});
+
+// Liquidation auctions of a defaulted loan's pledged receipts
+export const auctionTypeEnum = pgEnum('auction_type', ['sealed_bid', 'ascending']);
+export const auctionStatusEnum = pgEnum('auction_status', ['open', 'settled', 'failed', 'cancelled']);
+export const auctionBidStatusEnum = pgEnum('auction_bid_status', ['active', 'outbid', 'won', 'lost']);
+
+export const collateralAuctions = pgTable('collateral_auctions', {
+  id: serial('id').primaryKey(),
+  loanId: integer('loan_id').references(() => loans.id).notNull(),
+  receiptIds: json('receipt_ids').notNull(),            // number[]
+  auctionType: auctionTypeEnum('auction_type').notNull(),
+  status: auctionStatusEnum('status').notNull().default('open'),
+  collateralValue: numeric('collateral_value', { precision: 14, scale: 2 }).notNull(),
+  reservePrice: numeric('reserve_price', { precision: 14, scale: 2 }).notNull(),
+  minIncrement: numeric('min_increment', { precision: 14, scale: 2 }).notNull(),
+  startsAt: timestamp('starts_at').defaultNow(),
+  endsAt: timestamp('ends_at').notNull(),
+  winningBidId: integer('winning_bid_id'),
+  settlement: json('settlement'),                       // LiquidationSettlement once settled
+  createdBy: integer('created_by').references(() => users.id),
+  createdAt: timestamp('created_at').defaultNow(),
+  settledAt: timestamp('settled_at'),
+});
+
+export const auctionBids = pgTable('auction_bids', {
+  id: serial('id').primaryKey(),
+  auctionId: integer('auction_id').references(() => collateralAuctions.id).notNull(),
+  bidderId: integer('bidder_id').references(() => users.id).notNull(),
+  amount: numeric('amount', { precision: 14, scale: 2 }).notNull(),
+  status: auctionBidStatusEnum('status').notNull().default('active'),
+  createdAt: timestamp('created_at').defaultNow(),
+});
+
+// Storage tariffs and fee billing
+export const storageInvoiceStatusEnum = pgEnum('storage_invoice_status', ['issued', 'paid', 'netted']);
+
+// Rate card of a warehouse; a tariff without a commodity applies to every commodity it stores
+export const warehouseTariffs = pgTable('warehouse_tariffs', {
+  id: serial('id').primaryKey(),
+  warehouseId: integer('warehouse_id').references(() => warehouses.id).notNull(),
+  commodity: text('commodity'),                         // Commodity name or type; null for the default tariff
+  ratePerMtPerDay: numeric('rate_per_mt_per_day', { precision: 10, scale: 2 }).notNull(),
+  handlingChargePerMt: numeric('handling_charge_per_mt', { precision: 10, scale: 2 }).notNull().default('0'), // Charged once per deposit
+  insurancePercentPerYear: numeric('insurance_percent_per_year', { precision: 5, scale: 2 }).notNull().default('0'), // Of the receipt valuation
+  gstPercent: numeric('gst_percent', { precision: 5, scale: 2 }).notNull().default('18.00'),
+  isActive: boolean('is_active').notNull().default(true),
+  createdBy: integer('created_by').references(() => users.id),
+  createdAt: timestamp('created_at').defaultNow(),
+});
+
+// Fees accrued on a receipt for a run of whole days
+export const storageFeeAccruals = pgTable('storage_fee_accruals', {
+  id: serial('id').primaryKey(),
+  receiptId: integer('receipt_id').references(() => warehouseReceipts.id).notNull(),
+  warehouseId: integer('warehouse_id').references(() => warehouses.id).notNull(),
+  tariffId: integer('tariff_id').references(() => warehouseTariffs.id).notNull(),
+  periodStart: timestamp('period_start').notNull(),
+  periodEnd: timestamp('period_end').notNull(),
+  days: integer('days').notNull(),
+  quantityMt: numeric('quantity_mt', { precision: 12, scale: 3 }).notNull(),
+  storageCharge: numeric('storage_charge', { precision: 12, scale: 2 }).notNull(),
+  handlingCharge: numeric('handling_charge', { precision: 12, scale: 2 }).notNull().default('0'),
+  insuranceCharge: numeric('insurance_charge', { precision: 12, scale: 2 }).notNull().default('0'),
+  gstPercent: numeric('gst_percent', { precision: 5, scale: 2 }).notNull(),
+  invoiceId: integer('invoice_id').references(() => storageInvoices.id),
+  createdAt: timestamp('created_at').defaultNow(),
+});
+
+// Tax invoice for a receipt's accrued fees; place of supply is the warehouse's state
+export const storageInvoices = pgTable('storage_invoices', {
+  id: serial('id').primaryKey(),
+  invoiceNumber: text('invoice_number').notNull().unique(),
+  warehouseId: integer('warehouse_id').references(() => warehouses.id).notNull(),
+  receiptId: integer('receipt_id').references(() => warehouseReceipts.id).notNull(),
+  userId: integer('user_id').references(() => users.id).notNull(), // Billed to the receipt holder
+  periodStart: timestamp('period_start').notNull(),
+  periodEnd: timestamp('period_end').notNull(),
+  lines: json('lines').notNull(),                       // StorageInvoiceLine[]
+  taxableAmount: numeric('taxable_amount', { precision: 12, scale: 2 }).notNull(),
+  cgst: numeric('cgst', { precision: 12, scale: 2 }).notNull(),
+  sgst: numeric('sgst', { precision: 12, scale: 2 }).notNull(),
+  totalAmount: numeric('total_amount', { precision: 12, scale: 2 }).notNull(),
+  amountPaid: numeric('amount_paid', { precision: 12, scale: 2 }).notNull().default('0'),
+  status: storageInvoiceStatusEnum('status').notNull().default('issued'),
+  placeOfSupply: text('place_of_supply').notNull(),
+  pdfUrl: text('pdf_url'),
+  settlementReference: text('settlement_reference'),   // Payment id, or the sale the dues were netted from
+  issuedAt: timestamp('issued_at').defaultNow(),
+  settledAt: timestamp('settled_at'),
+});
+
+// Double-entry ledger: every money movement is a journal of balanced postings
+export const ledgerAccountTypeEnum = pgEnum('ledger_account_type', ['asset', 'liability', 'equity', 'income', 'expense']);
+export const journalEntryTypeEnum = pgEnum('journal_entry_type', [
+  'loan_disbursement', 'loan_repayment', 'credit_withdrawal', 'warehouse_fee', 'transfer_payment', 'liquidation',
+  'escrow_hold', 'escrow_release', 'escrow_refund'
+]);
+export const postingDirectionEnum = pgEnum('posting_direction', ['debit', 'credit']);
+
+export const ledgerAccounts = pgTable('ledger_accounts', {
+  id: serial('id').primaryKey(),
+  code: text('code').notNull().unique(),                // e.g. 1000 or 1100-LOAN-7
+  name: text('name').notNull(),
+  type: ledgerAccountTypeEnum('type').notNull(),
+  userId: integer('user_id').references(() => users.id), // Account holder who may see its statement
+  createdAt: timestamp('created_at').defaultNow(),
+});
+
+export const ledgerJournals = pgTable('ledger_journals', {
+  id: serial('id').primaryKey(),
+  entryType: journalEntryTypeEnum('entry_type').notNull(),
+  reference: text('reference').notNull().unique(),      // Source record, e.g. loan_repayment:12; posts at most once
+  description: text('description').notNull(),
+  userId: integer('user_id').references(() => users.id),
+  metadata: json('metadata'),
+  postedAt: timestamp('posted_at').defaultNow(),
+});
+
+export const ledgerPostings = pgTable('ledger_postings', {
+  id: serial('id').primaryKey(),
+  journalId: integer('journal_id').references(() => ledgerJournals.id).notNull(),
+  accountId: integer('account_id').references(() => ledgerAccounts.id).notNull(),
+  direction: postingDirectionEnum('direction').notNull(),
+  amount: numeric('amount', { precision: 14, scale: 2 }).notNull(),
+  postedAt: timestamp('posted_at').defaultNow(),
+});
+
+// Webhooks received from lending partners, kept so that redelivered events apply once
+export const lendingWebhookEvents = pgTable('lending_webhook_events', {
+  id: serial('id').primaryKey(),
+  lendingPartnerId: integer('lending_partner_id').references(() => lendingPartners.id).notNull(),
+  eventId: text('event_id').notNull(),                  // Partner's id for the event
+  eventType: text('event_type').notNull(),
+  payload: json('payload').notNull(),
+  error: text('error'),                                 // Set when applying the event failed
+  receivedAt: timestamp('received_at').defaultNow(),
+});
+
+// Loan marketplace: one pledge request draws competing offers from every matching partner
+export const pledgeRequestStatusEnum = pgEnum('pledge_request_status', ['open', 'accepted', 'cancelled']);
+export const loanOfferStatusEnum = pgEnum('loan_offer_status', ['offered', 'accepted', 'declined', 'expired']);
+
+export const pledgeRequests = pgTable('pledge_requests', {
+  id: serial('id').primaryKey(),
+  userId: integer('user_id').references(() => users.id).notNull(),
+  receiptIds: json('receipt_ids').notNull(),            // Receipt ids pledged
+  collateralValue: numeric('collateral_value', { precision: 14, scale: 2 }).notNull(),
+  requestedAmount: numeric('requested_amount', { precision: 14, scale: 2 }).notNull(),
+  tenureDays: integer('tenure_days').notNull(),
+  purpose: text('purpose').notNull(),
+  status: pledgeRequestStatusEnum('status').notNull().default('open'),
+  acceptedOfferId: integer('accepted_offer_id'),
+  declinedPartners: json('declined_partners'),          // Partners that made no offer, with the reason
+  createdAt: timestamp('created_at').defaultNow(),
+});
+
+export const loanOffers = pgTable('loan_offers', {
+  id: serial('id').primaryKey(),
+  pledgeRequestId: integer('pledge_request_id').references(() => pledgeRequests.id).notNull(),
+  lendingPartnerId: integer('lending_partner_id').references(() => lendingPartners.id).notNull(),
+  lendingPartnerName: text('lending_partner_name').notNull(),
+  externalOfferId: text('external_offer_id'),
+  amount: numeric('amount', { precision: 14, scale: 2 }).notNull(),   // Requested amount, capped at the partner's maximum
+  maxAmount: numeric('max_amount', { precision: 14, scale: 2 }).notNull(),
+  interestRate: numeric('interest_rate', { precision: 5, scale: 2 }).notNull(),
+  tenureDays: integer('tenure_days').notNull(),
+  processingFeePercent: numeric('processing_fee_percent', { precision: 5, scale: 2 }).notNull(),
+  processingFee: numeric('processing_fee', { precision: 14, scale: 2 }).notNull(),
+  emi: numeric('emi', { precision: 14, scale: 2 }).notNull(),
+  totalInterest: numeric('total_interest', { precision: 14, scale: 2 }).notNull(),
+  apr: numeric('apr', { precision: 6, scale: 2 }).notNull(),          // Annual rate including the processing fee
+  status: loanOfferStatusEnum('status').notNull().default('offered'),
+  declineReason: text('decline_reason'),
+  loanApplicationId: integer('loan_application_id').references(() => loanApplications.id),
+  validUntil: timestamp('valid_until').notNull(),
+  createdAt: timestamp('created_at').defaultNow(),
+});
+
+// KYC submissions: identity numbers and documents a user sends for review to reach a KYC tier
+export const kycSubmissionStatusEnum = pgEnum('kyc_submission_status', ['pending', 'approved', 'rejected']);
+
+export const kycSubmissions = pgTable('kyc_submissions', {
+  id: serial('id').primaryKey(),
+  userId: integer('user_id').references(() => users.id).notNull(),
+  level: kycLevelEnum('level').notNull(),                   // Tier applied for
+  aadhaarMasked: text('aadhaar_masked'),                    // Only the last four digits are kept
+  aadhaarHash: text('aadhaar_hash'),                        // Salted hash, to spot one Aadhaar on several accounts
+  panNumber: text('pan_number'),
+  gstNumber: text('gst_number'),
+  documents: json('documents').notNull(),                   // KycDocument[]
+  status: kycSubmissionStatusEnum('status').notNull().default('pending'),
+  reviewerId: integer('reviewer_id').references(() => users.id),
+  reviewNote: text('review_note'),
+  rejectionReason: text('rejection_reason'),
+  submittedAt: timestamp('submitted_at').defaultNow(),
+  reviewedAt: timestamp('reviewed_at'),
+});
+
+// Lien registry: a lender's charge on a warehouse receipt. While a lien is active the warehouse
+// may not release the stock; releasing it needs sign-off from the borrower, lender and warehouse.
+export const lienStatusEnum = pgEnum('lien_status', ['active', 'release_requested', 'released', 'enforcing', 'enforced']);
+
+export const liens = pgTable('liens', {
+  id: serial('id').primaryKey(),
+  receiptId: integer('receipt_id').references(() => warehouseReceipts.id).notNull(),
+  loanId: integer('loan_id').references(() => loans.id).notNull(),
+  lendingPartnerId: integer('lending_partner_id').references(() => lendingPartners.id),
+  lenderName: text('lender_name'),
+  borrowerId: integer('borrower_id').references(() => users.id).notNull(),
+  amount: numeric('amount', { precision: 14, scale: 2 }).notNull(),    // Loan amount secured
+  priority: integer('priority').notNull().default(1),                 // 1 is the first charge on the receipt
+  status: lienStatusEnum('status').notNull().default('active'),
+  releaseApprovals: json('release_approvals'),                        // Sign-offs on the pending release, by party
+  releaseRequestedBy: integer('release_requested_by').references(() => users.id),
+  releaseReason: text('release_reason'),
+  releasedAt: timestamp('released_at'),
+  auditEntryId: integer('audit_entry_id').references(() => auditEntries.id), // Latest audit ledger entry for the lien
+  createdAt: timestamp('created_at').defaultNow(),
+});
+
+// Audit ledger: append-only record of receipt, sack, lien and contract events. Each entry hashes its payload
+// together with the previous entry's hash; entries are sealed in order into Merkle-rooted blocks.
+export const auditEntries = pgTable('audit_entries', {
+  id: serial('id').primaryKey(),
+  entityType: text('entity_type').notNull(),                // 'receipt', 'sack', 'lien' or 'contract'
+  entityId: integer('entity_id').notNull(),
+  action: text('action').notNull(),                         // e.g. 'issued', 'transfer', 'released'
+  payload: json('payload').notNull(),
+  payloadHash: text('payload_hash').notNull(),
+  previousHash: text('previous_hash').notNull().unique(),   // Unique: the chain cannot fork
+  entryHash: text('entry_hash').notNull().unique(),
+  blockId: integer('block_id'),                             // Set when the entry is sealed into a block
+  createdAt: timestamp('created_at').notNull(),             // Hashed, so set by the ledger rather than defaulted
+});
+
+export const auditBlocks = pgTable('audit_blocks', {
+  id: serial('id').primaryKey(),
+  height: integer('height').notNull().unique(),             // Starting at 1
+  firstEntryId: integer('first_entry_id').notNull(),
+  lastEntryId: integer('last_entry_id').notNull(),
+  entryCount: integer('entry_count').notNull(),
+  merkleRoot: text('merkle_root').notNull(),
+  previousBlockHash: text('previous_block_hash').notNull(),
+  blockHash: text('block_hash').notNull().unique(),
+  sealedAt: timestamp('sealed_at').notNull(),
+});
+
+// Smart contracts: self-executing agreements. The scheduler evaluates each active contract's
+// declarative condition and runs its action once the condition holds.
+export const smartContractTypeEnum = pgEnum('smart_contract_type', ['lien', 'loan', 'escrow']);
+export const smartContractStatusEnum = pgEnum('smart_contract_status', ['active', 'executed', 'expired', 'cancelled', 'failed']);
+
+export const smartContracts = pgTable('smart_contracts', {
+  id: serial('id').primaryKey(),
+  contractId: text('contract_id').notNull().unique(),       // 0x-prefixed random 32-byte id
+  type: smartContractTypeEnum('type').notNull(),
+  status: smartContractStatusEnum('status').notNull().default('active'),
+  condition: json('condition').notNull(),                    // ContractCondition
+  terms: json('terms').notNull(),                            // What the action needs, by contract type
+  parties: json('parties').notNull(),                        // User ids bound by the contract
+  approvals: json('approvals').notNull().default([]),        // User ids that have approved it
+  loanId: integer('loan_id').references(() => loans.id),
+  lastEvaluation: json('last_evaluation'),                   // ConditionResult of the latest evaluation
+  lastEvaluatedAt: timestamp('last_evaluated_at'),
+  expiresAt: timestamp('expires_at'),                        // Expires unexecuted after this
+  executedAt: timestamp('executed_at'),
+  failureReason: text('failure_reason'),
+  createdAt: timestamp('created_at').defaultNow(),
+});
+
+// Spot trades: a buyer's priced offer on a negotiable receipt, paid into escrow up front.
+// The seller's acceptance settles delivery versus payment through the trade's escrow contract.
+export const spotTradeStatusEnum = pgEnum('spot_trade_status', ['offered', 'settled', 'rejected', 'withdrawn', 'expired', 'failed']);
+
+export const spotTrades = pgTable('spot_trades', {
+  id: serial('id').primaryKey(),
+  receiptId: integer('receipt_id').references(() => warehouseReceipts.id).notNull(),
+  sellerId: integer('seller_id').references(() => users.id).notNull(),
+  buyerId: integer('buyer_id').references(() => users.id).notNull(),
+  price: numeric('price', { precision: 14, scale: 2 }).notNull(),
+  status: spotTradeStatusEnum('status').notNull().default('offered'),
+  paymentId: text('payment_id').notNull(),                   // Buyer's payment held in escrow
+  contractId: text('contract_id'),                           // Escrow smart contract
+  transferId: integer('transfer_id').references(() => receiptTransfers.id), // Transfer recorded on settlement
+  note: text('note'),
+  responseNote: text('response_note'),
+  failureReason: text('failure_reason'),
+  expiresAt: timestamp('expires_at').notNull(),
+  createdAt: timestamp('created_at').defaultNow(),
+  closedAt: timestamp('closed_at'),
 });
 
 // Process tracking table
@@ -323,7 +815,9 @@ export const lendingPartners = pgTable('lending_partners', {
   maxLoanAmount: numeric('max_loan_amount', { precision: 14, scale: 2 }).notNull(),
   minLoanAmount: numeric('min_loan_amount', { precision: 14, scale: 2 }).notNull(),
   maxTenureDays: integer('max_tenure_days').notNull(),
-  creditRatingCriteria: json('credit_rating_criteria'),
+  creditRatingCriteria: json('credit_rating_criteria'),          // CreditRating[] the partner lends to; empty lends to all
+  processingFeePercent: numeric('processing_fee_percent', { precision: 5, scale: 2 }).default('1.00'),
+  loanToValueRatio: numeric('loan_to_value_ratio', { precision: 5, scale: 2 }).default('70.00'),
   apiEndpoint: text('api_endpoint'),
   apiKey: text('api_key'),
   apiSecretKey: text('api_secret_key'),
@@ -348,6 +842,8 @@ export const loanApplications = pgTable('loan_applications', {
   applicationData: json('application_data'),
   underwritingResult: json('underwriting_result'),
   rejectionReason: text('rejection_reason'),
+  loanId: integer('loan_id').references(() => loans.id),          // Set once the partner disburses
+  statusCheckedAt: timestamp('status_checked_at'),                  // Last poll of the partner
 });
 
 // Collateral pledges table
@@ -378,6 +874,7 @@ export const loanRepayments = pgTable('loan_repayments', {
   status: text('status').notNull(),
   interestAmount: numeric('interest_amount', { precision: 14, scale: 2 }),
   principalAmount: numeric('principal_amount', { precision: 14, scale: 2 }),
+  penalAmount: numeric('penal_amount', { precision: 14, scale: 2 }),
   transactionHash: text('transaction_hash'),
   blockchainData: json('blockchain_data'),
   receiptUrl: text('receipt_url'),
@@ -427,7 +924,8 @@ export const commoditySacks = pgTable('commodity_sacks', {
   lastInspectionDate: timestamp('last_inspection_date'),
   
   // Blockchain tracking
-  blockchainHash: text('blockchain_hash'), // Hash of the most recent blockchain transaction
+  blockchainHash: text('blockchain_hash'), // Hash of the most recent audit ledger entry for the sack
+  auditEntryId: integer('audit_entry_id').references(() => auditEntries.id), // That entry
   smartContractId: text('smart_contract_id'), // Individual smart contract ID for this sack
   
   // Privacy and additional data
@@ -506,6 +1004,34 @@ export const creditWithdrawals = pgTable('credit_withdrawals', {
   notes: text('notes'),
 });
 
+// Dispute enums (Red Channel)
+export const disputeStatusEnum = pgEnum('dispute_status', [
+  'filed', 'under_review', 'evidence_requested', 'resolved', 'rejected'
+]);
+export const disputeTypeEnum = pgEnum('dispute_type', [
+  'quality', 'quantity', 'valuation', 'authenticity', 'legal'
+]);
+export const disputePriorityEnum = pgEnum('dispute_priority', ['low', 'medium', 'high', 'critical']);
+
+// Disputes raised against warehouse receipts (Red Channel)
+export const disputes = pgTable('disputes', {
+  id: serial('id').primaryKey(),
+  receiptId: integer('receipt_id').references(() => warehouseReceipts.id).notNull(),
+  filedBy: integer('filed_by').references(() => users.id).notNull(),
+  assigneeId: integer('assignee_id').references(() => users.id),
+  disputeType: disputeTypeEnum('dispute_type').notNull(),
+  priority: disputePriorityEnum('priority').notNull().default('medium'),
+  status: disputeStatusEnum('status').notNull().default('filed'),
+  description: text('description').notNull(),
+  evidenceRequest: text('evidence_request'),                // What the reviewer asked the filer to provide
+  evidence: json('evidence'),                               // Array of uploaded attachments
+  history: json('history'),                                 // Array of status transitions
+  resolutionNote: text('resolution_note'),
+  createdAt: timestamp('created_at').defaultNow(),
+  updatedAt: timestamp('updated_at').defaultNow(),
+  resolvedAt: timestamp('resolved_at'),
+});
+
 // Zod schemas for insertion
 export const insertUserSchema = createInsertSchema(users).omit({ id: true, createdAt: true });
 export const insertWarehouseSchema = createInsertSchema(warehouses).omit({ id: true, createdAt: true });
@@ -533,6 +1059,10 @@ export const insertCreditWithdrawalSchema = createInsertSchema(creditWithdrawals
 // Types
 export type InsertUser = z.infer<typeof insertUserSchema>;
 export type User = typeof users.$inferSelect;
+export type UserRole = User['role'];
+
+export type UserSettings = typeof userSettings.$inferSelect;
+export type OtpVerification = typeof otpVerifications.$inferSelect;
 
 export type InsertWarehouse = z.infer<typeof insertWarehouseSchema>;
 export type Warehouse = typeof warehouses.$inferSelect;
@@ -548,6 +1078,11 @@ export type ReceiptTransfer = typeof receiptTransfers.$inferSelect;
 
 export type InsertLoan = z.infer<typeof insertLoanSchema>;
 export type Loan = typeof loans.$inferSelect;
+export type RepaymentType = Loan['repaymentType'];
+
+export const insertLoanInstalmentSchema = createInsertSchema(loanInstalments).omit({ id: true });
+export type InsertLoanInstalment = z.infer<typeof insertLoanInstalmentSchema>;
+export type LoanInstalment = typeof loanInstalments.$inferSelect;
 
 export type InsertProcess = z.infer<typeof insertProcessSchema>;
 export type Process = typeof processes.$inferSelect;
@@ -563,6 +1098,85 @@ export const insertLoanApplicationSchema = createInsertSchema(loanApplications)
   .omit({ id: true, applicationDate: true });
 export type InsertLoanApplication = z.infer<typeof insertLoanApplicationSchema>;
 
+export const insertLendingWebhookEventSchema = createInsertSchema(lendingWebhookEvents)
+  .omit({ id: true, receivedAt: true });
+export type InsertLendingWebhookEvent = z.infer<typeof insertLendingWebhookEventSchema>;
+export type LendingWebhookEventRecord = typeof lendingWebhookEvents.$inferSelect;
+
+export type PledgeRequest = typeof pledgeRequests.$inferSelect;
+export const insertPledgeRequestSchema = createInsertSchema(pledgeRequests)
+  .omit({ id: true, createdAt: true });
+export type InsertPledgeRequest = z.infer<typeof insertPledgeRequestSchema>;
+
+export type LoanOfferRecord = typeof loanOffers.$inferSelect;
+export const insertLoanOfferSchema = createInsertSchema(loanOffers)
+  .omit({ id: true, createdAt: true });
+export type InsertLoanOffer = z.infer<typeof insertLoanOfferSchema>;
+
+export type KycSubmission = typeof kycSubmissions.$inferSelect;
+export const insertKycSubmissionSchema = createInsertSchema(kycSubmissions)
+  .omit({ id: true, submittedAt: true });
+export type InsertKycSubmission = z.infer<typeof insertKycSubmissionSchema>;
+export type KycLevel = KycSubmission['level'];
+
+/**
+ * A document attached to a KYC submission
+ */
+export interface KycDocument {
+  type: 'aadhaar' | 'pan' | 'gst_certificate';
+  fileName: string;
+  originalName: string;
+  fileType: string;
+  uploadedAt: string;
+}
+
+export type Lien = typeof liens.$inferSelect;
+export const insertLienSchema = createInsertSchema(liens)
+  .omit({ id: true, createdAt: true });
+export type InsertLien = z.infer<typeof insertLienSchema>;
+export type LienStatus = Lien['status'];
+
+export type AuditEntry = typeof auditEntries.$inferSelect;
+export const insertAuditEntrySchema = createInsertSchema(auditEntries)
+  .omit({ id: true });
+export type InsertAuditEntry = z.infer<typeof insertAuditEntrySchema>;
+
+export type AuditBlock = typeof auditBlocks.$inferSelect;
+export const insertAuditBlockSchema = createInsertSchema(auditBlocks)
+  .omit({ id: true });
+export type InsertAuditBlock = z.infer<typeof insertAuditBlockSchema>;
+
+export type SmartContract = typeof smartContracts.$inferSelect;
+export const insertSmartContractSchema = createInsertSchema(smartContracts)
+  .omit({ id: true, createdAt: true });
+export type InsertSmartContract = z.infer<typeof insertSmartContractSchema>;
+export type SmartContractType = SmartContract['type'];
+export type SmartContractStatus = SmartContract['status'];
+
+export type SpotTrade = typeof spotTrades.$inferSelect;
+export const insertSpotTradeSchema = createInsertSchema(spotTrades)
+  .omit({ id: true, createdAt: true });
+export type InsertSpotTrade = z.infer<typeof insertSpotTradeSchema>;
+export type SpotTradeStatus = SpotTrade['status'];
+
+// Declarative contract conditions; leaves are checked against platform state
+export type ContractCondition =
+  | { type: 'date_passed'; date: string }
+  | { type: 'payment_received'; loanId: number; amount?: string; since?: string }   // Without amount: loan repaid
+  | { type: 'quality_confirmed'; receiptId: number; grades?: string[] }             // Without grades: any passing grade
+  | { type: 'ltv_breached'; loanId: number; threshold: number }                     // LTV in percent, at or above
+  | { type: 'approved'; userId: number }                                              // The user has approved the contract
+  | { type: 'all'; conditions: ContractCondition[] }
+  | { type: 'any'; conditions: ContractCondition[] }
+  | { type: 'not'; condition: ContractCondition };
+
+export interface ConditionResult {
+  type: ContractCondition['type'];
+  met: boolean;
+  detail?: string;
+  children?: ConditionResult[];
+}
+
 export type CollateralPledge = typeof collateralPledges.$inferSelect;
 export const insertCollateralPledgeSchema = createInsertSchema(collateralPledges)
   .omit({ id: true, pledgeDate: true });
@@ -588,6 +1202,214 @@ export type SackMovement = typeof sackMovements.$inferSelect;
 export type InsertSackQualityAssessment = z.infer<typeof insertSackQualityAssessmentSchema>;
 export type SackQualityAssessment = typeof sackQualityAssessments.$inferSelect;
 
+// Types for disputes
+export const insertDisputeSchema = createInsertSchema(disputes)
+  .omit({ id: true, createdAt: true, updatedAt: true, resolvedAt: true });
+export type InsertDispute = z.infer<typeof insertDisputeSchema>;
+export type Dispute = typeof disputes.$inferSelect;
+export type DisputeStatus = Dispute['status'];
+
+// Evidence attachment stored on a dispute
+export interface DisputeEvidence {
+  fileName: string;
+  originalName: string;
+  fileType: string;
+  uploadedBy: number;
+  uploadedAt: string;
+  note?: string;
+}
+
+// Status transition recorded on a dispute
+export interface DisputeHistoryEntry {
+  status: DisputeStatus;
+  actorId: number;
+  note?: string;
+  at: string;
+}
+
+// Types for receipt endorsements
+export const insertReceiptEndorsementSchema = createInsertSchema(receiptEndorsements)
+  .omit({ id: true, createdAt: true });
+export type InsertReceiptEndorsement = z.infer<typeof insertReceiptEndorsementSchema>;
+export type ReceiptEndorsement = typeof receiptEndorsements.$inferSelect;
+export type EndorsementStatus = ReceiptEndorsement['status'];
+
+// Consent given by the holder when endorsing a receipt
+export interface EndorsementConsent {
+  statement: string;
+  consentedAt: string;
+}
+
+// Types for receipt lineage
+export const insertReceiptLineageSchema = createInsertSchema(receiptLineage)
+  .omit({ id: true, createdAt: true });
+export type InsertReceiptLineage = z.infer<typeof insertReceiptLineageSchema>;
+export type ReceiptLineage = typeof receiptLineage.$inferSelect;
+
+// Types for commodity price history
+export const insertCommodityPriceSchema = createInsertSchema(commodityPrices)
+  .omit({ id: true, fetchedAt: true });
+export type InsertCommodityPrice = z.infer<typeof insertCommodityPriceSchema>;
+export type CommodityPrice = typeof commodityPrices.$inferSelect;
+
+// Types for mark-to-market revaluation
+export const insertReceiptValuationSchema = createInsertSchema(receiptValuations)
+  .omit({ id: true, valuedAt: true });
+export type InsertReceiptValuation = z.infer<typeof insertReceiptValuationSchema>;
+export type ReceiptValuation = typeof receiptValuations.$inferSelect;
+
+export const insertLoanLtvSnapshotSchema = createInsertSchema(loanLtvSnapshots)
+  .omit({ id: true, recordedAt: true });
+export type InsertLoanLtvSnapshot = z.infer<typeof insertLoanLtvSnapshotSchema>;
+export type LoanLtvSnapshot = typeof loanLtvSnapshots.$inferSelect;
+export type LtvLevel = LoanLtvSnapshot['level'];
+
+// Types for margin calls
+export const insertMarginCallSchema = createInsertSchema(marginCalls)
+  .omit({ id: true, createdAt: true });
+export type InsertMarginCall = z.infer<typeof insertMarginCallSchema>;
+export type MarginCall = typeof marginCalls.$inferSelect;
+export type MarginCallStatus = MarginCall['status'];
+
+export interface MarginCallEvent {
+  type: 'issued' | 'top_up' | 'repayment' | 'cured' | 'defaulted';
+  at: string;
+  ltv: number;
+  detail?: Record<string, unknown>;
+}
+
+// Types for liquidation auctions
+export const insertCollateralAuctionSchema = createInsertSchema(collateralAuctions)
+  .omit({ id: true, createdAt: true });
+export type InsertCollateralAuction = z.infer<typeof insertCollateralAuctionSchema>;
+export type CollateralAuction = typeof collateralAuctions.$inferSelect;
+export type AuctionType = CollateralAuction['auctionType'];
+export type AuctionStatus = CollateralAuction['status'];
+
+export const insertAuctionBidSchema = createInsertSchema(auctionBids)
+  .omit({ id: true, createdAt: true });
+export type InsertAuctionBid = z.infer<typeof insertAuctionBidSchema>;
+export type AuctionBid = typeof auctionBids.$inferSelect;
+
+// How auction proceeds were applied, in waterfall order
+export interface LiquidationSettlement {
+  proceeds: number;
+  principalDue: number;
+  principalPaid: number;
+  interestDue: number;
+  interestPaid: number;
+  storageFeesDue: number;
+  storageFeesPaid: number;
+  feesDue: number;
+  feesPaid: number;
+  borrowerSurplus: number;
+  shortfall: number;
+  winnerId: number;
+  paymentId: string;                                    // The winner's payment of the bid
+  transferIds: number[];
+  repaymentId: number | null;
+}
+
+// Types for storage fee billing
+export const insertWarehouseTariffSchema = createInsertSchema(warehouseTariffs)
+  .omit({ id: true, createdAt: true });
+export type InsertWarehouseTariff = z.infer<typeof insertWarehouseTariffSchema>;
+export type WarehouseTariff = typeof warehouseTariffs.$inferSelect;
+
+export const insertStorageFeeAccrualSchema = createInsertSchema(storageFeeAccruals)
+  .omit({ id: true, createdAt: true });
+export type InsertStorageFeeAccrual = z.infer<typeof insertStorageFeeAccrualSchema>;
+export type StorageFeeAccrual = typeof storageFeeAccruals.$inferSelect;
+
+export const insertStorageInvoiceSchema = createInsertSchema(storageInvoices)
+  .omit({ id: true, issuedAt: true });
+export type InsertStorageInvoice = z.infer<typeof insertStorageInvoiceSchema>;
+export type StorageInvoice = typeof storageInvoices.$inferSelect;
+
+export interface StorageInvoiceLine {
+  description: string;
+  sacCode: string;
+  quantityMt: number;
+  days: number;
+  amount: number;
+}
+
+// Part of an invoice settled by a payment or netted from sale proceeds, GST included
+export interface StorageFeeAllocation {
+  invoiceId: number | null;
+  warehouseId: number;
+  amount: number;
+  gst: number;
+}
+
+// Types for the double-entry ledger
+export const insertLedgerAccountSchema = createInsertSchema(ledgerAccounts)
+  .omit({ id: true, createdAt: true });
+export type InsertLedgerAccount = z.infer<typeof insertLedgerAccountSchema>;
+export type LedgerAccount = typeof ledgerAccounts.$inferSelect;
+export type LedgerAccountType = LedgerAccount['type'];
+
+export const insertLedgerJournalSchema = createInsertSchema(ledgerJournals)
+  .omit({ id: true, postedAt: true });
+export type InsertLedgerJournal = z.infer<typeof insertLedgerJournalSchema>;
+export type LedgerJournal = typeof ledgerJournals.$inferSelect;
+export type JournalEntryType = LedgerJournal['entryType'];
+
+export const insertLedgerPostingSchema = createInsertSchema(ledgerPostings)
+  .omit({ id: true, journalId: true, postedAt: true });
+export type InsertLedgerPosting = z.infer<typeof insertLedgerPostingSchema>;
+export type LedgerPosting = typeof ledgerPostings.$inferSelect;
+
+// Types for commodity categories and grade specifications
+export const insertCommodityCategorySchema = createInsertSchema(commodityCategories)
+  .omit({ id: true, createdAt: true });
+export type InsertCommodityCategory = z.infer<typeof insertCommodityCategorySchema>;
+export type CommodityCategory = typeof commodityCategories.$inferSelect;
+export type CommodityCategoryType = CommodityCategory['category'];
+
+// Reject limits and value-deduction schedule for one quality parameter
+export interface QualityParameterSpec {
+  unit: string;
+  rejectAbove?: number;
+  rejectBelow?: number;
+  deductAbove?: number;
+  deductBelow?: number;
+  deductionPerUnit?: number; // % of lot value per unit past the deduction basis
+}
+
+// One row of a grade table; a lot takes the first grade whose limits it meets
+export interface GradeBand {
+  grade: string;
+  score: number;
+  limits: Record<string, { min?: number; max?: number }>;
+}
+
+// Grade specification stored in commodityCategories.qualityParameters
+export interface GradeSpecification {
+  parameters: Record<string, QualityParameterSpec>;
+  grades: GradeBand[];
+}
+
+// Shape a stored or submitted grade specification must have
+export const gradeSpecificationSchema = z.object({
+  parameters: z.record(z.object({
+    unit: z.string(),
+    rejectAbove: z.number().optional(),
+    rejectBelow: z.number().optional(),
+    deductAbove: z.number().optional(),
+    deductBelow: z.number().optional(),
+    deductionPerUnit: z.number().nonnegative().optional()
+  })).refine(parameters => Object.keys(parameters).length > 0, 'At least one parameter is required'),
+  grades: z.array(z.object({
+    grade: z.string().min(1),
+    score: z.number().min(0).max(100),
+    limits: z.record(z.object({
+      min: z.number().optional(),
+      max: z.number().optional()
+    }))
+  })).min(1, 'At least one grade is required')
+});
+
 // Types for credit withdrawal related tables
 export type InsertUserBankAccount = z.infer<typeof insertUserBankAccountSchema>;
 export type UserBankAccount = typeof userBankAccounts.$inferSelect;